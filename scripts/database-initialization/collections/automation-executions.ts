@@ -0,0 +1,39 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureIntegerAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_AUTOMATION_EXECUTIONS_ID || 'automation_executions';
+const COLLECTION_NAME = 'Automation Executions';
+
+export async function setupAutomationExecutions(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'ruleId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workItemId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'trigger', 128, true);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'status', ['SUCCESS', 'PARTIAL', 'FAILED', 'LOOP_BLOCKED'], true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'actionsExecuted', false, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'error', 2048, false);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'durationMs', false, 0);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'ruleId_idx', IndexType.Key, ['ruleId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_idx', IndexType.Key, ['workspaceId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workItemId_idx', IndexType.Key, ['workItemId']);
+}
@@ -0,0 +1,46 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureBooleanAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_AUTOMATION_RULES_ID || 'automation_rules';
+const COLLECTION_NAME = 'Automation Rules';
+
+export async function setupAutomationRules(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'spaceId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'name', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 2048, false);
+    await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'enabled', false, true);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'triggerType', ['EVENT', 'SCHEDULE'], true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'eventTypes', 128, false, undefined, true);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'schedule', ['HOURLY', 'DAILY', 'WEEKLY'], false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'conditions', 8192, false); // JSON FilterGroup
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'conditionsJql', 2048, false); // Source the conditions were parsed from
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'actions', 8192, true); // JSON AutomationAction[]
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'lastRunAt', false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_idx', IndexType.Key, ['workspaceId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_enabled_idx', IndexType.Key, ['projectId', 'enabled']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'spaceId_enabled_idx', IndexType.Key, ['spaceId', 'enabled']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'triggerType_enabled_idx', IndexType.Key, ['triggerType', 'enabled']);
+}
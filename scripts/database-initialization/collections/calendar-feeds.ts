@@ -0,0 +1,42 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_CALENDAR_FEEDS_ID || 'calendar_feeds';
+const COLLECTION_NAME = 'Calendar Feeds';
+
+/**
+ * iCalendar subscription feeds. Each row belongs to one user and covers
+ * their own work, a project or a program; only the token hash is stored.
+ */
+export async function setupCalendarFeeds(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'userId', 256, true);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'scope', ['USER', 'PROJECT', 'PROGRAM'], true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'programId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'name', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'tokenHash', 128, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'tokenPrefix', 32, true);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'lastAccessedAt', false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'tokenHash_unique_idx', IndexType.Unique, ['tokenHash']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspace_user_idx', IndexType.Key, ['workspaceId', 'userId']);
+}
@@ -25,6 +25,7 @@ export async function setupDepartments(databases: Databases, databaseId: string)
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'color', 64, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'icon', 256, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'parentDepartmentId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'leadUserId', 256, false);
     await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'memberCount', false, 0);
 
     await sleep(2000);
@@ -0,0 +1,40 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_NOTIFICATION_DIGEST_ITEMS_ID || 'notification_digest_items';
+const COLLECTION_NAME = 'Notification Digest Items';
+
+/**
+ * Emails held back by the dispatcher (digest mode or quiet hours).
+ * Written and drained by src/lib/notifications/digest.ts.
+ */
+export async function setupNotificationDigestItems(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'userId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'type', 128, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'reason', 32, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'title', 512, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'summary', 2048, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workitemId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workitemKey', 64, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'triggeredByName', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'deepLinkUrl', 1024, false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'userId_idx', IndexType.Key, ['userId']);
+}
@@ -20,7 +20,7 @@ export async function setupProgramMilestones(databases: Databases, databaseId: s
         Permission.read(Role.any()),
     ]);
 
-    // Attributes (from milestones-route.ts: programId, name, description, targetDate, status, progress, createdBy, position)
+    // Attributes (from milestones-route.ts: programId, name, description, targetDate, status, progress, epicIds, workItemIds, sprintIds, createdBy, position)
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'programId', 256, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'name', 512, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 4096, false);
@@ -28,6 +28,9 @@ export async function setupProgramMilestones(databases: Databases, databaseId: s
     await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'status',
         ['not_started', 'in_progress', 'completed', 'at_risk', 'delayed'], false, 'not_started');
     await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'progress', false, 0, 0, 100);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'epicIds', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workItemIds', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'sprintIds', 256, false, undefined, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, false);
     await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'position', false, 0, 0);
 
@@ -0,0 +1,43 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_TEMPLATES_ID || 'project_templates';
+const COLLECTION_NAME = 'Project Templates';
+
+/**
+ * Snapshots of a project's setup (workflow, custom fields, labels,
+ * priorities, work types, saved views and starter epics) that new
+ * projects can be created from. Collections are stored as JSON.
+ */
+export async function setupProjectTemplates(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'name', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 2000, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'sourceProjectId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workflowId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'customWorkItemTypes', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'customPriorities', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'customLabels', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'customFields', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'savedViews', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'starterEpics', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_idx', IndexType.Key, ['workspaceId']);
+}
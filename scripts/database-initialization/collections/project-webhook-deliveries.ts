@@ -2,7 +2,7 @@ import { Databases, IndexType, Permission, Role } from 'node-appwrite';
 import {
     ensureCollection,
     ensureStringAttribute,
-    ensureBooleanAttribute,
+    ensureEnumAttribute,
     ensureIntegerAttribute,
     ensureDatetimeAttribute,
     ensureIndex,
@@ -25,16 +25,18 @@ export async function setupProjectWebhookDeliveries(databases: Databases, databa
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'eventType', 256, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'payload', 65535, false);
-    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'responseStatus', false);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'status', ['PENDING', 'SUCCESS', 'FAILED', 'DEAD_LETTER'], true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'responseCode', false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'responseBody', 4096, false);
-    await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'isSuccess', true);
-    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'attemptCount', false, 1);
-    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'deliveredAt', true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'attempts', false, 0);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'nextAttemptAt', false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'lastAttemptAt', false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'redeliveryOf', 256, false);
 
     await sleep(2000);
 
     // Indexes
     await ensureIndex(databases, databaseId, COLLECTION_ID, 'webhookId_idx', IndexType.Key, ['webhookId']);
     await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_idx', IndexType.Key, ['projectId']);
-    await ensureIndex(databases, databaseId, COLLECTION_ID, 'isSuccess_idx', IndexType.Key, ['isSuccess']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'status_nextAttemptAt_idx', IndexType.Key, ['status', 'nextAttemptAt']);
 }
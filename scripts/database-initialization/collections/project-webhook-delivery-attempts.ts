@@ -0,0 +1,35 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIntegerAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID || 'project_webhook_delivery_attempts';
+const COLLECTION_NAME = 'Project Webhook Delivery Attempts';
+
+export async function setupProjectWebhookDeliveryAttempts(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'deliveryId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'webhookId', 256, true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'attempt', true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'responseCode', false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'error', 1024, false);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'durationMs', false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'completedAt', false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'deliveryId_idx', IndexType.Key, ['deliveryId']);
+}
@@ -26,11 +26,15 @@ export async function setupProjectWebhooks(databases: Databases, databaseId: str
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'name', 256, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'url', 1024, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'secret', 512, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'previousSecret', 512, false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'previousSecretExpiresAt', false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'events', 4096, true);
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'enabled', false, true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdByUserId', 256, true);
     await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'lastTriggeredAt', false);
     await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'failureCount', false, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'maxRetries', false, 3, 0, 10);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'retryBackoffSeconds', false, 30, 5, 3600);
 
     await sleep(2000);
 
@@ -40,7 +40,9 @@ export async function setupProjects(databases: Databases, databaseId: string): P
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'defaultAssigneeId', 256, false);
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'autoAssignToCreator', false, false);
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'enableTimeTracking', false, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'currency', 3, false, 'USD'); // Billing currency for time
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'wipLimits', 4096, false); // JSON
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'wipEnforcement', ['BLOCK', 'OVERRIDE'], false, 'OVERRIDE');
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'defaultSwimlane', 32, false, 'none');
 
     // Agile Settings
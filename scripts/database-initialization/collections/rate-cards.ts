@@ -0,0 +1,41 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureFloatAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_RATE_CARDS_ID || 'rate_cards';
+const COLLECTION_NAME = 'Rate Cards';
+
+/**
+ * Hourly rates for billable time. A card without projectId applies to every
+ * project in the workspace; userId or role narrows it to one member or
+ * project role. The most specific matching card prices a time log.
+ */
+export async function setupRateCards(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'userId', 256, false);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'role', ['PROJECT_OWNER', 'PROJECT_ADMIN', 'MEMBER', 'VIEWER'], false);
+    await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'hourlyRate', true, undefined, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'currency', 3, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_idx', IndexType.Key, ['workspaceId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspace_project_idx', IndexType.Key, ['workspaceId', 'projectId']);
+}
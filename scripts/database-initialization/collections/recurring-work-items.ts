@@ -0,0 +1,62 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureIntegerAttribute,
+    ensureFloatAttribute,
+    ensureBooleanAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_RECURRING_WORK_ITEMS_ID || 'recurring_work_items';
+const COLLECTION_NAME = 'Recurring Work Items';
+
+/**
+ * Project templates that spawn a work item on a schedule (UTC).
+ * The recurring cron creates items for templates whose nextRunAt has passed.
+ */
+export async function setupRecurringWorkItems(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes - template
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'title', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 65535, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'type', 64, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'priority', 64, true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'storyPoints', false, undefined, 0, 100);
+    await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'estimatedHours', false, undefined, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'assigneeIds', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'labels', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'customFields', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'subtaskTitles', 256, false, undefined, true);
+    await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'addToActiveSprint', false, false);
+
+    // Attributes - schedule
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'frequency', ['DAILY', 'WEEKLY', 'MONTHLY', 'CRON'], true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'timeOfDay', 5, false); // HH:mm UTC
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'weekdays', false, undefined, 0, 6, true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'monthWeek', false, undefined, -1, 4);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'monthWeekday', false, undefined, 0, 6);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'cronExpression', 256, false);
+    await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'paused', false, false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'nextRunAt', false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'lastRunAt', false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'lastWorkItemId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_idx', IndexType.Key, ['projectId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'paused_nextRunAt_idx', IndexType.Key, ['paused', 'nextRunAt']);
+}
@@ -26,6 +26,7 @@ export async function setupSavedViews(databases: Databases, databaseId: string):
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'name', 256, true);
     await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'viewType', ['board', 'table', 'calendar', 'timeline', 'dashboard'], true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'filters', 65535, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'jql', 5000, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'sortBy', 256, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'groupBy', 256, false);
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'isShared', false, false);
@@ -0,0 +1,38 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureFloatAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_SPRINT_CAPACITIES_ID || 'sprint_capacities';
+const COLLECTION_NAME = 'Sprint Capacities';
+
+/**
+ * One row per sprint per member: hours / points per day and days off.
+ * Compared with committed work on the sprint board.
+ */
+export async function setupSprintCapacities(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'sprintId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'memberId', 256, true);
+    await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'hoursPerDay', false, undefined, 0, 24);
+    await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'pointsPerDay', false, undefined, 0, 100);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'daysOff', 10, false, undefined, true); // YYYY-MM-DD
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'sprintId_memberId_idx', IndexType.Unique, ['sprintId', 'memberId']);
+}
@@ -0,0 +1,41 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIntegerAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_SPRINT_REPORTS_ID || 'sprint_reports';
+const COLLECTION_NAME = 'Sprint Reports';
+
+/**
+ * One row per completed sprint: committed vs completed scope, items added
+ * and removed mid-sprint, carry-over and per-assignee completion.
+ */
+export async function setupSprintReports(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'sprintId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'completedAt', true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'committedPoints', false, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'completedPoints', false, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'carryOverPoints', false, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'details', 65535, true); // JSON
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'sprintId_idx', IndexType.Unique, ['sprintId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_idx', IndexType.Key, ['projectId']);
+}
@@ -0,0 +1,42 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIntegerAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_SPRINT_SNAPSHOTS_ID || 'sprint_snapshots';
+const COLLECTION_NAME = 'Sprint Snapshots';
+
+/**
+ * One row per sprint per day (UTC), written by the daily snapshot cron
+ * and on sprint completion. Powers burndown, burnup and velocity reports.
+ */
+export async function setupSprintSnapshots(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'sprintId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'date', 10, true); // YYYY-MM-DD
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'totalPoints', false, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'completedPoints', false, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'remainingPoints', false, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'totalItems', false, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'completedItems', false, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'itemIds', 256, false, undefined, true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'sprintId_date_idx', IndexType.Unique, ['sprintId', 'date']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_idx', IndexType.Key, ['projectId']);
+}
@@ -39,6 +39,8 @@ export async function setupSprints(databases: Databases, databaseId: string): Pr
     await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'velocity', false, 0);
 
     await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'completedAt', false);
+    // Items in the sprint when it started, for the completion report
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'committedItemIds', 256, false, undefined, true);
 
     await sleep(2000);
 
@@ -0,0 +1,39 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_STATUS_CHANGES_ID || 'status_changes';
+const COLLECTION_NAME = 'Status Changes';
+
+/**
+ * One row per work item status transition. Powers cumulative flow,
+ * cycle time, lead time and throughput analytics.
+ */
+export async function setupStatusChanges(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workItemId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'fromStatus', 128, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'toStatus', 128, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'changedBy', 256, false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'changedAt', true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_changedAt_idx', IndexType.Key, ['projectId', 'changedAt']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workItemId_idx', IndexType.Key, ['workItemId']);
+}
@@ -28,6 +28,8 @@ export async function setupTimeLogs(databases: Databases, databaseId: string): P
     await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'loggedHours', true);
     await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'logDate', true);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 2048, false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'startTime', false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'endTime', false);
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'isBillable', false, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'lastModifiedBy', 256, false);
@@ -0,0 +1,40 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_TIMERS_ID || 'timers';
+const COLLECTION_NAME = 'Timers';
+
+/**
+ * Running timers. A user has at most one (unique userId); stopping it
+ * deletes the row and writes a time log. lastActiveAt is the last
+ * heartbeat from an active browser, used to detect idle time.
+ */
+export async function setupTimers(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'userId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'taskId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 2048, false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'startedAt', true);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'lastActiveAt', true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'userId_unique_idx', IndexType.Unique, ['userId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'taskId_idx', IndexType.Key, ['taskId']);
+}
@@ -0,0 +1,47 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureFloatAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_TIMESHEETS_ID || 'timesheets';
+const COLLECTION_NAME = 'Timesheets';
+
+/**
+ * Weekly timesheet submissions: one row per user, workspace and week once
+ * the week is first submitted. Submitted and approved weeks lock their
+ * time logs.
+ */
+export async function setupTimesheets(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'userId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'weekStart', 10, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'weekEnd', 10, true);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'status', ['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED'], true);
+    await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'totalHours', false, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectIds', 256, false, undefined, true);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'submittedAt', false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'decidedBy', 256, false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'decidedAt', false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'rejectionReason', 1000, false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspace_user_week_unique_idx', IndexType.Unique, ['workspaceId', 'userId', 'weekStart']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspace_status_idx', IndexType.Key, ['workspaceId', 'status']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspace_week_idx', IndexType.Key, ['workspaceId', 'weekStart']);
+}
@@ -0,0 +1,45 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_TRANSITION_APPROVALS_ID || 'transition_approvals';
+const COLLECTION_NAME = 'Transition Approvals';
+
+export async function setupTransitionApprovals(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workItemId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workflowId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'transitionId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'fromStatus', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'toStatus', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'requestedBy', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'requestComment', 2048, false);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'status', ['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED'], false, 'PENDING');
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'approverTeamIds', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'decidedBy', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'decisionComment', 2048, false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'decidedAt', false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workItemId_idx', IndexType.Key, ['workItemId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_status_idx', IndexType.Key, ['projectId', 'status']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_status_idx', IndexType.Key, ['workspaceId', 'status']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'requestedBy_idx', IndexType.Key, ['requestedBy']);
+}
@@ -0,0 +1,42 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIntegerAttribute,
+    ensureEnumAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_WIP_BREACHES_ID || 'wip_breaches';
+const COLLECTION_NAME = 'WIP Breaches';
+
+/**
+ * One row per column whose WIP limit a move would exceed, written when the
+ * move is blocked or overridden. Surfaced in the project audit trail.
+ */
+export async function setupWipBreaches(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'userId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'status', 128, true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'limit', true, undefined, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'count', true, undefined, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'itemIds', 256, false, undefined, true);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'outcome', ['BLOCKED', 'OVERRIDDEN'], true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 512, false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_idx', IndexType.Key, ['workspaceId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_idx', IndexType.Key, ['projectId']);
+}
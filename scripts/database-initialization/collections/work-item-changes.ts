@@ -0,0 +1,48 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureEnumAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_CHANGES_ID || 'work_item_changes';
+const COLLECTION_NAME = 'Work Item Changes';
+
+/**
+ * Append-only change log: one row per work item field changed, with the
+ * old and new value, who changed it and through which path. Rows written
+ * by the same mutation share a batchId. Backs the task history and the
+ * audit log.
+ */
+export async function setupWorkItemChanges(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workItemId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'batchId', 64, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'field', 64, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'oldValue', 10000, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'newValue', 10000, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'changedBy', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'changedByName', 256, false);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'source', ['APP', 'BULK_UPDATE', 'BULK_MOVE', 'SPLIT', 'MCP', 'SLACK', 'DISCORD', 'WORKFLOW', 'AUTOMATION', 'SPRINT', 'IMPORT', 'RECURRING', 'AI'], true);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'changedAt', true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workItemId_changedAt_idx', IndexType.Key, ['workItemId', 'changedAt']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_changedAt_idx', IndexType.Key, ['workspaceId', 'changedAt']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_changedAt_idx', IndexType.Key, ['projectId', 'changedAt']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'changedBy_idx', IndexType.Key, ['changedBy']);
+}
@@ -0,0 +1,58 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIntegerAttribute,
+    ensureEnumAttribute,
+    ensureDatetimeAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_IMPORTS_ID || 'work_item_imports';
+const COLLECTION_NAME = 'Work Item Imports';
+
+/**
+ * One bulk import of work items from a CSV or JSON file. The parsed rows,
+ * column mapping and dry-run report are kept on the document, and the
+ * background run records its progress (and the work items it created, so an
+ * interrupted run can resume) here as well.
+ */
+export async function setupWorkItemImports(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes - source
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'fileName', 256, true);
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'format', ['CSV', 'JIRA_CSV', 'JSON', 'TRELLO_JSON'], true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'columns', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'rows', 10000000, true); // JSON
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'rowCount', true, undefined, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'mapping', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'report', 1000000, false); // JSON
+
+    // Attributes - run
+    await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'status', ['DRAFT', 'VALIDATED', 'QUEUED', 'RUNNING', 'COMPLETED', 'FAILED'], true);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'processed', false, 0, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'created', false, 0, 0);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'failed', false, 0, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'results', 1000000, false); // JSON: row -> work item ID
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'failures', 1000000, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'lastError', 2000, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, true);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'startedAt', false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'heartbeatAt', false);
+    await ensureDatetimeAttribute(databases, databaseId, COLLECTION_ID, 'completedAt', false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'project_idx', IndexType.Key, ['projectId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'status_heartbeat_idx', IndexType.Key, ['status', 'heartbeatAt']);
+}
@@ -0,0 +1,32 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_SEARCH_INDEX_ID || 'work_item_search_index';
+const COLLECTION_NAME = 'Work Item Search Index';
+
+export async function setupWorkItemSearchIndex(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes (document $id mirrors the work item $id)
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workItemId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'content', 65535, false);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workItemId_idx', IndexType.Key, ['workItemId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_idx', IndexType.Key, ['projectId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'content_fulltext', IndexType.Fulltext, ['content']);
+}
@@ -0,0 +1,49 @@
+import { Databases, IndexType, Permission, Role } from 'node-appwrite';
+import {
+    ensureCollection,
+    ensureStringAttribute,
+    ensureIntegerAttribute,
+    ensureFloatAttribute,
+    ensureIndex,
+    sleep,
+} from '../lib/db-helpers';
+import { logger } from '../lib/logger';
+
+const COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_TEMPLATES_ID || 'work_item_templates';
+const COLLECTION_NAME = 'Work Item Templates';
+
+/**
+ * Named presets picked when creating a work item: a description skeleton,
+ * default fields, subtasks and a checklist. Without a projectId a template
+ * is offered in every project of the workspace.
+ */
+export async function setupWorkItemTemplates(databases: Databases, databaseId: string): Promise<void> {
+    logger.collection(COLLECTION_NAME);
+
+    await ensureCollection(databases, databaseId, COLLECTION_ID, COLLECTION_NAME, [
+        Permission.read(Role.any()),
+    ]);
+
+    // Attributes
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'workspaceId', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'projectId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'name', 256, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'summary', 1000, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'title', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'description', 65535, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'type', 64, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'priority', 64, false);
+    await ensureIntegerAttribute(databases, databaseId, COLLECTION_ID, 'storyPoints', false, undefined, 0, 100);
+    await ensureFloatAttribute(databases, databaseId, COLLECTION_ID, 'estimatedHours', false, undefined, 0);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'labels', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'customFields', 65535, false); // JSON
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'subtaskTitles', 256, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'checklist', 512, false, undefined, true);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, true);
+
+    await sleep(2000);
+
+    // Indexes
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'workspaceId_idx', IndexType.Key, ['workspaceId']);
+    await ensureIndex(databases, databaseId, COLLECTION_ID, 'projectId_idx', IndexType.Key, ['projectId']);
+}
@@ -62,6 +62,7 @@ export async function setupWorkItems(databases: Databases, databaseId: string):
     // Audit & Ownership
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'flagged', false, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'reporterId', 256, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'watcherIds', 256, false, undefined, true); // Array of user IDs
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'lastModifiedBy', 256, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'programId', 256, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'customFields', 65535, false); // JSON
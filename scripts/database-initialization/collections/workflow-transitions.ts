@@ -33,6 +33,8 @@ export async function setupWorkflowTransitions(databases: Databases, databaseId:
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'requiresApproval', false, false);
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'approverTeamIds', 2048, false, undefined, true);
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'requiresComment', false, false);
+    await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'autoTransition', false, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'conditions', 1024, false);
 
     await sleep(2000);
 
@@ -29,6 +29,7 @@ export async function setupWorkspaces(databases: Databases, databaseId: string):
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'billingAccountId', 256, false);
     await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'uiMode', ['simple', 'advanced'], false, 'simple');
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'features', 4096, false);
+    await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'holidays', 10, false, undefined, true); // YYYY-MM-DD
     await ensureBooleanAttribute(databases, databaseId, COLLECTION_ID, 'isDefault', false, false);
     await ensureEnumAttribute(databases, databaseId, COLLECTION_ID, 'billingScope', ['user', 'organization'], false, 'user');
     await ensureStringAttribute(databases, databaseId, COLLECTION_ID, 'createdBy', 256, false);
@@ -21,10 +21,17 @@ import { setupProjectMembers } from './collections/project-members';
 import { setupProjectRoles } from './collections/project-roles';
 import { setupWorkItems } from './collections/work-items';
 import { setupSprints } from './collections/sprints';
+import { setupSprintSnapshots } from './collections/sprint-snapshots';
+import { setupWipBreaches } from './collections/wip-breaches';
+import { setupStatusChanges } from './collections/status-changes';
+import { setupWorkItemChanges } from './collections/work-item-changes';
+import { setupSprintCapacities } from './collections/sprint-capacities';
+import { setupSprintReports } from './collections/sprint-reports';
 import { setupPersonalBacklog } from './collections/personal-backlog';
 import { setupCustomColumns } from './collections/custom-columns';
 import { setupDefaultColumnSettings } from './collections/default-column-settings';
 import { setupNotifications } from './collections/notifications';
+import { setupNotificationDigestItems } from './collections/notification-digest-items';
 import { setupAttachments } from './collections/attachments';
 import { setupComments } from './collections/comments';
 import { setupProjectDocs } from './collections/project-docs';
@@ -71,14 +78,27 @@ import { setupSpaceMembers } from './collections/space-members';
 import { setupWorkflows } from './collections/workflows';
 import { setupWorkflowStatuses } from './collections/workflow-statuses';
 import { setupWorkflowTransitions } from './collections/workflow-transitions';
+import { setupTransitionApprovals } from './collections/transition-approvals';
+import { setupAutomationRules } from './collections/automation-rules';
+import { setupAutomationExecutions } from './collections/automation-executions';
+import { setupRecurringWorkItems } from './collections/recurring-work-items';
 import { setupCustomFields } from './collections/custom-fields';
 import { setupCustomWorkItemTypes } from './collections/custom-work-item-types';
 import { setupWorkItemLinks } from './collections/work-item-links';
 import { setupSavedViews } from './collections/saved-views';
+import { setupWorkItemTemplates } from './collections/work-item-templates';
+import { setupProjectTemplates } from './collections/project-templates';
+import { setupWorkItemImports } from './collections/work-item-imports';
+import { setupWorkItemSearchIndex } from './collections/work-item-search-index';
+import { setupCalendarFeeds } from './collections/calendar-feeds';
 import { setupSubtasks } from './collections/subtasks';
 import { setupTimeLogs } from './collections/time-logs';
+import { setupTimers } from './collections/timers';
+import { setupTimesheets } from './collections/timesheets';
+import { setupRateCards } from './collections/rate-cards';
 import { setupProjectWebhooks } from './collections/project-webhooks';
 import { setupProjectWebhookDeliveries } from './collections/project-webhook-deliveries';
+import { setupProjectWebhookDeliveryAttempts } from './collections/project-webhook-delivery-attempts';
 import { setupUserRecoveryCodes } from './collections/user-recovery-codes';
 import { setupEmailOtpCodes } from './collections/email-otp-codes';
 import { setupBYOBTenants } from './collections/byob-tenants';
@@ -104,12 +124,19 @@ const collectionSetups: Array<{
         // Work Management
         { name: 'Work Items', setup: setupWorkItems },
         { name: 'Sprints', setup: setupSprints },
+        { name: 'Sprint Snapshots', setup: setupSprintSnapshots },
+        { name: 'WIP Breaches', setup: setupWipBreaches },
+        { name: 'Status Changes', setup: setupStatusChanges },
+        { name: 'Work Item Changes', setup: setupWorkItemChanges },
+        { name: 'Sprint Capacities', setup: setupSprintCapacities },
+        { name: 'Sprint Reports', setup: setupSprintReports },
         { name: 'Personal Backlog', setup: setupPersonalBacklog },
         { name: 'Custom Columns', setup: setupCustomColumns },
         { name: 'Default Column Settings', setup: setupDefaultColumnSettings },
 
         // Collaboration
         { name: 'Notifications', setup: setupNotifications },
+        { name: 'Notification Digest Items', setup: setupNotificationDigestItems },
         { name: 'Attachments', setup: setupAttachments },
         { name: 'Comments', setup: setupComments },
         { name: 'Project Docs', setup: setupProjectDocs },
@@ -177,18 +204,31 @@ const collectionSetups: Array<{
         { name: 'Workflows', setup: setupWorkflows },
         { name: 'Workflow Statuses', setup: setupWorkflowStatuses },
         { name: 'Workflow Transitions', setup: setupWorkflowTransitions },
+        { name: 'Transition Approvals', setup: setupTransitionApprovals },
+        { name: 'Automation Rules', setup: setupAutomationRules },
+        { name: 'Automation Executions', setup: setupAutomationExecutions },
+        { name: 'Recurring Work Items', setup: setupRecurringWorkItems },
 
         // Customization
         { name: 'Custom Fields', setup: setupCustomFields },
         { name: 'Custom Work Item Types', setup: setupCustomWorkItemTypes },
         { name: 'Work Item Links', setup: setupWorkItemLinks },
         { name: 'Saved Views', setup: setupSavedViews },
+        { name: 'Work Item Templates', setup: setupWorkItemTemplates },
+        { name: 'Project Templates', setup: setupProjectTemplates },
+        { name: 'Work Item Imports', setup: setupWorkItemImports },
+        { name: 'Work Item Search Index', setup: setupWorkItemSearchIndex },
+        { name: 'Calendar Feeds', setup: setupCalendarFeeds },
         { name: 'Subtasks', setup: setupSubtasks },
         { name: 'Time Logs', setup: setupTimeLogs },
+        { name: 'Timers', setup: setupTimers },
+        { name: 'Timesheets', setup: setupTimesheets },
+        { name: 'Rate Cards', setup: setupRateCards },
 
         // Webhooks
         { name: 'Project Webhooks', setup: setupProjectWebhooks },
         { name: 'Project Webhook Deliveries', setup: setupProjectWebhookDeliveries },
+        { name: 'Project Webhook Delivery Attempts', setup: setupProjectWebhookDeliveryAttempts },
 
         // Auth (additional)
         { name: 'User Recovery Codes', setup: setupUserRecoveryCodes },
@@ -236,12 +276,19 @@ function getAutoGeneratedVars(): Record<string, string> {
         NEXT_PUBLIC_APPWRITE_WORK_ITEMS_ID: process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEMS_ID || 'workItems',
         NEXT_PUBLIC_APPWRITE_TASKS_ID: process.env.NEXT_PUBLIC_APPWRITE_TASKS_ID || 'workItems',
         NEXT_PUBLIC_APPWRITE_SPRINTS_ID: process.env.NEXT_PUBLIC_APPWRITE_SPRINTS_ID || 'sprints',
+        NEXT_PUBLIC_APPWRITE_SPRINT_SNAPSHOTS_ID: 'sprint_snapshots',
+        NEXT_PUBLIC_APPWRITE_SPRINT_CAPACITIES_ID: 'sprint_capacities',
+        NEXT_PUBLIC_APPWRITE_SPRINT_REPORTS_ID: 'sprint_reports',
+        NEXT_PUBLIC_APPWRITE_WIP_BREACHES_ID: 'wip_breaches',
+        NEXT_PUBLIC_APPWRITE_STATUS_CHANGES_ID: 'status_changes',
+        NEXT_PUBLIC_APPWRITE_WORK_ITEM_CHANGES_ID: 'work_item_changes',
         NEXT_PUBLIC_APPWRITE_PERSONAL_BACKLOG_ID: process.env.NEXT_PUBLIC_APPWRITE_PERSONAL_BACKLOG_ID || 'personalBacklog',
         NEXT_PUBLIC_APPWRITE_CUSTOM_COLUMNS_ID: process.env.NEXT_PUBLIC_APPWRITE_CUSTOM_COLUMNS_ID || 'custom-columns',
         NEXT_PUBLIC_APPWRITE_DEFAULT_COLUMN_SETTINGS_ID: process.env.NEXT_PUBLIC_APPWRITE_DEFAULT_COLUMN_SETTINGS_ID || 'default_column_settings',
 
         // ── Collaboration Collections ──
         NEXT_PUBLIC_APPWRITE_NOTIFICATIONS_ID: process.env.NEXT_PUBLIC_APPWRITE_NOTIFICATIONS_ID || 'notifications',
+        NEXT_PUBLIC_APPWRITE_NOTIFICATION_DIGEST_ITEMS_ID: 'notification_digest_items',
         NEXT_PUBLIC_APPWRITE_ATTACHMENTS_ID: process.env.NEXT_PUBLIC_APPWRITE_ATTACHMENTS_ID || 'attachments',
         NEXT_PUBLIC_APPWRITE_COMMENTS_ID: process.env.NEXT_PUBLIC_APPWRITE_COMMENTS_ID || 'comments',
         NEXT_PUBLIC_APPWRITE_PROJECT_DOCS_ID: process.env.NEXT_PUBLIC_APPWRITE_PROJECT_DOCS_ID || 'project_docs',
@@ -310,18 +357,31 @@ function getAutoGeneratedVars(): Record<string, string> {
         NEXT_PUBLIC_APPWRITE_WORKFLOWS_ID: 'workflows',
         NEXT_PUBLIC_APPWRITE_WORKFLOW_STATUSES_ID: 'workflow_statuses',
         NEXT_PUBLIC_APPWRITE_WORKFLOW_TRANSITIONS_ID: 'workflow_transitions',
+        NEXT_PUBLIC_APPWRITE_TRANSITION_APPROVALS_ID: 'transition_approvals',
+        NEXT_PUBLIC_APPWRITE_AUTOMATION_RULES_ID: 'automation_rules',
+        NEXT_PUBLIC_APPWRITE_AUTOMATION_EXECUTIONS_ID: 'automation_executions',
+        NEXT_PUBLIC_APPWRITE_RECURRING_WORK_ITEMS_ID: 'recurring_work_items',
 
         // ── Customization Collections ──
         NEXT_PUBLIC_APPWRITE_CUSTOM_FIELDS_ID: 'custom_fields',
         NEXT_PUBLIC_APPWRITE_CUSTOM_WORK_ITEM_TYPES_ID: 'custom_work_item_types',
         NEXT_PUBLIC_APPWRITE_WORK_ITEM_LINKS_ID: 'work_item_links',
         NEXT_PUBLIC_APPWRITE_SAVED_VIEWS_ID: 'saved_views',
+        NEXT_PUBLIC_APPWRITE_WORK_ITEM_TEMPLATES_ID: 'work_item_templates',
+        NEXT_PUBLIC_APPWRITE_PROJECT_TEMPLATES_ID: 'project_templates',
+        NEXT_PUBLIC_APPWRITE_WORK_ITEM_IMPORTS_ID: 'work_item_imports',
+        NEXT_PUBLIC_APPWRITE_WORK_ITEM_SEARCH_INDEX_ID: 'work_item_search_index',
+        NEXT_PUBLIC_APPWRITE_CALENDAR_FEEDS_ID: 'calendar_feeds',
         NEXT_PUBLIC_APPWRITE_SUBTASKS_ID: 'subtasks',
         NEXT_PUBLIC_APPWRITE_TIME_LOGS_ID: process.env.NEXT_PUBLIC_APPWRITE_TIME_LOGS_ID || 'time_logs',
+        NEXT_PUBLIC_APPWRITE_TIMERS_ID: 'timers',
+        NEXT_PUBLIC_APPWRITE_TIMESHEETS_ID: 'timesheets',
+        NEXT_PUBLIC_APPWRITE_RATE_CARDS_ID: 'rate_cards',
 
         // ── Webhook Collections ──
         NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOKS_ID: 'project_webhooks',
         NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOK_DELIVERIES_ID: 'project_webhook_deliveries',
+        NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID: 'project_webhook_delivery_attempts',
 
         // ── Storage Buckets ──
         NEXT_PUBLIC_APPWRITE_IMAGES_BUCKET_ID: process.env.NEXT_PUBLIC_APPWRITE_IMAGES_BUCKET_ID || 'images',
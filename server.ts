@@ -17,7 +17,7 @@ config({ path: ".env.local" });
 
 import { createServer, IncomingMessage, ServerResponse } from "http";
 import next from "next";
-import { initSocketServer, emitToUser } from "./src/lib/socket";
+import { initSocketServer, emitToUser, emitToProject } from "./src/lib/socket";
 
 const dev = process.env.NODE_ENV !== "production";
 const hostname = process.env.HOSTNAME || "localhost";
@@ -89,12 +89,59 @@ async function handleInternalPush(req: IncomingMessage, res: ServerResponse): Pr
     }
 }
 
+/**
+ * Handle internal board push endpoint
+ * POST /internal/board-push
+ * Body: { payload, secret }
+ */
+async function handleInternalBoardPush(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    if (req.method !== "POST" || !req.url?.startsWith("/internal/board-push")) {
+        return false; // Not handled
+    }
+
+    try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+        const body = JSON.parse(Buffer.concat(chunks).toString());
+
+        if (body.secret !== SOCKET_PUSH_SECRET) {
+            res.writeHead(401, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "Unauthorized" }));
+            return true;
+        }
+
+        const { payload } = body;
+
+        if (!payload?.projectId || !Array.isArray(payload.items)) {
+            res.writeHead(400, { "Content-Type": "application/json" });
+            res.end(JSON.stringify({ error: "Missing projectId or items" }));
+            return true;
+        }
+
+        // Broadcast to the project board room
+        emitToProject(payload);
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ success: true }));
+        return true;
+    } catch (error) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Internal error" }));
+        return true;
+    }
+}
+
 app.prepare().then(() => {
     const httpServer = createServer(async (req, res) => {
         // Handle internal push endpoint first
         const handled = await handleInternalPush(req, res);
         if (handled) return;
 
+        const boardHandled = await handleInternalBoardPush(req, res);
+        if (boardHandled) return;
+
         handle(req, res);
     });
 
@@ -107,5 +154,6 @@ app.prepare().then(() => {
         console.log(`> Ready on http://${hostname}:${port}`);
         console.log(`> Socket.IO ready on /api/socket`);
         console.log(`> Internal push endpoint: /internal/socket-push`);
+        console.log(`> Internal board push endpoint: /internal/board-push`);
     });
 });
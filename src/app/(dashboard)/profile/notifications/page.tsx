@@ -0,0 +1,15 @@
+"use client";
+
+import { useCurrent } from "@/features/auth/api/use-current";
+import { NotificationPreferences } from "@/features/notifications/components/notification-preferences";
+import { PageLoader } from "@/components/page-loader";
+
+const NotificationsPage = () => {
+  const { data: user, isLoading } = useCurrent();
+
+  if (isLoading || !user) return <PageLoader />;
+
+  return <NotificationPreferences />;
+};
+
+export default NotificationsPage;
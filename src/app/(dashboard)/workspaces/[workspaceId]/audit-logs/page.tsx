@@ -357,6 +357,7 @@ export default function AuditLogsPage() {
                 <SelectItem className="text-xs" value={ActivityType.MEMBER}>Members</SelectItem>
                 <SelectItem className="text-xs" value={ActivityType.TIME_LOG}>Time Logs</SelectItem>
                 <SelectItem className="text-xs" value={ActivityType.ATTACHMENT}>Attachments</SelectItem>
+                <SelectItem className="text-xs" value={ActivityType.WIP_BREACH}>WIP Breaches</SelectItem>
               </SelectContent>
             </Select>
 
@@ -0,0 +1,30 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+import { TimesheetApprovalsQueue } from "@/features/time-tracking/components/timesheet-approvals-queue";
+
+export const TimesheetApprovalsClient = () => {
+  const params = useParams();
+  const workspaceId = params.workspaceId as string;
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/workspaces/${workspaceId}/time-tracking`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Time Tracking
+          </Link>
+        </Button>
+      </div>
+      <h1 className="text-2xl font-semibold">Timesheet Approvals</h1>
+
+      <TimesheetApprovalsQueue workspaceId={workspaceId} />
+    </div>
+  );
+};
@@ -0,0 +1,5 @@
+import { TimesheetApprovalsClient } from "./client";
+
+const TimesheetApprovalsPage = () => <TimesheetApprovalsClient />;
+
+export default TimesheetApprovalsPage;
@@ -1,14 +1,20 @@
 "use client";
 
+import Link from "next/link";
 import { useParams } from "next/navigation";
+import { ClipboardCheck } from "lucide-react";
 
+import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PageLoader } from "@/components/page-loader";
 import { PageError } from "@/components/page-error";
 
+import { useCurrentMember } from "@/features/members/hooks/use-current-member";
 import { useGetProjects } from "@/features/projects/api/use-get-projects";
 import { TimesheetView } from "@/features/time-tracking/components/timesheet-view";
 import { EstimatesVsActuals } from "@/features/time-tracking/components/estimates-vs-actuals";
+import { CostReport } from "@/features/time-tracking/components/cost-report";
+import { RateCardsSettings } from "@/features/time-tracking/components/rate-cards-settings";
 
 export const TimeTrackingClient = () => {
   const params = useParams();
@@ -19,6 +25,7 @@ export const TimeTrackingClient = () => {
     isLoading: isLoadingProjects,
     error: projectsError,
   } = useGetProjects({ workspaceId });
+  const { isAdmin } = useCurrentMember({ workspaceId });
 
   if (isLoadingProjects) {
     return <PageLoader />;
@@ -32,12 +39,20 @@ export const TimeTrackingClient = () => {
     <div className="flex flex-col gap-y-4">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-semibold">Time Tracking</h1>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/workspaces/${workspaceId}/time-tracking/approvals`}>
+            <ClipboardCheck className="h-4 w-4 mr-2" />
+            Approvals
+          </Link>
+        </Button>
       </div>
 
       <Tabs defaultValue="timesheet" className="w-full">
         <TabsList className="bg-muted border border-border">
           <TabsTrigger value="timesheet">Timesheet</TabsTrigger>
           <TabsTrigger value="estimates">Estimates vs Actuals</TabsTrigger>
+          <TabsTrigger value="costs">Cost Report</TabsTrigger>
+          {isAdmin && <TabsTrigger value="rates">Rates</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="timesheet" className="space-y-4">
@@ -50,6 +65,19 @@ export const TimeTrackingClient = () => {
             projects={projects?.documents}
           />
         </TabsContent>
+
+        <TabsContent value="costs" className="space-y-4">
+          <CostReport
+            workspaceId={workspaceId}
+            projects={projects?.documents}
+          />
+        </TabsContent>
+
+        {isAdmin && (
+          <TabsContent value="rates" className="space-y-4">
+            <RateCardsSettings workspaceId={workspaceId} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
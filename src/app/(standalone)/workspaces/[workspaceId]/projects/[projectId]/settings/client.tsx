@@ -26,6 +26,10 @@ import {
   Layers,
   Webhook,
   Puzzle,
+  Zap,
+  Repeat,
+  Upload,
+  BadgeDollarSign,
 } from "lucide-react";
 import { GoHome } from "react-icons/go";
 import { useSearchParams } from "next/navigation";
@@ -39,10 +43,18 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -68,13 +80,19 @@ import { useGetProjectAnalytics } from "@/features/projects/api/use-get-project-
 import { useProjectId } from "@/features/projects/hooks/use-project-id";
 import { useCurrentMember } from "@/features/members/hooks/use-current-member";
 import { updateProjectSchema } from "@/features/projects/schemas";
+import { WipEnforcement } from "@/features/projects/types";
 import { WorkTypesSettings } from "@/features/projects/components/work-types-settings";
 import { PrioritySettings } from "@/features/projects/components/priority-settings";
 import { LabelSettings } from "@/features/projects/components/label-settings";
 import { CopySettingsDialog } from "@/features/projects/components/copy-settings-dialog";
 import { WebhookSettings } from "@/features/webhooks/components/webhook-settings";
+import { AutomationRulesSettings } from "@/features/automation-rules/components/automation-rules-settings";
+import { RecurringWorkItemsSettings } from "@/features/recurring-work-items/components/recurring-work-items-settings";
+import { WorkItemImportsSettings } from "@/features/work-item-imports/components/work-item-imports-settings";
 import { useProjectPermissions } from "@/hooks/use-project-permissions";
 import { ProjectIntegrationsSettings } from "@/features/projects/components/project-integrations-settings";
+import { RateCardsSettings } from "@/features/time-tracking/components/rate-cards-settings";
+import { useGetCurrencyRates } from "@/features/currency/api/use-currency";
 
 const ProjectIdSettingsClientContent = () => {
   const projectId = useProjectId();
@@ -93,13 +111,15 @@ const ProjectIdSettingsClientContent = () => {
   // Data fetching
   const { data: project, isLoading: isLoadingProject } = useGetProject({ projectId });
   const { data: analytics, isLoading: isLoadingAnalytics } = useGetProjectAnalytics({ projectId });
+  const { data: currencyRates } = useGetCurrencyRates();
+  const projectCurrency = (project && "currency" in project && project.currency) || "USD";
 
   const { isLoading: isMemberLoading, isAdmin } = useCurrentMember({
     workspaceId: project?.workspaceId || "",
   });
 
   // Project-level permissions for delete
-  const { canDeleteProject } = useProjectPermissions({
+  const { canDeleteProject, canManageProjectSettings, canCreateTasks, isProjectAdmin } = useProjectPermissions({
     projectId,
     workspaceId: project?.workspaceId,
   });
@@ -119,6 +139,7 @@ const ProjectIdSettingsClientContent = () => {
       customWorkItemTypes: project?.customWorkItemTypes || [],
       customPriorities: project?.customPriorities || [],
       customLabels: project?.customLabels || [],
+      wipEnforcement: project?.wipEnforcement || WipEnforcement.OVERRIDE,
     },
   });
 
@@ -133,6 +154,7 @@ const ProjectIdSettingsClientContent = () => {
         customWorkItemTypes: project.customWorkItemTypes || [],
         customPriorities: project.customPriorities || [],
         customLabels: project.customLabels || [],
+        wipEnforcement: project.wipEnforcement || WipEnforcement.OVERRIDE,
       });
     }
   }, [project, form, isUpdating]);
@@ -194,6 +216,10 @@ const ProjectIdSettingsClientContent = () => {
     { id: "priorities", label: "Priorities", icon: Flag },
     { id: "labels", label: "Labels", icon: Tag },
     { id: "webhooks", label: "Webhooks", icon: Webhook },
+    { id: "automation", label: "Automation", icon: Zap },
+    { id: "recurring", label: "Recurring", icon: Repeat },
+    { id: "import", label: "Import", icon: Upload },
+    ...((isAdmin || isProjectAdmin) ? [{ id: "billing", label: "Billing", icon: BadgeDollarSign }] : []),
     { id: "integrations", label: "Integrations", icon: Puzzle },
     ...((isAdmin || canDeleteProject) ? [{ id: "danger", label: "Danger Zone", icon: Shield, danger: true }] : []),
   ];
@@ -473,6 +499,31 @@ const ProjectIdSettingsClientContent = () => {
                         )}
                       />
 
+                      <FormField
+                        control={form.control}
+                        name="wipEnforcement"
+                        render={({ field }) => (
+                          <FormItem className="space-y-2">
+                            <FormLabel>WIP Limits</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger className="h-10">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={WipEnforcement.OVERRIDE}>Warn and allow override</SelectItem>
+                                <SelectItem value={WipEnforcement.BLOCK}>Block moves into full columns</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormDescription className="text-xs">
+                              Limits are set per column from the Kanban board
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <Button type="submit" disabled={isUpdating} size="xs" className="text-xs font-medium px-6 rounded-sm py-3">
                         {isUpdating ? (
                           <>
@@ -719,6 +770,107 @@ const ProjectIdSettingsClientContent = () => {
               </Card>
             )}
 
+            {/* Automation */}
+            {activeTab === "automation" && (
+              <Card>
+                <CardHeader className="mb-3">
+                  <CardTitle className="!text-[18px]">Automation</CardTitle>
+                  <CardDescription className="!text-xs font-normal">
+                    Rules that run actions automatically when work items change or on a schedule.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AutomationRulesSettings
+                    workspaceId={project.workspaceId}
+                    projectId={projectId}
+                    workflowId={project.workflowId}
+                    canManage={isAdmin || canManageProjectSettings}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Recurring Work Items */}
+            {activeTab === "recurring" && (
+              <Card>
+                <CardHeader className="mb-3">
+                  <CardTitle className="!text-[18px]">Recurring Work Items</CardTitle>
+                  <CardDescription className="!text-xs font-normal">
+                    Templates that create a work item on a schedule. Pause a template or skip its next occurrence at any time.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RecurringWorkItemsSettings
+                    workspaceId={project.workspaceId}
+                    projectId={projectId}
+                    canManage={isAdmin || canManageProjectSettings}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Work Item Import */}
+            {activeTab === "import" && (
+              <Card>
+                <CardHeader className="mb-3">
+                  <CardTitle className="!text-[18px]">Import Work Items</CardTitle>
+                  <CardDescription className="!text-xs font-normal">
+                    Create work items from a CSV or JSON file, including Jira CSV and Trello board exports. Review a dry run before anything is created.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <WorkItemImportsSettings
+                    workspaceId={project.workspaceId}
+                    projectId={projectId}
+                    canImport={isAdmin || canCreateTasks}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Billing: currency and hourly rates for billable time */}
+            {activeTab === "billing" && (isAdmin || isProjectAdmin) && (
+              <Card>
+                <CardHeader className="mb-3">
+                  <CardTitle className="!text-[18px]">Billing</CardTitle>
+                  <CardDescription className="!text-xs font-normal">
+                    Hourly rates price billable time in cost reports. Rates in another currency are converted to the project currency.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-y-6">
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium">Project currency</span>
+                    <Select
+                      value={projectCurrency}
+                      onValueChange={(currency) =>
+                        updateProject({
+                          form: { currency } as unknown as UpdateProjectRequest["form"],
+                          param: { projectId: project.$id },
+                        })
+                      }
+                      disabled={isUpdating}
+                    >
+                      <SelectTrigger className="h-9 w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.keys(currencyRates?.rates ?? { [projectCurrency]: 1 }).map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <RateCardsSettings
+                    workspaceId={project.workspaceId}
+                    projectId={projectId}
+                    defaultCurrency={projectCurrency}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Integrations */}
             {activeTab === "integrations" && (
               <Card>
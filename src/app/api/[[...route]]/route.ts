@@ -8,6 +8,9 @@ import workspaces from "@/features/workspaces/server/route";
 import projects from "@/features/projects/server/route";
 import tasks from "@/features/tasks/server/route";
 import timeLogs from "@/features/time-tracking/server/route";
+import timers from "@/features/time-tracking/server/timers-route";
+import timesheets from "@/features/time-tracking/server/timesheets-route";
+import rateCards from "@/features/time-tracking/server/rate-cards-route";
 import customColumns from "@/features/custom-columns/api/route";
 import defaultColumnSettings from "@/features/default-column-settings/api/route";
 import attachments from "@/features/attachments/api/route";
@@ -28,9 +31,16 @@ import projectDocs from "@/features/project-docs/server/route";
 import spaces from "@/features/spaces/server/route";
 import workflows from "@/features/workflows/server/route";
 import workflowAI from "@/features/workflows/server/ai-route";
+import transitionApprovals from "@/features/transition-approvals/server/route";
+import automationRules from "@/features/automation-rules/server/route";
+import recurringWorkItems from "@/features/recurring-work-items/server/route";
+import templates from "@/features/templates/server/route";
+import workItemImports from "@/features/work-item-imports/server/route";
 import customFields from "@/features/custom-fields/server/route";
 import workItemLinks from "@/features/work-item-links/server/route";
 import savedViews from "@/features/saved-views/server/route";
+import calendarFeeds from "@/features/calendar-feeds/server/route";
+import search from "@/features/search/server/route";
 import roles from "@/features/roles/server/route";
 // Project-scoped RBAC
 import projectMembers from "@/features/project-members/server/route";
@@ -79,6 +89,9 @@ const routes = app
   .route("/projects", projects)
   .route("/tasks", tasks)
   .route("/timeLogs", timeLogs)
+  .route("/timers", timers)
+  .route("/timesheets", timesheets)
+  .route("/rate-cards", rateCards)
   .route("/custom-columns", customColumns)
   .route("/default-column-settings", defaultColumnSettings)
   .route("/attachments", attachments)
@@ -96,10 +109,17 @@ const routes = app
   // New Jira-like features
   .route("/spaces", spaces)
   .route("/workflows", workflows)
+  .route("/transition-approvals", transitionApprovals)
+  .route("/automation-rules", automationRules)
+  .route("/recurring-work-items", recurringWorkItems)
+  .route("/templates", templates)
+  .route("/work-item-imports", workItemImports)
   .route("/workflow-ai", workflowAI)
   .route("/custom-fields", customFields)
   .route("/work-item-links", workItemLinks)
   .route("/saved-views", savedViews)
+  .route("/calendar-feeds", calendarFeeds)
+  .route("/search", search)
   .route("/roles", roles)
   // Project-scoped RBAC
   .route("/project-members", projectMembers)
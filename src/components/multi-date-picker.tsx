@@ -0,0 +1,89 @@
+"use client";
+
+import * as React from "react";
+import { format, parseISO, startOfDay } from "date-fns";
+import { CalendarDays } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface MultiDatePickerProps {
+  /** Selected days, "YYYY-MM-DD" */
+  value: string[];
+  onChange: (days: string[]) => void;
+  placeholder?: string;
+  /** Earliest selectable date (inclusive) */
+  minDate?: Date;
+  /** Latest selectable date (inclusive) */
+  maxDate?: Date;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Pick any number of calendar days, e.g. holidays or days off
+ */
+export const MultiDatePicker = ({
+  value,
+  onChange,
+  placeholder = "Select days",
+  minDate,
+  maxDate,
+  disabled,
+  className,
+}: MultiDatePickerProps) => {
+  const selected = React.useMemo(() => value.map((day) => parseISO(day)), [value]);
+
+  const disabledMatcher = React.useCallback(
+    (day: Date) => {
+      const d = startOfDay(day);
+      if (minDate && d < startOfDay(minDate)) return true;
+      if (maxDate && d > startOfDay(maxDate)) return true;
+      return false;
+    },
+    [minDate, maxDate]
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          className={cn(
+            "justify-start text-left font-normal px-3",
+            value.length === 0 && "text-muted-foreground",
+            className
+          )}
+        >
+          <CalendarDays className="mr-2 size-4 flex-shrink-0" />
+          <span className="truncate">
+            {value.length === 0
+              ? placeholder
+              : value.length === 1
+                ? format(selected[0], "MMM d, yyyy")
+                : `${value.length} days`}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0 z-[200]" align="start">
+        <Calendar
+          mode="multiple"
+          selected={selected}
+          onSelect={(days) => onChange((days ?? []).map((day) => format(day, "yyyy-MM-dd")).sort())}
+          disabled={disabledMatcher}
+          defaultMonth={selected[0] ?? minDate ?? undefined}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
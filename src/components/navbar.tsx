@@ -3,6 +3,7 @@
 import { UserButton } from "@/features/auth/components/user-button";
 import { NotificationBell } from "@/features/notifications";
 import { BugReportPopover } from "@/features/bug-reports/components/bug-report-popover";
+import { TimerIndicator } from "@/features/time-tracking/components/timer-indicator";
 
 import { usePathname } from "next/navigation";
 
@@ -49,6 +50,7 @@ export const Navbar = () => {
       </div>
       <div id="navbar-actions" className="flex items-center gap-2">
         <MobileSidebar />
+        <TimerIndicator />
         <ModeToggle />
         <BugReportPopover />
         <NotificationBell />
@@ -1,7 +1,7 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { Layers } from "lucide-react";
+import { Bell, Layers } from "lucide-react";
 import Link from "next/link";
 import {
   GoCheckCircle,
@@ -39,6 +39,12 @@ const routes = [
     icon: Layers,
     activeIcon: Layers,
   },
+  {
+    label: "Notifications",
+    href: "/profile/notifications",
+    icon: Bell,
+    activeIcon: Bell,
+  },
 
 ];
 
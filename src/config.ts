@@ -4,12 +4,42 @@ export const MEMBERS_ID = process.env.NEXT_PUBLIC_APPWRITE_MEMBERS_ID!;
 export const PROJECTS_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECTS_ID!;
 export const TASKS_ID = process.env.NEXT_PUBLIC_APPWRITE_TASKS_ID!;
 export const TIME_LOGS_ID = process.env.NEXT_PUBLIC_APPWRITE_TIME_LOGS_ID!;
+// Running timers, at most one per user; stopping one writes a time log
+export const TIMERS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_TIMERS_ID || "timers";
+// Weekly timesheet submissions and approvals; submitted/approved weeks lock their time logs
+export const TIMESHEETS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_TIMESHEETS_ID || "timesheets";
+// Hourly rates for billable time, per project, member or project role
+export const RATE_CARDS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_RATE_CARDS_ID || "rate_cards";
 export const SPRINTS_ID = process.env.NEXT_PUBLIC_APPWRITE_SPRINTS_ID!;
+// Daily per-sprint scope/progress for burndown, burnup and velocity reports
+export const SPRINT_SNAPSHOTS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_SPRINT_SNAPSHOTS_ID || "sprint_snapshots";
+// Per-member availability (hours/points per day, days off) for sprint capacity planning
+export const SPRINT_CAPACITIES_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_SPRINT_CAPACITIES_ID || "sprint_capacities";
+// Scope report frozen when a sprint completes (committed, added, removed, carry-over)
+export const SPRINT_REPORTS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_SPRINT_REPORTS_ID || "sprint_reports";
+// WIP limit breaches (blocked or overridden moves), shown in the audit trail
+export const WIP_BREACHES_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_WIP_BREACHES_ID || "wip_breaches";
+// Status transitions per work item, the source for flow metrics (CFD, cycle/lead time)
+export const STATUS_CHANGES_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_STATUS_CHANGES_ID || "status_changes";
+// Append-only field-level change log of work items (who changed what, from what, to what)
+export const WORK_ITEM_CHANGES_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_CHANGES_ID || "work_item_changes";
 export const WORK_ITEMS_ID = process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEMS_ID!;
 export const PERSONAL_BACKLOG_ID = process.env.NEXT_PUBLIC_APPWRITE_PERSONAL_BACKLOG_ID!;
 export const CUSTOM_COLUMNS_ID = process.env.NEXT_PUBLIC_APPWRITE_CUSTOM_COLUMNS_ID!;
 export const DEFAULT_COLUMN_SETTINGS_ID = process.env.NEXT_PUBLIC_APPWRITE_DEFAULT_COLUMN_SETTINGS_ID!;
 export const NOTIFICATIONS_ID = process.env.NEXT_PUBLIC_APPWRITE_NOTIFICATIONS_ID!;
+// Emails held back for digests and quiet hours
+export const NOTIFICATION_DIGEST_ITEMS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_NOTIFICATION_DIGEST_ITEMS_ID || "notification_digest_items";
 export const SUBTASKS_ID = process.env.NEXT_PUBLIC_APPWRITE_SUBTASKS_ID!;
 export const IMAGES_BUCKET_ID =
   process.env.NEXT_PUBLIC_APPWRITE_IMAGES_BUCKET_ID!
@@ -18,6 +48,8 @@ export const ATTACHMENTS_BUCKET_ID =
 export const ATTACHMENTS_ID = process.env.NEXT_PUBLIC_APPWRITE_ATTACHMENTS_ID!
 export const PROJECT_WEBHOOKS_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOKS_ID!;
 export const PROJECT_WEBHOOK_DELIVERIES_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOK_DELIVERIES_ID!;
+export const PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID || "project_webhook_delivery_attempts";
 
 // Comments Collection
 export const COMMENTS_ID = process.env.NEXT_PUBLIC_APPWRITE_COMMENTS_ID!;
@@ -63,6 +95,17 @@ export const SPACE_MEMBERS_ID = process.env.NEXT_PUBLIC_APPWRITE_SPACE_MEMBERS_I
 export const WORKFLOWS_ID = process.env.NEXT_PUBLIC_APPWRITE_WORKFLOWS_ID!;
 export const WORKFLOW_STATUSES_ID = process.env.NEXT_PUBLIC_APPWRITE_WORKFLOW_STATUSES_ID!;
 export const WORKFLOW_TRANSITIONS_ID = process.env.NEXT_PUBLIC_APPWRITE_WORKFLOW_TRANSITIONS_ID!;
+// Approval requests for transitions marked `requiresApproval`
+export const TRANSITION_APPROVALS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_TRANSITION_APPROVALS_ID || "transition_approvals";
+// Project/space automation rules (when/if/then) and their execution log
+export const AUTOMATION_RULES_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_AUTOMATION_RULES_ID || "automation_rules";
+export const AUTOMATION_EXECUTIONS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_AUTOMATION_EXECUTIONS_ID || "automation_executions";
+// Project templates that spawn a work item on a schedule
+export const RECURRING_WORK_ITEMS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_RECURRING_WORK_ITEMS_ID || "recurring_work_items";
 
 // Custom Fields Collections
 export const CUSTOM_FIELDS_ID = process.env.NEXT_PUBLIC_APPWRITE_CUSTOM_FIELDS_ID!;
@@ -74,6 +117,24 @@ export const WORK_ITEM_LINKS_ID = process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_LIN
 // Saved Views/Filters Collection
 export const SAVED_VIEWS_ID = process.env.NEXT_PUBLIC_APPWRITE_SAVED_VIEWS_ID!;
 
+// Reusable work item and project templates (managed by workspace admins)
+export const WORK_ITEM_TEMPLATES_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_TEMPLATES_ID || "work_item_templates";
+export const PROJECT_TEMPLATES_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_PROJECT_TEMPLATES_ID || "project_templates";
+
+// Bulk CSV/JSON work item imports (parsed rows, mapping, report and progress)
+export const WORK_ITEM_IMPORTS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_IMPORTS_ID || "work_item_imports";
+
+// Work Item Search Index (title, key, description, comments, custom field values)
+export const WORK_ITEM_SEARCH_INDEX_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_WORK_ITEM_SEARCH_INDEX_ID || "work_item_search_index";
+
+// Per-user iCalendar feed subscriptions (hashed secret tokens, revocable)
+export const CALENDAR_FEEDS_ID =
+  process.env.NEXT_PUBLIC_APPWRITE_CALENDAR_FEEDS_ID || "calendar_feeds";
+
 // ===============================
 // Usage-Based Billing Collections
 // ===============================
@@ -9,7 +9,8 @@ import {
   LayoutGrid,
   ListTodo,
   Briefcase,
-  Zap
+  Zap,
+  Gauge,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -48,6 +49,7 @@ const getActivityIcon = (type: ActivityType): IconComponent => {
     [ActivityType.CUSTOM_COLUMN]: LayoutGrid,
     [ActivityType.BACKLOG_ITEM]: ListTodo,
     [ActivityType.NOTIFICATION]: Activity,
+    [ActivityType.WIP_BREACH]: Gauge,
   };
 
   return iconMap[type] || Activity;
@@ -10,6 +10,7 @@ import {
   ListTodo,
   Briefcase,
   Zap,
+  Gauge,
 } from "lucide-react";
 
 import {
@@ -23,6 +24,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { useCurrent } from "@/features/auth/api/use-current";
+import { WORK_ITEM_FIELD_LABELS } from "@/features/tasks/change-log";
 
 import { ActivityType } from "../types";
 
@@ -44,6 +46,24 @@ interface ActivityLogItemProps {
 
 type IconComponent = React.ComponentType<{ className?: string }>;
 
+type FieldChangeLabels = { from?: string | null; to?: string | null };
+
+// Field changes recorded in the work item change log
+const ChangeList = ({ changes }: { changes: Record<string, unknown> }) => (
+  <div className="flex flex-col gap-0.5 mt-1">
+    {Object.entries(changes).map(([field, value]) => {
+      const { from, to } = (value ?? {}) as FieldChangeLabels;
+      const label = WORK_ITEM_FIELD_LABELS[field] ?? field;
+      return (
+        <span key={field} className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{label}:</span>{" "}
+          {field === "description" ? "edited" : `${from || "none"} → ${to || "none"}`}
+        </span>
+      );
+    })}
+  </div>
+);
+
 const getActivityIcon = (type: ActivityType): IconComponent => {
   const iconMap: Record<ActivityType, IconComponent> = {
     [ActivityType.TASK]: FileText,
@@ -57,6 +77,7 @@ const getActivityIcon = (type: ActivityType): IconComponent => {
     [ActivityType.CUSTOM_COLUMN]: LayoutGrid,
     [ActivityType.BACKLOG_ITEM]: ListTodo,
     [ActivityType.NOTIFICATION]: Activity,
+    [ActivityType.WIP_BREACH]: Gauge,
   };
 
   return iconMap[type] || Activity;
@@ -178,6 +199,9 @@ export const ActivityTableView = ({ activities }: ActivityTableViewProps) => {
                     <span className="text-xs font-medium">
                       {activity.entityName || "N/A"}
                     </span>
+                    {activity.changes && Object.keys(activity.changes).length > 0 && (
+                      <ChangeList changes={activity.changes} />
+                    )}
                   </div>
                 </TableCell>
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { Clock, ExternalLink, CheckSquare, Zap, FileText, Timer, Paperclip, Users, Pin } from "lucide-react";
+import { Clock, ExternalLink, CheckSquare, Zap, FileText, Timer, Paperclip, Users, Pin, Gauge } from "lucide-react";
 import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
 
@@ -34,6 +34,8 @@ const getActivityIcon = (type: ActivityType) => {
       return <Paperclip className="size-4" />;
     case ActivityType.MEMBER:
       return <Users className="size-4" />;
+    case ActivityType.WIP_BREACH:
+      return <Gauge className="size-4" />;
     default:
       return <Pin className="size-4" />;
   }
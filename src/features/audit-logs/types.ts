@@ -11,6 +11,7 @@ export enum ActivityType {
   CUSTOM_COLUMN = "custom_column",
   BACKLOG_ITEM = "backlog_item",
   NOTIFICATION = "notification",
+  WIP_BREACH = "wip_breach",
 }
 
 // Unified activity log from existing collections
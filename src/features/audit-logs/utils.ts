@@ -13,9 +13,15 @@ import {
   CUSTOM_COLUMNS_ID,
   PERSONAL_BACKLOG_ID,
   NOTIFICATIONS_ID,
+  WIP_BREACHES_ID,
 } from "@/config";
+import { CHANGE_SOURCE_LABELS, CREATED_FIELD, WORK_ITEM_FIELD_LABELS } from "@/features/tasks/change-log";
+import { listDocumentsByIds, listWorkItemChanges, populateWorkItemChanges } from "@/features/tasks/server/change-log";
 import { ActivityType, ActivityLog } from "./types";
 
+// Work items read from the change log instead of their $updatedAt
+const WORK_ITEM_TYPES = new Set([ActivityType.TASK, ActivityType.WORK_ITEM]);
+
 /**
  * Aggregates activity logs from all existing collections
  * Leverages Appwrite's $createdAt and $updatedAt fields
@@ -73,6 +79,7 @@ export async function getActivityLogs({
         { type: ActivityType.TIME_LOG, collectionId: TIME_LOGS_ID },
         { type: ActivityType.SPRINT, collectionId: SPRINTS_ID },
         { type: ActivityType.WORK_ITEM, collectionId: WORK_ITEMS_ID },
+        { type: ActivityType.WIP_BREACH, collectionId: WIP_BREACHES_ID },
       ];
 
     // **PARALLEL FETCH**: All collections fetched at once in a single batch
@@ -104,7 +111,8 @@ export async function getActivityLogs({
         const { activityType, docs } = result.value;
 
         for (const doc of docs.documents) {
-          const isCreated = !doc.$updatedAt || doc.$createdAt === doc.$updatedAt;
+          // A work item's updates come from its change log below; the document only says who created it
+          const isCreated = WORK_ITEM_TYPES.has(activityType) || !doc.$updatedAt || doc.$createdAt === doc.$updatedAt;
           const activityAction = isCreated ? "created" : "updated";
 
           // Filter by action if specified
@@ -194,6 +202,21 @@ export async function getActivityLogs({
       });
     }
 
+    // Work item updates, one activity per mutation with the fields it changed
+    if ((!type || WORK_ITEM_TYPES.has(type)) && action !== "created") {
+      allActivities.push(
+        ...(await getWorkItemChangeActivities({
+          workspaceId,
+          projectId,
+          userId,
+          startDate,
+          endDate,
+          type: type ?? ActivityType.WORK_ITEM,
+          limit,
+        }))
+      );
+    }
+
     // Sort all activities by timestamp descending
     const sortedActivities = allActivities.sort(
       (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
@@ -240,6 +263,81 @@ export async function getActivityLogs({
   }
 }
 
+/**
+ * Groups change log entries by the mutation that wrote them
+ */
+async function getWorkItemChangeActivities({
+  workspaceId,
+  projectId,
+  userId,
+  startDate,
+  endDate,
+  type,
+  limit,
+}: {
+  workspaceId: string;
+  projectId?: string;
+  userId?: string;
+  startDate?: string;
+  endDate?: string;
+  type: ActivityType;
+  limit: number;
+}): Promise<ActivityLog[]> {
+  const { databases, users } = await createAdminClient();
+
+  try {
+    const entries = await listWorkItemChanges(
+      databases,
+      { workspaceId, projectId, changedBy: userId, since: startDate, until: endDate },
+      Math.min(limit * 5, 500)
+    );
+    const changes = await populateWorkItemChanges(
+      databases,
+      users,
+      entries.filter((entry) => entry.field !== CREATED_FIELD)
+    );
+
+    const workItemIds = [...new Set(changes.map((change) => change.workItemId))];
+    const workItems = new Map(
+      (await listDocumentsByIds(databases, WORK_ITEMS_ID, workItemIds)).map((item) => [item.$id, item])
+    );
+
+    const batches = new Map<string, ActivityLog>();
+    for (const change of changes) {
+      let activity = batches.get(change.batchId);
+      if (!activity) {
+        const item = workItems.get(change.workItemId);
+        activity = {
+          id: change.batchId,
+          type,
+          action: "updated",
+          timestamp: change.changedAt,
+          userId: change.changedBy ?? undefined,
+          userName: change.actor?.name || "Unknown User",
+          userEmail: change.actor?.email || "",
+          userImageUrl: change.actor?.profileImageUrl || undefined,
+          workspaceId: change.workspaceId,
+          projectId: change.projectId,
+          entityId: change.workItemId,
+          entityName: item ? (item.key ? `${item.key} ${item.title}` : (item.title as string)) : undefined,
+          changes: {},
+          metadata: {
+            status: item?.status as string | undefined,
+            priority: item?.priority as string | undefined,
+            source: CHANGE_SOURCE_LABELS[change.source],
+          },
+        };
+        batches.set(change.batchId, activity);
+      }
+      activity.changes![change.field] = { from: change.oldLabel, to: change.newLabel };
+    }
+
+    return [...batches.values()];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Extracts user ID from document based on collection type
  */
@@ -286,6 +384,10 @@ function getUserIdFromDocument(
       // Personal backlog has userId field
       return doc.userId as string;
 
+    case ActivityType.WIP_BREACH:
+      // The user whose move breached the limit
+      return doc.userId as string;
+
     case ActivityType.PROJECT:
     case ActivityType.SPRINT:
       // Both have a createdBy field stored at creation time
@@ -316,6 +418,7 @@ function getCollectionId(type: ActivityType): string {
     [ActivityType.CUSTOM_COLUMN]: CUSTOM_COLUMNS_ID,
     [ActivityType.BACKLOG_ITEM]: PERSONAL_BACKLOG_ID,
     [ActivityType.NOTIFICATION]: NOTIFICATIONS_ID,
+    [ActivityType.WIP_BREACH]: WIP_BREACHES_ID,
   };
   return map[type];
 }
@@ -327,6 +430,15 @@ export function formatActivityDescription(activity: ActivityLog): string {
   const user = activity.userName || "Someone";
   const entity = activity.entityName || "an item";
 
+  // Change log entries say which fields changed
+  if (activity.action === "updated" && activity.changes && WORK_ITEM_TYPES.has(activity.type)) {
+    const fields = Object.keys(activity.changes).map((field) => (WORK_ITEM_FIELD_LABELS[field] ?? field).toLowerCase());
+    if (fields.length > 0) {
+      const noun = activity.type === ActivityType.TASK ? "task" : "work item";
+      return `${user} changed ${fields.join(", ")} of ${noun} "${entity}"`;
+    }
+  }
+
   switch (activity.type) {
     case ActivityType.TASK:
       return `${user} ${activity.action} task "${entity}"`;
@@ -348,6 +460,8 @@ export function formatActivityDescription(activity: ActivityLog): string {
       return `${user} ${activity.action} custom column "${entity}"`;
     case ActivityType.BACKLOG_ITEM:
       return `${user} ${activity.action} backlog item "${entity}"`;
+    case ActivityType.WIP_BREACH:
+      return `${user} hit a WIP limit: ${entity}`;
     default:
       return `${user} ${activity.action} ${entity}`;
   }
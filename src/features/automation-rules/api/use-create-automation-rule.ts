@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["automation-rules"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["automation-rules"]["$post"]>;
+
+export const useCreateAutomationRule = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api["automation-rules"].$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to create rule.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Automation rule created.");
+      queryClient.invalidateQueries({ queryKey: ["automation-rules"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create rule.");
+    },
+  });
+
+  return mutation;
+};
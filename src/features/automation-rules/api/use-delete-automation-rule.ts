@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["automation-rules"][":ruleId"]["$delete"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["automation-rules"][":ruleId"]["$delete"]>;
+
+export const useDeleteAutomationRule = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api["automation-rules"][":ruleId"].$delete({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to delete rule.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Automation rule deleted.");
+      queryClient.invalidateQueries({ queryKey: ["automation-rules"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete rule.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetAutomationExecutionsProps {
+  ruleId: string;
+  enabled?: boolean;
+}
+
+export const useGetAutomationExecutions = ({
+  ruleId,
+  enabled = true,
+}: UseGetAutomationExecutionsProps) => {
+  const query = useQuery({
+    queryKey: ["automation-executions", ruleId],
+    enabled: enabled && !!ruleId,
+    queryFn: async () => {
+      const response = await client.api["automation-rules"][":ruleId"]["executions"].$get({
+        param: { ruleId },
+        query: {},
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch execution log.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
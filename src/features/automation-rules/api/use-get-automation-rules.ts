@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetAutomationRulesProps {
+  workspaceId: string;
+  projectId?: string;
+  spaceId?: string;
+  enabled?: boolean;
+}
+
+export const useGetAutomationRules = ({
+  workspaceId,
+  projectId,
+  spaceId,
+  enabled = true,
+}: UseGetAutomationRulesProps) => {
+  const query = useQuery({
+    queryKey: ["automation-rules", workspaceId, projectId, spaceId],
+    enabled: enabled && !!workspaceId && (!!projectId || !!spaceId),
+    queryFn: async () => {
+      const response = await client.api["automation-rules"].$get({
+        query: {
+          workspaceId,
+          projectId,
+          spaceId,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch automation rules.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["automation-rules"][":ruleId"]["$patch"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["automation-rules"][":ruleId"]["$patch"]>;
+
+export const useUpdateAutomationRule = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param, json }) => {
+      const response = await client.api["automation-rules"][":ruleId"].$patch({ param, json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to update rule.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Automation rule updated.");
+      queryClient.invalidateQueries({ queryKey: ["automation-rules"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update rule.");
+    },
+  });
+
+  return mutation;
+};
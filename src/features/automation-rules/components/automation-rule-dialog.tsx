@@ -0,0 +1,518 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PlusIcon, TrashIcon, Zap } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MultiSelect } from "@/components/ui/multi-select-simple";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { WorkitemEventType } from "@/lib/notifications/types";
+import { useGetMembers } from "@/features/members/api/use-get-members";
+import { useGetSprints } from "@/features/sprints/api/use-get-sprints";
+import { validateJql } from "@/features/search/lib/jql";
+import { TaskStatus } from "@/features/tasks/types";
+import { useGetWebhooks } from "@/features/webhooks/api/use-get-webhooks";
+import { useGetWorkflowStatuses } from "@/features/workflows/api/use-get-workflow-statuses";
+
+import { useCreateAutomationRule } from "../api/use-create-automation-rule";
+import { useUpdateAutomationRule } from "../api/use-update-automation-rule";
+import { AutomationActionInput } from "../schemas";
+import {
+  AUTOMATION_SETTABLE_FIELDS,
+  AutomationActionType,
+  AutomationSchedule,
+  AutomationTriggerType,
+  PopulatedAutomationRule,
+} from "../types";
+
+export const AUTOMATION_EVENT_OPTIONS = [
+  { value: WorkitemEventType.WORKITEM_CREATED, label: "Work item created" },
+  { value: WorkitemEventType.WORKITEM_UPDATED, label: "Work item updated" },
+  { value: WorkitemEventType.WORKITEM_STATUS_CHANGED, label: "Status changed" },
+  { value: WorkitemEventType.WORKITEM_COMPLETED, label: "Work item completed" },
+  { value: WorkitemEventType.WORKITEM_ASSIGNED, label: "Assigned" },
+  { value: WorkitemEventType.WORKITEM_UNASSIGNED, label: "Unassigned" },
+  { value: WorkitemEventType.WORKITEM_PRIORITY_CHANGED, label: "Priority changed" },
+  { value: WorkitemEventType.WORKITEM_DUE_DATE_CHANGED, label: "Due date changed" },
+  { value: WorkitemEventType.WORKITEM_COMMENT_ADDED, label: "Comment added" },
+  { value: WorkitemEventType.WORKITEM_ATTACHMENT_ADDED, label: "Attachment added" },
+  { value: WorkitemEventType.WORKITEM_DELETED, label: "Work item deleted" },
+  { value: WorkitemEventType.WORKITEM_APPROVAL_APPROVED, label: "Approval approved" },
+  { value: WorkitemEventType.WORKITEM_APPROVAL_REJECTED, label: "Approval rejected" },
+];
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationActionType, string> = {
+  [AutomationActionType.SET_FIELD]: "Set field",
+  [AutomationActionType.ASSIGN]: "Assign",
+  [AutomationActionType.ADD_LABEL]: "Add label",
+  [AutomationActionType.MOVE_TO_SPRINT]: "Move to sprint",
+  [AutomationActionType.COMMENT]: "Add comment",
+  [AutomationActionType.TRANSITION]: "Transition",
+  [AutomationActionType.CALL_WEBHOOK]: "Call webhook",
+};
+
+const FIELD_LABELS: Record<typeof AUTOMATION_SETTABLE_FIELDS[number], string> = {
+  priority: "Priority",
+  dueDate: "Due date",
+  startDate: "Start date",
+  storyPoints: "Story points",
+  estimatedHours: "Estimated hours",
+  flagged: "Flagged",
+  type: "Type",
+};
+
+const NUMBER_FIELDS = new Set(["storyPoints", "estimatedHours"]);
+const BACKLOG_VALUE = "__backlog__";
+const ALL_WEBHOOKS_VALUE = "__all__";
+
+// Form state for one action; values are kept as strings while editing
+type ActionDraft = {
+  type: AutomationActionType;
+  field: string;
+  value: string;
+  memberIds: string[];
+  mode: "add" | "replace";
+  labels: string;
+  sprintId: string;
+  content: string;
+  toStatus: string;
+  webhookId: string;
+  message: string;
+};
+
+const emptyDraft = (type: AutomationActionType): ActionDraft => ({
+  type,
+  field: "priority",
+  value: "",
+  memberIds: [],
+  mode: "add",
+  labels: "",
+  sprintId: "ACTIVE",
+  content: "",
+  toStatus: "",
+  webhookId: ALL_WEBHOOKS_VALUE,
+  message: "",
+});
+
+function toDraft(action: AutomationActionInput): ActionDraft {
+  const draft = emptyDraft(action.type);
+  switch (action.type) {
+    case AutomationActionType.SET_FIELD:
+      return { ...draft, field: action.field, value: action.value === null || action.value === undefined ? "" : String(action.value) };
+    case AutomationActionType.ASSIGN:
+      return { ...draft, memberIds: action.memberIds, mode: action.mode };
+    case AutomationActionType.ADD_LABEL:
+      return { ...draft, labels: action.labels.join(", ") };
+    case AutomationActionType.MOVE_TO_SPRINT:
+      return { ...draft, sprintId: action.sprintId ?? BACKLOG_VALUE };
+    case AutomationActionType.COMMENT:
+      return { ...draft, content: action.content };
+    case AutomationActionType.TRANSITION:
+      return { ...draft, toStatus: action.toStatus };
+    case AutomationActionType.CALL_WEBHOOK:
+      return { ...draft, webhookId: action.webhookId || ALL_WEBHOOKS_VALUE, message: action.message ?? "" };
+  }
+}
+
+function toAction(draft: ActionDraft): AutomationActionInput {
+  switch (draft.type) {
+    case AutomationActionType.SET_FIELD: {
+      let value: unknown = draft.value.trim() || null;
+      if (value !== null && NUMBER_FIELDS.has(draft.field)) value = Number(value);
+      if (draft.field === "flagged") value = draft.value === "true";
+      return { type: draft.type, field: draft.field, value };
+    }
+    case AutomationActionType.ASSIGN:
+      return { type: draft.type, memberIds: draft.memberIds, mode: draft.mode };
+    case AutomationActionType.ADD_LABEL:
+      return { type: draft.type, labels: draft.labels.split(",").map((l) => l.trim()).filter(Boolean) };
+    case AutomationActionType.MOVE_TO_SPRINT:
+      return { type: draft.type, sprintId: draft.sprintId === BACKLOG_VALUE ? null : draft.sprintId };
+    case AutomationActionType.COMMENT:
+      return { type: draft.type, content: draft.content };
+    case AutomationActionType.TRANSITION:
+      return { type: draft.type, toStatus: draft.toStatus };
+    case AutomationActionType.CALL_WEBHOOK:
+      return {
+        type: draft.type,
+        webhookId: draft.webhookId === ALL_WEBHOOKS_VALUE ? null : draft.webhookId,
+        message: draft.message.trim() || null,
+      };
+  }
+}
+
+interface AutomationRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  projectId: string;
+  workflowId?: string;
+  rule?: PopulatedAutomationRule | null;
+}
+
+export const AutomationRuleDialog = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  projectId,
+  workflowId,
+  rule,
+}: AutomationRuleDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [triggerType, setTriggerType] = useState<AutomationTriggerType>(AutomationTriggerType.EVENT);
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [schedule, setSchedule] = useState<AutomationSchedule>(AutomationSchedule.DAILY);
+  const [jql, setJql] = useState("");
+  const [jqlError, setJqlError] = useState<string | null>(null);
+  const [actions, setActions] = useState<ActionDraft[]>([emptyDraft(AutomationActionType.COMMENT)]);
+
+  const { mutate: createRule, isPending: isCreating } = useCreateAutomationRule();
+  const { mutate: updateRule, isPending: isUpdating } = useUpdateAutomationRule();
+  const isPending = isCreating || isUpdating;
+
+  const { data: members } = useGetMembers({ workspaceId, enabled: open });
+  const { data: sprints } = useGetSprints({ workspaceId, projectId, enabled: open });
+  const { data: webhooks } = useGetWebhooks(projectId);
+  const { data: workflowStatuses } = useGetWorkflowStatuses({ workflowId: workflowId ?? "" });
+
+  const statusOptions = workflowStatuses?.documents?.length
+    ? workflowStatuses.documents.map((s) => ({ value: s.key, label: s.name }))
+    : Object.values(TaskStatus).map((s) => ({ value: s as string, label: s.replace(/_/g, " ") }));
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name ?? "");
+    setDescription(rule?.description ?? "");
+    setTriggerType(rule?.triggerType ?? AutomationTriggerType.EVENT);
+    setEventTypes(rule?.eventTypes ?? []);
+    setSchedule(rule?.schedule ?? AutomationSchedule.DAILY);
+    setJql(rule?.conditionsJql ?? "");
+    setJqlError(null);
+    setActions(rule?.actions.length
+      ? rule.actions.map((a) => toDraft(a as AutomationActionInput))
+      : [emptyDraft(AutomationActionType.COMMENT)]);
+  }, [open, rule]);
+
+  const updateAction = (index: number, patch: Partial<ActionDraft>) => {
+    setActions((prev) => prev.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+  };
+
+  const handleSubmit = () => {
+    const trimmedJql = jql.trim();
+    if (trimmedJql) {
+      const result = validateJql(trimmedJql);
+      if (!result.valid) {
+        setJqlError(`${result.message} (at ${result.position + 1})`);
+        return;
+      }
+    }
+
+    const payload = {
+      name: name.trim(),
+      description: description.trim() || null,
+      triggerType,
+      eventTypes: triggerType === AutomationTriggerType.EVENT ? eventTypes as WorkitemEventType[] : [],
+      schedule: triggerType === AutomationTriggerType.SCHEDULE ? schedule : null,
+      jql: trimmedJql || null,
+      actions: actions.map(toAction),
+    };
+
+    const options = { onSuccess: () => onOpenChange(false) };
+
+    if (rule) {
+      updateRule({ param: { ruleId: rule.$id }, json: payload }, options);
+    } else {
+      createRule({ json: { ...payload, workspaceId, projectId } }, options);
+    }
+  };
+
+  const canSubmit = name.trim().length > 0 &&
+    actions.length > 0 &&
+    (triggerType === AutomationTriggerType.SCHEDULE || eventTypes.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="size-5" />
+            {rule ? "Edit Automation Rule" : "New Automation Rule"}
+          </DialogTitle>
+          <DialogDescription>
+            When something happens (or on a schedule), if the work item matches the conditions, run the actions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name" className="text-xs">Name</Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Escalate overdue bugs"
+              maxLength={256}
+            />
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              rows={2}
+              maxLength={2000}
+            />
+          </div>
+
+          {/* When */}
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">When</Label>
+            <Select value={triggerType} onValueChange={(v) => setTriggerType(v as AutomationTriggerType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AutomationTriggerType.EVENT}>An event happens</SelectItem>
+                <SelectItem value={AutomationTriggerType.SCHEDULE}>On a schedule</SelectItem>
+              </SelectContent>
+            </Select>
+            {triggerType === AutomationTriggerType.EVENT ? (
+              <MultiSelect
+                options={AUTOMATION_EVENT_OPTIONS}
+                selected={eventTypes}
+                onChange={setEventTypes}
+                placeholder="Select events..."
+              />
+            ) : (
+              <Select value={schedule} onValueChange={(v) => setSchedule(v as AutomationSchedule)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AutomationSchedule.HOURLY}>Every hour</SelectItem>
+                  <SelectItem value={AutomationSchedule.DAILY}>Every day</SelectItem>
+                  <SelectItem value={AutomationSchedule.WEEKLY}>Every week</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {/* If */}
+          <div className="space-y-2">
+            <Label htmlFor="rule-jql" className="text-xs font-semibold uppercase text-muted-foreground">If (JQL, optional)</Label>
+            <Input
+              id="rule-jql"
+              value={jql}
+              onChange={(e) => {
+                setJql(e.target.value);
+                setJqlError(null);
+              }}
+              placeholder='e.g. type = Bug AND priority = High AND status != Done'
+              className={cn("font-mono text-xs", jqlError && "border-destructive")}
+            />
+            {jqlError ? (
+              <p className="text-xs text-destructive">{jqlError}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Leave empty to run on every work item. <code>me()</code> is the user who triggered the event.
+              </p>
+            )}
+          </div>
+
+          {/* Then */}
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">Then</Label>
+            {actions.map((action, index) => (
+              <div key={index} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={action.type}
+                    onValueChange={(v) => setActions((prev) => prev.map((a, i) => (i === index ? emptyDraft(v as AutomationActionType) : a)))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(AutomationActionType).map((type) => (
+                        <SelectItem key={type} value={type}>{AUTOMATION_ACTION_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 shrink-0"
+                    onClick={() => setActions((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={actions.length === 1}
+                  >
+                    <TrashIcon className="size-4" />
+                  </Button>
+                </div>
+
+                {action.type === AutomationActionType.SET_FIELD && (
+                  <div className="flex gap-2">
+                    <Select value={action.field} onValueChange={(v) => updateAction(index, { field: v, value: "" })}>
+                      <SelectTrigger className="h-8 w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AUTOMATION_SETTABLE_FIELDS.map((field) => (
+                          <SelectItem key={field} value={field}>{FIELD_LABELS[field]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {action.field === "flagged" ? (
+                      <Select value={action.value || "false"} onValueChange={(v) => updateAction(index, { value: v })}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="true">Flagged</SelectItem>
+                          <SelectItem value="false">Not flagged</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        className="h-8"
+                        type={NUMBER_FIELDS.has(action.field) ? "number" : action.field.endsWith("Date") ? "date" : "text"}
+                        value={action.value}
+                        onChange={(e) => updateAction(index, { value: e.target.value })}
+                        placeholder="Value (empty clears the field)"
+                      />
+                    )}
+                  </div>
+                )}
+
+                {action.type === AutomationActionType.ASSIGN && (
+                  <div className="flex gap-2">
+                    <MultiSelect
+                      className="flex-1"
+                      options={(members?.documents ?? []).map((m) => ({ value: m.$id, label: m.name || m.email || m.$id }))}
+                      selected={action.memberIds}
+                      onChange={(memberIds) => updateAction(index, { memberIds })}
+                      placeholder="Select members..."
+                    />
+                    <Select value={action.mode} onValueChange={(v) => updateAction(index, { mode: v as "add" | "replace" })}>
+                      <SelectTrigger className="h-9 w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="add">Add</SelectItem>
+                        <SelectItem value="replace">Replace all</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {action.type === AutomationActionType.ADD_LABEL && (
+                  <Input
+                    className="h-8"
+                    value={action.labels}
+                    onChange={(e) => updateAction(index, { labels: e.target.value })}
+                    placeholder="Comma-separated labels"
+                  />
+                )}
+
+                {action.type === AutomationActionType.MOVE_TO_SPRINT && (
+                  <Select value={action.sprintId} onValueChange={(v) => updateAction(index, { sprintId: v })}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ACTIVE">Active sprint</SelectItem>
+                      <SelectItem value={BACKLOG_VALUE}>Backlog (remove from sprint)</SelectItem>
+                      {(sprints?.documents ?? []).map((sprint) => (
+                        <SelectItem key={sprint.$id} value={sprint.$id}>{sprint.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {action.type === AutomationActionType.COMMENT && (
+                  <Textarea
+                    value={action.content}
+                    onChange={(e) => updateAction(index, { content: e.target.value })}
+                    placeholder="Comment text (Markdown supported)"
+                    rows={2}
+                    maxLength={4000}
+                  />
+                )}
+
+                {action.type === AutomationActionType.TRANSITION && (
+                  <Select value={action.toStatus} onValueChange={(v) => updateAction(index, { toStatus: v })}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue placeholder="Target status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statusOptions.map((status) => (
+                        <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {action.type === AutomationActionType.CALL_WEBHOOK && (
+                  <div className="space-y-2">
+                    <Select value={action.webhookId} onValueChange={(v) => updateAction(index, { webhookId: v })}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_WEBHOOKS_VALUE}>Webhooks subscribed to &quot;Automation Rule Triggered&quot;</SelectItem>
+                        {(webhooks ?? []).map((webhook) => (
+                          <SelectItem key={webhook.$id} value={webhook.$id}>{webhook.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="h-8"
+                      value={action.message}
+                      onChange={(e) => updateAction(index, { message: e.target.value })}
+                      placeholder="Message (optional)"
+                      maxLength={1000}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setActions((prev) => [...prev, emptyDraft(AutomationActionType.COMMENT)])}
+              disabled={actions.length >= 10}
+            >
+              <PlusIcon className="size-4 mr-2" />
+              Add action
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending || !canSubmit}>
+            {isPending ? "Saving..." : rule ? "Save Rule" : "Create Rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
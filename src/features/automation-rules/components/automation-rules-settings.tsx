@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { HistoryIcon, PencilIcon, PlusIcon, TrashIcon, Zap } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { useConfirm } from "@/hooks/use-confirm";
+import { cn } from "@/lib/utils";
+
+import { useDeleteAutomationRule } from "../api/use-delete-automation-rule";
+import { useGetAutomationExecutions } from "../api/use-get-automation-executions";
+import { useGetAutomationRules } from "../api/use-get-automation-rules";
+import { useUpdateAutomationRule } from "../api/use-update-automation-rule";
+import {
+  AutomationExecutionStatus,
+  AutomationTriggerType,
+  PopulatedAutomationRule,
+} from "../types";
+import {
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_EVENT_OPTIONS,
+  AutomationRuleDialog,
+} from "./automation-rule-dialog";
+
+const EXECUTION_STATUS_STYLES: Record<AutomationExecutionStatus, string> = {
+  [AutomationExecutionStatus.SUCCESS]: "bg-green-500/10 text-green-600 border-green-500/20",
+  [AutomationExecutionStatus.PARTIAL]: "bg-amber-500/10 text-amber-600 border-amber-500/20",
+  [AutomationExecutionStatus.FAILED]: "bg-red-500/10 text-red-600 border-red-500/20",
+  [AutomationExecutionStatus.LOOP_BLOCKED]: "bg-slate-500/10 text-slate-600 border-slate-500/20",
+};
+
+const ExecutionLog = ({ ruleId }: { ruleId: string }) => {
+  const { data, isLoading } = useGetAutomationExecutions({ ruleId });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (!data?.documents.length) {
+    return <p className="text-xs text-muted-foreground py-2">This rule hasn&apos;t run yet.</p>;
+  }
+
+  return (
+    <div className="divide-y rounded-md border text-xs">
+      {data.documents.map((execution) => (
+        <div key={execution.$id} className="flex items-start gap-3 px-3 py-2">
+          <Badge
+            variant="outline"
+            className={cn("shrink-0 text-[10px]", EXECUTION_STATUS_STYLES[execution.status as AutomationExecutionStatus])}
+          >
+            {execution.status.replace("_", " ")}
+          </Badge>
+          <div className="flex-1 min-w-0">
+            <p className="truncate">
+              {execution.trigger.replace(/^WORKITEM_/, "").replace(/_/g, " ").toLowerCase()}
+              {" · "}
+              {execution.actionsExecuted} action{execution.actionsExecuted === 1 ? "" : "s"}
+              {" · "}
+              {execution.durationMs}ms
+            </p>
+            {execution.error && (
+              <p className="text-destructive break-words">{execution.error}</p>
+            )}
+          </div>
+          <span className="shrink-0 text-muted-foreground">
+            {formatDistanceToNow(new Date(execution.$createdAt), { addSuffix: true })}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface AutomationRulesSettingsProps {
+  workspaceId: string;
+  projectId: string;
+  workflowId?: string;
+  canManage: boolean;
+}
+
+export const AutomationRulesSettings = ({
+  workspaceId,
+  projectId,
+  workflowId,
+  canManage,
+}: AutomationRulesSettingsProps) => {
+  const { data, isLoading } = useGetAutomationRules({ workspaceId, projectId });
+  const { mutate: updateRule } = useUpdateAutomationRule();
+  const { mutate: deleteRule } = useDeleteAutomationRule();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<PopulatedAutomationRule | null>(null);
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null);
+
+  const [DeleteDialog, confirmDelete] = useConfirm(
+    "Delete Automation Rule",
+    "This action cannot be undone. The rule and its execution log will stop being available.",
+    "destructive"
+  );
+
+  const rules = (data?.documents ?? []) as PopulatedAutomationRule[];
+
+  const openEditor = (rule: PopulatedAutomationRule | null) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    const ok = await confirmDelete();
+    if (ok) {
+      deleteRule({ param: { ruleId } });
+    }
+  };
+
+  const describeTrigger = (rule: PopulatedAutomationRule) => {
+    if (rule.triggerType === AutomationTriggerType.SCHEDULE) {
+      return `Runs ${rule.schedule?.toLowerCase()}`;
+    }
+    const labels = (rule.eventTypes ?? []).map(
+      (type) => AUTOMATION_EVENT_OPTIONS.find((o) => o.value === type)?.label ?? type
+    );
+    return `When: ${labels.join(", ")}`;
+  };
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <DeleteDialog />
+      <AutomationRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        workspaceId={workspaceId}
+        projectId={projectId}
+        workflowId={workflowId}
+        rule={editingRule}
+      />
+
+      {canManage && (
+        <div className="flex justify-end">
+          <Button onClick={() => openEditor(null)} size="sm">
+            <PlusIcon className="size-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex flex-col gap-y-2">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-md border border-dashed py-10 text-center">
+          <Zap className="size-8 text-muted-foreground mb-2" />
+          <p className="text-sm font-medium">No automation rules yet</p>
+          <p className="text-xs text-muted-foreground">
+            Automate repetitive work: assign, label, transition or notify when something happens.
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-y-2">
+          {rules.map((rule) => {
+            // Space rules are shown for context but managed from the space
+            const isInherited = !rule.projectId;
+            const isExpanded = expandedRuleId === rule.$id;
+
+            return (
+              <div key={rule.$id} className="rounded-md border p-3">
+                <div className="flex items-start gap-3">
+                  <Switch
+                    checked={rule.enabled}
+                    disabled={!canManage || isInherited}
+                    onCheckedChange={(enabled) => updateRule({ param: { ruleId: rule.$id }, json: { enabled } })}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">{rule.name}</p>
+                      {isInherited && <Badge variant="secondary" className="text-[10px]">Space rule</Badge>}
+                    </div>
+                    {rule.description && (
+                      <p className="text-xs text-muted-foreground">{rule.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">{describeTrigger(rule)}</p>
+                    {rule.conditionsJql && (
+                      <p className="text-xs font-mono text-muted-foreground truncate">If: {rule.conditionsJql}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {rule.actions.map((action, index) => (
+                        <Badge key={index} variant="outline" className="text-[10px]">
+                          {AUTOMATION_ACTION_LABELS[action.type]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Execution log"
+                      onClick={() => setExpandedRuleId(isExpanded ? null : rule.$id)}
+                    >
+                      <HistoryIcon className="size-4" />
+                    </Button>
+                    {canManage && !isInherited && (
+                      <>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Edit" onClick={() => openEditor(rule)}>
+                          <PencilIcon className="size-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Delete" onClick={() => handleDelete(rule.$id)}>
+                          <TrashIcon className="size-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {isExpanded && (
+                  <div className="mt-3">
+                    <ExecutionLog ruleId={rule.$id} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
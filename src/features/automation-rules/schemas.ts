@@ -0,0 +1,94 @@
+import { z } from "zod";
+
+import { WorkitemEventType } from "@/lib/notifications/types";
+
+import {
+  AutomationActionType,
+  AutomationSchedule,
+  AutomationTriggerType,
+} from "./types";
+
+const automationActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal(AutomationActionType.SET_FIELD),
+    field: z.string().min(1),
+    value: z.unknown(),
+    isCustomField: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal(AutomationActionType.ASSIGN),
+    memberIds: z.array(z.string()).max(20),
+    mode: z.enum(["add", "replace"]).default("add"),
+  }),
+  z.object({
+    type: z.literal(AutomationActionType.ADD_LABEL),
+    labels: z.array(z.string().trim().min(1)).min(1).max(20),
+  }),
+  z.object({
+    type: z.literal(AutomationActionType.MOVE_TO_SPRINT),
+    sprintId: z.string().min(1).nullable(), // "ACTIVE" = the project's active sprint, null = backlog
+  }),
+  z.object({
+    type: z.literal(AutomationActionType.COMMENT),
+    content: z.string().trim().min(1).max(4000),
+  }),
+  z.object({
+    type: z.literal(AutomationActionType.TRANSITION),
+    toStatus: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal(AutomationActionType.CALL_WEBHOOK),
+    webhookId: z.string().nullish(), // Omit to notify every webhook subscribed to AUTOMATION_TRIGGERED
+    message: z.string().max(1000).nullish(),
+  }),
+]);
+
+const baseAutomationRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(256),
+  description: z.string().trim().max(2000).nullish(),
+  enabled: z.boolean().optional(),
+  triggerType: z.nativeEnum(AutomationTriggerType),
+  eventTypes: z.array(z.nativeEnum(WorkitemEventType)).optional(),
+  schedule: z.nativeEnum(AutomationSchedule).nullish(),
+  jql: z.string().trim().max(2000).nullish(),
+  actions: z.array(automationActionSchema).min(1, "Add at least one action").max(10),
+});
+
+const refineTrigger = (
+  value: { triggerType?: AutomationTriggerType; eventTypes?: WorkitemEventType[]; schedule?: AutomationSchedule | null },
+  ctx: z.RefinementCtx
+) => {
+  if (value.triggerType === AutomationTriggerType.EVENT && !value.eventTypes?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["eventTypes"], message: "Select at least one event" });
+  }
+  if (value.triggerType === AutomationTriggerType.SCHEDULE && !value.schedule) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["schedule"], message: "Select a schedule" });
+  }
+};
+
+export const createAutomationRuleSchema = baseAutomationRuleSchema
+  .extend({
+    workspaceId: z.string(),
+    projectId: z.string().optional(),
+    spaceId: z.string().optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (!value.projectId && !value.spaceId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["projectId"], message: "A project or space is required" });
+    }
+    refineTrigger(value, ctx);
+  });
+
+export const updateAutomationRuleSchema = baseAutomationRuleSchema
+  .partial()
+  .superRefine((value, ctx) => {
+    if (value.triggerType) refineTrigger(value, ctx);
+  });
+
+export const getAutomationRulesSchema = z.object({
+  workspaceId: z.string(),
+  projectId: z.string().optional(),
+  spaceId: z.string().optional(),
+});
+
+export type AutomationActionInput = z.infer<typeof automationActionSchema>;
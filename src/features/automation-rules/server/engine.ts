@@ -0,0 +1,646 @@
+import "server-only";
+
+import { Databases, ID, Query, type Users as UsersType } from "node-appwrite";
+
+import {
+  AUTOMATION_EXECUTIONS_ID,
+  AUTOMATION_RULES_ID,
+  COMMENTS_ID,
+  DATABASE_ID,
+  MEMBERS_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  TASKS_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { dispatchWorkitemEvent } from "@/lib/notifications";
+import {
+  createAssignedEvent,
+  createCommentAddedEvent,
+  createDueDateChangedEvent,
+  createPriorityChangedEvent,
+  createTaskUpdatedEvent,
+  createUnassignedEvent,
+} from "@/lib/notifications/events";
+import { WorkitemEvent, WorkitemEventMetadata, WorkitemEventType } from "@/lib/notifications/types";
+import { invalidateCachePattern, CKPattern } from "@/lib/redis";
+import { Project } from "@/features/projects/types";
+import { evaluateFilterGroup, parseFilterGroup } from "@/features/saved-views/lib/filter-evaluator";
+import { FilterGroup } from "@/features/saved-views/types";
+import { resolveJqlFunctions } from "@/features/search/lib/jql";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
+import { getOpenSprintIds, resolveFilterReferences, searchWorkItems } from "@/features/search/server/search-service";
+import { SprintStatus } from "@/features/sprints/types";
+import { diffWorkItemFields } from "@/features/tasks/change-log";
+import { recordWorkItemChange } from "@/features/tasks/server/change-log";
+import { Task, WorkItemChangeSource } from "@/features/tasks/types";
+import { WebhookEventType } from "@/features/webhooks/server/types";
+import { webhookDispatcher } from "@/features/webhooks/server/webhookDispatcher";
+import { applyStatusTransition, findTransitionByStatusKeys } from "@/features/workflows/server/transition-utils";
+
+import {
+  AUTOMATION_SETTABLE_FIELDS,
+  AutomationAction,
+  AutomationActionType,
+  AutomationExecutionStatus,
+  AutomationRule,
+  AutomationSchedule,
+  AutomationTriggerType,
+  parseAutomationActions,
+} from "../types";
+
+/**
+ * Automation Rule Engine
+ *
+ * Runs when/if/then rules configured on a project or space:
+ * - EVENT rules run from the notification dispatcher for every work item
+ *   event whose type the rule listens to
+ * - SCHEDULE rules run from the automation cron against every work item in
+ *   scope that matches the rule's conditions
+ *
+ * Conditions are saved-view filter groups, evaluated with the same evaluator
+ * as search. `me()` resolves to the user who triggered the event (or the rule
+ * creator for scheduled runs).
+ *
+ * Actions are applied as the "system" user and emit regular work item events,
+ * tagged with the chain of rules that produced them. A rule never re-runs on
+ * an event it (indirectly) caused, and chains stop after MAX_AUTOMATION_DEPTH
+ * rules; both cases are recorded as LOOP_BLOCKED in the execution log.
+ */
+
+const SYSTEM_USER_ID = "system";
+const SYSTEM_USER_NAME = "Automation";
+const MAX_AUTOMATION_DEPTH = 3;
+const SCHEDULED_ITEM_LIMIT = 200;
+
+const SCHEDULE_INTERVAL_MS: Record<AutomationSchedule, number> = {
+  [AutomationSchedule.HOURLY]: 60 * 60 * 1000,
+  [AutomationSchedule.DAILY]: 24 * 60 * 60 * 1000,
+  [AutomationSchedule.WEEKLY]: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Cron runs drift by a few seconds; don't skip a slot because of it
+const SCHEDULE_TOLERANCE_MS = 60 * 1000;
+
+interface AutomationChain {
+  depth: number;
+  ruleIds: string[];
+}
+
+interface RuleRunContext {
+  databases: Databases;
+  users: UsersType;
+  rule: AutomationRule;
+  project: Project;
+  trigger: string;
+  chain: AutomationChain;
+  /** Member ID `me()` resolves to */
+  currentMemberId?: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function getChain(metadata?: WorkitemEventMetadata): AutomationChain {
+  const depth = typeof metadata?.automationDepth === "number" ? metadata.automationDepth : 0;
+  const ruleIds = Array.isArray(metadata?.automationRuleIds)
+    ? (metadata.automationRuleIds as string[])
+    : [];
+  return { depth, ruleIds };
+}
+
+function chainMetadata(context: RuleRunContext): WorkitemEventMetadata {
+  return {
+    automated: true,
+    automationRuleId: context.rule.$id,
+    automationRuleName: context.rule.name,
+    automationDepth: context.chain.depth + 1,
+    automationRuleIds: [...context.chain.ruleIds, context.rule.$id],
+  };
+}
+
+function emit(event: WorkitemEvent, context: RuleRunContext): void {
+  event.metadata = { ...event.metadata, ...chainMetadata(context) };
+  dispatchWorkitemEvent(event).catch(() => { });
+}
+
+async function getMemberId(
+  databases: Databases,
+  workspaceId: string,
+  userId: string
+): Promise<string | undefined> {
+  if (!userId || userId === SYSTEM_USER_ID) return undefined;
+  const members = await databases.listDocuments(
+    DATABASE_ID,
+    MEMBERS_ID,
+    [Query.equal("workspaceId", workspaceId), Query.equal("userId", userId), Query.limit(1)]
+  );
+  return members.documents[0]?.$id;
+}
+
+async function resolveRuleConditions(
+  context: RuleRunContext,
+  conditions: FilterGroup
+): Promise<FilterGroup> {
+  const { databases, users, project } = context;
+  const needsOpenSprints = JSON.stringify(conditions).includes("openSprints()");
+  const openSprintIds = needsOpenSprints
+    ? await getOpenSprintIds(databases, project.workspaceId, project.$id).catch(() => [])
+    : [];
+
+  const resolved = resolveJqlFunctions(conditions, {
+    currentMemberId: context.currentMemberId,
+    openSprintIds,
+  });
+  return resolveFilterReferences(databases, users, resolved, project.workspaceId, project.$id);
+}
+
+function matchesConditions(workItem: Task, conditions: FilterGroup): boolean {
+  const text = [workItem.key, workItem.title, workItem.description].filter(Boolean).join("\n");
+  return evaluateFilterGroup(conditions, { ...workItem, text });
+}
+
+async function recordExecution(
+  context: RuleRunContext,
+  workItemId: string | null,
+  status: AutomationExecutionStatus,
+  actionsExecuted: number,
+  errors: string[],
+  startedAt: number
+): Promise<void> {
+  try {
+    await context.databases.createDocument(
+      DATABASE_ID,
+      AUTOMATION_EXECUTIONS_ID,
+      ID.unique(),
+      {
+        ruleId: context.rule.$id,
+        workspaceId: context.rule.workspaceId,
+        projectId: context.project.$id,
+        workItemId,
+        trigger: context.trigger,
+        status,
+        actionsExecuted,
+        error: errors.length > 0 ? errors.join("; ").slice(0, 2048) : null,
+        durationMs: Date.now() - startedAt,
+      }
+    );
+  } catch (error) {
+    console.error("[Automation] Failed to record execution:", error);
+  }
+}
+
+async function updateWorkItem(
+  databases: Databases,
+  workItem: Task,
+  data: Record<string, unknown>
+): Promise<Task> {
+  const updated = await databases.updateDocument<Task>(
+    DATABASE_ID,
+    TASKS_ID,
+    workItem.$id,
+    { ...data, lastModifiedBy: SYSTEM_USER_ID }
+  );
+
+  await recordWorkItemChange(databases, {
+    item: updated,
+    changes: diffWorkItemFields(workItem, updated),
+    changedBy: SYSTEM_USER_ID,
+    changedByName: SYSTEM_USER_NAME,
+    source: WorkItemChangeSource.AUTOMATION,
+  });
+
+  syncWorkItemSearchIndex(updated.$id).catch(() => { });
+
+  await Promise.all([
+    invalidateCachePattern(CKPattern.taskLists(updated.workspaceId)),
+    invalidateCachePattern(CKPattern.workItemLists(updated.workspaceId)),
+  ]);
+
+  return updated;
+}
+
+function parseCustomFieldValues(raw: unknown): { fieldId: string; value: unknown }[] {
+  if (Array.isArray(raw)) return raw;
+  if (typeof raw !== "string" || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+async function executeAction(
+  context: RuleRunContext,
+  workItem: Task,
+  action: AutomationAction
+): Promise<Task> {
+  const { databases, project, rule } = context;
+
+  switch (action.type) {
+    case AutomationActionType.SET_FIELD: {
+      if (action.isCustomField) {
+        const values = parseCustomFieldValues((workItem as Task & { customFields?: unknown }).customFields)
+          .filter((entry) => entry.fieldId !== action.field);
+        values.push({ fieldId: action.field, value: action.value });
+        const updated = await updateWorkItem(databases, workItem, { customFields: JSON.stringify(values) });
+        emit(createTaskUpdatedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, "Updated custom field"), context);
+        return updated;
+      }
+
+      if (!(AUTOMATION_SETTABLE_FIELDS as readonly string[]).includes(action.field)) {
+        throw new Error(`Field "${action.field}" cannot be set by automation`);
+      }
+
+      const previous = (workItem as unknown as Record<string, unknown>)[action.field];
+      const updated = await updateWorkItem(databases, workItem, { [action.field]: action.value ?? null });
+
+      if (action.field === "priority") {
+        emit(createPriorityChangedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, String(previous ?? ""), String(action.value ?? "")), context);
+      } else if (action.field === "dueDate") {
+        emit(createDueDateChangedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, previous as string | undefined, (action.value as string | null) ?? undefined), context);
+      } else {
+        emit(createTaskUpdatedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, `Updated ${action.field}`), context);
+      }
+      return updated;
+    }
+
+    case AutomationActionType.ASSIGN: {
+      // Only members of this workspace can be assigned
+      const validMembers = action.memberIds.length > 0
+        ? await databases.listDocuments(
+          DATABASE_ID,
+          MEMBERS_ID,
+          [Query.equal("$id", action.memberIds), Query.equal("workspaceId", workItem.workspaceId)]
+        )
+        : { documents: [] };
+      const memberIds = validMembers.documents.map((m) => m.$id);
+
+      const current = workItem.assigneeIds ?? [];
+      const next = action.mode === "replace"
+        ? memberIds
+        : Array.from(new Set([...current, ...memberIds]));
+
+      const added = next.filter((id) => !current.includes(id));
+      const removed = current.filter((id) => !next.includes(id));
+      if (added.length === 0 && removed.length === 0) return workItem;
+
+      const updated = await updateWorkItem(databases, workItem, { assigneeIds: next });
+      if (added.length > 0) {
+        emit(createAssignedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, added), context);
+      }
+      if (removed.length > 0) {
+        emit(createUnassignedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, removed), context);
+      }
+      return updated;
+    }
+
+    case AutomationActionType.ADD_LABEL: {
+      const current = workItem.labels ?? [];
+      const next = Array.from(new Set([...current, ...action.labels]));
+      if (next.length === current.length) return workItem;
+
+      const updated = await updateWorkItem(databases, workItem, { labels: next });
+      emit(createTaskUpdatedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, `Added labels: ${action.labels.join(", ")}`), context);
+      return updated;
+    }
+
+    case AutomationActionType.MOVE_TO_SPRINT: {
+      let sprintId = action.sprintId;
+
+      if (sprintId === "ACTIVE") {
+        const sprints = await databases.listDocuments(
+          DATABASE_ID,
+          SPRINTS_ID,
+          [
+            Query.equal("projectId", project.$id),
+            Query.equal("status", SprintStatus.ACTIVE),
+            Query.limit(1),
+          ]
+        );
+        if (sprints.total === 0) {
+          throw new Error("Project has no active sprint");
+        }
+        sprintId = sprints.documents[0].$id;
+      } else if (sprintId) {
+        const sprint = await databases.getDocument(DATABASE_ID, SPRINTS_ID, sprintId);
+        if (sprint.projectId !== project.$id) {
+          throw new Error("Sprint belongs to another project");
+        }
+      }
+
+      if ((workItem.sprintId ?? null) === sprintId) return workItem;
+
+      const updated = await updateWorkItem(databases, workItem, { sprintId });
+      emit(createTaskUpdatedEvent(updated, SYSTEM_USER_ID, SYSTEM_USER_NAME, sprintId ? "Moved to sprint" : "Moved to backlog"), context);
+      return updated;
+    }
+
+    case AutomationActionType.COMMENT: {
+      const comment = await databases.createDocument(
+        DATABASE_ID,
+        COMMENTS_ID,
+        ID.unique(),
+        {
+          content: action.content,
+          taskId: workItem.$id,
+          workspaceId: workItem.workspaceId,
+          projectId: workItem.projectId,
+          authorId: SYSTEM_USER_ID,
+          isEdited: false,
+        }
+      );
+      emit(createCommentAddedEvent(workItem, SYSTEM_USER_ID, SYSTEM_USER_NAME, comment.$id, [], action.content), context);
+      return workItem;
+    }
+
+    case AutomationActionType.TRANSITION: {
+      if (workItem.status === action.toStatus) return workItem;
+
+      let fromStatusName = workItem.status;
+      let toStatusName = action.toStatus;
+
+      if (project.workflowId) {
+        const found = await findTransitionByStatusKeys(databases, project.workflowId, workItem.status, action.toStatus);
+        if (!found) {
+          throw new Error(`No workflow transition from ${workItem.status} to ${action.toStatus}`);
+        }
+        if (found.transition.requiresApproval) {
+          throw new Error(`Transition to ${found.toStatusDoc.name} requires approval`);
+        }
+        fromStatusName = found.fromStatusDoc.name;
+        toStatusName = found.toStatusDoc.name;
+      }
+
+      return applyStatusTransition({
+        databases,
+        workItem,
+        toStatus: action.toStatus,
+        fromStatusName,
+        toStatusName,
+        triggeredBy: SYSTEM_USER_ID,
+        triggeredByName: SYSTEM_USER_NAME,
+        eventMetadata: chainMetadata(context),
+        changeSource: WorkItemChangeSource.AUTOMATION,
+      });
+    }
+
+    case AutomationActionType.CALL_WEBHOOK: {
+      const appUrl = process.env.NEXT_PUBLIC_APP_URL || "";
+      await webhookDispatcher.dispatch(
+        project.$id,
+        WebhookEventType.AUTOMATION_TRIGGERED,
+        {
+          actor: { userId: SYSTEM_USER_ID, userName: SYSTEM_USER_NAME, userEmail: "" },
+          data: {
+            workitemId: workItem.$id,
+            workitemKey: workItem.key,
+            title: workItem.title,
+            summary: action.message || `Automation rule "${rule.name}" ran on ${workItem.key || workItem.title}`,
+            deepLinkUrl: `${appUrl}/workspaces/${workItem.workspaceId}/tasks/${workItem.$id}`,
+            ruleId: rule.$id,
+            ruleName: rule.name,
+            trigger: context.trigger,
+            status: workItem.status,
+          },
+        },
+        { webhookId: action.webhookId ?? undefined }
+      );
+      return workItem;
+    }
+
+    default:
+      throw new Error(`Unknown action type: ${(action as { type: string }).type}`);
+  }
+}
+
+/**
+ * Run every action of the rule on one work item and record the execution.
+ * Actions run in order; a failing action is logged and the rest still run.
+ */
+async function runRuleOnWorkItem(context: RuleRunContext, initial: Task): Promise<void> {
+  const startedAt = Date.now();
+  const actions = parseAutomationActions(context.rule.actions);
+  const errors: string[] = [];
+  let executed = 0;
+  let workItem = initial;
+
+  for (const action of actions) {
+    try {
+      workItem = await executeAction(context, workItem, action);
+      executed++;
+    } catch (error) {
+      errors.push(`${action.type}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  const status = errors.length === 0
+    ? AutomationExecutionStatus.SUCCESS
+    : executed > 0 ? AutomationExecutionStatus.PARTIAL : AutomationExecutionStatus.FAILED;
+
+  await recordExecution(context, workItem.$id, status, executed, errors, startedAt);
+}
+
+// =============================================================================
+// RULE LOOKUP
+// =============================================================================
+
+async function listRulesForProject(
+  databases: Databases,
+  project: Project,
+  triggerType: AutomationTriggerType
+): Promise<AutomationRule[]> {
+  const scopes = [
+    databases.listDocuments<AutomationRule>(
+      DATABASE_ID,
+      AUTOMATION_RULES_ID,
+      [
+        Query.equal("projectId", project.$id),
+        Query.equal("enabled", true),
+        Query.equal("triggerType", triggerType),
+        Query.limit(100),
+      ]
+    ),
+  ];
+
+  if (project.spaceId) {
+    scopes.push(
+      databases.listDocuments<AutomationRule>(
+        DATABASE_ID,
+        AUTOMATION_RULES_ID,
+        [
+          Query.equal("workspaceId", project.workspaceId),
+          Query.equal("spaceId", project.spaceId),
+          Query.isNull("projectId"),
+          Query.equal("enabled", true),
+          Query.equal("triggerType", triggerType),
+          Query.limit(100),
+        ]
+      )
+    );
+  }
+
+  const results = await Promise.all(scopes);
+  return results.flatMap((r) => r.documents);
+}
+
+// =============================================================================
+// ENTRY POINTS
+// =============================================================================
+
+/**
+ * Run EVENT rules listening to this event. Called by the notification
+ * dispatcher without awaiting; never throws.
+ */
+export async function runAutomationRulesForEvent(event: WorkitemEvent): Promise<void> {
+  const projectId = event.workitem?.projectId;
+  if (!event.workitemId || !projectId) return;
+
+  try {
+    const { databases, users } = await createAdminClient();
+
+    const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+    const rules = (await listRulesForProject(databases, project, AutomationTriggerType.EVENT))
+      .filter((rule) => rule.eventTypes?.includes(event.type));
+    if (rules.length === 0) return;
+
+    const chain = getChain(event.metadata);
+    const currentMemberId = await getMemberId(databases, event.workspaceId, event.triggeredBy).catch(() => undefined);
+
+    for (const rule of rules) {
+      const context: RuleRunContext = {
+        databases,
+        users,
+        rule,
+        project,
+        trigger: event.type,
+        chain,
+        currentMemberId,
+      };
+
+      if (chain.ruleIds.includes(rule.$id) || chain.depth >= MAX_AUTOMATION_DEPTH) {
+        await recordExecution(context, event.workitemId, AutomationExecutionStatus.LOOP_BLOCKED, 0, [
+          chain.ruleIds.includes(rule.$id)
+            ? "Event was caused by this rule"
+            : `Automation chain exceeded ${MAX_AUTOMATION_DEPTH} rules`,
+        ], Date.now());
+        continue;
+      }
+
+      try {
+        // Re-read: earlier rules may have changed the item
+        const workItem = event.type === WorkitemEventType.WORKITEM_DELETED
+          ? event.workitem
+          : await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, event.workitemId);
+
+        const conditions = parseFilterGroup(rule.conditions);
+        if (conditions && !matchesConditions(workItem, await resolveRuleConditions(context, conditions))) {
+          continue;
+        }
+
+        await runRuleOnWorkItem(context, workItem);
+      } catch (error) {
+        console.error("[Automation] Rule failed:", rule.$id, error);
+        await recordExecution(context, event.workitemId, AutomationExecutionStatus.FAILED, 0, [
+          error instanceof Error ? error.message : "Unknown error",
+        ], Date.now());
+      }
+    }
+  } catch (error) {
+    console.error("[Automation] Failed to run rules for event:", event.type, error);
+  }
+}
+
+function isDue(rule: AutomationRule, now: Date): boolean {
+  if (!rule.schedule) return false;
+  if (!rule.lastRunAt) return true;
+  const elapsed = now.getTime() - new Date(rule.lastRunAt).getTime();
+  return elapsed + SCHEDULE_TOLERANCE_MS >= SCHEDULE_INTERVAL_MS[rule.schedule];
+}
+
+/**
+ * Run every SCHEDULE rule that is due. Each rule is applied to at most
+ * SCHEDULED_ITEM_LIMIT matching work items per project per run.
+ */
+export async function runScheduledAutomationRules(now: Date = new Date()): Promise<{
+  rulesRun: number;
+  itemsProcessed: number;
+}> {
+  const { databases, users } = await createAdminClient();
+
+  const rules = await databases.listDocuments<AutomationRule>(
+    DATABASE_ID,
+    AUTOMATION_RULES_ID,
+    [
+      Query.equal("triggerType", AutomationTriggerType.SCHEDULE),
+      Query.equal("enabled", true),
+      Query.limit(500),
+    ]
+  );
+
+  let rulesRun = 0;
+  let itemsProcessed = 0;
+
+  for (const rule of rules.documents.filter((r) => isDue(r, now))) {
+    // Claim the slot first so an overlapping cron call doesn't run it twice
+    await databases.updateDocument(DATABASE_ID, AUTOMATION_RULES_ID, rule.$id, {
+      lastRunAt: now.toISOString(),
+    });
+    rulesRun++;
+
+    try {
+      const projects = rule.projectId
+        ? [await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, rule.projectId)]
+        : (await databases.listDocuments<Project>(
+          DATABASE_ID,
+          PROJECTS_ID,
+          [
+            Query.equal("workspaceId", rule.workspaceId),
+            Query.equal("spaceId", rule.spaceId ?? ""),
+            Query.limit(100),
+          ]
+        )).documents;
+
+      const currentMemberId = await getMemberId(databases, rule.workspaceId, rule.createdBy).catch(() => undefined);
+      const conditions = parseFilterGroup(rule.conditions) ?? { logic: "AND" as const, conditions: [] };
+
+      for (const project of projects) {
+        const context: RuleRunContext = {
+          databases,
+          users,
+          rule,
+          project,
+          trigger: `SCHEDULE:${rule.schedule}`,
+          chain: { depth: 0, ruleIds: [] },
+          currentMemberId,
+        };
+
+        const filters = await resolveRuleConditions(context, conditions);
+        const { documents } = await searchWorkItems({
+          databases,
+          workspaceId: rule.workspaceId,
+          projectId: project.$id,
+          filters,
+          orderBy: [],
+          limit: SCHEDULED_ITEM_LIMIT,
+          offset: 0,
+        });
+
+        for (const workItem of documents) {
+          await runRuleOnWorkItem(context, workItem as unknown as Task);
+          itemsProcessed++;
+        }
+      }
+    } catch (error) {
+      console.error("[Automation] Scheduled rule failed:", rule.$id, error);
+    }
+  }
+
+  return { rulesRun, itemsProcessed };
+}
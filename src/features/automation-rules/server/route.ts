@@ -0,0 +1,313 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { ID, Query } from "node-appwrite";
+import { z } from "zod";
+
+import {
+  AUTOMATION_EXECUTIONS_ID,
+  AUTOMATION_RULES_ID,
+  DATABASE_ID,
+  PROJECTS_ID,
+} from "@/config";
+import { sessionMiddleware } from "@/lib/session-middleware";
+import { getMember } from "@/features/members/utils";
+import { Project } from "@/features/projects/types";
+import { parseFilterGroup } from "@/features/saved-views/lib/filter-evaluator";
+import { JqlParseError, parseJql } from "@/features/search/lib/jql";
+
+import {
+  createAutomationRuleSchema,
+  getAutomationRulesSchema,
+  updateAutomationRuleSchema,
+} from "../schemas";
+import {
+  AutomationExecution,
+  AutomationRule,
+  AutomationTriggerType,
+  PopulatedAutomationRule,
+  parseAutomationActions,
+} from "../types";
+import { canManageAutomationRules, isSpaceInWorkspace } from "./utils";
+
+function populateRule(rule: AutomationRule): PopulatedAutomationRule {
+  return {
+    ...rule,
+    conditions: parseFilterGroup(rule.conditions),
+    actions: parseAutomationActions(rule.actions),
+  };
+}
+
+// Conditions are authored as JQL and stored as the parsed filter group
+function parseConditions(jql: string | null | undefined): string | null {
+  if (!jql?.trim()) return null;
+  return JSON.stringify(parseJql(jql).filters);
+}
+
+const app = new Hono()
+  // List rules for a project (including rules inherited from its space) or a space
+  .get(
+    "/",
+    sessionMiddleware,
+    zValidator("query", getAutomationRulesSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, spaceId } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const queries = [Query.equal("workspaceId", workspaceId), Query.limit(100)];
+
+      if (projectId) {
+        const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+        const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+        if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)) {
+          return c.json({ error: "Forbidden: No access to this project" }, 403);
+        }
+
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+        queries.push(
+          project.spaceId
+            ? Query.or([
+              Query.equal("projectId", projectId),
+              Query.and([Query.equal("spaceId", project.spaceId), Query.isNull("projectId")]),
+            ])
+            : Query.equal("projectId", projectId)
+        );
+      } else if (spaceId) {
+        queries.push(Query.equal("spaceId", spaceId), Query.isNull("projectId"));
+      }
+
+      const rules = await databases.listDocuments<AutomationRule>(
+        DATABASE_ID,
+        AUTOMATION_RULES_ID,
+        queries
+      );
+
+      return c.json({
+        data: {
+          documents: rules.documents.map(populateRule),
+          total: rules.total,
+        },
+      });
+    }
+  )
+
+  .post(
+    "/",
+    sessionMiddleware,
+    zValidator("json", createAutomationRuleSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, spaceId, jql, eventTypes, schedule, actions, ...rest } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (projectId) {
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+        if (project.workspaceId !== workspaceId) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+      } else if (spaceId && !(await isSpaceInWorkspace(databases, spaceId, workspaceId))) {
+        return c.json({ error: "Space not found" }, 404);
+      }
+
+      if (!(await canManageAutomationRules(databases, member, { projectId, spaceId }))) {
+        return c.json({ error: "Forbidden: You cannot manage automation rules here" }, 403);
+      }
+
+      let conditions: string | null;
+      try {
+        conditions = parseConditions(jql);
+      } catch (error) {
+        if (error instanceof JqlParseError) {
+          return c.json({ error: error.message, position: error.position }, 400);
+        }
+        throw error;
+      }
+
+      const rule = await databases.createDocument<AutomationRule>(
+        DATABASE_ID,
+        AUTOMATION_RULES_ID,
+        ID.unique(),
+        {
+          ...rest,
+          workspaceId,
+          projectId: projectId ?? null,
+          spaceId: projectId ? null : spaceId,
+          enabled: rest.enabled ?? true,
+          eventTypes: rest.triggerType === AutomationTriggerType.EVENT ? eventTypes : [],
+          schedule: rest.triggerType === AutomationTriggerType.SCHEDULE ? schedule : null,
+          conditions,
+          conditionsJql: jql?.trim() || null,
+          actions: JSON.stringify(actions),
+          createdBy: user.$id,
+        }
+      );
+
+      return c.json({ data: populateRule(rule) });
+    }
+  )
+
+  .patch(
+    "/:ruleId",
+    sessionMiddleware,
+    zValidator("json", updateAutomationRuleSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { ruleId } = c.req.param();
+      const { jql, actions, eventTypes, schedule, ...rest } = c.req.valid("json");
+
+      const existing = await databases.getDocument<AutomationRule>(DATABASE_ID, AUTOMATION_RULES_ID, ruleId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!existing.projectId && existing.spaceId &&
+        !(await isSpaceInWorkspace(databases, existing.spaceId, existing.workspaceId))) {
+        return c.json({ error: "Space not found" }, 404);
+      }
+
+      if (!(await canManageAutomationRules(databases, member, existing))) {
+        return c.json({ error: "Forbidden: You cannot manage automation rules here" }, 403);
+      }
+
+      const updates: Record<string, unknown> = { ...rest };
+
+      if (jql !== undefined) {
+        try {
+          updates.conditions = parseConditions(jql);
+          updates.conditionsJql = jql?.trim() || null;
+        } catch (error) {
+          if (error instanceof JqlParseError) {
+            return c.json({ error: error.message, position: error.position }, 400);
+          }
+          throw error;
+        }
+      }
+      if (actions !== undefined) updates.actions = JSON.stringify(actions);
+
+      const triggerType = rest.triggerType ?? existing.triggerType;
+      if (eventTypes !== undefined || rest.triggerType) {
+        updates.eventTypes = triggerType === AutomationTriggerType.EVENT
+          ? eventTypes ?? existing.eventTypes ?? []
+          : [];
+      }
+      if (schedule !== undefined || rest.triggerType) {
+        updates.schedule = triggerType === AutomationTriggerType.SCHEDULE
+          ? schedule ?? existing.schedule ?? null
+          : null;
+      }
+
+      const rule = await databases.updateDocument<AutomationRule>(
+        DATABASE_ID,
+        AUTOMATION_RULES_ID,
+        ruleId,
+        updates
+      );
+
+      return c.json({ data: populateRule(rule) });
+    }
+  )
+
+  .delete(
+    "/:ruleId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { ruleId } = c.req.param();
+
+      const existing = await databases.getDocument<AutomationRule>(DATABASE_ID, AUTOMATION_RULES_ID, ruleId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageAutomationRules(databases, member, existing))) {
+        return c.json({ error: "Forbidden: You cannot manage automation rules here" }, 403);
+      }
+
+      await databases.deleteDocument(DATABASE_ID, AUTOMATION_RULES_ID, ruleId);
+
+      return c.json({ data: { $id: ruleId } });
+    }
+  )
+
+  // Execution log, newest first
+  .get(
+    "/:ruleId/executions",
+    sessionMiddleware,
+    zValidator("query", z.object({ limit: z.coerce.number().min(1).max(100).optional() })),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { ruleId } = c.req.param();
+      const { limit } = c.req.valid("query");
+
+      const rule = await databases.getDocument<AutomationRule>(DATABASE_ID, AUTOMATION_RULES_ID, ruleId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: rule.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (rule.projectId) {
+        const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+        const access = await resolveUserProjectAccess(databases, user.$id, rule.projectId);
+        if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)) {
+          return c.json({ error: "Forbidden: No access to this project" }, 403);
+        }
+      }
+
+      const executions = await databases.listDocuments<AutomationExecution>(
+        DATABASE_ID,
+        AUTOMATION_EXECUTIONS_ID,
+        [
+          Query.equal("ruleId", ruleId),
+          Query.orderDesc("$createdAt"),
+          Query.limit(limit ?? 50),
+        ]
+      );
+
+      return c.json({ data: executions });
+    }
+  );
+
+export default app;
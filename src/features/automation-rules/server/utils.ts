@@ -0,0 +1,53 @@
+import "server-only";
+
+import { Databases, Models, Query } from "node-appwrite";
+
+import { DATABASE_ID, SPACE_MEMBERS_ID, SPACES_ID } from "@/config";
+import { MemberRole } from "@/features/members/types";
+import { Space, SpaceRole } from "@/features/spaces/types";
+
+/**
+ * Whether a space exists in the workspace. Admin rights are per workspace,
+ * so space rules must never point at another workspace's space.
+ */
+export async function isSpaceInWorkspace(
+  databases: Databases,
+  spaceId: string,
+  workspaceId: string
+): Promise<boolean> {
+  const space = await databases.getDocument<Space>(DATABASE_ID, SPACES_ID, spaceId).catch(() => null);
+  return space?.workspaceId === workspaceId;
+}
+
+/**
+ * Whether the user may create, edit or delete rules in the given scope.
+ *
+ * Project rules need MANAGE_SETTINGS on the project. Space rules apply to
+ * every project in the space, so they are limited to workspace admins and
+ * space admins.
+ */
+export async function canManageAutomationRules(
+  databases: Databases,
+  member: Models.Document,
+  scope: { projectId?: string | null; spaceId?: string | null }
+): Promise<boolean> {
+  if (scope.projectId) {
+    const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+    const access = await resolveUserProjectAccess(databases, member.userId, scope.projectId);
+    return access.hasAccess && hasProjectPermission(access, ProjectPermissionKey.MANAGE_SETTINGS);
+  }
+
+  if (member.role === MemberRole.ADMIN || member.role === MemberRole.OWNER) return true;
+  if (!scope.spaceId) return false;
+
+  const spaceMembership = await databases.listDocuments(
+    DATABASE_ID,
+    SPACE_MEMBERS_ID,
+    [
+      Query.equal("spaceId", scope.spaceId),
+      Query.equal("userId", member.userId),
+      Query.equal("role", SpaceRole.ADMIN),
+    ]
+  );
+  return spaceMembership.total > 0;
+}
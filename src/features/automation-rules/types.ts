@@ -0,0 +1,101 @@
+import { Models } from "node-appwrite";
+
+import { FilterGroup } from "@/features/saved-views/types";
+import { WorkitemEventType } from "@/lib/notifications/types";
+
+export enum AutomationTriggerType {
+  EVENT = "EVENT",       // Fires on work item events from the notification dispatcher
+  SCHEDULE = "SCHEDULE", // Fires from the automation cron on every matching work item
+}
+
+export enum AutomationSchedule {
+  HOURLY = "HOURLY",
+  DAILY = "DAILY",
+  WEEKLY = "WEEKLY",
+}
+
+export enum AutomationActionType {
+  SET_FIELD = "SET_FIELD",
+  ASSIGN = "ASSIGN",
+  ADD_LABEL = "ADD_LABEL",
+  MOVE_TO_SPRINT = "MOVE_TO_SPRINT",
+  COMMENT = "COMMENT",
+  TRANSITION = "TRANSITION",
+  CALL_WEBHOOK = "CALL_WEBHOOK",
+}
+
+export enum AutomationExecutionStatus {
+  SUCCESS = "SUCCESS",
+  PARTIAL = "PARTIAL",           // Some actions failed
+  FAILED = "FAILED",
+  LOOP_BLOCKED = "LOOP_BLOCKED", // Skipped by loop protection
+}
+
+// Work item fields SET_FIELD may write (custom fields are addressed by ID)
+export const AUTOMATION_SETTABLE_FIELDS = [
+  "priority",
+  "dueDate",
+  "startDate",
+  "storyPoints",
+  "estimatedHours",
+  "flagged",
+  "type",
+] as const;
+
+export type AutomationSettableField = typeof AUTOMATION_SETTABLE_FIELDS[number];
+
+export type AutomationAction =
+  | { type: AutomationActionType.SET_FIELD; field: string; value: unknown; isCustomField?: boolean }
+  | { type: AutomationActionType.ASSIGN; memberIds: string[]; mode: "add" | "replace" }
+  | { type: AutomationActionType.ADD_LABEL; labels: string[] }
+  | { type: AutomationActionType.MOVE_TO_SPRINT; sprintId: string | "ACTIVE" | null }
+  | { type: AutomationActionType.COMMENT; content: string }
+  | { type: AutomationActionType.TRANSITION; toStatus: string }
+  | { type: AutomationActionType.CALL_WEBHOOK; webhookId?: string | null; message?: string | null };
+
+// A when/if/then rule scoped to a project, or to every project in a space.
+// `conditions` and `actions` are stored as JSON strings.
+export type AutomationRule = Models.Document & {
+  workspaceId: string;
+  projectId?: string | null;
+  spaceId?: string | null;
+  name: string;
+  description?: string | null;
+  enabled: boolean;
+  triggerType: AutomationTriggerType;
+  eventTypes?: WorkitemEventType[] | null; // EVENT rules
+  schedule?: AutomationSchedule | null;    // SCHEDULE rules
+  conditions?: FilterGroup | string | null;
+  conditionsJql?: string | null;           // JQL the conditions were parsed from, if any
+  actions: AutomationAction[] | string;
+  lastRunAt?: string | null;
+  createdBy: string;
+};
+
+export type AutomationExecution = Models.Document & {
+  ruleId: string;
+  workspaceId: string;
+  projectId?: string | null;
+  workItemId?: string | null;
+  trigger: string;                // Event type or schedule
+  status: AutomationExecutionStatus;
+  actionsExecuted: number;
+  error?: string | null;
+  durationMs: number;
+};
+
+export type PopulatedAutomationRule = AutomationRule & {
+  conditions: FilterGroup | null;
+  actions: AutomationAction[];
+};
+
+export function parseAutomationActions(raw: AutomationRule["actions"] | null | undefined): AutomationAction[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -487,6 +487,240 @@ const app = new Hono()
         }
     })
 
+    /**
+     * POST /cron/automation/run-scheduled
+     *
+     * Run scheduled automation rules (HOURLY/DAILY/WEEKLY) that are due.
+     * Rules track their own last run, so calling this more often is safe.
+     *
+     * Schedule: every hour (0 * * * *)
+     */
+    .post("/automation/run-scheduled", async (c) => {
+        const authHeader = c.req.header("Authorization");
+        if (!verifyCronSecret(authHeader)) {
+            return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const { runScheduledAutomationRules } = await import("@/features/automation-rules/server/engine");
+            const results = await runScheduledAutomationRules();
+
+            return c.json({
+                success: true,
+                ...results,
+                durationMs: Date.now() - startTime,
+            });
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            }, 500);
+        }
+    })
+
+    /**
+     * POST /cron/webhooks/process-queue
+     *
+     * Retry webhook deliveries that are due. Attempts are claimed per delivery,
+     * so overlapping runs and in-process pollers never send twice.
+     *
+     * Schedule: every minute (* * * * *)
+     */
+    .post("/webhooks/process-queue", async (c) => {
+        const authHeader = c.req.header("Authorization");
+        if (!verifyCronSecret(authHeader)) {
+            return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const { webhookDeliveryQueue } = await import("@/features/webhooks/server/deliveryQueue");
+            const results = await webhookDeliveryQueue.processDueDeliveries();
+
+            return c.json({
+                success: true,
+                ...results,
+                durationMs: Date.now() - startTime,
+            });
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            }, 500);
+        }
+    })
+
+    /**
+     * POST /cron/sprints/snapshot
+     *
+     * Record scope and remaining points for every active sprint. Feeds the
+     * sprint burndown/burnup charts and program analytics. Re-running on the
+     * same UTC day overwrites that day's snapshot.
+     *
+     * Schedule: daily at 23:50 UTC (50 23 * * *)
+     */
+    .post("/sprints/snapshot", async (c) => {
+        const authHeader = c.req.header("Authorization");
+        if (!verifyCronSecret(authHeader)) {
+            return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const { captureActiveSprintSnapshots } = await import("@/features/sprints/server/snapshots");
+            const results = await captureActiveSprintSnapshots();
+
+            return c.json({
+                success: true,
+                ...results,
+                durationMs: Date.now() - startTime,
+            });
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            }, 500);
+        }
+    })
+
+    /**
+     * POST /cron/programs/milestones/sync
+     *
+     * Re-derive progress and status of linked program milestones whose target
+     * date has passed, so overdue milestones become DELAYED without anyone
+     * opening the roadmap.
+     *
+     * Schedule: daily at 00:10 UTC (10 0 * * *)
+     */
+    .post("/programs/milestones/sync", async (c) => {
+        const authHeader = c.req.header("Authorization");
+        if (!verifyCronSecret(authHeader)) {
+            return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const { syncDueMilestones } = await import("@/features/programs/server/milestone-progress");
+            const results = await syncDueMilestones();
+
+            return c.json({
+                success: true,
+                ...results,
+                durationMs: Date.now() - startTime,
+            });
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            }, 500);
+        }
+    })
+
+    /**
+     * POST /cron/notifications/send-digests
+     *
+     * Send queued notification emails: daily/weekly digests that are due and
+     * emails held back during quiet hours. Each user's schedule is checked in
+     * their own timezone.
+     *
+     * Schedule: every 15 minutes (*\/15 * * * *)
+     */
+    .post("/notifications/send-digests", async (c) => {
+        const authHeader = c.req.header("Authorization");
+        if (!verifyCronSecret(authHeader)) {
+            return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const { processNotificationDigests } = await import("@/lib/notifications/digest");
+            const results = await processNotificationDigests();
+
+            return c.json({
+                success: true,
+                ...results,
+                durationMs: Date.now() - startTime,
+            });
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            }, 500);
+        }
+    })
+
+    /**
+     * POST /cron/recurring-work-items/run
+     *
+     * Spawn work items from recurring templates whose next occurrence has
+     * passed. Occurrences missed while the cron was down collapse into one.
+     *
+     * Schedule: every 15 minutes (*\/15 * * * *)
+     */
+    .post("/recurring-work-items/run", async (c) => {
+        const authHeader = c.req.header("Authorization");
+        if (!verifyCronSecret(authHeader)) {
+            return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const { runDueRecurringWorkItems } = await import("@/features/recurring-work-items/server/spawn");
+            const results = await runDueRecurringWorkItems();
+
+            return c.json({
+                success: true,
+                ...results,
+                durationMs: Date.now() - startTime,
+            });
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            }, 500);
+        }
+    })
+
+    /**
+     * POST /cron/work-item-imports/run
+     *
+     * Run imports that were queued but never started, and resume imports
+     * whose run stopped sending heartbeats (e.g. the instance was recycled).
+     *
+     * Schedule: every 5 minutes (*\/5 * * * *)
+     */
+    .post("/work-item-imports/run", async (c) => {
+        const authHeader = c.req.header("Authorization");
+        if (!verifyCronSecret(authHeader)) {
+            return c.json({ error: "Unauthorized" }, 401);
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const { runPendingImports } = await import("@/features/work-item-imports/server/importer");
+            const results = await runPendingImports();
+
+            return c.json({
+                success: true,
+                ...results,
+                durationMs: Date.now() - startTime,
+            });
+        } catch (error) {
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : "Unknown error",
+            }, 500);
+        }
+    })
+
     /**
      * GET /cron/health
      *
@@ -505,6 +739,13 @@ const app = new Hono()
                 "POST /cron/usage/aggregate-daily",
                 "POST /cron/usage/aggregate-all",
                 "POST /cron/ai/sync-pricing",        // NEW: 30-min AI pricing sync
+                "POST /cron/automation/run-scheduled",
+                "POST /cron/webhooks/process-queue",
+                "POST /cron/notifications/send-digests",
+                "POST /cron/sprints/snapshot",
+                "POST /cron/programs/milestones/sync",
+                "POST /cron/recurring-work-items/run",
+                "POST /cron/work-item-imports/run",
             ],
         });
     });
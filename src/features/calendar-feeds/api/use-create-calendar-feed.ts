@@ -0,0 +1,34 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["calendar-feeds"]["$post"], 201>;
+type RequestType = InferRequestType<(typeof client.api)["calendar-feeds"]["$post"]>;
+
+export const useCreateCalendarFeed = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api["calendar-feeds"].$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to create the calendar feed.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success("Calendar feed created.");
+      queryClient.invalidateQueries({ queryKey: ["calendar-feeds", data.workspaceId] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create the calendar feed.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetCalendarFeedsProps {
+  workspaceId: string;
+  enabled?: boolean;
+}
+
+export const useGetCalendarFeeds = ({ workspaceId, enabled = true }: UseGetCalendarFeedsProps) => {
+  const query = useQuery({
+    queryKey: ["calendar-feeds", workspaceId],
+    queryFn: async () => {
+      const response = await client.api["calendar-feeds"].$get({
+        query: { workspaceId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch calendar feeds.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+    enabled: enabled && !!workspaceId,
+  });
+
+  return query;
+};
@@ -0,0 +1,34 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["calendar-feeds"][":feedId"]["$delete"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["calendar-feeds"][":feedId"]["$delete"]>;
+
+export const useRevokeCalendarFeed = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api["calendar-feeds"][":feedId"].$delete({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to revoke the calendar feed.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Calendar feed revoked.");
+      queryClient.invalidateQueries({ queryKey: ["calendar-feeds"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to revoke the calendar feed.");
+    },
+  });
+
+  return mutation;
+};
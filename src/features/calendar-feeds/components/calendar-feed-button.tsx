@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { CalendarPlus, Copy, ExternalLink, LoaderIcon, TrashIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useConfirm } from "@/hooks/use-confirm";
+
+import { useCreateCalendarFeed } from "../api/use-create-calendar-feed";
+import { useGetCalendarFeeds } from "../api/use-get-calendar-feeds";
+import { useRevokeCalendarFeed } from "../api/use-revoke-calendar-feed";
+import { CalendarFeedScope, CalendarFeedSummary } from "../types";
+
+interface CalendarFeedButtonProps {
+  workspaceId: string;
+  scope: CalendarFeedScope;
+  projectId?: string;
+  programId?: string;
+}
+
+const SCOPE_DESCRIPTIONS: Record<CalendarFeedScope, string> = {
+  [CalendarFeedScope.USER]: "Due dates of work items assigned to you.",
+  [CalendarFeedScope.PROJECT]: "Work item due dates and sprints of this project.",
+  [CalendarFeedScope.PROGRAM]: "Milestones, plus work item due dates and sprints of the program's projects.",
+};
+
+const FeedRow = ({ feed }: { feed: CalendarFeedSummary }) => {
+  const { mutate: revokeFeed, isPending } = useRevokeCalendarFeed();
+  const [RevokeDialog, confirmRevoke] = useConfirm(
+    "Revoke Feed",
+    "Calendars subscribed to this feed will stop updating.",
+    "destructive"
+  );
+
+  const handleRevoke = async () => {
+    const ok = await confirmRevoke();
+    if (ok) {
+      revokeFeed({ param: { feedId: feed.$id } });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-3">
+      <RevokeDialog />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{feed.name}</p>
+        <p className="text-xs text-muted-foreground">
+          {feed.tokenPrefix}… ·{" "}
+          {feed.lastAccessedAt
+            ? `last synced ${formatDistanceToNow(new Date(feed.lastAccessedAt), { addSuffix: true })}`
+            : "never synced"}
+        </p>
+      </div>
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Revoke" disabled={isPending} onClick={handleRevoke}>
+        <TrashIcon className="size-4" />
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Subscribe to an iCalendar feed from Outlook, Google Calendar or Apple
+ * Calendar. The feed URL holds a secret token and is only shown once.
+ */
+export const CalendarFeedButton = ({ workspaceId, scope, projectId, programId }: CalendarFeedButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+
+  const { data, isLoading } = useGetCalendarFeeds({ workspaceId, enabled: open });
+  const { mutate: createFeed, isPending: isCreating } = useCreateCalendarFeed();
+
+  const feeds = ((data?.documents ?? []) as CalendarFeedSummary[]).filter(
+    (feed) =>
+      feed.scope === scope &&
+      (scope !== CalendarFeedScope.PROJECT || feed.projectId === projectId) &&
+      (scope !== CalendarFeedScope.PROGRAM || feed.programId === programId)
+  );
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setCreatedUrl(null);
+  };
+
+  const handleCreate = () => {
+    createFeed(
+      { json: { workspaceId, scope, projectId, programId } },
+      { onSuccess: ({ data }) => setCreatedUrl(data.url) }
+    );
+  };
+
+  const handleCopy = () => {
+    if (!createdUrl) return;
+    navigator.clipboard.writeText(createdUrl);
+    toast.success("Feed URL copied.");
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <CalendarPlus className="size-4 mr-2" />
+        Subscribe
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Calendar Feed</DialogTitle>
+            <DialogDescription>
+              {SCOPE_DESCRIPTIONS[scope]} Subscribe from any calendar app that supports iCalendar URLs.
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdUrl ? (
+            <div className="flex flex-col gap-y-2 rounded-md border border-amber-500/30 bg-amber-500/5 p-3">
+              <p className="text-xs text-muted-foreground">
+                Copy this URL now; it will not be shown again. Anyone with it can see this feed, so revoke it if it leaks.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={createdUrl} className="h-9 text-xs font-mono" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="sm" className="h-9" onClick={handleCopy}>
+                  <Copy className="size-4" />
+                </Button>
+              </div>
+              <a
+                href={createdUrl.replace(/^https?:\/\//, "webcal://")}
+                className="flex items-center self-start text-xs text-primary hover:underline"
+              >
+                <ExternalLink className="size-3 mr-1" />
+                Open in calendar app
+              </a>
+            </div>
+          ) : (
+            <Button size="sm" className="self-start" onClick={handleCreate} disabled={isCreating}>
+              {isCreating ? <LoaderIcon className="size-4 mr-2 animate-spin" /> : <CalendarPlus className="size-4 mr-2" />}
+              Create Feed URL
+            </Button>
+          )}
+
+          <div className="flex flex-col gap-y-2">
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <LoaderIcon className="size-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              feeds.map((feed) => <FeedRow key={feed.$id} feed={feed} />)
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
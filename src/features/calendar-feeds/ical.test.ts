@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+
+import { Sprint, SprintStatus } from "@/features/sprints/types";
+import { Task } from "@/features/tasks/types";
+
+import { buildICalendar, escapeICalText, foldICalLine, sprintEvent, workItemEvent } from "./ical";
+
+const APP_URL = "https://app.example.com";
+
+const task = (overrides: Partial<Task>) =>
+  ({
+    $id: "t1",
+    workspaceId: "w1",
+    projectId: "p1",
+    title: "Ship login",
+    key: "APP-1",
+    status: "TODO",
+    assigneeIds: [],
+    position: 0,
+    ...overrides,
+  }) as Task;
+
+describe("buildICalendar", () => {
+  it("writes all-day events with an exclusive end date", () => {
+    const text = buildICalendar({
+      name: "Team, calendar",
+      events: [{ uid: "work-item-t1", title: "APP-1 Ship; login", start: "2026-10-30", end: "2026-10-31" }],
+      generatedAt: new Date("2026-10-19T08:30:00.000Z"),
+    });
+
+    const lines = text.split("\r\n");
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("X-WR-CALNAME:Team\\, calendar");
+    expect(lines).toContain("UID:work-item-t1@fairlx");
+    expect(lines).toContain("DTSTAMP:20261019T083000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261030");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261101");
+    expect(lines).toContain("SUMMARY:APP-1 Ship\\; login");
+    expect(text.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("ends a one-day event on the next day", () => {
+    const text = buildICalendar({
+      name: "Feed",
+      events: [{ uid: "m1", title: "Launch", start: "2026-12-31" }],
+    });
+    expect(text).toContain("DTEND;VALUE=DATE:20270101");
+  });
+});
+
+describe("text encoding", () => {
+  it("escapes separators and newlines", () => {
+    expect(escapeICalText("a\\b;c,d\ne")).toBe("a\\\\b\\;c\\,d\\ne");
+  });
+
+  it("folds long lines without splitting multi-byte characters", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const folded = foldICalLine(line);
+    const encoder = new TextEncoder();
+
+    folded.split("\r\n").forEach((part) => expect(encoder.encode(part).length).toBeLessThanOrEqual(75));
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+  });
+});
+
+describe("event builders", () => {
+  it("spans a work item from its start date to its due date", () => {
+    const event = workItemEvent(
+      task({ startDate: "2026-10-20T00:00:00.000Z", dueDate: "2026-10-23T00:00:00.000Z" }),
+      APP_URL
+    );
+    expect(event).toMatchObject({
+      uid: "work-item-t1",
+      title: "APP-1 Ship login",
+      start: "2026-10-20",
+      end: "2026-10-23",
+      url: `${APP_URL}/workspaces/w1/tasks/t1`,
+    });
+  });
+
+  it("skips work items without a due date and ignores a start after the due date", () => {
+    expect(workItemEvent(task({ startDate: "2026-10-20T00:00:00.000Z" }), APP_URL)).toBeNull();
+    expect(
+      workItemEvent(task({ startDate: "2026-10-25T00:00:00.000Z", dueDate: "2026-10-23T00:00:00.000Z" }), APP_URL)
+    ).toMatchObject({ start: "2026-10-23", end: "2026-10-23" });
+  });
+
+  it("uses whichever sprint date is set", () => {
+    const sprint = {
+      $id: "s1",
+      workspaceId: "w1",
+      projectId: "p1",
+      name: "Sprint 4",
+      status: SprintStatus.PLANNED,
+      position: 0,
+      endDate: "2026-11-06T00:00:00.000Z",
+    } as Sprint;
+
+    expect(sprintEvent(sprint, APP_URL)).toMatchObject({ start: "2026-11-06", end: "2026-11-06" });
+    expect(sprintEvent({ ...sprint, endDate: undefined }, APP_URL)).toBeNull();
+  });
+});
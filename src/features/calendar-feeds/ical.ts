@@ -0,0 +1,173 @@
+import { Sprint } from "@/features/sprints/types";
+import { ProgramMilestone } from "@/features/programs/types";
+import { Task } from "@/features/tasks/types";
+
+import { CalendarFeedEvent } from "./types";
+
+/**
+ * iCalendar (RFC 5545) writer for the subscription feeds. Every event is
+ * all-day: work items have dates but no meaningful times, and calendar
+ * apps render date-only events the same in every time zone.
+ */
+
+const PRODUCT_ID = "-//Fairlx//Calendar Feeds//EN";
+const UID_DOMAIN = "fairlx";
+// Content lines are limited to 75 octets, continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  // Iterate by code point so multi-byte characters are never split
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Calendar date of a stored timestamp, in UTC
+ */
+export function toFeedDate(value: string): string | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+const toICalDate = (date: string) => date.replace(/-/g, "");
+
+// DTEND of an all-day event is the day after the last day
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+const toICalTimestamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export function buildICalendar({
+  name,
+  events,
+  generatedAt = new Date(),
+}: {
+  name: string;
+  events: CalendarFeedEvent[];
+  generatedAt?: Date;
+}): string {
+  const stamp = toICalTimestamp(generatedAt);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+    // Hints for how often subscribers should poll
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of events) {
+    const end = event.end && event.end > event.start ? event.end : event.start;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toICalDate(event.start)}`,
+      `DTEND;VALUE=DATE:${toICalDate(nextDay(end))}`,
+      `SUMMARY:${escapeICalText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeICalText(event.description)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      ...(event.categories?.length ? [`CATEGORIES:${event.categories.map(escapeICalText).join(",")}`] : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Due date as an all-day event, or a range from the start date when set
+ */
+export function workItemEvent(task: Task, appUrl: string): CalendarFeedEvent | null {
+  const due = task.dueDate ? toFeedDate(task.dueDate) : null;
+  if (!due) return null;
+
+  const start = task.startDate ? toFeedDate(task.startDate) : null;
+  const title = task.title || task.name || "Untitled";
+
+  return {
+    uid: `work-item-${task.$id}`,
+    title: task.key ? `${task.key} ${title}` : title,
+    start: start && start < due ? start : due,
+    end: due,
+    description: [
+      `Status: ${task.status}`,
+      task.priority ? `Priority: ${task.priority}` : null,
+    ].filter(Boolean).join("\n"),
+    url: `${appUrl}/workspaces/${task.workspaceId}/tasks/${task.$id}`,
+    categories: ["Work item"],
+  };
+}
+
+export function sprintEvent(sprint: Sprint, appUrl: string): CalendarFeedEvent | null {
+  const start = sprint.startDate ? toFeedDate(sprint.startDate) : null;
+  const end = sprint.endDate ? toFeedDate(sprint.endDate) : null;
+  if (!start && !end) return null;
+
+  return {
+    uid: `sprint-${sprint.$id}`,
+    title: `Sprint: ${sprint.name}`,
+    start: (start ?? end) as string,
+    end: (end ?? start) as string,
+    description: [`Status: ${sprint.status}`, sprint.goal ? `Goal: ${sprint.goal}` : null]
+      .filter(Boolean)
+      .join("\n"),
+    url: `${appUrl}/workspaces/${sprint.workspaceId}/projects/${sprint.projectId}/sprints`,
+    categories: ["Sprint"],
+  };
+}
+
+export function milestoneEvent(
+  milestone: ProgramMilestone,
+  { workspaceId, appUrl }: { workspaceId: string; appUrl: string }
+): CalendarFeedEvent | null {
+  const target = milestone.targetDate ? toFeedDate(milestone.targetDate) : null;
+  if (!target) return null;
+
+  return {
+    uid: `milestone-${milestone.$id}`,
+    title: `Milestone: ${milestone.name}`,
+    start: target,
+    description: [`Status: ${milestone.status}`, `Progress: ${milestone.progress ?? 0}%`, milestone.description]
+      .filter(Boolean)
+      .join("\n"),
+    url: `${appUrl}/workspaces/${workspaceId}/programs/${milestone.programId}`,
+    categories: ["Milestone"],
+  };
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { CalendarFeedScope } from "./types";
+
+export const createCalendarFeedSchema = z
+  .object({
+    workspaceId: z.string().trim().min(1),
+    scope: z.nativeEnum(CalendarFeedScope),
+    projectId: z.string().trim().min(1).optional(),
+    programId: z.string().trim().min(1).optional(),
+    name: z.string().trim().min(1).max(256).optional(),
+  })
+  .refine(
+    (data) => data.scope !== CalendarFeedScope.PROJECT || !!data.projectId,
+    { message: "Project feeds need a projectId", path: ["projectId"] }
+  )
+  .refine(
+    (data) => data.scope !== CalendarFeedScope.PROGRAM || !!data.programId,
+    { message: "Program feeds need a programId", path: ["programId"] }
+  );
+
+export const calendarFeedsQuerySchema = z.object({
+  workspaceId: z.string().trim().min(1),
+});
@@ -0,0 +1,234 @@
+import "server-only";
+
+import { createHash, randomBytes } from "crypto";
+import { Databases, Query } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  PROGRAM_MEMBERS_ID,
+  PROGRAM_MILESTONES_ID,
+  PROGRAMS_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  TASKS_ID,
+} from "@/config";
+import { MemberRole } from "@/features/members/types";
+import { getMember } from "@/features/members/utils";
+import { Program, ProgramMilestone } from "@/features/programs/types";
+import { Project } from "@/features/projects/types";
+import { Sprint, SprintStatus } from "@/features/sprints/types";
+import { Task } from "@/features/tasks/types";
+import {
+  hasProjectPermission,
+  ProjectPermissionKey,
+  resolveUserProjectAccess,
+} from "@/lib/permissions/resolveUserProjectAccess";
+
+import { milestoneEvent, sprintEvent, workItemEvent } from "../ical";
+import { CalendarFeed, CalendarFeedEvent, CalendarFeedScope, CalendarFeedSummary } from "../types";
+
+/**
+ * Calendar feeds
+ *
+ * Feed URLs carry a secret token instead of a session, so every fetch
+ * re-checks what the feed owner can see today: workspace membership,
+ * project access via resolveUserProjectAccess, and program membership for
+ * milestones. Losing access empties the feed rather than leaking it.
+ */
+
+// Work items due before this are left out of feeds
+const FEED_HISTORY_DAYS = 90;
+const FEED_ITEM_LIMIT = 2000;
+
+export function hashFeedToken(plaintext: string): string {
+  return createHash("sha256").update(plaintext).digest("hex");
+}
+
+export function generateFeedToken(): { plaintext: string; hash: string; prefix: string } {
+  const plaintext = `flxcal_${randomBytes(24).toString("hex")}`;
+  return {
+    plaintext,
+    hash: hashFeedToken(plaintext),
+    prefix: plaintext.slice(0, 13),
+  };
+}
+
+export function getFeedUrl(plaintext: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/calendar-feeds/ics/${plaintext}.ics`;
+}
+
+export function toFeedSummary(feed: CalendarFeed): CalendarFeedSummary {
+  return {
+    $id: feed.$id,
+    $createdAt: feed.$createdAt,
+    workspaceId: feed.workspaceId,
+    scope: feed.scope,
+    projectId: feed.projectId ?? null,
+    programId: feed.programId ?? null,
+    name: feed.name,
+    tokenPrefix: feed.tokenPrefix,
+    lastAccessedAt: feed.lastAccessedAt ?? null,
+  };
+}
+
+/**
+ * Milestones follow the program rules: workspace admins and program members
+ */
+export async function canViewProgramMilestones(
+  databases: Databases,
+  { program, userId }: { program: Program; userId: string }
+): Promise<boolean> {
+  const member = await getMember({ databases, workspaceId: program.workspaceId, userId });
+  if (!member) return false;
+  if (member.role === MemberRole.ADMIN) return true;
+
+  const programMembers = await databases.listDocuments(DATABASE_ID, PROGRAM_MEMBERS_ID, [
+    Query.equal("programId", program.$id),
+    Query.equal("userId", userId),
+    Query.limit(1),
+  ]);
+  return programMembers.total > 0;
+}
+
+// Projects among `projectIds` in which the user holds `permission`
+async function filterReadableProjects(
+  databases: Databases,
+  userId: string,
+  projectIds: string[],
+  permission: ProjectPermissionKey
+): Promise<Set<string>> {
+  const readable = new Set<string>();
+  for (const projectId of new Set(projectIds)) {
+    const access = await resolveUserProjectAccess(databases, userId, projectId);
+    if (access.hasAccess && hasProjectPermission(access, permission)) {
+      readable.add(projectId);
+    }
+  }
+  return readable;
+}
+
+async function listDueWorkItems(databases: Databases, queries: string[]): Promise<Task[]> {
+  const cutoff = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const tasks = await databases.listDocuments<Task>(DATABASE_ID, TASKS_ID, [
+    ...queries,
+    Query.greaterThanEqual("dueDate", cutoff),
+    Query.orderAsc("dueDate"),
+    Query.limit(FEED_ITEM_LIMIT),
+  ]);
+  return tasks.documents;
+}
+
+async function listProjectSprints(databases: Databases, projectIds: string[]): Promise<Sprint[]> {
+  if (projectIds.length === 0) return [];
+  const sprints = await databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+    Query.equal("projectId", projectIds),
+    Query.notEqual("status", SprintStatus.CANCELLED),
+    Query.limit(1000),
+  ]);
+  return sprints.documents;
+}
+
+// Work items and sprints of the projects the user may see
+async function projectEvents(
+  databases: Databases,
+  userId: string,
+  projectIds: string[],
+  appUrl: string
+): Promise<CalendarFeedEvent[]> {
+  const [taskProjects, sprintProjects] = await Promise.all([
+    filterReadableProjects(databases, userId, projectIds, ProjectPermissionKey.VIEW_TASKS),
+    filterReadableProjects(databases, userId, projectIds, ProjectPermissionKey.VIEW_SPRINTS),
+  ]);
+
+  const [tasks, sprints] = await Promise.all([
+    taskProjects.size > 0
+      ? listDueWorkItems(databases, [Query.equal("projectId", [...taskProjects])])
+      : Promise.resolve([]),
+    listProjectSprints(databases, [...sprintProjects]),
+  ]);
+
+  return [
+    ...sprints.map((sprint) => sprintEvent(sprint, appUrl)),
+    ...tasks.map((task) => workItemEvent(task, appUrl)),
+  ].filter((event): event is CalendarFeedEvent => event !== null);
+}
+
+/**
+ * Events of a feed as its owner may see them now, or null when the owner
+ * has lost access to what the feed covers
+ */
+export async function buildFeedEvents(
+  databases: Databases,
+  feed: CalendarFeed,
+  appUrl: string
+): Promise<CalendarFeedEvent[] | null> {
+  const member = await getMember({ databases, workspaceId: feed.workspaceId, userId: feed.userId });
+  if (!member) return null;
+
+  switch (feed.scope) {
+    case CalendarFeedScope.USER: {
+      const tasks = await listDueWorkItems(databases, [
+        Query.equal("workspaceId", feed.workspaceId),
+        Query.contains("assigneeIds", member.$id),
+      ]);
+      const readable = await filterReadableProjects(
+        databases,
+        feed.userId,
+        tasks.map((task) => task.projectId),
+        ProjectPermissionKey.VIEW_TASKS
+      );
+      return tasks
+        .filter((task) => readable.has(task.projectId))
+        .map((task) => workItemEvent(task, appUrl))
+        .filter((event): event is CalendarFeedEvent => event !== null);
+    }
+
+    case CalendarFeedScope.PROJECT: {
+      if (!feed.projectId) return null;
+      const access = await resolveUserProjectAccess(databases, feed.userId, feed.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_PROJECT)) {
+        return null;
+      }
+      return projectEvents(databases, feed.userId, [feed.projectId], appUrl);
+    }
+
+    case CalendarFeedScope.PROGRAM: {
+      if (!feed.programId) return null;
+      const program = await databases.getDocument<Program>(DATABASE_ID, PROGRAMS_ID, feed.programId);
+      if (
+        program.workspaceId !== feed.workspaceId ||
+        !(await canViewProgramMilestones(databases, { program, userId: feed.userId }))
+      ) {
+        return null;
+      }
+
+      const [milestones, projects] = await Promise.all([
+        databases.listDocuments<ProgramMilestone>(DATABASE_ID, PROGRAM_MILESTONES_ID, [
+          Query.equal("programId", program.$id),
+          Query.limit(500),
+        ]),
+        databases.listDocuments<Project>(DATABASE_ID, PROJECTS_ID, [
+          Query.equal("programId", program.$id),
+          Query.limit(100),
+        ]),
+      ]);
+
+      const linked = await projectEvents(
+        databases,
+        feed.userId,
+        projects.documents.map((project) => project.$id),
+        appUrl
+      );
+
+      return [
+        ...milestones.documents
+          .map((milestone) => milestoneEvent(milestone, { workspaceId: program.workspaceId, appUrl }))
+          .filter((event): event is CalendarFeedEvent => event !== null),
+        ...linked,
+      ];
+    }
+
+    default:
+      return null;
+  }
+}
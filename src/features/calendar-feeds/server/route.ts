@@ -0,0 +1,201 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { ID, Query } from "node-appwrite";
+
+import { CALENDAR_FEEDS_ID, DATABASE_ID, PROGRAMS_ID, PROJECTS_ID } from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import {
+  hasProjectPermission,
+  ProjectPermissionKey,
+  resolveUserProjectAccess,
+} from "@/lib/permissions/resolveUserProjectAccess";
+import { sessionMiddleware } from "@/lib/session-middleware";
+
+import { getMember } from "@/features/members/utils";
+import { Program } from "@/features/programs/types";
+import { Project } from "@/features/projects/types";
+
+import { buildICalendar } from "../ical";
+import { calendarFeedsQuerySchema, createCalendarFeedSchema } from "../schemas";
+import { CalendarFeed, CalendarFeedScope } from "../types";
+import {
+  buildFeedEvents,
+  canViewProgramMilestones,
+  generateFeedToken,
+  getFeedUrl,
+  hashFeedToken,
+  toFeedSummary,
+} from "./feeds";
+
+const MAX_FEEDS_PER_USER = 20;
+
+const app = new Hono()
+  // The current user's feeds in a workspace
+  .get(
+    "/",
+    sessionMiddleware,
+    zValidator("query", calendarFeedsQuerySchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { databases: adminDb } = await createAdminClient();
+      const feeds = await adminDb.listDocuments<CalendarFeed>(DATABASE_ID, CALENDAR_FEEDS_ID, [
+        Query.equal("workspaceId", workspaceId),
+        Query.equal("userId", user.$id),
+        Query.orderDesc("$createdAt"),
+        Query.limit(MAX_FEEDS_PER_USER),
+      ]);
+
+      const documents = feeds.documents.map(toFeedSummary);
+      return c.json({ data: { documents, total: documents.length } });
+    }
+  )
+  .post(
+    "/",
+    sessionMiddleware,
+    zValidator("json", createCalendarFeedSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, scope, projectId, programId, name } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      let defaultName = "My work items";
+
+      if (scope === CalendarFeedScope.PROJECT && projectId) {
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+        if (project.workspaceId !== workspaceId) {
+          return c.json({ error: "Project not in this workspace" }, 400);
+        }
+
+        const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+        if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_PROJECT)) {
+          return c.json({ error: "Forbidden: No permission to view this project" }, 403);
+        }
+        defaultName = project.name;
+      }
+
+      if (scope === CalendarFeedScope.PROGRAM && programId) {
+        const program = await databases.getDocument<Program>(DATABASE_ID, PROGRAMS_ID, programId);
+        if (program.workspaceId !== workspaceId) {
+          return c.json({ error: "Program not in this workspace" }, 400);
+        }
+
+        if (!(await canViewProgramMilestones(databases, { program, userId: user.$id }))) {
+          return c.json({ error: "Forbidden: Only program members can subscribe" }, 403);
+        }
+        defaultName = program.name;
+      }
+
+      const { databases: adminDb } = await createAdminClient();
+      const existing = await adminDb.listDocuments(DATABASE_ID, CALENDAR_FEEDS_ID, [
+        Query.equal("workspaceId", workspaceId),
+        Query.equal("userId", user.$id),
+        Query.limit(1),
+      ]);
+      if (existing.total >= MAX_FEEDS_PER_USER) {
+        return c.json({ error: `You can have at most ${MAX_FEEDS_PER_USER} calendar feeds per workspace` }, 400);
+      }
+
+      const generated = generateFeedToken();
+      const feed = await adminDb.createDocument<CalendarFeed>(DATABASE_ID, CALENDAR_FEEDS_ID, ID.unique(), {
+        workspaceId,
+        userId: user.$id,
+        scope,
+        projectId: scope === CalendarFeedScope.PROJECT ? projectId : null,
+        programId: scope === CalendarFeedScope.PROGRAM ? programId : null,
+        name: name || defaultName,
+        tokenHash: generated.hash,
+        tokenPrefix: generated.prefix,
+      });
+
+      return c.json(
+        {
+          data: {
+            ...toFeedSummary(feed),
+            /** Shown once */
+            url: getFeedUrl(generated.plaintext),
+          },
+        },
+        201
+      );
+    }
+  )
+  // Revoking deletes the feed; calendars subscribed to it stop updating
+  .delete("/:feedId", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const { feedId } = c.req.param();
+
+    const { databases: adminDb } = await createAdminClient();
+    const feed = await adminDb.getDocument<CalendarFeed>(DATABASE_ID, CALENDAR_FEEDS_ID, feedId);
+
+    if (feed.userId !== user.$id) {
+      return c.json({ error: "Forbidden: You can only revoke your own feeds" }, 403);
+    }
+
+    await adminDb.deleteDocument(DATABASE_ID, CALENDAR_FEEDS_ID, feedId);
+
+    return c.json({ data: { $id: feedId } });
+  })
+  /**
+   * Public feed, authenticated by the token in the URL. Calendar apps
+   * cannot send sessions or headers, so the token is the whole credential.
+   */
+  .get("/ics/:file", async (c) => {
+    const plaintext = c.req.param("file").replace(/\.ics$/, "");
+    if (!plaintext) {
+      return c.text("Not found", 404);
+    }
+
+    const { databases } = await createAdminClient();
+    const feeds = await databases.listDocuments<CalendarFeed>(DATABASE_ID, CALENDAR_FEEDS_ID, [
+      Query.equal("tokenHash", hashFeedToken(plaintext)),
+      Query.limit(1),
+    ]);
+    const feed = feeds.documents[0];
+    if (!feed) {
+      return c.text("Not found", 404);
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(c.req.url).origin;
+    // A deleted project or program reads as lost access
+    const events = await buildFeedEvents(databases, feed, appUrl).catch(() => null);
+    if (!events) {
+      return c.text("Forbidden", 403);
+    }
+
+    await databases
+      .updateDocument(DATABASE_ID, CALENDAR_FEEDS_ID, feed.$id, {
+        lastAccessedAt: new Date().toISOString(),
+      })
+      .catch(() => undefined);
+
+    return c.body(buildICalendar({ name: `Fairlx: ${feed.name}`, events }), 200, {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${feed.scope.toLowerCase()}-feed.ics"`,
+      "Cache-Control": "private, max-age=300",
+    });
+  });
+
+export default app;
@@ -0,0 +1,41 @@
+import { Models } from "node-appwrite";
+
+export enum CalendarFeedScope {
+  // Work items assigned to the feed owner
+  USER = "USER",
+  PROJECT = "PROJECT",
+  PROGRAM = "PROGRAM",
+}
+
+export type CalendarFeed = Models.Document & {
+  workspaceId: string;
+  userId: string;
+  scope: CalendarFeedScope;
+  projectId?: string | null;
+  programId?: string | null;
+  name: string;
+  /** Hashed token (sha256 hex) — the feed URL is shown once on create */
+  tokenHash: string;
+  tokenPrefix: string;
+  lastAccessedAt?: string | null;
+};
+
+// What the API returns; never the hash
+export type CalendarFeedSummary = Pick<
+  CalendarFeed,
+  "$id" | "$createdAt" | "workspaceId" | "scope" | "projectId" | "programId" | "name" | "tokenPrefix" | "lastAccessedAt"
+>;
+
+/**
+ * All-day event in a feed. Dates are yyyy-MM-dd and `end` is inclusive;
+ * the iCalendar writer turns it into the exclusive DTEND.
+ */
+export type CalendarFeedEvent = {
+  uid: string;
+  title: string;
+  start: string;
+  end?: string;
+  description?: string;
+  url?: string;
+  categories?: string[];
+};
@@ -10,7 +10,9 @@ import {
 } from "@/lib/notifications";
 import { createReplyEvent } from "@/lib/notifications/events";
 import { Task } from "@/features/tasks/types";
+import { addTaskWatcher } from "@/features/tasks/server/watchers";
 import { extractMentions, extractSnippet } from "@/lib/mentions";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
 
 // Get all comments for a task, optionally filtering by parentId
 export const getComments = async (
@@ -110,6 +112,12 @@ export const createComment = async (data: {
     }
   );
 
+  // Comments are part of the work item's searchable content
+  syncWorkItemSearchIndex(data.taskId).catch(() => { });
+
+  // Commenting on an item follows it
+  addTaskWatcher(databases, task, data.authorId).catch(() => { });
+
   // Emit comment added event, mention events, and reply events (non-blocking)
   try {
     const authorName = data.authorName || "Someone";
@@ -233,6 +241,8 @@ export const updateComment = async (
     }
   );
 
+  syncWorkItemSearchIndex(existingComment.taskId).catch(() => { });
+
   return updatedComment as Comment;
 };
 
@@ -273,6 +283,8 @@ export const deleteComment = async (
 
   // Delete the comment
   await databases.deleteDocument(DATABASE_ID, COMMENTS_ID, commentId);
+
+  syncWorkItemSearchIndex(existingComment.taskId).catch(() => { });
 };
 
 // Get a single comment
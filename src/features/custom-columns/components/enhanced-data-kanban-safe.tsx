@@ -8,7 +8,8 @@ import { Task, TaskStatus } from "@/features/tasks/types";
 interface SafeEnhancedDataKanbanProps {
   data: Task[] | undefined;
   onChange: (
-    tasks: { $id: string; status: TaskStatus | string; position: number }[]
+    tasks: { $id: string; status: TaskStatus | string; position: number }[],
+    options?: { overrideWipLimit?: boolean }
   ) => void;
   isAdmin?: boolean;
   members?: Array<{ $id: string; name: string }>;
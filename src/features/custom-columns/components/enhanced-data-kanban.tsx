@@ -35,6 +35,11 @@ import { KanbanCard } from "@/features/tasks/components/kanban-card";
 import { KanbanColumnHeader } from "@/features/tasks/components/kanban-column-header";
 import { BulkActionsToolbar } from "@/features/tasks/components/bulk-actions-toolbar";
 import { useCreateTaskModal } from "@/features/tasks/hooks/use-create-task-modal";
+import { useKanbanWipLimits } from "@/features/tasks/hooks/use-kanban-wip-limits";
+import { useEditTaskModal } from "@/features/tasks/hooks/use-edit-task-modal";
+import { useTaskPreviewModal } from "@/features/tasks/hooks/use-task-preview-modal";
+import { BoardPresence } from "@/features/tasks/components/board-presence";
+import { useBoardRealtime } from "@/hooks/use-board-realtime";
 
 import { Task, TaskStatus } from "@/features/tasks/types";
 import { useBulkUpdateTasks } from "@/features/tasks/api/use-bulk-update-tasks";
@@ -69,7 +74,8 @@ interface ColumnData {
 interface EnhancedDataKanbanProps {
   data: Task[] | undefined; // Allow undefined data
   onChange: (
-    tasks: { $id: string; status: TaskStatus | string; position: number }[]
+    tasks: { $id: string; status: TaskStatus | string; position: number }[],
+    options?: { overrideWipLimit?: boolean }
   ) => void;
   canCreateTasks?: boolean;
   canEditTasks?: boolean;
@@ -93,6 +99,7 @@ export const EnhancedDataKanban = ({
 
   // Get project to find workflow
   const { data: project } = useGetProject({ projectId: projectId || "" });
+  const { wipLimits, setWipLimit, checkMoves, WipConfirmDialog } = useKanbanWipLimits(project);
   
   // Workflow validation hooks
   const { mutateAsync: validateTransition } = useValidateTransition();
@@ -118,6 +125,19 @@ export const EnhancedDataKanban = ({
 
 
   useCreateTaskModal();
+
+  // Real-time collaboration: remote moves land in the cache, and the
+  // open preview/edit modal is reported as presence
+  const { taskId: editTaskId } = useEditTaskModal();
+  const { taskId: previewTaskId } = useTaskPreviewModal();
+  const { presence, getItemPresence } = useBoardRealtime({
+    workspaceId,
+    projectId,
+    focus: editTaskId
+      ? { workItemId: editTaskId, mode: "editing" }
+      : { workItemId: previewTaskId, mode: "viewing" },
+  });
+
   const { scrollRef, handleDragStart, handleDragEnd } = useKanbanAutoScroll();
   const { getEnabledColumns } = useDefaultColumns(workspaceId, projectId);
   const { mutate: updateColumnOrder } = useUpdateColumnOrder();
@@ -333,7 +353,7 @@ export const EnhancedDataKanban = ({
     }
   }, [selectionMode]);
 
-  const handleBulkStatusChange = useCallback((status: TaskStatus | string) => {
+  const handleBulkStatusChange = useCallback(async (status: TaskStatus | string) => {
     if (selectedTasks.size === 0) return;
 
     const updates = Array.from(selectedTasks).map(taskId => ({
@@ -343,12 +363,23 @@ export const EnhancedDataKanban = ({
 
     if (updates.length === 0) return; // Additional guard
 
+    const counts = Object.fromEntries(
+      Object.entries(tasks).map(([columnId, columnTasks]) => [columnId, columnTasks.length])
+    );
+    const moves = Object.entries(tasks).flatMap(([columnId, columnTasks]) =>
+      columnTasks
+        .filter(task => selectedTasks.has(task.$id))
+        .map(task => ({ itemId: task.$id, fromStatus: columnId, toStatus: status }))
+    );
+    const wip = await checkMoves(moves, counts);
+    if (!wip.allowed) return;
+
     bulkUpdateTasks({
-      json: { tasks: updates }
+      json: { tasks: updates, overrideWipLimit: wip.override }
     });
 
     setSelectedTasks(new Set());
-  }, [selectedTasks, bulkUpdateTasks]);
+  }, [selectedTasks, bulkUpdateTasks, tasks, checkMoves]);
 
   const handleBulkAssigneeChange = useCallback((assigneeId: string) => {
     if (selectedTasks.size === 0) return;
@@ -579,10 +610,24 @@ export const EnhancedDataKanban = ({
       }
       // ======= END WORKFLOW VALIDATION =======
 
+      // Full columns are refused or need an explicit override, per project setting
+      let overrideWipLimit = false;
+      if (sourceColumnId !== destColumnId) {
+        const wip = await checkMoves(
+          [{ itemId: movedTask.$id, fromStatus: sourceColumnId, toStatus: destColumnId }],
+          { [destColumnId]: previousTasks[destColumnId]?.length ?? 0 }
+        );
+        if (!wip.allowed) {
+          setTasks(previousTasks);
+          return;
+        }
+        overrideWipLimit = wip.override;
+      }
+
       // Only call onChange if we have valid updates
       if (updatesPayload.length > 0) {
         try {
-          onChange(updatesPayload);
+          onChange(updatesPayload, { overrideWipLimit });
         } catch (error) {
           // Rollback on error
           console.error('Failed to update task positions:', error);
@@ -590,7 +635,7 @@ export const EnhancedDataKanban = ({
         }
       }
     },
-    [orderedColumns, onChange, updateColumnOrder, workspaceId, projectId, tasks, project?.workflowId, validateTransition, statusKeyToIdMap]
+    [orderedColumns, onChange, updateColumnOrder, workspaceId, projectId, tasks, project?.workflowId, validateTransition, statusKeyToIdMap, checkMoves]
   );
 
   // Derive body content states (keep hooks above regardless of state)
@@ -628,6 +673,7 @@ export const EnhancedDataKanban = ({
               </span>
             )}
           </div>
+          <BoardPresence users={presence} />
         </div>
 
         <DragDropContext
@@ -686,6 +732,8 @@ export const EnhancedDataKanban = ({
                                   setQuickCreateColumnId(column.id);
                                   setQuickCreateTitle("");
                                 }}
+                                wipLimit={wipLimits[column.id]}
+                                onSetWipLimit={setWipLimit}
                               />
                             ) : (
                               <CustomColumnHeader
@@ -732,6 +780,7 @@ export const EnhancedDataKanban = ({
                                           canEdit={canEditTasks}
                                           canDelete={canDeleteTasks}
                                           dragHandleProps={provided.dragHandleProps}
+                                          presence={getItemPresence(task.$id)}
                                         />
                                       </div>
                                     )}
@@ -1043,6 +1092,7 @@ export const EnhancedDataKanban = ({
   return (
     <>
       <ConfirmDialog />
+      <WipConfirmDialog />
       {body}
     </>
   );
@@ -1,6 +1,6 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
-import { ID, Query } from "node-appwrite";
+import { ID, Models, Query } from "node-appwrite";
 import { z } from "zod";
 
 import { getMember } from "@/features/members/utils";
@@ -11,6 +11,8 @@ import {
   CUSTOM_WORK_ITEM_TYPES_ID,
 } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
+import { emitScopedWebhookEvent } from "@/features/webhooks/server/events";
+import { WebhookDefinitionChange, WebhookEventType } from "@/features/webhooks/server/types";
 
 import {
   createCustomFieldSchema,
@@ -25,6 +27,23 @@ import {
   SYSTEM_WORK_ITEM_TYPES,
 } from "../types";
 
+function emitCustomFieldWebhookEvent(
+  field: CustomField,
+  change: WebhookDefinitionChange,
+  user: Models.User<Models.Preferences>,
+  changedFields?: string[]
+): void {
+  emitScopedWebhookEvent(field, WebhookEventType.CUSTOM_FIELD_CHANGED, user, {
+    title: field.name,
+    summary: `Custom field "${field.name}" ${change}`,
+    change,
+    fieldId: field.$id,
+    fieldKey: field.key,
+    fieldType: field.type,
+    ...(changedFields ? { changedFields } : {}),
+  });
+}
+
 const app = new Hono()
   // ============= Custom Fields =============
 
@@ -94,6 +113,8 @@ const app = new Hono()
         }
       );
 
+      emitCustomFieldWebhookEvent(customField, "created", user);
+
       return c.json({ data: customField });
     }
   )
@@ -271,6 +292,8 @@ const app = new Hono()
         updateData
       );
 
+      emitCustomFieldWebhookEvent(updatedField, "updated", user, Object.keys(updateData));
+
       return c.json({ data: updatedField });
     }
   )
@@ -302,6 +325,8 @@ const app = new Hono()
 
       await databases.deleteDocument(DATABASE_ID, CUSTOM_FIELDS_ID, fieldId);
 
+      emitCustomFieldWebhookEvent(customField, "deleted", user);
+
       return c.json({ data: { $id: fieldId } });
     }
   )
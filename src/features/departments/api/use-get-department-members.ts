@@ -5,6 +5,7 @@ import { client } from "@/lib/rpc";
 
 interface DepartmentMember {
     $id: string;
+    userId: string;
     name: string;
     email: string;
     profileImageUrl?: string | null;
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { X, Plus, Users, Loader2, AlertTriangle, Search } from "lucide-react";
+import { X, Plus, Users, Loader2, AlertTriangle, Search, Crown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -27,6 +27,7 @@ import {
 import { useGetDepartmentMembers } from "../api/use-get-department-members";
 import { useAddDepartmentMember } from "../api/use-add-department-member";
 import { useRemoveDepartmentMember } from "../api/use-remove-department-member";
+import { useUpdateDepartment } from "../api/use-update-department";
 import { useGetOrgMembers, OrgMember } from "@/features/organizations/api/use-get-org-members";
 import { PopulatedDepartment } from "../types";
 
@@ -73,6 +74,14 @@ export function DepartmentMembersDialog({
 
     const addMember = useAddDepartmentMember();
     const removeMember = useRemoveDepartmentMember();
+    const updateDepartment = useUpdateDepartment({ orgId: actualOrgId });
+
+    const handleToggleLead = (userId: string) => {
+        updateDepartment.mutate({
+            departmentId: department.$id,
+            json: { leadUserId: department.leadUserId === userId ? null : userId },
+        });
+    };
 
     // Get members not yet in this department
     const departmentMemberIds = new Set(departmentMembers.map((m) => m.$id));
@@ -252,22 +261,41 @@ export function DepartmentMembersDialog({
                                                     </AvatarFallback>
                                                 </Avatar>
                                                 <div className="min-w-0">
-                                                    <p className="text-sm font-medium truncate">{member.name}</p>
+                                                    <p className="text-sm font-medium truncate">
+                                                        {member.name}
+                                                        {department.leadUserId === member.userId && (
+                                                            <span className="ml-2 text-[10px] font-medium text-amber-600 bg-amber-500/10 px-1.5 py-0.5 rounded">
+                                                                Lead
+                                                            </span>
+                                                        )}
+                                                    </p>
                                                     <p className="text-xs text-muted-foreground truncate">{member.email}</p>
                                                 </div>
                                             </div>
-                                            <Button
-                                                variant="ghost"
-                                                size="icon"
-                                                className="h-8 w-8 text-muted-foreground hover:text-destructive shrink-0"
-                                                onClick={() => setConfirmRemove({
-                                                    memberId: member.$id,
-                                                    name: member.name
-                                                })}
-                                                disabled={removeMember.isPending}
-                                            >
-                                                <X className="size-4" />
-                                            </Button>
+                                            <div className="flex items-center shrink-0">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className={`h-8 w-8 ${department.leadUserId === member.userId ? "text-amber-600" : "text-muted-foreground hover:text-amber-600"}`}
+                                                    title={department.leadUserId === member.userId ? "Remove as lead" : "Make lead (approves timesheets)"}
+                                                    onClick={() => handleToggleLead(member.userId)}
+                                                    disabled={updateDepartment.isPending}
+                                                >
+                                                    <Crown className="size-4" />
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8 text-muted-foreground hover:text-destructive shrink-0"
+                                                    onClick={() => setConfirmRemove({
+                                                        memberId: member.$id,
+                                                        name: member.name
+                                                    })}
+                                                    disabled={removeMember.isPending}
+                                                >
+                                                    <X className="size-4" />
+                                                </Button>
+                                            </div>
                                         </div>
                                     ))}
                                 </div>
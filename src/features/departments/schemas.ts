@@ -10,6 +10,8 @@ export const updateDepartmentSchema = z.object({
     name: z.string().trim().min(1).max(100).optional(),
     description: z.string().max(500).optional(),
     color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Invalid color format").optional(),
+    // User ID of a department member; null clears the lead
+    leadUserId: z.string().min(1).nullable().optional(),
 });
 
 export const assignMemberToDepartmentSchema = z.object({
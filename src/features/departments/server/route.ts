@@ -198,6 +198,32 @@ const app = new Hono()
                 }
             }
 
+            // The lead must be one of the department's members
+            if (updates.leadUserId) {
+                const leadMembers = await databases.listDocuments<OrganizationMember>(
+                    DATABASE_ID,
+                    ORGANIZATION_MEMBERS_ID,
+                    [
+                        Query.equal("organizationId", orgId),
+                        Query.equal("userId", updates.leadUserId),
+                    ]
+                );
+                const leadAssignments = leadMembers.total > 0
+                    ? await databases.listDocuments(
+                        DATABASE_ID,
+                        ORG_MEMBER_DEPARTMENTS_ID,
+                        [
+                            Query.equal("orgMemberId", leadMembers.documents[0].$id),
+                            Query.equal("departmentId", departmentId),
+                        ]
+                    )
+                    : { total: 0 };
+
+                if (leadAssignments.total === 0) {
+                    return c.json({ error: "The lead must be a member of this department" }, 400);
+                }
+            }
+
             const updated = await databases.updateDocument<Department>(
                 DATABASE_ID,
                 DEPARTMENTS_ID,
@@ -206,6 +232,7 @@ const app = new Hono()
                     ...(updates.name && { name: updates.name }),
                     ...(updates.description !== undefined && { description: updates.description }),
                     ...(updates.color && { color: updates.color }),
+                    ...(updates.leadUserId !== undefined && { leadUserId: updates.leadUserId }),
                 }
             );
 
@@ -383,6 +410,15 @@ const app = new Hono()
             assignments.documents[0].$id
         );
 
+        // A member who leaves the department stops leading it
+        const [department, memberDoc] = await Promise.all([
+            databases.getDocument<Department>(DATABASE_ID, DEPARTMENTS_ID, departmentId),
+            databases.getDocument<OrganizationMember>(DATABASE_ID, ORGANIZATION_MEMBERS_ID, orgMemberId),
+        ]);
+        if (department.leadUserId && department.leadUserId === memberDoc.userId) {
+            await databases.updateDocument(DATABASE_ID, DEPARTMENTS_ID, departmentId, { leadUserId: null });
+        }
+
         await invalidateOrgAccessCache(orgId);
 
         return c.json({ success: true });
@@ -33,6 +33,8 @@ export type Department = Models.Document & {
     description?: string;
     /** Color for UI display (hex) */
     color?: string;
+    /** Member (user ID) who leads the department, e.g. approves its timesheets */
+    leadUserId?: string | null;
     /** User who created the department */
     createdBy: string;
 };
@@ -86,6 +88,7 @@ export type UpdateDepartmentDto = {
     name?: string;
     description?: string;
     color?: string;
+    leadUserId?: string | null;
 };
 
 export type AssignMemberToDepartmentDto = {
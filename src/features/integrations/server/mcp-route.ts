@@ -7,12 +7,31 @@ import {
   SPRINTS_ID,
   COMMENTS_ID,
   MCP_API_TOKENS_ID,
+  PROJECTS_ID,
 } from "@/config";
+import { enforceWipLimits } from "@/features/projects/server/wip-limits";
+import { Project } from "@/features/projects/types";
+import { createdChange, diffWorkItemFields } from "@/features/tasks/change-log";
+import { recordWorkItemChange } from "@/features/tasks/server/change-log";
+import { recordStatusChange } from "@/features/tasks/server/status-history";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
+import { Task, WorkItemChangeSource } from "@/features/tasks/types";
+import { getActiveTimer, populateTimer, startTimer, stopTimer } from "@/features/time-tracking/server/timers";
+import { getTimeLogLockError } from "@/features/time-tracking/server/timesheets";
 import { McpApiToken } from "../types";
 import { hashMcpToken } from "../lib/helpers";
 
 type JsonRpcId = string | number | null;
 
+type McpContext = {
+  projectId: string;
+  workspaceId: string;
+  tokenId: string;
+  // Changes made with a token are attributed to the user who issued it
+  tokenName: string;
+  createdBy: string;
+};
+
 type JsonRpcRequest = {
   jsonrpc?: string;
   id?: JsonRpcId;
@@ -22,7 +41,7 @@ type JsonRpcRequest = {
 
 async function authenticateMcp(
   authHeader: string | undefined
-): Promise<{ projectId: string; workspaceId: string; tokenId: string } | null> {
+): Promise<McpContext | null> {
   if (!authHeader?.startsWith("Bearer ")) return null;
   const plaintext = authHeader.slice(7).trim();
   if (!plaintext) return null;
@@ -49,6 +68,8 @@ async function authenticateMcp(
       projectId: token.projectId,
       workspaceId: token.workspaceId,
       tokenId: token.$id,
+      tokenName: token.name,
+      createdBy: token.createdBy,
     };
   } catch {
     return null;
@@ -101,6 +122,7 @@ const TOOLS = [
         description: { type: "string" },
         status: { type: "string" },
         priority: { type: "string" },
+        overrideWipLimit: { type: "boolean" },
       },
       required: ["workItemId"],
     },
@@ -117,6 +139,31 @@ const TOOLS = [
       required: ["workItemId", "content"],
     },
   },
+  {
+    name: "get_timer",
+    description: "Get the running timer of the token owner, if any",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "start_timer",
+    description: "Start a timer on a work item for the token owner; a running timer is stopped and logged first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workItemId: { type: "string" },
+        description: { type: "string" },
+      },
+      required: ["workItemId"],
+    },
+  },
+  {
+    name: "stop_timer",
+    description: "Stop the running timer of the token owner and log its time",
+    inputSchema: {
+      type: "object",
+      properties: { description: { type: "string" } },
+    },
+  },
   {
     name: "list_sprints",
     description: "List sprints for the project",
@@ -130,9 +177,9 @@ const TOOLS = [
 async function callTool(
   name: string,
   args: Record<string, unknown>,
-  ctx: { projectId: string; workspaceId: string }
+  ctx: McpContext
 ) {
-  const { databases } = await createAdminClient();
+  const { databases, users } = await createAdminClient();
 
   switch (name) {
     case "list_work_items": {
@@ -180,18 +227,52 @@ async function callTool(
         assigneeIds: [],
         reporterId: "mcp",
       });
+      await recordWorkItemChange(databases, {
+        item: { $id: doc.$id, projectId: ctx.projectId, workspaceId: ctx.workspaceId },
+        changes: [createdChange(doc)],
+        changedBy: ctx.createdBy,
+        changedByName: `MCP token "${ctx.tokenName}"`,
+        source: WorkItemChangeSource.MCP,
+      });
+      syncWorkItemSearchIndex(doc.$id).catch(() => { });
       return { id: doc.$id, key: doc.key, title: doc.title };
     }
     case "update_work_item": {
       const id = String(args.workItemId);
-      const item = await databases.getDocument(DATABASE_ID, WORK_ITEMS_ID, id);
+      const item = await databases.getDocument<Task>(DATABASE_ID, WORK_ITEMS_ID, id);
       if (item.projectId !== ctx.projectId) throw new Error("Work item not in project");
+      if (args.status !== undefined && args.status !== item.status) {
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, ctx.projectId);
+        const wip = await enforceWipLimits(databases, {
+          project,
+          moves: [{ item, toStatus: String(args.status) }],
+          userId: ctx.createdBy,
+          override: args.overrideWipLimit === true,
+        });
+        if (!wip.allowed) throw new Error(wip.message);
+      }
       const updates: Record<string, unknown> = {};
       if (args.title !== undefined) updates.title = args.title;
       if (args.description !== undefined) updates.description = args.description;
       if (args.status !== undefined) updates.status = args.status;
       if (args.priority !== undefined) updates.priority = args.priority;
-      const updated = await databases.updateDocument(DATABASE_ID, WORK_ITEMS_ID, id, updates);
+      const updated = await databases.updateDocument<Task>(DATABASE_ID, WORK_ITEMS_ID, id, updates);
+      await recordWorkItemChange(databases, {
+        item: { $id: id, projectId: ctx.projectId, workspaceId: ctx.workspaceId },
+        changes: diffWorkItemFields(item, updated),
+        changedBy: ctx.createdBy,
+        changedByName: `MCP token "${ctx.tokenName}"`,
+        source: WorkItemChangeSource.MCP,
+      });
+      if (updated.status !== item.status) {
+        await recordStatusChange(databases, {
+          item: updated,
+          fromStatus: item.status,
+          toStatus: updated.status,
+          changedBy: ctx.createdBy,
+        });
+      }
+      syncWorkItemSearchIndex(updated.$id).catch(() => { });
       return { id: updated.$id, key: updated.key, status: updated.status, title: updated.title };
     }
     case "add_comment": {
@@ -206,6 +287,57 @@ async function callTool(
       });
       return { id: comment.$id, content: comment.content };
     }
+    case "get_timer": {
+      const timer = await getActiveTimer(databases, ctx.createdBy);
+      if (!timer) return { running: false };
+      const populated = await populateTimer(databases, timer);
+      return {
+        running: true,
+        workItemId: timer.taskId,
+        key: populated.task?.key,
+        title: populated.task?.title,
+        startedAt: timer.startedAt,
+      };
+    }
+    case "start_timer": {
+      const task = await databases.getDocument<Task>(
+        DATABASE_ID,
+        WORK_ITEMS_ID,
+        String(args.workItemId)
+      );
+      if (task.projectId !== ctx.projectId) throw new Error("Work item not in project");
+      const lockError = await getTimeLogLockError(databases, {
+        workspaceId: task.workspaceId,
+        userId: ctx.createdBy,
+        logDate: new Date(),
+      });
+      if (lockError) throw new Error(lockError);
+      const actor = await users.get(ctx.createdBy);
+      const { timer, stopped } = await startTimer(databases, {
+        actor,
+        task,
+        description: args.description ? String(args.description) : null,
+      });
+      return {
+        workItemId: timer.taskId,
+        key: task.key,
+        startedAt: timer.startedAt,
+        stopped: stopped ? { timeLogId: stopped.$id, loggedHours: stopped.loggedHours } : null,
+      };
+    }
+    case "stop_timer": {
+      const timer = await getActiveTimer(databases, ctx.createdBy);
+      if (!timer) throw new Error("No timer is running");
+      if (timer.projectId !== ctx.projectId) throw new Error("The running timer is on a work item outside this project");
+      const actor = await users.get(ctx.createdBy);
+      const timeLog = await stopTimer(databases, timer, {
+        actor,
+        description: args.description ? String(args.description) : null,
+      });
+      return timeLog
+        ? { timeLogId: timeLog.$id, loggedHours: timeLog.loggedHours, logDate: timeLog.logDate }
+        : { timeLogId: null, loggedHours: 0 };
+    }
     case "list_sprints": {
       const result = await databases.listDocuments(DATABASE_ID, SPRINTS_ID, [
         Query.equal("projectId", ctx.projectId),
@@ -21,6 +21,10 @@ import {
   createMcpTokenSchema,
   upsertIntegrationSchema,
 } from "../schemas";
+import { createdChange } from "@/features/tasks/change-log";
+import { recordWorkItemChange } from "@/features/tasks/server/change-log";
+import { WorkItemChangeSource } from "@/features/tasks/types";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
 import { ProjectIntegration, McpApiToken } from "../types";
 import {
   decryptIntegrationToken,
@@ -426,6 +430,14 @@ const app = new Hono()
         reporterId: slack.createdBy || "slack",
       });
 
+      await recordWorkItemChange(adminDb, {
+        item: { $id: workItem.$id, projectId: slack.projectId, workspaceId: slack.workspaceId },
+        changes: [createdChange(workItem)],
+        changedByName: form.user_name ? `@${String(form.user_name)} (Slack)` : "Slack",
+        source: WorkItemChangeSource.SLACK,
+      });
+      syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+
       return c.json({
         response_type: "in_channel",
         text: `Created *${workItem.key}*: ${title}${channelId ? ` (from <#${channelId}>)` : ""}`,
@@ -449,6 +461,9 @@ const app = new Hono()
       guild_id?: string;
       channel_id?: string;
       token?: string;
+      // Invoking user: `member.user` in servers, `user` in DMs
+      member?: { user?: { username?: string } };
+      user?: { username?: string };
     }>();
 
     // Discord PING
@@ -492,6 +507,7 @@ const app = new Hono()
         }
 
         const title = String(sub.value);
+        const discordUser = body.member?.user?.username || body.user?.username;
         const project = await adminDb.getDocument(DATABASE_ID, PROJECTS_ID, discord.projectId);
         const keyBase = ((project.name as string) || "ITEM")
           .toUpperCase()
@@ -513,6 +529,14 @@ const app = new Hono()
           reporterId: discord.createdBy || "discord",
         });
 
+        await recordWorkItemChange(adminDb, {
+          item: { $id: workItem.$id, projectId: discord.projectId, workspaceId: discord.workspaceId },
+          changes: [createdChange(workItem)],
+          changedByName: discordUser ? `${discordUser} (Discord)` : "Discord",
+          source: WorkItemChangeSource.DISCORD,
+        });
+        syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+
         return c.json({
           type: 4,
           data: { content: `Created **${workItem.key}**: ${title}` },
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { client } from "@/lib/rpc";
+
+export const useGetNotificationPreferences = () => {
+  const query = useQuery({
+    queryKey: ["notifications", "preferences"],
+    queryFn: async () => {
+      const response = await client.api.notifications.preferences.$get();
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch notification preferences");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
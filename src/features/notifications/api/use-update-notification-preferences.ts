@@ -0,0 +1,41 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<
+  typeof client.api.notifications.preferences["$put"],
+  200
+>;
+type RequestType = InferRequestType<
+  typeof client.api.notifications.preferences["$put"]
+>;
+
+export const useUpdateNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api.notifications.preferences.$put({
+        json,
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update notification preferences");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success("Notification preferences saved");
+      queryClient.setQueryData(["notifications", "preferences"], data);
+      queryClient.invalidateQueries({ queryKey: ["current"] });
+    },
+    onError: () => {
+      toast.error("Failed to update notification preferences");
+    },
+  });
+
+  return mutation;
+};
@@ -16,6 +16,9 @@ import {
   Bell,
   X,
   Gift,
+  ClipboardCheck,
+  ClipboardX,
+  Clock,
 } from "lucide-react";
 import Link from "next/link";
 
@@ -95,6 +98,21 @@ const getTypeConfig = (type: NotificationType) => {
       accent: "text-orange-500",
       bg: "bg-orange-50 dark:bg-orange-950/40",
     },
+    [NotificationType.TIMESHEET_SUBMITTED]: {
+      icon: Clock,
+      accent: "text-indigo-500",
+      bg: "bg-indigo-50 dark:bg-indigo-950/40",
+    },
+    [NotificationType.TIMESHEET_APPROVED]: {
+      icon: ClipboardCheck,
+      accent: "text-green-500",
+      bg: "bg-green-50 dark:bg-green-950/40",
+    },
+    [NotificationType.TIMESHEET_REJECTED]: {
+      icon: ClipboardX,
+      accent: "text-red-500",
+      bg: "bg-red-50 dark:bg-red-950/40",
+    },
   };
 
   return configs[type] || {
@@ -169,9 +187,13 @@ export const NotificationItem = ({
 
   const taskLink = notification.type === NotificationType.REWARD_CREDITED
     ? `/workspaces/${workspaceId}/rewards`
-    : (notification.taskId && notification.taskId !== "reward-event")
-      ? `/workspaces/${workspaceId}/tasks/${notification.taskId}`
-      : "#";
+    : notification.type === NotificationType.TIMESHEET_SUBMITTED
+      ? `/workspaces/${workspaceId}/time-tracking/approvals`
+      : (notification.type === NotificationType.TIMESHEET_APPROVED || notification.type === NotificationType.TIMESHEET_REJECTED)
+        ? `/workspaces/${workspaceId}/time-tracking`
+        : (notification.taskId && notification.taskId !== "reward-event")
+          ? `/workspaces/${workspaceId}/tasks/${notification.taskId}`
+          : "#";
 
   const timeAgo = formatDistanceToNow(new Date(notification.$createdAt), { addSuffix: true });
   const userName = notification.triggeredByUser?.name || "Someone";
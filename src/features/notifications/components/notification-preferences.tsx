@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  WorkitemEventType,
+  UserNotificationChannel,
+  UserNotificationPreferences,
+} from "@/lib/notifications/types";
+import { isChannelEnabled, isValidTimezone } from "@/lib/notifications/preferences";
+
+import { useGetNotificationPreferences } from "../api/use-get-notification-preferences";
+import { useUpdateNotificationPreferences } from "../api/use-update-notification-preferences";
+
+const EVENT_GROUPS: { label: string; events: { type: WorkitemEventType; label: string }[] }[] = [
+  {
+    label: "Work items",
+    events: [
+      { type: WorkitemEventType.WORKITEM_ASSIGNED, label: "Assigned to me" },
+      { type: WorkitemEventType.WORKITEM_UNASSIGNED, label: "Unassigned from me" },
+      { type: WorkitemEventType.WORKITEM_STATUS_CHANGED, label: "Status changed" },
+      { type: WorkitemEventType.WORKITEM_COMPLETED, label: "Completed" },
+      { type: WorkitemEventType.WORKITEM_UPDATED, label: "Details updated" },
+      { type: WorkitemEventType.WORKITEM_PRIORITY_CHANGED, label: "Priority changed" },
+      { type: WorkitemEventType.WORKITEM_DUE_DATE_CHANGED, label: "Due date changed" },
+      { type: WorkitemEventType.WORKITEM_DELETED, label: "Deleted" },
+    ],
+  },
+  {
+    label: "Deadlines",
+    events: [
+      { type: WorkitemEventType.WORKITEM_DUE_DATE_APPROACHING, label: "Due soon" },
+      { type: WorkitemEventType.WORKITEM_OVERDUE, label: "Overdue" },
+    ],
+  },
+  {
+    label: "Conversations",
+    events: [
+      { type: WorkitemEventType.WORKITEM_COMMENT_ADDED, label: "New comments" },
+      { type: WorkitemEventType.WORKITEM_MENTION, label: "Mentions" },
+      { type: WorkitemEventType.WORKITEM_REPLY, label: "Replies" },
+      { type: WorkitemEventType.WORKITEM_ATTACHMENT_ADDED, label: "Attachments" },
+    ],
+  },
+  {
+    label: "Approvals",
+    events: [
+      { type: WorkitemEventType.WORKITEM_APPROVAL_REQUESTED, label: "Approval requested" },
+      { type: WorkitemEventType.WORKITEM_APPROVAL_APPROVED, label: "Approved" },
+      { type: WorkitemEventType.WORKITEM_APPROVAL_REJECTED, label: "Rejected" },
+    ],
+  },
+];
+
+const CHANNELS: { channel: UserNotificationChannel; label: string }[] = [
+  { channel: "socket", label: "In-app" },
+  { channel: "email", label: "Email" },
+];
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+export const NotificationPreferences = () => {
+  const { data, isLoading } = useGetNotificationPreferences();
+  const { mutate, isPending } = useUpdateNotificationPreferences();
+  const [draft, setDraft] = useState<UserNotificationPreferences | null>(null);
+
+  useEffect(() => {
+    if (data) {
+      setDraft(data as UserNotificationPreferences);
+    }
+  }, [data]);
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="size-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<UserNotificationPreferences>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleEventChannel = (
+    eventType: WorkitemEventType,
+    channel: UserNotificationChannel,
+    enabled: boolean
+  ) => {
+    update({
+      eventChannels: {
+        ...draft.eventChannels,
+        [eventType]: { ...draft.eventChannels[eventType], [channel]: enabled },
+      },
+    });
+  };
+
+  const timezoneValid = isValidTimezone(draft.timezone);
+
+  const handleSave = () => {
+    mutate({
+      json: {
+        emailNotifications: draft.emailNotifications,
+        pushNotifications: draft.pushNotifications,
+        eventChannels: draft.eventChannels,
+        timezone: draft.timezone,
+        quietHours: draft.quietHours,
+        emailDelivery: draft.emailDelivery,
+        digestHour: draft.digestHour,
+        digestDay: draft.digestDay,
+      },
+    });
+  };
+
+  return (
+    <div className="h-full w-full p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Notifications</CardTitle>
+            <CardDescription>
+              Choose which events notify you and where
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>In-app notifications</Label>
+                <p className="text-xs text-muted-foreground">Real-time alerts in the notification bell</p>
+              </div>
+              <Switch
+                checked={draft.pushNotifications}
+                onCheckedChange={(checked) => update({ pushNotifications: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Email notifications</Label>
+                <p className="text-xs text-muted-foreground">Emails for the events selected below</p>
+              </div>
+              <Switch
+                checked={draft.emailNotifications}
+                onCheckedChange={(checked) => update({ emailNotifications: checked })}
+              />
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-[1fr_80px_80px] items-center gap-y-2 text-sm">
+              <span />
+              {CHANNELS.map(({ channel, label }) => (
+                <span key={channel} className="text-center text-xs font-medium text-muted-foreground">
+                  {label}
+                </span>
+              ))}
+              {EVENT_GROUPS.map((group) => (
+                <div key={group.label} className="contents">
+                  <span className="col-span-3 pt-3 text-xs font-semibold uppercase text-muted-foreground">
+                    {group.label}
+                  </span>
+                  {group.events.map((event) => (
+                    <div key={event.type} className="contents">
+                      <span>{event.label}</span>
+                      {CHANNELS.map(({ channel }) => (
+                        <div key={channel} className="flex justify-center">
+                          <Switch
+                            checked={isChannelEnabled(draft, event.type, channel)}
+                            disabled={channel === "email" ? !draft.emailNotifications : !draft.pushNotifications}
+                            onCheckedChange={(checked) => toggleEventChannel(event.type, channel, checked)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery</CardTitle>
+            <CardDescription>
+              Quiet hours and email digests
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <Input
+                value={draft.timezone}
+                onChange={(e) => update({ timezone: e.target.value })}
+                placeholder="Europe/Berlin"
+              />
+              {!timezoneValid && (
+                <p className="text-xs text-destructive">Enter an IANA timezone, e.g. America/New_York</p>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label>Quiet hours</Label>
+                <p className="text-xs text-muted-foreground">
+                  No in-app alerts; emails are held and sent when quiet hours end
+                </p>
+              </div>
+              <Switch
+                checked={draft.quietHours.enabled}
+                onCheckedChange={(checked) => update({ quietHours: { ...draft.quietHours, enabled: checked } })}
+              />
+            </div>
+            {draft.quietHours.enabled && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Input
+                    type="time"
+                    value={draft.quietHours.start}
+                    onChange={(e) => update({ quietHours: { ...draft.quietHours, start: e.target.value } })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Until</Label>
+                  <Input
+                    type="time"
+                    value={draft.quietHours.end}
+                    onChange={(e) => update({ quietHours: { ...draft.quietHours, end: e.target.value } })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Email delivery</Label>
+                <Select
+                  value={draft.emailDelivery}
+                  onValueChange={(value) => update({ emailDelivery: value as UserNotificationPreferences["emailDelivery"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="instant">Instantly</SelectItem>
+                    <SelectItem value="daily">Daily digest</SelectItem>
+                    <SelectItem value="weekly">Weekly digest</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.emailDelivery !== "instant" && (
+                <div className="space-y-2">
+                  <Label>Send at</Label>
+                  <Select
+                    value={String(draft.digestHour)}
+                    onValueChange={(value) => update({ digestHour: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {draft.emailDelivery === "weekly" && (
+                <div className="space-y-2">
+                  <Label>On</Label>
+                  <Select
+                    value={String(draft.digestDay)}
+                    onValueChange={(value) => update({ digestDay: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((day, index) => (
+                        <SelectItem key={day} value={String(index)}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isPending || !timezoneValid}>
+            {isPending && <Loader2 className="size-4 mr-2 animate-spin" />}
+            Save preferences
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { WorkitemEventType } from "@/lib/notifications/types";
+import { isValidTimezone } from "@/lib/notifications/preferences";
 import { NotificationType } from "./types";
 
 export const createNotificationSchema = z.object({
@@ -29,3 +31,30 @@ export const getNotificationsSchema = z.object({
 export const deleteNotificationSchema = z.object({
   notificationId: z.string().trim().min(1, "Notification ID is required"),
 });
+
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+
+export const updateNotificationPreferencesSchema = z.object({
+  emailNotifications: z.boolean().optional(),
+  pushNotifications: z.boolean().optional(),
+  eventChannels: z
+    .record(
+      z.nativeEnum(WorkitemEventType),
+      z.object({
+        socket: z.boolean().optional(),
+        email: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  timezone: z.string().trim().refine(isValidTimezone, "Unknown timezone").optional(),
+  quietHours: z
+    .object({
+      enabled: z.boolean(),
+      start: clockTimeSchema,
+      end: clockTimeSchema,
+    })
+    .optional(),
+  emailDelivery: z.enum(["instant", "daily", "weekly"]).optional(),
+  digestHour: z.number().int().min(0).max(23).optional(),
+  digestDay: z.number().int().min(0).max(6).optional(),
+});
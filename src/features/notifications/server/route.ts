@@ -8,11 +8,13 @@ import { createAdminClient } from "@/lib/appwrite";
 import { batchGetUsers } from "@/lib/batch-users";
 import { getMember } from "@/features/members/utils";
 import { cachedCounter, invalidateCache, CK, TTL } from "@/lib/redis";
+import { parseNotificationPreferences } from "@/lib/notifications/preferences";
 
 import {
   createNotificationSchema,
   markAllNotificationsReadSchema,
   getNotificationsSchema,
+  updateNotificationPreferencesSchema,
 } from "../schemas";
 import { Notification, PopulatedNotification } from "../types";
 
@@ -158,6 +160,46 @@ const app = new Hono()
     return c.json({ data: { count: unreadNotifications } });
   })
 
+  // Get current user's notification preferences
+  .get("/preferences", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const prefs = user.prefs as { notificationPrefs?: string } | undefined;
+
+    return c.json({ data: parseNotificationPreferences(prefs?.notificationPrefs) });
+  })
+
+  // Update current user's notification preferences (partial)
+  .put(
+    "/preferences",
+    sessionMiddleware,
+    zValidator("json", updateNotificationPreferencesSchema),
+    async (c) => {
+      const user = c.get("user");
+      const account = c.get("account");
+      const updates = c.req.valid("json");
+
+      const currentPrefs = user.prefs || {};
+      const current = parseNotificationPreferences(
+        (currentPrefs as { notificationPrefs?: string }).notificationPrefs
+      );
+
+      const next = {
+        ...current,
+        ...updates,
+        eventChannels: updates.eventChannels ?? current.eventChannels,
+        quietHours: updates.quietHours ?? current.quietHours,
+      };
+
+      // Stored as a JSON string: the dispatcher reads it via the admin users API
+      await account.updatePrefs({
+        ...currentPrefs,
+        notificationPrefs: JSON.stringify(next),
+      });
+
+      return c.json({ data: next });
+    }
+  )
+
   // Mark notification as read (deletes the notification)
   .patch(
     "/:notificationId/read",
@@ -14,6 +14,9 @@ export enum NotificationType {
   TASK_ATTACHMENT_ADDED = "task_attachment_added",
   TASK_ATTACHMENT_DELETED = "task_attachment_deleted",
   REWARD_CREDITED = "reward_credited",
+  TIMESHEET_SUBMITTED = "timesheet_submitted",
+  TIMESHEET_APPROVED = "timesheet_approved",
+  TIMESHEET_REJECTED = "timesheet_rejected",
 }
 
 export type Notification = Models.Document & {
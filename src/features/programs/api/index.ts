@@ -21,9 +21,13 @@ export { useCreateMilestone } from "./use-create-milestone";
 export { useUpdateMilestone } from "./use-update-milestone";
 export { useDeleteMilestone } from "./use-delete-milestone";
 export { useReorderMilestones } from "./use-reorder-milestones";
+export { useGetMilestoneLinks } from "./use-get-milestone-links";
+export { useAddMilestoneLink } from "./use-add-milestone-link";
+export { useRemoveMilestoneLink } from "./use-remove-milestone-link";
 
 export { useGetProgramAnalytics } from "./use-get-program-analytics";
 export { useGetProgramSummary } from "./use-get-program-summary";
+export { useGetProgramForecast } from "./use-get-program-forecast";
 
 // Re-export types from API hooks
 export type { GetProgramProjectsResponse } from "./use-get-program-projects";
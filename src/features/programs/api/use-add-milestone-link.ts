@@ -0,0 +1,49 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+import { MilestoneLinkType, ProgramMilestone } from "../types";
+
+interface AddMilestoneLinkRequest {
+  programId: string;
+  milestoneId: string;
+  type: MilestoneLinkType;
+  /** Document ID, or a work item key */
+  id: string;
+}
+
+interface AddMilestoneLinkResponse {
+  data: ProgramMilestone;
+}
+
+export const useAddMilestoneLink = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<AddMilestoneLinkResponse, Error, AddMilestoneLinkRequest>({
+    mutationFn: async ({ programId, milestoneId, type, id }) => {
+      const response = await client.api.programs[":programId"].milestones[":milestoneId"].links.$post({
+        param: { programId, milestoneId },
+        json: { type, id },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: "Failed to link work" }));
+        throw new Error((error as { error: string }).error || "Failed to link work");
+      }
+
+      return await response.json();
+    },
+    onSuccess: (_, { programId, milestoneId }) => {
+      toast.success("Work linked to milestone");
+      queryClient.invalidateQueries({ queryKey: ["milestone-links", programId, milestoneId] });
+      queryClient.invalidateQueries({ queryKey: ["program-milestones", programId] });
+      queryClient.invalidateQueries({ queryKey: ["program-analytics", programId] });
+      queryClient.invalidateQueries({ queryKey: ["program-forecast", programId] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to link work");
+    },
+  });
+
+  return mutation;
+};
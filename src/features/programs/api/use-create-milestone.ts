@@ -10,6 +10,7 @@ interface CreateMilestoneRequest {
   description?: string;
   targetDate?: string;
   status?: MilestoneStatus;
+  epicIds?: string[];
 }
 
 interface CreateMilestoneResponse {
@@ -20,10 +21,10 @@ export const useCreateMilestone = () => {
   const queryClient = useQueryClient();
 
   const mutation = useMutation<CreateMilestoneResponse, Error, CreateMilestoneRequest>({
-    mutationFn: async ({ programId, name, description, targetDate, status }) => {
+    mutationFn: async ({ programId, name, description, targetDate, status, epicIds }) => {
       const response = await client.api.programs[":programId"].milestones.$post({
         param: { programId },
-        json: { name, description, targetDate, status },
+        json: { name, description, targetDate, status, epicIds },
       });
 
       if (!response.ok) {
@@ -37,6 +38,7 @@ export const useCreateMilestone = () => {
       toast.success("Milestone created");
       queryClient.invalidateQueries({ queryKey: ["program-milestones", programId] });
       queryClient.invalidateQueries({ queryKey: ["program-analytics", programId] });
+      queryClient.invalidateQueries({ queryKey: ["program-forecast", programId] });
     },
     onError: (error) => {
       toast.error(error.message || "Failed to create milestone");
@@ -32,6 +32,7 @@ export const useDeleteMilestone = () => {
       toast.success("Milestone deleted");
       queryClient.invalidateQueries({ queryKey: ["program-milestones", programId] });
       queryClient.invalidateQueries({ queryKey: ["program-analytics", programId] });
+      queryClient.invalidateQueries({ queryKey: ["program-forecast", programId] });
     },
     onError: (error) => {
       toast.error(error.message || "Failed to delete milestone");
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+import { MilestoneScopeSummary } from "../types";
+
+interface UseGetMilestoneLinksProps {
+  programId: string;
+  milestoneId: string;
+  enabled?: boolean;
+}
+
+interface GetMilestoneLinksResponse {
+  data: MilestoneScopeSummary;
+}
+
+export const useGetMilestoneLinks = ({ programId, milestoneId, enabled = true }: UseGetMilestoneLinksProps) => {
+  const query = useQuery({
+    queryKey: ["milestone-links", programId, milestoneId],
+    enabled: enabled && Boolean(programId) && Boolean(milestoneId),
+    queryFn: async (): Promise<GetMilestoneLinksResponse> => {
+      const response = await client.api.programs[":programId"].milestones[":milestoneId"].links.$get({
+        param: { programId, milestoneId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch milestone links");
+      }
+
+      return await response.json();
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+import { ProgramForecast } from "../types";
+
+interface UseGetProgramForecastProps {
+  programId: string;
+}
+
+interface GetProgramForecastResponse {
+  data: ProgramForecast;
+}
+
+export const useGetProgramForecast = ({ programId }: UseGetProgramForecastProps) => {
+  const query = useQuery({
+    queryKey: ["program-forecast", programId],
+    enabled: Boolean(programId),
+    queryFn: async (): Promise<GetProgramForecastResponse> => {
+      if (!programId) {
+        throw new Error("Program ID is required");
+      }
+
+      const response = await client.api.programs[":programId"].analytics.forecast.$get({
+        param: { programId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch program forecast");
+      }
+
+      return await response.json();
+    },
+    // Simulations are relatively expensive and change slowly
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  return query;
+};
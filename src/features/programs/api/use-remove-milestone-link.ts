@@ -0,0 +1,47 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+import { MilestoneLinkType, ProgramMilestone } from "../types";
+
+interface RemoveMilestoneLinkRequest {
+  programId: string;
+  milestoneId: string;
+  type: MilestoneLinkType;
+  linkId: string;
+}
+
+interface RemoveMilestoneLinkResponse {
+  data: ProgramMilestone;
+}
+
+export const useRemoveMilestoneLink = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<RemoveMilestoneLinkResponse, Error, RemoveMilestoneLinkRequest>({
+    mutationFn: async ({ programId, milestoneId, type, linkId }) => {
+      const response = await client.api.programs[":programId"].milestones[":milestoneId"].links[":type"][":linkId"].$delete({
+        param: { programId, milestoneId, type, linkId },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: "Failed to unlink work" }));
+        throw new Error((error as { error: string }).error || "Failed to unlink work");
+      }
+
+      return await response.json();
+    },
+    onSuccess: (_, { programId, milestoneId }) => {
+      toast.success("Work unlinked from milestone");
+      queryClient.invalidateQueries({ queryKey: ["milestone-links", programId, milestoneId] });
+      queryClient.invalidateQueries({ queryKey: ["program-milestones", programId] });
+      queryClient.invalidateQueries({ queryKey: ["program-analytics", programId] });
+      queryClient.invalidateQueries({ queryKey: ["program-forecast", programId] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to unlink work");
+    },
+  });
+
+  return mutation;
+};
@@ -13,6 +13,7 @@ interface UpdateMilestoneRequest {
   status?: MilestoneStatus;
   progress?: number;
   position?: number;
+  epicIds?: string[];
 }
 
 interface UpdateMilestoneResponse {
@@ -40,6 +41,7 @@ export const useUpdateMilestone = () => {
       toast.success("Milestone updated");
       queryClient.invalidateQueries({ queryKey: ["program-milestones", programId] });
       queryClient.invalidateQueries({ queryKey: ["program-analytics", programId] });
+      queryClient.invalidateQueries({ queryKey: ["program-forecast", programId] });
     },
     onError: (error) => {
       toast.error(error.message || "Failed to update milestone");
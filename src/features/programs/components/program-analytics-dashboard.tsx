@@ -11,7 +11,19 @@ import {
   FolderKanban,
   ShieldAlert,
   Activity,
+  TrendingDown,
 } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
 
 import { cn } from "@/lib/utils";
 import { Card, CardContent } from "@/components/ui/card";
@@ -112,6 +124,58 @@ export const ProgramAnalyticsDashboard = ({ programId }: ProgramAnalyticsDashboa
         </CardContent>
       </Card>
 
+      {/* Sprint Trends */}
+      {((analytics.burndownData?.length ?? 0) > 0 || (analytics.velocityTrend?.length ?? 0) > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Card>
+            <CardContent className="pt-5">
+              <div className="flex items-center gap-2 mb-4">
+                <TrendingDown className="h-5 w-5 text-muted-foreground" />
+                <h3 className="font-semibold">Active Sprint Burndown</h3>
+                <span className="text-xs text-muted-foreground ml-auto">story points</span>
+              </div>
+              {analytics.burndownData && analytics.burndownData.length > 0 ? (
+                <ResponsiveContainer width="100%" height={200}>
+                  <LineChart data={analytics.burndownData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="date" tickFormatter={formatShortDate} fontSize={11} />
+                    <YAxis allowDecimals={false} fontSize={11} />
+                    <Tooltip labelFormatter={(label) => formatShortDate(String(label))} />
+                    <Line type="linear" dataKey="ideal" name="Ideal" stroke="#9ca3af" strokeDasharray="5 5" dot={false} />
+                    <Line type="stepAfter" dataKey="remaining" name="Remaining" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-sm text-muted-foreground py-16 text-center">No active sprints</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-5">
+              <div className="flex items-center gap-2 mb-4">
+                <BarChart3 className="h-5 w-5 text-muted-foreground" />
+                <h3 className="font-semibold">Velocity</h3>
+                <span className="text-xs text-muted-foreground ml-auto">points completed per week</span>
+              </div>
+              {analytics.velocityTrend && analytics.velocityTrend.length > 0 ? (
+                <ResponsiveContainer width="100%" height={200}>
+                  <BarChart data={analytics.velocityTrend}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="week" tickFormatter={formatShortDate} fontSize={11} />
+                    <YAxis allowDecimals={false} fontSize={11} />
+                    <Tooltip labelFormatter={(label) => `Week of ${formatShortDate(String(label))}`} />
+                    <Bar dataKey="points" name="Points" fill="#10b981" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-sm text-muted-foreground py-16 text-center">No completed sprints in the last 12 weeks</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Bottom Row: Alerts + Progress Summary */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Alerts */}
@@ -168,6 +232,10 @@ export const ProgramAnalyticsDashboard = ({ programId }: ProgramAnalyticsDashboa
 
 /* ─── Sub-components ──────────────────────────────────────────────── */
 
+function formatShortDate(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
 const ACCENT: Record<string, string> = {
   blue: "bg-blue-500/10 text-blue-600 dark:text-blue-400",
   violet: "bg-violet-500/10 text-violet-600 dark:text-violet-400",
@@ -39,6 +39,8 @@ import {
 } from "@/components/ui/tooltip";
 
 import { useConfirm } from "@/hooks/use-confirm";
+import { CalendarFeedButton } from "@/features/calendar-feeds/components/calendar-feed-button";
+import { CalendarFeedScope } from "@/features/calendar-feeds/types";
 import { useEditProgramModal } from "../hooks/use-edit-program-modal";
 import { useDeleteProgram } from "../api/use-delete-program";
 import { useGetProgram } from "../api/use-get-program";
@@ -280,6 +282,11 @@ export const ProgramDetailsHeader = ({
 
             {/* Right side - Actions */}
             <div className="flex items-center gap-2 shrink-0">
+              <CalendarFeedButton
+                workspaceId={workspaceId}
+                scope={CalendarFeedScope.PROGRAM}
+                programId={programId}
+              />
               <Button variant="outline" onClick={handleEdit}>
                 <Pencil className="mr-2 h-4 w-4" />
                 Edit
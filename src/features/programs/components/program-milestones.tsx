@@ -15,6 +15,9 @@ import {
   Flag,
   ChevronDown,
   ChevronUp,
+  TrendingUp,
+  Link2,
+  X,
 } from "lucide-react";
 import { format, isPast, differenceInDays } from "date-fns";
 
@@ -57,13 +60,20 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Label } from "@/components/ui/label";
+import { MultiSelect } from "@/components/ui/multi-select-simple";
 
 import { useConfirm } from "@/hooks/use-confirm";
 import { useGetProgramMilestones } from "../api/use-get-program-milestones";
 import { useCreateMilestone } from "../api/use-create-milestone";
 import { useUpdateMilestone } from "../api/use-update-milestone";
 import { useDeleteMilestone } from "../api/use-delete-milestone";
-import { ProgramMilestone, MilestoneStatus } from "../types";
+import { useGetProgramForecast } from "../api/use-get-program-forecast";
+import { useGetMilestoneLinks } from "../api/use-get-milestone-links";
+import { useAddMilestoneLink } from "../api/use-add-milestone-link";
+import { useRemoveMilestoneLink } from "../api/use-remove-milestone-link";
+import { hasMilestoneLinks } from "../milestone-progress";
+import { ProgramMilestone, MilestoneLinkType, MilestoneScopeSummary, MilestoneStatus, ProgramForecast } from "../types";
+import type { DeliveryForecast } from "@/features/projects/forecast";
 
 interface ProgramMilestonesProps {
   programId: string;
@@ -86,10 +96,13 @@ export const ProgramMilestones = ({ programId, canManage = false }: ProgramMiles
   const { mutate: createMs, isPending: isCreating } = useCreateMilestone();
   const { mutate: updateMs, isPending: isUpdating } = useUpdateMilestone();
   const { mutate: deleteMs, isPending: isDel } = useDeleteMilestone();
+  const { data: forecastData } = useGetProgramForecast({ programId });
 
   const [DelDialog, confirmDel] = useConfirm("Delete Milestone", "Are you sure? This cannot be undone.", "destructive");
 
   const milestones = msData?.data?.documents || [];
+  const forecast = forecastData?.data;
+  const epics = forecast?.epics || [];
   const completed = milestones.filter((m: ProgramMilestone) => m.status === MilestoneStatus.COMPLETED).length;
   const totalProg = milestones.length > 0 ? Math.round(milestones.reduce((a: number, m: ProgramMilestone) => a + (m.progress || 0), 0) / milestones.length) : 0;
 
@@ -122,6 +135,7 @@ export const ProgramMilestones = ({ programId, canManage = false }: ProgramMiles
               onOpenChange={setCreateOpen}
               onCreate={(data, callbacks) => createMs(data, callbacks)}
               isCreating={isCreating}
+              epics={epics}
             />
           )}
         </div>
@@ -148,6 +162,11 @@ export const ProgramMilestones = ({ programId, canManage = false }: ProgramMiles
                   <p className="text-[11px] text-muted-foreground">Remaining</p>
                 </div>
               </div>
+              {forecast && (
+                <div className="mt-3 pt-3 border-t text-xs text-muted-foreground">
+                  <ForecastLine label="Program forecast" forecast={forecast.program} />
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -183,6 +202,8 @@ export const ProgramMilestones = ({ programId, canManage = false }: ProgramMiles
                 const isOverdue = ms.targetDate && isPast(new Date(ms.targetDate)) && !isComplete;
                 const daysLeft = ms.targetDate ? differenceInDays(new Date(ms.targetDate), new Date()) : null;
                 const expanded = expandedIds.has(ms.$id);
+                const msForecast = forecast?.milestones.find((f) => f.milestoneId === ms.$id);
+                const linkedCount = (ms.epicIds?.length ?? 0) + (ms.workItemIds?.length ?? 0) + (ms.sprintIds?.length ?? 0);
 
                 return (
                   <div key={ms.$id} className="relative flex gap-4 pb-6 last:pb-0 group">
@@ -232,6 +253,9 @@ export const ProgramMilestones = ({ programId, canManage = false }: ProgramMiles
                                   <div className={cn("h-1.5 w-1.5 rounded-full mr-1", stCfg.dot)} />{stCfg.label}
                                 </Badge>
                                 {isOverdue && <Badge variant="destructive" className="text-[10px] px-1.5 py-0">Overdue</Badge>}
+                                {!isOverdue && msForecast?.atRisk && (
+                                  <Badge variant="destructive" className="text-[10px] px-1.5 py-0">Forecast after target</Badge>
+                                )}
                               </div>
                               <div className="flex items-center gap-3 mt-3">
                                 <Progress value={ms.progress || 0} className="h-1.5 flex-1" />
@@ -247,7 +271,22 @@ export const ProgramMilestones = ({ programId, canManage = false }: ProgramMiles
                                     )}
                                   </div>
                                 )}
+                                {linkedCount > 0 && (
+                                  <div className="flex items-center gap-1">
+                                    <Link2 className="h-3.5 w-3.5" />
+                                    {linkedCount} linked · progress from work
+                                  </div>
+                                )}
                               </div>
+                              {!isComplete && forecast && (
+                                <div className="mt-1.5 text-xs text-muted-foreground">
+                                  {msForecast?.forecast ? (
+                                    <ForecastLine label="Forecast" forecast={msForecast.forecast} />
+                                  ) : (
+                                    <span className="flex items-center gap-1"><TrendingUp className="h-3.5 w-3.5" />Link work to forecast this milestone</span>
+                                  )}
+                                </div>
+                              )}
                               {ms.description && (
                                 <div className="mt-2">
                                   <button onClick={() => toggle(ms.$id)} className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors">
@@ -300,21 +339,23 @@ export const ProgramMilestones = ({ programId, canManage = false }: ProgramMiles
 };
 
 /* ─── Create Dialog ───────────────────────────────────────────────── */
-function CreateMilestoneDialog({ programId, open, onOpenChange, onCreate, isCreating }: {
+function CreateMilestoneDialog({ programId, open, onOpenChange, onCreate, isCreating, epics }: {
   programId: string; open: boolean; onOpenChange: (o: boolean) => void;
-  onCreate: (d: { programId: string; name: string; description?: string; targetDate?: string; status?: MilestoneStatus }, callbacks?: { onSuccess?: () => void }) => void;
+  onCreate: (d: { programId: string; name: string; description?: string; targetDate?: string; status?: MilestoneStatus; epicIds?: string[] }, callbacks?: { onSuccess?: () => void }) => void;
   isCreating: boolean;
+  epics: ProgramForecast["epics"];
 }) {
   const [name, setName] = useState("");
   const [desc, setDesc] = useState("");
   const [date, setDate] = useState("");
   const [status, setStatus] = useState<MilestoneStatus>(MilestoneStatus.NOT_STARTED);
+  const [epicIds, setEpicIds] = useState<string[]>([]);
 
   const submit = (e: React.FormEvent) => {
     e.preventDefault();
     onCreate(
-      { programId, name, description: desc || undefined, targetDate: date || undefined, status },
-      { onSuccess: () => { setName(""); setDesc(""); setDate(""); setStatus(MilestoneStatus.NOT_STARTED); onOpenChange(false); } }
+      { programId, name, description: desc || undefined, targetDate: date || undefined, status, epicIds },
+      { onSuccess: () => { setName(""); setDesc(""); setDate(""); setStatus(MilestoneStatus.NOT_STARTED); setEpicIds([]); onOpenChange(false); } }
     );
   };
 
@@ -331,6 +372,7 @@ function CreateMilestoneDialog({ programId, open, onOpenChange, onCreate, isCrea
               <div className="space-y-2"><Label htmlFor="ms-date">Target Date</Label><Input id="ms-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} /></div>
               <div className="space-y-2"><Label>Status</Label><Select value={status} onValueChange={(v) => setStatus(v as MilestoneStatus)}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent>{Object.entries(STATUS_CONFIG).map(([k, v]) => (<SelectItem key={k} value={k}>{v.label}</SelectItem>))}</SelectContent></Select></div>
             </div>
+            <EpicScopeField epics={epics} selected={epicIds} onChange={setEpicIds} />
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
@@ -354,10 +396,15 @@ function EditMilestoneDialog({ milestone, programId, open, onOpenChange, onUpdat
   const [status, setStatus] = useState<MilestoneStatus>(milestone.status as MilestoneStatus);
   const [progress, setProgress] = useState(milestone.progress || 0);
 
+  const { data: linksData } = useGetMilestoneLinks({ programId, milestoneId: milestone.$id, enabled: open });
+  const scope = linksData?.data;
+  // Linked milestones take their progress from the linked work
+  const isLinked = scope ? scope.links.length > 0 : hasMilestoneLinks(milestone);
+
   const submit = (e: React.FormEvent) => {
     e.preventDefault();
     onUpdate(
-      { programId, milestoneId: milestone.$id, name, description: desc || null, targetDate: date || null, status, progress },
+      { programId, milestoneId: milestone.$id, name, description: desc || null, targetDate: date || null, status, progress: isLinked ? undefined : progress },
       { onSuccess: () => onOpenChange(false) }
     );
   };
@@ -375,9 +422,11 @@ function EditMilestoneDialog({ milestone, programId, open, onOpenChange, onUpdat
               <div className="space-y-2"><Label>Status</Label><Select value={status} onValueChange={(v) => setStatus(v as MilestoneStatus)}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent>{Object.entries(STATUS_CONFIG).map(([k, v]) => (<SelectItem key={k} value={k}>{v.label}</SelectItem>))}</SelectContent></Select></div>
             </div>
             <div className="space-y-2">
-              <div className="flex items-center justify-between"><Label>Progress</Label><span className="text-sm font-semibold tabular-nums">{progress}%</span></div>
-              <Input type="range" min="0" max="100" step="5" value={progress} onChange={(e) => setProgress(Number(e.target.value))} className="cursor-pointer" />
+              <div className="flex items-center justify-between"><Label>Progress</Label><span className="text-sm font-semibold tabular-nums">{isLinked ? milestone.progress || 0 : progress}%</span></div>
+              <Input type="range" min="0" max="100" step="5" value={isLinked ? milestone.progress || 0 : progress} onChange={(e) => setProgress(Number(e.target.value))} className="cursor-pointer" disabled={isLinked} />
+              {isLinked && <p className="text-xs text-muted-foreground">Progress and status are calculated from linked work</p>}
             </div>
+            <MilestoneScopeField programId={programId} milestoneId={milestone.$id} scope={scope} />
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
@@ -389,6 +438,132 @@ function EditMilestoneDialog({ milestone, programId, open, onOpenChange, onUpdat
   );
 }
 
+/* ─── Forecast ────────────────────────────────────────────────────── */
+const formatForecastDate = (date: string | null) => (date ? format(new Date(`${date}T00:00:00`), "MMM d") : "—");
+
+function ForecastLine({ label, forecast }: { label: string; forecast: DeliveryForecast }) {
+  if (forecast.outcome === "COMPLETE") {
+    return <span className="flex items-center gap-1"><TrendingUp className="h-3.5 w-3.5" />{label}: all linked work is done</span>;
+  }
+  if (forecast.outcome === "NO_HISTORY") {
+    return <span className="flex items-center gap-1"><TrendingUp className="h-3.5 w-3.5" />{label}: no completed work in the last {forecast.historyDays} days to forecast {forecast.remainingItems} open items</span>;
+  }
+  return (
+    <TooltipProvider delayDuration={0}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="flex items-center gap-1 w-fit">
+            <TrendingUp className="h-3.5 w-3.5" />
+            {label}: 50% <span className="text-foreground font-medium">{formatForecastDate(forecast.p50)}</span>
+            <span>· 85% {formatForecastDate(forecast.p85)}</span>
+            <span>· 95% {formatForecastDate(forecast.p95)}</span>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          {forecast.remainingItems} open items, simulated from {forecast.completedInHistory} completed in the last {forecast.historyDays} days
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
+function EpicScopeField({ epics, selected, onChange }: { epics: ProgramForecast["epics"]; selected: string[]; onChange: (ids: string[]) => void }) {
+  return (
+    <div className="space-y-2">
+      <Label>Epics</Label>
+      <MultiSelect
+        options={epics.map((epic) => ({ value: epic.$id, label: `${epic.key} ${epic.title}` }))}
+        selected={selected}
+        onChange={onChange}
+        placeholder={epics.length > 0 ? "Select epics to link..." : "No epics in linked projects"}
+        disabled={epics.length === 0}
+      />
+    </div>
+  );
+}
+
+const LINK_TYPE_LABELS: Record<MilestoneLinkType, string> = {
+  [MilestoneLinkType.EPIC]: "Epic",
+  [MilestoneLinkType.WORK_ITEM]: "Work item",
+  [MilestoneLinkType.SPRINT]: "Sprint",
+};
+
+function MilestoneScopeField({ programId, milestoneId, scope }: {
+  programId: string; milestoneId: string; scope?: MilestoneScopeSummary;
+}) {
+  const [itemKey, setItemKey] = useState("");
+  const { mutate: addLink, isPending: isAdding } = useAddMilestoneLink();
+  const { mutate: removeLink, isPending: isRemoving } = useRemoveMilestoneLink();
+
+  const addWorkItem = () => {
+    if (!itemKey.trim()) return;
+    addLink(
+      { programId, milestoneId, type: MilestoneLinkType.WORK_ITEM, id: itemKey.trim() },
+      { onSuccess: () => setItemKey("") }
+    );
+  };
+
+  if (!scope) {
+    return <div className="space-y-2"><Label>Linked work</Label><Skeleton className="h-16 w-full" /></div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Linked work</Label>
+        {scope.scope.totalItems > 0 && (
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {scope.scope.completedItems}/{scope.scope.totalItems} items · {scope.scope.completedPoints}/{scope.scope.totalPoints} pts
+          </span>
+        )}
+      </div>
+      {scope.links.length > 0 ? (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {scope.links.map((link) => (
+            <div key={`${link.type}-${link.id}`} className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0 shrink-0">{LINK_TYPE_LABELS[link.type]}</Badge>
+              <span className="truncate flex-1">{link.key ? `${link.key} ${link.name}` : link.name}</span>
+              <Button type="button" variant="ghost" size="icon" className="h-6 w-6 shrink-0" disabled={isRemoving} onClick={() => removeLink({ programId, milestoneId, type: link.type, linkId: link.id })}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Link epics, sprints or work items to track progress automatically.</p>
+      )}
+      <div className="flex gap-2">
+        <Select
+          value=""
+          onValueChange={(value) => {
+            const [type, id] = value.split(":");
+            addLink({ programId, milestoneId, type: type as MilestoneLinkType, id });
+          }}
+          disabled={isAdding || scope.available.length === 0}
+        >
+          <SelectTrigger className="flex-1"><SelectValue placeholder={scope.available.length > 0 ? "Add epic or sprint..." : "No epics or sprints available"} /></SelectTrigger>
+          <SelectContent>
+            {scope.available.map((link) => (
+              <SelectItem key={`${link.type}-${link.id}`} value={`${link.type}:${link.id}`}>
+                {LINK_TYPE_LABELS[link.type]}: {link.key ? `${link.key} ${link.name}` : link.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={itemKey}
+          onChange={(e) => setItemKey(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") { e.preventDefault(); addWorkItem(); } }}
+          placeholder="Work item key, e.g. WEB-42"
+        />
+        <Button type="button" variant="outline" onClick={addWorkItem} disabled={isAdding || !itemKey.trim()}>Link</Button>
+      </div>
+    </div>
+  );
+}
+
 /* ─── Skeleton ────────────────────────────────────────────────────── */
 function RoadmapSkeleton() {
   return (
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeMilestoneProgress,
+  deriveMilestoneStatus,
+  hasMilestoneLinks,
+  isInMilestoneScope,
+} from "./milestone-progress";
+import { MilestoneStatus } from "./types";
+
+const scope = (completedItems: number, totalItems: number, completedPoints = 0, totalPoints = 0) => ({
+  completedItems,
+  totalItems,
+  completedPoints,
+  totalPoints,
+  remainingPoints: totalPoints - completedPoints,
+});
+
+describe("milestone links", () => {
+  const milestone = { epicIds: ["epic-1"], workItemIds: ["item-9"], sprintIds: [] };
+
+  it("detects linked scope", () => {
+    expect(hasMilestoneLinks(milestone)).toBe(true);
+    expect(hasMilestoneLinks({ epicIds: [], workItemIds: undefined })).toBe(false);
+  });
+
+  it("matches items through any link", () => {
+    expect(isInMilestoneScope({ $id: "a", epicId: "epic-1" }, milestone)).toBe(true);
+    expect(isInMilestoneScope({ $id: "item-9" }, milestone)).toBe(true);
+    expect(isInMilestoneScope({ $id: "b", epicId: "epic-2", sprintId: "s1" }, milestone)).toBe(false);
+    expect(isInMilestoneScope({ $id: "b", sprintId: "s1" }, { sprintIds: ["s1"] })).toBe(true);
+  });
+});
+
+describe("computeMilestoneProgress", () => {
+  it("uses story points when the scope is estimated", () => {
+    expect(computeMilestoneProgress(scope(1, 4, 8, 10))).toBe(80);
+  });
+
+  it("falls back to item counts", () => {
+    expect(computeMilestoneProgress(scope(1, 3))).toBe(33);
+    expect(computeMilestoneProgress(scope(0, 0))).toBe(0);
+  });
+});
+
+describe("deriveMilestoneStatus", () => {
+  const now = new Date("2026-05-10T12:00:00Z");
+
+  it("completes when all linked work is closed", () => {
+    expect(
+      deriveMilestoneStatus({ current: MilestoneStatus.IN_PROGRESS, scope: scope(3, 3), now })
+    ).toBe(MilestoneStatus.COMPLETED);
+  });
+
+  it("is delayed once the target date passes with open scope", () => {
+    expect(
+      deriveMilestoneStatus({
+        current: MilestoneStatus.IN_PROGRESS,
+        scope: scope(1, 3),
+        targetDate: "2026-05-09T00:00:00.000Z",
+        now,
+      })
+    ).toBe(MilestoneStatus.DELAYED);
+  });
+
+  it("is still on time during its target day", () => {
+    expect(
+      deriveMilestoneStatus({
+        current: MilestoneStatus.IN_PROGRESS,
+        scope: scope(1, 3),
+        targetDate: "2026-05-10",
+        now,
+      })
+    ).toBe(MilestoneStatus.IN_PROGRESS);
+    expect(
+      deriveMilestoneStatus({
+        current: MilestoneStatus.IN_PROGRESS,
+        scope: scope(1, 3),
+        targetDate: "2026-05-10T00:00:00.000Z",
+        now: new Date("2026-05-10T00:00:00Z"),
+      })
+    ).toBe(MilestoneStatus.IN_PROGRESS);
+  });
+
+  it("reopens a completed milestone when scope is added", () => {
+    expect(
+      deriveMilestoneStatus({
+        current: MilestoneStatus.COMPLETED,
+        scope: scope(2, 3),
+        targetDate: "2026-06-01T00:00:00.000Z",
+        now,
+      })
+    ).toBe(MilestoneStatus.IN_PROGRESS);
+  });
+
+  it("starts once linked work gets closed, and otherwise keeps the status", () => {
+    expect(
+      deriveMilestoneStatus({ current: MilestoneStatus.NOT_STARTED, scope: scope(1, 3), now })
+    ).toBe(MilestoneStatus.IN_PROGRESS);
+    expect(
+      deriveMilestoneStatus({ current: MilestoneStatus.IN_PROGRESS, scope: scope(0, 3), now })
+    ).toBe(MilestoneStatus.IN_PROGRESS);
+  });
+});
@@ -0,0 +1,102 @@
+import { SprintScope } from "@/features/sprints/types";
+
+import { MilestoneLinkType, MilestoneStatus, ProgramMilestone } from "./types";
+
+/**
+ * Milestone Progress
+ *
+ * Milestones linked to epics, work items or sprints take their progress
+ * and status from that scope instead of the hand-edited values. Progress
+ * uses story points when the scope has any, otherwise item counts.
+ */
+
+type MilestoneLinks = Pick<ProgramMilestone, "epicIds" | "workItemIds" | "sprintIds">;
+
+/** Milestone attribute holding each kind of link */
+export const MILESTONE_LINK_FIELDS: Record<MilestoneLinkType, keyof MilestoneLinks> = {
+  [MilestoneLinkType.EPIC]: "epicIds",
+  [MilestoneLinkType.WORK_ITEM]: "workItemIds",
+  [MilestoneLinkType.SPRINT]: "sprintIds",
+};
+
+export function hasMilestoneLinks(milestone: MilestoneLinks): boolean {
+  return Boolean(
+    milestone.epicIds?.length || milestone.workItemIds?.length || milestone.sprintIds?.length
+  );
+}
+
+/**
+ * Whether a work item belongs to a milestone's linked scope
+ */
+export function isInMilestoneScope(
+  item: { $id: string; epicId?: string | null; sprintId?: string | null },
+  milestone: MilestoneLinks
+): boolean {
+  return Boolean(
+    milestone.workItemIds?.includes(item.$id) ||
+    (item.epicId && milestone.epicIds?.includes(item.epicId)) ||
+    (item.sprintId && milestone.sprintIds?.includes(item.sprintId))
+  );
+}
+
+/**
+ * Percentage done (0-100): closed points when the scope is estimated, closed items otherwise
+ */
+export function computeMilestoneProgress(scope: SprintScope): number {
+  if (scope.totalPoints > 0) {
+    return Math.round((scope.completedPoints / scope.totalPoints) * 100);
+  }
+  if (scope.totalItems > 0) {
+    return Math.round((scope.completedItems / scope.totalItems) * 100);
+  }
+  return 0;
+}
+
+// Calendar day (UTC) of a timestamp or a date-only value
+const toCalendarDay = (value: string | Date): string | null => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+/**
+ * Status implied by the linked scope
+ *
+ * Fully closed scope completes the milestone; open scope after the target
+ * day delays it (the target day itself is still on time). Otherwise the current status stands, except that a
+ * derived COMPLETED / DELAYED no longer backed by the scope is undone and
+ * a milestone with closed work is no longer NOT_STARTED.
+ */
+export function deriveMilestoneStatus({
+  current,
+  scope,
+  targetDate,
+  now = new Date(),
+}: {
+  current: MilestoneStatus;
+  scope: SprintScope;
+  targetDate?: string | null;
+  now?: Date;
+}): MilestoneStatus {
+  const open = scope.totalItems - scope.completedItems;
+
+  if (scope.totalItems > 0 && open === 0) {
+    return MilestoneStatus.COMPLETED;
+  }
+
+  const targetDay = targetDate ? toCalendarDay(targetDate) : null;
+  if (open > 0 && targetDay && targetDay < (toCalendarDay(now) as string)) {
+    return MilestoneStatus.DELAYED;
+  }
+
+  const started = scope.completedItems > 0;
+
+  if (current === MilestoneStatus.COMPLETED || current === MilestoneStatus.DELAYED) {
+    return started ? MilestoneStatus.IN_PROGRESS : MilestoneStatus.NOT_STARTED;
+  }
+
+  if (current === MilestoneStatus.NOT_STARTED && started) {
+    return MilestoneStatus.IN_PROGRESS;
+  }
+
+  return current;
+}
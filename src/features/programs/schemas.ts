@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { ProgramStatus, ProgramMemberRole, ProgramPriority, MilestoneStatus } from "./types";
+import { ProgramStatus, ProgramMemberRole, ProgramPriority, MilestoneStatus, MilestoneLinkType } from "./types";
 
 // Program Schemas
 // Reusable date string validator - accepts empty, null, undefined, or valid date string
@@ -165,6 +165,7 @@ export const createMilestoneSchema = z.object({
     .optional(),
   targetDate: optionalDateString,
   status: z.nativeEnum(MilestoneStatus).default(MilestoneStatus.NOT_STARTED).optional(),
+  epicIds: z.array(z.string().min(1)).max(100).optional(),
 });
 
 export const updateMilestoneSchema = z.object({
@@ -183,6 +184,13 @@ export const updateMilestoneSchema = z.object({
   status: z.nativeEnum(MilestoneStatus).optional(),
   progress: z.number().min(0).max(100).optional(),
   position: z.number().int().min(0).optional(),
+  epicIds: z.array(z.string().min(1)).max(100).optional(),
+});
+
+export const linkMilestoneSchema = z.object({
+  type: z.nativeEnum(MilestoneLinkType),
+  // Work items can also be linked by key, e.g. "PROJ-123"
+  id: z.string().trim().min(1, "Link target is required"),
 });
 
 export const reorderMilestonesSchema = z.object({
@@ -223,6 +231,7 @@ export const programSchemas = {
   createMilestone: createMilestoneSchema,
   updateMilestone: updateMilestoneSchema,
   reorderMilestones: reorderMilestonesSchema,
+  linkMilestone: linkMilestoneSchema,
   // Analytics schemas
   getProgramAnalytics: getProgramAnalyticsSchema,
   getProgramTeams: getProgramTeamsSchema,
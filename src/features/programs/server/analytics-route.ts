@@ -9,20 +9,37 @@ import {
   PROGRAM_MEMBERS_ID, 
   PROGRAM_MILESTONES_ID,
   PROJECTS_ID,
+  SPRINTS_ID,
+  SPRINT_SNAPSHOTS_ID,
   TASKS_ID 
 } from "@/config";
 
 import { getMember } from "@/features/members/utils";
 import { MemberRole } from "@/features/members/types";
 import { Project } from "@/features/projects/types";
+import { forecastDelivery, isTargetAtRisk } from "@/features/projects/forecast";
+import {
+  ProjectThroughput,
+  countRemainingItems,
+  getProjectThroughput,
+  listProjectWorkItems,
+} from "@/features/projects/server/forecast";
+import { Sprint, SprintSnapshot, SprintStatus, WorkItem, WorkItemType } from "@/features/sprints/types";
+import {
+  buildSprintReportSeries,
+  combineBurndownSeries,
+  groupVelocityByWeek,
+} from "@/features/sprints/reports";
 import { 
   Program, 
   ProgramMember, 
   ProgramMilestone,
   ProgramAnalytics,
+  ProgramForecast,
   MilestoneStatus
 } from "../types";
 import { programSchemas } from "../schemas";
+import { hasMilestoneLinks, isInMilestoneScope } from "../milestone-progress";
 import type { Models } from "node-appwrite";
 
 // Task type (from tasks feature) - extends Document
@@ -79,6 +96,137 @@ async function isProgramMember(
   }
 }
 
+/** Weeks of completed sprints shown in the velocity trend */
+const VELOCITY_WEEKS = 12;
+
+/**
+ * Combined burndown of the linked projects' active sprints, and completed
+ * points per week from their recently completed sprints
+ */
+async function getSprintTrends(
+  databases: Parameters<typeof getMember>[0]["databases"],
+  projectIds: string[]
+): Promise<Pick<ProgramAnalytics, "burndownData" | "velocityTrend">> {
+  if (projectIds.length === 0) {
+    return { burndownData: [], velocityTrend: [] };
+  }
+
+  try {
+    const since = new Date(Date.now() - VELOCITY_WEEKS * 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    const [activeSprints, completedSprints] = await Promise.all([
+      databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+        Query.equal("projectId", projectIds),
+        Query.equal("status", SprintStatus.ACTIVE),
+        Query.limit(100),
+      ]),
+      databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+        Query.equal("projectId", projectIds),
+        Query.equal("status", SprintStatus.COMPLETED),
+        Query.greaterThanEqual("$updatedAt", since),
+        Query.limit(500),
+      ]),
+    ]);
+
+    const seriesList = await Promise.all(
+      activeSprints.documents.map(async (sprint) => {
+        const snapshots = await databases.listDocuments<SprintSnapshot>(
+          DATABASE_ID,
+          SPRINT_SNAPSHOTS_ID,
+          [Query.equal("sprintId", sprint.$id), Query.orderAsc("date"), Query.limit(500)]
+        );
+
+        return buildSprintReportSeries({
+          startDate: sprint.startDate,
+          endDate: sprint.endDate,
+          snapshots: snapshots.documents,
+        });
+      })
+    );
+
+    return {
+      burndownData: combineBurndownSeries(seriesList),
+      velocityTrend: groupVelocityByWeek(completedSprints.documents),
+    };
+  } catch {
+    // Sprint trends are optional - the rest of the analytics still render
+    return { burndownData: [], velocityTrend: [] };
+  }
+}
+
+/**
+ * Monte Carlo forecasts for the program's open work and for each
+ * milestone's linked epics, based on the linked projects' throughput
+ */
+async function getProgramForecast(
+  databases: Parameters<typeof getMember>[0]["databases"],
+  programId: string
+): Promise<ProgramForecast> {
+  const [projects, milestones] = await Promise.all([
+    databases.listDocuments<Project>(
+      DATABASE_ID,
+      PROJECTS_ID,
+      [Query.equal("programId", programId), Query.limit(100)]
+    ),
+    databases.listDocuments<ProgramMilestone>(
+      DATABASE_ID,
+      PROGRAM_MILESTONES_ID,
+      [Query.equal("programId", programId), Query.orderAsc("position"), Query.limit(100)]
+    ),
+  ]);
+
+  const perProject: { throughput: ProjectThroughput; items: WorkItem[] }[] = await Promise.all(
+    projects.documents.map(async (project) => {
+      const [throughput, items] = await Promise.all([
+        getProjectThroughput(databases, project),
+        listProjectWorkItems(databases, project.$id),
+      ]);
+      return { throughput, items };
+    })
+  );
+
+  const forecastFor = (scope: typeof perProject) =>
+    forecastDelivery({
+      remaining: scope.reduce(
+        (sum, { throughput, items }) => sum + countRemainingItems(items, throughput.isClosed),
+        0
+      ),
+      completedAt: scope.flatMap(({ throughput }) => throughput.completedAt),
+    });
+
+  const epics = perProject.flatMap(({ items }) =>
+    items
+      .filter((item) => item.type === WorkItemType.EPIC)
+      .map(({ $id, key, title, projectId }) => ({ $id, key, title, projectId }))
+  );
+
+  return {
+    program: forecastFor(perProject),
+    milestones: milestones.documents.map((milestone) => {
+      if (!hasMilestoneLinks(milestone) || milestone.status === MilestoneStatus.COMPLETED) {
+        return { milestoneId: milestone.$id, forecast: null, atRisk: false };
+      }
+
+      // Only projects that own part of the milestone's linked scope contribute throughput
+      const scope = perProject
+        .map(({ throughput, items }) => ({
+          throughput,
+          items: items.filter((item) => isInMilestoneScope(item, milestone)),
+        }))
+        .filter(({ items }) => items.length > 0);
+
+      const forecast = forecastFor(scope);
+
+      return {
+        milestoneId: milestone.$id,
+        forecast,
+        atRisk: isTargetAtRisk(milestone.targetDate, forecast),
+      };
+    }),
+    epics,
+  };
+}
+
 const app = new Hono()
   // ========================================
   // GET /api/programs/:programId/analytics - Get program analytics
@@ -234,7 +382,7 @@ const app = new Hono()
           totalMilestones: milestones.total,
           completedMilestones,
           overallProgress,
-          // burndownData and velocityTrend can be added later with more complex calculations
+          ...(await getSprintTrends(databases, projectIds)),
         };
 
         return c.json({ data: analytics });
@@ -245,6 +393,37 @@ const app = new Hono()
     }
   )
 
+  // ========================================
+  // GET /api/programs/:programId/analytics/forecast - Delivery forecasts
+  // ========================================
+  .get(
+    "/forecast",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const programId = c.req.param("programId") as string;
+
+      if (!programId) {
+        return c.json({ error: "Program ID is required" }, 400);
+      }
+
+      // Verify user has access to this program
+      const hasAccess = await isProgramMember(databases, programId, user.$id);
+      if (!hasAccess) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      try {
+        const forecast = await getProgramForecast(databases, programId);
+        return c.json({ data: forecast });
+      } catch (error) {
+        console.error("Forecast error:", error);
+        return c.json({ error: "Failed to calculate forecast" }, 500);
+      }
+    }
+  )
+
   // ========================================
   // GET /api/programs/:programId/analytics/summary - Get quick summary
   // ========================================
@@ -35,10 +35,14 @@ import analyticsRoute from "./analytics-route";
  * - GET    /:programId/milestones/:milestoneId - Get single milestone
  * - PATCH  /:programId/milestones/:milestoneId - Update milestone
  * - DELETE /:programId/milestones/:milestoneId - Delete milestone
+ * - GET    /:programId/milestones/:milestoneId/links - Linked epics, work items and sprints
+ * - POST   /:programId/milestones/:milestoneId/links - Link an epic, work item or sprint
+ * - DELETE /:programId/milestones/:milestoneId/links/:type/:linkId - Unlink
  * - PATCH  /:programId/milestones/reorder      - Reorder milestones
  * 
  * Program Analytics:
  * - GET    /:programId/analytics           - Get full analytics
+ * - GET    /:programId/analytics/forecast  - Get delivery forecasts
  * - GET    /:programId/analytics/summary   - Get quick summary
  * - GET    /:programId/analytics/milestones - Get milestone analytics
  */
@@ -0,0 +1,311 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  PROGRAM_MILESTONES_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  WORK_ITEMS_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { Project } from "@/features/projects/types";
+import { summarizeSprintScope } from "@/features/sprints/reports";
+import { getClosedStatusMatcher } from "@/features/sprints/server/snapshots";
+import { Sprint, SprintScope, SprintStatus, WorkItem, WorkItemType } from "@/features/sprints/types";
+
+import {
+  computeMilestoneProgress,
+  deriveMilestoneStatus,
+  hasMilestoneLinks,
+} from "../milestone-progress";
+import {
+  MilestoneLink,
+  MilestoneLinkType,
+  MilestoneStatus,
+  ProgramMilestone,
+} from "../types";
+
+const PAGE_SIZE = 100;
+const MAX_SCOPE_ITEMS = 5000;
+/** Appwrite caps the number of values in one equal() query */
+const MAX_QUERY_VALUES = 100;
+
+async function listWorkItems(databases: Databases, queries: string[]): Promise<WorkItem[]> {
+  const items: WorkItem[] = [];
+  let cursor: string | undefined;
+
+  while (items.length < MAX_SCOPE_ITEMS) {
+    const page = await databases.listDocuments<WorkItem>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        ...queries,
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    items.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return items;
+}
+
+/**
+ * Work items in a milestone's linked scope (epics themselves are containers, not work)
+ */
+export async function listMilestoneScopeItems(
+  databases: Databases,
+  milestone: ProgramMilestone
+): Promise<WorkItem[]> {
+  const lookups: [string, string[] | undefined][] = [
+    ["epicId", milestone.epicIds],
+    ["$id", milestone.workItemIds],
+    ["sprintId", milestone.sprintIds],
+  ];
+
+  const pages = await Promise.all(
+    lookups
+      .filter(([, ids]) => ids && ids.length > 0)
+      .map(([field, ids]) => listWorkItems(databases, [Query.equal(field, ids!.slice(0, MAX_QUERY_VALUES))]))
+  );
+
+  const items = new Map<string, WorkItem>();
+  for (const item of pages.flat()) {
+    if (item.type !== WorkItemType.EPIC) items.set(item.$id, item);
+  }
+
+  return [...items.values()];
+}
+
+/**
+ * Points and items done across the linked scope, each item judged by its own project's workflow
+ */
+export async function summarizeMilestoneScope(
+  databases: Databases,
+  milestone: ProgramMilestone
+): Promise<SprintScope> {
+  const items = await listMilestoneScopeItems(databases, milestone);
+
+  const byProject = new Map<string, WorkItem[]>();
+  for (const item of items) {
+    const list = byProject.get(item.projectId) ?? [];
+    list.push(item);
+    byProject.set(item.projectId, list);
+  }
+
+  const scopes = await Promise.all(
+    [...byProject.entries()].map(async ([projectId, projectItems]) =>
+      summarizeSprintScope(projectItems, await getClosedStatusMatcher(databases, projectId))
+    )
+  );
+
+  return scopes.reduce<SprintScope>(
+    (total, scope) => ({
+      totalPoints: total.totalPoints + scope.totalPoints,
+      completedPoints: total.completedPoints + scope.completedPoints,
+      remainingPoints: total.remainingPoints + scope.remainingPoints,
+      totalItems: total.totalItems + scope.totalItems,
+      completedItems: total.completedItems + scope.completedItems,
+    }),
+    { totalPoints: 0, completedPoints: 0, remainingPoints: 0, totalItems: 0, completedItems: 0 }
+  );
+}
+
+/**
+ * A linked milestone with its progress and status recomputed, without saving them
+ *
+ * Milestones without links keep their hand-edited values.
+ */
+export async function deriveMilestoneProgress(
+  databases: Databases,
+  milestone: ProgramMilestone,
+  { scope, now = new Date() }: { scope?: SprintScope; now?: Date } = {}
+): Promise<ProgramMilestone> {
+  if (!hasMilestoneLinks(milestone)) return milestone;
+
+  const summary = scope ?? (await summarizeMilestoneScope(databases, milestone));
+  const progress = computeMilestoneProgress(summary);
+  const status = deriveMilestoneStatus({
+    current: milestone.status,
+    scope: summary,
+    targetDate: milestone.targetDate,
+    now,
+  });
+
+  if (progress === milestone.progress && status === milestone.status) {
+    return milestone;
+  }
+  return { ...milestone, progress, status };
+}
+
+/**
+ * Recompute a linked milestone's progress and status, writing only when they change
+ */
+export async function syncMilestoneProgress(
+  databases: Databases,
+  milestone: ProgramMilestone,
+  options: { scope?: SprintScope; now?: Date } = {}
+): Promise<ProgramMilestone> {
+  const derived = await deriveMilestoneProgress(databases, milestone, options);
+  if (derived === milestone) return milestone;
+
+  const { progress, status } = derived;
+
+  return databases.updateDocument<ProgramMilestone>(
+    DATABASE_ID,
+    PROGRAM_MILESTONES_ID,
+    milestone.$id,
+    { progress, status }
+  );
+}
+
+/**
+ * Names for a milestone's links; links to deleted items or sprints are dropped
+ */
+export async function resolveMilestoneLinks(
+  databases: Databases,
+  milestone: ProgramMilestone
+): Promise<MilestoneLink[]> {
+  const itemIds = [...(milestone.epicIds ?? []), ...(milestone.workItemIds ?? [])];
+  const sprintIds = milestone.sprintIds ?? [];
+
+  const [items, sprints] = await Promise.all([
+    itemIds.length > 0
+      ? databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+          Query.equal("$id", itemIds.slice(0, MAX_QUERY_VALUES)),
+          Query.limit(MAX_QUERY_VALUES),
+        ])
+      : null,
+    sprintIds.length > 0
+      ? databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+          Query.equal("$id", sprintIds.slice(0, MAX_QUERY_VALUES)),
+          Query.limit(MAX_QUERY_VALUES),
+        ])
+      : null,
+  ]);
+
+  const itemsById = new Map((items?.documents ?? []).map((item) => [item.$id, item]));
+  const sprintsById = new Map((sprints?.documents ?? []).map((sprint) => [sprint.$id, sprint]));
+
+  const toItemLink = (type: MilestoneLinkType) => (id: string): MilestoneLink | null => {
+    const item = itemsById.get(id);
+    return item ? { type, id, name: item.title, key: item.key, projectId: item.projectId } : null;
+  };
+
+  return [
+    ...(milestone.epicIds ?? []).map(toItemLink(MilestoneLinkType.EPIC)),
+    ...(milestone.workItemIds ?? []).map(toItemLink(MilestoneLinkType.WORK_ITEM)),
+    ...sprintIds.map((id): MilestoneLink | null => {
+      const sprint = sprintsById.get(id);
+      return sprint
+        ? { type: MilestoneLinkType.SPRINT, id, name: sprint.name, projectId: sprint.projectId }
+        : null;
+    }),
+  ].filter((link): link is MilestoneLink => link !== null);
+}
+
+/**
+ * Epics and unfinished sprints in the program's projects that the milestone does not link yet
+ */
+export async function listAvailableMilestoneLinks(
+  databases: Databases,
+  milestone: ProgramMilestone
+): Promise<MilestoneLink[]> {
+  const projects = await databases.listDocuments<Project>(DATABASE_ID, PROJECTS_ID, [
+    Query.equal("programId", milestone.programId),
+    Query.limit(100),
+  ]);
+  const projectIds = projects.documents.map((project) => project.$id);
+
+  if (projectIds.length === 0) return [];
+
+  const [epics, sprints] = await Promise.all([
+    listWorkItems(databases, [
+      Query.equal("projectId", projectIds),
+      Query.equal("type", WorkItemType.EPIC),
+    ]),
+    databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+      Query.equal("projectId", projectIds),
+      Query.notEqual("status", SprintStatus.COMPLETED),
+      Query.limit(500),
+    ]),
+  ]);
+
+  const linkedEpics = new Set(milestone.epicIds ?? []);
+  const linkedSprints = new Set(milestone.sprintIds ?? []);
+
+  return [
+    ...epics
+      .filter((epic) => !linkedEpics.has(epic.$id))
+      .map((epic) => ({
+        type: MilestoneLinkType.EPIC,
+        id: epic.$id,
+        name: epic.title,
+        key: epic.key,
+        projectId: epic.projectId,
+      })),
+    ...sprints.documents
+      .filter((sprint) => !linkedSprints.has(sprint.$id))
+      .map((sprint) => ({
+        type: MilestoneLinkType.SPRINT,
+        id: sprint.$id,
+        name: sprint.name,
+        projectId: sprint.projectId,
+      })),
+  ];
+}
+
+export interface MilestoneSyncRunResult {
+  milestonesProcessed: number;
+  milestonesUpdated: number;
+  errors: number;
+}
+
+/**
+ * Re-derive every linked milestone whose target date has passed (daily cron),
+ * so milestones become DELAYED without anyone opening the roadmap
+ */
+export async function syncDueMilestones(
+  now: Date = new Date()
+): Promise<MilestoneSyncRunResult> {
+  const { databases } = await createAdminClient();
+  const result: MilestoneSyncRunResult = { milestonesProcessed: 0, milestonesUpdated: 0, errors: 0 };
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await databases.listDocuments<ProgramMilestone>(
+      DATABASE_ID,
+      PROGRAM_MILESTONES_ID,
+      [
+        Query.lessThan("targetDate", now.toISOString()),
+        Query.notEqual("status", MilestoneStatus.COMPLETED),
+        Query.notEqual("status", MilestoneStatus.DELAYED),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const milestone of page.documents) {
+      if (!hasMilestoneLinks(milestone)) continue;
+      result.milestonesProcessed++;
+
+      try {
+        const updated = await syncMilestoneProgress(databases, milestone, { now });
+        if (updated !== milestone) result.milestonesUpdated++;
+      } catch (error) {
+        result.errors++;
+        console.error(`[MilestoneProgress] Failed for milestone ${milestone.$id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return result;
+}
@@ -3,18 +3,37 @@ import { ID, Query } from "node-appwrite";
 import { zValidator } from "@hono/zod-validator";
 
 import { sessionMiddleware } from "@/lib/session-middleware";
-import { DATABASE_ID, PROGRAMS_ID, PROGRAM_MEMBERS_ID, PROGRAM_MILESTONES_ID } from "@/config";
+import {
+  DATABASE_ID,
+  PROGRAMS_ID,
+  PROGRAM_MEMBERS_ID,
+  PROGRAM_MILESTONES_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  WORK_ITEMS_ID,
+} from "@/config";
 
 import { getMember } from "@/features/members/utils";
 import { MemberRole } from "@/features/members/types";
+import { Project } from "@/features/projects/types";
+import { Sprint, WorkItem, WorkItemType } from "@/features/sprints/types";
 import { 
   Program, 
   ProgramMember, 
   ProgramMemberRole,
   ProgramMilestone,
+  MilestoneLinkType,
   MilestoneStatus 
 } from "../types";
 import { programSchemas } from "../schemas";
+import { MILESTONE_LINK_FIELDS } from "../milestone-progress";
+import {
+  deriveMilestoneProgress,
+  listAvailableMilestoneLinks,
+  resolveMilestoneLinks,
+  summarizeMilestoneScope,
+  syncMilestoneProgress,
+} from "./milestone-progress";
 
 /**
  * Check if user can manage program milestones
@@ -153,9 +172,17 @@ const app = new Hono()
         ]
       );
 
+      // Linked milestones follow their work. Reads only derive it: saving is
+      // left to mutations and the daily cron, and a failure keeps the stored values
+      const documents = await Promise.all(
+        milestones.documents.map((milestone) =>
+          deriveMilestoneProgress(databases, milestone).catch(() => milestone)
+        )
+      );
+
       return c.json({ 
         data: { 
-          documents: milestones.documents, 
+          documents, 
           total: milestones.total 
         } 
       });
@@ -220,12 +247,15 @@ const app = new Hono()
           targetDate: data.targetDate || null,
           status: data.status || MilestoneStatus.NOT_STARTED,
           progress: 0,
+          epicIds: data.epicIds ?? [],
           createdBy: user.$id,
           position: nextPosition,
         }
       );
 
-      return c.json({ data: milestone }, 201);
+      const synced = await syncMilestoneProgress(databases, milestone).catch(() => milestone);
+
+      return c.json({ data: synced }, 201);
     }
   )
 
@@ -262,7 +292,9 @@ const app = new Hono()
           return c.json({ error: "Milestone not found in this program" }, 404);
         }
 
-        return c.json({ data: milestone });
+        const derived = await deriveMilestoneProgress(databases, milestone).catch(() => milestone);
+
+        return c.json({ data: derived });
       } catch {
         return c.json({ error: "Milestone not found" }, 404);
       }
@@ -326,6 +358,7 @@ const app = new Hono()
         if (updates.status !== undefined) updatePayload.status = updates.status;
         if (updates.progress !== undefined) updatePayload.progress = updates.progress;
         if (updates.position !== undefined) updatePayload.position = updates.position;
+        if (updates.epicIds !== undefined) updatePayload.epicIds = updates.epicIds;
 
         // Auto-set progress to 100 if status is COMPLETED
         if (updates.status === MilestoneStatus.COMPLETED && updates.progress === undefined) {
@@ -339,10 +372,242 @@ const app = new Hono()
           updatePayload
         );
 
-        return c.json({ data: updatedMilestone });
+        // Linked scope overrides hand-edited progress and status
+        const synced = await syncMilestoneProgress(databases, updatedMilestone).catch(() => updatedMilestone);
+
+        return c.json({ data: synced });
+      } catch {
+        return c.json({ error: "Milestone not found" }, 404);
+      }
+    }
+  )
+
+  // ========================================
+  // GET /api/programs/:programId/milestones/:milestoneId/links - Linked scope
+  // ========================================
+  .get(
+    "/:milestoneId/links",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const programId = c.req.param("programId") as string;
+      const milestoneId = c.req.param("milestoneId") as string;
+
+      if (!programId || !milestoneId) {
+        return c.json({ error: "Program ID and Milestone ID are required" }, 400);
+      }
+
+      // Verify user has access to this program
+      const hasAccess = await isProgramMember(databases, programId, user.$id);
+      if (!hasAccess) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      let milestone: ProgramMilestone;
+      try {
+        milestone = await databases.getDocument<ProgramMilestone>(
+          DATABASE_ID,
+          PROGRAM_MILESTONES_ID,
+          milestoneId
+        );
       } catch {
         return c.json({ error: "Milestone not found" }, 404);
       }
+
+      if (milestone.programId !== programId) {
+        return c.json({ error: "Milestone not found in this program" }, 404);
+      }
+
+      const [links, scope, available] = await Promise.all([
+        resolveMilestoneLinks(databases, milestone),
+        summarizeMilestoneScope(databases, milestone),
+        listAvailableMilestoneLinks(databases, milestone),
+      ]);
+
+      return c.json({ data: { links, scope, available } });
+    }
+  )
+
+  // ========================================
+  // POST /api/programs/:programId/milestones/:milestoneId/links - Link an epic, work item or sprint
+  // ========================================
+  .post(
+    "/:milestoneId/links",
+    sessionMiddleware,
+    zValidator("json", programSchemas.linkMilestone),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const programId = c.req.param("programId") as string;
+      const milestoneId = c.req.param("milestoneId") as string;
+      const { type, id } = c.req.valid("json");
+
+      if (!programId || !milestoneId) {
+        return c.json({ error: "Program ID and Milestone ID are required" }, 400);
+      }
+
+      // Verify user can manage milestones
+      const { allowed } = await canManageMilestones(
+        databases,
+        programId,
+        user.$id
+      );
+
+      if (!allowed) {
+        return c.json(
+          { error: "Unauthorized. Only program leads/admins or workspace admins can link work to milestones." },
+          403
+        );
+      }
+
+      let milestone: ProgramMilestone;
+      try {
+        milestone = await databases.getDocument<ProgramMilestone>(
+          DATABASE_ID,
+          PROGRAM_MILESTONES_ID,
+          milestoneId
+        );
+      } catch {
+        return c.json({ error: "Milestone not found" }, 404);
+      }
+
+      if (milestone.programId !== programId) {
+        return c.json({ error: "Milestone not found in this program" }, 404);
+      }
+
+      // Resolve the target and the project it belongs to
+      let targetId: string;
+      let projectId: string;
+
+      if (type === MilestoneLinkType.SPRINT) {
+        const sprint = await databases.getDocument<Sprint>(DATABASE_ID, SPRINTS_ID, id).catch(() => null);
+        if (!sprint) {
+          return c.json({ error: "Sprint not found" }, 404);
+        }
+        targetId = sprint.$id;
+        projectId = sprint.projectId;
+      } else {
+        // Keys repeat across workspaces, so only look among the program's projects
+        const programProjects = await databases.listDocuments<Project>(
+          DATABASE_ID,
+          PROJECTS_ID,
+          [Query.equal("programId", programId), Query.limit(100)]
+        );
+        const programProjectIds = programProjects.documents.map((project) => project.$id);
+        const byKey = programProjectIds.length > 0
+          ? await databases.listDocuments<WorkItem>(
+              DATABASE_ID,
+              WORK_ITEMS_ID,
+              [
+                Query.equal("projectId", programProjectIds),
+                Query.equal("key", id.toUpperCase()),
+                Query.limit(1),
+              ]
+            )
+          : null;
+        const item = byKey?.documents[0]
+          ?? await databases.getDocument<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, id).catch(() => null);
+
+        if (!item) {
+          return c.json({ error: "Work item not found" }, 404);
+        }
+        if (type === MilestoneLinkType.EPIC && item.type !== WorkItemType.EPIC) {
+          return c.json({ error: `${item.key} is not an epic` }, 400);
+        }
+        targetId = item.$id;
+        projectId = item.projectId;
+      }
+
+      const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId).catch(() => null);
+      if (!project || project.programId !== programId) {
+        return c.json({ error: "Only work from projects linked to this program can be added" }, 400);
+      }
+
+      const field = MILESTONE_LINK_FIELDS[type];
+      const current = milestone[field] ?? [];
+
+      if (current.includes(targetId)) {
+        return c.json({ data: milestone });
+      }
+      if (current.length >= 100) {
+        return c.json({ error: "A milestone can link at most 100 of each kind" }, 400);
+      }
+
+      const updated = await databases.updateDocument<ProgramMilestone>(
+        DATABASE_ID,
+        PROGRAM_MILESTONES_ID,
+        milestoneId,
+        { [field]: [...current, targetId] }
+      );
+
+      const synced = await syncMilestoneProgress(databases, updated).catch(() => updated);
+
+      return c.json({ data: synced }, 201);
+    }
+  )
+
+  // ========================================
+  // DELETE /api/programs/:programId/milestones/:milestoneId/links/:type/:linkId - Unlink
+  // ========================================
+  .delete(
+    "/:milestoneId/links/:type/:linkId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const programId = c.req.param("programId") as string;
+      const { milestoneId, type, linkId } = c.req.param();
+
+      if (!programId || !milestoneId) {
+        return c.json({ error: "Program ID and Milestone ID are required" }, 400);
+      }
+
+      if (!Object.values(MilestoneLinkType).includes(type as MilestoneLinkType)) {
+        return c.json({ error: "Invalid link type" }, 400);
+      }
+
+      // Verify user can manage milestones
+      const { allowed } = await canManageMilestones(
+        databases,
+        programId,
+        user.$id
+      );
+
+      if (!allowed) {
+        return c.json(
+          { error: "Unauthorized. Only program leads/admins or workspace admins can unlink work from milestones." },
+          403
+        );
+      }
+
+      let milestone: ProgramMilestone;
+      try {
+        milestone = await databases.getDocument<ProgramMilestone>(
+          DATABASE_ID,
+          PROGRAM_MILESTONES_ID,
+          milestoneId
+        );
+      } catch {
+        return c.json({ error: "Milestone not found" }, 404);
+      }
+
+      if (milestone.programId !== programId) {
+        return c.json({ error: "Milestone not found in this program" }, 404);
+      }
+
+      const field = MILESTONE_LINK_FIELDS[type as MilestoneLinkType];
+
+      const updated = await databases.updateDocument<ProgramMilestone>(
+        DATABASE_ID,
+        PROGRAM_MILESTONES_ID,
+        milestoneId,
+        { [field]: (milestone[field] ?? []).filter((linkedId) => linkedId !== linkId) }
+      );
+
+      const synced = await syncMilestoneProgress(databases, updated).catch(() => updated);
+
+      return c.json({ data: synced });
     }
   )
 
@@ -1,5 +1,8 @@
 import { Models } from "node-appwrite";
 
+import type { DeliveryForecast } from "@/features/projects/forecast";
+import type { SprintScope } from "@/features/sprints/types";
+
 // Program Status
 export enum ProgramStatus {
   PLANNING = "PLANNING",
@@ -33,6 +36,13 @@ export enum MilestoneStatus {
   DELAYED = "DELAYED",
 }
 
+// What a milestone's scope can be built from
+export enum MilestoneLinkType {
+  EPIC = "EPIC",
+  WORK_ITEM = "WORK_ITEM",
+  SPRINT = "SPRINT",
+}
+
 // Base Program type (from Appwrite)
 export type Program = Models.Document & {
   name: string;
@@ -81,6 +91,10 @@ export type ProgramMilestone = Models.Document & {
   targetDate?: string | null;
   status: MilestoneStatus;
   progress: number;
+  // Linked scope - when any is set, progress and status are derived from it
+  epicIds?: string[];
+  workItemIds?: string[];
+  sprintIds?: string[];
   createdBy: string;
   position: number;
 };
@@ -150,6 +164,38 @@ export type ProgramAnalytics = {
   velocityTrend?: Array<{ week: string; points: number }>;
 };
 
+// A resolved milestone link
+export type MilestoneLink = {
+  type: MilestoneLinkType;
+  id: string;
+  name: string;
+  key?: string;
+  projectId?: string;
+};
+
+// Resolved links and the scope they add up to
+export type MilestoneScopeSummary = {
+  links: MilestoneLink[];
+  scope: SprintScope;
+  // Epics and active/planned sprints in linked projects that can still be linked
+  available: MilestoneLink[];
+};
+
+// Monte Carlo forecast for a milestone's linked epics (null without epics or once completed)
+export type MilestoneForecast = {
+  milestoneId: string;
+  forecast: DeliveryForecast | null;
+  atRisk: boolean;
+};
+
+// Delivery forecasts for a program and its milestones
+export type ProgramForecast = {
+  program: DeliveryForecast;
+  milestones: MilestoneForecast[];
+  // Epics in linked projects, for scoping milestones
+  epics: Array<{ $id: string; key: string; title: string; projectId: string }>;
+};
+
 // Create/Update Program DTOs
 export type CreateProgramData = {
   name: string;
@@ -189,6 +235,7 @@ export type CreateMilestoneData = {
   description?: string;
   targetDate?: string;
   status?: MilestoneStatus;
+  epicIds?: string[];
 };
 
 export type UpdateMilestoneData = {
@@ -198,6 +245,7 @@ export type UpdateMilestoneData = {
   status?: MilestoneStatus;
   progress?: number;
   position?: number;
+  epicIds?: string[];
 };
 
 // Program filter/query options
@@ -24,6 +24,10 @@ import { projectDocsAI } from "../lib/project-docs-ai";
 import { ProjectDocument } from "../types";
 import { WorkItem, WorkItemStatus, WorkItemPriority, WorkItemType } from "@/features/sprints/types";
 import { Project } from "@/features/projects/types";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
+import { createdChange, diffWorkItemFields } from "@/features/tasks/change-log";
+import { recordWorkItemChange } from "@/features/tasks/server/change-log";
+import { WorkItemChangeSource } from "@/features/tasks/types";
 import {
   ProjectAIContext,
   DocumentContext,
@@ -975,6 +979,14 @@ IMPORTANT:
               }
             );
 
+            recordWorkItemChange(databases, {
+              item: { $id: workItem.$id, projectId, workspaceId },
+              changes: [createdChange(workItem)],
+              changedBy: user.$id,
+              source: WorkItemChangeSource.AI,
+            }).catch(() => { });
+            syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+
             return c.json({
               success: true,
               action: {
@@ -1292,6 +1304,14 @@ IMPORTANT:
               updatePayload
             );
 
+            recordWorkItemChange(databases, {
+              item: existingTask,
+              changes: diffWorkItemFields(existingTask, updatedWorkItem),
+              changedBy: user.$id,
+              source: WorkItemChangeSource.AI,
+            }).catch(() => { });
+            syncWorkItemSearchIndex(updatedWorkItem.$id).catch(() => { });
+
             const changedFields = Object.keys(updateData).join(", ");
 
             return c.json({
@@ -1477,6 +1497,14 @@ IMPORTANT:
             updatePayload
           );
 
+          recordWorkItemChange(databases, {
+            item: existingWorkItem,
+            changes: diffWorkItemFields(existingWorkItem, updatedWorkItem),
+            changedBy: user.$id,
+            source: WorkItemChangeSource.AI,
+          }).catch(() => { });
+          syncWorkItemSearchIndex(updatedWorkItem.$id).catch(() => { });
+
           return c.json({
             success: true,
             action: {
@@ -1545,6 +1573,14 @@ IMPORTANT:
           }
         );
 
+        recordWorkItemChange(databases, {
+          item: { $id: workItem.$id, projectId, workspaceId },
+          changes: [createdChange(workItem)],
+          changedBy: user.$id,
+          source: WorkItemChangeSource.AI,
+        }).catch(() => { });
+        syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+
         return c.json({
           success: true,
           action: {
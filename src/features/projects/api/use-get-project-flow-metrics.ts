@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetProjectFlowMetricsProps {
+  projectId: string;
+  startDate?: string;
+  endDate?: string;
+  type?: string;
+  label?: string;
+  epicId?: string;
+  enabled?: boolean;
+}
+
+export type ProjectFlowMetricsResponseType = InferResponseType<
+  (typeof client.api.projects)[":projectId"]["analytics"]["flow"]["$get"],
+  200
+>;
+
+export const useGetProjectFlowMetrics = ({
+  projectId,
+  startDate,
+  endDate,
+  type,
+  label,
+  epicId,
+  enabled = true,
+}: UseGetProjectFlowMetricsProps) => {
+  const query = useQuery({
+    queryKey: ["project-flow-metrics", projectId, startDate, endDate, type, label, epicId],
+    enabled: enabled && Boolean(projectId),
+    queryFn: async () => {
+      const response = await client.api.projects[":projectId"]["analytics"]["flow"].$get({
+        param: { projectId },
+        query: {
+          startDate,
+          endDate,
+          type: type || undefined,
+          label: label || undefined,
+          epicId: epicId || undefined,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch flow metrics.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -10,6 +10,7 @@ import { useRouter } from "next/navigation";
 
 import { useWorkspaceId } from "@/features/workspaces/hooks/use-workspace-id";
 import { useGetSpaces } from "@/features/spaces/api/use-get-spaces";
+import { useGetProjectTemplates } from "@/features/templates/api/use-get-project-templates";
 
 import { cn } from "@/lib/utils";
 import { DottedSeparator } from "@/components/dotted-separator";
@@ -49,6 +50,7 @@ export const CreateProjectForm = ({ onCancel, initialSpaceId }: CreateProjectFor
   const router = useRouter();
   const { mutate, isPending } = useCreateProject();
   const { data: spacesData } = useGetSpaces({ workspaceId });
+  const { data: templatesData } = useGetProjectTemplates({ workspaceId });
 
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -59,6 +61,7 @@ export const CreateProjectForm = ({ onCancel, initialSpaceId }: CreateProjectFor
       description: "",
       deadline: "",
       spaceId: initialSpaceId || null,
+      templateId: null,
     },
   });
 
@@ -69,6 +72,7 @@ export const CreateProjectForm = ({ onCancel, initialSpaceId }: CreateProjectFor
       image: values.image instanceof File ? values.image : "",
       // Use empty string instead of null/undefined to avoid type issues
       spaceId: values.spaceId || "",
+      templateId: values.templateId || "",
     };
 
     mutate(
@@ -90,6 +94,7 @@ export const CreateProjectForm = ({ onCancel, initialSpaceId }: CreateProjectFor
   };
 
   const spaces = spacesData?.documents || [];
+  const templates = templatesData?.documents || [];
 
   return (
     <Card className="w-full h-full border-none shadow-none">
@@ -156,6 +161,39 @@ export const CreateProjectForm = ({ onCancel, initialSpaceId }: CreateProjectFor
                   </FormItem>
                 )}
               />
+              {templates.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="templateId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Template (Optional)</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                        value={field.value || "none"}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a template" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Blank project</SelectItem>
+                          {templates.map((template) => (
+                            <SelectItem key={template.$id} value={template.$id}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Start with a template&apos;s workflow, work types, fields, views and epics
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               <FormField
                 control={form.control}
                 name="description"
@@ -0,0 +1,344 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { startOfDay, subDays } from "date-fns";
+import { Activity, LoaderIcon } from "lucide-react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { snakeCaseToTitleCase } from "@/lib/utils";
+import { useGetEpics } from "@/features/sprints/api/use-get-epics";
+import { WorkItemType } from "@/features/sprints/types";
+
+import { useGetProject } from "../api/use-get-project";
+import { useGetProjectFlowMetrics } from "../api/use-get-project-flow-metrics";
+import { DurationBucket, DurationSummary } from "../flow-metrics";
+
+interface ProjectFlowMetricsProps {
+  projectId: string;
+  workspaceId: string;
+}
+
+const ALL = "all";
+
+const RANGE_OPTIONS = [
+  { value: "14", label: "Last 14 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "180", label: "Last 180 days" },
+];
+
+const STATUS_PALETTE = [
+  "#94a3b8",
+  "#3b82f6",
+  "#8b5cf6",
+  "#f59e0b",
+  "#ec4899",
+  "#14b8a6",
+  "#f97316",
+  "#10b981",
+];
+
+const PERCENTILE_COLORS = {
+  p50: "#10b981",
+  p85: "#f59e0b",
+  p95: "#ef4444",
+} as const;
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+  fontSize: "12px",
+  color: "hsl(var(--foreground))",
+};
+
+const axisTick = { fontSize: 11, fill: "hsl(var(--muted-foreground))" };
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="h-[260px] flex flex-col items-center justify-center text-sm text-muted-foreground">
+    <Activity className="size-8 mb-2 opacity-40" />
+    <p>{message}</p>
+  </div>
+);
+
+const bucketLabelFor = (histogram: DurationBucket[], value: number | null) =>
+  value === null
+    ? undefined
+    : histogram.find((bucket) => value >= bucket.min && value < bucket.max)?.label ??
+      histogram[histogram.length - 1]?.label;
+
+const DurationChart = ({
+  summary,
+  histogram,
+  emptyMessage,
+}: {
+  summary: DurationSummary;
+  histogram: DurationBucket[];
+  emptyMessage: string;
+}) => {
+  if (summary.count === 0) {
+    return <EmptyChart message={emptyMessage} />;
+  }
+
+  return (
+    <>
+      <p className="text-xs text-muted-foreground mb-2">
+        {summary.count} items · average{" "}
+        <span className="font-medium text-foreground">{summary.average}d</span> ·{" "}
+        {(["p50", "p85", "p95"] as const).map((key) => (
+          <span key={key} className="mr-2">
+            {key.toUpperCase()}{" "}
+            <span className="font-medium" style={{ color: PERCENTILE_COLORS[key] }}>
+              {summary[key]}d
+            </span>
+          </span>
+        ))}
+      </p>
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={histogram} margin={{ top: 16, right: 10, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+          <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} />
+          <YAxis tick={axisTick} axisLine={false} tickLine={false} allowDecimals={false} />
+          <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => [`${value} items`, "Completed"]} />
+          <Bar dataKey="count" fill="#3b82f6" radius={[4, 4, 0, 0]} maxBarSize={40} />
+          {(["p50", "p85", "p95"] as const).map((key) => {
+            const x = bucketLabelFor(histogram, summary[key]);
+            return x ? (
+              <ReferenceLine
+                key={key}
+                x={x}
+                stroke={PERCENTILE_COLORS[key]}
+                strokeDasharray="4 4"
+                label={{ value: key.toUpperCase(), position: "top", fontSize: 10, fill: PERCENTILE_COLORS[key] }}
+              />
+            ) : null;
+          })}
+        </BarChart>
+      </ResponsiveContainer>
+    </>
+  );
+};
+
+/**
+ * Cumulative flow, cycle / lead time and throughput for one project
+ */
+export const ProjectFlowMetrics = ({ projectId, workspaceId }: ProjectFlowMetricsProps) => {
+  const [range, setRange] = useState("30");
+  const [type, setType] = useState(ALL);
+  const [label, setLabel] = useState(ALL);
+  const [epicId, setEpicId] = useState(ALL);
+
+  const { data: project } = useGetProject({ projectId });
+  const { data: epics } = useGetEpics({ workspaceId, projectId });
+
+  const startDate = useMemo(
+    () => startOfDay(subDays(new Date(), Number(range) - 1)).toISOString(),
+    [range]
+  );
+
+  const { data: metrics, isLoading } = useGetProjectFlowMetrics({
+    projectId,
+    startDate,
+    type: type === ALL ? undefined : type,
+    label: label === ALL ? undefined : label,
+    epicId: epicId === ALL ? undefined : epicId,
+  });
+
+  const typeOptions = useMemo(() => {
+    const options: { key: string; label: string }[] = Object.values(WorkItemType).map((key) => ({
+      key,
+      label: snakeCaseToTitleCase(key),
+    }));
+    for (const custom of project?.customWorkItemTypes ?? []) {
+      if (!options.some((option) => option.key === custom.key)) {
+        options.push({ key: custom.key, label: custom.label });
+      }
+    }
+    return options;
+  }, [project?.customWorkItemTypes]);
+
+  // Bottom band is the last column, so done work sits underneath
+  const bands = useMemo(() => [...(metrics?.statuses ?? [])].reverse(), [metrics?.statuses]);
+
+  const flowData = useMemo(
+    () => (metrics?.cumulativeFlow ?? []).map((point) => ({ date: point.date, ...point.counts })),
+    [metrics?.cumulativeFlow]
+  );
+
+  const hasFlow = flowData.length > 0 && bands.length > 0;
+  const hasThroughput = (metrics?.throughput ?? []).some((point) => point.count > 0);
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-2 flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between space-y-0">
+        <CardTitle className="text-sm font-medium">Flow Metrics</CardTitle>
+        <div className="flex flex-wrap gap-2">
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="h-8 w-[140px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="h-8 w-[130px] text-xs">
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {typeOptions.map((option) => (
+                <SelectItem key={option.key} value={option.key}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={label} onValueChange={setLabel}>
+            <SelectTrigger className="h-8 w-[130px] text-xs">
+              <SelectValue placeholder="Label" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All labels</SelectItem>
+              {(project?.customLabels ?? []).map((option) => (
+                <SelectItem key={option.name} value={option.name}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={epicId} onValueChange={setEpicId}>
+            <SelectTrigger className="h-8 w-[150px] text-xs">
+              <SelectValue placeholder="Epic" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All epics</SelectItem>
+              {(epics?.documents ?? []).map((epic) => (
+                <SelectItem key={epic.$id} value={epic.$id}>
+                  {epic.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !metrics ? (
+          <div className="h-[300px] flex items-center justify-center">
+            <LoaderIcon className="size-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="cfd">
+            <TabsList>
+              <TabsTrigger value="cfd">Cumulative flow</TabsTrigger>
+              <TabsTrigger value="cycle">Cycle time</TabsTrigger>
+              <TabsTrigger value="lead">Lead time</TabsTrigger>
+              <TabsTrigger value="throughput">Throughput</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="cfd">
+              {!hasFlow ? (
+                <EmptyChart message="No work items in this range" />
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <AreaChart data={flowData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tick={axisTick} axisLine={false} tickLine={false} />
+                    <YAxis tick={axisTick} axisLine={false} tickLine={false} allowDecimals={false} />
+                    <Tooltip contentStyle={tooltipStyle} labelFormatter={(value) => formatDay(String(value))} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {bands.map((status, index) => {
+                      const color = STATUS_PALETTE[(bands.length - 1 - index) % STATUS_PALETTE.length];
+                      return (
+                        <Area
+                          key={status.key}
+                          type="monotone"
+                          dataKey={status.key}
+                          name={status.name}
+                          stackId="flow"
+                          stroke={color}
+                          fill={color}
+                          fillOpacity={0.6}
+                        />
+                      );
+                    })}
+                  </AreaChart>
+                </ResponsiveContainer>
+              )}
+            </TabsContent>
+
+            <TabsContent value="cycle">
+              <DurationChart
+                summary={metrics.cycleTime.summary}
+                histogram={metrics.cycleTime.histogram}
+                emptyMessage="No items were completed in this range"
+              />
+            </TabsContent>
+
+            <TabsContent value="lead">
+              <DurationChart
+                summary={metrics.leadTime.summary}
+                histogram={metrics.leadTime.histogram}
+                emptyMessage="No items were completed in this range"
+              />
+            </TabsContent>
+
+            <TabsContent value="throughput">
+              {!hasThroughput ? (
+                <EmptyChart message="No items were completed in this range" />
+              ) : (
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={metrics.throughput} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                    <XAxis
+                      dataKey="weekStart"
+                      tickFormatter={formatDay}
+                      tick={axisTick}
+                      axisLine={false}
+                      tickLine={false}
+                    />
+                    <YAxis tick={axisTick} axisLine={false} tickLine={false} allowDecimals={false} />
+                    <Tooltip
+                      contentStyle={tooltipStyle}
+                      labelFormatter={(value) => `Week of ${formatDay(String(value))}`}
+                      formatter={(value: number) => [`${value} items`, "Completed"]}
+                    />
+                    <Bar dataKey="count" fill="#10b981" radius={[6, 6, 0, 0]} maxBarSize={48} />
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
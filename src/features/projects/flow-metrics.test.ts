@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import { StatusType } from "@/features/workflows/types";
+
+import {
+  buildDurationHistogram,
+  buildStatusTimelines,
+  buildWeeklyThroughput,
+  computeFlowMetrics,
+  createStatusTypeResolver,
+  percentile,
+  summarizeDurations,
+} from "./flow-metrics";
+
+const statuses = [
+  { key: "TODO", name: "To Do", statusType: StatusType.OPEN },
+  { key: "DOING", name: "Doing", statusType: StatusType.IN_PROGRESS },
+  { key: "SHIPPED", name: "Shipped", statusType: StatusType.CLOSED },
+];
+
+describe("createStatusTypeResolver", () => {
+  it("uses workflow types and falls back to legacy keys", () => {
+    const typeOf = createStatusTypeResolver(statuses);
+
+    expect(typeOf("DOING")).toBe(StatusType.IN_PROGRESS);
+    expect(typeOf("SHIPPED")).toBe(StatusType.CLOSED);
+    expect(typeOf("IN_REVIEW")).toBe(StatusType.IN_PROGRESS);
+    expect(typeOf("DONE")).toBe(StatusType.CLOSED);
+    expect(typeOf("BACKLOG")).toBe(StatusType.OPEN);
+  });
+});
+
+describe("buildStatusTimelines", () => {
+  it("starts from the first change's previous status", () => {
+    const timelines = buildStatusTimelines(
+      [{ $id: "a", $createdAt: "2026-03-01T09:00:00Z", status: "SHIPPED" }],
+      [
+        { workItemId: "a", fromStatus: "DOING", toStatus: "SHIPPED", changedAt: "2026-03-05T09:00:00Z" },
+        { workItemId: "a", fromStatus: "TODO", toStatus: "DOING", changedAt: "2026-03-02T09:00:00Z" },
+      ]
+    );
+
+    expect(timelines.get("a")?.map((entry) => entry.status)).toEqual(["TODO", "DOING", "SHIPPED"]);
+  });
+
+  it("keeps items without history in their current status", () => {
+    const timelines = buildStatusTimelines(
+      [{ $id: "a", $createdAt: "2026-03-01T09:00:00Z", status: "DOING" }],
+      []
+    );
+
+    expect(timelines.get("a")).toEqual([{ at: Date.parse("2026-03-01T09:00:00Z"), status: "DOING" }]);
+  });
+});
+
+describe("percentile", () => {
+  it("uses nearest rank", () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 85)).toBe(9);
+    expect(percentile(sorted, 95)).toBe(10);
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  it("summarizes unsorted durations", () => {
+    expect(summarizeDurations([4, 1, 2.25])).toEqual({
+      count: 3,
+      average: 2.4,
+      p50: 2.3,
+      p85: 4,
+      p95: 4,
+    });
+  });
+});
+
+describe("buildDurationHistogram", () => {
+  it("uses one-day buckets for short durations", () => {
+    expect(buildDurationHistogram([0.5, 1.2, 1.9, 3]).map((b) => [b.label, b.count])).toEqual([
+      ["0d", 1],
+      ["1d", 2],
+      ["2d", 0],
+      ["3d", 1],
+    ]);
+  });
+
+  it("widens buckets for long durations", () => {
+    const buckets = buildDurationHistogram([0, 45, 99]);
+
+    expect(buckets).toHaveLength(20);
+    expect(buckets[0].label).toBe("0-4d");
+    expect(buckets[19].count).toBe(1);
+  });
+});
+
+describe("buildWeeklyThroughput", () => {
+  it("counts completions per Monday-based week, including empty weeks", () => {
+    expect(
+      buildWeeklyThroughput(
+        [Date.parse("2026-03-03T10:00:00Z"), Date.parse("2026-03-08T23:00:00Z"), Date.parse("2026-03-17T10:00:00Z")],
+        new Date("2026-03-02T00:00:00Z"),
+        new Date("2026-03-20T00:00:00Z")
+      )
+    ).toEqual([
+      { weekStart: "2026-03-02", count: 2 },
+      { weekStart: "2026-03-09", count: 0 },
+      { weekStart: "2026-03-16", count: 1 },
+    ]);
+  });
+});
+
+describe("computeFlowMetrics", () => {
+  const items = [
+    { $id: "a", $createdAt: "2026-03-01T09:00:00Z", status: "SHIPPED" },
+    { $id: "b", $createdAt: "2026-03-02T09:00:00Z", status: "DOING" },
+    { $id: "c", $createdAt: "2026-03-01T09:00:00Z", status: "SHIPPED" },
+  ];
+  const changes = [
+    { workItemId: "a", fromStatus: "TODO", toStatus: "DOING", changedAt: "2026-03-02T09:00:00Z" },
+    { workItemId: "a", fromStatus: "DOING", toStatus: "SHIPPED", changedAt: "2026-03-04T09:00:00Z" },
+    { workItemId: "b", fromStatus: "TODO", toStatus: "DOING", changedAt: "2026-03-03T09:00:00Z" },
+  ];
+
+  const metrics = computeFlowMetrics({
+    items,
+    changes,
+    statuses,
+    from: new Date("2026-03-01T00:00:00Z"),
+    to: new Date("2026-03-04T00:00:00Z"),
+  });
+
+  it("counts items per status at the end of each day", () => {
+    expect(metrics.cumulativeFlow.map((point) => point.counts)).toEqual([
+      { TODO: 1, DOING: 0, SHIPPED: 1 },
+      { TODO: 1, DOING: 1, SHIPPED: 1 },
+      { TODO: 0, DOING: 2, SHIPPED: 1 },
+      { TODO: 0, DOING: 1, SHIPPED: 2 },
+    ]);
+  });
+
+  it("measures cycle and lead time for recorded completions only", () => {
+    expect(metrics.cycleTime.summary).toMatchObject({ count: 1, p50: 2 });
+    expect(metrics.leadTime.summary).toMatchObject({ count: 1, p50: 3 });
+    expect(metrics.throughput).toEqual([
+      { weekStart: "2026-02-23", count: 0 },
+      { weekStart: "2026-03-02", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,387 @@
+import { StatusType } from "@/features/workflows/types";
+
+/**
+ * Flow Metrics
+ *
+ * Pure helpers behind the cumulative flow diagram, cycle / lead time
+ * distributions and throughput. Status changes are recorded by
+ * features/tasks/server/status-history.ts; everything here replays them
+ * on plain data.
+ *
+ * Cycle time runs from the first time an item left an OPEN status to the
+ * time it was last closed. Lead time runs from creation to that close.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bound on chart length, guards against bad date ranges */
+const MAX_FLOW_DAYS = 366;
+/** Histograms never get more bars than this */
+const MAX_HISTOGRAM_BUCKETS = 20;
+
+export interface FlowItem {
+  $id: string;
+  $createdAt: string;
+  status: string;
+}
+
+export interface FlowStatusChange {
+  workItemId: string;
+  fromStatus?: string | null;
+  toStatus: string;
+  changedAt: string;
+}
+
+export interface FlowStatus {
+  key: string;
+  name: string;
+  statusType: StatusType | string;
+}
+
+export interface FlowTimelineEntry {
+  at: number;
+  status: string;
+}
+
+export type CumulativeFlowPoint = {
+  date: string;
+  counts: Record<string, number>;
+};
+
+export type DurationSummary = {
+  count: number;
+  average: number | null;
+  p50: number | null;
+  p85: number | null;
+  p95: number | null;
+};
+
+export type DurationBucket = {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+};
+
+export type ThroughputPoint = {
+  weekStart: string;
+  count: number;
+};
+
+export type FlowMetrics = {
+  from: string;
+  to: string;
+  statuses: { key: string; name: string; statusType: string }[];
+  cumulativeFlow: CumulativeFlowPoint[];
+  cycleTime: { summary: DurationSummary; histogram: DurationBucket[] };
+  leadTime: { summary: DurationSummary; histogram: DurationBucket[] };
+  throughput: ThroughputPoint[];
+};
+
+const LEGACY_STATUS_TYPES: Record<string, StatusType> = {
+  IN_PROGRESS: StatusType.IN_PROGRESS,
+  IN_REVIEW: StatusType.IN_PROGRESS,
+  DONE: StatusType.CLOSED,
+  CLOSED: StatusType.CLOSED,
+};
+
+/**
+ * Resolve a status key to its type
+ *
+ * Workflow statuses use their own type. Statuses outside the workflow
+ * (legacy items) fall back to the built-in keys; anything else is OPEN.
+ */
+export function createStatusTypeResolver(
+  statuses: { key: string; statusType: StatusType | string }[]
+): (status: string) => StatusType {
+  const types = new Map(statuses.map((s) => [s.key, s.statusType as StatusType]));
+
+  return (status: string) => types.get(status) ?? LEGACY_STATUS_TYPES[status] ?? StatusType.OPEN;
+}
+
+/**
+ * UTC calendar date, "YYYY-MM-DD"
+ */
+function toDateKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(time: number): number {
+  return Date.parse(`${toDateKey(time)}T00:00:00Z`);
+}
+
+/** Monday of the UTC week containing `time` */
+function startOfUtcWeek(time: number): number {
+  const day = startOfUtcDay(time);
+  const weekday = (new Date(day).getUTCDay() + 6) % 7;
+  return day - weekday * DAY_MS;
+}
+
+/**
+ * Every item's statuses over time, starting at creation
+ *
+ * The status at creation is the first recorded change's `fromStatus`;
+ * items without recorded changes have always been in their current status.
+ */
+export function buildStatusTimelines(
+  items: FlowItem[],
+  changes: FlowStatusChange[]
+): Map<string, FlowTimelineEntry[]> {
+  const changesByItem = new Map<string, FlowStatusChange[]>();
+  for (const change of changes) {
+    const list = changesByItem.get(change.workItemId) ?? [];
+    list.push(change);
+    changesByItem.set(change.workItemId, list);
+  }
+
+  const timelines = new Map<string, FlowTimelineEntry[]>();
+
+  for (const item of items) {
+    const createdAt = Date.parse(item.$createdAt);
+    const itemChanges = (changesByItem.get(item.$id) ?? [])
+      .map((change) => ({ ...change, at: Date.parse(change.changedAt) }))
+      .sort((a, b) => a.at - b.at);
+
+    const initialStatus = itemChanges.length > 0
+      ? itemChanges[0].fromStatus || itemChanges[0].toStatus
+      : item.status;
+
+    timelines.set(item.$id, [
+      { at: createdAt, status: initialStatus },
+      ...itemChanges.map((change) => ({
+        at: Math.max(change.at, createdAt),
+        status: change.toStatus,
+      })),
+    ]);
+  }
+
+  return timelines;
+}
+
+function statusAt(timeline: FlowTimelineEntry[], time: number): string | null {
+  let status: string | null = null;
+  for (const entry of timeline) {
+    if (entry.at > time) break;
+    status = entry.status;
+  }
+  return status;
+}
+
+/**
+ * Items per status at the end of each UTC day in the range
+ */
+export function buildCumulativeFlow({
+  timelines,
+  statusKeys,
+  from,
+  to,
+}: {
+  timelines: Map<string, FlowTimelineEntry[]>;
+  statusKeys: string[];
+  from: Date;
+  to: Date;
+}): CumulativeFlowPoint[] {
+  const points: CumulativeFlowPoint[] = [];
+  const lastDay = startOfUtcDay(to.getTime());
+
+  for (
+    let day = startOfUtcDay(from.getTime());
+    day <= lastDay && points.length < MAX_FLOW_DAYS;
+    day += DAY_MS
+  ) {
+    const endOfDay = day + DAY_MS - 1;
+    const counts: Record<string, number> = Object.fromEntries(statusKeys.map((key) => [key, 0]));
+
+    for (const timeline of timelines.values()) {
+      const status = statusAt(timeline, endOfDay);
+      if (status !== null) counts[status] = (counts[status] ?? 0) + 1;
+    }
+
+    points.push({ date: toDateKey(day), counts });
+  }
+
+  return points;
+}
+
+/**
+ * When an item started and finished, if it is currently closed and the
+ * close was recorded
+ */
+export function getItemFlowTimes(
+  timeline: FlowTimelineEntry[],
+  statusTypeOf: (status: string) => StatusType
+): { createdAt: number; startedAt: number; completedAt: number } | null {
+  if (timeline.length === 0) return null;
+
+  const last = timeline[timeline.length - 1];
+  if (statusTypeOf(last.status) !== StatusType.CLOSED) return null;
+
+  // Reopened items count from their final close
+  let completedIndex = timeline.length - 1;
+  while (completedIndex > 0 && statusTypeOf(timeline[completedIndex - 1].status) === StatusType.CLOSED) {
+    completedIndex--;
+  }
+
+  // Closed before history was recorded - no reliable dates
+  if (completedIndex === 0) return null;
+
+  const started = timeline.find((entry) => statusTypeOf(entry.status) !== StatusType.OPEN);
+
+  return {
+    createdAt: timeline[0].at,
+    startedAt: started?.at ?? timeline[completedIndex].at,
+    completedAt: timeline[completedIndex].at,
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+function roundDays(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function summarizeDurations(days: number[]): DurationSummary {
+  const sorted = [...days].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  const pick = (p: number) => {
+    const value = percentile(sorted, p);
+    return value === null ? null : roundDays(value);
+  };
+
+  return {
+    count: sorted.length,
+    average: sorted.length > 0 ? roundDays(total / sorted.length) : null,
+    p50: pick(50),
+    p85: pick(85),
+    p95: pick(95),
+  };
+}
+
+/**
+ * Whole-day buckets, widened so the chart stays readable
+ */
+export function buildDurationHistogram(days: number[]): DurationBucket[] {
+  if (days.length === 0) return [];
+
+  const longest = Math.floor(Math.max(...days));
+  const width = Math.max(1, Math.ceil((longest + 1) / MAX_HISTOGRAM_BUCKETS));
+  const bucketCount = Math.floor(longest / width) + 1;
+
+  const buckets: DurationBucket[] = Array.from({ length: bucketCount }, (_, index) => {
+    const min = index * width;
+    const max = min + width;
+    return {
+      label: width === 1 ? `${min}d` : `${min}-${max - 1}d`,
+      min,
+      max,
+      count: 0,
+    };
+  });
+
+  for (const value of days) {
+    buckets[Math.min(Math.floor(value / width), bucketCount - 1)].count++;
+  }
+
+  return buckets;
+}
+
+/**
+ * Completed items per UTC week (weeks start on Monday)
+ */
+export function buildWeeklyThroughput(
+  completedAt: number[],
+  from: Date,
+  to: Date
+): ThroughputPoint[] {
+  const points: ThroughputPoint[] = [];
+  const counts = new Map<number, number>();
+
+  for (const time of completedAt) {
+    const week = startOfUtcWeek(time);
+    counts.set(week, (counts.get(week) ?? 0) + 1);
+  }
+
+  const lastWeek = startOfUtcWeek(to.getTime());
+  for (
+    let week = startOfUtcWeek(from.getTime());
+    week <= lastWeek && points.length * 7 < MAX_FLOW_DAYS;
+    week += 7 * DAY_MS
+  ) {
+    points.push({ weekStart: toDateKey(week), count: counts.get(week) ?? 0 });
+  }
+
+  return points;
+}
+
+/**
+ * All flow metrics for a set of items over a date range
+ *
+ * The cumulative flow covers every item that existed during the range;
+ * cycle time, lead time and throughput cover items closed within it.
+ */
+export function computeFlowMetrics({
+  items,
+  changes,
+  statuses,
+  from,
+  to,
+}: {
+  items: FlowItem[];
+  changes: FlowStatusChange[];
+  statuses: FlowStatus[];
+  from: Date;
+  to: Date;
+}): FlowMetrics {
+  const statusTypeOf = createStatusTypeResolver(statuses);
+  const timelines = buildStatusTimelines(items, changes);
+
+  const cumulativeFlow = buildCumulativeFlow({
+    timelines,
+    statusKeys: statuses.map((status) => status.key),
+    from,
+    to,
+  });
+
+  // Statuses found only in history (removed columns, legacy keys) still get a band
+  const statusList = statuses.map(({ key, name, statusType }) => ({ key, name, statusType: String(statusType) }));
+  const known = new Set(statusList.map((status) => status.key));
+  for (const point of cumulativeFlow) {
+    for (const key of Object.keys(point.counts)) {
+      if (!known.has(key)) {
+        known.add(key);
+        statusList.push({ key, name: key, statusType: statusTypeOf(key) });
+      }
+    }
+  }
+
+  const rangeStart = startOfUtcDay(from.getTime());
+  const rangeEnd = startOfUtcDay(to.getTime()) + DAY_MS - 1;
+  const cycleDays: number[] = [];
+  const leadDays: number[] = [];
+  const completed: number[] = [];
+
+  for (const timeline of timelines.values()) {
+    const times = getItemFlowTimes(timeline, statusTypeOf);
+    if (!times || times.completedAt < rangeStart || times.completedAt > rangeEnd) continue;
+
+    completed.push(times.completedAt);
+    cycleDays.push((times.completedAt - times.startedAt) / DAY_MS);
+    leadDays.push((times.completedAt - times.createdAt) / DAY_MS);
+  }
+
+  return {
+    from: toDateKey(rangeStart),
+    to: toDateKey(rangeEnd),
+    statuses: statusList,
+    cumulativeFlow,
+    cycleTime: { summary: summarizeDurations(cycleDays), histogram: buildDurationHistogram(cycleDays) },
+    leadTime: { summary: summarizeDurations(leadDays), histogram: buildDurationHistogram(leadDays) },
+    throughput: buildWeeklyThroughput(completed, from, to),
+  };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildDailyThroughput,
+  forecastDelivery,
+  isTargetAtRisk,
+  simulateCompletionDays,
+} from "./forecast";
+
+const today = new Date("2026-03-10T15:00:00Z");
+
+/** Deterministic sequence cycling through the given values */
+const sequence = (values: number[]) => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+describe("buildDailyThroughput", () => {
+  it("counts completions per day before today", () => {
+    expect(
+      buildDailyThroughput(
+        [
+          Date.parse("2026-03-07T10:00:00Z"),
+          Date.parse("2026-03-09T01:00:00Z"),
+          Date.parse("2026-03-09T23:00:00Z"),
+          Date.parse("2026-03-10T09:00:00Z"),
+          Date.parse("2026-02-01T09:00:00Z"),
+        ],
+        { today, days: 3 }
+      )
+    ).toEqual([1, 0, 2]);
+  });
+});
+
+describe("simulateCompletionDays", () => {
+  it("replays sampled days until the work is done", () => {
+    expect(
+      simulateCompletionDays({
+        remaining: 4,
+        dailyThroughput: [0, 2],
+        trials: 2,
+        random: sequence([0.9, 0.9, 0.1, 0.9, 0.1, 0.9]),
+      })
+    ).toEqual([2, 4]);
+  });
+
+  it("stops trials that never finish", () => {
+    const [days] = simulateCompletionDays({ remaining: 1, dailyThroughput: [0], trials: 1 });
+    expect(days).toBe(1095);
+  });
+});
+
+describe("forecastDelivery", () => {
+  it("returns percentile dates from the simulation", () => {
+    const forecast = forecastDelivery({
+      remaining: 10,
+      completedAt: [Date.parse("2026-03-09T12:00:00Z"), Date.parse("2026-03-09T13:00:00Z")],
+      today,
+      historyDays: 1,
+      trials: 10,
+    });
+
+    // Two items a day, every day: five days including today
+    expect(forecast).toEqual({
+      outcome: "FORECAST",
+      remainingItems: 10,
+      historyDays: 1,
+      completedInHistory: 2,
+      p50: "2026-03-14",
+      p85: "2026-03-14",
+      p95: "2026-03-14",
+    });
+  });
+
+  it("has no dates when nothing is left or nothing was completed", () => {
+    expect(forecastDelivery({ remaining: 0, completedAt: [], today }).outcome).toBe("COMPLETE");
+    expect(forecastDelivery({ remaining: 3, completedAt: [], today })).toMatchObject({
+      outcome: "NO_HISTORY",
+      p85: null,
+    });
+  });
+});
+
+describe("isTargetAtRisk", () => {
+  const forecast = forecastDelivery({
+    remaining: 10,
+    completedAt: [Date.parse("2026-03-09T12:00:00Z"), Date.parse("2026-03-09T13:00:00Z")],
+    today,
+    historyDays: 1,
+    trials: 10,
+  });
+
+  it("flags targets before the 85% date", () => {
+    expect(isTargetAtRisk("2026-03-13T00:00:00.000Z", forecast)).toBe(true);
+    expect(isTargetAtRisk("2026-03-14T00:00:00.000Z", forecast)).toBe(false);
+    expect(isTargetAtRisk(null, forecast)).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { percentile } from "./flow-metrics";
+
+/**
+ * Delivery Forecasts
+ *
+ * Monte Carlo simulation over historical daily throughput: each trial
+ * replays randomly sampled past days until the remaining items are done.
+ * The spread of trial lengths gives the 50 / 85 / 95% completion dates.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days of completions sampled for throughput */
+export const FORECAST_HISTORY_DAYS = 90;
+const DEFAULT_TRIALS = 1000;
+/** Trials that run longer than this are cut off (about three years) */
+const MAX_FORECAST_DAYS = 1095;
+
+export type ForecastOutcome = "FORECAST" | "COMPLETE" | "NO_HISTORY";
+
+export type DeliveryForecast = {
+  outcome: ForecastOutcome;
+  remainingItems: number;
+  historyDays: number;
+  completedInHistory: number;
+  /** Completion dates, "YYYY-MM-DD" */
+  p50: string | null;
+  p85: string | null;
+  p95: string | null;
+};
+
+function toDateKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(time: number): number {
+  return Date.parse(`${toDateKey(time)}T00:00:00Z`);
+}
+
+/**
+ * Completions per UTC day over the `days` days before `today`
+ * (today is excluded, it is not over yet)
+ */
+export function buildDailyThroughput(
+  completedAt: number[],
+  { today, days = FORECAST_HISTORY_DAYS }: { today: Date; days?: number }
+): number[] {
+  const end = startOfUtcDay(today.getTime());
+  const start = end - days * DAY_MS;
+  const counts = new Array<number>(days).fill(0);
+
+  for (const time of completedAt) {
+    if (time < start || time >= end) continue;
+    counts[Math.floor((time - start) / DAY_MS)]++;
+  }
+
+  return counts;
+}
+
+/**
+ * Days each trial took to finish `remaining` items, ascending
+ */
+export function simulateCompletionDays({
+  remaining,
+  dailyThroughput,
+  trials = DEFAULT_TRIALS,
+  random = Math.random,
+}: {
+  remaining: number;
+  dailyThroughput: number[];
+  trials?: number;
+  random?: () => number;
+}): number[] {
+  const results: number[] = [];
+
+  for (let trial = 0; trial < trials; trial++) {
+    let left = remaining;
+    let days = 0;
+
+    while (left > 0 && days < MAX_FORECAST_DAYS) {
+      left -= dailyThroughput[Math.floor(random() * dailyThroughput.length)];
+      days++;
+    }
+
+    results.push(days);
+  }
+
+  return results.sort((a, b) => a - b);
+}
+
+/**
+ * Forecast when `remaining` items will be done, given past completion times
+ */
+export function forecastDelivery({
+  remaining,
+  completedAt,
+  today = new Date(),
+  historyDays = FORECAST_HISTORY_DAYS,
+  trials,
+  random,
+}: {
+  remaining: number;
+  completedAt: number[];
+  today?: Date;
+  historyDays?: number;
+  trials?: number;
+  random?: () => number;
+}): DeliveryForecast {
+  const dailyThroughput = buildDailyThroughput(completedAt, { today, days: historyDays });
+  const completedInHistory = dailyThroughput.reduce((sum, count) => sum + count, 0);
+  const base = { remainingItems: remaining, historyDays, completedInHistory };
+
+  if (remaining <= 0) {
+    return { ...base, outcome: "COMPLETE", p50: null, p85: null, p95: null };
+  }
+
+  if (completedInHistory === 0) {
+    return { ...base, outcome: "NO_HISTORY", p50: null, p85: null, p95: null };
+  }
+
+  const days = simulateCompletionDays({ remaining, dailyThroughput, trials, random });
+  const todayStart = startOfUtcDay(today.getTime());
+  // A trial finishing in one day finishes today
+  const dateAt = (p: number) => toDateKey(todayStart + ((percentile(days, p) ?? 1) - 1) * DAY_MS);
+
+  return { ...base, outcome: "FORECAST", p50: dateAt(50), p85: dateAt(85), p95: dateAt(95) };
+}
+
+/**
+ * A target date earlier than the 85% forecast is at risk
+ */
+export function isTargetAtRisk(
+  targetDate: string | null | undefined,
+  forecast: DeliveryForecast
+): boolean {
+  if (!targetDate || forecast.outcome !== "FORECAST" || !forecast.p85) return false;
+  return toDateKey(Date.parse(targetDate)) < forecast.p85;
+}
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { BoardType, ProjectStatus } from "./types";
+import { BoardType, ProjectStatus, WipEnforcement } from "./types";
 
 export const createProjectSchema = z.object({
   name: z.string().trim().min(1, "Project name is required."),
@@ -13,6 +13,7 @@ export const createProjectSchema = z.object({
     .optional(),
   workspaceId: z.string(),
   spaceId: z.string().optional().nullable(),
+  templateId: z.string().optional().nullable(),
 });
 
 export const updateProjectSchema = z.object({
@@ -41,9 +42,14 @@ export const updateProjectSchema = z.object({
   defaultAssigneeId: z.string().optional().nullable(),
   autoAssignToCreator: z.boolean().optional(),
   enableTimeTracking: z.boolean().optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
 
   // Kanban settings
-  wipLimits: z.record(z.number().min(0)).optional(),
+  wipLimits: z.preprocess(
+    (val) => (typeof val === "string" ? JSON.parse(val) : val),
+    z.record(z.number().int().min(0))
+  ).optional(),
+  wipEnforcement: z.nativeEnum(WipEnforcement).optional(),
   defaultSwimlane: z.enum(["assignee", "epic", "type", "none"]).optional(),
 
   // Sprint settings
@@ -83,6 +89,14 @@ export const updateProjectSchema = z.object({
   ).optional(),
 });
 
+export const projectFlowMetricsQuerySchema = z.object({
+  startDate: z.string().datetime({ offset: true }).optional(),
+  endDate: z.string().datetime({ offset: true }).optional(),
+  type: z.string().optional(),
+  label: z.string().optional(),
+  epicId: z.string().optional(),
+});
+
 export const assignProjectToTeamSchema = z.object({
   projectId: z.string(),
   teamId: z.string(),
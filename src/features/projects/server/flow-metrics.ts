@@ -0,0 +1,107 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import { DATABASE_ID, WORK_ITEMS_ID, WORKFLOW_STATUSES_ID } from "@/config";
+import { WorkItem } from "@/features/sprints/types";
+import { listProjectStatusChanges } from "@/features/tasks/server/status-history";
+import { TaskStatus } from "@/features/tasks/types";
+import { WorkflowStatus } from "@/features/workflows/types";
+import { snakeCaseToTitleCase } from "@/lib/utils";
+
+import { FlowMetrics, FlowStatus, computeFlowMetrics, createStatusTypeResolver } from "../flow-metrics";
+import { Project } from "../types";
+
+const PAGE_SIZE = 100;
+const MAX_FLOW_ITEMS = 5000;
+
+export interface FlowMetricsFilters {
+  from: Date;
+  to: Date;
+  type?: string;
+  label?: string;
+  epicId?: string;
+}
+
+/**
+ * Board columns in order: the project's workflow, or the built-in statuses
+ */
+export async function listFlowStatuses(databases: Databases, project: Project): Promise<FlowStatus[]> {
+  if (project.workflowId) {
+    const statuses = await databases.listDocuments<WorkflowStatus>(
+      DATABASE_ID,
+      WORKFLOW_STATUSES_ID,
+      [Query.equal("workflowId", project.workflowId), Query.orderAsc("position"), Query.limit(100)]
+    );
+
+    if (statuses.documents.length > 0) {
+      return statuses.documents.map(({ key, name, statusType }) => ({ key, name, statusType }));
+    }
+  }
+
+  const legacyTypeOf = createStatusTypeResolver([]);
+  return Object.values(TaskStatus).map((key) => ({
+    key,
+    name: snakeCaseToTitleCase(key),
+    statusType: legacyTypeOf(key),
+  }));
+}
+
+/**
+ * Project work items matching the filters that existed by the end of the range
+ */
+async function listFlowItems(
+  databases: Databases,
+  projectId: string,
+  { to, type, label, epicId }: FlowMetricsFilters
+): Promise<WorkItem[]> {
+  const items: WorkItem[] = [];
+  let cursor: string | undefined;
+
+  while (items.length < MAX_FLOW_ITEMS) {
+    const page = await databases.listDocuments<WorkItem>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        Query.equal("projectId", projectId),
+        Query.lessThanEqual("$createdAt", to.toISOString()),
+        ...(type ? [Query.equal("type", type)] : []),
+        ...(label ? [Query.contains("labels", label)] : []),
+        ...(epicId ? [Query.equal("epicId", epicId)] : []),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    items.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return items;
+}
+
+/**
+ * Cumulative flow, cycle / lead time and throughput for a project
+ */
+export async function getProjectFlowMetrics(
+  databases: Databases,
+  project: Project,
+  filters: FlowMetricsFilters
+): Promise<FlowMetrics> {
+  const [statuses, items, changes] = await Promise.all([
+    listFlowStatuses(databases, project),
+    listFlowItems(databases, project.$id, filters),
+    listProjectStatusChanges(databases, project.$id, { until: filters.to }),
+  ]);
+
+  const itemIds = new Set(items.map((item) => item.$id));
+
+  return computeFlowMetrics({
+    items,
+    changes: changes.filter((change) => itemIds.has(change.workItemId)),
+    statuses,
+    from: filters.from,
+    to: filters.to,
+  });
+}
@@ -0,0 +1,107 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import { DATABASE_ID, WORK_ITEMS_ID } from "@/config";
+import { WorkItem, WorkItemType } from "@/features/sprints/types";
+import { listProjectStatusChanges } from "@/features/tasks/server/status-history";
+import { StatusType } from "@/features/workflows/types";
+
+import { createStatusTypeResolver } from "../flow-metrics";
+import { FORECAST_HISTORY_DAYS } from "../forecast";
+import { Project } from "../types";
+import { listFlowStatuses } from "./flow-metrics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+const MAX_PROJECT_ITEMS = 5000;
+
+export interface ProjectThroughput {
+  projectId: string;
+  isClosed: (status: string) => boolean;
+  /** Completion times within the forecast history window */
+  completedAt: number[];
+}
+
+/**
+ * Work items of a project, optionally narrowed by extra queries
+ */
+export async function listProjectWorkItems(
+  databases: Databases,
+  projectId: string,
+  queries: string[] = []
+): Promise<WorkItem[]> {
+  const items: WorkItem[] = [];
+  let cursor: string | undefined;
+
+  while (items.length < MAX_PROJECT_ITEMS) {
+    const page = await databases.listDocuments<WorkItem>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        Query.equal("projectId", projectId),
+        ...queries,
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    items.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return items;
+}
+
+/**
+ * Recent completions of a project
+ *
+ * Closes come from the status history. Items closed without a recorded
+ * transition (before history was kept) count at their last update.
+ */
+export async function getProjectThroughput(
+  databases: Databases,
+  project: Project,
+  today: Date = new Date()
+): Promise<ProjectThroughput> {
+  const since = new Date(today.getTime() - (FORECAST_HISTORY_DAYS + 1) * DAY_MS);
+
+  const [statuses, changes] = await Promise.all([
+    listFlowStatuses(databases, project),
+    listProjectStatusChanges(databases, project.$id, { since }),
+  ]);
+
+  const statusTypeOf = createStatusTypeResolver(statuses);
+  const isClosed = (status: string) => statusTypeOf(status) === StatusType.CLOSED;
+
+  const closes = changes.filter(
+    (change) => isClosed(change.toStatus) && !(change.fromStatus && isClosed(change.fromStatus))
+  );
+  const recorded = new Set(closes.map((change) => change.workItemId));
+  const completedAt = closes.map((change) => Date.parse(change.changedAt));
+
+  const closedKeys = statuses.filter((status) => isClosed(status.key)).map((status) => status.key);
+  if (closedKeys.length > 0) {
+    const recentlyClosed = await listProjectWorkItems(databases, project.$id, [
+      Query.equal("status", closedKeys),
+      Query.greaterThanEqual("$updatedAt", since.toISOString()),
+    ]);
+
+    for (const item of recentlyClosed) {
+      if (!recorded.has(item.$id)) completedAt.push(Date.parse(item.$updatedAt));
+    }
+  }
+
+  return { projectId: project.$id, isClosed, completedAt };
+}
+
+/**
+ * Open items that count toward a forecast (epics are containers, not work)
+ */
+export function countRemainingItems(
+  items: { type?: string; status: string }[],
+  isClosed: (status: string) => boolean
+): number {
+  return items.filter((item) => item.type !== WorkItemType.EPIC && !isClosed(item.status)).length;
+}
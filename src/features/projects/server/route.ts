@@ -1,5 +1,5 @@
 import { zValidator } from "@hono/zod-validator";
-import { endOfMonth, startOfMonth, subMonths } from "date-fns";
+import { endOfMonth, startOfMonth, subDays, subMonths } from "date-fns";
 import { Hono } from "hono";
 import { ID, Query, Models } from "node-appwrite";
 import { z } from "zod";
@@ -8,8 +8,10 @@ import { getMember } from "@/features/members/utils";
 import { seedProjectRolesAndAssignOwner } from "@/features/projects/lib/utils";
 import { TaskStatus } from "@/features/tasks/types";
 import { WorkflowInheritanceMode, Space } from "@/features/spaces/types";
+import { applyProjectTemplate, getProjectTemplateAttributes } from "@/features/templates/server/project-templates";
+import { PopulatedProjectTemplate, ProjectTemplate, populateProjectTemplate } from "@/features/templates/types";
 
-import { DATABASE_ID, PROJECTS_ID, TASKS_ID, TIME_LOGS_ID, SPACES_ID } from "@/config";
+import { DATABASE_ID, PROJECTS_ID, TASKS_ID, TIME_LOGS_ID, SPACES_ID, PROJECT_TEMPLATES_ID } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
 import { cached, invalidateCache, invalidateCachePattern, CK, CKPattern, TTL } from "@/lib/redis";
 import { logComputeUsage } from "@/lib/usage-metering";
@@ -21,8 +23,10 @@ import {
   createProjectUpdatedEvent,
 } from "@/lib/notifications/events";
 
-import { createProjectSchema, updateProjectSchema } from "../schemas";
+import { createProjectSchema, projectFlowMetricsQuerySchema, updateProjectSchema } from "../schemas";
 import { Project } from "../types";
+import { parseWipLimits } from "../wip-limits";
+import { getProjectFlowMetrics } from "./flow-metrics";
 import { MemberRole } from "@/features/members/types";
 // import { TeamMember } from "@/features/teams/types"; // Legacy Teams Removed
 
@@ -41,6 +45,7 @@ const transformProject = (project: Models.Document): Project => {
     customLabels: typeof raw.customLabels === 'string'
       ? JSON.parse(raw.customLabels)
       : (raw.customLabels as Project["customLabels"]) || [],
+    wipLimits: parseWipLimits(raw.wipLimits),
   };
 };
 
@@ -54,7 +59,7 @@ const app = new Hono()
       const storage = c.get("storage");
       const user = c.get("user");
 
-      const { name, description, deadline, image, workspaceId, spaceId } = c.req.valid("form");
+      const { name, description, deadline, image, workspaceId, spaceId, templateId } = c.req.valid("form");
 
       const member = await getMember({
         databases,
@@ -107,6 +112,17 @@ const app = new Hono()
         }
       }
 
+      // Start from a project template: its setup goes on the project document,
+      // except a workflow the space requires
+      let template: PopulatedProjectTemplate | null = null;
+      if (templateId) {
+        const templateDoc = await databases.getDocument<ProjectTemplate>(DATABASE_ID, PROJECT_TEMPLATES_ID, templateId);
+        if (templateDoc.workspaceId !== workspaceId) {
+          return c.json({ error: "Template not found" }, 404);
+        }
+        template = populateProjectTemplate(templateDoc);
+      }
+
       const project = await databases.createDocument(
         DATABASE_ID,
         PROJECTS_ID,
@@ -118,8 +134,9 @@ const app = new Hono()
           imageUrl: uploadedImageUrl,
           workspaceId,
           spaceId: normalizedSpaceId,
+          ...(template && getProjectTemplateAttributes(template)),
           // Inherit workflow from space if applicable
-          ...(inheritedWorkflowId && { workflowId: inheritedWorkflowId }),
+          ...(inheritedWorkflowId && (workflowLocked || !template?.workflowId) && { workflowId: inheritedWorkflowId }),
           ...(workflowLocked && { workflowLocked: true }),
         }
       );
@@ -147,6 +164,13 @@ const app = new Hono()
       }
 
 
+      if (template) {
+        const applied = await applyProjectTemplate(databases, template, transformProject(project), user.$id);
+        if (applied.errors > 0) {
+          console.warn(`[ProjectCreate] Template ${template.$id} applied with ${applied.errors} error(s) to project ${project.$id}`);
+        }
+      }
+
       await invalidateCache(
         CK.projectList(workspaceId),
         CK.authLifecycle(user.$id)
@@ -267,7 +291,10 @@ const app = new Hono()
         workflowId,
         customWorkItemTypes,
         customPriorities,
-        customLabels
+        customLabels,
+        wipLimits,
+        wipEnforcement,
+        currency,
       } = c.req.valid("form");
 
       const existingProject = await databases.getDocument<Project>(
@@ -353,6 +380,23 @@ const app = new Hono()
         updateData.customLabels = JSON.stringify(customLabels);
       }
 
+      // Kanban WIP limits
+      if (wipLimits !== undefined) {
+        updateData.wipLimits = JSON.stringify(parseWipLimits(wipLimits));
+      }
+      if (wipEnforcement !== undefined) {
+        updateData.wipEnforcement = wipEnforcement;
+      }
+
+      // Billing currency for cost reports
+      if (currency !== undefined) {
+        const { SUPPORTED_CURRENCIES } = await import("@/lib/currency");
+        if (!(SUPPORTED_CURRENCIES as readonly string[]).includes(currency)) {
+          return c.json({ error: `Unsupported currency: ${currency}` }, 400);
+        }
+        updateData.currency = currency;
+      }
+
       const project = await databases.updateDocument<Project>(
         DATABASE_ID,
         PROJECTS_ID,
@@ -522,6 +566,57 @@ const app = new Hono()
       return c.json({ error: "Failed to delete project and related data" }, 500);
     }
   })
+  .get(
+    "/:projectId/analytics/flow",
+    sessionMiddleware,
+    zValidator("query", projectFlowMetricsQuerySchema),
+    async (c) => {
+      const user = c.get("user");
+      const databases = c.get("databases");
+      const { projectId } = c.req.param();
+      const { startDate, endDate, type, label, epicId } = c.req.valid("query");
+
+      const project = await databases.getDocument<Project>(
+        DATABASE_ID,
+        PROJECTS_ID,
+        projectId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: project.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_PROJECT)) {
+        return c.json({ error: "Forbidden: No permission to view this project's analytics" }, 403);
+      }
+
+      // Defaults to the last 30 days
+      const to = endDate ? new Date(endDate) : new Date();
+      const from = startDate ? new Date(startDate) : subDays(to, 30);
+
+      if (from > to) {
+        return c.json({ error: "startDate must be before endDate" }, 400);
+      }
+
+      const data = await getProjectFlowMetrics(databases, project, {
+        from,
+        to,
+        type,
+        label,
+        epicId,
+      });
+
+      return c.json({ data });
+    }
+  )
   .get("/:projectId/analytics", sessionMiddleware, async (c) => {
     const user = c.get("user");
     const databases = c.get("databases");
@@ -0,0 +1,172 @@
+import "server-only";
+
+import { Databases, ID, Query } from "node-appwrite";
+
+import { DATABASE_ID, SPRINTS_ID, WIP_BREACHES_ID, WORK_ITEMS_ID } from "@/config";
+import { Sprint, SprintStatus } from "@/features/sprints/types";
+
+import { Project, WipEnforcement } from "../types";
+import {
+  WipLimitBreach,
+  findWipLimitBreaches,
+  formatWipLimitBreach,
+  getWipEnforcement,
+  parseWipLimits,
+} from "../wip-limits";
+
+export type WipBreachOutcome = "BLOCKED" | "OVERRIDDEN";
+
+export type WipLimitCheck =
+  | { allowed: true; breaches: WipLimitBreach[] }
+  | { allowed: false; breaches: WipLimitBreach[]; canOverride: boolean; message: string };
+
+export type WipLimitRejection = Extract<WipLimitCheck, { allowed: false }>;
+
+/**
+ * Thrown by status changes outside a request handler (approvals,
+ * automation) when the move would breach a WIP limit
+ */
+export class WipLimitExceededError extends Error {
+  constructor(public readonly check: WipLimitRejection) {
+    super(check.message);
+    this.name = "WipLimitExceededError";
+  }
+}
+
+interface WipLimitItemMove {
+  item: { $id: string; status: string; sprintId?: string | null };
+  toStatus: string;
+}
+
+/**
+ * Check status moves against a project's WIP limits
+ *
+ * Columns are counted the way the Kanban board shows them: items in the
+ * active sprint when the project has one, otherwise the whole project.
+ * With BLOCK enforcement breaching moves are rejected; with OVERRIDE they
+ * go through only when `override` is set. Blocked and overridden breaches
+ * are recorded for the audit trail.
+ */
+export async function enforceWipLimits(
+  databases: Databases,
+  {
+    project,
+    moves,
+    userId,
+    override = false,
+  }: {
+    project: Project;
+    moves: WipLimitItemMove[];
+    userId: string;
+    override?: boolean;
+  }
+): Promise<WipLimitCheck> {
+  const limits = parseWipLimits(project.wipLimits);
+  const limitedMoves = moves.filter(
+    ({ item, toStatus }) => item.status !== toStatus && limits[toStatus] > 0
+  );
+
+  if (limitedMoves.length === 0) {
+    return { allowed: true, breaches: [] };
+  }
+
+  const activeSprints = await databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+    Query.equal("projectId", project.$id),
+    Query.equal("status", SprintStatus.ACTIVE),
+    Query.limit(1),
+  ]);
+  const activeSprintId = activeSprints.documents[0]?.$id;
+
+  // Items outside the active sprint are not on the board
+  const boardMoves = activeSprintId
+    ? moves.filter(({ item }) => item.sprintId === activeSprintId)
+    : moves;
+
+  const statuses = [...new Set(limitedMoves.map(({ toStatus }) => toStatus))];
+  const counts: Record<string, number> = {};
+
+  await Promise.all(
+    statuses.map(async (status) => {
+      const result = await databases.listDocuments(DATABASE_ID, WORK_ITEMS_ID, [
+        Query.equal("projectId", project.$id),
+        Query.equal("status", status),
+        ...(activeSprintId ? [Query.equal("sprintId", activeSprintId)] : []),
+        Query.limit(1),
+      ]);
+      counts[status] = result.total;
+    })
+  );
+
+  const breaches = findWipLimitBreaches({
+    limits,
+    counts,
+    moves: boardMoves.map(({ item, toStatus }) => ({
+      itemId: item.$id,
+      fromStatus: item.status,
+      toStatus,
+    })),
+  });
+
+  if (breaches.length === 0) {
+    return { allowed: true, breaches };
+  }
+
+  const enforcement = getWipEnforcement(project);
+
+  if (enforcement === WipEnforcement.OVERRIDE && override) {
+    recordWipBreaches(databases, { project, breaches, userId, outcome: "OVERRIDDEN" }).catch(() => { });
+    return { allowed: true, breaches };
+  }
+
+  const canOverride = enforcement === WipEnforcement.OVERRIDE;
+
+  // An override prompt is not a breach yet - only hard blocks are recorded
+  if (!canOverride) {
+    recordWipBreaches(databases, { project, breaches, userId, outcome: "BLOCKED" }).catch(() => { });
+  }
+
+  return {
+    allowed: false,
+    breaches,
+    canOverride,
+    message: breaches.map((breach) => formatWipLimitBreach(breach)).join("; "),
+  };
+}
+
+/**
+ * Write breach rows for the audit trail (never throws)
+ */
+export async function recordWipBreaches(
+  databases: Databases,
+  {
+    project,
+    breaches,
+    userId,
+    outcome,
+  }: {
+    project: Project;
+    breaches: WipLimitBreach[];
+    userId: string;
+    outcome: WipBreachOutcome;
+  }
+): Promise<void> {
+  await Promise.all(
+    breaches.map((breach) =>
+      databases
+        .createDocument(DATABASE_ID, WIP_BREACHES_ID, ID.unique(), {
+          workspaceId: project.workspaceId,
+          projectId: project.$id,
+          userId,
+          status: breach.status,
+          limit: breach.limit,
+          count: breach.count,
+          itemIds: breach.itemIds,
+          outcome,
+          description: `${outcome === "BLOCKED" ? "Blocked" : "Overrode"} WIP limit on ${breach.status} (${breach.count}/${breach.limit})`,
+        })
+        .catch((error) => {
+          console.error("[WipLimits] Failed to record breach:", error instanceof Error ? error.message : error);
+        })
+    )
+  );
+}
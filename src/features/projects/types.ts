@@ -15,6 +15,12 @@ export enum ProjectStatus {
   ARCHIVED = "ARCHIVED",
 }
 
+// What happens when a move would push a column over its WIP limit
+export enum WipEnforcement {
+  BLOCK = "BLOCK",         // Move is rejected
+  OVERRIDE = "OVERRIDE",   // Move is allowed once the user confirms the override
+}
+
 export type Project = Models.Document & {
   name: string;
   description?: string;
@@ -38,9 +44,11 @@ export type Project = Models.Document & {
   defaultAssigneeId?: string;           // NEW: Default assignee for new work items
   autoAssignToCreator?: boolean;        // NEW: Auto-assign to item creator
   enableTimeTracking?: boolean;         // NEW: Enable time tracking for this project
+  currency?: string;                    // Billing currency for time (defaults to USD)
 
   // Kanban settings
   wipLimits?: Record<string, number>;   // NEW: WIP limits per column/status { "IN_PROGRESS": 5 }
+  wipEnforcement?: WipEnforcement;      // How WIP limits are enforced (defaults to OVERRIDE)
   defaultSwimlane?: string;             // NEW: Default swimlane grouping ("assignee", "epic", "type", "none")
 
   // Sprint settings (for SCRUM/HYBRID boards)
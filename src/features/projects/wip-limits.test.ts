@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { WipEnforcement } from "./types";
+import { findWipLimitBreaches, getWipEnforcement, parseWipLimits } from "./wip-limits";
+
+describe("parseWipLimits", () => {
+  it("parses JSON strings and drops unlimited or invalid entries", () => {
+    expect(parseWipLimits('{"IN_PROGRESS":3,"TODO":0,"DONE":"5","IN_REVIEW":2.7}')).toEqual({
+      IN_PROGRESS: 3,
+      IN_REVIEW: 2,
+    });
+  });
+
+  it("returns no limits for missing or malformed values", () => {
+    expect(parseWipLimits(undefined)).toEqual({});
+    expect(parseWipLimits("not json")).toEqual({});
+    expect(parseWipLimits([1, 2])).toEqual({});
+  });
+});
+
+describe("getWipEnforcement", () => {
+  it("defaults to override", () => {
+    expect(getWipEnforcement({})).toBe(WipEnforcement.OVERRIDE);
+    expect(getWipEnforcement({ wipEnforcement: WipEnforcement.BLOCK })).toBe(WipEnforcement.BLOCK);
+  });
+});
+
+describe("findWipLimitBreaches", () => {
+  const limits = { IN_PROGRESS: 2 };
+
+  it("flags a move into a full column", () => {
+    expect(
+      findWipLimitBreaches({
+        limits,
+        counts: { IN_PROGRESS: 2 },
+        moves: [{ itemId: "a", fromStatus: "TODO", toStatus: "IN_PROGRESS" }],
+      })
+    ).toEqual([{ status: "IN_PROGRESS", limit: 2, count: 3, itemIds: ["a"] }]);
+  });
+
+  it("allows moves that stay within the limit", () => {
+    expect(
+      findWipLimitBreaches({
+        limits,
+        counts: { IN_PROGRESS: 1 },
+        moves: [{ itemId: "a", fromStatus: "TODO", toStatus: "IN_PROGRESS" }],
+      })
+    ).toEqual([]);
+  });
+
+  it("ignores reordering within a column that is already over", () => {
+    expect(
+      findWipLimitBreaches({
+        limits,
+        counts: { IN_PROGRESS: 4 },
+        moves: [{ itemId: "a", fromStatus: "IN_PROGRESS", toStatus: "IN_PROGRESS" }],
+      })
+    ).toEqual([]);
+  });
+
+  it("counts items leaving a column in the same batch", () => {
+    expect(
+      findWipLimitBreaches({
+        limits,
+        counts: { IN_PROGRESS: 2 },
+        moves: [
+          { itemId: "a", fromStatus: "IN_PROGRESS", toStatus: "DONE" },
+          { itemId: "b", fromStatus: "TODO", toStatus: "IN_PROGRESS" },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it("ignores columns without a limit", () => {
+    expect(
+      findWipLimitBreaches({
+        limits: { IN_PROGRESS: 0 },
+        counts: { IN_PROGRESS: 10, DONE: 50 },
+        moves: [
+          { itemId: "a", fromStatus: "TODO", toStatus: "IN_PROGRESS" },
+          { itemId: "b", fromStatus: "TODO", toStatus: "DONE" },
+        ],
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { Project, WipEnforcement } from "./types";
+
+/**
+ * WIP Limits
+ *
+ * Pure helpers for per-column work-in-progress limits. Limits are keyed by
+ * status key; a missing or zero limit means the column is unlimited.
+ * Enforcement against the database lives in ./server/wip-limits.ts.
+ */
+
+export interface WipLimitMove {
+  itemId: string;
+  fromStatus: string;
+  toStatus: string;
+}
+
+export interface WipLimitBreach {
+  status: string;
+  limit: number;
+  /** Items in the column after the move */
+  count: number;
+  /** Items moved into the column */
+  itemIds: string[];
+}
+
+/**
+ * Read `wipLimits` from a project document (stored as a JSON string)
+ */
+export function parseWipLimits(raw: unknown): Record<string, number> {
+  let value = raw;
+
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+
+  const limits: Record<string, number> = {};
+  for (const [status, limit] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof limit === "number" && Number.isFinite(limit) && limit > 0) {
+      limits[status] = Math.floor(limit);
+    }
+  }
+
+  return limits;
+}
+
+export function getWipEnforcement(project: Pick<Project, "wipEnforcement">): WipEnforcement {
+  return project.wipEnforcement === WipEnforcement.BLOCK
+    ? WipEnforcement.BLOCK
+    : WipEnforcement.OVERRIDE;
+}
+
+/**
+ * Columns a set of moves would push over their limit
+ *
+ * `counts` holds the current number of items per status. Items leaving a
+ * column free a slot for items entering it in the same batch; moves within
+ * a column are ignored. A column already over its limit only breaches when
+ * something new enters it.
+ */
+export function findWipLimitBreaches({
+  limits,
+  counts,
+  moves,
+}: {
+  limits: Record<string, number>;
+  counts: Record<string, number>;
+  moves: WipLimitMove[];
+}): WipLimitBreach[] {
+  const incoming = new Map<string, string[]>();
+  const outgoing = new Map<string, number>();
+
+  for (const move of moves) {
+    if (move.fromStatus === move.toStatus) continue;
+
+    incoming.set(move.toStatus, [...(incoming.get(move.toStatus) ?? []), move.itemId]);
+    outgoing.set(move.fromStatus, (outgoing.get(move.fromStatus) ?? 0) + 1);
+  }
+
+  const breaches: WipLimitBreach[] = [];
+
+  for (const [status, itemIds] of incoming) {
+    const limit = limits[status];
+    if (!limit || limit <= 0) continue;
+
+    const count = (counts[status] ?? 0) - (outgoing.get(status) ?? 0) + itemIds.length;
+    if (count > limit) {
+      breaches.push({ status, limit, count, itemIds });
+    }
+  }
+
+  return breaches;
+}
+
+export function formatWipLimitBreach(breach: WipLimitBreach, statusName = breach.status): string {
+  return `${statusName} is at its WIP limit (${breach.count}/${breach.limit})`;
+}
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["recurring-work-items"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["recurring-work-items"]["$post"]>;
+
+export const useCreateRecurringWorkItem = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api["recurring-work-items"].$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to create recurring work item.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Recurring work item created.");
+      queryClient.invalidateQueries({ queryKey: ["recurring-work-items"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create recurring work item.");
+    },
+  });
+
+  return mutation;
+};
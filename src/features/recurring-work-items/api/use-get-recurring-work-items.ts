@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetRecurringWorkItemsProps {
+  workspaceId: string;
+  projectId: string;
+  enabled?: boolean;
+}
+
+export const useGetRecurringWorkItems = ({
+  workspaceId,
+  projectId,
+  enabled = true,
+}: UseGetRecurringWorkItemsProps) => {
+  const query = useQuery({
+    queryKey: ["recurring-work-items", workspaceId, projectId],
+    enabled: enabled && !!workspaceId && !!projectId,
+    queryFn: async () => {
+      const response = await client.api["recurring-work-items"].$get({
+        query: {
+          workspaceId,
+          projectId,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch recurring work items.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["recurring-work-items"][":templateId"]["skip"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["recurring-work-items"][":templateId"]["skip"]["$post"]>;
+
+export const useSkipRecurringWorkItem = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api["recurring-work-items"][":templateId"]["skip"].$post({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to skip the next occurrence.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Next occurrence skipped.");
+      queryClient.invalidateQueries({ queryKey: ["recurring-work-items"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to skip the next occurrence.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["recurring-work-items"][":templateId"]["$patch"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["recurring-work-items"][":templateId"]["$patch"]>;
+
+export const useUpdateRecurringWorkItem = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param, json }) => {
+      const response = await client.api["recurring-work-items"][":templateId"].$patch({ param, json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to update recurring work item.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Recurring work item updated.");
+      queryClient.invalidateQueries({ queryKey: ["recurring-work-items"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update recurring work item.");
+    },
+  });
+
+  return mutation;
+};
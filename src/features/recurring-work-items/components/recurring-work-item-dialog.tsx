@@ -0,0 +1,503 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PlusIcon, Repeat, TrashIcon } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MultiSelect } from "@/components/ui/multi-select-simple";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useGetCustomFields } from "@/features/custom-fields/api/use-get-custom-fields";
+import { CustomField, CustomFieldType } from "@/features/custom-fields/types";
+import { useGetMembers } from "@/features/members/api/use-get-members";
+import { WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+
+import { useCreateRecurringWorkItem } from "../api/use-create-recurring-work-item";
+import { useUpdateRecurringWorkItem } from "../api/use-update-recurring-work-item";
+import { CronParseError, getNextOccurrence } from "../schedule";
+import { PopulatedRecurringWorkItem, RecurrenceFrequency } from "../types";
+
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const MONTH_WEEK_OPTIONS = [
+  { value: 1, label: "First" },
+  { value: 2, label: "Second" },
+  { value: 3, label: "Third" },
+  { value: 4, label: "Fourth" },
+  { value: -1, label: "Last" },
+];
+
+const NUMBER_FIELD_TYPES = new Set([CustomFieldType.NUMBER, CustomFieldType.CURRENCY, CustomFieldType.PERCENTAGE]);
+const LIST_FIELD_TYPES = new Set([CustomFieldType.MULTI_SELECT, CustomFieldType.USERS, CustomFieldType.LABELS]);
+const NONE_VALUE = "__none__";
+
+// Custom field values are kept as strings (or string arrays) while editing
+type CustomFieldDraft = Record<string, string | string[]>;
+
+function toFieldDraft(field: CustomField, value: unknown): string | string[] {
+  if (LIST_FIELD_TYPES.has(field.type)) return Array.isArray(value) ? value.map(String) : [];
+  if (value === null || value === undefined) return "";
+  return String(value);
+}
+
+function fromFieldDraft(field: CustomField, draft: string | string[]): unknown {
+  if (Array.isArray(draft)) return draft.length > 0 ? draft : null;
+  if (!draft.trim()) return null;
+  if (NUMBER_FIELD_TYPES.has(field.type)) return Number(draft);
+  if (field.type === CustomFieldType.CHECKBOX) return draft === "true";
+  return draft.trim();
+}
+
+interface RecurringWorkItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  projectId: string;
+  template?: PopulatedRecurringWorkItem | null;
+}
+
+export const RecurringWorkItemDialog = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  projectId,
+  template,
+}: RecurringWorkItemDialogProps) => {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [type, setType] = useState<string>(WorkItemType.TASK);
+  const [priority, setPriority] = useState<string>(WorkItemPriority.MEDIUM);
+  const [storyPoints, setStoryPoints] = useState("");
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [labels, setLabels] = useState("");
+  const [customFields, setCustomFields] = useState<CustomFieldDraft>({});
+  const [subtaskTitles, setSubtaskTitles] = useState<string[]>([]);
+  const [addToActiveSprint, setAddToActiveSprint] = useState(false);
+
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(RecurrenceFrequency.WEEKLY);
+  const [timeOfDay, setTimeOfDay] = useState("09:00");
+  const [weekdays, setWeekdays] = useState<number[]>([1]);
+  const [monthWeek, setMonthWeek] = useState(1);
+  const [monthWeekday, setMonthWeekday] = useState(1);
+  const [cronExpression, setCronExpression] = useState("");
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+
+  const { mutate: createTemplate, isPending: isCreating } = useCreateRecurringWorkItem();
+  const { mutate: updateTemplate, isPending: isUpdating } = useUpdateRecurringWorkItem();
+  const isPending = isCreating || isUpdating;
+
+  const { data: members } = useGetMembers({ workspaceId, enabled: open });
+  const { data: customFieldData } = useGetCustomFields({ workspaceId, projectId });
+  const fields = (customFieldData?.documents ?? []) as CustomField[];
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(template?.title ?? "");
+    setDescription(template?.description ?? "");
+    setType(template?.type ?? WorkItemType.TASK);
+    setPriority(template?.priority ?? WorkItemPriority.MEDIUM);
+    setStoryPoints(template?.storyPoints != null ? String(template.storyPoints) : "");
+    setAssigneeIds(template?.assigneeIds ?? []);
+    setLabels((template?.labels ?? []).join(", "));
+    setSubtaskTitles(template?.subtaskTitles ?? []);
+    setAddToActiveSprint(template?.addToActiveSprint ?? false);
+    setFrequency(template?.frequency ?? RecurrenceFrequency.WEEKLY);
+    setTimeOfDay(template?.timeOfDay ?? "09:00");
+    setWeekdays(template?.weekdays ?? [1]);
+    setMonthWeek(template?.monthWeek ?? 1);
+    setMonthWeekday(template?.monthWeekday ?? 1);
+    setCronExpression(template?.cronExpression ?? "");
+    setScheduleError(null);
+  }, [open, template]);
+
+  // Field definitions load separately from the template
+  useEffect(() => {
+    if (!open) return;
+    const values = new Map((template?.customFields ?? []).map((cf) => [cf.fieldId, cf.value]));
+    setCustomFields(Object.fromEntries(fields.map((field) => [field.$id, toFieldDraft(field, values.get(field.$id))])));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, template, customFieldData]);
+
+  const schedule = {
+    frequency,
+    timeOfDay: frequency === RecurrenceFrequency.CRON ? null : timeOfDay,
+    weekdays: frequency === RecurrenceFrequency.WEEKLY ? weekdays : null,
+    monthWeek: frequency === RecurrenceFrequency.MONTHLY ? monthWeek : null,
+    monthWeekday: frequency === RecurrenceFrequency.MONTHLY ? monthWeekday : null,
+    cronExpression: frequency === RecurrenceFrequency.CRON ? cronExpression.trim() : null,
+  };
+
+  const handleSubmit = () => {
+    try {
+      if (!getNextOccurrence(schedule, new Date())) {
+        setScheduleError("This schedule never fires.");
+        return;
+      }
+    } catch (error) {
+      if (!(error instanceof CronParseError)) throw error;
+      setScheduleError(error.message);
+      return;
+    }
+
+    const payload = {
+      ...schedule,
+      title: title.trim(),
+      description: description.trim() || null,
+      type,
+      priority,
+      storyPoints: storyPoints ? Number(storyPoints) : null,
+      assigneeIds,
+      labels: labels.split(",").map((l) => l.trim()).filter(Boolean),
+      customFields: fields
+        .map((field) => ({ fieldId: field.$id, value: fromFieldDraft(field, customFields[field.$id] ?? "") }))
+        .filter((cf) => cf.value !== null),
+      subtaskTitles: subtaskTitles.map((s) => s.trim()).filter(Boolean),
+      addToActiveSprint,
+    };
+
+    const options = { onSuccess: () => onOpenChange(false) };
+
+    if (template) {
+      updateTemplate({ param: { templateId: template.$id }, json: payload }, options);
+    } else {
+      createTemplate({ json: { ...payload, workspaceId, projectId } }, options);
+    }
+  };
+
+  const canSubmit = title.trim().length > 0 &&
+    (frequency !== RecurrenceFrequency.WEEKLY || weekdays.length > 0) &&
+    (frequency !== RecurrenceFrequency.CRON || cronExpression.trim().length > 0);
+
+  const renderCustomField = (field: CustomField) => {
+    const value = customFields[field.$id] ?? (LIST_FIELD_TYPES.has(field.type) ? [] : "");
+    const setValue = (next: string | string[]) => setCustomFields((prev) => ({ ...prev, [field.$id]: next }));
+
+    switch (field.type) {
+      case CustomFieldType.SELECT:
+        return (
+          <Select value={(value as string) || NONE_VALUE} onValueChange={(v) => setValue(v === NONE_VALUE ? "" : v)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE_VALUE}>None</SelectItem>
+              {(field.options ?? []).map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case CustomFieldType.MULTI_SELECT:
+        return (
+          <MultiSelect
+            options={(field.options ?? []).map((option) => ({ value: option.id, label: option.value }))}
+            selected={value as string[]}
+            onChange={setValue}
+            placeholder="Select options..."
+          />
+        );
+      case CustomFieldType.USER:
+      case CustomFieldType.USERS: {
+        const memberOptions = (members?.documents ?? []).map((m) => ({ value: m.$id, label: m.name || m.email || m.$id }));
+        return field.type === CustomFieldType.USERS ? (
+          <MultiSelect options={memberOptions} selected={value as string[]} onChange={setValue} placeholder="Select members..." />
+        ) : (
+          <Select value={(value as string) || NONE_VALUE} onValueChange={(v) => setValue(v === NONE_VALUE ? "" : v)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE_VALUE}>None</SelectItem>
+              {memberOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case CustomFieldType.CHECKBOX:
+        return (
+          <Checkbox
+            checked={value === "true"}
+            onCheckedChange={(checked) => setValue(checked === true ? "true" : "")}
+          />
+        );
+      case CustomFieldType.LABELS:
+        return (
+          <Input
+            className="h-8"
+            value={(value as string[]).join(", ")}
+            onChange={(e) => setValue(e.target.value.split(",").map((l) => l.trim()).filter(Boolean))}
+            placeholder="Comma-separated labels"
+          />
+        );
+      default:
+        return (
+          <Input
+            className="h-8"
+            type={NUMBER_FIELD_TYPES.has(field.type) ? "number" : field.type === CustomFieldType.DATE ? "date" : "text"}
+            value={value as string}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={field.placeholder ?? undefined}
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="size-5" />
+            {template ? "Edit Recurring Work Item" : "New Recurring Work Item"}
+          </DialogTitle>
+          <DialogDescription>
+            A work item with these details is created automatically on every occurrence.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Schedule */}
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">Repeat (UTC)</Label>
+            <div className="flex gap-2">
+              <Select
+                value={frequency}
+                onValueChange={(v) => {
+                  setFrequency(v as RecurrenceFrequency);
+                  setScheduleError(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={RecurrenceFrequency.DAILY}>Every day</SelectItem>
+                  <SelectItem value={RecurrenceFrequency.WEEKLY}>Weekly on specific days</SelectItem>
+                  <SelectItem value={RecurrenceFrequency.MONTHLY}>Monthly on a weekday</SelectItem>
+                  <SelectItem value={RecurrenceFrequency.CRON}>Cron expression</SelectItem>
+                </SelectContent>
+              </Select>
+              {frequency !== RecurrenceFrequency.CRON && (
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={timeOfDay}
+                  onChange={(e) => setTimeOfDay(e.target.value)}
+                />
+              )}
+            </div>
+
+            {frequency === RecurrenceFrequency.WEEKLY && (
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_OPTIONS.map((day) => {
+                  const selected = weekdays.includes(day.value);
+                  return (
+                    <Button
+                      key={day.value}
+                      type="button"
+                      size="sm"
+                      variant={selected ? "primary" : "outline"}
+                      className="h-8 w-12"
+                      onClick={() => setWeekdays((prev) => selected ? prev.filter((d) => d !== day.value) : [...prev, day.value])}
+                    >
+                      {day.label}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+
+            {frequency === RecurrenceFrequency.MONTHLY && (
+              <div className="flex gap-2">
+                <Select value={String(monthWeek)} onValueChange={(v) => setMonthWeek(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTH_WEEK_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={String(monthWeekday)} onValueChange={(v) => setMonthWeekday(Number(v))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAY_OPTIONS.map((day) => (
+                      <SelectItem key={day.value} value={String(day.value)}>{day.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {frequency === RecurrenceFrequency.CRON && (
+              <Input
+                value={cronExpression}
+                onChange={(e) => {
+                  setCronExpression(e.target.value);
+                  setScheduleError(null);
+                }}
+                placeholder="e.g. 0 9 * * 1-5"
+                className={cn("font-mono text-xs", scheduleError && "border-destructive")}
+              />
+            )}
+            {scheduleError && <p className="text-xs text-destructive">{scheduleError}</p>}
+          </div>
+
+          {/* Work item */}
+          <div className="space-y-2">
+            <Label htmlFor="recurring-title" className="text-xs font-semibold uppercase text-muted-foreground">Work item</Label>
+            <Input
+              id="recurring-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Weekly dependency review {date}"
+              maxLength={256}
+            />
+            <p className="text-xs text-muted-foreground">
+              <code>{"{date}"}</code> is replaced with the occurrence date.
+            </p>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              rows={3}
+              maxLength={10000}
+            />
+            <div className="flex gap-2">
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[WorkItemType.TASK, WorkItemType.STORY, WorkItemType.BUG].map((t) => (
+                    <SelectItem key={t} value={t}>{t.charAt(0) + t.slice(1).toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(WorkItemPriority).map((p) => (
+                    <SelectItem key={p} value={p}>{p.charAt(0) + p.slice(1).toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className="h-8 w-32"
+                type="number"
+                min={0}
+                max={100}
+                value={storyPoints}
+                onChange={(e) => setStoryPoints(e.target.value)}
+                placeholder="Points"
+              />
+            </div>
+            <MultiSelect
+              options={(members?.documents ?? []).map((m) => ({ value: m.$id, label: m.name || m.email || m.$id }))}
+              selected={assigneeIds}
+              onChange={setAssigneeIds}
+              placeholder="Assignees..."
+            />
+            <Input
+              className="h-8"
+              value={labels}
+              onChange={(e) => setLabels(e.target.value)}
+              placeholder="Comma-separated labels"
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={addToActiveSprint} onCheckedChange={(checked) => setAddToActiveSprint(checked === true)} />
+              Add to the active sprint (otherwise the backlog)
+            </label>
+          </div>
+
+          {fields.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-xs font-semibold uppercase text-muted-foreground">Custom fields</Label>
+              {fields.map((field) => (
+                <div key={field.$id} className="grid grid-cols-[160px_1fr] items-center gap-2">
+                  <span className="text-xs truncate" title={field.name}>{field.name}</span>
+                  {renderCustomField(field)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Subtasks */}
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">Subtasks</Label>
+            {subtaskTitles.map((subtask, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  className="h-8"
+                  value={subtask}
+                  onChange={(e) => setSubtaskTitles((prev) => prev.map((s, i) => (i === index ? e.target.value : s)))}
+                  placeholder="Subtask title"
+                  maxLength={256}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 shrink-0"
+                  onClick={() => setSubtaskTitles((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <TrashIcon className="size-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSubtaskTitles((prev) => [...prev, ""])}
+              disabled={subtaskTitles.length >= 50}
+            >
+              <PlusIcon className="size-4 mr-2" />
+              Add subtask
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending || !canSubmit}>
+            {isPending ? "Saving..." : template ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { PencilIcon, PlusIcon, Repeat, SkipForwardIcon, TrashIcon } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { useConfirm } from "@/hooks/use-confirm";
+
+import { useDeleteRecurringWorkItem } from "../api/use-delete-recurring-work-item";
+import { useGetRecurringWorkItems } from "../api/use-get-recurring-work-items";
+import { useSkipRecurringWorkItem } from "../api/use-skip-recurring-work-item";
+import { useUpdateRecurringWorkItem } from "../api/use-update-recurring-work-item";
+import { describeSchedule } from "../schedule";
+import { PopulatedRecurringWorkItem } from "../types";
+import { RecurringWorkItemDialog } from "./recurring-work-item-dialog";
+
+interface RecurringWorkItemsSettingsProps {
+  workspaceId: string;
+  projectId: string;
+  canManage: boolean;
+}
+
+export const RecurringWorkItemsSettings = ({
+  workspaceId,
+  projectId,
+  canManage,
+}: RecurringWorkItemsSettingsProps) => {
+  const { data, isLoading } = useGetRecurringWorkItems({ workspaceId, projectId });
+  const { mutate: updateTemplate } = useUpdateRecurringWorkItem();
+  const { mutate: deleteTemplate } = useDeleteRecurringWorkItem();
+  const { mutate: skipTemplate, isPending: isSkipping } = useSkipRecurringWorkItem();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<PopulatedRecurringWorkItem | null>(null);
+
+  const [DeleteDialog, confirmDelete] = useConfirm(
+    "Delete Recurring Work Item",
+    "No more work items will be created from this template. Items it already created are kept.",
+    "destructive"
+  );
+
+  const templates = (data?.documents ?? []) as PopulatedRecurringWorkItem[];
+
+  const openEditor = (template: PopulatedRecurringWorkItem | null) => {
+    setEditingTemplate(template);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (templateId: string) => {
+    const ok = await confirmDelete();
+    if (ok) {
+      deleteTemplate({ param: { templateId } });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <DeleteDialog />
+      <RecurringWorkItemDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        workspaceId={workspaceId}
+        projectId={projectId}
+        template={editingTemplate}
+      />
+
+      {canManage && (
+        <div className="flex justify-end">
+          <Button onClick={() => openEditor(null)} size="sm">
+            <PlusIcon className="size-4 mr-2" />
+            Add Recurring Item
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex flex-col gap-y-2">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : templates.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-md border border-dashed py-10 text-center">
+          <Repeat className="size-8 text-muted-foreground mb-2" />
+          <p className="text-sm font-medium">No recurring work items yet</p>
+          <p className="text-xs text-muted-foreground">
+            Create standups, reviews and checklists automatically on a schedule.
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-y-2">
+          {templates.map((template) => (
+            <div key={template.$id} className="rounded-md border p-3">
+              <div className="flex items-start gap-3">
+                <Switch
+                  checked={!template.paused}
+                  disabled={!canManage}
+                  title={template.paused ? "Resume" : "Pause"}
+                  onCheckedChange={(active) => updateTemplate({ param: { templateId: template.$id }, json: { paused: !active } })}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium truncate">{template.title}</p>
+                    <Badge variant="outline" className="text-[10px]">{template.type}</Badge>
+                    {template.paused && <Badge variant="secondary" className="text-[10px]">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{describeSchedule(template)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {template.paused
+                      ? "Paused, no work items will be created"
+                      : template.nextRunAt
+                        ? `Next: ${format(new Date(template.nextRunAt), "EEE, MMM d yyyy HH:mm")}`
+                        : "No upcoming occurrence"}
+                    {template.lastRunAt && ` · Last created ${formatDistanceToNow(new Date(template.lastRunAt), { addSuffix: true })}`}
+                  </p>
+                  {(template.subtaskTitles?.length ?? 0) > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {template.subtaskTitles!.length} subtask{template.subtaskTitles!.length === 1 ? "" : "s"}
+                    </p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Skip next occurrence"
+                      disabled={template.paused || !template.nextRunAt || isSkipping}
+                      onClick={() => skipTemplate({ param: { templateId: template.$id } })}
+                    >
+                      <SkipForwardIcon className="size-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Edit" onClick={() => openEditor(template)}>
+                      <PencilIcon className="size-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Delete" onClick={() => handleDelete(template.$id)}>
+                      <TrashIcon className="size-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
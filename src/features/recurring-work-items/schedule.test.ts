@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  CronParseError,
+  describeSchedule,
+  getNextOccurrence,
+  parseCronExpression,
+  renderRecurringTitle,
+} from "./schedule";
+import { RecurrenceFrequency } from "./types";
+
+// Wednesday
+const now = new Date("2026-03-04T10:30:00.000Z");
+
+describe("getNextOccurrence", () => {
+  it("fires daily at the given time, tomorrow once today's slot has passed", () => {
+    const schedule = { frequency: RecurrenceFrequency.DAILY, timeOfDay: "09:00" };
+    expect(getNextOccurrence(schedule, now)?.toISOString()).toBe("2026-03-05T09:00:00.000Z");
+    expect(getNextOccurrence({ ...schedule, timeOfDay: "11:15" }, now)?.toISOString()).toBe("2026-03-04T11:15:00.000Z");
+  });
+
+  it("fires weekly on the selected weekdays", () => {
+    const schedule = { frequency: RecurrenceFrequency.WEEKLY, timeOfDay: "08:00", weekdays: [1, 5] };
+    expect(getNextOccurrence(schedule, now)?.toISOString()).toBe("2026-03-06T08:00:00.000Z");
+    expect(getNextOccurrence(schedule, new Date("2026-03-06T08:00:00.000Z"))?.toISOString()).toBe("2026-03-09T08:00:00.000Z");
+  });
+
+  it("fires monthly on the Nth or last weekday", () => {
+    const second = { frequency: RecurrenceFrequency.MONTHLY, timeOfDay: "09:00", monthWeek: 2, monthWeekday: 2 };
+    expect(getNextOccurrence(second, now)?.toISOString()).toBe("2026-03-10T09:00:00.000Z");
+
+    const last = { frequency: RecurrenceFrequency.MONTHLY, timeOfDay: "09:00", monthWeek: -1, monthWeekday: 5 };
+    expect(getNextOccurrence(last, now)?.toISOString()).toBe("2026-03-27T09:00:00.000Z");
+  });
+
+  it("follows cron expressions", () => {
+    const schedule = { frequency: RecurrenceFrequency.CRON, cronExpression: "*/20 9-10 * * 1-5" };
+    expect(getNextOccurrence(schedule, now)?.toISOString()).toBe("2026-03-04T10:40:00.000Z");
+    expect(getNextOccurrence(schedule, new Date("2026-03-06T10:40:00.000Z"))?.toISOString()).toBe("2026-03-09T09:00:00.000Z");
+  });
+
+  it("matches either a restricted day of month or day of week, like cron", () => {
+    // The 1st of the month or any Sunday
+    const schedule = { frequency: RecurrenceFrequency.CRON, cronExpression: "0 6 1 * 0" };
+    expect(getNextOccurrence(schedule, now)?.toISOString()).toBe("2026-03-08T06:00:00.000Z");
+  });
+});
+
+describe("parseCronExpression", () => {
+  it("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("* * * *")).toThrow(CronParseError);
+    expect(() => parseCronExpression("61 * * * *")).toThrow(CronParseError);
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow(CronParseError);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+});
+
+describe("describeSchedule", () => {
+  it("summarizes each frequency", () => {
+    expect(describeSchedule({ frequency: RecurrenceFrequency.WEEKLY, timeOfDay: "9:05", weekdays: [5, 1] }))
+      .toBe("Weekly on Mon, Fri at 09:05 UTC");
+    expect(describeSchedule({ frequency: RecurrenceFrequency.MONTHLY, timeOfDay: "09:00", monthWeek: -1, monthWeekday: 5 }))
+      .toBe("Monthly on the last Fri at 09:00 UTC");
+  });
+});
+
+describe("renderRecurringTitle", () => {
+  it("fills in the occurrence date", () => {
+    expect(renderRecurringTitle("Ops checklist {date}", now)).toBe("Ops checklist 2026-03-04");
+  });
+});
@@ -0,0 +1,200 @@
+import { RecurrenceFrequency, RecurrenceSchedule } from "./types";
+
+/**
+ * Recurrence Schedules
+ *
+ * Finds the next time a recurring template fires. Everything is evaluated
+ * in UTC. Cron expressions use the standard five fields (minute, hour,
+ * day of month, month, day of week) with `*`, lists, ranges and steps;
+ * like cron, a restricted day of month and day of week match either one.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Long enough for a Feb 29 cron to find its next leap year */
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const ORDINALS: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "last" };
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronParseError";
+  }
+}
+
+type CronFields = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+function parseCronField(value: string, { name, min, max }: typeof CRON_FIELDS[number]): number[] {
+  const result = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`Invalid step "${stepText}" in ${name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max; // "5/15" means from 5 every 15
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new CronParseError(`Invalid ${name} "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) result.add(v);
+  }
+
+  return [...result].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field cron expression; throws CronParseError when it is invalid
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError("Cron expressions need five fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+function parseTimeOfDay(timeOfDay: string | null | undefined): { hour: number; minute: number } {
+  const match = timeOfDay?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return { hour: 0, minute: 0 };
+  return { hour: Math.min(Number(match[1]), 23), minute: Math.min(Number(match[2]), 59) };
+}
+
+/** Whether the UTC day is the Nth (or last, -1) given weekday of its month */
+function isNthWeekday(day: Date, week: number, weekday: number): boolean {
+  if (day.getUTCDay() !== weekday) return false;
+  const date = day.getUTCDate();
+  if (week === -1) {
+    const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+    return date + 7 > daysInMonth;
+  }
+  return Math.ceil(date / 7) === week;
+}
+
+/**
+ * Day filter and firing times (minutes after midnight, ascending) for a schedule
+ */
+function compileSchedule(schedule: RecurrenceSchedule): { matchesDay: (day: Date) => boolean; times: number[] } {
+  if (schedule.frequency === RecurrenceFrequency.CRON) {
+    const cron = parseCronExpression(schedule.cronExpression ?? "");
+    return {
+      matchesDay: (day) => {
+        if (!cron.months.has(day.getUTCMonth() + 1)) return false;
+        const dom = cron.daysOfMonth.has(day.getUTCDate());
+        const dow = cron.daysOfWeek.has(day.getUTCDay());
+        if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dom || dow;
+        if (cron.dayOfMonthRestricted) return dom;
+        if (cron.dayOfWeekRestricted) return dow;
+        return true;
+      },
+      times: cron.hours.flatMap((hour) => cron.minutes.map((minute) => hour * 60 + minute)),
+    };
+  }
+
+  const { hour, minute } = parseTimeOfDay(schedule.timeOfDay);
+  const times = [hour * 60 + minute];
+
+  switch (schedule.frequency) {
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = new Set(schedule.weekdays ?? []);
+      return { matchesDay: (day) => weekdays.has(day.getUTCDay()), times };
+    }
+    case RecurrenceFrequency.MONTHLY: {
+      const week = schedule.monthWeek ?? 1;
+      const weekday = schedule.monthWeekday ?? 1;
+      return { matchesDay: (day) => isNthWeekday(day, week, weekday), times };
+    }
+    default:
+      return { matchesDay: () => true, times };
+  }
+}
+
+/**
+ * First occurrence strictly after `after`, or null if there is none in the next few years
+ */
+export function getNextOccurrence(schedule: RecurrenceSchedule, after: Date): Date | null {
+  const { matchesDay, times } = compileSchedule(schedule);
+  if (times.length === 0) return null;
+
+  let dayStart = Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate());
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++, dayStart += DAY_MS) {
+    if (!matchesDay(new Date(dayStart))) continue;
+
+    for (const minutes of times) {
+      const candidate = dayStart + minutes * 60 * 1000;
+      if (candidate > after.getTime()) return new Date(candidate);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Human-readable schedule, e.g. "Monthly on the 2nd Tue at 09:00 UTC"
+ */
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+  const { hour, minute } = parseTimeOfDay(schedule.timeOfDay);
+  const at = `at ${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")} UTC`;
+
+  switch (schedule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return `Daily ${at}`;
+    case RecurrenceFrequency.WEEKLY: {
+      const days = [...(schedule.weekdays ?? [])].sort((a, b) => a - b).map((day) => WEEKDAY_NAMES[day]);
+      return `Weekly on ${days.join(", ") || "no days"} ${at}`;
+    }
+    case RecurrenceFrequency.MONTHLY:
+      return `Monthly on the ${ORDINALS[schedule.monthWeek ?? 1] ?? schedule.monthWeek} ${WEEKDAY_NAMES[schedule.monthWeekday ?? 1]} ${at}`;
+    case RecurrenceFrequency.CRON:
+      return `Cron "${schedule.cronExpression ?? ""}" (UTC)`;
+  }
+}
+
+/**
+ * Title of a spawned item; "{date}" becomes the occurrence date (YYYY-MM-DD)
+ */
+export function renderRecurringTitle(title: string, occurrence: Date): string {
+  return title.replace(/\{date\}/g, occurrence.toISOString().slice(0, 10));
+}
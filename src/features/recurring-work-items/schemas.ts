@@ -0,0 +1,76 @@
+import { z } from "zod";
+
+import { WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+
+import { CronParseError, parseCronExpression } from "./schedule";
+import { RecurrenceFrequency } from "./types";
+
+const scheduleFields = {
+  frequency: z.nativeEnum(RecurrenceFrequency),
+  timeOfDay: z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, "Use HH:mm").nullish(),
+  weekdays: z.array(z.number().int().min(0).max(6)).max(7).nullish(),
+  monthWeek: z.number().int().refine((week) => week === -1 || (week >= 1 && week <= 4), "Use 1-4 or -1 for last").nullish(),
+  monthWeekday: z.number().int().min(0).max(6).nullish(),
+  cronExpression: z.string().trim().max(256).nullish(),
+};
+
+// Defaults are applied on create so that partial updates never reset fields
+const baseRecurringWorkItemSchema = z.object({
+  ...scheduleFields,
+  title: z.string().trim().min(1, "Title is required").max(256),
+  description: z.string().max(10000).nullish(),
+  type: z.union([z.nativeEnum(WorkItemType), z.string()]).optional(),
+  priority: z.union([z.nativeEnum(WorkItemPriority), z.string()]).optional(),
+  storyPoints: z.number().min(0).max(100).nullish(),
+  estimatedHours: z.number().min(0).nullish(),
+  assigneeIds: z.array(z.string().trim().min(1)).max(20).optional(),
+  labels: z.array(z.string().trim().min(1)).max(20).optional(),
+  customFields: z.array(z.object({ fieldId: z.string().min(1), value: z.unknown() })).max(50).optional(),
+  subtaskTitles: z.array(z.string().trim().min(1).max(256)).max(50).optional(),
+  addToActiveSprint: z.boolean().optional(),
+  paused: z.boolean().optional(),
+});
+
+const refineSchedule = (
+  value: {
+    frequency?: RecurrenceFrequency;
+    weekdays?: number[] | null;
+    monthWeek?: number | null;
+    monthWeekday?: number | null;
+    cronExpression?: string | null;
+  },
+  ctx: z.RefinementCtx
+) => {
+  if (value.frequency === RecurrenceFrequency.WEEKLY && !value.weekdays?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["weekdays"], message: "Select at least one weekday" });
+  }
+  if (value.frequency === RecurrenceFrequency.MONTHLY && (value.monthWeek == null || value.monthWeekday == null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["monthWeek"], message: "Select the week and weekday" });
+  }
+  // A PATCH may send only the expression, so check it whenever it is present
+  if (value.frequency === RecurrenceFrequency.CRON || value.cronExpression) {
+    try {
+      parseCronExpression(value.cronExpression ?? "");
+    } catch (error) {
+      if (!(error instanceof CronParseError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cronExpression"], message: error.message });
+    }
+  }
+};
+
+export const createRecurringWorkItemSchema = baseRecurringWorkItemSchema
+  .extend({
+    workspaceId: z.string(),
+    projectId: z.string(),
+  })
+  .superRefine(refineSchedule);
+
+// Changing the frequency requires the fields that frequency needs
+export const updateRecurringWorkItemSchema = baseRecurringWorkItemSchema
+  .partial()
+  .superRefine(refineSchedule);
+
+export const getRecurringWorkItemsSchema = z.object({
+  workspaceId: z.string(),
+  projectId: z.string(),
+});
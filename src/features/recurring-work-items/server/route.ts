@@ -0,0 +1,275 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { ID, Query } from "node-appwrite";
+
+import { DATABASE_ID, PROJECTS_ID, RECURRING_WORK_ITEMS_ID } from "@/config";
+import { sessionMiddleware } from "@/lib/session-middleware";
+import { getMember } from "@/features/members/utils";
+import { Project } from "@/features/projects/types";
+import { WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+
+import { CronParseError, getNextOccurrence } from "../schedule";
+import {
+  createRecurringWorkItemSchema,
+  getRecurringWorkItemsSchema,
+  updateRecurringWorkItemSchema,
+} from "../schemas";
+import {
+  PopulatedRecurringWorkItem,
+  RecurrenceSchedule,
+  RecurringWorkItem,
+  parseRecurringCustomFields,
+} from "../types";
+import { canManageRecurringWorkItems } from "./utils";
+
+const SCHEDULE_FIELDS = ["frequency", "timeOfDay", "weekdays", "monthWeek", "monthWeekday", "cronExpression"] as const;
+
+function populateTemplate(template: RecurringWorkItem): PopulatedRecurringWorkItem {
+  return {
+    ...template,
+    customFields: parseRecurringCustomFields(template.customFields),
+  };
+}
+
+function nextRunAfter(schedule: RecurrenceSchedule, after: Date): string | null {
+  return getNextOccurrence(schedule, after)?.toISOString() ?? null;
+}
+
+const app = new Hono()
+  // List a project's recurring templates
+  .get(
+    "/",
+    sessionMiddleware,
+    zValidator("query", getRecurringWorkItemsSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)) {
+        return c.json({ error: "Forbidden: No access to this project" }, 403);
+      }
+
+      const templates = await databases.listDocuments<RecurringWorkItem>(
+        DATABASE_ID,
+        RECURRING_WORK_ITEMS_ID,
+        [
+          Query.equal("workspaceId", workspaceId),
+          Query.equal("projectId", projectId),
+          Query.orderAsc("$createdAt"),
+          Query.limit(100),
+        ]
+      );
+
+      return c.json({
+        data: {
+          documents: templates.documents.map(populateTemplate),
+          total: templates.total,
+        },
+      });
+    }
+  )
+
+  .post(
+    "/",
+    sessionMiddleware,
+    zValidator("json", createRecurringWorkItemSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, customFields, ...rest } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+      if (project.workspaceId !== workspaceId) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+
+      if (!(await canManageRecurringWorkItems(databases, user.$id, projectId))) {
+        return c.json({ error: "Forbidden: You cannot manage recurring work items in this project" }, 403);
+      }
+
+      const nextRunAt = nextRunAfter(rest, new Date());
+      if (!nextRunAt) {
+        return c.json({ error: "This schedule never fires" }, 400);
+      }
+
+      const template = await databases.createDocument<RecurringWorkItem>(
+        DATABASE_ID,
+        RECURRING_WORK_ITEMS_ID,
+        ID.unique(),
+        {
+          ...rest,
+          workspaceId,
+          projectId,
+          type: rest.type ?? WorkItemType.TASK,
+          priority: rest.priority ?? WorkItemPriority.MEDIUM,
+          assigneeIds: rest.assigneeIds ?? [],
+          labels: rest.labels ?? [],
+          customFields: customFields?.length ? JSON.stringify(customFields) : null,
+          subtaskTitles: rest.subtaskTitles ?? [],
+          addToActiveSprint: rest.addToActiveSprint ?? false,
+          paused: rest.paused ?? false,
+          nextRunAt,
+          createdBy: user.$id,
+        }
+      );
+
+      return c.json({ data: populateTemplate(template) });
+    }
+  )
+
+  .patch(
+    "/:templateId",
+    sessionMiddleware,
+    zValidator("json", updateRecurringWorkItemSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { templateId } = c.req.param();
+      const { customFields, ...rest } = c.req.valid("json");
+
+      const existing = await databases.getDocument<RecurringWorkItem>(DATABASE_ID, RECURRING_WORK_ITEMS_ID, templateId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageRecurringWorkItems(databases, user.$id, existing.projectId))) {
+        return c.json({ error: "Forbidden: You cannot manage recurring work items in this project" }, 403);
+      }
+
+      const updates: Record<string, unknown> = { ...rest };
+      if (customFields !== undefined) {
+        updates.customFields = customFields.length ? JSON.stringify(customFields) : null;
+      }
+
+      // A new schedule, or resuming a paused template, starts counting from
+      // now so occurrences missed while paused are not spawned
+      const scheduleChanged = SCHEDULE_FIELDS.some((field) => rest[field] !== undefined);
+      const resumed = existing.paused && rest.paused === false;
+      if (scheduleChanged || resumed) {
+        const schedule: RecurrenceSchedule = { ...existing, ...rest, frequency: rest.frequency ?? existing.frequency };
+        let nextRunAt: string | null;
+        try {
+          nextRunAt = nextRunAfter(schedule, new Date());
+        } catch (error) {
+          if (!(error instanceof CronParseError)) throw error;
+          return c.json({ error: error.message }, 400);
+        }
+        if (!nextRunAt) {
+          return c.json({ error: "This schedule never fires" }, 400);
+        }
+        updates.nextRunAt = nextRunAt;
+      }
+
+      const template = await databases.updateDocument<RecurringWorkItem>(
+        DATABASE_ID,
+        RECURRING_WORK_ITEMS_ID,
+        templateId,
+        updates
+      );
+
+      return c.json({ data: populateTemplate(template) });
+    }
+  )
+
+  .delete(
+    "/:templateId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { templateId } = c.req.param();
+
+      const existing = await databases.getDocument<RecurringWorkItem>(DATABASE_ID, RECURRING_WORK_ITEMS_ID, templateId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageRecurringWorkItems(databases, user.$id, existing.projectId))) {
+        return c.json({ error: "Forbidden: You cannot manage recurring work items in this project" }, 403);
+      }
+
+      await databases.deleteDocument(DATABASE_ID, RECURRING_WORK_ITEMS_ID, templateId);
+
+      return c.json({ data: { $id: templateId } });
+    }
+  )
+
+  // Skip the upcoming occurrence; the template fires again on the one after
+  .post(
+    "/:templateId/skip",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { templateId } = c.req.param();
+
+      const existing = await databases.getDocument<RecurringWorkItem>(DATABASE_ID, RECURRING_WORK_ITEMS_ID, templateId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageRecurringWorkItems(databases, user.$id, existing.projectId))) {
+        return c.json({ error: "Forbidden: You cannot manage recurring work items in this project" }, 403);
+      }
+
+      const now = new Date();
+      const upcoming = existing.nextRunAt && new Date(existing.nextRunAt) > now
+        ? new Date(existing.nextRunAt)
+        : now;
+
+      const template = await databases.updateDocument<RecurringWorkItem>(
+        DATABASE_ID,
+        RECURRING_WORK_ITEMS_ID,
+        templateId,
+        { nextRunAt: nextRunAfter(existing, upcoming) }
+      );
+
+      return c.json({ data: populateTemplate(template) });
+    }
+  );
+
+export default app;
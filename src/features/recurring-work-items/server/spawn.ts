@@ -0,0 +1,194 @@
+import "server-only";
+
+import { Databases, ID, Query } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  PROJECTS_ID,
+  RECURRING_WORK_ITEMS_ID,
+  SPRINTS_ID,
+  WORK_ITEMS_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { dispatchWorkitemEvent } from "@/lib/notifications";
+import { createAssignedEvent, createTaskCreatedEvent } from "@/lib/notifications/events";
+import { invalidateCachePattern, CKPattern } from "@/lib/redis";
+import { pushBoardEvent } from "@/lib/socket/board-push";
+import { Project } from "@/features/projects/types";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
+import { createSubtasksFromTitles } from "@/features/subtasks/server/utils";
+import { generateWorkItemKey } from "@/features/sprints/server/work-item-keys";
+import { Sprint, SprintStatus, WorkItem, WorkItemStatus } from "@/features/sprints/types";
+import { createdChange } from "@/features/tasks/change-log";
+import { recordWorkItemChange } from "@/features/tasks/server/change-log";
+import { Task, WorkItemChangeSource } from "@/features/tasks/types";
+import { getInitialStatusKey } from "@/features/workflows/server/transition-utils";
+
+import { getNextOccurrence, renderRecurringTitle } from "../schedule";
+import { RecurringWorkItem, parseRecurringCustomFields } from "../types";
+
+/**
+ * Recurring Work Items
+ *
+ * POST /cron/recurring-work-items/run spawns a work item for every template
+ * whose nextRunAt has passed. nextRunAt is advanced before the item is
+ * created, so a later cron call skips the occurrence and one that failed
+ * midway isn't retried into a duplicate. Appwrite has no conditional
+ * update, so two cron calls reading the same template at the same moment
+ * can still both spawn it; the cron is expected to run one call at a time.
+ * Occurrences missed while the cron was down collapse into a single item.
+ */
+
+const SYSTEM_USER_ID = "system";
+const SYSTEM_USER_NAME = "Recurring work";
+const PAGE_SIZE = 100;
+
+/**
+ * Create the work item (and its subtasks) for one occurrence of a template
+ */
+export async function spawnRecurringWorkItem(
+  databases: Databases,
+  template: RecurringWorkItem,
+  occurrence: Date = new Date()
+): Promise<WorkItem> {
+  const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, template.projectId);
+
+  const [status, activeSprints, lastInBacklog] = await Promise.all([
+    getInitialStatusKey(databases, project.workflowId, WorkItemStatus.TODO),
+    template.addToActiveSprint
+      ? databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+          Query.equal("projectId", template.projectId),
+          Query.equal("status", SprintStatus.ACTIVE),
+          Query.limit(1),
+        ])
+      : null,
+    databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+      Query.equal("projectId", template.projectId),
+      Query.orderDesc("position"),
+      Query.limit(1),
+    ]),
+  ]);
+
+  const customFields = parseRecurringCustomFields(template.customFields);
+  const assigneeIds = template.assigneeIds ?? [];
+
+  const workItem = await databases.createDocument<WorkItem>(
+    DATABASE_ID,
+    WORK_ITEMS_ID,
+    ID.unique(),
+    {
+      key: await generateWorkItemKey(databases, template.projectId),
+      title: renderRecurringTitle(template.title, occurrence),
+      description: template.description ?? null,
+      type: template.type,
+      status,
+      priority: template.priority,
+      storyPoints: template.storyPoints ?? undefined,
+      estimatedHours: template.estimatedHours ?? undefined,
+      workspaceId: template.workspaceId,
+      projectId: template.projectId,
+      sprintId: activeSprints?.documents[0]?.$id ?? null,
+      assigneeIds,
+      labels: template.labels ?? [],
+      customFields: customFields.length > 0 ? JSON.stringify(customFields) : null,
+      flagged: false,
+      position: (lastInBacklog.documents[0]?.position ?? 0) + 1000,
+      watcherIds: [template.createdBy],
+    }
+  );
+
+  await createSubtasksFromTitles(databases, {
+    parentTaskId: workItem.$id,
+    workspaceId: template.workspaceId,
+    createdBy: template.createdBy,
+    titles: template.subtaskTitles ?? [],
+  });
+
+  await recordWorkItemChange(databases, {
+    item: workItem,
+    changes: [createdChange(workItem)],
+    changedBy: SYSTEM_USER_ID,
+    changedByName: SYSTEM_USER_NAME,
+    source: WorkItemChangeSource.RECURRING,
+  });
+
+  const taskLike = { ...workItem, name: workItem.title } as unknown as Task;
+  dispatchWorkitemEvent(createTaskCreatedEvent(taskLike, SYSTEM_USER_ID, SYSTEM_USER_NAME)).catch(() => { });
+  if (assigneeIds.length > 0) {
+    dispatchWorkitemEvent(createAssignedEvent(taskLike, SYSTEM_USER_ID, SYSTEM_USER_NAME, assigneeIds)).catch(() => { });
+  }
+
+  syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+  pushBoardEvent({
+    type: "workitem:created",
+    projectId: workItem.projectId,
+    workspaceId: workItem.workspaceId,
+    actorId: SYSTEM_USER_ID,
+    items: [{ $id: workItem.$id }],
+  });
+  await invalidateCachePattern(CKPattern.workItemLists(workItem.workspaceId));
+
+  return workItem;
+}
+
+export interface RecurringRunResult {
+  templatesProcessed: number;
+  itemsCreated: number;
+  errors: number;
+}
+
+/**
+ * Spawn work items for every due, unpaused template (recurring cron)
+ */
+export async function runDueRecurringWorkItems(
+  now: Date = new Date()
+): Promise<RecurringRunResult> {
+  const { databases } = await createAdminClient();
+  const result: RecurringRunResult = { templatesProcessed: 0, itemsCreated: 0, errors: 0 };
+
+  // Page by $id: claimed templates drop out of the query, while ones that
+  // failed before their claim stay in it and must not be read again
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await databases.listDocuments<RecurringWorkItem>(
+      DATABASE_ID,
+      RECURRING_WORK_ITEMS_ID,
+      [
+        Query.equal("paused", false),
+        Query.lessThanEqual("nextRunAt", now.toISOString()),
+        Query.orderAsc("$id"),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const template of page.documents) {
+      result.templatesProcessed++;
+      const occurrence = new Date(template.nextRunAt!);
+
+      try {
+        // Claim the occurrence first so a later cron call doesn't spawn it again
+        const nextRunAt = getNextOccurrence(template, now);
+        await databases.updateDocument(DATABASE_ID, RECURRING_WORK_ITEMS_ID, template.$id, {
+          nextRunAt: nextRunAt?.toISOString() ?? null,
+        });
+
+        const workItem = await spawnRecurringWorkItem(databases, template, occurrence);
+        await databases.updateDocument(DATABASE_ID, RECURRING_WORK_ITEMS_ID, template.$id, {
+          lastRunAt: now.toISOString(),
+          lastWorkItemId: workItem.$id,
+        });
+        result.itemsCreated++;
+      } catch (error) {
+        result.errors++;
+        console.error(`[RecurringWorkItems] Failed for template ${template.$id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return result;
+}
@@ -0,0 +1,18 @@
+import "server-only";
+
+import { Databases } from "node-appwrite";
+
+/**
+ * Whether the user may create, edit, pause or skip recurring templates.
+ * Templates create work on the project's behalf, so like project
+ * automation rules they need MANAGE_SETTINGS.
+ */
+export async function canManageRecurringWorkItems(
+  databases: Databases,
+  userId: string,
+  projectId: string
+): Promise<boolean> {
+  const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+  const access = await resolveUserProjectAccess(databases, userId, projectId);
+  return access.hasAccess && hasProjectPermission(access, ProjectPermissionKey.MANAGE_SETTINGS);
+}
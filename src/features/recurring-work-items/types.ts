@@ -0,0 +1,58 @@
+import { Models } from "node-appwrite";
+
+import { CustomFieldValue, WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+
+export enum RecurrenceFrequency {
+  DAILY = "DAILY",
+  WEEKLY = "WEEKLY",     // On the selected weekdays
+  MONTHLY = "MONTHLY",   // On the Nth (or last) given weekday of the month
+  CRON = "CRON",         // Five-field cron expression
+}
+
+// When a template fires. All times are UTC.
+export type RecurrenceSchedule = {
+  frequency: RecurrenceFrequency;
+  timeOfDay?: string | null;      // "HH:mm", DAILY / WEEKLY / MONTHLY
+  weekdays?: number[] | null;     // 0 = Sunday ... 6 = Saturday, WEEKLY
+  monthWeek?: number | null;      // 1-4, or -1 for the last one, MONTHLY
+  monthWeekday?: number | null;   // 0-6, MONTHLY
+  cronExpression?: string | null; // CRON
+};
+
+// A project-level template that spawns a work item on a schedule.
+// `customFields` is stored as a JSON string.
+export type RecurringWorkItem = Models.Document & RecurrenceSchedule & {
+  workspaceId: string;
+  projectId: string;
+  title: string;                  // "{date}" is replaced with the occurrence date
+  description?: string | null;
+  type: WorkItemType | string;
+  priority: WorkItemPriority | string;
+  storyPoints?: number | null;
+  estimatedHours?: number | null;
+  assigneeIds?: string[] | null;
+  labels?: string[] | null;
+  customFields?: CustomFieldValue[] | string | null;
+  subtaskTitles?: string[] | null;
+  addToActiveSprint: boolean;
+  paused: boolean;
+  nextRunAt?: string | null;
+  lastRunAt?: string | null;
+  lastWorkItemId?: string | null;
+  createdBy: string;
+};
+
+export type PopulatedRecurringWorkItem = RecurringWorkItem & {
+  customFields: CustomFieldValue[];
+};
+
+export function parseRecurringCustomFields(raw: RecurringWorkItem["customFields"]): CustomFieldValue[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
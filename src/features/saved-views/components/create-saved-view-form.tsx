@@ -28,6 +28,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useCreateSavedView } from "../api/use-create-saved-view";
 import { createSavedViewSchema } from "../schemas";
 import { SavedViewType, SavedViewScope, SortConfig, FilterGroup } from "../types";
+import { validateJql } from "@/features/search/lib/jql";
 
 interface CreateSavedViewFormProps {
   workspaceId: string;
@@ -38,6 +39,7 @@ interface CreateSavedViewFormProps {
   // Pre-populate with current view state
   currentFilters?: FilterGroup;
   currentSort?: SortConfig[];
+  currentJql?: string;
 }
 
 const VIEW_TYPE_OPTIONS = [
@@ -66,6 +68,7 @@ export const CreateSavedViewForm = ({
   onSuccess,
   currentFilters,
   currentSort,
+  currentJql,
 }: CreateSavedViewFormProps) => {
   const { mutate: createView, isPending } = useCreateSavedView();
 
@@ -79,6 +82,7 @@ export const CreateSavedViewForm = ({
       description: "",
       type: SavedViewType.LIST,
       filters: currentFilters || undefined,
+      jql: currentJql || undefined,
       sort: currentSort || undefined,
       scope: SavedViewScope.PERSONAL,
       isDefault: false,
@@ -87,6 +91,14 @@ export const CreateSavedViewForm = ({
   });
 
   const onSubmit = (values: FormValues) => {
+    if (values.jql) {
+      const result = validateJql(values.jql);
+      if (!result.valid) {
+        form.setError("jql", { message: `${result.message} (at ${result.position + 1})` });
+        return;
+      }
+    }
+
     createView(
       { json: values },
       {
@@ -143,6 +155,30 @@ export const CreateSavedViewForm = ({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="jql"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Query (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      value={field.value ?? ""}
+                      placeholder="e.g., assignee = me() AND status != Done ORDER BY priority DESC"
+                      disabled={isPending}
+                      rows={2}
+                      className="font-mono text-xs"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    JQL query applied together with the view&apos;s filters
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -11,6 +11,7 @@ interface CreateSavedViewModalProps {
   spaceId?: string;
   currentFilters?: FilterGroup;
   currentSort?: SortConfig[];
+  currentJql?: string;
 }
 
 export const CreateSavedViewModal = ({
@@ -19,6 +20,7 @@ export const CreateSavedViewModal = ({
   spaceId,
   currentFilters,
   currentSort,
+  currentJql,
 }: CreateSavedViewModalProps) => {
   const { isOpen, setIsOpen, close } = useCreateSavedViewModal();
 
@@ -30,6 +32,7 @@ export const CreateSavedViewModal = ({
         spaceId={spaceId}
         currentFilters={currentFilters}
         currentSort={currentSort}
+        currentJql={currentJql}
         onCancel={close}
         onSuccess={close}
       />
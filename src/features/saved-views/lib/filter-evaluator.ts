@@ -0,0 +1,253 @@
+import { FilterCondition, FilterGroup, FilterOperator } from "../types";
+
+/**
+ * Saved View Filter Evaluator
+ *
+ * Evaluates a `FilterGroup` (the structure saved views persist) against a
+ * plain record. Used by server-side search and anything else that needs to
+ * answer "does this work item match these filters?" without a round trip.
+ *
+ * Semantics:
+ * - Array fields (assigneeIds, labels, ...) treat EQUALS as "contains" and
+ *   IN as "contains any of".
+ * - String comparisons are case-insensitive.
+ * - Values that look like dates are compared as timestamps.
+ */
+
+export interface FilterEvaluationContext {
+  /** Reads a field from the record. Defaults to a plain property lookup with custom field support. */
+  getFieldValue?: (record: Record<string, unknown>, condition: FilterCondition) => unknown;
+}
+
+export function isFilterGroup(node: FilterCondition | FilterGroup): node is FilterGroup {
+  return typeof node === "object" && node !== null && "logic" in node && Array.isArray((node as FilterGroup).conditions);
+}
+
+/**
+ * Parse a stored filter value (saved views persist filters as a JSON string).
+ */
+export function parseFilterGroup(raw: unknown): FilterGroup | null {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return parseFilterGroup(JSON.parse(raw));
+    } catch {
+      return null;
+    }
+  }
+  if (typeof raw === "object" && isFilterGroup(raw as FilterGroup)) {
+    return raw as FilterGroup;
+  }
+  return null;
+}
+
+/**
+ * Return a copy of the group with every leaf condition passed through `fn`.
+ * Returning `null` from `fn` drops the condition.
+ */
+export function mapFilterConditions(
+  group: FilterGroup,
+  fn: (condition: FilterCondition) => FilterCondition | FilterGroup | null
+): FilterGroup {
+  const conditions: (FilterCondition | FilterGroup)[] = [];
+
+  for (const node of group.conditions) {
+    if (isFilterGroup(node)) {
+      conditions.push(mapFilterConditions(node, fn));
+    } else {
+      const mapped = fn(node);
+      if (mapped) conditions.push(mapped);
+    }
+  }
+
+  return { logic: group.logic, conditions };
+}
+
+/**
+ * Collect every leaf condition in the group (depth-first).
+ */
+export function flattenFilterConditions(group: FilterGroup): FilterCondition[] {
+  const result: FilterCondition[] = [];
+  for (const node of group.conditions) {
+    if (isFilterGroup(node)) {
+      result.push(...flattenFilterConditions(node));
+    } else {
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+/**
+ * Combine several groups with AND, skipping empty ones.
+ */
+export function combineFilterGroups(...groups: (FilterGroup | null | undefined)[]): FilterGroup {
+  const present = groups.filter(
+    (g): g is FilterGroup => !!g && g.conditions.length > 0
+  );
+  if (present.length === 1) return present[0];
+  return { logic: "AND", conditions: present };
+}
+
+function defaultGetFieldValue(record: Record<string, unknown>, condition: FilterCondition): unknown {
+  if (condition.isCustomField) {
+    let customFields = record.customFields;
+    if (typeof customFields === "string") {
+      try {
+        customFields = JSON.parse(customFields);
+      } catch {
+        customFields = null;
+      }
+    }
+    if (Array.isArray(customFields)) {
+      const entry = customFields.find(
+        (cf: { fieldId?: string }) => cf && cf.fieldId === condition.field
+      );
+      return entry ? (entry as { value: unknown }).value : undefined;
+    }
+    return undefined;
+  }
+  return record[condition.field];
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+function toComparable(value: unknown): number | string | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (value instanceof Date) return value.getTime();
+  const str = String(value);
+  if (ISO_DATE_PATTERN.test(str)) {
+    const time = Date.parse(str);
+    if (!Number.isNaN(time)) return time;
+  }
+  if (str.trim() !== "" && !Number.isNaN(Number(str))) return Number(str);
+  return str.toLowerCase();
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (typeof left === "boolean" || typeof right === "boolean") {
+    return String(left) === String(right).toLowerCase();
+  }
+  return left === right;
+}
+
+function compare(a: unknown, b: unknown): number | null {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left === null || right === null) return null;
+  if (typeof left === "number" && typeof right === "number") return left - right;
+  if (typeof left === "string" && typeof right === "string") return left.localeCompare(right);
+  return null;
+}
+
+function asList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  return [value];
+}
+
+function containsText(haystack: unknown, needle: unknown): boolean {
+  if (needle === null || needle === undefined) return false;
+  const target = String(needle).toLowerCase();
+  return asList(haystack).some(
+    (item) => item !== null && item !== undefined && String(item).toLowerCase().includes(target)
+  );
+}
+
+/**
+ * Evaluate a single condition against a record.
+ */
+export function evaluateFilterCondition(
+  condition: FilterCondition,
+  record: Record<string, unknown>,
+  context: FilterEvaluationContext = {}
+): boolean {
+  const getFieldValue = context.getFieldValue ?? defaultGetFieldValue;
+  const fieldValue = getFieldValue(record, condition);
+  const expected = condition.value;
+  const isArrayField = Array.isArray(fieldValue);
+
+  switch (condition.operator) {
+    case FilterOperator.EQUALS:
+      return isArrayField
+        ? (fieldValue as unknown[]).some((v) => valuesEqual(v, expected))
+        : valuesEqual(fieldValue, expected);
+    case FilterOperator.NOT_EQUALS:
+      return isArrayField
+        ? !(fieldValue as unknown[]).some((v) => valuesEqual(v, expected))
+        : !valuesEqual(fieldValue, expected);
+    case FilterOperator.IN: {
+      const options = asList(expected);
+      return asList(fieldValue).some((v) => options.some((o) => valuesEqual(v, o)));
+    }
+    case FilterOperator.NOT_IN: {
+      const options = asList(expected);
+      return !asList(fieldValue).some((v) => options.some((o) => valuesEqual(v, o)));
+    }
+    case FilterOperator.CONTAINS:
+      return containsText(fieldValue, expected);
+    case FilterOperator.NOT_CONTAINS:
+      return !containsText(fieldValue, expected);
+    case FilterOperator.STARTS_WITH:
+      return typeof fieldValue === "string" && fieldValue.toLowerCase().startsWith(String(expected).toLowerCase());
+    case FilterOperator.ENDS_WITH:
+      return typeof fieldValue === "string" && fieldValue.toLowerCase().endsWith(String(expected).toLowerCase());
+    case FilterOperator.GREATER_THAN: {
+      const result = compare(fieldValue, expected);
+      return result !== null && result > 0;
+    }
+    case FilterOperator.LESS_THAN: {
+      const result = compare(fieldValue, expected);
+      return result !== null && result < 0;
+    }
+    case FilterOperator.GREATER_THAN_OR_EQUALS: {
+      const result = compare(fieldValue, expected);
+      return result !== null && result >= 0;
+    }
+    case FilterOperator.LESS_THAN_OR_EQUALS: {
+      const result = compare(fieldValue, expected);
+      return result !== null && result <= 0;
+    }
+    case FilterOperator.IS_EMPTY:
+      return isEmptyValue(fieldValue);
+    case FilterOperator.IS_NOT_EMPTY:
+      return !isEmptyValue(fieldValue);
+    case FilterOperator.BETWEEN: {
+      const [from, to] = asList(expected);
+      const lower = compare(fieldValue, from);
+      const upper = compare(fieldValue, to);
+      return lower !== null && upper !== null && lower >= 0 && upper <= 0;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a filter group against a record. An empty group matches everything.
+ */
+export function evaluateFilterGroup(
+  group: FilterGroup,
+  record: Record<string, unknown>,
+  context: FilterEvaluationContext = {}
+): boolean {
+  if (group.conditions.length === 0) return true;
+
+  const results = group.conditions.map((node) =>
+    isFilterGroup(node)
+      ? evaluateFilterGroup(node, record, context)
+      : evaluateFilterCondition(node, record, context)
+  );
+
+  return group.logic === "OR" ? results.some(Boolean) : results.every(Boolean);
+}
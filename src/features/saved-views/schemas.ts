@@ -78,6 +78,7 @@ export const createSavedViewSchema = z.object({
   projectId: z.string().optional(),
   
   filters: filterGroupSchema.optional(),
+  jql: z.string().trim().max(5000).optional(),
   sort: z.array(sortConfigSchema).optional(),
   
   kanbanConfig: kanbanViewConfigSchema.optional(),
@@ -100,6 +101,7 @@ export const updateSavedViewSchema = z.object({
   scope: z.nativeEnum(SavedViewScope).optional(),
   
   filters: filterGroupSchema.optional().nullable(),
+  jql: z.string().trim().max(5000).optional().nullable(),
   sort: z.array(sortConfigSchema).optional().nullable(),
   
   kanbanConfig: kanbanViewConfigSchema.optional().nullable(),
@@ -41,6 +41,7 @@ const app = new Hono()
         type,
         scope,
         filters,
+        jql,
         columns,
         sort,
         kanbanConfig,
@@ -99,6 +100,7 @@ const app = new Hono()
           type,
           scope: scope || SavedViewScope.PERSONAL,
           filters: filters ? JSON.stringify(filters) : null,
+          jql: jql || null,
           columns: columns ? JSON.stringify(columns) : null,
           sort: sort ? JSON.stringify(sort) : null,
           kanbanConfig: kanbanConfig ? JSON.stringify(kanbanConfig) : null,
@@ -294,6 +296,7 @@ const app = new Hono()
       if (updates.description !== undefined) updateData.description = updates.description;
       if (updates.scope !== undefined) updateData.scope = updates.scope;
       if (updates.filters !== undefined) updateData.filters = updates.filters ? JSON.stringify(updates.filters) : null;
+      if (updates.jql !== undefined) updateData.jql = updates.jql || null;
       if (updates.columns !== undefined) updateData.columns = updates.columns ? JSON.stringify(updates.columns) : null;
       if (updates.sort !== undefined) updateData.sort = updates.sort ? JSON.stringify(updates.sort) : null;
       if (updates.kanbanConfig !== undefined) updateData.kanbanConfig = updates.kanbanConfig ? JSON.stringify(updates.kanbanConfig) : null;
@@ -403,6 +406,7 @@ const app = new Hono()
           type: originalView.type,
           scope: SavedViewScope.PERSONAL,
           filters: originalView.filters,
+          jql: originalView.jql ?? null,
           columns: originalView.columns,
           sort: originalView.sort,
           kanbanConfig: originalView.kanbanConfig,
@@ -106,6 +106,7 @@ export type SavedView = Models.Document & {
   
   // Filter configuration
   filters?: FilterGroup | null;
+  jql?: string | null;         // JQL query, combined with filters (AND)
   
   // Sort configuration
   sort?: SortConfig[] | null;
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+
+import { FilterOperator } from "@/features/saved-views/types";
+import { evaluateFilterGroup } from "@/features/saved-views/lib/filter-evaluator";
+
+import { JqlParseError, parseJql, resolveJqlFunctions, validateJql } from "../lib/jql";
+
+describe("parseJql", () => {
+  it("parses a simple clause", () => {
+    const { filters, orderBy } = parseJql('status = "In Review"');
+    expect(filters).toEqual({
+      logic: "AND",
+      conditions: [{ field: "status", operator: FilterOperator.EQUALS, value: "In Review" }],
+    });
+    expect(orderBy).toEqual([]);
+  });
+
+  it("maps field aliases and respects AND/OR precedence", () => {
+    const { filters } = parseJql("assignee = me() AND label = backend OR priority = HIGH");
+    expect(filters).toEqual({
+      logic: "OR",
+      conditions: [
+        {
+          logic: "AND",
+          conditions: [
+            { field: "assigneeIds", operator: FilterOperator.EQUALS, value: "me()" },
+            { field: "labels", operator: FilterOperator.EQUALS, value: "backend" },
+          ],
+        },
+        { field: "priority", operator: FilterOperator.EQUALS, value: "HIGH" },
+      ],
+    });
+  });
+
+  it("parses IN lists, IS EMPTY and ORDER BY", () => {
+    const { filters, orderBy } = parseJql(
+      "type in (TASK, BUG) AND sprint is empty ORDER BY priority DESC, created"
+    );
+    expect(filters.conditions).toEqual([
+      { field: "type", operator: FilterOperator.IN, value: ["TASK", "BUG"] },
+      { field: "sprintId", operator: FilterOperator.IS_EMPTY, value: null },
+    ]);
+    expect(orderBy).toEqual([
+      { field: "priority", direction: "DESC" },
+      { field: "$createdAt", direction: "ASC" },
+    ]);
+  });
+
+  it("treats bare words as full-text terms", () => {
+    const { filters } = parseJql('login "reset password"');
+    expect(filters.conditions).toEqual([
+      { field: "text", operator: FilterOperator.CONTAINS, value: "login" },
+      { field: "text", operator: FilterOperator.CONTAINS, value: "reset password" },
+    ]);
+  });
+
+  it("treats unknown fields as custom fields", () => {
+    const { filters } = parseJql('cf[Risk Level] = High AND Customer ~ "acme"');
+    expect(filters.conditions).toEqual([
+      { field: "Risk Level", isCustomField: true, operator: FilterOperator.EQUALS, value: "High" },
+      { field: "Customer", isCustomField: true, operator: FilterOperator.CONTAINS, value: "acme" },
+    ]);
+  });
+
+  it("pushes NOT down into the conditions", () => {
+    const { filters } = parseJql("NOT (status = DONE OR labels in (wontfix))");
+    expect(filters).toEqual({
+      logic: "AND",
+      conditions: [
+        { field: "status", operator: FilterOperator.NOT_EQUALS, value: "DONE" },
+        { field: "labels", operator: FilterOperator.NOT_IN, value: ["wontfix"] },
+      ],
+    });
+  });
+
+  it("reports the position of syntax errors", () => {
+    expect(() => parseJql("status = ")).toThrow(JqlParseError);
+    expect(validateJql("status = (")).toMatchObject({ valid: false, position: 9 });
+    expect(validateJql("assignee = nobody()")).toMatchObject({ valid: false });
+    expect(validateJql("status = TODO ORDER BY priority")).toEqual({ valid: true });
+  });
+});
+
+describe("resolveJqlFunctions", () => {
+  const now = new Date("2025-03-12T10:00:00.000Z");
+
+  it("resolves me() and list-valued functions", () => {
+    const { filters } = parseJql("assignee = me() AND sprint = openSprints()");
+    const resolved = resolveJqlFunctions(filters, {
+      currentMemberId: "member-1",
+      openSprintIds: ["s1", "s2"],
+      now,
+    });
+    expect(resolved.conditions).toEqual([
+      { field: "assigneeIds", operator: FilterOperator.EQUALS, value: "member-1" },
+      { field: "sprintId", operator: FilterOperator.IN, value: ["s1", "s2"] },
+    ]);
+  });
+
+  it("resolves legacy preset date keywords", () => {
+    const resolved = resolveJqlFunctions(
+      { logic: "AND", conditions: [{ field: "dueDate", operator: FilterOperator.LESS_THAN, value: "today" }] },
+      { now }
+    );
+    const [condition] = resolved.conditions as { value: string }[];
+    expect(Date.parse(condition.value)).not.toBeNaN();
+  });
+});
+
+describe("JQL evaluation", () => {
+  const item = {
+    title: "Fix login redirect",
+    status: "IN_REVIEW",
+    assigneeIds: ["member-1", "member-2"],
+    labels: ["backend"],
+    storyPoints: 5,
+    dueDate: "2025-03-10T00:00:00.000Z",
+    sprintId: null,
+    customFields: JSON.stringify([{ fieldId: "field-risk", value: "High" }]),
+    text: "Fix login redirect FAIR-12 users are sent to the wrong page",
+  };
+
+  const matches = (query: string) =>
+    evaluateFilterGroup(
+      resolveJqlFunctions(parseJql(query).filters, { currentMemberId: "member-1", now: new Date("2025-03-12") }),
+      item
+    );
+
+  it("matches array, numeric and date fields", () => {
+    expect(matches("assignee = me() AND labels = BACKEND")).toBe(true);
+    expect(matches("points >= 5 AND points < 8")).toBe(true);
+    expect(matches("due < now()")).toBe(true);
+    expect(matches("sprint is not empty")).toBe(false);
+  });
+
+  it("matches full-text terms against the indexed content", () => {
+    expect(matches("wrong page")).toBe(true);
+    expect(matches("text ~ fair-12")).toBe(true);
+    expect(matches("missing")).toBe(false);
+  });
+
+  it("matches custom fields by id", () => {
+    const group = parseJql("cf[field-risk] = high").filters;
+    expect(evaluateFilterGroup(group, item)).toBe(true);
+  });
+});
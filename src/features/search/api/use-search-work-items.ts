@@ -0,0 +1,57 @@
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+import { QUERY_CONFIG } from "@/lib/query-config";
+
+interface UseSearchWorkItemsProps {
+  workspaceId: string;
+  projectId?: string;
+  q?: string | null;
+  jql?: string | null;
+  viewId?: string | null;
+  limit?: number;
+  enabled?: boolean;
+}
+
+export const useSearchWorkItems = ({
+  workspaceId,
+  projectId,
+  q,
+  jql,
+  viewId,
+  limit,
+  enabled = true,
+}: UseSearchWorkItemsProps) => {
+  const hasQuery = Boolean(q?.trim() || jql?.trim() || viewId);
+
+  const query = useQuery({
+    queryKey: ["search-work-items", workspaceId, projectId, q, jql, viewId, limit],
+    enabled: Boolean(workspaceId) && hasQuery && enabled,
+    staleTime: QUERY_CONFIG.DYNAMIC.staleTime,
+    gcTime: QUERY_CONFIG.DYNAMIC.gcTime,
+    placeholderData: keepPreviousData,
+    retry: false,
+    queryFn: async () => {
+      const response = await client.api.search["work-items"].$get({
+        query: {
+          workspaceId,
+          projectId: projectId || undefined,
+          q: q?.trim() || undefined,
+          jql: jql?.trim() || undefined,
+          viewId: viewId || undefined,
+          limit: limit ? String(limit) : undefined,
+        },
+      });
+
+      if (!response.ok) {
+        const body = await response.json() as { error?: string };
+        throw new Error(body.error || "Failed to search work items.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
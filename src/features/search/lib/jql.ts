@@ -0,0 +1,638 @@
+import {
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+import {
+  FilterCondition,
+  FilterGroup,
+  FilterOperator,
+  SortConfig,
+} from "@/features/saved-views/types";
+import { isFilterGroup, mapFilterConditions } from "@/features/saved-views/lib/filter-evaluator";
+
+/**
+ * JQL-style query language for work item search.
+ *
+ * Compiles queries like
+ *   status = "In Review" AND assignee = me() AND label in (backend) ORDER BY priority DESC
+ * into the saved-view `FilterGroup` structure so search, saved views and the
+ * client all share one filter representation.
+ *
+ * Bare words and quoted strings that are not followed by an operator are
+ * treated as full-text terms (`text ~ "..."`).
+ */
+
+// =============================================================================
+// FIELDS & FUNCTIONS
+// =============================================================================
+
+/** JQL field name (lowercase) → work item attribute */
+export const JQL_FIELD_ALIASES: Record<string, string> = {
+  status: "status",
+  assignee: "assigneeIds",
+  assignees: "assigneeIds",
+  reporter: "reporterId",
+  label: "labels",
+  labels: "labels",
+  priority: "priority",
+  type: "type",
+  issuetype: "type",
+  key: "key",
+  project: "projectId",
+  sprint: "sprintId",
+  epic: "epicId",
+  parent: "parentId",
+  summary: "title",
+  title: "title",
+  description: "description",
+  text: "text",
+  due: "dueDate",
+  duedate: "dueDate",
+  start: "startDate",
+  startdate: "startDate",
+  created: "$createdAt",
+  updated: "$updatedAt",
+  points: "storyPoints",
+  storypoints: "storyPoints",
+  estimate: "estimatedHours",
+  flagged: "flagged",
+};
+
+/** Functions that may appear as values, e.g. `assignee = me()` */
+export const JQL_FUNCTIONS = [
+  "me",
+  "currentUser",
+  "now",
+  "today",
+  "startOfDay",
+  "endOfDay",
+  "startOfWeek",
+  "endOfWeek",
+  "startOfMonth",
+  "endOfMonth",
+  "openSprints",
+] as const;
+
+export type JqlFunction = typeof JQL_FUNCTIONS[number];
+
+export interface ParsedJql {
+  filters: FilterGroup;
+  orderBy: SortConfig[];
+}
+
+export class JqlParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = "JqlParseError";
+  }
+}
+
+// =============================================================================
+// TOKENIZER
+// =============================================================================
+
+type TokenType = "WORD" | "STRING" | "OP" | "LPAREN" | "RPAREN" | "COMMA" | "EOF";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATOR_CHARS = new Set(["=", "!", ">", "<", "~"]);
+const WORD_PATTERN = /[A-Za-z0-9_\-.:@$/+]/;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "(") {
+      tokens.push({ type: "LPAREN", value: ch, position: i++ });
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ type: "RPAREN", value: ch, position: i++ });
+      continue;
+    }
+    if (ch === ",") {
+      tokens.push({ type: "COMMA", value: ch, position: i++ });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i++];
+      }
+      if (i >= input.length) {
+        throw new JqlParseError("Unterminated string", start);
+      }
+      i++;
+      tokens.push({ type: "STRING", value, position: start });
+      continue;
+    }
+
+    if (OPERATOR_CHARS.has(ch)) {
+      const start = i;
+      const two = input.slice(i, i + 2);
+      if (two === "!=" || two === ">=" || two === "<=" || two === "!~") {
+        tokens.push({ type: "OP", value: two, position: start });
+        i += 2;
+      } else if (ch === "!") {
+        throw new JqlParseError(`Unexpected "!"`, start);
+      } else {
+        tokens.push({ type: "OP", value: ch, position: start });
+        i++;
+      }
+      continue;
+    }
+
+    if (WORD_PATTERN.test(ch)) {
+      const start = i;
+      let value = "";
+      while (i < input.length && WORD_PATTERN.test(input[i])) {
+        value += input[i++];
+      }
+      // Custom field reference: cf[Field Name]
+      if (value.toLowerCase() === "cf" && input[i] === "[") {
+        const close = input.indexOf("]", i);
+        if (close === -1) {
+          throw new JqlParseError("Unterminated custom field reference", start);
+        }
+        value = `cf[${input.slice(i + 1, close).trim()}]`;
+        i = close + 1;
+      }
+      tokens.push({ type: "WORD", value, position: start });
+      continue;
+    }
+
+    throw new JqlParseError(`Unexpected character "${ch}"`, i);
+  }
+
+  tokens.push({ type: "EOF", value: "", position: input.length });
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+const KEYWORDS = new Set(["and", "or", "not", "in", "is", "empty", "null", "order", "by", "asc", "desc"]);
+
+const OPERATOR_MAP: Record<string, FilterOperator> = {
+  "=": FilterOperator.EQUALS,
+  "!=": FilterOperator.NOT_EQUALS,
+  ">": FilterOperator.GREATER_THAN,
+  "<": FilterOperator.LESS_THAN,
+  ">=": FilterOperator.GREATER_THAN_OR_EQUALS,
+  "<=": FilterOperator.LESS_THAN_OR_EQUALS,
+  "~": FilterOperator.CONTAINS,
+  "!~": FilterOperator.NOT_CONTAINS,
+};
+
+const NEGATED_OPERATORS: Record<FilterOperator, FilterOperator> = {
+  [FilterOperator.EQUALS]: FilterOperator.NOT_EQUALS,
+  [FilterOperator.NOT_EQUALS]: FilterOperator.EQUALS,
+  [FilterOperator.CONTAINS]: FilterOperator.NOT_CONTAINS,
+  [FilterOperator.NOT_CONTAINS]: FilterOperator.CONTAINS,
+  [FilterOperator.IN]: FilterOperator.NOT_IN,
+  [FilterOperator.NOT_IN]: FilterOperator.IN,
+  [FilterOperator.IS_EMPTY]: FilterOperator.IS_NOT_EMPTY,
+  [FilterOperator.IS_NOT_EMPTY]: FilterOperator.IS_EMPTY,
+  [FilterOperator.GREATER_THAN]: FilterOperator.LESS_THAN_OR_EQUALS,
+  [FilterOperator.LESS_THAN_OR_EQUALS]: FilterOperator.GREATER_THAN,
+  [FilterOperator.LESS_THAN]: FilterOperator.GREATER_THAN_OR_EQUALS,
+  [FilterOperator.GREATER_THAN_OR_EQUALS]: FilterOperator.LESS_THAN,
+  // No direct negation - handled in negate()
+  [FilterOperator.STARTS_WITH]: FilterOperator.STARTS_WITH,
+  [FilterOperator.ENDS_WITH]: FilterOperator.ENDS_WITH,
+  [FilterOperator.BETWEEN]: FilterOperator.BETWEEN,
+};
+
+/**
+ * Resolve a JQL field name to a filter condition field.
+ */
+export function resolveJqlField(name: string): { field: string; isCustomField?: boolean } {
+  const customMatch = name.match(/^cf\[(.+)\]$/i);
+  if (customMatch) {
+    return { field: customMatch[1], isCustomField: true };
+  }
+  const alias = JQL_FIELD_ALIASES[name.toLowerCase()];
+  if (alias) {
+    return { field: alias };
+  }
+  return { field: name, isCustomField: true };
+}
+
+function negate(node: FilterCondition | FilterGroup): FilterCondition | FilterGroup {
+  if (isFilterGroup(node)) {
+    return {
+      logic: node.logic === "AND" ? "OR" : "AND",
+      conditions: node.conditions.map(negate),
+    };
+  }
+
+  if (node.operator === FilterOperator.BETWEEN && Array.isArray(node.value)) {
+    const [from, to] = node.value;
+    return {
+      logic: "OR",
+      conditions: [
+        { ...node, operator: FilterOperator.LESS_THAN, value: from },
+        { ...node, operator: FilterOperator.GREATER_THAN, value: to },
+      ],
+    };
+  }
+
+  return { ...node, operator: NEGATED_OPERATORS[node.operator] };
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) { }
+
+  parse(): ParsedJql {
+    let filters: FilterGroup = { logic: "AND", conditions: [] };
+
+    if (!this.isKeyword("order") && this.peek().type !== "EOF") {
+      const expr = this.parseOr();
+      filters = isFilterGroup(expr) ? expr : { logic: "AND", conditions: [expr] };
+    }
+
+    const orderBy = this.isKeyword("order") ? this.parseOrderBy() : [];
+
+    const trailing = this.peek();
+    if (trailing.type !== "EOF") {
+      throw new JqlParseError(`Unexpected "${trailing.value}"`, trailing.position);
+    }
+
+    return { filters, orderBy };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "EOF") this.index++;
+    return token;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === "WORD" && token.value.toLowerCase() === keyword;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.isKeyword(keyword)) {
+      const token = this.peek();
+      throw new JqlParseError(`Expected "${keyword.toUpperCase()}"`, token.position);
+    }
+    this.next();
+  }
+
+  private parseOr(): FilterCondition | FilterGroup {
+    const nodes = [this.parseAnd()];
+    while (this.isKeyword("or")) {
+      this.next();
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { logic: "OR", conditions: nodes };
+  }
+
+  private startsTerm(): boolean {
+    const token = this.peek();
+    if (token.type === "LPAREN" || token.type === "STRING") return true;
+    if (token.type !== "WORD") return false;
+    const keyword = token.value.toLowerCase();
+    return keyword === "not" || !KEYWORDS.has(keyword);
+  }
+
+  private parseAnd(): FilterCondition | FilterGroup {
+    const nodes = [this.parseUnary()];
+    while (true) {
+      if (this.isKeyword("and")) {
+        this.next();
+        nodes.push(this.parseUnary());
+      } else if (this.startsTerm()) {
+        // Implicit AND between adjacent terms (e.g. free text words)
+        nodes.push(this.parseUnary());
+      } else {
+        break;
+      }
+    }
+    return nodes.length === 1 ? nodes[0] : { logic: "AND", conditions: nodes };
+  }
+
+  private parseUnary(): FilterCondition | FilterGroup {
+    if (this.isKeyword("not")) {
+      this.next();
+      return negate(this.parseUnary());
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterCondition | FilterGroup {
+    const token = this.peek();
+
+    if (token.type === "LPAREN") {
+      this.next();
+      const expr = this.parseOr();
+      const close = this.next();
+      if (close.type !== "RPAREN") {
+        throw new JqlParseError(`Expected ")"`, close.position);
+      }
+      return expr;
+    }
+
+    if (token.type !== "WORD" && token.type !== "STRING") {
+      throw new JqlParseError(
+        token.type === "EOF" ? "Unexpected end of query" : `Unexpected "${token.value}"`,
+        token.position
+      );
+    }
+
+    const following = this.peek(1);
+    const isClause =
+      following.type === "OP" ||
+      (following.type === "WORD" && ["in", "is", "not"].includes(following.value.toLowerCase()) &&
+        (following.value.toLowerCase() !== "not" || this.isKeyword("in", 2)));
+
+    if (!isClause) {
+      this.next();
+      return { field: "text", operator: FilterOperator.CONTAINS, value: token.value };
+    }
+
+    this.next();
+    return this.parseClause(token.value);
+  }
+
+  private parseClause(fieldName: string): FilterCondition {
+    const { field, isCustomField } = resolveJqlField(fieldName);
+    const base = isCustomField ? { field, isCustomField: true } : { field };
+
+    if (this.isKeyword("is")) {
+      this.next();
+      let negated = false;
+      if (this.isKeyword("not")) {
+        this.next();
+        negated = true;
+      }
+      if (!this.isKeyword("empty") && !this.isKeyword("null")) {
+        throw new JqlParseError(`Expected EMPTY after IS`, this.peek().position);
+      }
+      this.next();
+      return {
+        ...base,
+        operator: negated ? FilterOperator.IS_NOT_EMPTY : FilterOperator.IS_EMPTY,
+        value: null,
+      };
+    }
+
+    if (this.isKeyword("in") || (this.isKeyword("not") && this.isKeyword("in", 1))) {
+      const negated = this.isKeyword("not");
+      if (negated) this.next();
+      this.expectKeyword("in");
+      const value = this.peek().type === "LPAREN" ? this.parseList() : this.parseValue();
+      return {
+        ...base,
+        operator: negated ? FilterOperator.NOT_IN : FilterOperator.IN,
+        value,
+      };
+    }
+
+    const opToken = this.next();
+    const operator = OPERATOR_MAP[opToken.value];
+    if (opToken.type !== "OP" || !operator) {
+      throw new JqlParseError(`Expected an operator after "${fieldName}"`, opToken.position);
+    }
+
+    if (this.isKeyword("empty") || this.isKeyword("null")) {
+      this.next();
+      if (operator === FilterOperator.EQUALS) {
+        return { ...base, operator: FilterOperator.IS_EMPTY, value: null };
+      }
+      if (operator === FilterOperator.NOT_EQUALS) {
+        return { ...base, operator: FilterOperator.IS_NOT_EMPTY, value: null };
+      }
+      throw new JqlParseError(`EMPTY can only be used with = or !=`, opToken.position);
+    }
+
+    return { ...base, operator, value: this.parseValue() };
+  }
+
+  private parseList(): unknown[] {
+    const open = this.next();
+    if (open.type !== "LPAREN") {
+      throw new JqlParseError(`Expected "("`, open.position);
+    }
+    const values: unknown[] = [];
+    if (this.peek().type !== "RPAREN") {
+      values.push(this.parseValue());
+      while (this.peek().type === "COMMA") {
+        this.next();
+        values.push(this.parseValue());
+      }
+    }
+    const close = this.next();
+    if (close.type !== "RPAREN") {
+      throw new JqlParseError(`Expected ")"`, close.position);
+    }
+    return values;
+  }
+
+  private parseValue(): unknown {
+    const token = this.next();
+
+    if (token.type === "STRING") {
+      return token.value;
+    }
+
+    if (token.type !== "WORD") {
+      throw new JqlParseError(
+        token.type === "EOF" ? "Expected a value" : `Unexpected "${token.value}"`,
+        token.position
+      );
+    }
+
+    // Function call: name()
+    if (this.peek().type === "LPAREN") {
+      const fn = JQL_FUNCTIONS.find((f) => f.toLowerCase() === token.value.toLowerCase());
+      if (!fn) {
+        throw new JqlParseError(`Unknown function "${token.value}()"`, token.position);
+      }
+      this.next();
+      const close = this.next();
+      if (close.type !== "RPAREN") {
+        throw new JqlParseError(`Functions do not take arguments`, close.position);
+      }
+      return `${fn}()`;
+    }
+
+    if (/^-?\d+(\.\d+)?$/.test(token.value)) {
+      return Number(token.value);
+    }
+
+    const lower = token.value.toLowerCase();
+    if (lower === "true" || lower === "false") {
+      return lower === "true";
+    }
+
+    return token.value;
+  }
+
+  private parseOrderBy(): SortConfig[] {
+    this.expectKeyword("order");
+    this.expectKeyword("by");
+
+    const sorts: SortConfig[] = [];
+    do {
+      if (sorts.length > 0) this.next(); // comma
+      const token = this.next();
+      if (token.type !== "WORD" && token.type !== "STRING") {
+        throw new JqlParseError("Expected a field after ORDER BY", token.position);
+      }
+      let direction: SortConfig["direction"] = "ASC";
+      if (this.isKeyword("asc") || this.isKeyword("desc")) {
+        direction = this.next().value.toUpperCase() as SortConfig["direction"];
+      }
+      sorts.push({ field: resolveJqlField(token.value).field, direction });
+    } while (this.peek().type === "COMMA");
+
+    return sorts;
+  }
+}
+
+/**
+ * Parse a JQL string. Throws `JqlParseError` with the offending position.
+ */
+export function parseJql(input: string): ParsedJql {
+  return new Parser(tokenize(input)).parse();
+}
+
+/**
+ * Validate a JQL string without throwing. Useful for inline form errors.
+ */
+export function validateJql(input: string): { valid: true } | { valid: false; message: string; position: number } {
+  try {
+    parseJql(input);
+    return { valid: true };
+  } catch (error) {
+    if (error instanceof JqlParseError) {
+      return { valid: false, message: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// FUNCTION RESOLUTION
+// =============================================================================
+
+export interface JqlFunctionContext {
+  /** Workspace member ID of the current user (assigneeIds store member IDs) */
+  currentMemberId?: string;
+  /** IDs of ACTIVE sprints in scope */
+  openSprintIds?: string[];
+  now?: Date;
+}
+
+const FUNCTION_VALUE_PATTERN = /^(\w+)\(\)$/;
+
+// Keywords saved-view presets use as values (see VIEW_PRESETS)
+const LEGACY_DATE_KEYWORDS: Record<string, JqlFunction> = {
+  today: "startOfDay",
+  endofweek: "endOfWeek",
+};
+
+function resolveFunction(fn: string, context: JqlFunctionContext): unknown {
+  const now = context.now ?? new Date();
+
+  switch (fn.toLowerCase()) {
+    case "me":
+    case "currentuser":
+      return context.currentMemberId ?? null;
+    case "now":
+      return now.toISOString();
+    case "today":
+    case "startofday":
+      return startOfDay(now).toISOString();
+    case "endofday":
+      return endOfDay(now).toISOString();
+    case "startofweek":
+      return startOfWeek(now).toISOString();
+    case "endofweek":
+      return endOfWeek(now).toISOString();
+    case "startofmonth":
+      return startOfMonth(now).toISOString();
+    case "endofmonth":
+      return endOfMonth(now).toISOString();
+    case "opensprints":
+      return context.openSprintIds ?? [];
+    default:
+      return undefined;
+  }
+}
+
+function resolveValue(value: unknown, context: JqlFunctionContext): unknown {
+  if (Array.isArray(value)) {
+    return value.flatMap((v) => {
+      const resolved = resolveValue(v, context);
+      return Array.isArray(resolved) ? resolved : [resolved];
+    });
+  }
+  if (typeof value !== "string") return value;
+
+  const fnMatch = value.match(FUNCTION_VALUE_PATTERN);
+  if (fnMatch) {
+    const resolved = resolveFunction(fnMatch[1], context);
+    return resolved === undefined ? value : resolved;
+  }
+
+  const legacy = LEGACY_DATE_KEYWORDS[value.toLowerCase()];
+  if (legacy) {
+    return resolveFunction(legacy, context);
+  }
+
+  return value;
+}
+
+/**
+ * Replace function values (`me()`, `endOfWeek()`, ...) with concrete values.
+ * A function resolving to a list turns `=` into `IN`.
+ */
+export function resolveJqlFunctions(group: FilterGroup, context: JqlFunctionContext): FilterGroup {
+  return mapFilterConditions(group, (condition) => {
+    const value = resolveValue(condition.value, context);
+
+    if (Array.isArray(value) && !Array.isArray(condition.value)) {
+      if (condition.operator === FilterOperator.EQUALS) {
+        return { ...condition, operator: FilterOperator.IN, value };
+      }
+      if (condition.operator === FilterOperator.NOT_EQUALS) {
+        return { ...condition, operator: FilterOperator.NOT_IN, value };
+      }
+    }
+
+    return { ...condition, value };
+  });
+}
@@ -0,0 +1,209 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { Query } from "node-appwrite";
+import { z } from "zod";
+
+import { DATABASE_ID, PROJECTS_ID, SAVED_VIEWS_ID } from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { sessionMiddleware } from "@/lib/session-middleware";
+import { getMember } from "@/features/members/utils";
+import { Project } from "@/features/projects/types";
+import { combineFilterGroups, flattenFilterConditions, parseFilterGroup } from "@/features/saved-views/lib/filter-evaluator";
+import { FilterGroup, FilterOperator, SavedView, SavedViewScope, SortConfig } from "@/features/saved-views/types";
+
+import { JqlParseError, parseJql, resolveJqlFunctions } from "../lib/jql";
+import { reindexProject } from "./search-index";
+import { getOpenSprintIds, resolveFilterReferences, searchWorkItems } from "./search-service";
+
+function parseSort(raw: unknown): SortConfig[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw as SortConfig[];
+  try {
+    const parsed = JSON.parse(String(raw));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+const app = new Hono()
+  /**
+   * Search work items with free text and/or JQL.
+   *
+   * - `q`: plain text, matched against title, key, description, comments
+   *   and custom field values
+   * - `jql`: structured query, e.g. `assignee = me() AND status != Done ORDER BY priority DESC`
+   * - `viewId`: apply a saved view's filters/JQL/sort on top
+   */
+  .get(
+    "/work-items",
+    sessionMiddleware,
+    zValidator(
+      "query",
+      z.object({
+        workspaceId: z.string(),
+        projectId: z.string().optional(),
+        q: z.string().optional(),
+        jql: z.string().optional(),
+        viewId: z.string().optional(),
+        limit: z.coerce.number().min(1).max(1000).optional(),
+        offset: z.coerce.number().min(0).optional(),
+      })
+    ),
+    async (c) => {
+      const { users } = await createAdminClient();
+      const databases = c.get("databases");
+      const user = c.get("user");
+
+      const { workspaceId, projectId, q, jql, viewId, limit, offset } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+
+      if (projectId) {
+        const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+        if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)) {
+          return c.json({ error: "Forbidden: No access to this project" }, 403);
+        }
+      }
+
+      const groups: (FilterGroup | null)[] = [];
+      let orderBy: SortConfig[] = [];
+
+      try {
+        if (viewId) {
+          const view = await databases.getDocument<SavedView>(DATABASE_ID, SAVED_VIEWS_ID, viewId);
+          if (view.workspaceId !== workspaceId ||
+            (view.userId !== user.$id && view.scope === SavedViewScope.PERSONAL)) {
+            return c.json({ error: "Access denied" }, 403);
+          }
+          groups.push(parseFilterGroup(view.filters));
+          if (view.jql) {
+            const parsedView = parseJql(view.jql);
+            groups.push(parsedView.filters);
+            orderBy = parsedView.orderBy;
+          }
+          if (orderBy.length === 0) {
+            orderBy = parseSort(view.sort);
+          }
+        }
+
+        if (jql?.trim()) {
+          const parsed = parseJql(jql);
+          groups.push(parsed.filters);
+          if (parsed.orderBy.length > 0) {
+            orderBy = parsed.orderBy;
+          }
+        }
+      } catch (error) {
+        if (error instanceof JqlParseError) {
+          return c.json({ error: error.message, position: error.position }, 400);
+        }
+        throw error;
+      }
+
+      const textTerms = (q ?? "").trim().split(/\s+/).filter(Boolean);
+      if (textTerms.length > 0) {
+        groups.push({
+          logic: "AND",
+          conditions: textTerms.map((term) => ({ field: "text", operator: FilterOperator.CONTAINS, value: term })),
+        });
+      }
+
+      let filters = combineFilterGroups(...groups);
+
+      if (filters.conditions.length === 0 && !projectId) {
+        return c.json({ error: "Provide a project, a search term or a query" }, 400);
+      }
+
+      const needsOpenSprints = flattenFilterConditions(filters).some((condition) =>
+        JSON.stringify(condition.value ?? null).includes("openSprints()")
+      );
+      const openSprintIds = needsOpenSprints
+        ? await getOpenSprintIds(databases, workspaceId, projectId).catch(() => [])
+        : [];
+
+      filters = resolveJqlFunctions(filters, { currentMemberId: member.$id, openSprintIds });
+      filters = await resolveFilterReferences(databases, users, filters, workspaceId, projectId);
+
+      // Workspace-wide search covers only the projects the user can see,
+      // applied before paging so totals and pages stay consistent
+      let projectIds: string[] | undefined;
+      if (!projectId) {
+        const projects = await databases.listDocuments<Project>(DATABASE_ID, PROJECTS_ID, [
+          Query.equal("workspaceId", workspaceId),
+          Query.select(["$id"]),
+          Query.limit(1000),
+        ]);
+        projectIds = [];
+        for (const project of projects.documents) {
+          const access = await resolveUserProjectAccess(databases, user.$id, project.$id);
+          if (access.hasAccess && hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)) {
+            projectIds.push(project.$id);
+          }
+        }
+      }
+
+      const result = await searchWorkItems({
+        databases,
+        workspaceId,
+        projectId,
+        projectIds,
+        filters,
+        orderBy,
+        limit: limit ?? 200,
+        offset: offset ?? 0,
+      });
+
+      return c.json({ data: result });
+    }
+  )
+
+  // Rebuild the search index for a project (backfill / drift repair)
+  .post(
+    "/reindex",
+    sessionMiddleware,
+    zValidator(
+      "json",
+      z.object({
+        workspaceId: z.string(),
+        projectId: z.string(),
+      })
+    ),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.MANAGE_SETTINGS)) {
+        return c.json({ error: "Forbidden: Only project admins can rebuild the search index" }, 403);
+      }
+
+      const indexed = await reindexProject(projectId);
+
+      return c.json({ data: { projectId, indexed } });
+    }
+  );
+
+export default app;
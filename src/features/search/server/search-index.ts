@@ -0,0 +1,231 @@
+import "server-only";
+
+import { Databases, Models, Query } from "node-appwrite";
+
+import {
+  COMMENTS_ID,
+  CUSTOM_FIELDS_ID,
+  DATABASE_ID,
+  WORK_ITEMS_ID,
+  WORK_ITEM_SEARCH_INDEX_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { Comment } from "@/features/comments/types";
+import { CustomField, CustomFieldOption, CustomFieldValue } from "@/features/custom-fields/types";
+
+/**
+ * Work Item Search Index
+ *
+ * One document per work item (document $id = work item $id) holding a
+ * denormalized `content` string with a fulltext index. Content is built from
+ * the title, key, description, comments and custom field values so a single
+ * `Query.search("content", ...)` covers all of them.
+ *
+ * Index updates are best-effort: callers fire them without awaiting and a
+ * failure never blocks the write that triggered it. `POST /search/reindex`
+ * rebuilds a project if the index drifts; projects with no rows at all are
+ * backfilled by the first search that reaches them.
+ */
+
+const MAX_CONTENT_LENGTH = 65535;
+
+type IndexableWorkItem = {
+  $id: string;
+  workspaceId: string;
+  projectId: string;
+  title?: string | null;
+  name?: string | null;
+  key?: string | null;
+  description?: string | null;
+  customFields?: string | CustomFieldValue[] | null;
+};
+
+function stripHtml(value: string): string {
+  return value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseCustomFieldValues(raw: IndexableWorkItem["customFields"]): CustomFieldValue[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseOptions(options: CustomField["options"] | string): CustomFieldOption[] {
+  if (!options) return [];
+  if (Array.isArray(options)) return options;
+  try {
+    const parsed = JSON.parse(options);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build the searchable text for a work item. Select option IDs are replaced
+ * with their display values so users can search for what they see.
+ */
+export function buildSearchContent(
+  workItem: IndexableWorkItem,
+  comments: { content: string }[],
+  customFields: CustomField[]
+): string {
+  const parts: string[] = [];
+
+  if (workItem.key) parts.push(workItem.key);
+  const title = workItem.title ?? workItem.name;
+  if (title) parts.push(title);
+  if (workItem.description) parts.push(stripHtml(workItem.description));
+
+  const fieldsById = new Map(customFields.map((field) => [field.$id, field]));
+  for (const { fieldId, value } of parseCustomFieldValues(workItem.customFields)) {
+    if (value === null || value === undefined || value === "") continue;
+    const field = fieldsById.get(fieldId);
+    const options = field ? parseOptions(field.options ?? null) : [];
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      const option = options.find((o) => o.id === item);
+      parts.push(option ? option.value : String(item));
+    }
+  }
+
+  for (const comment of comments) {
+    if (comment.content) parts.push(stripHtml(comment.content));
+  }
+
+  return parts.join("\n").slice(0, MAX_CONTENT_LENGTH);
+}
+
+async function listWorkItemComments(databases: Databases, workItemId: string) {
+  const comments = await databases.listDocuments<Comment>(
+    DATABASE_ID,
+    COMMENTS_ID,
+    [Query.equal("taskId", workItemId), Query.orderAsc("$createdAt"), Query.limit(200)]
+  );
+  return comments.documents;
+}
+
+async function listWorkspaceCustomFields(databases: Databases, workspaceId: string) {
+  try {
+    const fields = await databases.listDocuments<CustomField>(
+      DATABASE_ID,
+      CUSTOM_FIELDS_ID,
+      [Query.equal("workspaceId", workspaceId), Query.limit(500)]
+    );
+    return fields.documents;
+  } catch {
+    return [];
+  }
+}
+
+async function upsertIndexDocument(
+  databases: Databases,
+  workItem: IndexableWorkItem,
+  content: string
+) {
+  const data = {
+    workItemId: workItem.$id,
+    workspaceId: workItem.workspaceId,
+    projectId: workItem.projectId,
+    content,
+  };
+
+  try {
+    await databases.updateDocument(DATABASE_ID, WORK_ITEM_SEARCH_INDEX_ID, workItem.$id, data);
+  } catch (error) {
+    if ((error as { code?: number }).code !== 404) throw error;
+    await databases.createDocument(DATABASE_ID, WORK_ITEM_SEARCH_INDEX_ID, workItem.$id, data);
+  }
+}
+
+/**
+ * Rebuild the index entry for a single work item.
+ */
+export async function syncWorkItemSearchIndex(workItemId: string): Promise<void> {
+  try {
+    const { databases } = await createAdminClient();
+    const workItem = await databases.getDocument<IndexableWorkItem & Models.Document>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      workItemId
+    );
+
+    const [comments, customFields] = await Promise.all([
+      listWorkItemComments(databases, workItemId),
+      listWorkspaceCustomFields(databases, workItem.workspaceId),
+    ]);
+
+    await upsertIndexDocument(databases, workItem, buildSearchContent(workItem, comments, customFields));
+  } catch (error) {
+    console.error("[SearchIndex] Failed to index work item:", workItemId, error);
+  }
+}
+
+/**
+ * Drop a work item from the index.
+ */
+export async function removeFromSearchIndex(workItemId: string): Promise<void> {
+  try {
+    const { databases } = await createAdminClient();
+    await databases.deleteDocument(DATABASE_ID, WORK_ITEM_SEARCH_INDEX_ID, workItemId);
+  } catch (error) {
+    if ((error as { code?: number }).code !== 404) {
+      console.error("[SearchIndex] Failed to remove work item:", workItemId, error);
+    }
+  }
+}
+
+/**
+ * Rebuild the index for every work item in a project. Returns the number of
+ * items indexed.
+ */
+export async function reindexProject(projectId: string): Promise<number> {
+  const { databases } = await createAdminClient();
+  const pageSize = 100;
+  let cursor: string | undefined;
+  let indexed = 0;
+  let customFields: CustomField[] | null = null;
+
+  while (true) {
+    const page = await databases.listDocuments<IndexableWorkItem & Models.Document>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        Query.equal("projectId", projectId),
+        Query.orderAsc("$id"),
+        Query.limit(pageSize),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    if (page.documents.length === 0) break;
+
+    if (!customFields) {
+      customFields = await listWorkspaceCustomFields(databases, page.documents[0].workspaceId);
+    }
+
+    for (const workItem of page.documents) {
+      const comments = await listWorkItemComments(databases, workItem.$id);
+      await upsertIndexDocument(databases, workItem, buildSearchContent(workItem, comments, customFields));
+      indexed++;
+    }
+
+    if (page.documents.length < pageSize) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return indexed;
+}
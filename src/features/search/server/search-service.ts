@@ -0,0 +1,551 @@
+import "server-only";
+
+import { Databases, Query, type Users as UsersType } from "node-appwrite";
+
+import {
+  CUSTOM_COLUMNS_ID,
+  CUSTOM_FIELDS_ID,
+  DATABASE_ID,
+  MEMBERS_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  WORK_ITEMS_ID,
+  WORK_ITEM_SEARCH_INDEX_ID,
+  WORKFLOW_STATUSES_ID,
+} from "@/config";
+import { batchGetUsers } from "@/lib/batch-users";
+import { CustomField, CustomFieldOption } from "@/features/custom-fields/types";
+import { Project } from "@/features/projects/types";
+import {
+  evaluateFilterGroup,
+  flattenFilterConditions,
+  isFilterGroup,
+  mapFilterConditions,
+} from "@/features/saved-views/lib/filter-evaluator";
+import { FilterCondition, FilterGroup, FilterOperator, SortConfig } from "@/features/saved-views/types";
+import { SprintStatus, WorkItem, WorkItemPriority, WorkItemStatus } from "@/features/sprints/types";
+
+import { reindexProject } from "./search-index";
+
+/**
+ * Server-side work item search.
+ *
+ * 1. Name references in the filter tree (status names, custom field names,
+ *    assignee emails) are rewritten to the IDs stored on work items.
+ * 2. Top-level text terms narrow the candidate set through the fulltext
+ *    index; simple top-level equality conditions are pushed to Appwrite.
+ * 3. The complete filter tree is evaluated in memory on the candidates, so
+ *    OR/NOT/custom-field conditions behave the same as saved views.
+ *
+ * Projects with no index rows yet (work items from before the index) are
+ * scanned instead of searched, and reindexed in the background.
+ */
+
+const ID_CHUNK_SIZE = 100;
+const PAGE_SIZE = 500;
+const MAX_SCAN = 5000;
+
+const PRIORITY_RANK: Record<string, number> = {
+  [WorkItemPriority.LOW]: 1,
+  [WorkItemPriority.MEDIUM]: 2,
+  [WorkItemPriority.HIGH]: 3,
+  [WorkItemPriority.URGENT]: 4,
+};
+
+// Fields Appwrite can filter on directly
+const PUSHDOWN_FIELDS = new Set(["status", "priority", "type", "projectId", "sprintId", "epicId", "parentId"]);
+const PUSHDOWN_ARRAY_FIELDS = new Set(["assigneeIds", "labels"]);
+
+export interface SearchWorkItemsOptions {
+  databases: Databases;
+  workspaceId: string;
+  projectId?: string;
+  // Workspace-wide searches only see these projects (the ones the user can read)
+  projectIds?: string[];
+  filters: FilterGroup;
+  orderBy: SortConfig[];
+  limit: number;
+  offset: number;
+}
+
+export interface SearchWorkItemsResult {
+  documents: WorkItem[];
+  total: number;
+  // More than MAX_SCAN work items were in scope: `total` counts only the ones read
+  truncated: boolean;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+function parseOptions(options: CustomField["options"] | string): CustomFieldOption[] {
+  if (!options) return [];
+  if (Array.isArray(options)) return options;
+  try {
+    const parsed = JSON.parse(options);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapConditionValues(condition: FilterCondition, fn: (value: unknown) => unknown): FilterCondition {
+  const value = Array.isArray(condition.value)
+    ? condition.value.map(fn)
+    : condition.value === null || condition.value === undefined
+      ? condition.value
+      : fn(condition.value);
+  return { ...condition, value };
+}
+
+// =============================================================================
+// REFERENCE RESOLUTION
+// =============================================================================
+
+async function buildStatusLookup(
+  databases: Databases,
+  workspaceId: string,
+  projectId?: string
+): Promise<Map<string, string>> {
+  const lookup = new Map<string, string>();
+
+  for (const status of Object.values(WorkItemStatus)) {
+    lookup.set(normalize(status), status);
+    lookup.set(normalize(status.replace(/_/g, " ")), status);
+  }
+
+  try {
+    const columns = await databases.listDocuments(
+      DATABASE_ID,
+      CUSTOM_COLUMNS_ID,
+      [Query.equal("workspaceId", workspaceId), Query.limit(500)]
+    );
+    for (const column of columns.documents) {
+      if (projectId && column.projectId && column.projectId !== projectId) continue;
+      lookup.set(normalize(column.name), column.$id);
+    }
+  } catch {
+    // Custom columns are optional
+  }
+
+  if (projectId) {
+    try {
+      const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+      if (project.workflowId) {
+        const statuses = await databases.listDocuments(
+          DATABASE_ID,
+          WORKFLOW_STATUSES_ID,
+          [Query.equal("workflowId", project.workflowId), Query.limit(200)]
+        );
+        for (const status of statuses.documents) {
+          lookup.set(normalize(status.key), status.key as string);
+          lookup.set(normalize(status.name), status.key as string);
+        }
+      }
+    } catch {
+      // Fall back to built-in statuses
+    }
+  }
+
+  return lookup;
+}
+
+async function buildMemberLookup(
+  databases: Databases,
+  users: UsersType,
+  workspaceId: string
+): Promise<Map<string, string>> {
+  const lookup = new Map<string, string>();
+  const members = await databases.listDocuments(
+    DATABASE_ID,
+    MEMBERS_ID,
+    [Query.equal("workspaceId", workspaceId), Query.limit(1000)]
+  );
+  const userMap = await batchGetUsers(users, members.documents.map((m) => m.userId as string));
+
+  for (const member of members.documents) {
+    lookup.set(normalize(member.$id), member.$id);
+    const user = userMap.get(member.userId as string);
+    if (user?.email) lookup.set(normalize(user.email), member.$id);
+    if (user?.name) lookup.set(normalize(user.name), member.$id);
+  }
+
+  return lookup;
+}
+
+/**
+ * Rewrite human-friendly references in a filter tree to stored IDs.
+ * Unknown names are left unchanged so they simply match nothing.
+ */
+export async function resolveFilterReferences(
+  databases: Databases,
+  users: UsersType,
+  filters: FilterGroup,
+  workspaceId: string,
+  projectId?: string
+): Promise<FilterGroup> {
+  const conditions = flattenFilterConditions(filters);
+  if (conditions.length === 0) return filters;
+
+  const needsStatuses = conditions.some((c) => c.field === "status");
+  const needsMembers = conditions.some((c) => c.field === "assigneeIds" || c.field === "reporterId");
+  const needsCustomFields = conditions.some((c) => c.isCustomField);
+
+  const [statusLookup, memberLookup, customFields] = await Promise.all([
+    needsStatuses ? buildStatusLookup(databases, workspaceId, projectId) : null,
+    needsMembers ? buildMemberLookup(databases, users, workspaceId).catch(() => null) : null,
+    needsCustomFields
+      ? databases
+        .listDocuments<CustomField>(DATABASE_ID, CUSTOM_FIELDS_ID, [
+          Query.equal("workspaceId", workspaceId),
+          Query.limit(500),
+        ])
+        .then((res) => res.documents)
+        .catch(() => [] as CustomField[])
+      : null,
+  ]);
+
+  return mapFilterConditions(filters, (condition) => {
+    if (condition.field === "status" && statusLookup) {
+      return mapConditionValues(condition, (v) => statusLookup.get(normalize(v)) ?? v);
+    }
+
+    if ((condition.field === "assigneeIds" || condition.field === "reporterId") && memberLookup) {
+      return mapConditionValues(condition, (v) => memberLookup.get(normalize(v)) ?? v);
+    }
+
+    if (condition.isCustomField && customFields) {
+      const name = normalize(condition.field);
+      const field = customFields.find(
+        (f) => f.$id === condition.field || normalize(f.key) === name || normalize(f.name) === name
+      );
+      if (!field) return condition;
+
+      const options = parseOptions(field.options ?? null);
+      const resolved = { ...condition, field: field.$id };
+      if (options.length === 0) return resolved;
+
+      return mapConditionValues(resolved, (v) => {
+        const option = options.find((o) => normalize(o.value) === normalize(v) || o.id === v);
+        return option ? option.id : v;
+      });
+    }
+
+    return condition;
+  });
+}
+
+/**
+ * IDs of ACTIVE sprints, for `openSprints()`.
+ */
+export async function getOpenSprintIds(
+  databases: Databases,
+  workspaceId: string,
+  projectId?: string
+): Promise<string[]> {
+  const sprints = await databases.listDocuments(
+    DATABASE_ID,
+    SPRINTS_ID,
+    [
+      Query.equal("workspaceId", workspaceId),
+      Query.equal("status", SprintStatus.ACTIVE),
+      ...(projectId ? [Query.equal("projectId", projectId)] : []),
+      Query.limit(100),
+    ]
+  );
+  return sprints.documents.map((s) => s.$id);
+}
+
+// =============================================================================
+// QUERY PLANNING
+// =============================================================================
+
+function getTopLevelConditions(filters: FilterGroup): FilterCondition[] {
+  if (filters.logic !== "AND") return [];
+  return filters.conditions.filter((node): node is FilterCondition => !isFilterGroup(node));
+}
+
+function toPushdownQuery(condition: FilterCondition): string | null {
+  if (condition.isCustomField) return null;
+  const { field, operator, value } = condition;
+
+  if (PUSHDOWN_FIELDS.has(field)) {
+    if (operator === FilterOperator.EQUALS && typeof value === "string") {
+      return Query.equal(field, value);
+    }
+    if (
+      operator === FilterOperator.IN &&
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.length <= ID_CHUNK_SIZE &&
+      value.every((v) => typeof v === "string")
+    ) {
+      return Query.equal(field, value as string[]);
+    }
+    if (operator === FilterOperator.IS_EMPTY && field !== "status") {
+      return Query.isNull(field);
+    }
+  }
+
+  if (PUSHDOWN_ARRAY_FIELDS.has(field) && operator === FilterOperator.EQUALS && typeof value === "string") {
+    return Query.contains(field, value);
+  }
+
+  return null;
+}
+
+function usesTextField(filters: FilterGroup): boolean {
+  return flattenFilterConditions(filters).some((c) => c.field === "text");
+}
+
+async function findIndexedCandidates(
+  databases: Databases,
+  terms: string[],
+  workspaceId: string,
+  projectId?: string
+): Promise<{ ids: string[]; truncated: boolean } | null> {
+  try {
+    const matches = await databases.listDocuments(
+      DATABASE_ID,
+      WORK_ITEM_SEARCH_INDEX_ID,
+      [
+        Query.equal("workspaceId", workspaceId),
+        ...(projectId ? [Query.equal("projectId", projectId)] : []),
+        Query.search("content", terms.join(" ")),
+        Query.select(["workItemId"]),
+        Query.limit(MAX_SCAN),
+      ]
+    );
+    return {
+      ids: matches.documents.map((d) => d.workItemId as string),
+      truncated: matches.total > matches.documents.length,
+    };
+  } catch (error) {
+    console.error("[Search] Fulltext index unavailable, scanning instead:", error);
+    return null;
+  }
+}
+
+// Projects being backfilled by this process, so repeated searches don't pile up
+const reindexing = new Set<string>();
+
+async function findUnindexedProjects(databases: Databases, projectIds: string[]): Promise<string[]> {
+  const checks = await Promise.all(
+    projectIds.map(async (projectId) => {
+      try {
+        const rows = await databases.listDocuments(DATABASE_ID, WORK_ITEM_SEARCH_INDEX_ID, [
+          Query.equal("projectId", projectId),
+          Query.select(["$id"]),
+          Query.limit(1),
+        ]);
+        return rows.total === 0 ? projectId : null;
+      } catch {
+        return null;
+      }
+    })
+  );
+  return checks.filter((projectId): projectId is string => projectId !== null);
+}
+
+function backfillSearchIndex(projectIds: string[]) {
+  for (const projectId of projectIds) {
+    if (reindexing.has(projectId)) continue;
+    reindexing.add(projectId);
+    reindexProject(projectId)
+      .catch((error) => console.error("[Search] Failed to backfill project index:", projectId, error))
+      .finally(() => reindexing.delete(projectId));
+  }
+}
+
+async function loadIndexedContent(databases: Databases, workItemIds: string[]): Promise<Map<string, string>> {
+  const content = new Map<string, string>();
+  for (const ids of chunk(workItemIds, ID_CHUNK_SIZE)) {
+    try {
+      const docs = await databases.listDocuments(
+        DATABASE_ID,
+        WORK_ITEM_SEARCH_INDEX_ID,
+        [Query.equal("$id", ids), Query.limit(ids.length)]
+      );
+      for (const doc of docs.documents) {
+        content.set(doc.$id, doc.content as string);
+      }
+    } catch {
+      // Fall back to title/description below
+    }
+  }
+  return content;
+}
+
+async function loadWorkItems(
+  databases: Databases,
+  baseQueries: string[],
+  candidateIds: string[] | null
+): Promise<{ items: WorkItem[]; truncated: boolean }> {
+  const items: WorkItem[] = [];
+
+  if (candidateIds) {
+    for (const ids of chunk(candidateIds, ID_CHUNK_SIZE)) {
+      const page = await databases.listDocuments<WorkItem>(
+        DATABASE_ID,
+        WORK_ITEMS_ID,
+        [...baseQueries, Query.equal("$id", ids), Query.limit(ids.length)]
+      );
+      items.push(...page.documents);
+    }
+    return { items, truncated: false };
+  }
+
+  let cursor: string | undefined;
+  let truncated = false;
+  while (true) {
+    const page = await databases.listDocuments<WorkItem>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        ...baseQueries,
+        Query.orderAsc("$id"),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+    items.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    if (items.length >= MAX_SCAN) {
+      truncated = true;
+      break;
+    }
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return { items, truncated };
+}
+
+// =============================================================================
+// SORTING
+// =============================================================================
+
+function keyNumber(key: string | undefined): number {
+  return parseInt(key?.split("-")[1] || "0", 10);
+}
+
+function sortValue(item: WorkItem, field: string): number | string | null {
+  const value = (item as unknown as Record<string, unknown>)[field];
+  if (value === null || value === undefined || value === "") return null;
+  if (field === "priority") return PRIORITY_RANK[value as string] ?? 0;
+  if (field === "key") return keyNumber(value as string);
+  if (typeof value === "number") return value;
+  const time = Date.parse(String(value));
+  if (/^\d{4}-\d{2}-\d{2}/.test(String(value)) && !Number.isNaN(time)) return time;
+  return String(value).toLowerCase();
+}
+
+function sortWorkItems(items: WorkItem[], orderBy: SortConfig[]): WorkItem[] {
+  if (orderBy.length === 0) {
+    // Same default order as the work items list
+    return [...items].sort((a, b) => keyNumber(a.key) - keyNumber(b.key));
+  }
+
+  return [...items].sort((a, b) => {
+    for (const { field, direction } of orderBy) {
+      const left = sortValue(a, field);
+      const right = sortValue(b, field);
+      if (left === right) continue;
+      // Empty values always sort last
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const result = left < right ? -1 : 1;
+      return direction === "DESC" ? -result : result;
+    }
+    return 0;
+  });
+}
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+export async function searchWorkItems({
+  databases,
+  workspaceId,
+  projectId,
+  projectIds,
+  filters,
+  orderBy,
+  limit,
+  offset,
+}: SearchWorkItemsOptions): Promise<SearchWorkItemsResult> {
+  const topLevel = getTopLevelConditions(filters);
+
+  if (!projectId && projectIds?.length === 0) {
+    return { documents: [], total: 0, truncated: false };
+  }
+  const allowedProjects = !projectId && projectIds ? new Set(projectIds) : null;
+
+  const textTerms = topLevel
+    .filter((c) => c.field === "text" && c.operator === FilterOperator.CONTAINS && typeof c.value === "string")
+    .map((c) => c.value as string);
+
+  const baseQueries = [
+    Query.equal("workspaceId", workspaceId),
+    ...(projectId ? [Query.equal("projectId", projectId)] : []),
+    // Larger lists exceed Appwrite's query value cap and are filtered below
+    ...(allowedProjects && allowedProjects.size <= ID_CHUNK_SIZE
+      ? [Query.equal("projectId", [...allowedProjects])]
+      : []),
+    ...topLevel.map(toPushdownQuery).filter((q): q is string => q !== null),
+  ];
+
+  const candidates = textTerms.length > 0
+    ? await findIndexedCandidates(databases, textTerms, workspaceId, projectId)
+    : null;
+  const candidateIds = candidates?.ids ?? null;
+
+  const unindexedProjects = candidateIds
+    ? await findUnindexedProjects(databases, projectId ? [projectId] : projectIds ?? [])
+    : [];
+  backfillSearchIndex(unindexedProjects);
+
+  if (candidateIds && candidateIds.length === 0 && unindexedProjects.length === 0) {
+    return { documents: [], total: 0, truncated: candidates?.truncated ?? false };
+  }
+
+  const loaded = await loadWorkItems(databases, baseQueries, candidateIds);
+  const workItems = loaded.items;
+  let truncated = loaded.truncated || (candidates?.truncated ?? false);
+
+  // Unindexed projects have no candidates, so scan them
+  const loadedIds = new Set(workItems.map((workItem) => workItem.$id));
+  for (const ids of chunk(unindexedProjects, ID_CHUNK_SIZE)) {
+    const scanned = await loadWorkItems(databases, [...baseQueries, Query.equal("projectId", ids)], null);
+    workItems.push(...scanned.items.filter((workItem) => !loadedIds.has(workItem.$id)));
+    truncated ||= scanned.truncated;
+  }
+
+  const indexedContent = usesTextField(filters)
+    ? await loadIndexedContent(databases, workItems.map((w) => w.$id))
+    : new Map<string, string>();
+
+  const matches = workItems.filter((workItem) => {
+    if (allowedProjects && !allowedProjects.has(workItem.projectId)) return false;
+    const text = indexedContent.get(workItem.$id) ??
+      [workItem.key, workItem.title, workItem.description].filter(Boolean).join("\n");
+    return evaluateFilterGroup(filters, { ...workItem, text });
+  });
+
+  const sorted = sortWorkItems(matches, orderBy);
+
+  return {
+    documents: sorted.slice(offset, offset + limit),
+    total: sorted.length,
+    truncated,
+  };
+}
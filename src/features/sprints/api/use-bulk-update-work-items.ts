@@ -9,6 +9,7 @@ interface BulkUpdateWorkItemsRequest {
     status: string; // Changed from WorkItemStatus to string to support custom column IDs
     position: number;
   }[];
+  overrideWipLimit?: boolean;
 }
 
 export const useBulkUpdateWorkItems = () => {
@@ -24,11 +25,13 @@ export const useBulkUpdateWorkItems = () => {
           json: {
             status: item.status,
             position: item.position,
+            ...(json.overrideWipLimit && { overrideWipLimit: true }),
           },
         });
 
         if (!response.ok) {
-          throw new Error(`Failed to update work item ${item.$id}`);
+          const errorBody = await response.json().catch(() => ({}));
+          throw new Error((errorBody as { error?: string }).error || `Failed to update work item ${item.$id}`);
         }
 
         return response.json();
@@ -52,8 +55,10 @@ export const useBulkUpdateWorkItems = () => {
         refetchType: 'none'
       });
     },
-    onError: () => {
-      toast.error("Failed to update work items.");
+    onError: (error) => {
+      toast.error(error.message || "Failed to update work items.");
+      // Undo the board's optimistic move
+      queryClient.invalidateQueries({ queryKey: ["work-items"] });
     },
   });
 
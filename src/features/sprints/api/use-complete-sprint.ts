@@ -4,17 +4,20 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { client } from "@/lib/rpc";
 import { toast } from "sonner";
 
-import { Sprint } from "../types";
+import { Sprint, SprintCompletionReport } from "../types";
 
 // Manually defining types until RPC inference catches up
-type ResponseType = { data: Sprint };
+type ResponseType = { data: Sprint; report: SprintCompletionReport | null };
 type RequestType = {
     param: { sprintId: string };
     json: {
         workspaceId: string;
         projectId: string;
         unfinishedDetails?: {
-            moveTo: "backlog" | { sprintId: string };
+            moveTo:
+                | "backlog"
+                | { sprintId: string }
+                | { newSprint: { name: string; startDate?: Date; endDate?: Date } };
         };
     };
 };
@@ -43,6 +46,9 @@ export const useCompleteSprint = () => {
             toast.success("Sprint completed");
             queryClient.invalidateQueries({ queryKey: ["sprints"] });
             queryClient.invalidateQueries({ queryKey: ["work-items"] });
+            queryClient.invalidateQueries({ queryKey: ["sprint-report"] });
+            queryClient.invalidateQueries({ queryKey: ["sprint-completion-report"] });
+            queryClient.invalidateQueries({ queryKey: ["sprint-velocity"] });
         },
         onError: () => {
             toast.error("Failed to complete sprint");
@@ -20,11 +20,15 @@ export const useCreateWorkItem = () => {
 
       return await response.json();
     },
-    onSuccess: ({ data }) => {
+    onSuccess: ({ data, capacityWarning }) => {
       toast.success("Work item created successfully");
+      if (capacityWarning) {
+        toast.warning(capacityWarning);
+      }
       queryClient.invalidateQueries({ queryKey: ["work-items"] });
       queryClient.invalidateQueries({ queryKey: ["sprints"] });
       queryClient.invalidateQueries({ queryKey: ["sprint", data.sprintId] });
+      queryClient.invalidateQueries({ queryKey: ["sprint-capacity", data.sprintId] });
     },
     onError: () => {
       toast.error("Failed to create work item");
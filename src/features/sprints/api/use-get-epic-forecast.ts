@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetEpicForecastProps {
+  epicId: string;
+  enabled?: boolean;
+}
+
+export const useGetEpicForecast = ({ epicId, enabled = true }: UseGetEpicForecastProps) => {
+  const query = useQuery({
+    queryKey: ["epic-forecast", epicId],
+    enabled: enabled && Boolean(epicId),
+    queryFn: async () => {
+      const response = await client.api["work-items"][":workItemId"]["forecast"].$get({
+        param: { workItemId: epicId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch epic forecast.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return query;
+};
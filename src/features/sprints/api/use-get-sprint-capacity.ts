@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetSprintCapacityProps {
+  sprintId: string;
+  enabled?: boolean;
+}
+
+export const useGetSprintCapacity = ({ sprintId, enabled = true }: UseGetSprintCapacityProps) => {
+  const query = useQuery({
+    queryKey: ["sprint-capacity", sprintId],
+    enabled: enabled && Boolean(sprintId),
+    queryFn: async () => {
+      const response = await client.api.sprints[":sprintId"]["capacity"].$get({
+        param: { sprintId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch sprint capacity.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
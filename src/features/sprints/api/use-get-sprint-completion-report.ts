@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetSprintCompletionReportProps {
+  sprintId: string;
+  enabled?: boolean;
+}
+
+export const useGetSprintCompletionReport = ({ sprintId, enabled = true }: UseGetSprintCompletionReportProps) => {
+  const query = useQuery({
+    queryKey: ["sprint-completion-report", sprintId],
+    enabled: enabled && Boolean(sprintId),
+    queryFn: async () => {
+      const response = await client.api.sprints[":sprintId"]["completion-report"].$get({
+        param: { sprintId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch sprint completion report.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
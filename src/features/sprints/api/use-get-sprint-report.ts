@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetSprintReportProps {
+  sprintId: string;
+  enabled?: boolean;
+}
+
+export const useGetSprintReport = ({ sprintId, enabled = true }: UseGetSprintReportProps) => {
+  const query = useQuery({
+    queryKey: ["sprint-report", sprintId],
+    enabled: enabled && Boolean(sprintId),
+    queryFn: async () => {
+      const response = await client.api.sprints[":sprintId"]["report"].$get({
+        param: { sprintId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch sprint report.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
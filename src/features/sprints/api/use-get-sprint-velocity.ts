@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetSprintVelocityProps {
+  workspaceId: string;
+  projectId: string;
+  limit?: number;
+  enabled?: boolean;
+}
+
+export const useGetSprintVelocity = ({
+  workspaceId,
+  projectId,
+  limit,
+  enabled = true,
+}: UseGetSprintVelocityProps) => {
+  const query = useQuery({
+    queryKey: ["sprint-velocity", workspaceId, projectId, limit],
+    enabled: enabled && Boolean(workspaceId) && Boolean(projectId),
+    queryFn: async () => {
+      const response = await client.api.sprints["velocity"].$get({
+        query: {
+          workspaceId,
+          projectId,
+          limit: limit?.toString(),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch sprint velocity.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,39 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<
+  (typeof client.api.sprints)[":sprintId"]["capacity"][":memberId"]["$delete"],
+  200
+>;
+type RequestType = InferRequestType<
+  (typeof client.api.sprints)[":sprintId"]["capacity"][":memberId"]["$delete"]
+>;
+
+export const useRemoveSprintCapacity = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api.sprints[":sprintId"]["capacity"][":memberId"].$delete({
+        param,
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to remove availability");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      queryClient.setQueryData(["sprint-capacity", data.sprintId], data);
+    },
+    onError: () => {
+      toast.error("Failed to remove availability");
+    },
+  });
+
+  return mutation;
+};
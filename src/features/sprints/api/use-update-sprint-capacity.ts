@@ -0,0 +1,40 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<
+  (typeof client.api.sprints)[":sprintId"]["capacity"][":memberId"]["$put"],
+  200
+>;
+type RequestType = InferRequestType<
+  (typeof client.api.sprints)[":sprintId"]["capacity"][":memberId"]["$put"]
+>;
+
+export const useUpdateSprintCapacity = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param, json }) => {
+      const response = await client.api.sprints[":sprintId"]["capacity"][":memberId"].$put({
+        param,
+        json,
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update availability");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      queryClient.setQueryData(["sprint-capacity", data.sprintId], data);
+    },
+    onError: () => {
+      toast.error("Failed to update availability");
+    },
+  });
+
+  return mutation;
+};
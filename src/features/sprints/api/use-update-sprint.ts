@@ -32,6 +32,8 @@ export const useUpdateSprint = () => {
       toast.success("Sprint updated successfully");
       queryClient.invalidateQueries({ queryKey: ["sprints"] });
       queryClient.invalidateQueries({ queryKey: ["sprint", data.$id] });
+      queryClient.invalidateQueries({ queryKey: ["sprint-capacity", data.$id] });
+      queryClient.invalidateQueries({ queryKey: ["sprint-completion-report", data.$id] });
     },
     onError: () => {
       toast.error("Failed to update sprint");
@@ -86,10 +86,13 @@ export const useUpdateWorkItem = () => {
       toast.error("Failed to update work item");
     },
 
-    onSuccess: ({ data }, variables) => {
+    onSuccess: ({ data, capacityWarning }, variables) => {
       if (!variables.silent) {
         toast.success("Work item updated successfully");
       }
+      if (capacityWarning) {
+        toast.warning(capacityWarning);
+      }
       
       // Only invalidate if not using optimistic updates (optimistic already updated cache)
       if (!variables.optimistic) {
@@ -101,6 +104,7 @@ export const useUpdateWorkItem = () => {
       if (data.sprintId) {
         queryClient.invalidateQueries({ queryKey: ["sprint", data.sprintId] });
       }
+      queryClient.invalidateQueries({ queryKey: ["sprint-capacity"] });
     },
 
     // SETTLE: Ensure cache consistency after mutation completes
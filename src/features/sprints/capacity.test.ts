@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { buildSprintCapacity, describeCapacityOverrun, listWorkingDays } from "./capacity";
+
+describe("listWorkingDays", () => {
+  it("skips weekends and holidays", () => {
+    // Thursday 2026-03-05 to Tuesday 2026-03-10
+    expect(
+      listWorkingDays("2026-03-05T00:00:00.000Z", "2026-03-10T00:00:00.000Z", ["2026-03-09"])
+    ).toEqual(["2026-03-05", "2026-03-06", "2026-03-10"]);
+  });
+
+  it("is empty without dates", () => {
+    expect(listWorkingDays(undefined, "2026-03-10T00:00:00.000Z")).toEqual([]);
+  });
+});
+
+describe("buildSprintCapacity", () => {
+  const sprint = {
+    sprintId: "s1",
+    // Two full weeks: ten weekdays, one of them a holiday
+    startDate: "2026-03-02T00:00:00.000Z",
+    endDate: "2026-03-13T00:00:00.000Z",
+    holidays: ["2026-03-06", "2026-04-01"],
+  };
+
+  it("compares availability with committed work", () => {
+    const report = buildSprintCapacity({
+      ...sprint,
+      availability: [
+        { memberId: "m1", hoursPerDay: 6, pointsPerDay: 1, daysOff: ["2026-03-12"] },
+        { memberId: "m2", pointsPerDay: 2 },
+      ],
+      items: [
+        { assigneeIds: ["m1"], storyPoints: 8, estimatedHours: 30 },
+        { assigneeIds: ["m1", "m2"], storyPoints: 4, estimatedHours: 10 },
+        { assigneeIds: [], storyPoints: 3 },
+      ],
+      memberNames: new Map([["m1", "Ana"], ["m2", "Ben"]]),
+    });
+
+    expect(report.workingDays).toBe(9);
+    expect(report.holidays).toEqual(["2026-03-06"]);
+    expect(report.members).toEqual([
+      expect.objectContaining({
+        memberId: "m1",
+        planned: true,
+        availableDays: 8,
+        capacityHours: 48,
+        capacityPoints: 8,
+        committedHours: 35,
+        committedPoints: 10,
+        overAllocated: true,
+      }),
+      expect.objectContaining({
+        memberId: "m2",
+        capacityHours: null,
+        capacityPoints: 18,
+        committedPoints: 2,
+        overAllocated: false,
+      }),
+    ]);
+    expect(report.totals).toMatchObject({ capacityPoints: 26, committedPoints: 12, unassignedPoints: 3 });
+  });
+
+  it("lists assignees without availability as unplanned", () => {
+    const report = buildSprintCapacity({
+      ...sprint,
+      availability: [],
+      items: [{ assigneeIds: ["m3"], storyPoints: 5 }],
+    });
+
+    expect(report.members[0]).toMatchObject({ memberId: "m3", planned: false, capacityPoints: null, overAllocated: false });
+  });
+});
+
+describe("describeCapacityOverrun", () => {
+  it("names over-allocated members", () => {
+    const report = buildSprintCapacity({
+      sprintId: "s1",
+      startDate: "2026-03-02T00:00:00.000Z",
+      endDate: "2026-03-03T00:00:00.000Z",
+      availability: [{ memberId: "m1", pointsPerDay: 2 }],
+      items: [{ assigneeIds: ["m1"], storyPoints: 5 }],
+      memberNames: new Map([["m1", "Ana"]]),
+    });
+
+    expect(describeCapacityOverrun(report.members)).toBe("Over sprint capacity: Ana (5 of 4 pts)");
+    expect(describeCapacityOverrun([])).toBeNull();
+  });
+});
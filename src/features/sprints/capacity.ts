@@ -0,0 +1,174 @@
+import { MemberCapacity, SprintCapacityReport } from "./types";
+import { toDateKey } from "./reports";
+
+/**
+ * Sprint Capacity
+ *
+ * Planned capacity is a member's hours / points per day times the working
+ * days they are available in the sprint (weekdays, minus workspace holidays
+ * and their own days off). Committed work is the estimate of every sprint
+ * item, split evenly between its assignees.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Guards against bad sprint dates */
+const MAX_SPRINT_DAYS = 366;
+
+export type MemberAvailability = {
+  memberId: string;
+  hoursPerDay?: number | null;
+  pointsPerDay?: number | null;
+  daysOff?: string[];
+};
+
+type CapacityItem = {
+  assigneeIds?: string[] | null;
+  storyPoints?: number | null;
+  estimatedHours?: number | null;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Weekdays from start to end (inclusive) that are not holidays, "YYYY-MM-DD"
+ */
+export function listWorkingDays(
+  startDate: string | null | undefined,
+  endDate: string | null | undefined,
+  holidays: string[] = []
+): string[] {
+  if (!startDate || !endDate) return [];
+
+  const skipped = new Set(holidays);
+  const days: string[] = [];
+  let time = Date.parse(`${toDateKey(new Date(startDate))}T00:00:00Z`);
+  const end = Date.parse(`${toDateKey(new Date(endDate))}T00:00:00Z`);
+
+  for (let i = 0; time <= end && i < MAX_SPRINT_DAYS; i++, time += DAY_MS) {
+    const weekday = new Date(time).getUTCDay();
+    const key = toDateKey(new Date(time));
+    if (weekday !== 0 && weekday !== 6 && !skipped.has(key)) days.push(key);
+  }
+
+  return days;
+}
+
+/**
+ * Capacity against committed work for each member with availability or assigned work
+ */
+export function buildSprintCapacity({
+  sprintId,
+  startDate,
+  endDate,
+  holidays = [],
+  availability,
+  items,
+  memberNames = new Map(),
+}: {
+  sprintId: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  holidays?: string[];
+  availability: MemberAvailability[];
+  items: CapacityItem[];
+  memberNames?: Map<string, string>;
+}): SprintCapacityReport {
+  const workingDays = listWorkingDays(startDate, endDate, holidays);
+  const committed = new Map<string, { hours: number; points: number }>();
+  let unassignedHours = 0;
+  let unassignedPoints = 0;
+
+  for (const item of items) {
+    const assignees = item.assigneeIds ?? [];
+    const hours = item.estimatedHours || 0;
+    const points = item.storyPoints || 0;
+
+    if (assignees.length === 0) {
+      unassignedHours += hours;
+      unassignedPoints += points;
+      continue;
+    }
+
+    for (const memberId of assignees) {
+      const current = committed.get(memberId) ?? { hours: 0, points: 0 };
+      current.hours += hours / assignees.length;
+      current.points += points / assignees.length;
+      committed.set(memberId, current);
+    }
+  }
+
+  const availabilityById = new Map(availability.map((entry) => [entry.memberId, entry]));
+  const memberIds = [...new Set([...availabilityById.keys(), ...committed.keys()])];
+
+  const members = memberIds.map((memberId): MemberCapacity => {
+    const entry = availabilityById.get(memberId);
+    const daysOff = new Set(entry?.daysOff ?? []);
+    const availableDays = workingDays.filter((day) => !daysOff.has(day)).length;
+    const hoursPerDay = entry?.hoursPerDay ?? null;
+    const pointsPerDay = entry?.pointsPerDay ?? null;
+    const capacityHours = hoursPerDay !== null ? round1(hoursPerDay * availableDays) : null;
+    const capacityPoints = pointsPerDay !== null ? round1(pointsPerDay * availableDays) : null;
+    const committedHours = round1(committed.get(memberId)?.hours ?? 0);
+    const committedPoints = round1(committed.get(memberId)?.points ?? 0);
+
+    return {
+      memberId,
+      name: memberNames.get(memberId) ?? "Unknown member",
+      planned: entry !== undefined,
+      hoursPerDay,
+      pointsPerDay,
+      daysOff: [...daysOff].sort(),
+      availableDays,
+      capacityHours,
+      capacityPoints,
+      committedHours,
+      committedPoints,
+      overAllocated:
+        (capacityHours !== null && committedHours > capacityHours) ||
+        (capacityPoints !== null && committedPoints > capacityPoints),
+    };
+  });
+
+  members.sort((a, b) => a.name.localeCompare(b.name));
+
+  const sum = (values: (number | null)[]) => round1(values.reduce<number>((total, value) => total + (value ?? 0), 0));
+
+  return {
+    sprintId,
+    workingDays: workingDays.length,
+    // Holidays that fall inside the sprint
+    holidays: startDate && endDate
+      ? holidays.filter((day) => day >= toDateKey(new Date(startDate)) && day <= toDateKey(new Date(endDate))).sort()
+      : [],
+    members,
+    totals: {
+      capacityHours: sum(members.map((member) => member.capacityHours)),
+      capacityPoints: sum(members.map((member) => member.capacityPoints)),
+      committedHours: sum(members.map((member) => member.committedHours)),
+      committedPoints: sum(members.map((member) => member.committedPoints)),
+      unassignedHours: round1(unassignedHours),
+      unassignedPoints: round1(unassignedPoints),
+    },
+  };
+}
+
+/**
+ * Warning text naming the over-allocated members, e.g. "Over sprint capacity: Ana (13 of 10 pts)"
+ */
+export function describeCapacityOverrun(members: MemberCapacity[]): string | null {
+  const over = members.filter((member) => member.overAllocated);
+  if (over.length === 0) return null;
+
+  const details = over.map((member) => {
+    const amounts: string[] = [];
+    if (member.capacityPoints !== null && member.committedPoints > member.capacityPoints) {
+      amounts.push(`${member.committedPoints} of ${member.capacityPoints} pts`);
+    }
+    if (member.capacityHours !== null && member.committedHours > member.capacityHours) {
+      amounts.push(`${member.committedHours} of ${member.capacityHours}h`);
+    }
+    return `${member.name} (${amounts.join(", ")})`;
+  });
+
+  return `Over sprint capacity: ${details.join("; ")}`;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildSprintCompletionReport,
+  collectRemovedItemIds,
+  resolveCommittedItemIds,
+} from "./completion-report";
+import { SprintReportItemOutcome } from "./types";
+
+const isClosed = (status: string) => status === "DONE";
+
+const item = (id: string, status: string, storyPoints: number, assigneeIds: string[] = []) => ({
+  $id: id,
+  key: `FX-${id}`,
+  title: `Item ${id}`,
+  status,
+  storyPoints,
+  assigneeIds,
+});
+
+describe("resolveCommittedItemIds", () => {
+  it("prefers the IDs recorded at sprint start", () => {
+    expect(resolveCommittedItemIds(["a"], [{ itemIds: ["a", "b"] }])).toEqual(["a"]);
+  });
+
+  it("falls back to the first snapshot with items, then to null", () => {
+    expect(resolveCommittedItemIds(undefined, [{ itemIds: [] }, { itemIds: ["a", "b"] }])).toEqual(["a", "b"]);
+    expect(resolveCommittedItemIds(undefined, [{}])).toBeNull();
+  });
+});
+
+describe("collectRemovedItemIds", () => {
+  it("returns items seen at start or in snapshots that left the sprint", () => {
+    expect(
+      collectRemovedItemIds(["a", "b"], [{ itemIds: ["a", "b", "c"] }, { itemIds: ["a", "d"] }], ["a", "d"])
+    ).toEqual(["b", "c"]);
+  });
+});
+
+describe("buildSprintCompletionReport", () => {
+  const completedAt = new Date("2026-03-13T17:00:00.000Z");
+
+  it("splits scope into committed, added, removed and carry-over", () => {
+    const report = buildSprintCompletionReport({
+      sprintId: "s1",
+      completedAt,
+      items: [
+        item("a", "DONE", 5, ["m1"]),
+        item("b", "IN_PROGRESS", 3, ["m1", "m2"]),
+        item("c", "DONE", 2),
+      ],
+      removedItems: [item("d", "TODO", 8, ["m2"])],
+      committedItemIds: ["a", "b", "d"],
+      isClosed,
+      destination: { type: "backlog" },
+      memberNames: new Map([["m1", "Ana"], ["m2", "Ben"]]),
+    });
+
+    expect(report.completedAt).toBe("2026-03-13T17:00:00.000Z");
+    expect(report.committed).toEqual({ points: 16, items: 3 });
+    expect(report.completed).toEqual({ points: 7, items: 2 });
+    expect(report.added).toEqual({ points: 2, items: 1 });
+    expect(report.removed).toEqual({ points: 8, items: 1 });
+    expect(report.carryOver).toEqual({ points: 3, items: 1, destination: { type: "backlog" } });
+    expect(report.items.find((i) => i.id === "c")).toMatchObject({
+      outcome: SprintReportItemOutcome.COMPLETED,
+      addedMidSprint: true,
+    });
+
+    // Removed items do not count against anyone
+    expect(report.assignees).toEqual([
+      { memberId: "m1", name: "Ana", assignedPoints: 6.5, completedPoints: 5, assignedItems: 2, completedItems: 1 },
+      { memberId: "m2", name: "Ben", assignedPoints: 1.5, completedPoints: 0, assignedItems: 1, completedItems: 0 },
+      { memberId: null, name: "Unassigned", assignedPoints: 2, completedPoints: 2, assignedItems: 1, completedItems: 1 },
+    ]);
+  });
+
+  it("treats all items as committed without start history", () => {
+    const report = buildSprintCompletionReport({
+      sprintId: "s1",
+      completedAt,
+      items: [item("a", "DONE", 5), item("b", "TODO", 3)],
+      committedItemIds: null,
+      isClosed,
+      destination: null,
+    });
+
+    expect(report.committed).toEqual({ points: 8, items: 2 });
+    expect(report.added).toEqual({ points: 0, items: 0 });
+  });
+
+  it("drops the destination when nothing was carried over", () => {
+    const report = buildSprintCompletionReport({
+      sprintId: "s1",
+      completedAt,
+      items: [item("a", "DONE", 5)],
+      committedItemIds: ["a"],
+      isClosed,
+      destination: { type: "sprint", sprintId: "s2", name: "Sprint 2" },
+    });
+
+    expect(report.carryOver).toEqual({ points: 0, items: 0, destination: null });
+  });
+});
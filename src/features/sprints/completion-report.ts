@@ -0,0 +1,185 @@
+import {
+  SprintAssigneeCompletion,
+  SprintCarryOverDestination,
+  SprintCompletionReport,
+  SprintReportItem,
+  SprintReportItemOutcome,
+  SprintReportTotals,
+} from "./types";
+
+/**
+ * Sprint Completion Report
+ *
+ * Committed scope is the set of items in the sprint when it started. Items
+ * that joined later count as added; items that were in the sprint at some
+ * point (at start or in a daily snapshot) but not at completion count as
+ * removed. Sprints started before item IDs were recorded fall back to their
+ * first snapshot, or treat everything as committed.
+ */
+
+type ReportItemInput = {
+  $id: string;
+  key: string;
+  title: string;
+  status: string;
+  storyPoints?: number | null;
+  assigneeIds?: string[] | null;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Item IDs the sprint started with, or null when no history was recorded
+ */
+export function resolveCommittedItemIds(
+  committedItemIds: string[] | null | undefined,
+  snapshots: { itemIds?: string[] | null }[]
+): string[] | null {
+  if (committedItemIds) return committedItemIds;
+  return snapshots.find((snapshot) => snapshot.itemIds && snapshot.itemIds.length > 0)?.itemIds ?? null;
+}
+
+/**
+ * Items that were part of the sprint at some point but are not in it any more
+ */
+export function collectRemovedItemIds(
+  committedItemIds: string[] | null,
+  snapshots: { itemIds?: string[] | null }[],
+  currentItemIds: string[]
+): string[] {
+  const current = new Set(currentItemIds);
+  const seen = new Set(committedItemIds ?? []);
+  for (const snapshot of snapshots) {
+    for (const id of snapshot.itemIds ?? []) seen.add(id);
+  }
+
+  return [...seen].filter((id) => !current.has(id));
+}
+
+const totalsOf = (items: SprintReportItem[]): SprintReportTotals => ({
+  points: items.reduce((sum, item) => sum + item.storyPoints, 0),
+  items: items.length,
+});
+
+/**
+ * Scope report for a sprint that is being completed
+ *
+ * `items` are the sprint's items at completion (before unfinished work is
+ * moved out); `removedItems` are the current documents of removed items.
+ */
+export function buildSprintCompletionReport({
+  sprintId,
+  completedAt,
+  items,
+  removedItems = [],
+  committedItemIds,
+  isClosed,
+  destination,
+  memberNames = new Map(),
+}: {
+  sprintId: string;
+  completedAt: Date;
+  items: ReportItemInput[];
+  removedItems?: ReportItemInput[];
+  committedItemIds: string[] | null;
+  isClosed: (status: string) => boolean;
+  destination: SprintCarryOverDestination | null;
+  memberNames?: Map<string, string>;
+}): SprintCompletionReport {
+  const committed = committedItemIds ? new Set(committedItemIds) : null;
+
+  const toReportItem = (item: ReportItemInput, outcome: SprintReportItemOutcome): SprintReportItem => ({
+    id: item.$id,
+    key: item.key,
+    title: item.title,
+    storyPoints: item.storyPoints || 0,
+    assigneeIds: item.assigneeIds ?? [],
+    outcome,
+    addedMidSprint: committed !== null && !committed.has(item.$id),
+  });
+
+  const reportItems = [
+    ...items.map((item) =>
+      toReportItem(
+        item,
+        isClosed(item.status) ? SprintReportItemOutcome.COMPLETED : SprintReportItemOutcome.CARRIED_OVER
+      )
+    ),
+    ...removedItems.map((item) => toReportItem(item, SprintReportItemOutcome.REMOVED)),
+  ];
+
+  const byOutcome = (outcome: SprintReportItemOutcome) => reportItems.filter((item) => item.outcome === outcome);
+  const carriedOver = byOutcome(SprintReportItemOutcome.CARRIED_OVER);
+
+  return {
+    sprintId,
+    completedAt: completedAt.toISOString(),
+    committed: totalsOf(reportItems.filter((item) => !item.addedMidSprint)),
+    completed: totalsOf(byOutcome(SprintReportItemOutcome.COMPLETED)),
+    added: totalsOf(reportItems.filter((item) => item.addedMidSprint)),
+    removed: totalsOf(byOutcome(SprintReportItemOutcome.REMOVED)),
+    carryOver: {
+      ...totalsOf(carriedOver),
+      destination: carriedOver.length > 0 ? destination : null,
+    },
+    assignees: summarizeAssignees(
+      reportItems.filter((item) => item.outcome !== SprintReportItemOutcome.REMOVED),
+      memberNames
+    ),
+    items: reportItems,
+  };
+}
+
+/**
+ * Assigned vs completed work per member; points of shared items are split evenly
+ */
+function summarizeAssignees(
+  items: SprintReportItem[],
+  memberNames: Map<string, string>
+): SprintAssigneeCompletion[] {
+  const rows = new Map<string | null, SprintAssigneeCompletion>();
+
+  const rowFor = (memberId: string | null) => {
+    let row = rows.get(memberId);
+    if (!row) {
+      row = {
+        memberId,
+        name: memberId === null ? "Unassigned" : memberNames.get(memberId) ?? "Unknown member",
+        assignedPoints: 0,
+        completedPoints: 0,
+        assignedItems: 0,
+        completedItems: 0,
+      };
+      rows.set(memberId, row);
+    }
+    return row;
+  };
+
+  for (const item of items) {
+    const assignees = item.assigneeIds.length > 0 ? item.assigneeIds : [null];
+    const share = item.storyPoints / assignees.length;
+    const done = item.outcome === SprintReportItemOutcome.COMPLETED;
+
+    for (const memberId of assignees) {
+      const row = rowFor(memberId);
+      row.assignedPoints += share;
+      row.assignedItems++;
+      if (done) {
+        row.completedPoints += share;
+        row.completedItems++;
+      }
+    }
+  }
+
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      assignedPoints: round1(row.assignedPoints),
+      completedPoints: round1(row.completedPoints),
+    }))
+    .sort((a, b) => {
+      if (a.memberId === null) return 1;
+      if (b.memberId === null) return -1;
+      return a.name.localeCompare(b.name);
+    });
+}
@@ -19,6 +19,7 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 
@@ -29,6 +30,14 @@ import { useGetSprints } from "../api/use-get-sprints";
 import { useCompleteSprint } from "../api/use-complete-sprint";
 import { SprintStatus, WorkItemStatus, Sprint } from "../types";
 
+const NEW_SPRINT = "new";
+
+/** "Sprint 4" -> "Sprint 5"; other names get a "(continued)" suffix */
+const suggestNextSprintName = (name: string) => {
+    const match = name.match(/^(.*?)(\d+)\s*$/);
+    return match ? `${match[1]}${Number(match[2]) + 1}` : `${name} (continued)`;
+};
+
 export const CompleteSprintModal = ({
     sprint,
     open,
@@ -42,6 +51,7 @@ export const CompleteSprintModal = ({
     const projectId = useProjectId();
 
     const [destinationSprintId, setDestinationSprintId] = useState<string>("backlog");
+    const [newSprintName, setNewSprintName] = useState(() => suggestNextSprintName(sprint.name));
     const [isSubmitting, setIsSubmitting] = useState(false);
 
     const { isPending: isCompleting, mutateAsync: completeSprint } = useCompleteSprint();
@@ -71,6 +81,14 @@ export const CompleteSprintModal = ({
         .filter((s) => s.status === SprintStatus.PLANNED && s.$id !== sprint.$id)
         .sort((a, b) => a.position - b.position) || [];
 
+    const isNewSprint = destinationSprintId === NEW_SPRINT;
+
+    const getDestination = () => {
+        if (destinationSprintId === "backlog") return "backlog" as const;
+        if (isNewSprint) return { newSprint: { name: newSprintName.trim() } };
+        return { sprintId: destinationSprintId };
+    };
+
     const handleComplete = async () => {
         try {
             setIsSubmitting(true);
@@ -79,9 +97,7 @@ export const CompleteSprintModal = ({
                 json: {
                     workspaceId,
                     projectId,
-                    unfinishedDetails: unfinishedItems > 0 ? {
-                        moveTo: destinationSprintId === "backlog" ? "backlog" : { sprintId: destinationSprintId }
-                    } : undefined
+                    unfinishedDetails: unfinishedItems > 0 ? { moveTo: getDestination() } : undefined
                 }
             });
             onOpenChange(false);
@@ -138,17 +154,29 @@ export const CompleteSprintModal = ({
                                         </SelectTrigger>
                                         <SelectContent>
                                             <SelectItem value="backlog">Backlog</SelectItem>
-                                            {plannedSprints.map((s) => (
+                                            {plannedSprints.map((s, index) => (
                                                 <SelectItem key={s.$id} value={s.$id}>
-                                                    {s.name}
+                                                    {index === 0 ? `${s.name} (next)` : s.name}
                                                 </SelectItem>
                                             ))}
+                                            <SelectItem value={NEW_SPRINT}>New sprint</SelectItem>
                                         </SelectContent>
                                     </Select>
                                     <p className="text-xs text-muted-foreground">
                                         Unfinished items will be moved to the selected location.
                                     </p>
                                 </div>
+                                {isNewSprint && (
+                                    <div className="space-y-2">
+                                        <Label htmlFor="new-sprint-name">New sprint name</Label>
+                                        <Input
+                                            id="new-sprint-name"
+                                            value={newSprintName}
+                                            onChange={(e) => setNewSprintName(e.target.value)}
+                                            disabled={isSubmitting}
+                                        />
+                                    </div>
+                                )}
                             </div>
                         )}
 
@@ -157,6 +185,10 @@ export const CompleteSprintModal = ({
                                 Great job! All tasks are done. This sprint will be marked as completed.
                             </p>
                         )}
+
+                        <p className="mt-4 text-xs text-muted-foreground">
+                            A sprint report with committed, added, removed and carried-over work is saved on completion.
+                        </p>
                     </div>
                 )}
 
@@ -164,7 +196,7 @@ export const CompleteSprintModal = ({
                     <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
                         Cancel
                     </Button>
-                    <Button onClick={handleComplete} disabled={isLoadingItems || isSubmitting || isCompleting}>
+                    <Button onClick={handleComplete} disabled={isLoadingItems || isSubmitting || isCompleting || (isNewSprint && unfinishedItems > 0 && !newSprintName.trim())}>
                         {isSubmitting || isCompleting ? "Completing..." : "Complete Sprint"}
                     </Button>
                 </DialogFooter>
@@ -30,7 +30,10 @@ import {
 } from "@/components/ui/select";
 import { DatePicker } from "@/components/date-picker";
 
+import { useGetWorkspace } from "@/features/workspaces/api/use-get-workspace";
+
 import { useCreateSprint } from "../api/use-create-sprint";
+import { listWorkingDays } from "../capacity";
 import { SprintStatus } from "../types";
 
 const formSchema = z.object({
@@ -66,6 +69,7 @@ export const CreateSprintDialog = ({
   projectId,
 }: CreateSprintDialogProps) => {
   const { mutate: createSprint, isPending } = useCreateSprint();
+  const { data: workspace } = useGetWorkspace({ workspaceId, enabled: isOpen });
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -76,6 +80,11 @@ export const CreateSprintDialog = ({
     },
   });
 
+  const [startDate, endDate] = form.watch(["startDate", "endDate"]);
+  const workingDays = startDate && endDate && endDate >= startDate
+    ? listWorkingDays(startDate.toISOString(), endDate.toISOString(), workspace?.holidays ?? []).length
+    : null;
+
   const onSubmit = (values: z.infer<typeof formSchema>) => {
     createSprint(
       {
@@ -198,6 +207,13 @@ export const CreateSprintDialog = ({
               />
             </div>
 
+            {workingDays !== null && (
+              <p className="text-xs text-muted-foreground">
+                {workingDays} working {workingDays === 1 ? "day" : "days"}, excluding weekends and workspace holidays.
+                Plan member availability in the sprint settings once the sprint is created.
+              </p>
+            )}
+
             <div className="flex items-center justify-end gap-2 pt-3 border-t border-slate-100 dark:border-slate-700">
               <Button
                 type="button"
@@ -1,6 +1,6 @@
 "use client";
 
-import { Layers, Clock, Trophy, Flag, Upload } from "lucide-react";
+import { Layers, Clock, Trophy, Flag, Upload, LayoutTemplate } from "lucide-react";
 import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -44,6 +44,9 @@ import { useWorkspaceId } from "@/features/workspaces/hooks/use-workspace-id";
 import { useGetProjects } from "@/features/projects/api/use-get-projects";
 import { useGetProject } from "@/features/projects/api/use-get-project";
 import { useGetMembers } from "@/features/members/api/use-get-members";
+import { useGetWorkItemTemplates } from "@/features/templates/api/use-get-work-item-templates";
+import { buildTemplateDescription } from "@/features/templates/checklist";
+import { PopulatedWorkItemTemplate } from "@/features/templates/types";
 import { useCreateWorkItem } from "../api/use-create-work-item";
 import { useGetEpics } from "../api/use-get-epics";
 import { useCreateWorkItemModal } from "../hooks/use-create-work-item-modal";
@@ -80,6 +83,7 @@ export const CreateWorkItemModal = () => {
   const { mutate: createWorkItem, isPending } = useCreateWorkItem();
   const { mutate: uploadAttachment } = useUploadAttachment();
   const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
   
   const { data: projects } = useGetProjects({ workspaceId });
   const { data: members } = useGetMembers({ workspaceId });
@@ -103,6 +107,13 @@ export const CreateWorkItemModal = () => {
     workspaceId, 
     projectId: selectedProjectId || undefined 
   });
+  const { data: templatesData } = useGetWorkItemTemplates({
+    workspaceId,
+    projectId: selectedProjectId || undefined,
+    enabled: isOpen,
+  });
+  const templates = (templatesData?.documents ?? []) as PopulatedWorkItemTemplate[];
+  const selectedTemplate = templates.find((t) => t.$id === templateId);
 
   // Reset form when dialog opens/closes, and set preselected project
   useEffect(() => {
@@ -125,6 +136,7 @@ export const CreateWorkItemModal = () => {
         flagged: false,
       });
       setAttachmentFiles([]);
+      setTemplateId(null);
     }
   }, [isOpen, preselectedProjectId, preselectedSprintId, preselectedStatus, form]);
 
@@ -140,6 +152,28 @@ export const CreateWorkItemModal = () => {
     return Array.from(new Set([...defaultLabels, ...customLabelNames]));
   }, [project]);
 
+  // Prefill the form from a template; subtasks and custom field values are
+  // added by the server on create
+  const applyTemplate = (id: string) => {
+    const template = templates.find((t) => t.$id === id);
+    setTemplateId(template?.$id ?? null);
+    if (!template) return;
+
+    const values = form.getValues();
+    form.reset({
+      ...values,
+      title: template.title || values.title,
+      type: Object.values(WorkItemType).includes(template.type as WorkItemType) ? template.type as WorkItemType : values.type,
+      priority: Object.values(WorkItemPriority).includes(template.priority as WorkItemPriority)
+        ? template.priority as WorkItemPriority
+        : values.priority,
+      description: buildTemplateDescription(template.description, template.checklist),
+      storyPoints: template.storyPoints ?? undefined,
+      estimatedHours: template.estimatedHours ?? undefined,
+      labels: template.labels ?? [],
+    });
+  };
+
   const onSubmit = (values: z.infer<typeof formSchema>) => {
     createWorkItem(
       {
@@ -159,6 +193,7 @@ export const CreateWorkItemModal = () => {
         storyPoints: values.storyPoints,
         estimatedHours: values.estimatedHours,
         labels: values.labels,
+        templateId,
       },
       {
         onSuccess: (data) => {
@@ -223,6 +258,36 @@ export const CreateWorkItemModal = () => {
               />
             )}
 
+            {/* Template */}
+            {templates.length > 0 && (
+              <div className="space-y-2">
+                <FormLabel className="flex items-center gap-2">
+                  <LayoutTemplate className="size-4" />
+                  Template (Optional)
+                </FormLabel>
+                <Select value={templateId ?? "none"} onValueChange={(value) => applyTemplate(value)}>
+                  <SelectTrigger className="h-11 shadow-sm">
+                    <SelectValue placeholder="Start from a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">
+                      <span className="text-muted-foreground">No template</span>
+                    </SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.$id} value={template.$id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTemplate && (selectedTemplate.subtaskTitles?.length || selectedTemplate.customFields.length) ? (
+                  <p className="text-[10px] text-muted-foreground">
+                    Also adds {selectedTemplate.subtaskTitles?.length ?? 0} subtask(s) and {selectedTemplate.customFields.length} custom field value(s)
+                  </p>
+                ) : null}
+              </div>
+            )}
+
             {/* Title Field */}
             <FormField
               control={form.control}
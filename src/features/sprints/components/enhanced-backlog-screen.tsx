@@ -25,6 +25,7 @@ import {
   Layers,
   ExternalLink,
   X,
+  BarChart3,
 } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
@@ -77,6 +78,8 @@ import type { PopulatedWorkItem } from "../types";
 import { UpdateSprintDatesDialog } from "./update-sprint-dates-dialog";
 import { SubtasksList } from "@/features/subtasks/components";
 import { SprintSettingsSheet } from "./sprint-settings-sheet";
+import { CompleteSprintModal } from "./complete-sprint-modal";
+import { SprintReportDialog } from "./sprint-report-dialog";
 import { CreateEpicDialog } from "./create-epic-dialog";
 import { WorkItemIcon } from "@/features/timeline/components/work-item-icon";
 import { useGetProject } from "@/features/projects/api/use-get-project";
@@ -333,6 +336,8 @@ export default function EnhancedBacklogScreen({ workspaceId, projectId }: Enhanc
   const [editingWorkItemTitle, setEditingWorkItemTitle] = useState("");
   const [dateDialogSprintId, setDateDialogSprintId] = useState<string | null>(null);
   const [sprintSettingsId, setSprintSettingsId] = useState<string | null>(null);
+  const [completeSprintId, setCompleteSprintId] = useState<string | null>(null);
+  const [reportSprintId, setReportSprintId] = useState<string | null>(null);
   const [isCreateEpicDialogOpen, setIsCreateEpicDialogOpen] = useState(false);
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [_isEditMode, setIsEditMode] = useState(false);
@@ -664,12 +669,9 @@ export default function EnhancedBacklogScreen({ workspaceId, projectId }: Enhanc
     toast.success("Sprint started");
   };
 
+  // Completion goes through the modal so unfinished work can be moved and the report saved
   const handleCompleteSprint = (sprintId: string) => {
-    updateSprint({
-      param: { sprintId },
-      json: { status: SprintStatus.COMPLETED },
-    });
-    toast.success("Sprint completed");
+    setCompleteSprintId(sprintId);
   };
 
   const handleWorkItemClick = (item: PopulatedWorkItem) => {
@@ -1134,7 +1136,7 @@ export default function EnhancedBacklogScreen({ workspaceId, projectId }: Enhanc
                             </Button>
                           )}
 
-                          {(canEditSprints || canDeleteSprints) && (
+                          {(canEditSprints || canDeleteSprints || sprint.status !== SprintStatus.PLANNED) && (
                             <DropdownMenu>
                               <DropdownMenuTrigger asChild>
                                 <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -1165,6 +1167,17 @@ export default function EnhancedBacklogScreen({ workspaceId, projectId }: Enhanc
                                     Sprint settings
                                   </DropdownMenuItem>
                                 )}
+                                {sprint.status !== SprintStatus.PLANNED && (
+                                  <DropdownMenuItem
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setReportSprintId(sprint.$id);
+                                    }}
+                                  >
+                                    <BarChart3 className="w-4 h-4 mr-2" />
+                                    View report
+                                  </DropdownMenuItem>
+                                )}
                                 {canDeleteSprints && (
                                   <DropdownMenuItem
                                     className="text-red-600"
@@ -2602,6 +2615,22 @@ export default function EnhancedBacklogScreen({ workspaceId, projectId }: Enhanc
         workspaceId={workspaceId}
       />
 
+      {completeSprintId && sprints.find((s) => s.$id === completeSprintId) && (
+        <CompleteSprintModal
+          sprint={sprints.find((s) => s.$id === completeSprintId)!}
+          open={!!completeSprintId}
+          onOpenChange={(open) => !open && setCompleteSprintId(null)}
+        />
+      )}
+
+      {reportSprintId && sprints.find((s) => s.$id === reportSprintId) && (
+        <SprintReportDialog
+          sprint={sprints.find((s) => s.$id === reportSprintId)!}
+          open={!!reportSprintId}
+          onOpenChange={(open) => !open && setReportSprintId(null)}
+        />
+      )}
+
       {/* Create Epic Dialog */}
       <CreateEpicDialog
         workspaceId={workspaceId}
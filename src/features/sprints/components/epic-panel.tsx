@@ -1,13 +1,15 @@
 "use client";
 
 import { useState } from "react";
-import { Layers, ChevronDown, ChevronRight, Plus, X } from "lucide-react";
+import { format } from "date-fns";
+import { Layers, ChevronDown, ChevronRight, Plus, TrendingUp, X } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 
+import { useGetEpicForecast } from "../api/use-get-epic-forecast";
 import { PopulatedWorkItem, WorkItemType } from "../types";
 
 interface EpicPanelProps {
@@ -18,6 +20,31 @@ interface EpicPanelProps {
   onCreateEpic: () => void;
 }
 
+const formatForecastDate = (date: string | null) =>
+  date ? format(new Date(`${date}T00:00:00`), "MMM d") : "—";
+
+// Monte Carlo completion dates for an epic's open items
+const EpicForecast = ({ epicId }: { epicId: string }) => {
+  const { data: forecast, isLoading } = useGetEpicForecast({ epicId });
+
+  if (isLoading || !forecast) return null;
+
+  return (
+    <div className="flex items-start gap-1.5 text-xs text-muted-foreground p-1.5">
+      <TrendingUp className="size-3 mt-0.5 shrink-0" />
+      {forecast.outcome === "FORECAST" ? (
+        <span title={`${forecast.remainingItems} open items, from ${forecast.completedInHistory} completed in the last ${forecast.historyDays} days`}>
+          50% {formatForecastDate(forecast.p50)} · 85% {formatForecastDate(forecast.p85)} · 95% {formatForecastDate(forecast.p95)}
+        </span>
+      ) : forecast.outcome === "COMPLETE" ? (
+        <span>All items done</span>
+      ) : (
+        <span>Not enough recent throughput to forecast</span>
+      )}
+    </div>
+  );
+};
+
 export const EpicPanel = ({
   epics,
   workItems,
@@ -148,6 +175,7 @@ export const EpicPanel = ({
                   {/* Expanded epic details */}
                   {isExpanded && itemCount > 0 && (
                     <div className="ml-8 mt-1 mb-2 space-y-1">
+                      <EpicForecast epicId={epic.$id} />
                       {workItems
                         .filter((item) => item.epicId === epic.$id)
                         .slice(0, 5)
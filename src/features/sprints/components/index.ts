@@ -20,4 +20,5 @@ export { AssignAssigneeDialog } from './assign-assignee-dialog';
 export { AssignEpicDialog } from './assign-epic-dialog';
 export { SplitWorkItemDialog } from './split-work-item-dialog';
 export { SprintOptionsMenu } from './sprint-options-menu';
+export { SprintReportDialog } from './sprint-report-dialog';
 export { WorkItemOptionsMenu } from './work-item-options-menu';
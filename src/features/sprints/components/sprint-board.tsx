@@ -15,6 +15,8 @@ import { PERMISSIONS } from "@/lib/permissions";
 import { cn } from "@/lib/utils";
 import { useProjectPermissions } from "@/hooks/use-project-permissions";
 import { useCurrentMember } from "@/features/members/hooks/use-current-member";
+import { BoardPresence } from "@/features/tasks/components/board-presence";
+import { useBoardRealtime } from "@/hooks/use-board-realtime";
 
 interface SprintBoardProps {
   workspaceId: string;
@@ -45,6 +47,9 @@ export const SprintBoard = ({ workspaceId, projectId }: SprintBoardProps) => {
     projectId,
   });
 
+  // Keep work item lists live and show who else is planning
+  const { presence } = useBoardRealtime({ workspaceId, projectId });
+
   const sprints = sprintsData?.documents || [];
 
   const activeSprints = sprints.filter((s) => s.status === SprintStatus.ACTIVE);
@@ -77,6 +82,8 @@ export const SprintBoard = ({ workspaceId, projectId }: SprintBoardProps) => {
             </p>
           </div>
         </div>
+        <div className="flex items-center gap-3">
+        <BoardPresence users={presence} />
         {canCreateSprints && (
         
                 <Button
@@ -89,6 +96,7 @@ export const SprintBoard = ({ workspaceId, projectId }: SprintBoardProps) => {
           </Button>
         
         )}
+        </div>
       </div>
 
       {/* Tabs for different views */}
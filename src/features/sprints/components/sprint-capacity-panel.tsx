@@ -0,0 +1,236 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, CalendarOff, Gauge, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MultiDatePicker } from "@/components/multi-date-picker";
+import { cn } from "@/lib/utils";
+
+import { useGetMembers } from "@/features/members/api/use-get-members";
+import { useGetProjectMembers } from "@/features/project-members/api/use-get-project-members";
+import { useGetSprintCapacity } from "../api/use-get-sprint-capacity";
+import { useUpdateSprintCapacity } from "../api/use-update-sprint-capacity";
+import { useRemoveSprintCapacity } from "../api/use-remove-sprint-capacity";
+import { MemberCapacity, Sprint } from "../types";
+
+interface SprintCapacityPanelProps {
+  sprint: Sprint;
+  workspaceId: string;
+  projectId: string;
+  canEdit?: boolean;
+}
+
+/** Committed vs capacity, e.g. "12 / 16 pts"; "12 pts" when capacity is not planned */
+const formatLoad = (committed: number, capacity: number | null, unit: string) =>
+  capacity === null ? `${committed} ${unit}` : `${committed} / ${capacity} ${unit}`;
+
+export const SprintCapacityPanel = ({
+  sprint,
+  workspaceId,
+  projectId,
+  canEdit = false,
+}: SprintCapacityPanelProps) => {
+  const { data: report, isLoading } = useGetSprintCapacity({ sprintId: sprint.$id });
+  const { mutate: updateCapacity, isPending: isUpdating } = useUpdateSprintCapacity();
+  const { mutate: removeCapacity, isPending: isRemoving } = useRemoveSprintCapacity();
+
+  const { data: membersData } = useGetMembers({ workspaceId, enabled: canEdit });
+  const { data: projectMembersData } = useGetProjectMembers({ projectId });
+
+  // Project members that are not planned yet
+  const addableMembers = useMemo(() => {
+    if (!membersData?.documents || !projectMembersData?.documents || !report) return [];
+
+    const projectUserIds = new Set(projectMembersData.documents.map((m) => m.userId));
+    const listed = new Set(report.members.map((m) => m.memberId));
+
+    return membersData.documents.filter((m) => projectUserIds.has(m.userId) && !listed.has(m.$id));
+  }, [membersData, projectMembersData, report]);
+
+  if (isLoading || !report) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  const save = (memberId: string, json: { hoursPerDay?: number | null; pointsPerDay?: number | null; daysOff?: string[] }) =>
+    updateCapacity({ param: { sprintId: sprint.$id, memberId }, json });
+
+  const overAllocated = report.members.filter((m) => m.overAllocated);
+  const hasDates = Boolean(sprint.startDate && sprint.endDate);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5 font-medium text-foreground">
+          <Gauge className="size-3.5" />
+          Capacity
+        </span>
+        {hasDates ? (
+          <span>{report.workingDays} working days</span>
+        ) : (
+          <span>Set sprint dates to plan capacity</span>
+        )}
+        {report.holidays.length > 0 && (
+          <span className="flex items-center gap-1">
+            <CalendarOff className="size-3" />
+            {report.holidays.length} {report.holidays.length === 1 ? "holiday" : "holidays"}
+          </span>
+        )}
+        <span>{formatLoad(report.totals.committedPoints, report.totals.capacityPoints || null, "pts")}</span>
+        <span>{formatLoad(report.totals.committedHours, report.totals.capacityHours || null, "h")}</span>
+        {(report.totals.unassignedPoints > 0 || report.totals.unassignedHours > 0) && (
+          <span>Unassigned: {report.totals.unassignedPoints} pts, {report.totals.unassignedHours}h</span>
+        )}
+        {overAllocated.length > 0 && (
+          <Badge variant="destructive" className="h-5 px-2 text-[10px] gap-1">
+            <AlertTriangle className="size-3" />
+            {overAllocated.length} over capacity
+          </Badge>
+        )}
+      </div>
+
+      {report.members.length > 0 && (
+        <div className="rounded-md border border-border divide-y divide-border">
+          <div className="grid grid-cols-[minmax(0,1fr)_72px_72px_110px_minmax(0,1fr)_28px] gap-2 px-3 py-1.5 text-[10px] font-medium uppercase tracking-wide text-muted-foreground">
+            <span>Member</span>
+            <span>Hours/day</span>
+            <span>Pts/day</span>
+            <span>Days off</span>
+            <span>Committed</span>
+            <span />
+          </div>
+          {report.members.map((member) => (
+            <CapacityRow
+              key={member.memberId}
+              member={member}
+              sprint={sprint}
+              canEdit={canEdit}
+              disabled={isUpdating || isRemoving}
+              onSave={(json) => save(member.memberId, json)}
+              onRemove={() => removeCapacity({ param: { sprintId: sprint.$id, memberId: member.memberId } })}
+            />
+          ))}
+        </div>
+      )}
+
+      {canEdit && addableMembers.length > 0 && (
+        <Select value="" onValueChange={(memberId) => save(memberId, { daysOff: [] })}>
+          <SelectTrigger className="h-8 w-56 text-xs">
+            <SelectValue placeholder="Plan availability for..." />
+          </SelectTrigger>
+          <SelectContent>
+            {addableMembers.map((m) => (
+              <SelectItem key={m.$id} value={m.$id} className="text-xs">
+                {m.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
+
+interface CapacityRowProps {
+  member: MemberCapacity;
+  sprint: Sprint;
+  canEdit: boolean;
+  disabled: boolean;
+  onSave: (json: { hoursPerDay?: number | null; pointsPerDay?: number | null; daysOff?: string[] }) => void;
+  onRemove: () => void;
+}
+
+const CapacityRow = ({ member, sprint, canEdit, disabled, onSave, onRemove }: CapacityRowProps) => {
+  const [hours, setHours] = useState(member.hoursPerDay?.toString() ?? "");
+  const [points, setPoints] = useState(member.pointsPerDay?.toString() ?? "");
+
+  const commit = (field: "hoursPerDay" | "pointsPerDay", raw: string) => {
+    const value = raw.trim() === "" ? null : Number(raw);
+    if (value !== null && (Number.isNaN(value) || value < 0)) return;
+    if (value === member[field]) return;
+    onSave({ [field]: value });
+  };
+
+  return (
+    <div
+      className={cn(
+        "grid grid-cols-[minmax(0,1fr)_72px_72px_110px_minmax(0,1fr)_28px] items-center gap-2 px-3 py-1.5 text-xs",
+        member.overAllocated && "bg-red-500/5"
+      )}
+    >
+      <span className="flex items-center gap-1.5 truncate font-medium">
+        {member.overAllocated && <AlertTriangle className="size-3.5 shrink-0 text-red-500" />}
+        <span className="truncate">{member.name}</span>
+      </span>
+      {canEdit ? (
+        <>
+          <Input
+            type="number"
+            min={0}
+            max={24}
+            step={0.5}
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            onBlur={() => commit("hoursPerDay", hours)}
+            disabled={disabled}
+            className="h-7 text-xs"
+          />
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            onBlur={() => commit("pointsPerDay", points)}
+            disabled={disabled}
+            className="h-7 text-xs"
+          />
+          <MultiDatePicker
+            value={member.daysOff}
+            onChange={(daysOff) => onSave({ daysOff })}
+            placeholder="None"
+            minDate={sprint.startDate ? new Date(sprint.startDate) : undefined}
+            maxDate={sprint.endDate ? new Date(sprint.endDate) : undefined}
+            disabled={disabled}
+            className="h-7 px-2 text-xs"
+          />
+        </>
+      ) : (
+        <>
+          <span>{member.hoursPerDay ?? "—"}</span>
+          <span>{member.pointsPerDay ?? "—"}</span>
+          <span>{member.daysOff.length > 0 ? `${member.daysOff.length} days` : "None"}</span>
+        </>
+      )}
+      <span className={cn("flex flex-col", member.overAllocated ? "text-red-600 dark:text-red-400" : "text-muted-foreground")}>
+        <span>{formatLoad(member.committedPoints, member.capacityPoints, "pts")}</span>
+        <span>{formatLoad(member.committedHours, member.capacityHours, "h")} · {member.availableDays}d</span>
+      </span>
+      {canEdit && member.planned ? (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={disabled}
+          onClick={onRemove}
+        >
+          <Trash2 className="size-3.5 text-muted-foreground" />
+        </Button>
+      ) : (
+        <span />
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 "use client";
 
-import { Calendar, Target, TrendingUp, ChevronDown, Zap, Clock, CheckCircle2, XCircle, Timer } from "lucide-react";
+import { Calendar, Target, TrendingUp, ChevronDown, Zap, Clock, CheckCircle2, XCircle, Timer, AlertTriangle } from "lucide-react";
 import { useState } from "react";
 import { format, differenceInDays, isPast } from "date-fns";
 
@@ -11,7 +11,9 @@ import { Button } from "@/components/ui/button";
 import { SprintOptionsMenu } from "./sprint-options-menu";
 import { CreateWorkItemBar } from "./create-work-item-bar";
 import { WorkItemCard } from "./work-item-card";
+import { SprintCapacityPanel } from "./sprint-capacity-panel";
 import { useGetWorkItems } from "../api/use-get-work-items";
+import { useGetSprintCapacity } from "../api/use-get-sprint-capacity";
 import { PopulatedSprint, SprintStatus } from "../types";
 import { cn } from "@/lib/utils";
 import { useProjectPermissions } from "@/hooks/use-project-permissions";
@@ -69,6 +71,7 @@ export const SprintCard = ({
     canCreateTasksProject,
     canEditTasksProject,
     canDeleteTasksProject,
+    canEditSprintsProject,
   } = useProjectPermissions({ projectId, workspaceId });
   
   // Check if user is workspace admin
@@ -80,6 +83,12 @@ export const SprintCard = ({
   const canCreateWorkItems = isWorkspaceAdmin || canCreateTasksProject;
   const canEditWorkItems = isWorkspaceAdmin || canEditTasksProject;
   const canDeleteWorkItems = isWorkspaceAdmin || canDeleteTasksProject;
+  const canEditSprint = isWorkspaceAdmin || canEditSprintsProject;
+
+  // Capacity matters while the sprint is being planned or worked
+  const isOpenSprint = sprint.status === SprintStatus.PLANNED || sprint.status === SprintStatus.ACTIVE;
+  const { data: capacity } = useGetSprintCapacity({ sprintId: sprint.$id, enabled: isOpenSprint });
+  const overAllocatedCount = capacity?.members.filter((member) => member.overAllocated).length ?? 0;
 
   const { data: workItemsData } = useGetWorkItems({
     workspaceId,
@@ -191,6 +200,17 @@ export const SprintCard = ({
                 <span>{sprint.totalPoints || 0} pts</span>
               </div>
 
+              {/* Over-allocated members */}
+              {isOpenSprint && overAllocatedCount > 0 && (
+                <Badge
+                  variant="outline"
+                  className="h-5 px-2 text-[10px] font-medium flex items-center gap-1 bg-red-50 text-red-600 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-700"
+                >
+                  <AlertTriangle className="size-3" />
+                  {overAllocatedCount} over capacity
+                </Badge>
+              )}
+
               {/* Progress - compact inline */}
               {(sprint.totalPoints ?? 0) > 0 && (
                 <div className="flex items-center gap-2 ml-auto">
@@ -231,6 +251,15 @@ export const SprintCard = ({
           {/* Divider */}
           <div className="h-px bg-border -mx-4" />
 
+          {isOpenSprint && (
+            <SprintCapacityPanel
+              sprint={sprint}
+              workspaceId={workspaceId}
+              projectId={projectId}
+              canEdit={canEditSprint}
+            />
+          )}
+
           {/* Create Work Item Bar - only show if user can create work items */}
           {canCreateWorkItems && (
             <CreateWorkItemBar
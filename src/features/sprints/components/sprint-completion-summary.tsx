@@ -0,0 +1,119 @@
+"use client";
+
+import { ClipboardList, LoaderIcon } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+import { useGetSprintCompletionReport } from "../api/use-get-sprint-completion-report";
+import { SprintCompletionReport, SprintReportItemOutcome, SprintReportTotals } from "../types";
+
+interface SprintCompletionSummaryProps {
+  sprintId: string;
+  enabled?: boolean;
+}
+
+const outcomeConfig = {
+  [SprintReportItemOutcome.COMPLETED]: { label: "Done", className: "bg-green-500/10 text-green-700 dark:text-green-400" },
+  [SprintReportItemOutcome.CARRIED_OVER]: { label: "Carried over", className: "bg-amber-500/10 text-amber-700 dark:text-amber-400" },
+  [SprintReportItemOutcome.REMOVED]: { label: "Removed", className: "bg-muted text-muted-foreground" },
+};
+
+const Stat = ({ label, totals, hint }: { label: string; totals: SprintReportTotals; hint?: string }) => (
+  <div className="rounded-md border border-border p-3">
+    <p className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+    <p className="text-lg font-semibold">{totals.points} pts</p>
+    <p className="text-xs text-muted-foreground">
+      {totals.items} {totals.items === 1 ? "item" : "items"}
+      {hint ? ` · ${hint}` : ""}
+    </p>
+  </div>
+);
+
+const describeDestination = (report: SprintCompletionReport) => {
+  const destination = report.carryOver.destination;
+  if (!destination) return report.carryOver.items > 0 ? "left in sprint" : undefined;
+  return destination.type === "backlog" ? "to backlog" : `to ${destination.name}`;
+};
+
+export const SprintCompletionSummary = ({ sprintId, enabled = true }: SprintCompletionSummaryProps) => {
+  const { data: report, isLoading } = useGetSprintCompletionReport({ sprintId, enabled });
+
+  if (isLoading) {
+    return (
+      <div className="h-[280px] flex items-center justify-center">
+        <LoaderIcon className="size-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="h-[280px] flex flex-col items-center justify-center text-sm text-muted-foreground">
+        <ClipboardList className="size-8 mb-2 opacity-40" />
+        <p>No completion report was saved for this sprint</p>
+      </div>
+    );
+  }
+
+  const changedItems = report.items.filter(
+    (item) => item.addedMidSprint || item.outcome !== SprintReportItemOutcome.COMPLETED
+  );
+
+  return (
+    <div className="space-y-4 max-h-[420px] overflow-y-auto pr-1">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+        <Stat label="Committed" totals={report.committed} />
+        <Stat label="Completed" totals={report.completed} />
+        <Stat label="Added" totals={report.added} />
+        <Stat label="Removed" totals={report.removed} />
+        <Stat label="Carry-over" totals={report.carryOver} hint={describeDestination(report)} />
+      </div>
+
+      {report.assignees.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium">By assignee</p>
+          {report.assignees.map((assignee) => {
+            const percent = assignee.assignedPoints > 0
+              ? Math.round((assignee.completedPoints / assignee.assignedPoints) * 100)
+              : assignee.assignedItems > 0
+                ? Math.round((assignee.completedItems / assignee.assignedItems) * 100)
+                : 0;
+
+            return (
+              <div key={assignee.memberId ?? "unassigned"} className="grid grid-cols-[140px_minmax(0,1fr)_150px] items-center gap-3 text-xs">
+                <span className="truncate">{assignee.name}</span>
+                <Progress value={percent} className="h-1.5" />
+                <span className="text-muted-foreground text-right">
+                  {assignee.completedPoints}/{assignee.assignedPoints} pts · {assignee.completedItems}/{assignee.assignedItems} items
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {changedItems.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium">Scope changes and unfinished work</p>
+          <div className="rounded-md border border-border divide-y divide-border">
+            {changedItems.map((item) => (
+              <div key={item.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                <span className="font-mono text-muted-foreground shrink-0">{item.key}</span>
+                <span className="truncate flex-1">{item.title}</span>
+                {item.addedMidSprint && (
+                  <Badge variant="outline" className="h-5 px-1.5 text-[10px]">Added</Badge>
+                )}
+                <span className={cn("rounded px-1.5 py-0.5 text-[10px] font-medium", outcomeConfig[item.outcome].className)}>
+                  {outcomeConfig[item.outcome].label}
+                </span>
+                <span className="w-10 text-right text-muted-foreground">{item.storyPoints} pts</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 "use client";
 
+import { useState } from "react";
 import {
+  BarChart3,
   MoreHorizontal,
   Trash2,
   Zap,
@@ -23,6 +25,7 @@ import { useDeleteSprint } from "../api/use-delete-sprint";
 import { useUpdateSprint } from "../api/use-update-sprint";
 import { useConfirm } from "@/hooks/use-confirm";
 import { PopulatedSprint, SprintStatus } from "../types";
+import { SprintReportDialog } from "./sprint-report-dialog";
 import { cn } from "@/lib/utils";
 import { usePermission } from "@/hooks/use-permission";
 import { PERMISSIONS } from "@/lib/permissions";
@@ -74,6 +77,8 @@ export const SprintOptionsMenu = ({
     "destructive"
   );
 
+  const [isReportOpen, setIsReportOpen] = useState(false);
+
   const { mutate: deleteSprint, isPending: isDeleting } = useDeleteSprint();
   const { mutate: updateSprint, isPending: isUpdating } = useUpdateSprint();
 
@@ -115,6 +120,11 @@ export const SprintOptionsMenu = ({
   return (
     <>
       <DeleteDialog />
+      <SprintReportDialog
+        sprint={sprint}
+        open={isReportOpen}
+        onOpenChange={setIsReportOpen}
+      />
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
           <Button
@@ -166,6 +176,16 @@ export const SprintOptionsMenu = ({
 
           <DropdownMenuSeparator className="my-1" />
 
+          {sprint.status !== SprintStatus.PLANNED && (
+            <DropdownMenuItem
+              onClick={() => setIsReportOpen(true)}
+              className="text-xs cursor-pointer py-1.5 px-2"
+            >
+              <BarChart3 className="size-3.5 mr-2" />
+              View Report
+            </DropdownMenuItem>
+          )}
+
           {canDeleteSprints && (
             <DropdownMenuItem
               onClick={handleDelete}
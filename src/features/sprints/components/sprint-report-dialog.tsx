@@ -0,0 +1,163 @@
+"use client";
+
+import { LoaderIcon, TrendingDown } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+import { useGetSprintReport } from "../api/use-get-sprint-report";
+import { useGetSprintVelocity } from "../api/use-get-sprint-velocity";
+import { Sprint, SprintStatus } from "../types";
+import { SprintCompletionSummary } from "./sprint-completion-summary";
+
+interface SprintReportDialogProps {
+  sprint: Sprint;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="h-[280px] flex flex-col items-center justify-center text-sm text-muted-foreground">
+    <TrendingDown className="size-8 mb-2 opacity-40" />
+    <p>{message}</p>
+  </div>
+);
+
+export const SprintReportDialog = ({ sprint, open, onOpenChange }: SprintReportDialogProps) => {
+  const { data: report, isLoading: isLoadingReport } = useGetSprintReport({
+    sprintId: sprint.$id,
+    enabled: open,
+  });
+  const { data: velocity, isLoading: isLoadingVelocity } = useGetSprintVelocity({
+    workspaceId: sprint.workspaceId,
+    projectId: sprint.projectId,
+    enabled: open,
+  });
+
+  const series = report?.series ?? [];
+  const hasSeries = series.some((point) => point.remaining !== null);
+  const current = report?.current;
+  const isCompleted = sprint.status === SprintStatus.COMPLETED;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{sprint.name} report</DialogTitle>
+          <DialogDescription>
+            {current
+              ? `${current.completedPoints} of ${current.totalPoints} points done · ${current.completedItems}/${current.totalItems} items`
+              : "Progress is recorded daily while the sprint is active."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={isCompleted ? "summary" : "burndown"}>
+          <TabsList>
+            {isCompleted && <TabsTrigger value="summary">Summary</TabsTrigger>}
+            <TabsTrigger value="burndown">Burndown</TabsTrigger>
+            <TabsTrigger value="burnup">Burnup</TabsTrigger>
+            <TabsTrigger value="velocity">Velocity</TabsTrigger>
+          </TabsList>
+
+          {isCompleted && (
+            <TabsContent value="summary">
+              <SprintCompletionSummary sprintId={sprint.$id} enabled={open} />
+            </TabsContent>
+          )}
+
+          <TabsContent value="burndown">
+            {isLoadingReport ? (
+              <div className="h-[280px] flex items-center justify-center">
+                <LoaderIcon className="size-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : !hasSeries ? (
+              <EmptyChart message="No snapshots recorded for this sprint yet" />
+            ) : (
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="date" tickFormatter={formatDay} fontSize={11} />
+                  <YAxis allowDecimals={false} fontSize={11} />
+                  <Tooltip labelFormatter={(label) => formatDay(String(label))} />
+                  <Legend />
+                  <Line type="linear" dataKey="ideal" name="Ideal" stroke="#9ca3af" strokeDasharray="5 5" dot={false} />
+                  <Line type="stepAfter" dataKey="remaining" name="Remaining" stroke="#3b82f6" strokeWidth={2} dot={false} connectNulls={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </TabsContent>
+
+          <TabsContent value="burnup">
+            {isLoadingReport ? (
+              <div className="h-[280px] flex items-center justify-center">
+                <LoaderIcon className="size-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : !hasSeries ? (
+              <EmptyChart message="No snapshots recorded for this sprint yet" />
+            ) : (
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={series}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="date" tickFormatter={formatDay} fontSize={11} />
+                  <YAxis allowDecimals={false} fontSize={11} />
+                  <Tooltip labelFormatter={(label) => formatDay(String(label))} />
+                  <Legend />
+                  <Line type="stepAfter" dataKey="scope" name="Scope" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                  <Line type="stepAfter" dataKey="completed" name="Completed" stroke="#10b981" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </TabsContent>
+
+          <TabsContent value="velocity">
+            {isLoadingVelocity ? (
+              <div className="h-[280px] flex items-center justify-center">
+                <LoaderIcon className="size-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : !velocity?.sprints.length ? (
+              <EmptyChart message="Complete a sprint to start tracking velocity" />
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Average completed: <span className="font-medium text-foreground">{velocity.averageCompleted}</span> points per sprint
+                </p>
+                <ResponsiveContainer width="100%" height={280}>
+                  <BarChart data={velocity.sprints}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="name" fontSize={11} />
+                    <YAxis allowDecimals={false} fontSize={11} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="committed" name="Committed" fill="#cbd5e1" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="completed" name="Completed" fill="#10b981" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
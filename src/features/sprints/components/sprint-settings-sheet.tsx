@@ -36,6 +36,7 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 
+import { SprintCapacityPanel } from "./sprint-capacity-panel";
 import { useUpdateSprint } from "../api/use-update-sprint";
 import { useDeleteSprint } from "../api/use-delete-sprint";
 import { Sprint, SprintStatus } from "../types";
@@ -363,6 +364,17 @@ export const SprintSettingsSheet = ({
                             </form>
                         </Form>
                     </div>
+
+                    {sprint && sprint.status !== SprintStatus.COMPLETED && (
+                        <div className="mt-8 border-t pt-6">
+                            <SprintCapacityPanel
+                                sprint={sprint}
+                                workspaceId={effectiveWorkspaceId}
+                                projectId={sprint.projectId}
+                                canEdit={canEditSprints}
+                            />
+                        </div>
+                    )}
                 </SheetContent>
             </Sheet>
         </>
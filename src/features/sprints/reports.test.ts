@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+
+import { StatusType } from "@/features/workflows/types";
+
+import {
+  buildSprintReportSeries,
+  buildVelocityTrend,
+  combineBurndownSeries,
+  createClosedStatusMatcher,
+  groupVelocityByWeek,
+  summarizeSprintScope,
+} from "./reports";
+import { Sprint, SprintStatus } from "./types";
+
+const snapshot = (date: string, totalPoints: number, completedPoints: number) => ({
+  date,
+  totalPoints,
+  completedPoints,
+  remainingPoints: totalPoints - completedPoints,
+  totalItems: 0,
+  completedItems: 0,
+});
+
+const sprint = (overrides: Partial<Sprint>): Sprint => ({
+  $id: "s1",
+  $collectionId: "sprints",
+  $databaseId: "db",
+  $createdAt: "2026-01-01T00:00:00.000Z",
+  $updatedAt: "2026-01-01T00:00:00.000Z",
+  $permissions: [],
+  $sequence: 0,
+  name: "Sprint",
+  workspaceId: "w1",
+  projectId: "p1",
+  status: SprintStatus.COMPLETED,
+  position: 0,
+  ...overrides,
+} as Sprint);
+
+describe("createClosedStatusMatcher", () => {
+  it("uses workflow status types instead of the DONE key", () => {
+    const isClosed = createClosedStatusMatcher([
+      { key: "SHIPPED", statusType: StatusType.CLOSED },
+      { key: "DONE", statusType: StatusType.IN_PROGRESS },
+    ]);
+
+    expect(isClosed("SHIPPED")).toBe(true);
+    expect(isClosed("DONE")).toBe(false);
+  });
+
+  it("falls back to DONE/CLOSED for statuses outside the workflow", () => {
+    const isClosed = createClosedStatusMatcher([]);
+
+    expect(isClosed("DONE")).toBe(true);
+    expect(isClosed("CLOSED")).toBe(true);
+    expect(isClosed("IN_PROGRESS")).toBe(false);
+  });
+});
+
+describe("summarizeSprintScope", () => {
+  it("totals points and items", () => {
+    const scope = summarizeSprintScope(
+      [
+        { status: "DONE", storyPoints: 3 },
+        { status: "TODO", storyPoints: 5 },
+        { status: "DONE", storyPoints: null },
+      ],
+      (status) => status === "DONE"
+    );
+
+    expect(scope).toEqual({
+      totalPoints: 8,
+      completedPoints: 3,
+      remainingPoints: 5,
+      totalItems: 3,
+      completedItems: 2,
+    });
+  });
+});
+
+describe("buildSprintReportSeries", () => {
+  const today = new Date("2026-03-04T12:00:00Z");
+
+  it("covers every sprint day with an ideal line to zero", () => {
+    const series = buildSprintReportSeries({
+      startDate: "2026-03-02T00:00:00.000Z",
+      endDate: "2026-03-06T00:00:00.000Z",
+      snapshots: [snapshot("2026-03-02", 20, 0)],
+      today,
+    });
+
+    expect(series.map((p) => p.date)).toEqual([
+      "2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05", "2026-03-06",
+    ]);
+    expect(series.map((p) => p.ideal)).toEqual([20, 15, 10, 5, 0]);
+  });
+
+  it("carries values forward and leaves future days empty", () => {
+    const series = buildSprintReportSeries({
+      startDate: "2026-03-02T00:00:00.000Z",
+      endDate: "2026-03-06T00:00:00.000Z",
+      snapshots: [snapshot("2026-03-02", 20, 0), snapshot("2026-03-03", 22, 6)],
+      today,
+    });
+
+    expect(series.map((p) => p.remaining)).toEqual([20, 16, 16, null, null]);
+    expect(series.map((p) => p.scope)).toEqual([20, 22, 22, null, null]);
+  });
+
+  it("extends past the end date when the sprint overran", () => {
+    const series = buildSprintReportSeries({
+      startDate: "2026-03-02T00:00:00.000Z",
+      endDate: "2026-03-03T00:00:00.000Z",
+      snapshots: [snapshot("2026-03-02", 10, 0), snapshot("2026-03-04", 10, 10)],
+      today,
+    });
+
+    expect(series[series.length - 1]).toMatchObject({ date: "2026-03-04", remaining: 0 });
+  });
+});
+
+describe("buildVelocityTrend", () => {
+  it("orders completed sprints oldest first", () => {
+    const trend = buildVelocityTrend([
+      sprint({ $id: "b", name: "B", completedAt: "2026-02-14T00:00:00.000Z", totalPoints: 20, completedPoints: 18 }),
+      sprint({ $id: "a", name: "A", completedAt: "2026-01-31T00:00:00.000Z", totalPoints: 15, completedPoints: 10 }),
+    ]);
+
+    expect(trend).toEqual([
+      { sprintId: "a", name: "A", committed: 15, completed: 10 },
+      { sprintId: "b", name: "B", committed: 20, completed: 18 },
+    ]);
+  });
+});
+
+describe("groupVelocityByWeek", () => {
+  it("sums completed points per Monday-based week", () => {
+    const weeks = groupVelocityByWeek([
+      // Wednesday and Sunday of the same week
+      sprint({ completedAt: "2026-03-04T10:00:00.000Z", completedPoints: 5 }),
+      sprint({ completedAt: "2026-03-08T10:00:00.000Z", completedPoints: 7 }),
+      sprint({ completedAt: "2026-03-09T10:00:00.000Z", completedPoints: 3 }),
+    ]);
+
+    expect(weeks).toEqual([
+      { week: "2026-03-02", points: 12 },
+      { week: "2026-03-09", points: 3 },
+    ]);
+  });
+});
+
+describe("combineBurndownSeries", () => {
+  it("sums sprints and drops days without data", () => {
+    const combined = combineBurndownSeries([
+      [
+        { date: "2026-03-02", scope: 10, completed: 0, remaining: 10, ideal: 10 },
+        { date: "2026-03-03", scope: null, completed: null, remaining: null, ideal: 0 },
+      ],
+      [{ date: "2026-03-02", scope: 6, completed: 2, remaining: 4, ideal: 6 }],
+    ]);
+
+    expect(combined).toEqual([{ date: "2026-03-02", remaining: 14, ideal: 16 }]);
+  });
+});
@@ -0,0 +1,208 @@
+import { StatusType } from "@/features/workflows/types";
+
+import {
+  Sprint,
+  SprintScope,
+  SprintReportPoint,
+  SprintVelocityPoint,
+} from "./types";
+
+/**
+ * Sprint Reports
+ *
+ * Pure helpers behind burndown, burnup and velocity charts. Snapshots are
+ * recorded by ./server/snapshots.ts; everything here works on plain data.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bound on chart length, guards against bad sprint dates */
+const MAX_REPORT_DAYS = 366;
+
+/**
+ * Build a "is this status done?" check from a project's workflow statuses
+ *
+ * Statuses in the workflow count as done when their type is CLOSED.
+ * Statuses outside it (legacy items) fall back to DONE / CLOSED keys.
+ */
+export function createClosedStatusMatcher(
+  statuses: { key: string; statusType: StatusType | string }[]
+): (status: string) => boolean {
+  const types = new Map(statuses.map((s) => [s.key, s.statusType]));
+
+  return (status: string) => {
+    const statusType = types.get(status);
+    if (statusType) return statusType === StatusType.CLOSED;
+    return status === "DONE" || status === "CLOSED";
+  };
+}
+
+export function summarizeSprintScope(
+  items: { status: string; storyPoints?: number | null }[],
+  isClosed: (status: string) => boolean
+): SprintScope {
+  const scope: SprintScope = {
+    totalPoints: 0,
+    completedPoints: 0,
+    remainingPoints: 0,
+    totalItems: items.length,
+    completedItems: 0,
+  };
+
+  for (const item of items) {
+    const points = item.storyPoints || 0;
+    scope.totalPoints += points;
+
+    if (isClosed(item.status)) {
+      scope.completedPoints += points;
+      scope.completedItems++;
+    }
+  }
+
+  scope.remainingPoints = scope.totalPoints - scope.completedPoints;
+  return scope;
+}
+
+/**
+ * UTC calendar date, "YYYY-MM-DD"
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(dateKey: string, days: number): string {
+  return toDateKey(new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS));
+}
+
+/**
+ * Daily burndown / burnup series for one sprint
+ *
+ * Covers every day from start to end (extended when snapshots run past
+ * the end date). Days between snapshots carry the previous values forward;
+ * days before the first snapshot or after `today` are null. The ideal line
+ * runs from the first recorded scope down to zero on the last day.
+ */
+export function buildSprintReportSeries({
+  startDate,
+  endDate,
+  snapshots,
+  today = new Date(),
+}: {
+  startDate?: string | null;
+  endDate?: string | null;
+  snapshots: (SprintScope & { date: string })[];
+  today?: Date;
+}): SprintReportPoint[] {
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+  const todayKey = toDateKey(today);
+
+  const firstKey = startDate
+    ? toDateKey(new Date(startDate))
+    : sorted[0]?.date ?? todayKey;
+  let lastKey = endDate ? toDateKey(new Date(endDate)) : firstKey;
+
+  const lastSnapshot = sorted[sorted.length - 1];
+  if (lastSnapshot && lastSnapshot.date > lastKey) lastKey = lastSnapshot.date;
+  if (!endDate && todayKey > lastKey) lastKey = todayKey;
+  if (lastKey < firstKey) lastKey = firstKey;
+
+  const days: string[] = [];
+  for (let key = firstKey; key <= lastKey && days.length < MAX_REPORT_DAYS; key = addDays(key, 1)) {
+    days.push(key);
+  }
+
+  const baseline = sorted.find((s) => s.date >= firstKey) ?? sorted[0];
+  const baselineScope = baseline?.totalPoints ?? 0;
+  const span = Math.max(days.length - 1, 1);
+
+  let cursor = 0;
+  let current: (SprintScope & { date: string }) | undefined;
+
+  return days.map((date, index) => {
+    while (cursor < sorted.length && sorted[cursor].date <= date) {
+      current = sorted[cursor];
+      cursor++;
+    }
+
+    const ideal = Math.round(baselineScope * (1 - index / span) * 100) / 100;
+    const known = current && date <= todayKey;
+
+    return {
+      date,
+      scope: known ? current!.totalPoints : null,
+      completed: known ? current!.completedPoints : null,
+      remaining: known ? current!.remainingPoints : null,
+      ideal: Math.max(ideal, 0),
+    };
+  });
+}
+
+function sprintFinishedAt(sprint: Sprint): string {
+  return sprint.completedAt || sprint.endDate || sprint.$updatedAt;
+}
+
+/**
+ * Committed vs completed points per completed sprint, oldest first
+ */
+export function buildVelocityTrend(sprints: Sprint[]): SprintVelocityPoint[] {
+  return [...sprints]
+    .sort((a, b) => sprintFinishedAt(a).localeCompare(sprintFinishedAt(b)))
+    .map((sprint) => ({
+      sprintId: sprint.$id,
+      name: sprint.name,
+      committed: sprint.totalPoints || 0,
+      completed: sprint.completedPoints || 0,
+    }));
+}
+
+/**
+ * Sum several sprint series into one burndown (e.g. across a program)
+ *
+ * Only days with recorded data are kept.
+ */
+export function combineBurndownSeries(
+  seriesList: SprintReportPoint[][]
+): Array<{ date: string; remaining: number; ideal: number }> {
+  const byDate = new Map<string, { remaining: number; ideal: number; known: boolean }>();
+
+  for (const series of seriesList) {
+    for (const point of series) {
+      const entry = byDate.get(point.date) ?? { remaining: 0, ideal: 0, known: false };
+      entry.ideal += point.ideal;
+      if (point.remaining !== null) {
+        entry.remaining += point.remaining;
+        entry.known = true;
+      }
+      byDate.set(point.date, entry);
+    }
+  }
+
+  return Array.from(byDate.entries())
+    .filter(([, entry]) => entry.known)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, entry]) => ({
+      date,
+      remaining: entry.remaining,
+      ideal: Math.round(entry.ideal * 100) / 100,
+    }));
+}
+
+/**
+ * Completed points per week (Monday, UTC) for completed sprints
+ */
+export function groupVelocityByWeek(
+  sprints: Sprint[]
+): Array<{ week: string; points: number }> {
+  const byWeek = new Map<string, number>();
+
+  for (const sprint of sprints) {
+    const finished = new Date(sprintFinishedAt(sprint));
+    const daysSinceMonday = (finished.getUTCDay() + 6) % 7;
+    const week = toDateKey(new Date(finished.getTime() - daysSinceMonday * DAY_MS));
+
+    byWeek.set(week, (byWeek.get(week) ?? 0) + (sprint.completedPoints || 0));
+  }
+
+  return Array.from(byWeek.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, points]) => ({ week, points }));
+}
@@ -44,6 +44,34 @@ export const updateSprintSchema = z.object({
   }
 );
 
+// Where unfinished work goes when a sprint completes
+export const completeSprintSchema = z.object({
+  workspaceId: z.string(),
+  projectId: z.string(),
+  unfinishedDetails: z.object({
+    moveTo: z.union([
+      z.literal("backlog"),
+      z.object({ sprintId: z.string() }),
+      z.object({
+        newSprint: z.object({
+          name: z.string().trim().min(1, "Sprint name is required"),
+          startDate: z.coerce.date().optional(),
+          endDate: z.coerce.date().optional(),
+        }),
+      }),
+    ]),
+  }).optional(),
+});
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+// A member's availability for one sprint; null clears hours or points per day
+export const updateSprintCapacitySchema = z.object({
+  hoursPerDay: z.number().min(0).max(24).nullable().optional(),
+  pointsPerDay: z.number().min(0).max(100).nullable().optional(),
+  daysOff: z.array(dateKeySchema).max(100).optional(),
+});
+
 // Work Item Schemas
 // Work Item Schemas
 export const createWorkItemSchema = z.object({
@@ -71,6 +99,8 @@ export const createWorkItemSchema = z.object({
     })
     .optional(),
   labels: z.array(z.string()).optional(),
+  // Work item template whose custom field values and subtasks are added
+  templateId: z.string().trim().optional().nullable(),
 });
 
 export const updateWorkItemSchema = z.object({
@@ -97,6 +127,8 @@ export const updateWorkItemSchema = z.object({
     })
     .optional(),
   labels: z.array(z.string()).optional(),
+  // Confirms a move past a WIP limit (projects with OVERRIDE enforcement)
+  overrideWipLimit: z.boolean().optional(),
 });
 
 export const bulkMoveWorkItemsSchema = z.object({
@@ -0,0 +1,110 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import { DATABASE_ID, MEMBERS_ID, SPRINTS_ID, SPRINT_CAPACITIES_ID, WORKSPACES_ID } from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { batchGetUsers } from "@/lib/batch-users";
+import { Member } from "@/features/members/types";
+import { Workspace } from "@/features/workspaces/types";
+
+import { buildSprintCapacity, describeCapacityOverrun } from "../capacity";
+import { Sprint, SprintCapacity, SprintCapacityReport, SprintStatus } from "../types";
+import { listSprintWorkItems } from "./snapshots";
+
+/**
+ * Availability rows of a sprint, one per member
+ */
+export async function listSprintCapacities(
+  databases: Databases,
+  sprintId: string
+): Promise<SprintCapacity[]> {
+  const result = await databases.listDocuments<SprintCapacity>(
+    DATABASE_ID,
+    SPRINT_CAPACITIES_ID,
+    [Query.equal("sprintId", sprintId), Query.limit(500)]
+  );
+
+  return result.documents;
+}
+
+/**
+ * Display names for workspace member IDs
+ */
+export async function getMemberNames(
+  databases: Databases,
+  memberIds: string[]
+): Promise<Map<string, string>> {
+  if (memberIds.length === 0) return new Map();
+
+  const { users } = await createAdminClient();
+  const members = await databases.listDocuments<Member>(
+    DATABASE_ID,
+    MEMBERS_ID,
+    [Query.equal("$id", memberIds.slice(0, 100)), Query.limit(100)]
+  );
+  const userMap = await batchGetUsers(users, members.documents.map((member) => member.userId));
+
+  return new Map(
+    members.documents.map((member) => {
+      const userInfo = userMap.get(member.userId);
+      return [member.$id, userInfo?.name || userInfo?.email || member.name || "Unknown member"];
+    })
+  );
+}
+
+/**
+ * Planned capacity against committed work for every member of a sprint
+ */
+export async function getSprintCapacityReport(
+  databases: Databases,
+  sprint: Sprint
+): Promise<SprintCapacityReport> {
+  const [capacities, items, workspace] = await Promise.all([
+    listSprintCapacities(databases, sprint.$id),
+    listSprintWorkItems(databases, sprint.$id),
+    databases.getDocument<Workspace>(DATABASE_ID, WORKSPACES_ID, sprint.workspaceId).catch(() => null),
+  ]);
+
+  const memberIds = new Set(capacities.map((capacity) => capacity.memberId));
+  for (const item of items) {
+    for (const memberId of item.assigneeIds ?? []) memberIds.add(memberId);
+  }
+
+  return buildSprintCapacity({
+    sprintId: sprint.$id,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    holidays: workspace?.holidays ?? [],
+    availability: capacities,
+    items,
+    memberNames: await getMemberNames(databases, [...memberIds]),
+  });
+}
+
+/**
+ * Warning text when any of the given assignees is over capacity in the sprint
+ *
+ * Only planned and active sprints are checked; failures never block the
+ * assignment that triggered the check.
+ */
+export async function getCapacityWarning(
+  databases: Databases,
+  sprintId: string | null | undefined,
+  assigneeIds: string[] | null | undefined
+): Promise<string | null> {
+  if (!sprintId || !assigneeIds || assigneeIds.length === 0) return null;
+
+  try {
+    const sprint = await databases.getDocument<Sprint>(DATABASE_ID, SPRINTS_ID, sprintId);
+    if (sprint.status !== SprintStatus.PLANNED && sprint.status !== SprintStatus.ACTIVE) return null;
+
+    const report = await getSprintCapacityReport(databases, sprint);
+    return describeCapacityOverrun(
+      report.members.filter((member) => assigneeIds.includes(member.memberId))
+    );
+  } catch (error) {
+    console.error("[SprintCapacity] Capacity check failed:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
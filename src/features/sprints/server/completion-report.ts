@@ -0,0 +1,140 @@
+import "server-only";
+
+import { Databases, ID, Query } from "node-appwrite";
+
+import { DATABASE_ID, SPRINT_REPORTS_ID, WORK_ITEMS_ID } from "@/config";
+
+import {
+  buildSprintCompletionReport,
+  collectRemovedItemIds,
+  resolveCommittedItemIds,
+} from "../completion-report";
+import {
+  Sprint,
+  SprintCarryOverDestination,
+  SprintCompletionReport,
+  SprintReportDocument,
+  WorkItem,
+} from "../types";
+import { getMemberNames } from "./capacity";
+import { listSprintSnapshots } from "./snapshots";
+
+/** Appwrite caps the number of values in one equal() query */
+const MAX_QUERY_VALUES = 100;
+
+async function findReportDocument(
+  databases: Databases,
+  sprintId: string
+): Promise<SprintReportDocument | null> {
+  const result = await databases.listDocuments<SprintReportDocument>(
+    DATABASE_ID,
+    SPRINT_REPORTS_ID,
+    [Query.equal("sprintId", sprintId), Query.limit(1)]
+  );
+
+  return result.documents[0] ?? null;
+}
+
+/**
+ * Build and store the completion report of a sprint
+ *
+ * Must run before unfinished items are moved out. Failures are logged and
+ * never block the completion itself.
+ */
+export async function saveSprintCompletionReport(
+  databases: Databases,
+  {
+    sprint,
+    items,
+    isClosed,
+    destination,
+    completedAt = new Date(),
+  }: {
+    sprint: Sprint;
+    items: WorkItem[];
+    isClosed: (status: string) => boolean;
+    destination: SprintCarryOverDestination | null;
+    completedAt?: Date;
+  }
+): Promise<SprintCompletionReport | null> {
+  try {
+    const snapshots = await listSprintSnapshots(databases, sprint.$id);
+    const committedItemIds = resolveCommittedItemIds(sprint.committedItemIds, snapshots);
+    const removedIds = collectRemovedItemIds(committedItemIds, snapshots, items.map((item) => item.$id));
+
+    // Items deleted outright can no longer be described and are left out
+    const removedItems = removedIds.length > 0
+      ? (
+          await databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+            Query.equal("$id", removedIds.slice(0, MAX_QUERY_VALUES)),
+            Query.limit(MAX_QUERY_VALUES),
+          ])
+        ).documents
+      : [];
+
+    const memberIds = new Set<string>();
+    for (const item of items) {
+      for (const memberId of item.assigneeIds ?? []) memberIds.add(memberId);
+    }
+
+    const report = buildSprintCompletionReport({
+      sprintId: sprint.$id,
+      completedAt,
+      items,
+      removedItems,
+      committedItemIds,
+      isClosed,
+      destination,
+      memberNames: await getMemberNames(databases, [...memberIds]),
+    });
+
+    const data = {
+      completedAt: report.completedAt,
+      committedPoints: Math.round(report.committed.points),
+      completedPoints: Math.round(report.completed.points),
+      carryOverPoints: Math.round(report.carryOver.points),
+      details: JSON.stringify(report),
+    };
+
+    const existing = await findReportDocument(databases, sprint.$id);
+    if (existing) {
+      await databases.updateDocument(DATABASE_ID, SPRINT_REPORTS_ID, existing.$id, data);
+    } else {
+      await databases.createDocument(DATABASE_ID, SPRINT_REPORTS_ID, ID.unique(), {
+        sprintId: sprint.$id,
+        projectId: sprint.projectId,
+        workspaceId: sprint.workspaceId,
+        ...data,
+      });
+    }
+
+    return report;
+  } catch (error) {
+    console.error("[SprintReport] Failed to save completion report:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Stored completion report of a sprint, or null if it has none
+ */
+export async function getSprintCompletionReport(
+  databases: Databases,
+  sprintId: string
+): Promise<SprintCompletionReport | null> {
+  const document = await findReportDocument(databases, sprintId);
+  return document ? (JSON.parse(document.details) as SprintCompletionReport) : null;
+}
+
+/**
+ * Remove a sprint's completion report (sprint deletion)
+ */
+export async function deleteSprintCompletionReport(
+  databases: Databases,
+  sprintId: string
+): Promise<void> {
+  const document = await findReportDocument(databases, sprintId);
+  if (document) {
+    await databases.deleteDocument(DATABASE_ID, SPRINT_REPORTS_ID, document.$id);
+  }
+}
@@ -3,7 +3,7 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 
-import { DATABASE_ID, SPRINTS_ID, WORK_ITEMS_ID, MEMBERS_ID } from "@/config";
+import { DATABASE_ID, SPRINTS_ID, SPRINT_CAPACITIES_ID, WORK_ITEMS_ID, MEMBERS_ID } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
 import { createAdminClient } from "@/lib/appwrite";
 import { batchGetUsers } from "@/lib/batch-users";
@@ -11,15 +11,45 @@ import { can } from "@/lib/rbac";
 import { PERMISSIONS } from "@/lib/permissions";
 
 import { getMember } from "@/features/members/utils";
+import { Member } from "@/features/members/types";
 import { logComputeUsage, getComputeUnits } from "@/lib/usage-metering";
 import { invalidateCache, invalidateCachePattern, CK, CKPattern } from "@/lib/redis";
+import { emitProjectWebhookEvent } from "@/features/webhooks/server/events";
+import { WebhookEventType } from "@/features/webhooks/server/types";
+import { diffWorkItemFields } from "@/features/tasks/change-log";
+import { recordWorkItemChanges } from "@/features/tasks/server/change-log";
+import { WorkItemChangeSource } from "@/features/tasks/types";
 
 import {
   createSprintSchema,
   updateSprintSchema,
   reorderSprintsSchema,
+  updateSprintCapacitySchema,
+  completeSprintSchema,
 } from "../schemas";
-import { Sprint, SprintStatus, PopulatedSprint, WorkItem } from "../types";
+import {
+  Sprint,
+  SprintCapacity,
+  SprintCarryOverDestination,
+  SprintScope,
+  SprintStatus,
+  PopulatedSprint,
+  WorkItem,
+} from "../types";
+import { summarizeSprintScope, buildSprintReportSeries, buildVelocityTrend, toDateKey } from "../reports";
+import {
+  getClosedStatusMatcher,
+  listSprintWorkItems,
+  listSprintSnapshots,
+  computeSprintScope,
+  finalizeSprintMetrics,
+} from "./snapshots";
+import { getSprintCapacityReport, listSprintCapacities } from "./capacity";
+import {
+  deleteSprintCompletionReport,
+  getSprintCompletionReport,
+  saveSprintCompletionReport,
+} from "./completion-report";
 
 const app = new Hono()
   // Get all sprints for a project
@@ -78,6 +108,15 @@ const app = new Hono()
         query
       );
 
+      // One done-check per project (workflow CLOSED statuses)
+      const matchers = new Map<string, Promise<(status: string) => boolean>>();
+      const getMatcher = (sprintProjectId: string) => {
+        if (!matchers.has(sprintProjectId)) {
+          matchers.set(sprintProjectId, getClosedStatusMatcher(databases, sprintProjectId));
+        }
+        return matchers.get(sprintProjectId)!;
+      };
+
       // Populate work items count and points for each sprint
       const populatedSprints: PopulatedSprint[] = await Promise.all(
         sprints.documents.map(async (sprint) => {
@@ -87,20 +126,22 @@ const app = new Hono()
             [Query.equal("sprintId", sprint.$id)]
           );
 
-          const totalPoints = workItems.documents.reduce(
-            (sum, item) => sum + (item.storyPoints || 0),
-            0
-          );
+          // Completed sprints keep the metrics stored at completion
+          // (unfinished items may have been moved out since)
+          if (sprint.status === SprintStatus.COMPLETED && sprint.completedAt) {
+            return {
+              ...sprint,
+              workItemCount: workItems.total,
+            };
+          }
 
-          const completedPoints = workItems.documents
-            .filter((item) => item.status === "DONE")
-            .reduce((sum, item) => sum + (item.storyPoints || 0), 0);
+          const scope = summarizeSprintScope(workItems.documents, await getMatcher(sprint.projectId));
 
           return {
             ...sprint,
             workItemCount: workItems.total,
-            totalPoints,
-            completedPoints,
+            totalPoints: scope.totalPoints,
+            completedPoints: scope.completedPoints,
           };
         })
       );
@@ -113,6 +154,305 @@ const app = new Hono()
       });
     }
   )
+  // Committed vs completed points for recent completed sprints
+  .get(
+    "/velocity",
+    sessionMiddleware,
+    zValidator(
+      "query",
+      z.object({
+        workspaceId: z.string(),
+        projectId: z.string(),
+        limit: z.coerce.number().int().min(1).max(50).optional(),
+      })
+    ),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, limit = 10 } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_SPRINTS)) {
+        return c.json({ error: "Forbidden: No access to this project" }, 403);
+      }
+
+      const sprints = await databases.listDocuments<Sprint>(
+        DATABASE_ID,
+        SPRINTS_ID,
+        [
+          Query.equal("workspaceId", workspaceId),
+          Query.equal("projectId", projectId),
+          Query.equal("status", SprintStatus.COMPLETED),
+          Query.orderDesc("$updatedAt"),
+          Query.limit(limit),
+        ]
+      );
+
+      const trend = buildVelocityTrend(sprints.documents);
+      const averageCompleted = trend.length > 0
+        ? Math.round((trend.reduce((sum, point) => sum + point.completed, 0) / trend.length) * 10) / 10
+        : 0;
+
+      return c.json({ data: { sprints: trend, averageCompleted } });
+    }
+  )
+  // Burndown / burnup series for a sprint
+  .get(
+    "/:sprintId/report",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { sprintId } = c.req.param();
+
+      const sprint = await databases.getDocument<Sprint>(
+        DATABASE_ID,
+        SPRINTS_ID,
+        sprintId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: sprint.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, sprint.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_SPRINTS)) {
+        return c.json({ error: "Forbidden: No access to this project" }, 403);
+      }
+
+      const snapshots: (SprintScope & { date: string })[] = await listSprintSnapshots(databases, sprintId);
+
+      // Active sprints: today's point reflects live data, not the last cron run
+      let current = snapshots[snapshots.length - 1] ?? null;
+      if (sprint.status === SprintStatus.ACTIVE) {
+        current = { date: toDateKey(new Date()), ...(await computeSprintScope(databases, sprint)) };
+        snapshots.push(current);
+      }
+
+      const series = buildSprintReportSeries({
+        startDate: sprint.startDate,
+        endDate: sprint.endDate,
+        snapshots,
+      });
+
+      return c.json({
+        data: {
+          sprintId: sprint.$id,
+          name: sprint.name,
+          status: sprint.status,
+          startDate: sprint.startDate ?? null,
+          endDate: sprint.endDate ?? null,
+          current,
+          series,
+        },
+      });
+    }
+  )
+  // Scope report frozen when the sprint was completed
+  .get(
+    "/:sprintId/completion-report",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { sprintId } = c.req.param();
+
+      const sprint = await databases.getDocument<Sprint>(
+        DATABASE_ID,
+        SPRINTS_ID,
+        sprintId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: sprint.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, sprint.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_SPRINTS)) {
+        return c.json({ error: "Forbidden: No access to this project" }, 403);
+      }
+
+      const report = await getSprintCompletionReport(databases, sprintId);
+
+      return c.json({ data: report });
+    }
+  )
+  // Member availability against committed work
+  .get(
+    "/:sprintId/capacity",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { sprintId } = c.req.param();
+
+      const sprint = await databases.getDocument<Sprint>(
+        DATABASE_ID,
+        SPRINTS_ID,
+        sprintId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: sprint.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, sprint.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_SPRINTS)) {
+        return c.json({ error: "Forbidden: No access to this project" }, 403);
+      }
+
+      const report = await getSprintCapacityReport(databases, sprint);
+
+      return c.json({ data: report });
+    }
+  )
+  // Set a member's availability for a sprint
+  .put(
+    "/:sprintId/capacity/:memberId",
+    sessionMiddleware,
+    zValidator("json", updateSprintCapacitySchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { sprintId, memberId } = c.req.param();
+      const availability = c.req.valid("json");
+
+      const sprint = await databases.getDocument<Sprint>(
+        DATABASE_ID,
+        SPRINTS_ID,
+        sprintId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: sprint.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, sprint.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.EDIT_SPRINTS)) {
+        return c.json({ error: "Forbidden: No permission to edit sprints" }, 403);
+      }
+
+      const planned = await databases.getDocument<Member>(DATABASE_ID, MEMBERS_ID, memberId).catch(() => null);
+      if (!planned || planned.workspaceId !== sprint.workspaceId) {
+        return c.json({ error: "Member not found in this workspace" }, 404);
+      }
+
+      const existing = (await listSprintCapacities(databases, sprintId)).find(
+        (capacity) => capacity.memberId === memberId
+      );
+
+      if (existing) {
+        await databases.updateDocument<SprintCapacity>(
+          DATABASE_ID,
+          SPRINT_CAPACITIES_ID,
+          existing.$id,
+          availability
+        );
+      } else {
+        await databases.createDocument<SprintCapacity>(
+          DATABASE_ID,
+          SPRINT_CAPACITIES_ID,
+          ID.unique(),
+          {
+            sprintId,
+            projectId: sprint.projectId,
+            workspaceId: sprint.workspaceId,
+            memberId,
+            hoursPerDay: availability.hoursPerDay ?? null,
+            pointsPerDay: availability.pointsPerDay ?? null,
+            daysOff: availability.daysOff ?? [],
+          }
+        );
+      }
+
+      const report = await getSprintCapacityReport(databases, sprint);
+
+      return c.json({ data: report });
+    }
+  )
+  // Remove a member's availability from a sprint
+  .delete(
+    "/:sprintId/capacity/:memberId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { sprintId, memberId } = c.req.param();
+
+      const sprint = await databases.getDocument<Sprint>(
+        DATABASE_ID,
+        SPRINTS_ID,
+        sprintId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: sprint.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, sprint.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.EDIT_SPRINTS)) {
+        return c.json({ error: "Forbidden: No permission to edit sprints" }, 403);
+      }
+
+      const existing = (await listSprintCapacities(databases, sprintId)).find(
+        (capacity) => capacity.memberId === memberId
+      );
+
+      if (existing) {
+        await databases.deleteDocument(DATABASE_ID, SPRINT_CAPACITIES_ID, existing.$id);
+      }
+
+      const report = await getSprintCapacityReport(databases, sprint);
+
+      return c.json({ data: report });
+    }
+  )
   // Get a single sprint with work items
   .get(
     "/:sprintId",
@@ -263,8 +603,9 @@ const app = new Hono()
         0
       );
 
+      const isClosed = await getClosedStatusMatcher(databases, sprint.projectId);
       const completedPoints = populatedWorkItems
-        .filter((item) => item.status === "DONE")
+        .filter((item) => isClosed(item.status))
         .reduce((sum, item) => sum + (item.storyPoints || 0), 0);
 
       return c.json({
@@ -432,6 +773,25 @@ const app = new Hono()
       };
       (updateData as Record<string, unknown>).lastModifiedBy = user.$id;
 
+      // Remember the starting scope so the completion report can tell added from committed work
+      if (updates.status === SprintStatus.ACTIVE && sprint.status !== SprintStatus.ACTIVE) {
+        (updateData as Record<string, unknown>).committedItemIds =
+          (await listSprintWorkItems(databases, sprintId)).map((item) => item.$id);
+      }
+
+      // Freeze burndown/velocity metrics and the scope report when the sprint closes;
+      // unfinished items stay in the sprint
+      if (updates.status === SprintStatus.COMPLETED && sprint.status !== SprintStatus.COMPLETED) {
+        const items = await listSprintWorkItems(databases, sprintId);
+        await finalizeSprintMetrics(databases, sprint, items);
+        await saveSprintCompletionReport(databases, {
+          sprint,
+          items,
+          isClosed: await getClosedStatusMatcher(databases, sprint.projectId),
+          destination: null,
+        });
+      }
+
       const updatedSprint = await databases.updateDocument<Sprint>(
         DATABASE_ID,
         SPRINTS_ID,
@@ -452,6 +812,25 @@ const app = new Hono()
 
       await invalidateCache(CK.sprint(sprintId), CK.sprintList(sprint.workspaceId, sprint.projectId));
 
+      if (updates.status && updates.status !== sprint.status) {
+        const sprintEvent = updates.status === SprintStatus.ACTIVE
+          ? WebhookEventType.SPRINT_STARTED
+          : updates.status === SprintStatus.COMPLETED ? WebhookEventType.SPRINT_COMPLETED : null;
+
+        if (sprintEvent) {
+          emitProjectWebhookEvent(sprint.projectId, sprintEvent, user, {
+            sprintId,
+            title: updatedSprint.name,
+            summary: sprintEvent === WebhookEventType.SPRINT_STARTED
+              ? `Sprint "${updatedSprint.name}" started`
+              : `Sprint "${updatedSprint.name}" completed`,
+            startDate: updatedSprint.startDate,
+            endDate: updatedSprint.endDate,
+            goal: updatedSprint.goal,
+          });
+        }
+      }
+
       return c.json({ data: updatedSprint });
     }
   )
@@ -459,24 +838,13 @@ const app = new Hono()
   .post(
     "/:sprintId/complete",
     sessionMiddleware,
-    zValidator(
-      "json",
-      z.object({
-        workspaceId: z.string(),
-        projectId: z.string(),
-        unfinishedDetails: z.object({
-          moveTo: z.union([z.literal("backlog"), z.object({ sprintId: z.string() })]),
-        }).optional(),
-      })
-    ),
+    zValidator("json", completeSprintSchema),
     async (c) => {
       const databases = c.get("databases");
       const user = c.get("user");
       const { sprintId } = c.req.param();
       const { workspaceId, projectId, unfinishedDetails } = c.req.valid("json");
 
-
-
       const member = await getMember({
         databases,
         workspaceId,
@@ -494,28 +862,84 @@ const app = new Hono()
         return c.json({ error: "Forbidden: No permission to complete sprints in this project" }, 403);
       }
 
-      // 1. Fetch sprint items
-      const workItems = await databases.listDocuments<WorkItem>(
-        DATABASE_ID,
-        WORK_ITEMS_ID,
-        [
-          Query.equal("sprintId", sprintId),
-          Query.limit(100), // Adjust limit if needed
-        ]
-      );
+      const moveTo = unfinishedDetails?.moveTo;
+      if (moveTo && typeof moveTo === "object" && "newSprint" in moveTo) {
+        if (!hasProjectPermission(access, ProjectPermissionKey.CREATE_SPRINTS)) {
+          return c.json({ error: "Forbidden: No permission to create sprints in this project" }, 403);
+        }
+        const { startDate, endDate } = moveTo.newSprint;
+        if (startDate && endDate && endDate < startDate) {
+          return c.json({ error: "End date must be after or equal to start date" }, 400);
+        }
+      }
 
-      const allItems = workItems.documents;
-      const unfinishedItems = allItems.filter(item => item.status !== "DONE");
+      // 1. Fetch sprint items while the full scope is still in the sprint
+      const sprint = await databases.getDocument<Sprint>(DATABASE_ID, SPRINTS_ID, sprintId);
+      // Permissions were checked against the body's project, so the sprint must belong to it
+      if (sprint.projectId !== projectId || sprint.workspaceId !== workspaceId) {
+        return c.json({ error: "Sprint not found in this project" }, 400);
+      }
+      if (sprint.status === SprintStatus.COMPLETED) {
+        return c.json({ error: "Sprint is already completed" }, 400);
+      }
 
-      // 2. Move unfinished items
-      if (unfinishedDetails && unfinishedItems.length > 0) {
-        const destinationSprintId = unfinishedDetails.moveTo === "backlog"
-          ? null
-          : unfinishedDetails.moveTo.sprintId;
+      const allItems = await listSprintWorkItems(databases, sprintId);
+      const isClosed = await getClosedStatusMatcher(databases, projectId);
+      const unfinishedItems = allItems.filter(item => !isClosed(item.status));
+
+      // 2. Resolve where unfinished items go, creating the new sprint if asked to
+      let destination: SprintCarryOverDestination | null = null;
+      if (moveTo === "backlog") {
+        destination = { type: "backlog" };
+      } else if (moveTo && "sprintId" in moveTo) {
+        const target = await databases.getDocument<Sprint>(DATABASE_ID, SPRINTS_ID, moveTo.sprintId);
+        if (target.projectId !== projectId || target.$id === sprintId) {
+          return c.json({ error: "Destination sprint must be another sprint in this project" }, 400);
+        }
+        if (target.status === SprintStatus.COMPLETED || target.status === SprintStatus.CANCELLED) {
+          return c.json({ error: "Destination sprint is already closed" }, 400);
+        }
+        destination = { type: "sprint", sprintId: target.$id, name: target.name };
+      } else if (moveTo && unfinishedItems.length > 0) {
+        const last = await databases.listDocuments<Sprint>(
+          DATABASE_ID,
+          SPRINTS_ID,
+          [Query.equal("projectId", projectId), Query.orderDesc("position"), Query.limit(1)]
+        );
+        const created = await databases.createDocument<Sprint>(
+          DATABASE_ID,
+          SPRINTS_ID,
+          ID.unique(),
+          {
+            name: moveTo.newSprint.name,
+            workspaceId,
+            projectId,
+            status: SprintStatus.PLANNED,
+            startDate: moveTo.newSprint.startDate?.toISOString(),
+            endDate: moveTo.newSprint.endDate?.toISOString(),
+            position: (last.documents[0]?.position ?? 0) + 1000,
+          }
+        );
+        destination = { type: "sprint", sprintId: created.$id, name: created.name };
+      }
+
+      // 3. Freeze metrics and the scope report before unfinished items leave
+      await finalizeSprintMetrics(databases, sprint, allItems);
+
+      const report = await saveSprintCompletionReport(databases, {
+        sprint,
+        items: allItems,
+        isClosed,
+        destination,
+      });
+
+      // 4. Move unfinished items
+      if (destination && unfinishedItems.length > 0) {
+        const destinationSprintId = destination.type === "sprint" ? destination.sprintId : null;
 
-        await Promise.all(
+        const movedItems = await Promise.all(
           unfinishedItems.map(item =>
-            databases.updateDocument(
+            databases.updateDocument<WorkItem>(
               DATABASE_ID,
               WORK_ITEMS_ID,
               item.$id,
@@ -526,9 +950,19 @@ const app = new Hono()
             )
           )
         );
+
+        await recordWorkItemChanges(
+          databases,
+          movedItems.map((moved, index) => ({
+            item: moved,
+            changes: diffWorkItemFields(unfinishedItems[index], moved),
+            changedBy: user.$id,
+            source: WorkItemChangeSource.SPRINT,
+          }))
+        );
       }
 
-      // 3. Mark sprint complete
+      // 5. Mark sprint complete
       const updatedSprint = await databases.updateDocument<Sprint>(
         DATABASE_ID,
         SPRINTS_ID,
@@ -539,6 +973,8 @@ const app = new Hono()
         }
       );
 
+      const movedTo = destination?.type === "sprint" ? destination.sprintId : "backlog";
+
       // Log usage
       logComputeUsage({
         databases,
@@ -549,14 +985,29 @@ const app = new Hono()
         metadata: {
           sprintId,
           movedItemsCount: unfinishedItems.length,
-          destination: typeof unfinishedDetails?.moveTo === 'object' ? unfinishedDetails.moveTo.sprintId : 'backlog'
+          destination: movedTo
         },
       });
 
       await invalidateCache(CK.sprint(sprintId), CK.sprintList(workspaceId, projectId));
       await invalidateCachePattern(CKPattern.workItemLists(workspaceId));
+      if (destination?.type === "sprint") {
+        await invalidateCachePattern(CKPattern.sprintLists(workspaceId));
+      }
 
-      return c.json({ data: updatedSprint });
+      emitProjectWebhookEvent(projectId, WebhookEventType.SPRINT_COMPLETED, user, {
+        sprintId,
+        title: updatedSprint.name,
+        summary: `Sprint "${updatedSprint.name}" completed`,
+        startDate: updatedSprint.startDate,
+        endDate: updatedSprint.endDate,
+        goal: updatedSprint.goal,
+        completedItemsCount: allItems.length - unfinishedItems.length,
+        unfinishedItemsCount: unfinishedItems.length,
+        unfinishedMovedTo: movedTo,
+      });
+
+      return c.json({ data: updatedSprint, report });
     }
   )
   // Delete a sprint
@@ -598,9 +1049,9 @@ const app = new Hono()
         [Query.equal("sprintId", sprintId)]
       );
 
-      await Promise.all(
+      const movedItems = await Promise.all(
         workItems.documents.map((workItem) =>
-          databases.updateDocument(
+          databases.updateDocument<WorkItem>(
             DATABASE_ID,
             WORK_ITEMS_ID,
             workItem.$id,
@@ -609,8 +1060,27 @@ const app = new Hono()
         )
       );
 
+      await recordWorkItemChanges(
+        databases,
+        movedItems.map((moved, index) => ({
+          item: moved,
+          changes: diffWorkItemFields(workItems.documents[index], moved),
+          changedBy: user.$id,
+          source: WorkItemChangeSource.SPRINT,
+        }))
+      );
+
       await databases.deleteDocument(DATABASE_ID, SPRINTS_ID, sprintId);
 
+      // Availability and the completion report only mean something for this sprint
+      const capacities = await listSprintCapacities(databases, sprintId).catch(() => []);
+      await Promise.all([
+        ...capacities.map((capacity) =>
+          databases.deleteDocument(DATABASE_ID, SPRINT_CAPACITIES_ID, capacity.$id)
+        ),
+        deleteSprintCompletionReport(databases, sprintId).catch(() => undefined),
+      ]);
+
       // Log usage for sprint deletion
       logComputeUsage({
         databases,
@@ -0,0 +1,241 @@
+import "server-only";
+
+import { Databases, ID, Query } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  SPRINT_SNAPSHOTS_ID,
+  WORK_ITEMS_ID,
+  WORKFLOW_STATUSES_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { Project } from "@/features/projects/types";
+import { WorkflowStatus } from "@/features/workflows/types";
+
+import { createClosedStatusMatcher, summarizeSprintScope, toDateKey } from "../reports";
+import { Sprint, SprintScope, SprintSnapshot, SprintStatus, WorkItem } from "../types";
+
+/**
+ * Sprint Snapshots
+ *
+ * Records each sprint's scope, remaining points and item IDs once per UTC day
+ * (POST /cron/sprints/snapshot) and once more when the sprint completes.
+ * Re-running on the same day overwrites that day's row.
+ */
+
+const PAGE_SIZE = 100;
+const MAX_SPRINT_ITEMS = 5000;
+
+/**
+ * Done-check for a project's work items, based on its workflow's CLOSED statuses
+ */
+export async function getClosedStatusMatcher(
+  databases: Databases,
+  projectId: string
+): Promise<(status: string) => boolean> {
+  try {
+    const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+
+    if (project.workflowId) {
+      const statuses = await databases.listDocuments<WorkflowStatus>(
+        DATABASE_ID,
+        WORKFLOW_STATUSES_ID,
+        [Query.equal("workflowId", project.workflowId), Query.limit(100)]
+      );
+      return createClosedStatusMatcher(statuses.documents);
+    }
+  } catch {
+    // Fall back to legacy DONE/CLOSED keys
+  }
+
+  return createClosedStatusMatcher([]);
+}
+
+/**
+ * All work items currently in a sprint
+ */
+export async function listSprintWorkItems(
+  databases: Databases,
+  sprintId: string
+): Promise<WorkItem[]> {
+  const items: WorkItem[] = [];
+  let cursor: string | undefined;
+
+  while (items.length < MAX_SPRINT_ITEMS) {
+    const page = await databases.listDocuments<WorkItem>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        Query.equal("sprintId", sprintId),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    items.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return items;
+}
+
+/**
+ * Current scope and progress of a sprint
+ */
+export async function computeSprintScope(
+  databases: Databases,
+  sprint: Sprint,
+  items?: WorkItem[]
+): Promise<SprintScope> {
+  const [isClosed, sprintItems] = await Promise.all([
+    getClosedStatusMatcher(databases, sprint.projectId),
+    items ? Promise.resolve(items) : listSprintWorkItems(databases, sprint.$id),
+  ]);
+
+  return summarizeSprintScope(sprintItems, isClosed);
+}
+
+/**
+ * Write (or overwrite) a sprint's snapshot for the given day
+ */
+export async function recordSprintSnapshot(
+  databases: Databases,
+  sprint: Sprint,
+  scope: SprintScope & { itemIds?: string[] },
+  date: Date = new Date()
+): Promise<void> {
+  const dateKey = toDateKey(date);
+
+  const existing = await databases.listDocuments<SprintSnapshot>(
+    DATABASE_ID,
+    SPRINT_SNAPSHOTS_ID,
+    [Query.equal("sprintId", sprint.$id), Query.equal("date", dateKey), Query.limit(1)]
+  );
+
+  if (existing.documents.length > 0) {
+    await databases.updateDocument(
+      DATABASE_ID,
+      SPRINT_SNAPSHOTS_ID,
+      existing.documents[0].$id,
+      { ...scope }
+    );
+    return;
+  }
+
+  await databases.createDocument(DATABASE_ID, SPRINT_SNAPSHOTS_ID, ID.unique(), {
+    sprintId: sprint.$id,
+    projectId: sprint.projectId,
+    workspaceId: sprint.workspaceId,
+    date: dateKey,
+    ...scope,
+  });
+}
+
+/**
+ * All snapshots for a sprint, oldest first
+ */
+export async function listSprintSnapshots(
+  databases: Databases,
+  sprintId: string
+): Promise<SprintSnapshot[]> {
+  const snapshots = await databases.listDocuments<SprintSnapshot>(
+    DATABASE_ID,
+    SPRINT_SNAPSHOTS_ID,
+    [Query.equal("sprintId", sprintId), Query.orderAsc("date"), Query.limit(500)]
+  );
+
+  return snapshots.documents;
+}
+
+/**
+ * Store final metrics on a sprint that is being completed
+ *
+ * Must run before unfinished items are moved out, so the final snapshot
+ * still sees the full scope. Velocity is completed points per sprint day.
+ */
+export async function finalizeSprintMetrics(
+  databases: Databases,
+  sprint: Sprint,
+  items?: WorkItem[],
+  completedAt: Date = new Date()
+): Promise<SprintScope> {
+  const sprintItems = items ?? (await listSprintWorkItems(databases, sprint.$id));
+  const scope = await computeSprintScope(databases, sprint, sprintItems);
+
+  const startMs = sprint.startDate ? Date.parse(sprint.startDate) : completedAt.getTime();
+  const days = Math.max(Math.ceil((completedAt.getTime() - startMs) / (24 * 60 * 60 * 1000)), 1);
+
+  await Promise.all([
+    recordSprintSnapshot(databases, sprint, { ...scope, itemIds: sprintItems.map((item) => item.$id) }, completedAt),
+    databases.updateDocument(DATABASE_ID, SPRINTS_ID, sprint.$id, {
+      totalPoints: scope.totalPoints,
+      completedPoints: scope.completedPoints,
+      velocity: Math.round((scope.completedPoints / days) * 100) / 100,
+      completedAt: completedAt.toISOString(),
+    }),
+  ]);
+
+  return scope;
+}
+
+export interface SprintSnapshotRunResult {
+  sprintsProcessed: number;
+  snapshotsWritten: number;
+  errors: number;
+}
+
+/**
+ * Snapshot every active sprint (daily cron)
+ */
+export async function captureActiveSprintSnapshots(
+  now: Date = new Date()
+): Promise<SprintSnapshotRunResult> {
+  const { databases } = await createAdminClient();
+  const result: SprintSnapshotRunResult = { sprintsProcessed: 0, snapshotsWritten: 0, errors: 0 };
+  const matchers = new Map<string, (status: string) => boolean>();
+  let cursor: string | undefined;
+
+  while (true) {
+    const page = await databases.listDocuments<Sprint>(
+      DATABASE_ID,
+      SPRINTS_ID,
+      [
+        Query.equal("status", SprintStatus.ACTIVE),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    for (const sprint of page.documents) {
+      result.sprintsProcessed++;
+
+      try {
+        let isClosed = matchers.get(sprint.projectId);
+        if (!isClosed) {
+          isClosed = await getClosedStatusMatcher(databases, sprint.projectId);
+          matchers.set(sprint.projectId, isClosed);
+        }
+
+        const items = await listSprintWorkItems(databases, sprint.$id);
+        await recordSprintSnapshot(
+          databases,
+          sprint,
+          { ...summarizeSprintScope(items, isClosed), itemIds: items.map((item) => item.$id) },
+          now
+        );
+        result.snapshotsWritten++;
+      } catch (error) {
+        result.errors++;
+        console.error(`[SprintSnapshots] Failed for sprint ${sprint.$id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return result;
+}
@@ -0,0 +1,81 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import { DATABASE_ID, PROJECTS_ID, WORK_ITEMS_ID } from "@/config";
+import { Project } from "@/features/projects/types";
+
+import { WorkItem } from "../types";
+
+// Generate unique work item key
+export async function generateWorkItemKey(
+  databases: Databases,
+  projectId: string
+): Promise<string> {
+  const [key] = await reserveWorkItemKeys(databases, projectId, 1);
+  return key;
+}
+
+// Consecutive keys for work items created one after another (bulk imports)
+export async function reserveWorkItemKeys(
+  databases: Databases,
+  projectId: string,
+  count: number
+): Promise<string[]> {
+  const project = await databases.getDocument(
+    DATABASE_ID,
+    PROJECTS_ID,
+    projectId
+  ) as Project;
+
+  // Get project prefix (first 3-4 letters of project name in uppercase)
+  const prefix = project.name
+    .replace(/[^a-zA-Z]/g, "")
+    .substring(0, 4)
+    .toUpperCase() || "PROJ";
+
+  // Get all work items for this project to find the highest key number
+  let workItems;
+  try {
+    workItems = await databases.listDocuments<WorkItem>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        Query.equal("projectId", projectId),
+        Query.orderDesc("$createdAt"),
+        Query.limit(100), // Get more items to find the highest number
+      ]
+    );
+  } catch {
+    // Fallback if index on projectId, $createdAt doesn't exist
+    workItems = await databases.listDocuments<WorkItem>(
+      DATABASE_ID,
+      WORK_ITEMS_ID,
+      [
+        Query.equal("projectId", projectId),
+        Query.limit(100),
+      ]
+    );
+  }
+
+  // Extract key numbers and find the highest one
+  let highestNumber = 0;
+  const keyPattern = new RegExp(`^${prefix}-(\\d+)$`);
+
+  for (const item of workItems.documents) {
+    const match = item.key.match(keyPattern);
+    if (match) {
+      const num = parseInt(match[1], 10);
+      if (num > highestNumber) {
+        highestNumber = num;
+      }
+    }
+  }
+
+  // If no items found, also check the total count as a fallback
+  if (highestNumber === 0) {
+    highestNumber = workItems.total;
+  }
+
+  return Array.from({ length: count }, (_, index) => `${prefix}-${highestNumber + 1 + index}`);
+}
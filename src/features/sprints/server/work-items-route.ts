@@ -3,14 +3,29 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 
-import { DATABASE_ID, WORK_ITEMS_ID, PROJECTS_ID, MEMBERS_ID, COMMENTS_ID, CUSTOM_COLUMNS_ID, WORKFLOW_STATUSES_ID } from "@/config";
+import { DATABASE_ID, WORK_ITEMS_ID, PROJECTS_ID, MEMBERS_ID, COMMENTS_ID, CUSTOM_COLUMNS_ID, WORKFLOW_STATUSES_ID, WORK_ITEM_TEMPLATES_ID } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
 import { createAdminClient } from "@/lib/appwrite";
 import { batchGetUsers } from "@/lib/batch-users";
 import { getMember } from "@/features/members/utils";
 import { Project } from "@/features/projects/types";
+import { enforceWipLimits } from "@/features/projects/server/wip-limits";
+import { forecastDelivery } from "@/features/projects/forecast";
+import {
+  countRemainingItems,
+  getProjectThroughput,
+  listProjectWorkItems,
+} from "@/features/projects/server/forecast";
+import { recordStatusChange } from "@/features/tasks/server/status-history";
+import { recordWorkItemChange, recordWorkItemChanges } from "@/features/tasks/server/change-log";
+import { createdChange, diffWorkItemFields, SPLIT_FIELD } from "@/features/tasks/change-log";
+import { createSubtasksFromTitles } from "@/features/subtasks/server/utils";
+import { PopulatedWorkItemTemplate, WorkItemTemplate, populateWorkItemTemplate } from "@/features/templates/types";
 import { logComputeUsage, getComputeUnits } from "@/lib/usage-metering";
 import { invalidateCachePattern, CKPattern } from "@/lib/redis";
+import { runAutoTransitions } from "@/features/workflows/server/auto-transitions";
+import { syncWorkItemSearchIndex, removeFromSearchIndex } from "@/features/search/server/search-index";
+import { pushBoardEvent, pickBoardChanges } from "@/lib/socket/board-push";
 import {
   dispatchWorkitemEvent,
 } from "@/lib/notifications";
@@ -26,7 +41,7 @@ import {
   createDeletedEvent,
   createTaskUpdatedEvent,
 } from "@/lib/notifications/events";
-import { Task } from "@/features/tasks/types";
+import { Task, WorkItemChangeSource } from "@/features/tasks/types";
 import { extractMentions, extractSnippet } from "@/lib/mentions";
 
 import {
@@ -43,72 +58,10 @@ import {
   WorkItemPriority,
   PopulatedWorkItem,
 } from "../types";
+import { getCapacityWarning } from "./capacity";
+import { generateWorkItemKey } from "./work-item-keys";
 
 
-// Generate unique work item key
-async function generateWorkItemKey(
-  databases: Awaited<ReturnType<typeof createAdminClient>>["databases"],
-  projectId: string
-): Promise<string> {
-  const project = await databases.getDocument(
-    DATABASE_ID,
-    PROJECTS_ID,
-    projectId
-  ) as Project;
-
-  // Get project prefix (first 3-4 letters of project name in uppercase)
-  const prefix = project.name
-    .replace(/[^a-zA-Z]/g, "")
-    .substring(0, 4)
-    .toUpperCase() || "PROJ";
-
-  // Get all work items for this project to find the highest key number
-  let workItems;
-  try {
-    workItems = await databases.listDocuments<WorkItem>(
-      DATABASE_ID,
-      WORK_ITEMS_ID,
-      [
-        Query.equal("projectId", projectId),
-        Query.orderDesc("$createdAt"),
-        Query.limit(100), // Get more items to find the highest number
-      ]
-    );
-  } catch {
-    // Fallback if index on projectId, $createdAt doesn't exist
-    workItems = await databases.listDocuments<WorkItem>(
-      DATABASE_ID,
-      WORK_ITEMS_ID,
-      [
-        Query.equal("projectId", projectId),
-        Query.limit(100),
-      ]
-    );
-  }
-
-  // Extract key numbers and find the highest one
-  let highestNumber = 0;
-  const keyPattern = new RegExp(`^${prefix}-(\\d+)$`);
-
-  for (const item of workItems.documents) {
-    const match = item.key.match(keyPattern);
-    if (match) {
-      const num = parseInt(match[1], 10);
-      if (num > highestNumber) {
-        highestNumber = num;
-      }
-    }
-  }
-
-  // If no items found, also check the total count as a fallback
-  if (highestNumber === 0) {
-    highestNumber = workItems.total;
-  }
-
-  const nextNumber = highestNumber + 1;
-  return `${prefix}-${nextNumber}`;
-}
-
 /**
  * Resolve status ID or key to a human-readable name.
  * If it's a standard WorkItemStatus, returns it as-is (formatted).
@@ -539,6 +492,54 @@ const app = new Hono()
       return c.json({ data: epics });
     }
   )
+  // Monte Carlo delivery forecast for an epic's open items
+  .get(
+    "/:workItemId/forecast",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workItemId } = c.req.param();
+
+      const epic = await databases.getDocument<WorkItem>(
+        DATABASE_ID,
+        WORK_ITEMS_ID,
+        workItemId
+      );
+
+      if (epic.type !== WorkItemType.EPIC) {
+        return c.json({ error: "Forecasts are only available for epics" }, 400);
+      }
+
+      const member = await getMember({
+        databases,
+        workspaceId: epic.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const project = await databases.getDocument<Project>(
+        DATABASE_ID,
+        PROJECTS_ID,
+        epic.projectId
+      );
+
+      const [throughput, items] = await Promise.all([
+        getProjectThroughput(databases, project),
+        listProjectWorkItems(databases, project.$id, [Query.equal("epicId", epic.$id)]),
+      ]);
+
+      const forecast = forecastDelivery({
+        remaining: countRemainingItems(items, throughput.isClosed),
+        completedAt: throughput.completedAt,
+      });
+
+      return c.json({ data: { epicId: epic.$id, ...forecast } });
+    }
+  )
   // Get a single work item
   .get(
     "/:workItemId",
@@ -654,7 +655,7 @@ const app = new Hono()
       const databases = c.get("databases");
       const user = c.get("user");
 
-      const data = c.req.valid("json");
+      const { templateId, ...data } = c.req.valid("json");
 
       const member = await getMember({
         databases,
@@ -666,6 +667,19 @@ const app = new Hono()
         return c.json({ error: "Unauthorized" }, 401);
       }
 
+      // Fields shown in the form are prefilled from the template on the client;
+      // custom field values and subtasks are added here
+      let template: PopulatedWorkItemTemplate | null = null;
+      if (templateId) {
+        const templateDoc = await databases.getDocument<WorkItemTemplate>(DATABASE_ID, WORK_ITEM_TEMPLATES_ID, templateId);
+        // Project templates carry that project's custom field IDs
+        if (templateDoc.workspaceId !== data.workspaceId ||
+          (templateDoc.projectId && templateDoc.projectId !== data.projectId)) {
+          return c.json({ error: "Template not found" }, 404);
+        }
+        template = populateWorkItemTemplate(templateDoc);
+      }
+
       // Determine the target sprint:
       // If sprintId is explicitly provided, use it. Otherwise, leave as null (backlog).
       // We explicitly REMOVED the auto-assignment to active sprint logic here to ensure
@@ -730,6 +744,8 @@ const app = new Hono()
               startDate: data.startDate?.toISOString(),
               dueDate: data.dueDate?.toISOString(),
               sprintId: targetSprintId,
+              watcherIds: [user.$id], // Creators follow their own items
+              ...(template?.customFields.length ? { customFields: JSON.stringify(template.customFields) } : {}),
             }
           );
         } catch (error: unknown) {
@@ -754,6 +770,15 @@ const app = new Hono()
         return c.json({ error: "Failed to create work item after multiple attempts" }, 500);
       }
 
+      if (template?.subtaskTitles?.length) {
+        await createSubtasksFromTitles(databases, {
+          parentTaskId: workItem.$id,
+          workspaceId: data.workspaceId,
+          createdBy: user.$id,
+          titles: template.subtaskTitles,
+        });
+      }
+
       // Log usage for work item creation
       logComputeUsage({
         databases,
@@ -764,6 +789,13 @@ const app = new Hono()
         metadata: { workItemId: workItem.$id, type: data.type },
       });
 
+      recordWorkItemChange(databases, {
+        item: workItem,
+        changes: [createdChange(workItem)],
+        changedBy: user.$id,
+        source: WorkItemChangeSource.APP,
+      }).catch(() => { });
+
       const userName = user.name || user.email || "Someone";
 
       // Emit domain event for task creation (webhooks, etc.)
@@ -797,9 +829,22 @@ const app = new Hono()
         });
       }
 
+      syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+
+      pushBoardEvent({
+        type: "workitem:created",
+        projectId: data.projectId,
+        workspaceId: data.workspaceId,
+        actorId: user.$id,
+        items: [{ $id: workItem.$id }],
+      });
+
       await invalidateCachePattern(CKPattern.workItemLists(data.workspaceId));
 
-      return c.json({ data: workItem });
+      // Warn (never block) when the assignees are now over their sprint capacity
+      const capacityWarning = await getCapacityWarning(databases, workItem.sprintId, workItem.assigneeIds);
+
+      return c.json({ data: workItem, capacityWarning });
     }
   )
   // Update a work item
@@ -828,7 +873,30 @@ const app = new Hono()
         return c.json({ error: "Unauthorized" }, 401);
       }
 
-      const updates = c.req.valid("json");
+      const { overrideWipLimit, ...updates } = c.req.valid("json");
+
+      // Moving into a full column needs the project's WIP limits to allow it
+      if (updates.status && updates.status !== workItem.status) {
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, workItem.projectId);
+        const wip = await enforceWipLimits(databases, {
+          project,
+          moves: [{
+            item: { ...workItem, sprintId: updates.sprintId !== undefined ? updates.sprintId : workItem.sprintId },
+            toStatus: updates.status,
+          }],
+          userId: user.$id,
+          override: overrideWipLimit,
+        });
+
+        if (!wip.allowed) {
+          return c.json({
+            error: wip.message,
+            code: "WIP_LIMIT_EXCEEDED",
+            breaches: wip.breaches,
+            canOverride: wip.canOverride,
+          }, 409);
+        }
+      }
 
       const updateData = {
         ...updates,
@@ -854,6 +922,13 @@ const app = new Hono()
         metadata: { workItemId, updatedFields: Object.keys(updates) },
       });
 
+      recordWorkItemChange(databases, {
+        item: updatedWorkItem,
+        changes: diffWorkItemFields(workItem, updatedWorkItem),
+        changedBy: user.$id,
+        source: WorkItemChangeSource.APP,
+      }).catch(() => { });
+
       // Dispatch notifications for relevant changes (non-blocking)
       const userName = user.name || user.email || "Someone";
       const taskLike = {
@@ -864,6 +939,13 @@ const app = new Hono()
 
       // Status change notification
       if (updates.status && updates.status !== workItem.status) {
+        recordStatusChange(databases, {
+          item: updatedWorkItem,
+          fromStatus: workItem.status,
+          toStatus: updates.status,
+          changedBy: user.$id,
+        }).catch(() => { });
+
         import("@/features/integrations/lib/notify-channels")
           .then(({ notifyProjectChannels }) =>
             notifyProjectChannels(databases, {
@@ -962,9 +1044,34 @@ const app = new Hono()
         dispatchWorkitemEvent(event).catch(() => { });
       }
 
+      syncWorkItemSearchIndex(workItemId).catch(() => { });
+
+      pushBoardEvent({
+        type: updates.status && updates.status !== workItem.status ? "workitem:moved" : "workitem:updated",
+        projectId: updatedWorkItem.projectId,
+        workspaceId: updatedWorkItem.workspaceId,
+        actorId: user.$id,
+        items: [{ $id: workItemId, changes: pickBoardChanges(updatedWorkItem) }],
+      });
+
+      // A child moved - the parent may now satisfy ALL_SUBTASKS_DONE
+      if (updates.status && updates.status !== workItem.status && updatedWorkItem.parentId) {
+        runAutoTransitions(updatedWorkItem.parentId, "ALL_SUBTASKS_DONE").catch(() => { });
+      }
+
       await invalidateCachePattern(CKPattern.workItemLists(workItem.workspaceId));
 
-      return c.json({ data: updatedWorkItem });
+      // Warn (never block) when the change puts assignees over their sprint capacity
+      const affectsCapacity =
+        updates.assigneeIds !== undefined ||
+        updates.sprintId !== undefined ||
+        updates.storyPoints !== undefined ||
+        updates.estimatedHours !== undefined;
+      const capacityWarning = affectsCapacity
+        ? await getCapacityWarning(databases, updatedWorkItem.sprintId, updatedWorkItem.assigneeIds)
+        : null;
+
+      return c.json({ data: updatedWorkItem, capacityWarning });
     }
   )
   // Delete a work item
@@ -1027,6 +1134,16 @@ const app = new Hono()
       const deleteEvent = createDeletedEvent(taskLike, user.$id, userName);
       dispatchWorkitemEvent(deleteEvent).catch(() => { });
 
+      removeFromSearchIndex(workItem.$id).catch(() => { });
+
+      pushBoardEvent({
+        type: "workitem:deleted",
+        projectId: workItem.projectId,
+        workspaceId: workItem.workspaceId,
+        actorId: user.$id,
+        items: [workItemId, ...children.documents.map((child) => child.$id)].map(($id) => ({ $id })),
+      });
+
       await invalidateCachePattern(CKPattern.workItemLists(workItem.workspaceId));
 
       return c.json({ data: { $id: workItem.$id } });
@@ -1086,9 +1203,11 @@ const app = new Hono()
               databases.deleteDocument(DATABASE_ID, WORK_ITEMS_ID, child.$id)
             )
           );
+          children.documents.forEach(child => removeFromSearchIndex(child.$id).catch(() => { }));
 
           // Delete the item itself
           await databases.deleteDocument(DATABASE_ID, WORK_ITEMS_ID, id);
+          removeFromSearchIndex(id).catch(() => { });
         } catch {
           // Continue with other items
         }
@@ -1102,6 +1221,14 @@ const app = new Hono()
       // but we should at least log it.
       console.log(`[WorkItemsRoute] Bulk deleted ${workItemIds.length} items`);
 
+      pushBoardEvent({
+        type: "workitem:deleted",
+        projectId: firstWorkItem.projectId,
+        workspaceId: firstWorkItem.workspaceId,
+        actorId: user.$id,
+        items: workItemIds.map(($id) => ({ $id })),
+      });
+
       await invalidateCachePattern(CKPattern.workItemLists(firstWorkItem.workspaceId));
 
       return c.json({ data: { count: workItemIds.length } });
@@ -1135,15 +1262,31 @@ const app = new Hono()
         return c.json({ error: "Unauthorized" }, 401);
       }
 
+      const previousItems = await databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+        Query.equal("$id", workItemIds),
+        Query.limit(workItemIds.length),
+      ]);
+      const previousById = new Map(previousItems.documents.map((item) => [item.$id, item]));
+
       const updatedItems = await Promise.all(
         workItemIds.map((id) =>
-          databases.updateDocument(DATABASE_ID, WORK_ITEMS_ID, id, {
+          databases.updateDocument<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, id, {
             sprintId,
             lastModifiedBy: user.$id,
           })
         )
       );
 
+      recordWorkItemChanges(
+        databases,
+        updatedItems.map((item) => ({
+          item,
+          changes: diffWorkItemFields(previousById.get(item.$id) ?? {}, item),
+          changedBy: user.$id,
+          source: WorkItemChangeSource.BULK_MOVE,
+        }))
+      ).catch(() => { });
+
       // Notify of bulk move
       if (updatedItems.length > 0) {
         const userName = user.name || user.email || "Someone";
@@ -1157,6 +1300,14 @@ const app = new Hono()
         dispatchWorkitemEvent(event).catch(() => { });
       }
 
+      pushBoardEvent({
+        type: "workitem:moved",
+        projectId: firstWorkItem.projectId,
+        workspaceId: firstWorkItem.workspaceId,
+        actorId: user.$id,
+        items: updatedItems.map((item) => ({ $id: item.$id, changes: { sprintId } })),
+      });
+
       await invalidateCachePattern(CKPattern.workItemLists(firstWorkItem.workspaceId));
 
       return c.json({ data: updatedItems });
@@ -1202,6 +1353,13 @@ const app = new Hono()
         updateData
       );
 
+      recordWorkItemChange(databases, {
+        item: updatedWorkItem,
+        changes: diffWorkItemFields(workItem, updatedWorkItem),
+        changedBy: user.$id,
+        source: WorkItemChangeSource.BULK_UPDATE,
+      }).catch(() => { });
+
       // Notify of update
       const userName = user.name || user.email || "Someone";
       const taskLike = {
@@ -1212,6 +1370,14 @@ const app = new Hono()
       const event = createTaskUpdatedEvent(taskLike, user.$id, userName, "Item reordered or moved");
       dispatchWorkitemEvent(event).catch(() => { });
 
+      pushBoardEvent({
+        type: "workitem:reordered",
+        projectId: updatedWorkItem.projectId,
+        workspaceId: updatedWorkItem.workspaceId,
+        actorId: user.$id,
+        items: [{ $id: workItemId, changes: pickBoardChanges(updatedWorkItem, ["position", "sprintId"]) }],
+      });
+
       return c.json({ data: updatedWorkItem });
     }
   )
@@ -1274,6 +1440,31 @@ const app = new Hono()
         })
       );
 
+      createdItems.forEach((item) => syncWorkItemSearchIndex(item.$id).catch(() => { }));
+
+      recordWorkItemChanges(databases, [
+        {
+          item: originalWorkItem,
+          changes: [{ field: SPLIT_FIELD, oldValue: null, newValue: JSON.stringify(createdItems.map((item) => item.key)) }],
+          changedBy: user.$id,
+          source: WorkItemChangeSource.SPLIT,
+        },
+        ...createdItems.map((item) => ({
+          item,
+          changes: [createdChange(item)],
+          changedBy: user.$id,
+          source: WorkItemChangeSource.SPLIT,
+        })),
+      ]).catch(() => { });
+
+      pushBoardEvent({
+        type: "workitem:created",
+        projectId: originalWorkItem.projectId,
+        workspaceId: originalWorkItem.workspaceId,
+        actorId: user.$id,
+        items: createdItems.map((item) => ({ $id: item.$id })),
+      });
+
       return c.json({ data: { original: originalWorkItem, created: createdItems } });
     }
   );
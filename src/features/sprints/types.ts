@@ -44,6 +44,148 @@ export type Sprint = Models.Document & {
   completedPoints?: number;
   totalPoints?: number;
   velocity?: number;          // Points completed per day
+  completedAt?: string;
+  committedItemIds?: string[]; // Items in the sprint when it started
+};
+
+// Sprint scope and progress at a point in time
+export type SprintScope = {
+  totalPoints: number;
+  completedPoints: number;
+  remainingPoints: number;
+  totalItems: number;
+  completedItems: number;
+};
+
+// Daily snapshot row (one per sprint per UTC day)
+export type SprintSnapshot = Models.Document & SprintScope & {
+  sprintId: string;
+  projectId: string;
+  workspaceId: string;
+  date: string; // YYYY-MM-DD
+  itemIds?: string[];
+};
+
+// One day on a burndown/burnup chart; null values are days not reached yet
+export type SprintReportPoint = {
+  date: string;
+  scope: number | null;
+  completed: number | null;
+  remaining: number | null;
+  ideal: number;
+};
+
+export type SprintVelocityPoint = {
+  sprintId: string;
+  name: string;
+  committed: number;
+  completed: number;
+};
+
+// A member's availability for one sprint (memberId is the workspace member document ID)
+export type SprintCapacity = Models.Document & {
+  sprintId: string;
+  projectId: string;
+  workspaceId: string;
+  memberId: string;
+  hoursPerDay?: number | null;
+  pointsPerDay?: number | null;
+  daysOff?: string[]; // YYYY-MM-DD
+};
+
+// Planned capacity against committed work for one member; null capacity means not planned
+export type MemberCapacity = {
+  memberId: string;
+  name: string;
+  /** Availability has been entered for this sprint */
+  planned: boolean;
+  hoursPerDay: number | null;
+  pointsPerDay: number | null;
+  daysOff: string[];
+  availableDays: number;
+  capacityHours: number | null;
+  capacityPoints: number | null;
+  committedHours: number;
+  committedPoints: number;
+  overAllocated: boolean;
+};
+
+export type SprintCapacityReport = {
+  sprintId: string;
+  workingDays: number;
+  holidays: string[];
+  members: MemberCapacity[];
+  totals: {
+    capacityHours: number;
+    capacityPoints: number;
+    committedHours: number;
+    committedPoints: number;
+    unassignedHours: number;
+    unassignedPoints: number;
+  };
+};
+
+export type SprintReportTotals = {
+  points: number;
+  items: number;
+};
+
+export enum SprintReportItemOutcome {
+  COMPLETED = "COMPLETED",
+  CARRIED_OVER = "CARRIED_OVER",
+  REMOVED = "REMOVED",
+}
+
+export type SprintReportItem = {
+  id: string;
+  key: string;
+  title: string;
+  storyPoints: number;
+  assigneeIds: string[];
+  outcome: SprintReportItemOutcome;
+  /** Joined the sprint after it started */
+  addedMidSprint: boolean;
+};
+
+// Work completed per assignee; memberId is null for unassigned work
+export type SprintAssigneeCompletion = {
+  memberId: string | null;
+  name: string;
+  assignedPoints: number;
+  completedPoints: number;
+  assignedItems: number;
+  completedItems: number;
+};
+
+// Where unfinished work went; null when it stayed in the completed sprint
+export type SprintCarryOverDestination =
+  | { type: "backlog" }
+  | { type: "sprint"; sprintId: string; name: string };
+
+// Scope report frozen when a sprint completes
+export type SprintCompletionReport = {
+  sprintId: string;
+  completedAt: string;
+  /** Scope when the sprint started */
+  committed: SprintReportTotals;
+  completed: SprintReportTotals;
+  added: SprintReportTotals;
+  removed: SprintReportTotals;
+  carryOver: SprintReportTotals & { destination: SprintCarryOverDestination | null };
+  assignees: SprintAssigneeCompletion[];
+  items: SprintReportItem[];
+};
+
+// Stored report row; details holds the JSON-encoded SprintCompletionReport
+export type SprintReportDocument = Models.Document & {
+  sprintId: string;
+  projectId: string;
+  workspaceId: string;
+  completedAt: string;
+  committedPoints: number;
+  completedPoints: number;
+  carryOverPoints: number;
+  details: string;
 };
 
 // Custom field value stored on work items
@@ -68,6 +210,7 @@ export type WorkItem = Models.Document & {
   parentId?: string | null; // For subtasks
   assigneeIds: string[];
   reporterId?: string;        // NEW: Who created the item
+  watcherIds?: string[];      // Appwrite user IDs following this item
   description?: string | null;
   flagged: boolean;
   position: number;
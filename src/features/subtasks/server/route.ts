@@ -1,18 +1,53 @@
-import { ID, Query } from "node-appwrite";
+import { Databases, ID, Models, Query } from "node-appwrite";
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 
-import { DATABASE_ID, SUBTASKS_ID } from "@/config";
+import { DATABASE_ID, SUBTASKS_ID, WORK_ITEMS_ID } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
 
 import { getMember } from "@/features/members/utils";
+import { runAutoTransitions } from "@/features/workflows/server/auto-transitions";
+import { WorkItem } from "@/features/sprints/types";
+import { emitProjectWebhookEvent } from "@/features/webhooks/server/events";
+import { WebhookEventType } from "@/features/webhooks/server/types";
 // Usage metering for billing - every action must be metered
 import { logComputeUsage, getComputeUnits } from "@/lib/usage-metering";
 
 import { createSubtaskSchema, updateSubtaskSchema } from "../schemas";
 import { Subtask } from "../types";
 
+// Subtask webhooks go to the parent work item's project
+function emitSubtaskWebhookEvent(
+  databases: Databases,
+  event: WebhookEventType,
+  subtask: Subtask,
+  user: Models.User<Models.Preferences>,
+  changedFields?: string[]
+): void {
+  databases
+    .getDocument<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, subtask.parentTaskId)
+    .then((parent) => {
+      const verb = event === WebhookEventType.SUBTASK_CREATED
+        ? "added to"
+        : event === WebhookEventType.SUBTASK_DELETED ? "removed from" : "updated on";
+
+      emitProjectWebhookEvent(parent.projectId, event, user, {
+        workitemId: parent.$id,
+        workitemKey: parent.key,
+        title: subtask.title,
+        summary: `Subtask "${subtask.title}" ${verb} ${parent.key}`,
+        subtaskId: subtask.$id,
+        isCompleted: subtask.isCompleted,
+        assigneeId: subtask.assigneeId ?? null,
+        ...(changedFields ? { changedFields } : {}),
+      });
+    })
+    .catch(() => {
+      // Parent work item no longer exists - nothing to notify
+    });
+}
+
 const app = new Hono()
   // Get all subtasks for a work item
   .get(
@@ -127,6 +162,8 @@ const app = new Hono()
         operationId: subtask.$id,
       });
 
+      emitSubtaskWebhookEvent(databases, WebhookEventType.SUBTASK_CREATED, subtask, user);
+
       return c.json({ data: subtask });
     }
   )
@@ -174,6 +211,13 @@ const app = new Hono()
         operationId: subtaskId,
       });
 
+      // Completing a subtask may satisfy the parent's ALL_SUBTASKS_DONE transition
+      if (updates.isCompleted !== undefined || updates.status !== undefined) {
+        runAutoTransitions(subtask.parentTaskId, "ALL_SUBTASKS_DONE").catch(() => { });
+      }
+
+      emitSubtaskWebhookEvent(databases, WebhookEventType.SUBTASK_UPDATED, updatedSubtask, user, Object.keys(updates));
+
       return c.json({ data: updatedSubtask });
     }
   )
@@ -213,6 +257,11 @@ const app = new Hono()
         operationId: subtaskId,
       });
 
+      // Removing the last open subtask may satisfy ALL_SUBTASKS_DONE
+      runAutoTransitions(subtask.parentTaskId, "ALL_SUBTASKS_DONE").catch(() => { });
+
+      emitSubtaskWebhookEvent(databases, WebhookEventType.SUBTASK_DELETED, subtask, user);
+
       return c.json({ data: { $id: subtask.$id } });
     }
   )
@@ -0,0 +1,39 @@
+import "server-only";
+
+import { Databases, ID } from "node-appwrite";
+
+import { DATABASE_ID, SUBTASKS_ID } from "@/config";
+
+import { Subtask } from "../types";
+
+/**
+ * Create open subtasks with the given titles, in order, under a new work
+ * item (recurring items and work item templates)
+ */
+export async function createSubtasksFromTitles(
+  databases: Databases,
+  {
+    parentTaskId,
+    workspaceId,
+    createdBy,
+    titles,
+  }: { parentTaskId: string; workspaceId: string; createdBy: string; titles: string[] }
+): Promise<Subtask[]> {
+  const subtasks: Subtask[] = [];
+
+  for (const [index, title] of titles.entries()) {
+    subtasks.push(
+      await databases.createDocument<Subtask>(DATABASE_ID, SUBTASKS_ID, ID.unique(), {
+        title,
+        parentTaskId,
+        workspaceId,
+        isCompleted: false,
+        position: (index + 1) * 1000,
+        createdBy,
+        priority: "MEDIUM",
+      })
+    );
+  }
+
+  return subtasks;
+}
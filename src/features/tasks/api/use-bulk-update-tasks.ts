@@ -50,9 +50,10 @@ export const useBulkUpdateTasks = () => {
         queryKey: ["tasks"],
         refetchType: 'none'
       });
+      queryClient.invalidateQueries({ queryKey: ["task-changes"] });
     },
-    onError: () => {
-      toast.error("Failed to update tasks.");
+    onError: (error) => {
+      toast.error(error.message || "Failed to update tasks.");
     },
   });
 
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetTaskChangesProps {
+  taskId: string;
+}
+
+export const useGetTaskChanges = ({ taskId }: UseGetTaskChangesProps) => {
+  const query = useQuery({
+    queryKey: ["task-changes", taskId],
+    enabled: Boolean(taskId),
+    queryFn: async () => {
+      const response = await client.api.tasks[":taskId"]["changes"].$get({
+        param: { taskId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch change history.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetTaskWatchersProps {
+  taskId: string;
+}
+
+export const useGetTaskWatchers = ({ taskId }: UseGetTaskWatchersProps) => {
+  const query = useQuery({
+    queryKey: ["task-watchers", taskId],
+    enabled: Boolean(taskId),
+    queryFn: async () => {
+      const response = await client.api.tasks[":taskId"]["watchers"].$get({
+        param: { taskId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch watchers.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
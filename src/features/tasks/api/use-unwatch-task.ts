@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<
+  (typeof client.api.tasks)[":taskId"]["watchers"]["$delete"],
+  200
+>;
+type RequestType = InferRequestType<
+  (typeof client.api.tasks)[":taskId"]["watchers"]["$delete"]
+>;
+
+export const useUnwatchTask = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api.tasks[":taskId"]["watchers"].$delete({ param });
+
+      if (!response.ok) {
+        throw new Error("Failed to stop watching work item.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success("You've stopped watching this work item.");
+      queryClient.invalidateQueries({ queryKey: ["task-watchers", data.$id] });
+    },
+    onError: () => {
+      toast.error("Failed to stop watching work item.");
+    },
+  });
+
+  return mutation;
+};
@@ -12,6 +12,8 @@ type RequestType = InferRequestType<
   (typeof client.api.tasks)[":taskId"]["$patch"]
 >;
 
+export type UpdateTaskError = Error & { reason?: string };
+
 interface MutationOptions {
   /** Skip success toast */
   silent?: boolean;
@@ -22,7 +24,7 @@ interface MutationOptions {
 export const useUpdateTask = () => {
   const queryClient = useQueryClient();
 
-  const mutation = useMutation<ResponseType, Error, RequestType & MutationOptions, { previousTasks: unknown; previousWorkItems: unknown }>({
+  const mutation = useMutation<ResponseType, UpdateTaskError, RequestType & MutationOptions, { previousTasks: unknown; previousWorkItems: unknown }>({
     mutationFn: async ({ param, json }) => {
       const response = await client.api.tasks[":taskId"].$patch({
         param,
@@ -31,9 +33,11 @@ export const useUpdateTask = () => {
 
       if (!response.ok) {
         // Extract error message from response body
-        const errorBody = await response.json().catch(() => ({}));
-        const errorMessage = (errorBody as { error?: string }).error || "Failed to update task.";
-        throw new Error(errorMessage);
+        const errorBody = await response.json().catch(() => ({})) as { error?: string; reason?: string };
+        const error: UpdateTaskError = new Error(errorBody.error || "Failed to update task.");
+        // Workflow rejection code (e.g. REQUIRES_APPROVAL) so callers can react to it
+        error.reason = errorBody.reason;
+        throw error;
       }
 
       return await response.json();
@@ -90,13 +94,16 @@ export const useUpdateTask = () => {
           queryClient.setQueryData(["work-items"], context.previousWorkItems);
         }
       }
-      toast.error("Failed to update task");
+      toast.error(error.reason === "REQUIRES_APPROVAL" ? error.message : "Failed to update task");
     },
 
-    onSuccess: ({ data }, variables) => {
+    onSuccess: ({ data, capacityWarning }, variables) => {
       if (!variables.silent) {
         toast.success("Task updated successfully");
       }
+      if (capacityWarning) {
+        toast.warning(capacityWarning);
+      }
       
       queryClient.invalidateQueries({ queryKey: ["project-analytics"] });
       queryClient.invalidateQueries({ queryKey: ["workspace-analytics"] });
@@ -109,6 +116,7 @@ export const useUpdateTask = () => {
       
       queryClient.invalidateQueries({ queryKey: ["sprints"] });
       queryClient.invalidateQueries({ queryKey: ["task", data.$id] });
+      queryClient.invalidateQueries({ queryKey: ["task-changes", data.$id] });
     },
 
     // SETTLE: Ensure cache consistency after mutation completes
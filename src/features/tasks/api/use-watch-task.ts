@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<
+  (typeof client.api.tasks)[":taskId"]["watchers"]["$post"],
+  200
+>;
+type RequestType = InferRequestType<
+  (typeof client.api.tasks)[":taskId"]["watchers"]["$post"]
+>;
+
+export const useWatchTask = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api.tasks[":taskId"]["watchers"].$post({ param });
+
+      if (!response.ok) {
+        throw new Error("Failed to watch work item.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success("You're watching this work item.");
+      queryClient.invalidateQueries({ queryKey: ["task-watchers", data.$id] });
+    },
+    onError: () => {
+      toast.error("Failed to watch work item.");
+    },
+  });
+
+  return mutation;
+};
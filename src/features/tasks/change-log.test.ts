@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_CHANGE_VALUE_LENGTH,
+  collectChangeReferences,
+  diffWorkItemFields,
+  formatChangeValue,
+  serializeChangeValue,
+} from "./change-log";
+
+describe("diffWorkItemFields", () => {
+  const before = {
+    $id: "wi-1",
+    title: "Login page",
+    status: "TODO",
+    assigneeIds: ["mem-a", "mem-b"],
+    labels: [],
+    dueDate: "2026-03-04T00:00:00.000+00:00",
+    storyPoints: 3,
+    flagged: false,
+    position: 1000,
+  };
+
+  it("returns only tracked fields that changed", () => {
+    const after = { ...before, status: "IN_PROGRESS", storyPoints: 5, position: 2000, $updatedAt: "now" };
+
+    expect(diffWorkItemFields(before, after)).toEqual([
+      { field: "status", oldValue: "TODO", newValue: "IN_PROGRESS" },
+      { field: "storyPoints", oldValue: "3", newValue: "5" },
+    ]);
+  });
+
+  it("ignores reordered lists, empty values and equal dates in another format", () => {
+    const after = {
+      ...before,
+      assigneeIds: ["mem-b", "mem-a"],
+      labels: null,
+      dueDate: "2026-03-04T00:00:00.000Z",
+      description: "",
+    };
+
+    expect(diffWorkItemFields(before, after)).toEqual([]);
+  });
+
+  it("records cleared and added values", () => {
+    const after = { ...before, dueDate: null, assigneeIds: ["mem-a"], labels: ["ui"], flagged: true };
+
+    expect(diffWorkItemFields(before, after)).toEqual([
+      { field: "assigneeIds", oldValue: '["mem-a","mem-b"]', newValue: '["mem-a"]' },
+      { field: "dueDate", oldValue: "2026-03-04T00:00:00.000Z", newValue: null },
+      { field: "labels", oldValue: null, newValue: '["ui"]' },
+      { field: "flagged", oldValue: "false", newValue: "true" },
+    ]);
+  });
+});
+
+describe("serializeChangeValue", () => {
+  it("cuts long values", () => {
+    expect(serializeChangeValue("description", "x".repeat(MAX_CHANGE_VALUE_LENGTH + 5))).toHaveLength(
+      MAX_CHANGE_VALUE_LENGTH
+    );
+  });
+});
+
+describe("collectChangeReferences", () => {
+  it("groups referenced IDs by kind", () => {
+    expect(
+      collectChangeReferences([
+        { field: "assigneeIds", oldValue: '["mem-a"]', newValue: '["mem-a","mem-b"]' },
+        { field: "sprintId", oldValue: null, newValue: "sprint-1" },
+        { field: "epicId", oldValue: "wi-7", newValue: "wi-8" },
+        { field: "title", oldValue: "A", newValue: "B" },
+      ])
+    ).toEqual({
+      member: ["mem-a", "mem-b"],
+      sprint: ["sprint-1"],
+      workItem: ["wi-7", "wi-8"],
+      project: [],
+      status: [],
+    });
+  });
+});
+
+describe("formatChangeValue", () => {
+  it("shows names, calendar days and plain text", () => {
+    const labels = { "mem-a": "Ana Diaz", "sprint-1": "Sprint 1" };
+
+    expect(formatChangeValue("assigneeIds", '["mem-a","mem-x"]', labels)).toBe("Ana Diaz, mem-x");
+    expect(formatChangeValue("sprintId", "sprint-1", labels)).toBe("Sprint 1");
+    expect(formatChangeValue("dueDate", "2026-03-04T00:00:00.000Z")).toBe("Mar 4, 2026");
+    expect(formatChangeValue("flagged", "true")).toBe("Yes");
+    expect(formatChangeValue("description", "<p>Hello&nbsp;<strong>there</strong></p>")).toBe("Hello there");
+    expect(formatChangeValue("status", null)).toBeNull();
+  });
+});
@@ -0,0 +1,227 @@
+import { format } from "date-fns";
+
+import { WorkItemChangeSource } from "./types";
+
+/**
+ * Change Log
+ *
+ * Field-level history of work items: which field changed, from what, to
+ * what, by whom and through which path. Values are stored as strings so
+ * one collection can hold every field; these helpers serialize, diff and
+ * format them for the task history and the audit log.
+ */
+
+// Pseudo-fields for events that are not a single attribute change
+export const CREATED_FIELD = "created"; // newValue is the title
+export const SPLIT_FIELD = "split";     // newValue lists the keys split off
+
+// Longest value kept per side of a change; longer descriptions are cut
+export const MAX_CHANGE_VALUE_LENGTH = 10000;
+
+// Attributes the change log tracks. Board positions, counters and
+// denormalized fields are left out.
+export const TRACKED_WORK_ITEM_FIELDS = [
+  "title",
+  "description",
+  "type",
+  "status",
+  "priority",
+  "assigneeIds",
+  "sprintId",
+  "epicId",
+  "parentId",
+  "projectId",
+  "storyPoints",
+  "estimatedHours",
+  "remainingHours",
+  "startDate",
+  "dueDate",
+  "endDate",
+  "labels",
+  "flagged",
+  "resolution",
+] as const;
+
+export const WORK_ITEM_FIELD_LABELS: Record<string, string> = {
+  [CREATED_FIELD]: "Created",
+  [SPLIT_FIELD]: "Split",
+  title: "Title",
+  description: "Description",
+  type: "Type",
+  status: "Status",
+  priority: "Priority",
+  assigneeIds: "Assignees",
+  sprintId: "Sprint",
+  epicId: "Epic",
+  parentId: "Parent",
+  projectId: "Project",
+  storyPoints: "Story points",
+  estimatedHours: "Estimate (hours)",
+  remainingHours: "Remaining (hours)",
+  startDate: "Start date",
+  dueDate: "Due date",
+  endDate: "End date",
+  labels: "Labels",
+  flagged: "Flagged",
+  resolution: "Resolution",
+};
+
+export const CHANGE_SOURCE_LABELS: Record<WorkItemChangeSource, string> = {
+  [WorkItemChangeSource.APP]: "App",
+  [WorkItemChangeSource.BULK_UPDATE]: "Bulk update",
+  [WorkItemChangeSource.BULK_MOVE]: "Bulk move",
+  [WorkItemChangeSource.SPLIT]: "Split",
+  [WorkItemChangeSource.MCP]: "MCP",
+  [WorkItemChangeSource.SLACK]: "Slack",
+  [WorkItemChangeSource.DISCORD]: "Discord",
+  [WorkItemChangeSource.WORKFLOW]: "Workflow",
+  [WorkItemChangeSource.AUTOMATION]: "Automation",
+  [WorkItemChangeSource.SPRINT]: "Sprint",
+  [WorkItemChangeSource.IMPORT]: "Import",
+  [WorkItemChangeSource.RECURRING]: "Recurring schedule",
+  [WorkItemChangeSource.AI]: "AI assistant",
+};
+
+// Fields whose values are IDs, by the collection they point to
+export type ChangeReferenceKind = "member" | "sprint" | "workItem" | "project" | "status";
+
+const REFERENCE_FIELDS: Record<string, ChangeReferenceKind> = {
+  assigneeIds: "member",
+  sprintId: "sprint",
+  epicId: "workItem",
+  parentId: "workItem",
+  projectId: "project",
+  status: "status",
+};
+
+const LIST_FIELDS = new Set(["assigneeIds", "labels", SPLIT_FIELD]);
+// Order carries no meaning for these, so reordering is not a change
+const SET_FIELDS = new Set(["assigneeIds", "labels"]);
+const DATE_FIELDS = new Set(["startDate", "dueDate", "endDate"]);
+
+export type FieldChange = {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+};
+
+/**
+ * Stored form of a value: null when empty, JSON for lists, ISO for dates
+ */
+export function serializeChangeValue(field: string, value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+
+  if (Array.isArray(value)) {
+    const items = value.filter((item) => item !== null && item !== undefined && item !== "").map(String);
+    if (items.length === 0) return null;
+    return JSON.stringify(SET_FIELDS.has(field) ? [...items].sort() : items);
+  }
+
+  if (DATE_FIELDS.has(field)) {
+    const date = new Date(String(value));
+    if (!Number.isNaN(date.getTime())) return date.toISOString();
+  }
+
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > MAX_CHANGE_VALUE_LENGTH ? text.slice(0, MAX_CHANGE_VALUE_LENGTH) : text;
+}
+
+/**
+ * Tracked fields that differ between two versions of a work item
+ */
+export function diffWorkItemFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of TRACKED_WORK_ITEM_FIELDS) {
+    const oldValue = serializeChangeValue(field, before[field]);
+    const newValue = serializeChangeValue(field, after[field]);
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+export function createdChange(item: Record<string, unknown>): FieldChange {
+  return { field: CREATED_FIELD, oldValue: null, newValue: serializeChangeValue("title", item.title) };
+}
+
+export function parseChangeList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [value];
+  } catch {
+    return [value];
+  }
+}
+
+/**
+ * IDs the changes point to, by kind, so they can be resolved to names
+ */
+export function collectChangeReferences(
+  changes: { field: string; oldValue?: string | null; newValue?: string | null }[]
+): Record<ChangeReferenceKind, string[]> {
+  const references: Record<ChangeReferenceKind, Set<string>> = {
+    member: new Set(),
+    sprint: new Set(),
+    workItem: new Set(),
+    project: new Set(),
+    status: new Set(),
+  };
+
+  for (const change of changes) {
+    const kind = REFERENCE_FIELDS[change.field];
+    if (!kind) continue;
+
+    for (const value of [change.oldValue, change.newValue]) {
+      const ids = LIST_FIELDS.has(change.field) ? parseChangeList(value) : value ? [value] : [];
+      ids.forEach((id) => references[kind].add(id));
+    }
+  }
+
+  return {
+    member: [...references.member],
+    sprint: [...references.sprint],
+    workItem: [...references.workItem],
+    project: [...references.project],
+    status: [...references.status],
+  };
+}
+
+/**
+ * A stored value as people read it. `labels` maps referenced IDs (members,
+ * sprints, statuses...) to their names; unknown IDs are shown as is.
+ */
+export function formatChangeValue(
+  field: string,
+  value: string | null | undefined,
+  labels: Record<string, string> = {}
+): string | null {
+  if (value === null || value === undefined || value === "") return null;
+
+  if (LIST_FIELDS.has(field)) {
+    return parseChangeList(value).map((item) => labels[item] ?? item).join(", ");
+  }
+
+  if (DATE_FIELDS.has(field)) {
+    // Dates are stored at UTC midnight; read the calendar day, not the instant
+    const day = new Date(`${value.slice(0, 10)}T00:00:00`);
+    return Number.isNaN(day.getTime()) ? value : format(day, "MMM d, yyyy");
+  }
+
+  if (field === "flagged") {
+    return value === "true" ? "Yes" : "No";
+  }
+
+  if (field === "description") {
+    const text = value.replace(/<[^>]*>/g, " ").replace(/&nbsp;/g, " ").replace(/\s+/g, " ").trim();
+    return text.length > 120 ? `${text.slice(0, 120)}…` : text || null;
+  }
+
+  return labels[value] ?? value;
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { EyeIcon, PencilIcon } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { BoardPresenceEntry } from "@/lib/socket/types";
+import { MemberAvatar } from "@/features/members/components/member-avatar";
+
+interface BoardPresenceProps {
+  users: BoardPresenceEntry[];
+  visibleCount?: number;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+const describe = (entry: BoardPresenceEntry) => {
+  if (!entry.workItemId) return `${entry.name} is viewing this board`;
+  return entry.mode === "editing"
+    ? `${entry.name} is editing`
+    : `${entry.name} is viewing`;
+};
+
+/**
+ * Avatar stack of people currently on a board or item.
+ * Editors get an amber ring, viewers a neutral one.
+ */
+export const BoardPresence = ({
+  users,
+  visibleCount = 4,
+  size = "md",
+  className,
+}: BoardPresenceProps) => {
+  if (users.length === 0) {
+    return null;
+  }
+
+  const visibleUsers = users.slice(0, visibleCount);
+  const overflowCount = Math.max(users.length - visibleCount, 0);
+  const isEditing = users.some((user) => user.mode === "editing");
+  const avatarSize = size === "sm" ? "size-5" : "size-6";
+  const Icon = isEditing ? PencilIcon : EyeIcon;
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      {size === "sm" && (
+        <Icon
+          className={cn(
+            "size-3 shrink-0",
+            isEditing ? "text-amber-500" : "text-muted-foreground"
+          )}
+        />
+      )}
+      <div className="flex items-center -space-x-1.5">
+        {visibleUsers.map((user) => (
+          <MemberAvatar
+            key={user.userId}
+            name={user.name}
+            imageUrl={user.imageUrl}
+            tooltipText={describe(user)}
+            className={cn(
+              avatarSize,
+              "border-2",
+              user.mode === "editing" ? "border-amber-500" : "border-background"
+            )}
+            fallbackClassName="text-[10px]"
+          />
+        ))}
+        {overflowCount > 0 && (
+          <span
+            className={cn(
+              avatarSize,
+              "rounded-full bg-muted text-[10px] font-medium flex items-center justify-center border-2 border-background"
+            )}
+          >
+            +{overflowCount}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { ReactNode, useState } from "react";
 import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
 import {
   format,
@@ -35,9 +35,10 @@ const localizer = dateFnsLocalizer({
 interface CustomToolbarProps {
   date: Date;
   onNavigate: (action: "PREV" | "NEXT" | "TODAY") => void;
+  action?: ReactNode;
 }
 
-const CustomToolbar = ({ date, onNavigate }: CustomToolbarProps) => {
+const CustomToolbar = ({ date, onNavigate, action }: CustomToolbarProps) => {
   return (
     <div className="flex mb-4 gap-x-2 items-center w-full lg:w-auto justify-center lg:justify-start">
       <Button
@@ -58,15 +59,18 @@ const CustomToolbar = ({ date, onNavigate }: CustomToolbarProps) => {
       >
         <ChevronRightIcon className="size-4" />
       </Button>
+      {action}
     </div>
   );
 };
 
 interface DataCalendarProps {
   data: PopulatedTask[];
+  // Rendered after the month navigation, e.g. a feed subscription button
+  toolbarAction?: ReactNode;
 }
 
-export const DataCalendar = ({ data }: DataCalendarProps) => {
+export const DataCalendar = ({ data, toolbarAction }: DataCalendarProps) => {
   const [value, setValue] = useState(
     data.length > 0 && data[0].dueDate ? new Date(data[0].dueDate) : new Date()
   );
@@ -133,7 +137,7 @@ export const DataCalendar = ({ data }: DataCalendarProps) => {
           />
         ),
         toolbar: () => (
-          <CustomToolbar date={value} onNavigate={handleNavigate} />
+          <CustomToolbar date={value} onNavigate={handleNavigate} action={toolbarAction} />
         ),
       }}
     />
@@ -31,6 +31,7 @@ import { useMemo } from "react";
 import { useGetMembers } from "@/features/members/api/use-get-members";
 import { useWorkspaceId } from "@/features/workspaces/hooks/use-workspace-id";
 import { useProjectId } from "@/features/projects/hooks/use-project-id";
+import { ProjectFlowMetrics } from "@/features/projects/components/project-flow-metrics";
 import { ProjectActivityLogWidget } from "@/features/audit-logs/components/project-activity-log-widget";
 import { ProjectMembersWidget } from "@/features/members/components/project-members-widget";
 import { MemberAvatar } from "@/features/members/components/member-avatar";
@@ -794,6 +795,11 @@ export const DataDashboard = ({
         />
       </div>
 
+      {/* ── Flow Metrics ── */}
+      {projectId && !isAggregated && (
+        <ProjectFlowMetrics projectId={projectId} workspaceId={workspaceId} />
+      )}
+
       {/* ── Recent Tasks + Sidebar ── */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
         {/* Task table — 2 cols */}
@@ -17,6 +17,7 @@ import { BulkActionsToolbar } from "./bulk-actions-toolbar";
 import { Task, TaskStatus } from "../types";
 import { useBulkUpdateTasks } from "../api/use-bulk-update-tasks";
 import { useCreateTaskModal } from "../hooks/use-create-task-modal";
+import { useKanbanWipLimits } from "../hooks/use-kanban-wip-limits";
 import { useGetProject } from "@/features/projects/api/use-get-project";
 import { useValidateTransition, TransitionValidationResult } from "@/features/workflows/api/use-validate-transition";
 import { useGetWorkflowStatuses } from "@/features/workflows/api/use-get-workflow-statuses";
@@ -37,7 +38,8 @@ type TasksState = {
 interface DataKanbanProps {
   data: Task[];
   onChange: (
-    tasks: { $id: string; status: TaskStatus; position: number }[]
+    tasks: { $id: string; status: TaskStatus; position: number }[],
+    options?: { overrideWipLimit?: boolean }
   ) => void;
   canCreateTasks?: boolean;
   canEditTasks?: boolean;
@@ -116,6 +118,7 @@ export const DataKanban = ({
 
   // Fetch project settings to pass custom options to cards
   const { data: project } = useGetProject({ projectId, enabled: !!projectId });
+  const { wipLimits, setWipLimit, checkMoves, WipConfirmDialog } = useKanbanWipLimits(project);
 
   useEffect(() => {
     const newTasks: TasksState = {
@@ -245,7 +248,7 @@ export const DataKanban = ({
     });
   }, [onChange, sortDirections]);
 
-  const handleBulkStatusChange = useCallback((status: TaskStatus | string) => {
+  const handleBulkStatusChange = useCallback(async (status: TaskStatus | string) => {
     if (selectedTasks.size === 0) return;
 
     const updates = Array.from(selectedTasks).map(taskId => ({
@@ -253,12 +256,23 @@ export const DataKanban = ({
       status,
     }));
 
+    const counts = Object.fromEntries(
+      Object.entries(tasks).map(([board, boardTasks]) => [board, boardTasks.length])
+    );
+    const moves = Object.entries(tasks).flatMap(([board, boardTasks]) =>
+      boardTasks
+        .filter(task => selectedTasks.has(task.$id))
+        .map(task => ({ itemId: task.$id, fromStatus: board, toStatus: status }))
+    );
+    const wip = await checkMoves(moves, counts);
+    if (!wip.allowed) return;
+
     bulkUpdateTasks({
-      json: { tasks: updates }
+      json: { tasks: updates, overrideWipLimit: wip.override }
     });
 
     setSelectedTasks(new Set());
-  }, [selectedTasks, bulkUpdateTasks]);
+  }, [selectedTasks, bulkUpdateTasks, tasks, checkMoves]);
 
   const handleBulkAssigneeChange = useCallback((assigneeId: string) => {
     if (selectedTasks.size === 0) return;
@@ -423,10 +437,24 @@ export const DataKanban = ({
       }
       // ======= END WORKFLOW VALIDATION =======
 
+      // Full columns are refused or need an explicit override, per project setting
+      let overrideWipLimit = false;
+      if (sourceStatus !== destStatus) {
+        const wip = await checkMoves(
+          [{ itemId: movedTask.$id, fromStatus: sourceStatus, toStatus: destStatus }],
+          { [destStatus]: previousTasks[destStatus]?.length ?? 0 }
+        );
+        if (!wip.allowed) {
+          setTasks(previousTasks);
+          return;
+        }
+        overrideWipLimit = wip.override;
+      }
+
       // Call onChange and handle errors with rollback
       if (updatesPayload.length > 0) {
         try {
-          onChange(updatesPayload);
+          onChange(updatesPayload, { overrideWipLimit });
         } catch (error) {
           console.error('Failed to update task positions:', error);
           // Rollback to previous state on error
@@ -434,11 +462,12 @@ export const DataKanban = ({
         }
       }
     },
-    [onChange, project?.workflowId, statusKeyToIdMap, tasks, validateTransition]
+    [onChange, project?.workflowId, statusKeyToIdMap, tasks, validateTransition, checkMoves]
   );
 
   return (
     <>
+      <WipConfirmDialog />
       <div className="flex justify-between items-center mb-4">
         <div className="flex items-center gap-2">
           {canDeleteTasks && (
@@ -487,6 +516,8 @@ export const DataKanban = ({
                   onSortByDueDate={handleSortByDueDate}
                   canCreateTasks={canCreateTasks}
                   sortDirection={sortDirections[board]}
+                  wipLimit={wipLimits[board]}
+                  onSetWipLimit={setWipLimit}
                 />
                 <Droppable droppableId={board}>
                   {(provided) => (
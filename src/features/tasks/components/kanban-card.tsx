@@ -7,7 +7,9 @@ import { TaskActions } from "./task-actions";
 import { LabelBadge } from "./LabelBadge";
 import { PriorityBadge } from "./priority-selector";
 import { AssigneeAvatarGroup } from "./assignee-avatar-group";
+import { BoardPresence } from "./board-presence";
 import { WorkItemIcon } from "@/features/timeline/components/work-item-icon";
+import { BoardPresenceEntry } from "@/lib/socket/types";
 
 import { PopulatedTask } from "../types";
 import { useTaskPreviewModal } from "../hooks/use-task-preview-modal";
@@ -21,6 +23,8 @@ interface KanbanCardProps {
     canDelete?: boolean;
     project?: Project;
     dragHandleProps?: DraggableProvidedDragHandleProps | null;
+    /** Other users viewing/editing this item right now */
+    presence?: BoardPresenceEntry[];
 }
 
 export const KanbanCard = ({
@@ -30,7 +34,8 @@ export const KanbanCard = ({
     canEdit = false,
     canDelete = false,
     project,
-    dragHandleProps
+    dragHandleProps,
+    presence = [],
 }: KanbanCardProps) => {
     const { open: openPreview } = useTaskPreviewModal();
 
@@ -84,6 +89,7 @@ export const KanbanCard = ({
                     </div>
 
                     <div className="flex items-center gap-1">
+                        <BoardPresence users={presence} size="sm" visibleCount={2} />
                         <TaskActions
                             id={task.$id}
                             projectId={task.projectId}
@@ -37,6 +37,9 @@ import { useUpdateTask } from "../api/use-update-task";
 import { PopulatedTask, TaskStatus, TaskPriority } from "../types";
 import { toast } from "sonner";
 import { WorkItemIcon } from "@/features/timeline/components/work-item-icon";
+import { RequestApprovalDialog } from "@/features/transition-approvals/components/request-approval-dialog";
+import { TransitionApprovalsSection } from "@/features/transition-approvals/components/transition-approvals-section";
+import { TaskWatchers } from "./task-watchers";
 
 interface TaskDetailsSidebarProps {
   task: PopulatedTask;
@@ -242,6 +245,7 @@ export const TaskDetailsSidebar = ({
   const [typeOpen, setTypeOpen] = useState(false);
   const [projectOpen, setProjectOpen] = useState(true);
   const [labelOpen, setLabelOpen] = useState(true);
+  const [approvalTarget, setApprovalTarget] = useState<string | null>(null);
 
 
   const [statusSearch, setStatusSearch] = useState("");
@@ -297,6 +301,11 @@ export const TaskDetailsSidebar = ({
       {
         onError: (error) => {
           setLocalStatus(prev);
+          // Non-approvers can't make this move directly - offer to request approval
+          if (error?.reason === "REQUIRES_APPROVAL") {
+            setApprovalTarget(status);
+            return;
+          }
           // Show the actual error message from server - it contains the specific reason
           const errorMessage = error?.message || "Failed to update task";
           toast.error(errorMessage);
@@ -709,6 +718,18 @@ export const TaskDetailsSidebar = ({
       </div>
 
 
+      <TransitionApprovalsSection workspaceId={workspaceId} workItemId={task.$id} />
+
+      {approvalTarget && (
+        <RequestApprovalDialog
+          open={!!approvalTarget}
+          onOpenChange={(open) => !open && setApprovalTarget(null)}
+          workItemId={task.$id}
+          toStatus={approvalTarget}
+          toStatusLabel={workflowFilteredStatuses.find((s) => s.value === approvalTarget)?.label ?? approvalTarget}
+        />
+      )}
+
       {/* Labels Section */}
 
       <>
@@ -828,7 +849,7 @@ export const TaskDetailsSidebar = ({
         </div>
       </>
 
-
+      <TaskWatchers taskId={task.$id} />
 
     </div>
   );
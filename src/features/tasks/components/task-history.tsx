@@ -38,7 +38,14 @@ import { useDeleteComment } from "@/features/comments/hooks/use-delete-comment";
 import { useCreateComment } from "@/features/comments/hooks/use-create-comment";
 import { useConfirm } from "@/hooks/use-confirm";
 import { useGetMembers } from "@/features/members/api/use-get-members";
-import { PopulatedTask } from "@/features/tasks/types";
+import { PopulatedTask, PopulatedWorkItemChange, WorkItemChangeSource } from "@/features/tasks/types";
+import { useGetTaskChanges } from "@/features/tasks/api/use-get-task-changes";
+import {
+  CHANGE_SOURCE_LABELS,
+  CREATED_FIELD,
+  SPLIT_FIELD,
+  WORK_ITEM_FIELD_LABELS,
+} from "@/features/tasks/change-log";
 import { Attachment } from "@/features/attachments/types";
 import { PopulatedComment } from "@/features/comments/types";
 
@@ -59,8 +66,22 @@ interface HistoryItem {
   userImage?: string;
   metadata?: Record<string, unknown>;
   comment?: PopulatedComment;
+  changes?: { field: string; from: string | null; to: string | null }[];
 }
 
+// "via Slack" for changes that did not come from the app itself
+const describeSource = (source: WorkItemChangeSource) =>
+  source === WorkItemChangeSource.APP ? "" : ` via ${CHANGE_SOURCE_LABELS[source] ?? source}`;
+
+const describeChange = ({ field, from, to }: NonNullable<HistoryItem["changes"]>[number]) => {
+  const label = WORK_ITEM_FIELD_LABELS[field] ?? field;
+  if (field === SPLIT_FIELD) return `split into ${to || "new items"}`;
+  if (field === "description") return `edited the ${label.toLowerCase()}`;
+  if (!to) return `cleared ${label.toLowerCase()} (was ${from})`;
+  if (!from) return `set ${label.toLowerCase()} to ${to}`;
+  return `changed ${label.toLowerCase()} from ${from} to ${to}`;
+};
+
 
 
 const getHistoryColor = (type: HistoryItem["type"]) => {
@@ -446,17 +467,26 @@ const HistoryItemComponent = ({
 
 
   return (
-    <div className="flex items-center gap-3 py-2">
-      <div className={`w-2 h-2 rounded-full ${colorClass}`} />
-      <span className="text-xs text-muted-foreground">
-        <span className="font-medium text-foreground">{item.userName || "Unknown"}</span>
-        {" "}
-        {item.description}
-        {" · "}
-        <span className="text-muted-foreground">
-          {formatDistanceToNow(new Date(item.timestamp), { addSuffix: true })}
+    <div className="flex items-start gap-3 py-2">
+      <div className={`w-2 h-2 rounded-full mt-1 shrink-0 ${colorClass}`} />
+      <div className="flex flex-col gap-0.5 min-w-0">
+        <span className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{item.userName || "Unknown"}</span>
+          {" "}
+          {item.description}
+          {" · "}
+          <span className="text-muted-foreground">
+            {formatDistanceToNow(new Date(item.timestamp), { addSuffix: true })}
+          </span>
         </span>
-      </span>
+        {item.changes && item.changes.length > 1 && (
+          <ul className="text-xs text-muted-foreground pl-1">
+            {item.changes.map((change) => (
+              <li key={change.field} className="break-words">{describeChange(change)}</li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 };
@@ -482,7 +512,11 @@ export const TaskHistory = ({ task, workspaceId, currentUserId, isAdmin = false
     workspaceId,
   });
 
-  const isLoading = commentsLoading || attachmentsLoading || timeLogsLoading || membersLoading;
+  const { data: changeLog, isLoading: changesLoading } = useGetTaskChanges({
+    taskId: task.$id,
+  });
+
+  const isLoading = commentsLoading || attachmentsLoading || timeLogsLoading || membersLoading || changesLoading;
 
   // Find the member who last modified the task
   const updaterMember = useMemo(() => {
@@ -494,6 +528,55 @@ export const TaskHistory = ({ task, workspaceId, currentUserId, isAdmin = false
   const historyItems = useMemo(() => {
     const items: HistoryItem[] = [];
 
+    // Change log rows, one history item per mutation (batch)
+    const batches = new Map<string, PopulatedWorkItemChange[]>();
+    ((changeLog?.documents ?? []) as PopulatedWorkItemChange[]).forEach((change) => {
+      const batch = batches.get(change.batchId) ?? [];
+      batch.push(change);
+      batches.set(change.batchId, batch);
+    });
+
+    let loggedCreation = false;
+    batches.forEach((batch, batchId) => {
+      const [first] = batch;
+      const actor = first.actor;
+      const source = describeSource(first.source);
+      const created = batch.find((change) => change.field === CREATED_FIELD);
+
+      if (created) {
+        loggedCreation = true;
+        items.push({
+          id: `task-created-${task.$id}`,
+          type: "created",
+          timestamp: created.changedAt,
+          description: `created this task${source}`,
+          userName: actor?.name || "Someone",
+          userEmail: actor?.email,
+          userImage: actor?.profileImageUrl || undefined,
+        });
+        return;
+      }
+
+      const changes = batch.map((change) => ({
+        field: change.field,
+        from: change.oldLabel,
+        to: change.newLabel,
+      }));
+
+      items.push({
+        id: `task-changes-${batchId}`,
+        type: "updated",
+        timestamp: first.changedAt,
+        description: changes.length === 1
+          ? `${describeChange(changes[0])}${source}`
+          : `changed ${changes.length} fields${source}`,
+        userName: actor?.name || "Someone",
+        userEmail: actor?.email,
+        userImage: actor?.profileImageUrl || undefined,
+        changes,
+      });
+    });
+
     // Task created event - use reporter (creator) info, not assignee
     let creatorName = task.reporter?.name;
     const creatorEmail = task.reporter?.email;
@@ -507,24 +590,30 @@ export const TaskHistory = ({ task, workspaceId, currentUserId, isAdmin = false
       }
     }
 
-    items.push({
-      id: `task-created-${task.$id}`,
-      type: "created",
-      timestamp: task.$createdAt,
-      description: "created this task",
-      userName: creatorName,
-      userEmail: creatorEmail,
-      userImage: creatorImage,
-    });
+    // Items created before the change log existed
+    if (!loggedCreation) {
+      items.push({
+        id: `task-created-${task.$id}`,
+        type: "created",
+        timestamp: task.$createdAt,
+        description: "created this task",
+        userName: creatorName,
+        userEmail: creatorEmail,
+        userImage: creatorImage,
+      });
+    }
 
-    // Task updated event (if different from created)
-    if (task.$updatedAt && task.$updatedAt !== task.$createdAt) {
+    // Last update of items with no logged changes yet (if different from created)
+    const hasLoggedUpdates = batches.size > (loggedCreation ? 1 : 0);
+    if (!hasLoggedUpdates && task.$updatedAt && task.$updatedAt !== task.$createdAt) {
       let updaterName = "Someone";
       let updaterEmail = undefined;
       let updaterImage = undefined;
 
       if (task.lastModifiedBy === "github-webhook" || task.lastModifiedBy === "github-sync-history") {
         updaterName = "GitHub Integration";
+      } else if (task.lastModifiedBy === "system") {
+        updaterName = "Workflow Automation";
       } else if (updaterMember) {
         updaterName = updaterMember.name || updaterMember.email || "Someone";
         updaterImage = updaterMember.profileImageUrl || undefined;
@@ -607,7 +696,7 @@ export const TaskHistory = ({ task, workspaceId, currentUserId, isAdmin = false
 
     // Sort by timestamp (oldest first) so chat flows top->oldest ... bottom->newest
     return items.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  }, [task, comments, attachments, timeLogs, members, updaterMember]);
+  }, [task, comments, attachments, timeLogs, members, updaterMember, changeLog]);
 
   // Auto-scroll container to bottom when items change so the latest is next to the input
   const containerRef = useRef<HTMLDivElement | null>(null);
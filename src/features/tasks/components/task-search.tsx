@@ -1,21 +1,26 @@
-import { Search, X } from "lucide-react";
+import { Braces, Search, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useTaskFilters } from "../hooks/use-task-filters";
 import { useState, useEffect, useRef } from "react";
 import { useDebounce } from "@/hooks/use-debounce";
+import { validateJql } from "@/features/search/lib/jql";
+import { cn } from "@/lib/utils";
 
 interface TaskSearchProps {
   placeholder?: string;
   className?: string;
 }
 
-export const TaskSearch = ({ 
-  placeholder = "Search tasks...", 
-  className = "" 
+export const TaskSearch = ({
+  placeholder = "Search tasks...",
+  className = ""
 }: TaskSearchProps) => {
-  const [{ search }, setFilters] = useTaskFilters();
+  const [{ search, jql }, setFilters] = useTaskFilters();
   const [searchValue, setSearchValue] = useState(search ?? "");
+  const [jqlMode, setJqlMode] = useState(!!jql);
+  const [jqlValue, setJqlValue] = useState(jql ?? "");
+  const [jqlError, setJqlError] = useState<string | null>(null);
   const debouncedSearch = useDebounce(searchValue, 300);
   const isInitialMount = useRef(true);
 
@@ -25,7 +30,7 @@ export const TaskSearch = ({
       isInitialMount.current = false;
       return;
     }
-    
+
     // Only update if the debounced value is actually different
     if (debouncedSearch !== search) {
       setFilters({ search: debouncedSearch || null });
@@ -41,29 +46,100 @@ export const TaskSearch = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [search]);
 
+  useEffect(() => {
+    if ((jql ?? "") !== jqlValue) {
+      setJqlValue(jql ?? "");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [jql]);
+
   const clearSearch = () => {
+    if (jqlMode) {
+      setJqlValue("");
+      setJqlError(null);
+      setFilters({ jql: null });
+      return;
+    }
     setSearchValue("");
   };
 
+  // JQL is applied on Enter so half-typed queries don't hit the server
+  const applyJql = () => {
+    const trimmed = jqlValue.trim();
+    if (!trimmed) {
+      setJqlError(null);
+      setFilters({ jql: null });
+      return;
+    }
+    const result = validateJql(trimmed);
+    if (!result.valid) {
+      setJqlError(`${result.message} (at ${result.position + 1})`);
+      return;
+    }
+    setJqlError(null);
+    setFilters({ jql: trimmed });
+  };
+
+  const toggleMode = () => {
+    setJqlMode((prev) => !prev);
+    setJqlError(null);
+  };
+
+  const value = jqlMode ? jqlValue : searchValue;
+
   return (
     <div className={`relative ${className}`}>
-      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+      {jqlMode ? (
+        <Braces className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+      ) : (
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+      )}
       <Input
-        placeholder={placeholder}
-        value={searchValue}
-        onChange={(e) => setSearchValue(e.target.value)}
-        className="pl-10 pr-10 h-8"
+        placeholder={jqlMode ? 'e.g. assignee = me() AND status != Done' : placeholder}
+        value={value}
+        onChange={(e) => {
+          if (jqlMode) {
+            setJqlValue(e.target.value);
+            setJqlError(null);
+          } else {
+            setSearchValue(e.target.value);
+          }
+        }}
+        onKeyDown={(e) => {
+          if (jqlMode && e.key === "Enter") applyJql();
+        }}
+        onBlur={() => {
+          if (jqlMode) applyJql();
+        }}
+        aria-invalid={!!jqlError}
+        className={cn("pl-10 pr-16 h-8", jqlMode && "font-mono text-xs", jqlError && "border-destructive")}
       />
-      {searchValue && (
+      <div className="absolute right-1 top-1/2 transform -translate-y-1/2 flex items-center gap-0.5">
+        {value && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearSearch}
+            className="h-6 w-6 p-0 hover:bg-muted"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="sm"
-          onClick={clearSearch}
-          className="absolute right-1 top-1/2 transform -translate-y-1/2 h-6 w-6 p-0 hover:bg-muted"
+          onClick={toggleMode}
+          title={jqlMode ? "Switch to text search" : "Switch to JQL"}
+          className={cn("h-6 px-1.5 text-[10px] font-medium hover:bg-muted", jqlMode && "text-primary")}
         >
-          <X className="h-3 w-3" />
+          JQL
         </Button>
+      </div>
+      {jqlError && (
+        <p className="absolute left-0 top-full mt-1 text-xs text-destructive whitespace-nowrap z-10">
+          {jqlError}
+        </p>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
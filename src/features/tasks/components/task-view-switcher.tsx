@@ -52,11 +52,14 @@ import { createColumns } from "./columns";
 import { DataFilters } from "./data-filters";
 import { ProjectSetupOverlay } from "@/features/sprints/components/project-setup-overlay";
 import { useGetWorkItems } from "@/features/sprints/api/use-get-work-items";
+import { useSearchWorkItems } from "@/features/search/api/use-search-work-items";
 import { useGetSprints } from "@/features/sprints/api/use-get-sprints";
 import { useBulkUpdateWorkItems } from "@/features/sprints/api/use-bulk-update-work-items";
 import { SprintStatus, WorkItemStatus, WorkItemPriority, PopulatedWorkItem, Sprint } from "@/features/sprints/types";
 import { CompleteSprintModal } from "@/features/sprints/components/complete-sprint-modal";
 import { CreateWorkItemModal } from "@/features/sprints/components/create-work-item-modal";
+import { CalendarFeedButton } from "@/features/calendar-feeds/components/calendar-feed-button";
+import { CalendarFeedScope } from "@/features/calendar-feeds/types";
 import { useGetMySpaceItems } from "@/features/my-space/api/use-get-my-space-items";
 import { useGetMySpaceProjects } from "@/features/my-space/api/use-get-my-space-projects";
 import { useGetMySpaceSprints } from "@/features/my-space/api/use-get-my-space-sprints";
@@ -259,7 +262,7 @@ export const TaskViewSwitcher = ({
 }: TaskViewSwitcherProps) => {
 
 
-  const [{ status, assigneeId, projectId, search, priority, labels }] =
+  const [{ status, assigneeId, projectId, search, jql, priority, labels }] =
     useTaskFilters();
   const [view, setView] = useQueryState("task-view", { defaultValue: "dashboard" });
   const [completeSprintOpen, setCompleteSprintOpen] = useState(false);
@@ -291,6 +294,15 @@ export const TaskViewSwitcher = ({
   const canDeleteTasks = isAdmin || canDeleteTasksProject;
   const canCreateTasks = isAdmin || canCreateTasksProject;
 
+  // Project calendars subscribe to the project; elsewhere to your own work items
+  const calendarFeedButton = workspaceId ? (
+    <CalendarFeedButton
+      workspaceId={workspaceId}
+      scope={paramProjectId ? CalendarFeedScope.PROJECT : CalendarFeedScope.USER}
+      projectId={paramProjectId || undefined}
+    />
+  ) : null;
+
   // Use Work Items instead of Tasks - map status filter from TaskStatus to WorkItemStatus
   const mappedStatus = status ? taskStatusToWorkItemStatus(status as TaskStatus) : undefined;
 
@@ -308,6 +320,15 @@ export const TaskViewSwitcher = ({
     search: undefined, // Don't filter on server side, use client-side search
     enabled: !showMyTasksOnly,
   });
+  // Text and JQL search run server-side (covers descriptions, comments and custom fields)
+  const searchQuery = useSearchWorkItems({
+    workspaceId,
+    projectId: effectiveProjectId || undefined,
+    q: search,
+    jql,
+    limit: 1000,
+    enabled: !showMyTasksOnly,
+  });
   const { data: workItemsData, isLoading: isLoadingWorkItems } = showMyTasksOnly
     ? { data: mySpaceQuery.data, isLoading: mySpaceQuery.isLoading }
     : { data: workItemsQuery.data, isLoading: workItemsQuery.isLoading };
@@ -366,8 +387,14 @@ export const TaskViewSwitcher = ({
       }
     }
 
-    // Apply search filter (always client-side)
-    if (search) {
+    // Server-side search results: keep matches in the order the server returned them
+    if (!showMyTasksOnly && (search || jql) && searchQuery.data) {
+      const rank = new Map(searchQuery.data.documents.map((item, index) => [item.$id, index]));
+      filtered = filtered
+        .filter(task => rank.has(task.$id))
+        .sort((a, b) => (rank.get(a.$id) ?? 0) - (rank.get(b.$id) ?? 0));
+    } else if (search) {
+      // My Space (or search still loading): client-side title/description match
       const searchLower = search.toLowerCase();
       filtered = filtered.filter(task =>
         (task.title || task.name || "").toLowerCase().includes(searchLower) ||
@@ -380,7 +407,7 @@ export const TaskViewSwitcher = ({
       documents: filtered,
       total: filtered.length
     };
-  }, [tasks, search, showMyTasksOnly, status, projectId, priority, labels]);
+  }, [tasks, search, jql, searchQuery.data, showMyTasksOnly, status, projectId, priority, labels]);
 
   const columns = useMemo(() => createColumns(
     canEditTasks,
@@ -411,14 +438,17 @@ export const TaskViewSwitcher = ({
 
 
   const onKanbanChange = useCallback(
-    (tasks: { $id: string; status: TaskStatus | string; position: number }[]) => {
+    (
+      tasks: { $id: string; status: TaskStatus | string; position: number }[],
+      options?: { overrideWipLimit?: boolean }
+    ) => {
       // Convert TaskStatus back to WorkItemStatus for saving
       const workItemUpdates = tasks.map(task => ({
         $id: task.$id,
         status: taskStatusToWorkItemStatus(task.status as TaskStatus),
         position: task.position,
       }));
-      bulkUpdate({ json: { workItems: workItemUpdates } });
+      bulkUpdate({ json: { workItems: workItemUpdates, overrideWipLimit: options?.overrideWipLimit } });
     },
     [bulkUpdate]
   );
@@ -593,12 +623,12 @@ export const TaskViewSwitcher = ({
                 variant="calendar"
               >
                 <Suspense fallback={<div className="h-[200px] flex items-center justify-center"><LoaderIcon className="size-5 animate-spin text-muted-foreground" /></div>}>
-                  <DataCalendar data={filteredTasks?.documents ?? []} />
+                  <DataCalendar data={filteredTasks?.documents ?? []} toolbarAction={calendarFeedButton} />
                 </Suspense>
               </ProjectSetupOverlay>
             ) : (
               <Suspense fallback={<div className="h-[200px] flex items-center justify-center"><LoaderIcon className="size-5 animate-spin text-muted-foreground" /></div>}>
-                <DataCalendar data={filteredTasks?.documents ?? []} />
+                <DataCalendar data={filteredTasks?.documents ?? []} toolbarAction={calendarFeedButton} />
               </Suspense>
             )}
           </TabsContent>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Eye, EyeOff, Loader2 } from "lucide-react";
+
+import { MemberAvatar } from "@/features/members/components/member-avatar";
+
+import { useGetTaskWatchers } from "../api/use-get-task-watchers";
+import { useWatchTask } from "../api/use-watch-task";
+import { useUnwatchTask } from "../api/use-unwatch-task";
+
+interface TaskWatchersProps {
+  taskId: string;
+}
+
+export const TaskWatchers = ({ taskId }: TaskWatchersProps) => {
+  const [open, setOpen] = useState(true);
+  const { data, isLoading } = useGetTaskWatchers({ taskId });
+  const { mutate: watch, isPending: isWatchPending } = useWatchTask();
+  const { mutate: unwatch, isPending: isUnwatchPending } = useUnwatchTask();
+
+  const watchers = data?.watchers ?? [];
+  const isWatching = data?.isWatching ?? false;
+  const isPending = isWatchPending || isUnwatchPending;
+
+  const handleToggle = () => {
+    if (isWatching) {
+      unwatch({ param: { taskId } });
+    } else {
+      watch({ param: { taskId } });
+    }
+  };
+
+  return (
+    <div className="px-2 mb-2 mt-2 border-t pt-4">
+      <div onClick={() => setOpen(!open)} className="flex gap-1 cursor-pointer items-center flex-row">
+        {open ? (
+          <ChevronDown className="size-3 text-gray-500" />
+        ) : (
+          <ChevronRight className="size-3 text-gray-500" />
+        )}
+        <span className="text-xs text-muted-foreground">
+          Watchers{watchers.length > 0 ? ` (${watchers.length})` : ""}
+        </span>
+      </div>
+
+      {open && (
+        <>
+          <button
+            onClick={handleToggle}
+            disabled={isLoading || isPending}
+            className="flex items-center gap-3 px-2 py-2 hover:bg-accent rounded-md w-full text-left disabled:opacity-50"
+          >
+            {isPending ? (
+              <Loader2 className="size-4 text-muted-foreground animate-spin" />
+            ) : isWatching ? (
+              <EyeOff className="size-4 text-muted-foreground" />
+            ) : (
+              <Eye className="size-4 text-muted-foreground" />
+            )}
+            <span className="text-[13px] font-normal text-muted-foreground">
+              {isWatching ? "Stop watching" : "Watch"}
+            </span>
+          </button>
+
+          {watchers.length > 0 && (
+            <div className="space-y-1 px-2 mt-1">
+              {watchers.map((watcher) => (
+                <div key={watcher.$id} className="flex items-center gap-2">
+                  <MemberAvatar
+                    name={watcher.name}
+                    imageUrl={watcher.profileImageUrl}
+                    className="size-5"
+                    withTooltip={false}
+                  />
+                  <span className="text-[13px] font-normal truncate">{watcher.name}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { toast } from "sonner";
+
+import { useConfirm } from "@/hooks/use-confirm";
+import { useProjectPermissions } from "@/hooks/use-project-permissions";
+import { snakeCaseToTitleCase } from "@/lib/utils";
+import { useUpdateProject } from "@/features/projects/api/use-update-project";
+import { Project, WipEnforcement } from "@/features/projects/types";
+import {
+  WipLimitMove,
+  findWipLimitBreaches,
+  formatWipLimitBreach,
+  getWipEnforcement,
+  parseWipLimits,
+} from "@/features/projects/wip-limits";
+
+/**
+ * WIP limits for a project's Kanban board
+ *
+ * `checkMoves` mirrors the server check before a drag is saved: with BLOCK
+ * enforcement the move is refused, with OVERRIDE the user is asked to
+ * confirm and the save must carry `overrideWipLimit`.
+ */
+export const useKanbanWipLimits = (project?: Project | null) => {
+  const wipLimits = useMemo(() => parseWipLimits(project?.wipLimits), [project?.wipLimits]);
+  const enforcement = project ? getWipEnforcement(project) : WipEnforcement.OVERRIDE;
+
+  const { canManageProjectSettings } = useProjectPermissions({
+    projectId: project?.$id,
+    workspaceId: project?.workspaceId,
+  });
+  const { mutate: updateProject } = useUpdateProject();
+
+  const [WipConfirmDialog, confirmOverride] = useConfirm(
+    "Over WIP limit",
+    "This column is already at its WIP limit. Move the item anyway?",
+    "destructive",
+    "Move anyway"
+  );
+
+  const setWipLimit = useCallback(
+    (status: string, limit: number | null) => {
+      if (!project) return;
+
+      const next = { ...wipLimits };
+      if (limit && limit > 0) {
+        next[status] = limit;
+      } else {
+        delete next[status];
+      }
+
+      updateProject({
+        form: { wipLimits: JSON.stringify(next) },
+        param: { projectId: project.$id },
+      });
+    },
+    [project, wipLimits, updateProject]
+  );
+
+  const checkMoves = useCallback(
+    async (
+      moves: WipLimitMove[],
+      counts: Record<string, number>
+    ): Promise<{ allowed: boolean; override: boolean }> => {
+      const breaches = findWipLimitBreaches({ limits: wipLimits, counts, moves });
+
+      if (breaches.length === 0) {
+        return { allowed: true, override: false };
+      }
+
+      if (enforcement === WipEnforcement.BLOCK) {
+        toast.error(
+          breaches
+            .map((breach) => formatWipLimitBreach(breach, snakeCaseToTitleCase(breach.status)))
+            .join("; ")
+        );
+        return { allowed: false, override: false };
+      }
+
+      const confirmed = Boolean(await confirmOverride());
+      return { allowed: confirmed, override: confirmed };
+    },
+    [wipLimits, enforcement, confirmOverride]
+  );
+
+  return {
+    wipLimits,
+    setWipLimit: canManageProjectSettings ? setWipLimit : undefined,
+    checkMoves,
+    WipConfirmDialog,
+  };
+};
@@ -8,6 +8,7 @@ export const useTaskFilters = () => {
     assigneeId: parseAsString, // Keep for backward compatibility
     assigneeIds: parseAsArrayOf(parseAsString), // New field for multiple assignees
     search: parseAsString,
+    jql: parseAsString, // Structured query (server-side search)
     dueDate: parseAsString,
     priority: parseAsString,
     labels: parseAsArrayOf(parseAsString),
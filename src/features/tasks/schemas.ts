@@ -60,7 +60,10 @@ export const createTaskFormSchema = baseTaskSchema.omit({ workspaceId: true }).e
   }
 );
 
-export const updateTaskSchema = baseTaskSchema.omit({ workspaceId: true }).partial().refine(
+export const updateTaskSchema = baseTaskSchema.omit({ workspaceId: true }).partial().extend({
+  // Confirms a move past a WIP limit where the project allows overrides
+  overrideWipLimit: z.boolean().optional(),
+}).refine(
   (data) => {
     if (data.dueDate && data.startDate) {
       return data.dueDate >= data.startDate;
@@ -0,0 +1,210 @@
+import "server-only";
+
+import { Databases, ID, Models, Query, Users } from "node-appwrite";
+
+import {
+  CUSTOM_COLUMNS_ID,
+  DATABASE_ID,
+  MEMBERS_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  WORK_ITEMS_ID,
+  WORK_ITEM_CHANGES_ID,
+} from "@/config";
+import { batchGetUsers } from "@/lib/batch-users";
+
+import { FieldChange, collectChangeReferences, formatChangeValue } from "../change-log";
+import { PopulatedWorkItemChange, TaskAssignee, WorkItemChange, WorkItemChangeSource } from "../types";
+
+/**
+ * Change Log
+ *
+ * Every work item mutation appends one row per changed field. Rows are
+ * never updated or deleted, so the log answers "who changed this, when,
+ * and from what" long after the item moved on. Like the status history,
+ * recording never throws: the mutation itself already succeeded.
+ */
+
+const ID_CHUNK_SIZE = 100;
+
+export interface WorkItemChangeInput {
+  item: { $id: string; projectId: string; workspaceId: string };
+  changes: FieldChange[];
+  changedBy?: string | null;
+  // For actors without an Appwrite account, e.g. the Slack user
+  changedByName?: string | null;
+  source: WorkItemChangeSource;
+  changedAt?: Date;
+}
+
+export async function recordWorkItemChanges(
+  databases: Databases,
+  inputs: WorkItemChangeInput[]
+): Promise<void> {
+  await Promise.all(
+    inputs
+      .filter((input) => input.changes.length > 0)
+      .flatMap((input) => {
+        const batchId = ID.unique();
+        const changedAt = (input.changedAt ?? new Date()).toISOString();
+
+        return input.changes.map((change) =>
+          databases
+            .createDocument(DATABASE_ID, WORK_ITEM_CHANGES_ID, ID.unique(), {
+              workItemId: input.item.$id,
+              projectId: input.item.projectId,
+              workspaceId: input.item.workspaceId,
+              batchId,
+              field: change.field,
+              oldValue: change.oldValue,
+              newValue: change.newValue,
+              changedBy: input.changedBy ?? null,
+              changedByName: input.changedByName ?? null,
+              source: input.source,
+              changedAt,
+            })
+            .catch((error) => {
+              console.error("[ChangeLog] Failed to record change:", error instanceof Error ? error.message : error);
+            })
+        );
+      })
+  );
+}
+
+export async function recordWorkItemChange(
+  databases: Databases,
+  input: WorkItemChangeInput
+): Promise<void> {
+  await recordWorkItemChanges(databases, [input]);
+}
+
+/**
+ * Newest changes first
+ */
+export async function listWorkItemChanges(
+  databases: Databases,
+  filters: {
+    workItemId?: string;
+    workspaceId?: string;
+    projectId?: string;
+    changedBy?: string;
+    since?: string;
+    until?: string;
+  },
+  limit = 200
+): Promise<WorkItemChange[]> {
+  const changes = await databases.listDocuments<WorkItemChange>(
+    DATABASE_ID,
+    WORK_ITEM_CHANGES_ID,
+    [
+      ...(filters.workItemId ? [Query.equal("workItemId", filters.workItemId)] : []),
+      ...(filters.workspaceId ? [Query.equal("workspaceId", filters.workspaceId)] : []),
+      ...(filters.projectId ? [Query.equal("projectId", filters.projectId)] : []),
+      ...(filters.changedBy ? [Query.equal("changedBy", filters.changedBy)] : []),
+      ...(filters.since ? [Query.greaterThanEqual("changedAt", filters.since)] : []),
+      ...(filters.until ? [Query.lessThanEqual("changedAt", filters.until)] : []),
+      Query.orderDesc("changedAt"),
+      Query.limit(limit),
+    ]
+  );
+
+  return changes.documents;
+}
+
+export async function listDocumentsByIds<T extends Models.Document>(
+  databases: Databases,
+  collectionId: string,
+  ids: string[]
+): Promise<T[]> {
+  const documents: T[] = [];
+
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+    try {
+      const page = await databases.listDocuments<T>(DATABASE_ID, collectionId, [
+        Query.equal("$id", chunk),
+        Query.limit(chunk.length),
+      ]);
+      documents.push(...page.documents);
+    } catch {
+      // Deleted collections or documents leave the raw IDs in place
+    }
+  }
+
+  return documents;
+}
+
+// "IN_PROGRESS" -> "In Progress"
+function humanizeKey(key: string): string {
+  return key.replace(/_/g, " ").toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/**
+ * Resolves the IDs in the changes to names and attaches who made each one
+ */
+export async function populateWorkItemChanges(
+  databases: Databases,
+  users: Users,
+  changes: WorkItemChange[]
+): Promise<PopulatedWorkItemChange[]> {
+  const references = collectChangeReferences(changes);
+
+  const [members, sprints, workItems, projects, columns] = await Promise.all([
+    listDocumentsByIds<Models.Document & { userId: string; name?: string; email?: string }>(databases, MEMBERS_ID, references.member),
+    listDocumentsByIds<Models.Document & { name: string }>(databases, SPRINTS_ID, references.sprint),
+    listDocumentsByIds<Models.Document & { key?: string; title: string }>(databases, WORK_ITEMS_ID, references.workItem),
+    listDocumentsByIds<Models.Document & { name: string }>(databases, PROJECTS_ID, references.project),
+    listDocumentsByIds<Models.Document & { name: string }>(databases, CUSTOM_COLUMNS_ID, references.status),
+  ]);
+
+  const userIds = [
+    ...changes.map((change) => change.changedBy).filter((id): id is string => !!id),
+    ...members.filter((member) => !member.name).map((member) => member.userId),
+  ];
+  const userMap = await batchGetUsers(users, userIds);
+
+  const labels: Record<string, string> = {};
+  for (const status of references.status) {
+    labels[status] = humanizeKey(status);
+  }
+  for (const column of columns) {
+    labels[column.$id] = column.name;
+  }
+  for (const member of members) {
+    const user = userMap.get(member.userId);
+    labels[member.$id] = member.name || user?.name || member.email || user?.email || "Former member";
+  }
+  for (const sprint of sprints) {
+    labels[sprint.$id] = sprint.name;
+  }
+  for (const item of workItems) {
+    labels[item.$id] = item.key ? `${item.key} ${item.title}` : item.title;
+  }
+  for (const project of projects) {
+    labels[project.$id] = project.name;
+  }
+
+  return changes.map((change) => {
+    const user = change.changedBy ? userMap.get(change.changedBy) : undefined;
+    let actor: TaskAssignee | null = null;
+    if (user) {
+      actor = {
+        $id: user.$id,
+        name: user.name || user.email,
+        email: user.email,
+        profileImageUrl: (user.prefs?.profileImageUrl as string | undefined) ?? null,
+      };
+    } else if (change.changedBy === "system") {
+      actor = { $id: "system", name: "Workflow Automation" };
+    } else if (change.changedByName || change.changedBy) {
+      actor = { $id: change.changedBy ?? "", name: change.changedByName || "Former member" };
+    }
+
+    return {
+      ...change,
+      oldLabel: formatChangeValue(change.field, change.oldValue, labels),
+      newLabel: formatChangeValue(change.field, change.newValue, labels),
+      actor,
+    };
+  });
+}
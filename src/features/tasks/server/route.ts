@@ -3,7 +3,7 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 
-import { DATABASE_ID, MEMBERS_ID, PROJECTS_ID, TASKS_ID, TIME_LOGS_ID, COMMENTS_ID, WORKFLOW_TRANSITIONS_ID, PROJECT_TEAM_MEMBERS_ID, WORKFLOW_STATUSES_ID, CUSTOM_COLUMNS_ID } from "@/config";
+import { DATABASE_ID, MEMBERS_ID, PROJECTS_ID, TASKS_ID, TIME_LOGS_ID, TIMERS_ID, COMMENTS_ID, WORKFLOW_TRANSITIONS_ID, PROJECT_TEAM_MEMBERS_ID, WORKFLOW_STATUSES_ID, CUSTOM_COLUMNS_ID } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
 import { createAdminClient } from "@/lib/appwrite";
 import { batchGetUsers } from "@/lib/batch-users";
@@ -23,14 +23,56 @@ import {
 } from "@/lib/notifications/events";
 import { extractMentions, extractSnippet } from "@/lib/mentions";
 import { invalidateCachePattern, CKPattern } from "@/lib/redis";
+import { syncWorkItemSearchIndex, removeFromSearchIndex } from "@/features/search/server/search-index";
+import { runAutoTransitions } from "@/features/workflows/server/auto-transitions";
+import { getCapacityWarning } from "@/features/sprints/server/capacity";
 import { logComputeUsage } from "@/lib/usage-metering";
+import { pushBoardEvent, pickBoardChanges } from "@/lib/socket/board-push";
 
 
 import { getMember } from "@/features/members/utils";
 import { Project } from "@/features/projects/types";
+import { enforceWipLimits } from "@/features/projects/server/wip-limits";
 
 import { createTaskSchema, updateTaskSchema } from "../schemas";
-import { Task, TaskStatus, TaskPriority } from "../types";
+import { createdChange, diffWorkItemFields } from "../change-log";
+import { Task, TaskStatus, TaskPriority, TaskWatcher, WorkItemChangeSource } from "../types";
+import { addTaskWatcher, removeTaskWatcher } from "./watchers";
+import { recordStatusChange, recordStatusChanges } from "./status-history";
+import { listWorkItemChanges, populateWorkItemChanges, recordWorkItemChange, recordWorkItemChanges } from "./change-log";
+
+/**
+ * Load a task if the user may view it (workspace member with VIEW_TASKS
+ * on the project). Returns null when missing or not visible.
+ */
+async function getTaskIfViewable(
+  databases: Databases,
+  taskId: string,
+  userId: string
+): Promise<Task | null> {
+  try {
+    const task = await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, taskId);
+
+    const member = await getMember({
+      databases,
+      workspaceId: task.workspaceId,
+      userId,
+    });
+    if (!member) {
+      return null;
+    }
+
+    const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+    const projectAccess = await resolveUserProjectAccess(databases, userId, task.projectId);
+    if (!projectAccess.hasAccess || !hasProjectPermission(projectAccess, ProjectPermissionKey.VIEW_TASKS)) {
+      return null;
+    }
+
+    return task;
+  } catch {
+    return null;
+  }
+}
 
 /**
  * Validate if a status transition is allowed for the user.
@@ -166,7 +208,7 @@ async function validateStatusTransition(
         return {
           allowed: false,
           reason: "REQUIRES_APPROVAL",
-          message: "This transition requires approval from designated approvers",
+          message: "This transition requires approval from designated approvers. Submit an approval request to proceed.",
         };
       }
     }
@@ -276,6 +318,17 @@ const app = new Hono()
         await databases.deleteDocument(DATABASE_ID, TIME_LOGS_ID, timeLog.$id);
       }
 
+      // Timers running on the task would log time against a deleted item
+      const timers = await databases.listDocuments(
+        DATABASE_ID,
+        TIMERS_ID,
+        [Query.equal("taskId", taskId)]
+      );
+
+      for (const timer of timers.documents) {
+        await databases.deleteDocument(DATABASE_ID, TIMERS_ID, timer.$id);
+      }
+
       // Delete the task
       await databases.deleteDocument(DATABASE_ID, TASKS_ID, taskId);
 
@@ -296,6 +349,16 @@ const app = new Hono()
       const event = createDeletedEvent(task, user.$id, userName);
       dispatchWorkitemEvent(event).catch(() => { });
 
+      removeFromSearchIndex(task.$id).catch(() => { });
+
+      pushBoardEvent({
+        type: "workitem:deleted",
+        projectId: task.projectId,
+        workspaceId: task.workspaceId,
+        actorId: user.$id,
+        items: [{ $id: task.$id }],
+      });
+
       return c.json({ data: { $id: task.$id } });
     } catch {
       return c.json({ error: "Failed to delete task" }, 500);
@@ -642,6 +705,7 @@ const app = new Hono()
           flagged: false,
           lastModifiedBy: user.$id,
           reporterId: member.$id, // Track who created the task
+          watcherIds: [user.$id], // Creators follow their own items
           sprintId: targetSprintId, // Auto-assign to active sprint if available
         }
       ) as Task;
@@ -655,12 +719,29 @@ const app = new Hono()
         jobType: "task_create",
       });
 
+      recordWorkItemChange(databases, {
+        item: task,
+        changes: [createdChange(task)],
+        changedBy: user.$id,
+        source: WorkItemChangeSource.APP,
+      }).catch(() => { });
+
       const userName = user.name || user.email || "Someone";
 
       // Emit domain event for task creation (webhooks, etc.)
       const createEvent = createTaskCreatedEvent(task, user.$id, userName);
       dispatchWorkitemEvent(createEvent).catch(() => { });
 
+      syncWorkItemSearchIndex(task.$id).catch(() => { });
+
+      pushBoardEvent({
+        type: "workitem:created",
+        projectId,
+        workspaceId,
+        actorId: user.$id,
+        items: [{ $id: task.$id }],
+      });
+
       // Invalidate task list caches for this workspace
       await invalidateCachePattern(CKPattern.taskLists(workspaceId));
 
@@ -682,7 +763,7 @@ const app = new Hono()
     async (c) => {
       const user = c.get("user");
       const databases = c.get("databases");
-      const { name, type, status, projectId, startDate, dueDate, assigneeIds, description, estimatedHours, priority, labels, flagged, storyPoints } =
+      const { name, type, status, projectId, startDate, dueDate, assigneeIds, description, estimatedHours, priority, labels, flagged, storyPoints, overrideWipLimit } =
         c.req.valid("json");
 
       const { taskId } = c.req.param();
@@ -743,6 +824,24 @@ const app = new Hono()
         } catch {
           // If project fetch fails, continue (project might have been deleted)
         }
+
+        // Moving into a full column needs the project's WIP limits to allow it
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, existingTask.projectId);
+        const wip = await enforceWipLimits(databases, {
+          project,
+          moves: [{ item: existingTask, toStatus: status }],
+          userId: user.$id,
+          override: overrideWipLimit,
+        });
+
+        if (!wip.allowed) {
+          return c.json({
+            error: wip.message,
+            code: "WIP_LIMIT_EXCEEDED",
+            breaches: wip.breaches,
+            canOverride: wip.canOverride,
+          }, 409);
+        }
       }
       // ======= END WORKFLOW VALIDATION =======
 
@@ -800,6 +899,22 @@ const app = new Hono()
       const priorityChanged = priority !== undefined && existingTask.priority !== priority;
       const dueDateChanged = dueDate !== undefined && String(existingTask.dueDate) !== String(dueDate);
 
+      if (statusChanged) {
+        recordStatusChange(databases, {
+          item: task,
+          fromStatus: existingTask.status,
+          toStatus: task.status,
+          changedBy: user.$id,
+        }).catch(() => { });
+      }
+
+      recordWorkItemChange(databases, {
+        item: task,
+        changes: diffWorkItemFields(existingTask, task),
+        changedBy: user.$id,
+        source: WorkItemChangeSource.APP,
+      }).catch(() => { });
+
       // Dispatch appropriate events based on what changed
       // Status change events
       if (statusChanged) {
@@ -977,6 +1092,39 @@ const app = new Hono()
         jobType: "task_update",
       });
 
+      syncWorkItemSearchIndex(taskId).catch(() => { });
+
+      // Broadcast to open boards - a project change leaves one board and joins another
+      if (task.projectId !== existingTask.projectId) {
+        pushBoardEvent({
+          type: "workitem:deleted",
+          projectId: existingTask.projectId,
+          workspaceId: existingTask.workspaceId,
+          actorId: user.$id,
+          items: [{ $id: taskId }],
+        });
+        pushBoardEvent({
+          type: "workitem:created",
+          projectId: task.projectId,
+          workspaceId: task.workspaceId,
+          actorId: user.$id,
+          items: [{ $id: taskId }],
+        });
+      } else {
+        pushBoardEvent({
+          type: statusChanged ? "workitem:moved" : "workitem:updated",
+          projectId: task.projectId,
+          workspaceId: task.workspaceId,
+          actorId: user.$id,
+          items: [{ $id: taskId, changes: pickBoardChanges(task) }],
+        });
+      }
+
+      // A child moved - the parent may now satisfy ALL_SUBTASKS_DONE
+      if (statusChanged && task.parentId) {
+        runAutoTransitions(task.parentId, "ALL_SUBTASKS_DONE").catch(() => { });
+      }
+
       // Invalidate task list caches for this workspace after update
       await invalidateCachePattern(CKPattern.taskLists(existingTask.workspaceId));
 
@@ -1063,7 +1211,16 @@ const app = new Hono()
       }
       // ======= END BI-DIRECTIONAL GITHUB ISSUE SYNC =======
 
-      return c.json({ data: task });
+      // Warn (never block) when the change puts assignees over their sprint capacity
+      const affectsCapacity =
+        assigneeIds !== undefined ||
+        storyPoints !== undefined ||
+        estimatedHours !== undefined;
+      const capacityWarning = affectsCapacity
+        ? await getCapacityWarning(databases, task.sprintId, task.assigneeIds)
+        : null;
+
+      return c.json({ data: task, capacityWarning });
     }
   )
   .get("/:taskId", sessionMiddleware, async (c) => {
@@ -1201,6 +1358,84 @@ const app = new Hono()
       return c.json({ error: "Task not found" }, 404);
     }
   })
+  // Field-level change history, newest first
+  .get("/:taskId/changes", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const databases = c.get("databases");
+    const { taskId } = c.req.param();
+
+    const task = await getTaskIfViewable(databases, taskId, user.$id);
+    if (!task) {
+      return c.json({ error: "Task not found" }, 404);
+    }
+
+    const { users } = await createAdminClient();
+    const changes = await listWorkItemChanges(databases, { workItemId: task.$id }, 500);
+    const populated = await populateWorkItemChanges(databases, users, changes);
+
+    return c.json({ data: { documents: populated, total: populated.length } });
+  })
+  .get("/:taskId/watchers", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const databases = c.get("databases");
+    const { taskId } = c.req.param();
+
+    const task = await getTaskIfViewable(databases, taskId, user.$id);
+    if (!task) {
+      return c.json({ error: "Task not found" }, 404);
+    }
+
+    const { users } = await createAdminClient();
+    const watcherIds = task.watcherIds || [];
+    const userMap = await batchGetUsers(users, watcherIds);
+
+    const watchers: TaskWatcher[] = watcherIds
+      .filter((id) => userMap.has(id))
+      .map((id) => {
+        const watcher = userMap.get(id)!;
+        return {
+          $id: watcher.$id,
+          name: watcher.name || watcher.email,
+          email: watcher.email,
+          profileImageUrl: watcher.prefs?.profileImageUrl ?? null,
+        };
+      });
+
+    return c.json({
+      data: {
+        watchers,
+        isWatching: watcherIds.includes(user.$id),
+      },
+    });
+  })
+  .post("/:taskId/watchers", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const databases = c.get("databases");
+    const { taskId } = c.req.param();
+
+    const task = await getTaskIfViewable(databases, taskId, user.$id);
+    if (!task) {
+      return c.json({ error: "Task not found" }, 404);
+    }
+
+    const watcherIds = await addTaskWatcher(databases, task, user.$id);
+
+    return c.json({ data: { $id: task.$id, watcherIds } });
+  })
+  .delete("/:taskId/watchers", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const databases = c.get("databases");
+    const { taskId } = c.req.param();
+
+    const task = await getTaskIfViewable(databases, taskId, user.$id);
+    if (!task) {
+      return c.json({ error: "Task not found" }, 404);
+    }
+
+    const watcherIds = await removeTaskWatcher(databases, task, user.$id);
+
+    return c.json({ data: { $id: task.$id, watcherIds } });
+  })
   .post(
     "/bulk-update",
     sessionMiddleware,
@@ -1216,12 +1451,14 @@ const app = new Hono()
             assigneeIds: z.array(z.string()).optional(), // New field for multiple assignees
           })
         ),
+        // Confirms moves past WIP limits (projects with OVERRIDE enforcement)
+        overrideWipLimit: z.boolean().optional(),
       })
     ),
     async (c) => {
       const user = c.get("user");
       const databases = c.get("databases");
-      const { tasks } = c.req.valid("json");
+      const { tasks, overrideWipLimit } = c.req.valid("json");
 
       const tasksToUpdate = await databases.listDocuments<Task>(
         DATABASE_ID,
@@ -1340,6 +1577,35 @@ const app = new Hono()
       }
       // ======= END WORKFLOW VALIDATION =======
 
+      // WIP limits: the whole batch is rejected if any column would overflow
+      for (const project of projects.documents) {
+        const moves = validTasks
+          .map((taskUpdate) => ({ taskUpdate, existingTask: existingTasksMap.get(taskUpdate.$id) }))
+          .filter(({ taskUpdate, existingTask }) =>
+            existingTask?.projectId === project.$id && taskUpdate.status !== undefined
+          )
+          .map(({ taskUpdate, existingTask }) => ({
+            item: existingTask!,
+            toStatus: taskUpdate.status as string,
+          }));
+
+        const wip = await enforceWipLimits(databases, {
+          project,
+          moves,
+          userId: user.$id,
+          override: overrideWipLimit,
+        });
+
+        if (!wip.allowed) {
+          return c.json({
+            error: wip.message,
+            code: "WIP_LIMIT_EXCEEDED",
+            breaches: wip.breaches,
+            canOverride: wip.canOverride,
+          }, 409);
+        }
+      }
+
       const updatedTasks = await Promise.all(
         validTasks.map(async (task) => {
           const { $id, status, position, assigneeIds } = task;
@@ -1363,10 +1629,32 @@ const app = new Hono()
           const updatedTask = await databases.updateDocument<Task>(DATABASE_ID, TASKS_ID, $id, updateData);
 
           // Notify status changes
-          return { task: updatedTask, oldStatus: existingTask.status, statusChanged: status !== undefined && existingTask.status !== status };
+          return { task: updatedTask, previous: existingTask, oldStatus: existingTask.status, statusChanged: status !== undefined && existingTask.status !== status };
         })
       );
 
+      recordWorkItemChanges(
+        databases,
+        updatedTasks.map(({ task, previous }) => ({
+          item: task,
+          changes: diffWorkItemFields(previous, task),
+          changedBy: user.$id,
+          source: WorkItemChangeSource.BULK_UPDATE,
+        }))
+      ).catch(() => { });
+
+      recordStatusChanges(
+        databases,
+        updatedTasks
+          .filter(({ statusChanged }) => statusChanged)
+          .map(({ task, oldStatus }) => ({
+            item: task,
+            fromStatus: oldStatus,
+            toStatus: task.status,
+            changedBy: user.$id,
+          }))
+      ).catch(() => { });
+
       // Send bulk notifications via dispatcher
       const userName = user.name || user.email || "Someone";
 
@@ -1394,10 +1682,36 @@ const app = new Hono()
               );
               dispatchWorkitemEvent(event).catch(() => { });
             }
+
+            // A child moved - the parent may now satisfy ALL_SUBTASKS_DONE
+            if (task.parentId) {
+              runAutoTransitions(task.parentId, "ALL_SUBTASKS_DONE").catch(() => { });
+            }
           }
         }
       })().catch(() => { /* Silent failure for non-critical event dispatch */ });
 
+      // Broadcast per project: drag across columns is a move, within a column a reorder
+      const boardItemsByProject = new Map<string, { moved: boolean; items: { $id: string; changes: Record<string, unknown> }[] }>();
+      for (const { task, statusChanged } of updatedTasks) {
+        const group = boardItemsByProject.get(task.projectId) ?? { moved: false, items: [] };
+        group.moved = group.moved || statusChanged;
+        group.items.push({
+          $id: task.$id,
+          changes: pickBoardChanges(task, ["status", "position", "assigneeIds"]),
+        });
+        boardItemsByProject.set(task.projectId, group);
+      }
+      for (const [projId, group] of boardItemsByProject) {
+        pushBoardEvent({
+          type: group.moved ? "workitem:moved" : "workitem:reordered",
+          projectId: projId,
+          workspaceId,
+          actorId: user.$id,
+          items: group.items,
+        });
+      }
+
       // LOG COMPUTE USAGE: Bulk Task Update
       logComputeUsage({
         databases,
@@ -0,0 +1,91 @@
+import "server-only";
+
+import { Databases, ID, Query } from "node-appwrite";
+
+import { DATABASE_ID, STATUS_CHANGES_ID } from "@/config";
+
+import { TaskStatusChange } from "../types";
+
+/**
+ * Status History
+ *
+ * Every status transition is appended here so flow metrics can replay
+ * how items moved across the board. Recording never throws: a missing
+ * row only makes the analytics slightly less precise.
+ */
+
+const PAGE_SIZE = 100;
+const MAX_CHANGES = 20000;
+
+export interface StatusChangeInput {
+  item: { $id: string; projectId: string; workspaceId: string };
+  fromStatus?: string | null;
+  toStatus: string;
+  changedBy?: string | null;
+  changedAt?: Date;
+}
+
+export async function recordStatusChanges(
+  databases: Databases,
+  changes: StatusChangeInput[]
+): Promise<void> {
+  await Promise.all(
+    changes
+      .filter((change) => change.fromStatus !== change.toStatus)
+      .map((change) =>
+        databases
+          .createDocument(DATABASE_ID, STATUS_CHANGES_ID, ID.unique(), {
+            workItemId: change.item.$id,
+            projectId: change.item.projectId,
+            workspaceId: change.item.workspaceId,
+            fromStatus: change.fromStatus ?? null,
+            toStatus: change.toStatus,
+            changedBy: change.changedBy ?? null,
+            changedAt: (change.changedAt ?? new Date()).toISOString(),
+          })
+          .catch((error) => {
+            console.error("[StatusHistory] Failed to record status change:", error instanceof Error ? error.message : error);
+          })
+      )
+  );
+}
+
+export async function recordStatusChange(
+  databases: Databases,
+  change: StatusChangeInput
+): Promise<void> {
+  await recordStatusChanges(databases, [change]);
+}
+
+/**
+ * A project's status changes, oldest first
+ */
+export async function listProjectStatusChanges(
+  databases: Databases,
+  projectId: string,
+  { since, until }: { since?: Date; until?: Date } = {}
+): Promise<TaskStatusChange[]> {
+  const changes: TaskStatusChange[] = [];
+  let cursor: string | undefined;
+
+  while (changes.length < MAX_CHANGES) {
+    const page = await databases.listDocuments<TaskStatusChange>(
+      DATABASE_ID,
+      STATUS_CHANGES_ID,
+      [
+        Query.equal("projectId", projectId),
+        ...(since ? [Query.greaterThanEqual("changedAt", since.toISOString())] : []),
+        ...(until ? [Query.lessThanEqual("changedAt", until.toISOString())] : []),
+        Query.orderAsc("changedAt"),
+        Query.limit(PAGE_SIZE),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
+      ]
+    );
+
+    changes.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return changes;
+}
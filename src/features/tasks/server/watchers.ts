@@ -0,0 +1,53 @@
+import "server-only";
+
+import { Databases } from "node-appwrite";
+
+import { DATABASE_ID, TASKS_ID } from "@/config";
+
+import { Task } from "../types";
+
+/**
+ * Add a user to a work item's watchers
+ *
+ * Watchers are stored as Appwrite user IDs (not member IDs) so the
+ * notification dispatcher can use them as recipients directly.
+ * No-op when the user is already watching.
+ */
+export async function addTaskWatcher(
+  databases: Databases,
+  task: Task,
+  userId: string
+): Promise<string[]> {
+  const watcherIds = task.watcherIds || [];
+  if (watcherIds.includes(userId)) {
+    return watcherIds;
+  }
+
+  const next = [...watcherIds, userId];
+  await databases.updateDocument(DATABASE_ID, TASKS_ID, task.$id, {
+    watcherIds: next,
+  });
+
+  return next;
+}
+
+/**
+ * Remove a user from a work item's watchers
+ */
+export async function removeTaskWatcher(
+  databases: Databases,
+  task: Task,
+  userId: string
+): Promise<string[]> {
+  const watcherIds = task.watcherIds || [];
+  if (!watcherIds.includes(userId)) {
+    return watcherIds;
+  }
+
+  const next = watcherIds.filter((id) => id !== userId);
+  await databases.updateDocument(DATABASE_ID, TASKS_ID, task.$id, {
+    watcherIds: next,
+  });
+
+  return next;
+}
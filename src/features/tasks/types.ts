@@ -44,6 +44,7 @@ export type Task = Models.Document & {
   commentCount?: number;   // Number of comments on this task
   storyPoints?: number;    // Story points for agile
   reporterId?: string;     // Who created the item
+  watcherIds?: string[];   // Appwrite user IDs following this item
   parentId?: string | null; // Parent task ID for sub-issues
 };
 
@@ -69,3 +70,60 @@ export type PopulatedTask = Task & {
   project?: { $id: string; name: string; imageUrl: string };
   reporter?: TaskAssignee; // Who created/reported the task
 };
+
+export type TaskWatcher = {
+  $id: string; // Appwrite user ID
+  name: string;
+  email?: string;
+  profileImageUrl?: string | null;
+};
+
+export type TaskStatusChange = Models.Document & {
+  workItemId: string;
+  projectId: string;
+  workspaceId: string;
+  fromStatus?: string | null; // null for the initial status
+  toStatus: string;
+  changedBy?: string | null; // Appwrite user ID, or "system" for automations
+  changedAt: string;
+};
+
+// Where a work item change was made
+export enum WorkItemChangeSource {
+  APP = "APP",                 // Created or edited one item in the app
+  BULK_UPDATE = "BULK_UPDATE", // Board drag and drop, multi-select edits
+  BULK_MOVE = "BULK_MOVE",     // Moved between sprints in bulk
+  SPLIT = "SPLIT",
+  MCP = "MCP",
+  SLACK = "SLACK",
+  DISCORD = "DISCORD",
+  WORKFLOW = "WORKFLOW",       // Approved or automatic status transitions
+  AUTOMATION = "AUTOMATION",   // Automation rule actions
+  SPRINT = "SPRINT",           // Items moved out of a completed or deleted sprint
+  IMPORT = "IMPORT",
+  RECURRING = "RECURRING",     // Spawned from a recurring template
+  AI = "AI",                   // Created or edited through the docs AI assistant
+}
+
+// One field of one work item, changed once. Entries are never updated or
+// deleted; entries written by the same mutation share a batchId.
+export type WorkItemChange = Models.Document & {
+  workItemId: string;
+  projectId: string;
+  workspaceId: string;
+  batchId: string;
+  field: string;             // Work item attribute, or "created" / "split"
+  oldValue?: string | null;  // Serialized, see serializeChangeValue
+  newValue?: string | null;
+  changedBy?: string | null;     // Appwrite user ID
+  changedByName?: string | null; // Display name for integration actors (Slack user, MCP token)
+  source: WorkItemChangeSource;
+  changedAt: string;
+};
+
+export type PopulatedWorkItemChange = WorkItemChange & {
+  // Values as shown to people: names instead of IDs, formatted dates
+  oldLabel: string | null;
+  newLabel: string | null;
+  actor: TaskAssignee | null;
+};
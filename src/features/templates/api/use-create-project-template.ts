@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api.templates)["projects"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api.templates)["projects"]["$post"]>;
+
+export const useCreateProjectTemplate = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api.templates["projects"].$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to create template.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Project template created.");
+      queryClient.invalidateQueries({ queryKey: ["project-templates"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create template.");
+    },
+  });
+
+  return mutation;
+};
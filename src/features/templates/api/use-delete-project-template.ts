@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api.templates)["projects"][":templateId"]["$delete"], 200>;
+type RequestType = InferRequestType<(typeof client.api.templates)["projects"][":templateId"]["$delete"]>;
+
+export const useDeleteProjectTemplate = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api.templates["projects"][":templateId"].$delete({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to delete template.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Project template deleted.");
+      queryClient.invalidateQueries({ queryKey: ["project-templates"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete template.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetProjectTemplatesProps {
+  workspaceId: string;
+  enabled?: boolean;
+}
+
+export const useGetProjectTemplates = ({
+  workspaceId,
+  enabled = true,
+}: UseGetProjectTemplatesProps) => {
+  const query = useQuery({
+    queryKey: ["project-templates", workspaceId],
+    enabled: enabled && !!workspaceId,
+    queryFn: async () => {
+      const response = await client.api.templates.projects.$get({
+        query: { workspaceId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch project templates.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetWorkItemTemplatesProps {
+  workspaceId: string;
+  projectId?: string;
+  enabled?: boolean;
+}
+
+export const useGetWorkItemTemplates = ({
+  workspaceId,
+  projectId,
+  enabled = true,
+}: UseGetWorkItemTemplatesProps) => {
+  const query = useQuery({
+    queryKey: ["work-item-templates", workspaceId, projectId],
+    enabled: enabled && !!workspaceId,
+    queryFn: async () => {
+      const response = await client.api.templates["work-items"].$get({
+        query: {
+          workspaceId,
+          projectId,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch work item templates.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api.templates)["work-items"][":templateId"]["$patch"], 200>;
+type RequestType = InferRequestType<(typeof client.api.templates)["work-items"][":templateId"]["$patch"]>;
+
+export const useUpdateWorkItemTemplate = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param, json }) => {
+      const response = await client.api.templates["work-items"][":templateId"].$patch({ param, json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to update template.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Work item template updated.");
+      queryClient.invalidateQueries({ queryKey: ["work-item-templates"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update template.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { buildTemplateDescription, renderChecklistHtml } from "./checklist";
+
+describe("renderChecklistHtml", () => {
+  it("renders unchecked task items and skips blank entries", () => {
+    expect(renderChecklistHtml(["Write tests", " ", "Update docs "])).toBe(
+      '<ul data-type="taskList">' +
+      '<li data-type="taskItem" data-checked="false"><p>Write tests</p></li>' +
+      '<li data-type="taskItem" data-checked="false"><p>Update docs</p></li>' +
+      "</ul>"
+    );
+  });
+
+  it("escapes markup in items", () => {
+    expect(renderChecklistHtml(["<b>Ship</b> & tell"])).toContain("<p>&lt;b&gt;Ship&lt;/b&gt; &amp; tell</p>");
+  });
+
+  it("keeps the checked state of object entries", () => {
+    expect(renderChecklistHtml([{ text: "Done", checked: true }, { text: "Open" }])).toBe(
+      '<ul data-type="taskList">' +
+      '<li data-type="taskItem" data-checked="true"><p>Done</p></li>' +
+      '<li data-type="taskItem" data-checked="false"><p>Open</p></li>' +
+      "</ul>"
+    );
+  });
+
+  it("renders nothing without items", () => {
+    expect(renderChecklistHtml([])).toBe("");
+  });
+});
+
+describe("buildTemplateDescription", () => {
+  it("appends the checklist to the skeleton", () => {
+    expect(buildTemplateDescription("<h2>Steps</h2>", ["Reproduce"])).toBe(
+      '<h2>Steps</h2><ul data-type="taskList"><li data-type="taskItem" data-checked="false"><p>Reproduce</p></li></ul>'
+    );
+    expect(buildTemplateDescription(null, null)).toBe("");
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Template checklists are appended to the work item description as a
+ * checklist (task list) the rich text editor can tick off.
+ */
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Plain strings are unchecked items
+export type ChecklistEntry = string | { text: string; checked?: boolean };
+
+/**
+ * Editor task list markup for the given items (empty string without items)
+ */
+export function renderChecklistHtml(items: ChecklistEntry[]): string {
+  const entries = items
+    .map((item) => (typeof item === "string" ? { text: item, checked: false } : item))
+    .map((item) => ({ text: item.text.trim(), checked: item.checked ?? false }))
+    .filter((item) => item.text);
+  if (entries.length === 0) return "";
+
+  const listItems = entries
+    .map((item) => `<li data-type="taskItem" data-checked="${item.checked}"><p>${escapeHtml(item.text)}</p></li>`)
+    .join("");
+  return `<ul data-type="taskList">${listItems}</ul>`;
+}
+
+/**
+ * Description for a work item created from a template: the skeleton
+ * followed by the checklist
+ */
+export function buildTemplateDescription(
+  description: string | null | undefined,
+  checklist: string[] | null | undefined
+): string {
+  return `${description?.trim() ?? ""}${renderChecklistHtml(checklist ?? [])}`;
+}
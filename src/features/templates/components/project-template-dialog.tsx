@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FolderKanban, PlusIcon, TrashIcon } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useGetProjects } from "@/features/projects/api/use-get-projects";
+
+import { useCreateProjectTemplate } from "../api/use-create-project-template";
+import { useUpdateProjectTemplate } from "../api/use-update-project-template";
+import { PopulatedProjectTemplate, TemplateEpic } from "../types";
+
+interface ProjectTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  template?: PopulatedProjectTemplate | null;
+}
+
+export const ProjectTemplateDialog = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  template,
+}: ProjectTemplateDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [sourceProjectId, setSourceProjectId] = useState("");
+  const [includeEpics, setIncludeEpics] = useState(false);
+  const [starterEpics, setStarterEpics] = useState<TemplateEpic[]>([]);
+  const [refresh, setRefresh] = useState(false);
+
+  const { mutate: createTemplate, isPending: isCreating } = useCreateProjectTemplate();
+  const { mutate: updateTemplate, isPending: isUpdating } = useUpdateProjectTemplate();
+  const isPending = isCreating || isUpdating;
+
+  const { data: projects } = useGetProjects({ workspaceId });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? "");
+    setDescription(template?.description ?? "");
+    setSourceProjectId(template?.sourceProjectId ?? "");
+    setIncludeEpics(false);
+    setStarterEpics(template?.starterEpics ?? []);
+    setRefresh(false);
+  }, [open, template]);
+
+  const updateEpic = (index: number, title: string) => {
+    setStarterEpics(starterEpics.map((epic, i) => (i === index ? { ...epic, title } : epic)));
+  };
+
+  const handleSubmit = () => {
+    const epics = starterEpics
+      .map((epic) => ({ ...epic, title: epic.title.trim() }))
+      .filter((epic) => epic.title);
+    const options = { onSuccess: () => onOpenChange(false) };
+
+    if (template) {
+      updateTemplate(
+        {
+          param: { templateId: template.$id },
+          json: { name: name.trim(), description: description.trim() || null, starterEpics: epics, refresh },
+        },
+        options
+      );
+    } else {
+      createTemplate(
+        {
+          json: {
+            workspaceId,
+            sourceProjectId,
+            name: name.trim(),
+            description: description.trim() || null,
+            includeEpics,
+            starterEpics: includeEpics ? undefined : epics,
+          },
+        },
+        options
+      );
+    }
+  };
+
+  const sourceProjectName = projects?.documents.find((p) => p.$id === template?.sourceProjectId)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FolderKanban className="size-5" />
+            {template ? "Edit Project Template" : "Save Project as Template"}
+          </DialogTitle>
+          <DialogDescription>
+            Captures the workflow, custom fields, labels, priorities, work types and shared saved views of a project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="project-template-name" className="text-xs">Name</Label>
+            <Input
+              id="project-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Product team"
+              maxLength={256}
+            />
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What projects this template suits (optional)"
+              rows={2}
+              maxLength={2000}
+            />
+          </div>
+
+          {template ? (
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="project-template-refresh"
+                checked={refresh}
+                onCheckedChange={(checked) => setRefresh(checked === true)}
+                disabled={!template.sourceProjectId}
+              />
+              <Label htmlFor="project-template-refresh" className="text-xs font-normal leading-snug">
+                Re-capture the setup from {sourceProjectName ?? "the source project"}
+              </Label>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-xs">Source project</Label>
+              <Select value={sourceProjectId} onValueChange={setSourceProjectId}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Pick a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(projects?.documents ?? []).map((project) => (
+                    <SelectItem key={project.$id} value={project.$id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="project-template-epics"
+                  checked={includeEpics}
+                  onCheckedChange={(checked) => setIncludeEpics(checked === true)}
+                />
+                <Label htmlFor="project-template-epics" className="text-xs font-normal">
+                  Use the project&apos;s epics as starter epics
+                </Label>
+              </div>
+            </div>
+          )}
+
+          {(template || !includeEpics) && (
+            <div className="space-y-2">
+              <Label className="text-xs font-semibold uppercase text-muted-foreground">Starter epics</Label>
+              {starterEpics.map((epic, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    className="h-8"
+                    value={epic.title}
+                    onChange={(e) => updateEpic(index, e.target.value)}
+                    placeholder="Epic title"
+                    maxLength={256}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 shrink-0"
+                    onClick={() => setStarterEpics(starterEpics.filter((_, i) => i !== index))}
+                  >
+                    <TrashIcon className="size-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setStarterEpics([...starterEpics, { title: "" }])}
+                disabled={starterEpics.length >= 50}
+              >
+                <PlusIcon className="size-4 mr-2" />
+                Add epic
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending || !name.trim() || (!template && !sourceProjectId)}>
+            {isPending ? "Saving..." : template ? "Save Template" : "Create Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
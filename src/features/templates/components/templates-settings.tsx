@@ -0,0 +1,205 @@
+"use client";
+
+import { useState } from "react";
+import { FolderKanban, LayoutTemplate, PencilIcon, PlusIcon, TrashIcon } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useGetProjects } from "@/features/projects/api/use-get-projects";
+import { useConfirm } from "@/hooks/use-confirm";
+
+import { useDeleteProjectTemplate } from "../api/use-delete-project-template";
+import { useDeleteWorkItemTemplate } from "../api/use-delete-work-item-template";
+import { useGetProjectTemplates } from "../api/use-get-project-templates";
+import { useGetWorkItemTemplates } from "../api/use-get-work-item-templates";
+import { PopulatedProjectTemplate, PopulatedWorkItemTemplate } from "../types";
+import { ProjectTemplateDialog } from "./project-template-dialog";
+import { WorkItemTemplateDialog } from "./work-item-template-dialog";
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+interface TemplatesSettingsProps {
+  workspaceId: string;
+}
+
+export const TemplatesSettings = ({ workspaceId }: TemplatesSettingsProps) => {
+  const { data: workItemData, isLoading: isLoadingWorkItems } = useGetWorkItemTemplates({ workspaceId });
+  const { data: projectData, isLoading: isLoadingProjects } = useGetProjectTemplates({ workspaceId });
+  const { data: projects } = useGetProjects({ workspaceId });
+  const { mutate: deleteWorkItemTemplate } = useDeleteWorkItemTemplate();
+  const { mutate: deleteProjectTemplate } = useDeleteProjectTemplate();
+
+  const [workItemDialogOpen, setWorkItemDialogOpen] = useState(false);
+  const [editingWorkItemTemplate, setEditingWorkItemTemplate] = useState<PopulatedWorkItemTemplate | null>(null);
+  const [projectDialogOpen, setProjectDialogOpen] = useState(false);
+  const [editingProjectTemplate, setEditingProjectTemplate] = useState<PopulatedProjectTemplate | null>(null);
+
+  const [DeleteDialog, confirmDelete] = useConfirm(
+    "Delete Template",
+    "It will no longer be offered. Work items and projects already created from it are kept.",
+    "destructive"
+  );
+
+  const workItemTemplates = (workItemData?.documents ?? []) as PopulatedWorkItemTemplate[];
+  const projectTemplates = (projectData?.documents ?? []) as PopulatedProjectTemplate[];
+  const projectNames = new Map((projects?.documents ?? []).map((project) => [project.$id, project.name]));
+
+  const openWorkItemEditor = (template: PopulatedWorkItemTemplate | null) => {
+    setEditingWorkItemTemplate(template);
+    setWorkItemDialogOpen(true);
+  };
+
+  const openProjectEditor = (template: PopulatedProjectTemplate | null) => {
+    setEditingProjectTemplate(template);
+    setProjectDialogOpen(true);
+  };
+
+  const handleDelete = async (remove: () => void) => {
+    const ok = await confirmDelete();
+    if (ok) remove();
+  };
+
+  return (
+    <Card className="border border-border shadow-none">
+      <DeleteDialog />
+      <WorkItemTemplateDialog
+        open={workItemDialogOpen}
+        onOpenChange={setWorkItemDialogOpen}
+        workspaceId={workspaceId}
+        template={editingWorkItemTemplate}
+      />
+      <ProjectTemplateDialog
+        open={projectDialogOpen}
+        onOpenChange={setProjectDialogOpen}
+        workspaceId={workspaceId}
+        template={editingProjectTemplate}
+      />
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <LayoutTemplate className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Templates</CardTitle>
+        </div>
+        <CardDescription>
+          Starting points offered when creating work items and projects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="work-items">
+          <TabsList>
+            <TabsTrigger value="work-items">Work items</TabsTrigger>
+            <TabsTrigger value="projects">Projects</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="work-items" className="space-y-3">
+            <div className="flex justify-end">
+              <Button size="xs" type="button" onClick={() => openWorkItemEditor(null)}>
+                <PlusIcon className="size-3.5 mr-1" />
+                New Template
+              </Button>
+            </div>
+            {isLoadingWorkItems ? (
+              <Skeleton className="h-16 w-full" />
+            ) : workItemTemplates.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-6">
+                No work item templates yet. Add one for bug reports, spikes or release checklists.
+              </p>
+            ) : (
+              workItemTemplates.map((template) => (
+                <div key={template.$id} className="flex items-start gap-3 rounded-md border p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">{template.name}</p>
+                      {template.type && <Badge variant="outline" className="text-[10px]">{template.type}</Badge>}
+                      <Badge variant="secondary" className="text-[10px]">
+                        {template.projectId ? projectNames.get(template.projectId) ?? "Project" : "All projects"}
+                      </Badge>
+                    </div>
+                    {template.summary && (
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{template.summary}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        template.subtaskTitles?.length && pluralize(template.subtaskTitles.length, "subtask"),
+                        template.checklist?.length && pluralize(template.checklist.length, "checklist item"),
+                        template.customFields.length && pluralize(template.customFields.length, "field value"),
+                      ].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Edit" onClick={() => openWorkItemEditor(template)}>
+                      <PencilIcon className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Delete"
+                      onClick={() => handleDelete(() => deleteWorkItemTemplate({ param: { templateId: template.$id } }))}
+                    >
+                      <TrashIcon className="size-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="projects" className="space-y-3">
+            <div className="flex justify-end">
+              <Button size="xs" type="button" onClick={() => openProjectEditor(null)}>
+                <PlusIcon className="size-3.5 mr-1" />
+                Save Project as Template
+              </Button>
+            </div>
+            {isLoadingProjects ? (
+              <Skeleton className="h-16 w-full" />
+            ) : projectTemplates.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-6">
+                No project templates yet. Capture a well set up project to reuse its configuration.
+              </p>
+            ) : (
+              projectTemplates.map((template) => (
+                <div key={template.$id} className="flex items-start gap-3 rounded-md border p-3">
+                  <FolderKanban className="size-4 text-muted-foreground mt-0.5 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{template.name}</p>
+                    {template.description && (
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{template.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        template.workflowId && "Workflow",
+                        pluralize(template.customFields.length, "custom field"),
+                        pluralize(template.savedViews.length, "saved view"),
+                        pluralize(template.starterEpics.length, "starter epic"),
+                      ].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Edit" onClick={() => openProjectEditor(template)}>
+                      <PencilIcon className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Delete"
+                      onClick={() => handleDelete(() => deleteProjectTemplate({ param: { templateId: template.$id } }))}
+                    >
+                      <TrashIcon className="size-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
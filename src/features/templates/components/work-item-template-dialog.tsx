@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LayoutTemplate, PlusIcon, TrashIcon } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RichTextEditor } from "@/components/editor";
+import { useGetCustomFields } from "@/features/custom-fields/api/use-get-custom-fields";
+import { CustomField, CustomFieldType } from "@/features/custom-fields/types";
+import { useGetProjects } from "@/features/projects/api/use-get-projects";
+import { WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+
+import { useCreateWorkItemTemplate } from "../api/use-create-work-item-template";
+import { useUpdateWorkItemTemplate } from "../api/use-update-work-item-template";
+import { PopulatedWorkItemTemplate } from "../types";
+
+const ALL_PROJECTS_VALUE = "__all__";
+const NUMBER_FIELD_TYPES = new Set([CustomFieldType.NUMBER, CustomFieldType.CURRENCY, CustomFieldType.PERCENTAGE]);
+// Multi-value fields are edited as comma-separated text
+const LIST_FIELD_TYPES = new Set([CustomFieldType.MULTI_SELECT, CustomFieldType.USERS, CustomFieldType.LABELS]);
+
+function toFieldDraft(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function fromFieldDraft(field: CustomField, draft: string): unknown {
+  if (!draft.trim()) return null;
+  if (LIST_FIELD_TYPES.has(field.type)) return draft.split(",").map((v) => v.trim()).filter(Boolean);
+  if (NUMBER_FIELD_TYPES.has(field.type)) return Number(draft);
+  if (field.type === CustomFieldType.CHECKBOX) return draft === "true";
+  return draft.trim();
+}
+
+// Editable list of short strings (subtasks, checklist items)
+const StringListEditor = ({
+  items,
+  onChange,
+  placeholder,
+  addLabel,
+}: {
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder: string;
+  addLabel: string;
+}) => (
+  <div className="space-y-2">
+    {items.map((item, index) => (
+      <div key={index} className="flex items-center gap-2">
+        <Input
+          className="h-8"
+          value={item}
+          onChange={(e) => onChange(items.map((v, i) => (i === index ? e.target.value : v)))}
+          placeholder={placeholder}
+          maxLength={256}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 shrink-0"
+          onClick={() => onChange(items.filter((_, i) => i !== index))}
+        >
+          <TrashIcon className="size-4" />
+        </Button>
+      </div>
+    ))}
+    <Button variant="outline" size="sm" onClick={() => onChange([...items, ""])} disabled={items.length >= 50}>
+      <PlusIcon className="size-4 mr-2" />
+      {addLabel}
+    </Button>
+  </div>
+);
+
+interface WorkItemTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  template?: PopulatedWorkItemTemplate | null;
+}
+
+export const WorkItemTemplateDialog = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  template,
+}: WorkItemTemplateDialogProps) => {
+  const [name, setName] = useState("");
+  const [summary, setSummary] = useState("");
+  const [projectId, setProjectId] = useState(ALL_PROJECTS_VALUE);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [type, setType] = useState<string>(WorkItemType.TASK);
+  const [priority, setPriority] = useState<string>(WorkItemPriority.MEDIUM);
+  const [storyPoints, setStoryPoints] = useState("");
+  const [estimatedHours, setEstimatedHours] = useState("");
+  const [labels, setLabels] = useState("");
+  const [customFields, setCustomFields] = useState<Record<string, string>>({});
+  const [subtaskTitles, setSubtaskTitles] = useState<string[]>([]);
+  const [checklist, setChecklist] = useState<string[]>([]);
+
+  const { mutate: createTemplate, isPending: isCreating } = useCreateWorkItemTemplate();
+  const { mutate: updateTemplate, isPending: isUpdating } = useUpdateWorkItemTemplate();
+  const isPending = isCreating || isUpdating;
+
+  const { data: projects } = useGetProjects({ workspaceId });
+  const { data: customFieldData } = useGetCustomFields({
+    workspaceId,
+    projectId: projectId === ALL_PROJECTS_VALUE ? undefined : projectId,
+  });
+  const fields = (customFieldData?.documents ?? []) as CustomField[];
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? "");
+    setSummary(template?.summary ?? "");
+    setProjectId(template?.projectId ?? ALL_PROJECTS_VALUE);
+    setTitle(template?.title ?? "");
+    setDescription(template?.description ?? "");
+    setType(template?.type ?? WorkItemType.TASK);
+    setPriority(template?.priority ?? WorkItemPriority.MEDIUM);
+    setStoryPoints(template?.storyPoints != null ? String(template.storyPoints) : "");
+    setEstimatedHours(template?.estimatedHours != null ? String(template.estimatedHours) : "");
+    setLabels((template?.labels ?? []).join(", "));
+    setSubtaskTitles(template?.subtaskTitles ?? []);
+    setChecklist(template?.checklist ?? []);
+  }, [open, template]);
+
+  // Field definitions depend on the selected project
+  useEffect(() => {
+    if (!open) return;
+    const values = new Map((template?.customFields ?? []).map((cf) => [cf.fieldId, cf.value]));
+    setCustomFields(Object.fromEntries(fields.map((field) => [field.$id, toFieldDraft(values.get(field.$id))])));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, template, customFieldData]);
+
+  const handleSubmit = () => {
+    const payload = {
+      name: name.trim(),
+      summary: summary.trim() || null,
+      projectId: projectId === ALL_PROJECTS_VALUE ? null : projectId,
+      title: title.trim() || null,
+      description: description || null,
+      type,
+      priority,
+      storyPoints: storyPoints ? Number(storyPoints) : null,
+      estimatedHours: estimatedHours ? Number(estimatedHours) : null,
+      labels: labels.split(",").map((l) => l.trim()).filter(Boolean),
+      customFields: fields
+        .map((field) => ({ fieldId: field.$id, value: fromFieldDraft(field, customFields[field.$id] ?? "") }))
+        .filter((cf) => cf.value !== null),
+      subtaskTitles: subtaskTitles.map((s) => s.trim()).filter(Boolean),
+      checklist: checklist.map((s) => s.trim()).filter(Boolean),
+    };
+
+    const options = { onSuccess: () => onOpenChange(false) };
+
+    if (template) {
+      updateTemplate({ param: { templateId: template.$id }, json: payload }, options);
+    } else {
+      createTemplate({ json: { ...payload, workspaceId } }, options);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="size-5" />
+            {template ? "Edit Work Item Template" : "New Work Item Template"}
+          </DialogTitle>
+          <DialogDescription>
+            Pick it when creating a work item to prefill the description, fields, subtasks and checklist.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="template-name" className="text-xs">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Bug report"
+              maxLength={256}
+            />
+            <Textarea
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="When to use this template (optional)"
+              rows={2}
+              maxLength={1000}
+            />
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS_VALUE}>All projects</SelectItem>
+                {(projects?.documents ?? []).map((project) => (
+                  <SelectItem key={project.$id} value={project.$id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Defaults */}
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">Defaults</Label>
+            <Input
+              className="h-8"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title (optional), e.g. [Bug] "
+              maxLength={256}
+            />
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[WorkItemType.TASK, WorkItemType.STORY, WorkItemType.BUG, WorkItemType.EPIC].map((t) => (
+                    <SelectItem key={t} value={t}>{t.charAt(0) + t.slice(1).toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={priority} onValueChange={setPriority}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(WorkItemPriority).map((p) => (
+                    <SelectItem key={p} value={p}>{p.charAt(0) + p.slice(1).toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className="h-8"
+                type="number"
+                min={0}
+                max={100}
+                value={storyPoints}
+                onChange={(e) => setStoryPoints(e.target.value)}
+                placeholder="Points"
+              />
+              <Input
+                className="h-8"
+                type="number"
+                min={0}
+                value={estimatedHours}
+                onChange={(e) => setEstimatedHours(e.target.value)}
+                placeholder="Hours"
+              />
+            </div>
+            <Input
+              className="h-8"
+              value={labels}
+              onChange={(e) => setLabels(e.target.value)}
+              placeholder="Comma-separated labels"
+            />
+          </div>
+
+          {/* Description skeleton */}
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">Description</Label>
+            <RichTextEditor
+              content={description}
+              onChange={setDescription}
+              placeholder="Headings and prompts people fill in, e.g. Steps to reproduce, Expected, Actual"
+              workspaceId={workspaceId}
+              minHeight="120px"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">Checklist</Label>
+            <StringListEditor items={checklist} onChange={setChecklist} placeholder="Checklist item" addLabel="Add item" />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold uppercase text-muted-foreground">Subtasks</Label>
+            <StringListEditor items={subtaskTitles} onChange={setSubtaskTitles} placeholder="Subtask title" addLabel="Add subtask" />
+          </div>
+
+          {fields.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-xs font-semibold uppercase text-muted-foreground">Custom fields</Label>
+              {fields.map((field) => (
+                <div key={field.$id} className="grid grid-cols-[160px_1fr] items-center gap-2">
+                  <span className="text-xs truncate" title={field.name}>{field.name}</span>
+                  {field.type === CustomFieldType.SELECT ? (
+                    <Select
+                      value={customFields[field.$id] || ALL_PROJECTS_VALUE}
+                      onValueChange={(v) => setCustomFields((prev) => ({ ...prev, [field.$id]: v === ALL_PROJECTS_VALUE ? "" : v }))}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_PROJECTS_VALUE}>None</SelectItem>
+                        {(field.options ?? []).map((option) => (
+                          <SelectItem key={option.id} value={option.id}>{option.value}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      className="h-8"
+                      type={NUMBER_FIELD_TYPES.has(field.type) ? "number" : field.type === CustomFieldType.DATE ? "date" : "text"}
+                      value={customFields[field.$id] ?? ""}
+                      onChange={(e) => setCustomFields((prev) => ({ ...prev, [field.$id]: e.target.value }))}
+                      placeholder={
+                        LIST_FIELD_TYPES.has(field.type)
+                          ? "Comma-separated values"
+                          : field.type === CustomFieldType.CHECKBOX ? "true or false" : field.placeholder ?? undefined
+                      }
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending || !name.trim()}>
+            {isPending ? "Saving..." : template ? "Save Template" : "Create Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
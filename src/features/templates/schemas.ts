@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+import { WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+
+const workItemTemplateFields = {
+  name: z.string().trim().min(1, "Name is required").max(256),
+  summary: z.string().trim().max(1000).nullish(),
+  projectId: z.string().trim().min(1).nullish(),
+  title: z.string().trim().max(256).nullish(),
+  description: z.string().max(60000).nullish(),
+  type: z.union([z.nativeEnum(WorkItemType), z.string()]).nullish(),
+  priority: z.union([z.nativeEnum(WorkItemPriority), z.string()]).nullish(),
+  storyPoints: z.number().min(0).max(100).nullish(),
+  estimatedHours: z.number().min(0).nullish(),
+  labels: z.array(z.string().trim().min(1)).max(20).optional(),
+  customFields: z.array(z.object({ fieldId: z.string().min(1), value: z.unknown() })).max(50).optional(),
+  subtaskTitles: z.array(z.string().trim().min(1).max(256)).max(50).optional(),
+  checklist: z.array(z.string().trim().min(1).max(512)).max(50).optional(),
+};
+
+export const createWorkItemTemplateSchema = z.object({
+  ...workItemTemplateFields,
+  workspaceId: z.string(),
+});
+
+export const updateWorkItemTemplateSchema = z.object(workItemTemplateFields).partial();
+
+export const getWorkItemTemplatesSchema = z.object({
+  workspaceId: z.string(),
+  // Limit to templates offered in this project (its own and workspace-wide ones)
+  projectId: z.string().optional(),
+});
+
+const starterEpicSchema = z.object({
+  title: z.string().trim().min(1, "Epic title is required").max(256),
+  description: z.string().max(10000).nullish(),
+});
+
+// Project templates are captured from an existing project's setup
+export const createProjectTemplateSchema = z.object({
+  workspaceId: z.string(),
+  sourceProjectId: z.string().min(1, "Pick a project to capture"),
+  name: z.string().trim().min(1, "Name is required").max(256),
+  description: z.string().trim().max(2000).nullish(),
+  // Start from the source project's epics; otherwise use starterEpics
+  includeEpics: z.boolean().optional(),
+  starterEpics: z.array(starterEpicSchema).max(50).optional(),
+});
+
+export const updateProjectTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(256).optional(),
+  description: z.string().trim().max(2000).nullish(),
+  starterEpics: z.array(starterEpicSchema).max(50).optional(),
+  // Re-capture the setup from the source project
+  refresh: z.boolean().optional(),
+});
+
+export const getProjectTemplatesSchema = z.object({
+  workspaceId: z.string(),
+});
@@ -0,0 +1,229 @@
+import "server-only";
+
+import { Databases, ID, Query } from "node-appwrite";
+
+import { CUSTOM_FIELDS_ID, DATABASE_ID, SAVED_VIEWS_ID, WORK_ITEMS_ID } from "@/config";
+import { CustomField, CustomFieldScope } from "@/features/custom-fields/types";
+import { Project } from "@/features/projects/types";
+import { SavedView, SavedViewScope } from "@/features/saved-views/types";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
+import { generateWorkItemKey } from "@/features/sprints/server/work-item-keys";
+import { WorkItem, WorkItemPriority, WorkItemStatus, WorkItemType } from "@/features/sprints/types";
+import { getInitialStatusKey } from "@/features/workflows/server/transition-utils";
+
+import { PopulatedProjectTemplate, TemplateCustomField, TemplateEpic, TemplateSavedView } from "../types";
+
+/**
+ * Project Templates
+ *
+ * A template is captured from an existing project. Creating a project from
+ * it sets the workflow, work types, priorities and labels on the project
+ * document, then adds the custom fields, saved views and starter epics.
+ */
+
+// JSON attributes come back as strings, parsed objects depending on the caller
+function toJson(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Template attributes describing the project's current setup
+ */
+export async function captureProjectSetup(
+  databases: Databases,
+  project: Project
+): Promise<Record<string, string | null>> {
+  const [customFields, savedViews] = await Promise.all([
+    databases.listDocuments<CustomField>(DATABASE_ID, CUSTOM_FIELDS_ID, [
+      Query.equal("projectId", project.$id),
+      Query.equal("archived", false),
+      Query.orderAsc("position"),
+      Query.limit(100),
+    ]),
+    databases.listDocuments<SavedView>(DATABASE_ID, SAVED_VIEWS_ID, [
+      Query.equal("projectId", project.$id),
+      Query.equal("scope", SavedViewScope.PROJECT),
+      Query.limit(100),
+    ]),
+  ]);
+
+  const fields: TemplateCustomField[] = customFields.documents.map((field) => ({
+    name: field.name,
+    key: field.key,
+    description: field.description ?? null,
+    type: field.type,
+    isRequired: field.isRequired,
+    defaultValue: field.defaultValue ?? null,
+    placeholder: field.placeholder ?? null,
+    options: field.options,
+    minValue: field.minValue ?? null,
+    maxValue: field.maxValue ?? null,
+    precision: field.precision ?? null,
+    currencySymbol: field.currencySymbol ?? null,
+    currencyCode: field.currencyCode ?? null,
+    appliesToTypes: field.appliesToTypes ?? null,
+    showInList: field.showInList,
+    showInCard: field.showInCard,
+    position: field.position,
+  }));
+
+  const views: TemplateSavedView[] = savedViews.documents.map((view) => ({
+    name: view.name,
+    description: view.description ?? null,
+    type: view.type,
+    jql: view.jql ?? null,
+    filters: view.filters,
+    columns: view.columns,
+    sort: view.sort,
+    kanbanConfig: view.kanbanConfig,
+    calendarConfig: view.calendarConfig,
+    timelineConfig: view.timelineConfig,
+    quickFilters: view.quickFilters,
+    isDefault: view.isDefault,
+    isPinned: view.isPinned,
+    icon: view.icon ?? null,
+    color: view.color ?? null,
+  }));
+
+  return {
+    sourceProjectId: project.$id,
+    workflowId: project.workflowId ?? null,
+    customWorkItemTypes: toJson(project.customWorkItemTypes),
+    customPriorities: toJson(project.customPriorities),
+    customLabels: toJson(project.customLabels),
+    customFields: JSON.stringify(fields),
+    savedViews: JSON.stringify(views),
+  };
+}
+
+/**
+ * The project's epics as starter epics for a template
+ */
+export async function captureProjectEpics(databases: Databases, projectId: string): Promise<TemplateEpic[]> {
+  const epics = await databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+    Query.equal("projectId", projectId),
+    Query.equal("type", WorkItemType.EPIC),
+    Query.orderAsc("position"),
+    Query.limit(50),
+  ]);
+
+  return epics.documents.map((epic) => ({ title: epic.title, description: epic.description ?? null }));
+}
+
+/**
+ * Project document attributes taken from the template when creating a project
+ */
+export function getProjectTemplateAttributes(template: PopulatedProjectTemplate): Record<string, string> {
+  return {
+    ...(template.workflowId && { workflowId: template.workflowId }),
+    customWorkItemTypes: JSON.stringify(template.customWorkItemTypes),
+    customPriorities: JSON.stringify(template.customPriorities),
+    customLabels: JSON.stringify(template.customLabels),
+  };
+}
+
+export interface ApplyProjectTemplateResult {
+  customFieldsCreated: number;
+  savedViewsCreated: number;
+  epicsCreated: number;
+  errors: number;
+}
+
+/**
+ * Add the template's custom fields, saved views and starter epics to a newly
+ * created project. Never throws: the project exists either way, so failures
+ * are logged and counted.
+ */
+export async function applyProjectTemplate(
+  databases: Databases,
+  template: PopulatedProjectTemplate,
+  project: Project,
+  userId: string
+): Promise<ApplyProjectTemplateResult> {
+  const result: ApplyProjectTemplateResult = { customFieldsCreated: 0, savedViewsCreated: 0, epicsCreated: 0, errors: 0 };
+
+  const attempt = async (label: string, create: () => Promise<unknown>): Promise<boolean> => {
+    try {
+      await create();
+      return true;
+    } catch (error) {
+      result.errors++;
+      console.error(`[ProjectTemplates] Failed to create ${label} for project ${project.$id}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  };
+
+  for (const field of template.customFields) {
+    const created = await attempt(`custom field "${field.key}"`, () =>
+      databases.createDocument(DATABASE_ID, CUSTOM_FIELDS_ID, ID.unique(), {
+        ...field,
+        workspaceId: project.workspaceId,
+        projectId: project.$id,
+        spaceId: null,
+        scope: CustomFieldScope.PROJECT,
+        options: toJson(field.options),
+        appliesToTypes: toJson(field.appliesToTypes),
+        archived: false,
+      })
+    );
+    if (created) result.customFieldsCreated++;
+  }
+
+  for (const [index, view] of template.savedViews.entries()) {
+    const created = await attempt(`saved view "${view.name}"`, () =>
+      databases.createDocument(DATABASE_ID, SAVED_VIEWS_ID, ID.unique(), {
+        name: view.name,
+        description: view.description ?? null,
+        type: view.type,
+        scope: SavedViewScope.PROJECT,
+        workspaceId: project.workspaceId,
+        projectId: project.$id,
+        spaceId: null,
+        userId,
+        jql: view.jql ?? null,
+        filters: toJson(view.filters),
+        columns: toJson(view.columns),
+        sort: toJson(view.sort),
+        kanbanConfig: toJson(view.kanbanConfig),
+        calendarConfig: toJson(view.calendarConfig),
+        timelineConfig: toJson(view.timelineConfig),
+        quickFilters: toJson(view.quickFilters),
+        isDefault: view.isDefault ?? false,
+        isPinned: view.isPinned ?? false,
+        icon: view.icon ?? null,
+        color: view.color ?? null,
+        position: index,
+      })
+    );
+    if (created) result.savedViewsCreated++;
+  }
+
+  if (template.starterEpics.length > 0) {
+    const status = await getInitialStatusKey(databases, project.workflowId, WorkItemStatus.TODO);
+
+    for (const [index, epic] of template.starterEpics.entries()) {
+      const created = await attempt(`epic "${epic.title}"`, async () => {
+        const workItem = await databases.createDocument<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, ID.unique(), {
+          key: await generateWorkItemKey(databases, project.$id),
+          title: epic.title,
+          description: epic.description ?? null,
+          type: WorkItemType.EPIC,
+          status,
+          priority: WorkItemPriority.MEDIUM,
+          workspaceId: project.workspaceId,
+          projectId: project.$id,
+          sprintId: null,
+          assigneeIds: [],
+          flagged: false,
+          position: (index + 1) * 1000,
+          watcherIds: [userId],
+        });
+        syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+      });
+      if (created) result.epicsCreated++;
+    }
+  }
+
+  return result;
+}
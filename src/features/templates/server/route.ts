@@ -0,0 +1,366 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { ID, Query } from "node-appwrite";
+
+import { DATABASE_ID, PROJECT_TEMPLATES_ID, PROJECTS_ID, WORK_ITEM_TEMPLATES_ID } from "@/config";
+import { sessionMiddleware } from "@/lib/session-middleware";
+import { getMember } from "@/features/members/utils";
+import { Project } from "@/features/projects/types";
+
+import {
+  createProjectTemplateSchema,
+  createWorkItemTemplateSchema,
+  getProjectTemplatesSchema,
+  getWorkItemTemplatesSchema,
+  updateProjectTemplateSchema,
+  updateWorkItemTemplateSchema,
+} from "../schemas";
+import {
+  ProjectTemplate,
+  WorkItemTemplate,
+  populateProjectTemplate,
+  populateWorkItemTemplate,
+} from "../types";
+import { captureProjectEpics, captureProjectSetup } from "./project-templates";
+import { canManageTemplates } from "./utils";
+
+const app = new Hono()
+  // Work item templates offered in the workspace, or in one project
+  .get(
+    "/work-items",
+    sessionMiddleware,
+    zValidator("query", getWorkItemTemplatesSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const queries = [Query.equal("workspaceId", workspaceId), Query.orderAsc("name"), Query.limit(200)];
+      if (projectId) {
+        queries.push(Query.or([Query.equal("projectId", projectId), Query.isNull("projectId")]));
+      }
+
+      const templates = await databases.listDocuments<WorkItemTemplate>(
+        DATABASE_ID,
+        WORK_ITEM_TEMPLATES_ID,
+        queries
+      );
+
+      return c.json({
+        data: {
+          documents: templates.documents.map(populateWorkItemTemplate),
+          total: templates.total,
+        },
+      });
+    }
+  )
+
+  .post(
+    "/work-items",
+    sessionMiddleware,
+    zValidator("json", createWorkItemTemplateSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, customFields, ...rest } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!canManageTemplates(member)) {
+        return c.json({ error: "Forbidden: Only workspace admins can manage templates" }, 403);
+      }
+
+      if (projectId) {
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+        if (project.workspaceId !== workspaceId) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+      }
+
+      const template = await databases.createDocument<WorkItemTemplate>(
+        DATABASE_ID,
+        WORK_ITEM_TEMPLATES_ID,
+        ID.unique(),
+        {
+          ...rest,
+          workspaceId,
+          projectId: projectId ?? null,
+          labels: rest.labels ?? [],
+          customFields: customFields?.length ? JSON.stringify(customFields) : null,
+          subtaskTitles: rest.subtaskTitles ?? [],
+          checklist: rest.checklist ?? [],
+          createdBy: user.$id,
+        }
+      );
+
+      return c.json({ data: populateWorkItemTemplate(template) });
+    }
+  )
+
+  .patch(
+    "/work-items/:templateId",
+    sessionMiddleware,
+    zValidator("json", updateWorkItemTemplateSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { templateId } = c.req.param();
+      const { customFields, ...rest } = c.req.valid("json");
+
+      const existing = await databases.getDocument<WorkItemTemplate>(DATABASE_ID, WORK_ITEM_TEMPLATES_ID, templateId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!canManageTemplates(member)) {
+        return c.json({ error: "Forbidden: Only workspace admins can manage templates" }, 403);
+      }
+
+      if (rest.projectId) {
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, rest.projectId);
+        if (project.workspaceId !== existing.workspaceId) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+      }
+
+      const updates: Record<string, unknown> = { ...rest };
+      if (customFields !== undefined) {
+        updates.customFields = customFields.length ? JSON.stringify(customFields) : null;
+      }
+
+      const template = await databases.updateDocument<WorkItemTemplate>(
+        DATABASE_ID,
+        WORK_ITEM_TEMPLATES_ID,
+        templateId,
+        updates
+      );
+
+      return c.json({ data: populateWorkItemTemplate(template) });
+    }
+  )
+
+  .delete(
+    "/work-items/:templateId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { templateId } = c.req.param();
+
+      const existing = await databases.getDocument<WorkItemTemplate>(DATABASE_ID, WORK_ITEM_TEMPLATES_ID, templateId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!canManageTemplates(member)) {
+        return c.json({ error: "Forbidden: Only workspace admins can manage templates" }, 403);
+      }
+
+      await databases.deleteDocument(DATABASE_ID, WORK_ITEM_TEMPLATES_ID, templateId);
+
+      return c.json({ data: { $id: templateId } });
+    }
+  )
+
+  .get(
+    "/projects",
+    sessionMiddleware,
+    zValidator("query", getProjectTemplatesSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const templates = await databases.listDocuments<ProjectTemplate>(
+        DATABASE_ID,
+        PROJECT_TEMPLATES_ID,
+        [Query.equal("workspaceId", workspaceId), Query.orderAsc("name"), Query.limit(100)]
+      );
+
+      return c.json({
+        data: {
+          documents: templates.documents.map(populateProjectTemplate),
+          total: templates.total,
+        },
+      });
+    }
+  )
+
+  // Capture a project's setup as a new template
+  .post(
+    "/projects",
+    sessionMiddleware,
+    zValidator("json", createProjectTemplateSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, sourceProjectId, name, description, includeEpics, starterEpics } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!canManageTemplates(member)) {
+        return c.json({ error: "Forbidden: Only workspace admins can manage templates" }, 403);
+      }
+
+      const sourceProject = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, sourceProjectId);
+      if (sourceProject.workspaceId !== workspaceId) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+
+      const epics = includeEpics
+        ? await captureProjectEpics(databases, sourceProjectId)
+        : starterEpics ?? [];
+
+      const template = await databases.createDocument<ProjectTemplate>(
+        DATABASE_ID,
+        PROJECT_TEMPLATES_ID,
+        ID.unique(),
+        {
+          ...(await captureProjectSetup(databases, sourceProject)),
+          workspaceId,
+          name,
+          description: description ?? null,
+          starterEpics: JSON.stringify(epics),
+          createdBy: user.$id,
+        }
+      );
+
+      return c.json({ data: populateProjectTemplate(template) });
+    }
+  )
+
+  .patch(
+    "/projects/:templateId",
+    sessionMiddleware,
+    zValidator("json", updateProjectTemplateSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { templateId } = c.req.param();
+      const { starterEpics, refresh, ...rest } = c.req.valid("json");
+
+      const existing = await databases.getDocument<ProjectTemplate>(DATABASE_ID, PROJECT_TEMPLATES_ID, templateId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!canManageTemplates(member)) {
+        return c.json({ error: "Forbidden: Only workspace admins can manage templates" }, 403);
+      }
+
+      const updates: Record<string, unknown> = { ...rest };
+      if (starterEpics !== undefined) {
+        updates.starterEpics = JSON.stringify(starterEpics);
+      }
+
+      if (refresh) {
+        if (!existing.sourceProjectId) {
+          return c.json({ error: "This template has no source project to refresh from" }, 400);
+        }
+        try {
+          const sourceProject = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, existing.sourceProjectId);
+          Object.assign(updates, await captureProjectSetup(databases, sourceProject));
+        } catch {
+          return c.json({ error: "The source project no longer exists" }, 404);
+        }
+      }
+
+      const template = await databases.updateDocument<ProjectTemplate>(
+        DATABASE_ID,
+        PROJECT_TEMPLATES_ID,
+        templateId,
+        updates
+      );
+
+      return c.json({ data: populateProjectTemplate(template) });
+    }
+  )
+
+  .delete(
+    "/projects/:templateId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { templateId } = c.req.param();
+
+      const existing = await databases.getDocument<ProjectTemplate>(DATABASE_ID, PROJECT_TEMPLATES_ID, templateId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: existing.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!canManageTemplates(member)) {
+        return c.json({ error: "Forbidden: Only workspace admins can manage templates" }, 403);
+      }
+
+      await databases.deleteDocument(DATABASE_ID, PROJECT_TEMPLATES_ID, templateId);
+
+      return c.json({ data: { $id: templateId } });
+    }
+  );
+
+export default app;
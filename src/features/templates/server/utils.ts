@@ -0,0 +1,17 @@
+import "server-only";
+
+import { Models } from "node-appwrite";
+
+import { MemberRole, WorkspaceMemberRole } from "@/features/members/types";
+
+/**
+ * Templates are shared by the whole workspace, so only workspace admins
+ * create, edit or delete them. Every member can use them.
+ */
+export function canManageTemplates(member: Models.Document): boolean {
+  return (
+    member.role === MemberRole.ADMIN ||
+    member.role === MemberRole.OWNER ||
+    member.role === WorkspaceMemberRole.WS_ADMIN
+  );
+}
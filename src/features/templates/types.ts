@@ -0,0 +1,132 @@
+import { Models } from "node-appwrite";
+
+import { CustomField } from "@/features/custom-fields/types";
+import { Project } from "@/features/projects/types";
+import { SavedView } from "@/features/saved-views/types";
+import { CustomFieldValue, WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+
+// A named preset picked in the create work item modal. Without a projectId
+// it is offered in every project of the workspace.
+// `customFields` is stored as a JSON string.
+export type WorkItemTemplate = Models.Document & {
+  workspaceId: string;
+  projectId?: string | null;
+  name: string;
+  summary?: string | null;          // What the template is for
+  title?: string | null;            // Prefilled title
+  description?: string | null;      // Description skeleton (HTML)
+  type?: WorkItemType | string | null;
+  priority?: WorkItemPriority | string | null;
+  storyPoints?: number | null;
+  estimatedHours?: number | null;
+  labels?: string[] | null;
+  customFields?: CustomFieldValue[] | string | null;
+  subtaskTitles?: string[] | null;
+  checklist?: string[] | null;      // Appended to the description as a checklist
+  createdBy: string;
+};
+
+export type PopulatedWorkItemTemplate = WorkItemTemplate & {
+  customFields: CustomFieldValue[];
+};
+
+// Custom field definition as captured from the source project
+export type TemplateCustomField = Pick<
+  CustomField,
+  | "name"
+  | "key"
+  | "description"
+  | "type"
+  | "isRequired"
+  | "defaultValue"
+  | "placeholder"
+  | "minValue"
+  | "maxValue"
+  | "precision"
+  | "currencySymbol"
+  | "currencyCode"
+  | "showInList"
+  | "showInCard"
+  | "position"
+> & {
+  options?: CustomField["options"] | string;
+  appliesToTypes?: string[] | string | null;
+};
+
+// Project-scoped saved view as captured from the source project. View
+// configuration keeps whatever shape it was stored in (JSON string or object).
+export type TemplateSavedView = Pick<SavedView, "name" | "description" | "type" | "isDefault" | "isPinned" | "icon" | "color"> & {
+  jql?: string | null;
+  filters?: unknown;
+  columns?: unknown;
+  sort?: unknown;
+  kanbanConfig?: unknown;
+  calendarConfig?: unknown;
+  timelineConfig?: unknown;
+  quickFilters?: unknown;
+};
+
+export type TemplateEpic = {
+  title: string;
+  description?: string | null;
+};
+
+// A reusable project setup. New projects created from it get the workflow,
+// work types, priorities, labels, custom fields, saved views and starter epics.
+// Everything except workflowId is stored as a JSON string.
+export type ProjectTemplate = Models.Document & {
+  workspaceId: string;
+  name: string;
+  description?: string | null;
+  sourceProjectId?: string | null;
+  workflowId?: string | null;
+  customWorkItemTypes?: Project["customWorkItemTypes"] | string | null;
+  customPriorities?: Project["customPriorities"] | string | null;
+  customLabels?: Project["customLabels"] | string | null;
+  customFields?: TemplateCustomField[] | string | null;
+  savedViews?: TemplateSavedView[] | string | null;
+  starterEpics?: TemplateEpic[] | string | null;
+  createdBy: string;
+};
+
+export type PopulatedProjectTemplate = Omit<
+  ProjectTemplate,
+  "customWorkItemTypes" | "customPriorities" | "customLabels" | "customFields" | "savedViews" | "starterEpics"
+> & {
+  customWorkItemTypes: NonNullable<Project["customWorkItemTypes"]>;
+  customPriorities: NonNullable<Project["customPriorities"]>;
+  customLabels: NonNullable<Project["customLabels"]>;
+  customFields: TemplateCustomField[];
+  savedViews: TemplateSavedView[];
+  starterEpics: TemplateEpic[];
+};
+
+export function parseTemplateList<T>(raw: T[] | string | null | undefined): T[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function populateWorkItemTemplate(template: WorkItemTemplate): PopulatedWorkItemTemplate {
+  return {
+    ...template,
+    customFields: parseTemplateList(template.customFields),
+  };
+}
+
+export function populateProjectTemplate(template: ProjectTemplate): PopulatedProjectTemplate {
+  return {
+    ...template,
+    customWorkItemTypes: parseTemplateList(template.customWorkItemTypes),
+    customPriorities: parseTemplateList(template.customPriorities),
+    customLabels: parseTemplateList(template.customLabels),
+    customFields: parseTemplateList(template.customFields),
+    savedViews: parseTemplateList(template.savedViews),
+    starterEpics: parseTemplateList(template.starterEpics),
+  };
+}
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api.timesheets)[":timesheetId"]["approve"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api.timesheets)[":timesheetId"]["approve"]["$post"]>;
+
+export const useApproveTimesheet = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api.timesheets[":timesheetId"].approve.$post({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to approve the timesheet.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Timesheet approved.");
+      queryClient.invalidateQueries({ queryKey: ["timesheet"] });
+      queryClient.invalidateQueries({ queryKey: ["timesheet-approvals"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to approve the timesheet.");
+    },
+  });
+
+  return mutation;
+};
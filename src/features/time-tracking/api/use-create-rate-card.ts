@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["rate-cards"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["rate-cards"]["$post"]>;
+
+export const useCreateRateCard = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api["rate-cards"].$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to add the rate.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Rate added.");
+      queryClient.invalidateQueries({ queryKey: ["rate-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-report"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add the rate.");
+    },
+  });
+
+  return mutation;
+};
@@ -15,7 +15,8 @@ export const useCreateTimeLog = () => {
       const response = await client.api.timeLogs.$post({ json });
 
       if (!response.ok) {
-        throw new Error("Failed to create time log.");
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to create time log.");
       }
 
       return await response.json();
@@ -25,9 +26,10 @@ export const useCreateTimeLog = () => {
       queryClient.invalidateQueries({ queryKey: ["time-logs"] });
       queryClient.invalidateQueries({ queryKey: ["timesheet"] });
       queryClient.invalidateQueries({ queryKey: ["estimates-vs-actuals"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-report"] });
     },
-    onError: () => {
-      toast.error("Failed to create time log.");
+    onError: (error) => {
+      toast.error(error.message || "Failed to create time log.");
     },
   });
 
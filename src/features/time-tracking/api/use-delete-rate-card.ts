@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["rate-cards"][":rateCardId"]["$delete"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["rate-cards"][":rateCardId"]["$delete"]>;
+
+export const useDeleteRateCard = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api["rate-cards"][":rateCardId"].$delete({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to remove the rate.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Rate removed.");
+      queryClient.invalidateQueries({ queryKey: ["rate-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-report"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove the rate.");
+    },
+  });
+
+  return mutation;
+};
@@ -20,7 +20,8 @@ export const useDeleteTimeLog = () => {
       const response = await client.api.timeLogs[":timeLogId"].$delete({ param });
 
       if (!response.ok) {
-        throw new Error("Failed to delete time log.");
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to delete time log.");
       }
 
       return await response.json();
@@ -30,10 +31,11 @@ export const useDeleteTimeLog = () => {
       queryClient.invalidateQueries({ queryKey: ["time-logs"] });
       queryClient.invalidateQueries({ queryKey: ["timesheet"] });
       queryClient.invalidateQueries({ queryKey: ["estimates-vs-actuals"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-report"] });
       queryClient.invalidateQueries({ queryKey: ["time-log", data.$id] });
     },
-    onError: () => {
-      toast.error("Failed to delete time log.");
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete time log.");
     },
   });
 
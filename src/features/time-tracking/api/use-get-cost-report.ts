@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetCostReportProps {
+  workspaceId: string;
+  startDate: string;
+  endDate: string;
+  projectId?: string;
+  currency?: string;
+  enabled?: boolean;
+}
+
+export const useGetCostReport = ({
+  workspaceId,
+  startDate,
+  endDate,
+  projectId,
+  currency,
+  enabled = true,
+}: UseGetCostReportProps) => {
+  const query = useQuery({
+    queryKey: ["cost-report", workspaceId, startDate, endDate, projectId, currency],
+    queryFn: async () => {
+      const response = await client.api.timeLogs["cost-report"].$get({
+        query: {
+          workspaceId,
+          startDate,
+          endDate,
+          ...(projectId && { projectId }),
+          ...(currency && { currency }),
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to fetch the cost report.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+    enabled: enabled && !!workspaceId,
+  });
+
+  return query;
+};
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+export const useGetCurrentTimer = () => {
+  const query = useQuery({
+    queryKey: ["current-timer"],
+    // Picks up timers started or stopped in another tab or through MCP
+    refetchInterval: 60_000,
+    queryFn: async () => {
+      const response = await client.api.timers.current.$get();
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch the running timer.");
+      }
+
+      const { data } = await response.json();
+
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+interface UseGetRateCardsProps {
+  workspaceId: string;
+  projectId?: string;
+  enabled?: boolean;
+}
+
+export const useGetRateCards = ({ workspaceId, projectId, enabled = true }: UseGetRateCardsProps) => {
+  const query = useQuery({
+    queryKey: ["rate-cards", workspaceId, projectId],
+    queryFn: async () => {
+      const response = await client.api["rate-cards"].$get({
+        query: {
+          workspaceId,
+          ...(projectId && { projectId }),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch rates.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+    enabled: enabled && !!workspaceId,
+  });
+
+  return query;
+};
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+import { TimesheetStatus } from "../types";
+
+interface UseGetTimesheetApprovalsProps {
+  workspaceId: string;
+  status?: Exclude<TimesheetStatus, TimesheetStatus.DRAFT>;
+}
+
+export const useGetTimesheetApprovals = ({ workspaceId, status }: UseGetTimesheetApprovalsProps) => {
+  const query = useQuery({
+    queryKey: ["timesheet-approvals", workspaceId, status],
+    queryFn: async () => {
+      const response = await client.api.timesheets.approvals.$get({
+        query: {
+          workspaceId,
+          ...(status && { status }),
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch timesheet approvals.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+    enabled: !!workspaceId,
+  });
+
+  return query;
+};
@@ -0,0 +1,32 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+import { PopulatedTimer } from "../types";
+
+// Marks the running timer as in use; failures are silent and retried next beat
+export const useSendTimerHeartbeat = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const response = await client.api.timers.heartbeat.$post();
+
+      if (!response.ok) {
+        throw new Error("Failed to update the timer.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      queryClient.setQueryData<PopulatedTimer | null>(["current-timer"], (timer) =>
+        timer && timer.$id === data.$id ? { ...timer, lastActiveAt: data.lastActiveAt } : timer
+      );
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["current-timer"] });
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,44 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api.timers)["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api.timers)["$post"]>;
+
+export const useStartTimer = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api.timers.$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to start the timer.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success(
+        data.stopped
+          ? `Timer started. The previous timer logged ${data.stopped.loggedHours}h.`
+          : "Timer started."
+      );
+      queryClient.setQueryData(["current-timer"], data.timer);
+      if (data.stopped) {
+        queryClient.invalidateQueries({ queryKey: ["time-logs"] });
+        queryClient.invalidateQueries({ queryKey: ["timesheet"] });
+        queryClient.invalidateQueries({ queryKey: ["estimates-vs-actuals"] });
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to start the timer.");
+      queryClient.invalidateQueries({ queryKey: ["current-timer"] });
+    },
+  });
+
+  return mutation;
+};
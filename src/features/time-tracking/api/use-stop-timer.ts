@@ -0,0 +1,42 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api.timers.stop)["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api.timers.stop)["$post"]>;
+
+export const useStopTimer = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api.timers.stop.$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to stop the timer.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success(
+        data.timeLog
+          ? `Logged ${data.timeLog.loggedHours}h.`
+          : "Timer stopped. It ran too briefly to log."
+      );
+      queryClient.setQueryData(["current-timer"], null);
+      queryClient.invalidateQueries({ queryKey: ["time-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["timesheet"] });
+      queryClient.invalidateQueries({ queryKey: ["estimates-vs-actuals"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to stop the timer.");
+      queryClient.invalidateQueries({ queryKey: ["current-timer"] });
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["rate-cards"][":rateCardId"]["$patch"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["rate-cards"][":rateCardId"]["$patch"]>;
+
+export const useUpdateRateCard = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param, json }) => {
+      const response = await client.api["rate-cards"][":rateCardId"].$patch({ param, json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to update the rate.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Rate updated.");
+      queryClient.invalidateQueries({ queryKey: ["rate-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-report"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update the rate.");
+    },
+  });
+
+  return mutation;
+};
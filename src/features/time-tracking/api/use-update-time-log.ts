@@ -23,7 +23,8 @@ export const useUpdateTimeLog = () => {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to update time log.");
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to update time log.");
       }
 
       return await response.json();
@@ -33,10 +34,11 @@ export const useUpdateTimeLog = () => {
       queryClient.invalidateQueries({ queryKey: ["time-logs"] });
       queryClient.invalidateQueries({ queryKey: ["timesheet"] });
       queryClient.invalidateQueries({ queryKey: ["estimates-vs-actuals"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-report"] });
       queryClient.invalidateQueries({ queryKey: ["time-log", data.$id] });
     },
-    onError: () => {
-      toast.error("Failed to update time log.");
+    onError: (error) => {
+      toast.error(error.message || "Failed to update time log.");
     },
   });
 
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { ProjectMemberRole } from "@/features/project-teams/types";
+
+import { CostLine, costReportToCsv, resolveRateCard, summarizeCostLines } from "./billing";
+
+describe("resolveRateCard", () => {
+  const cards = [
+    { $id: "workspace", projectId: null, userId: null, role: null },
+    { $id: "project", projectId: "p1", userId: null, role: null },
+    { $id: "role", projectId: null, userId: null, role: ProjectMemberRole.PROJECT_ADMIN },
+    { $id: "member", projectId: null, userId: "u1", role: null },
+    { $id: "member-in-project", projectId: "p1", userId: "u1", role: null },
+    { $id: "other-project", projectId: "p2", userId: "u2", role: null },
+  ];
+
+  it("picks the most specific matching card", () => {
+    expect(resolveRateCard(cards, { projectId: "p1", userId: "u1" })?.$id).toBe("member-in-project");
+    expect(resolveRateCard(cards, { projectId: "p3", userId: "u1" })?.$id).toBe("member");
+    expect(resolveRateCard(cards, { projectId: "p1", userId: "u3", role: ProjectMemberRole.PROJECT_ADMIN })?.$id).toBe("role");
+    expect(resolveRateCard(cards, { projectId: "p1", userId: "u3", role: ProjectMemberRole.MEMBER })?.$id).toBe("project");
+    expect(resolveRateCard(cards, { projectId: "p3", userId: "u3" })?.$id).toBe("workspace");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(resolveRateCard(cards.slice(5), { projectId: "p1", userId: "u2" })).toBeNull();
+  });
+});
+
+describe("summarizeCostLines", () => {
+  const lines: CostLine[] = [
+    { projectId: "p1", epicId: "e1", userId: "u1", hours: 2, billable: true, amount: 200 },
+    { projectId: "p1", epicId: null, userId: "u1", hours: 1.5, billable: false, amount: 0 },
+    { projectId: "p1", epicId: "e1", userId: "u2", hours: 1, billable: true, amount: null },
+    { projectId: "p2", epicId: null, userId: "u2", hours: 0.333, billable: true, amount: 33.3 },
+  ];
+
+  it("totals hours and amounts per project, epic and member", () => {
+    const summary = summarizeCostLines(lines);
+
+    expect(summary.totals).toEqual({ hours: 4.83, billableHours: 3.33, amount: 233.3, unratedHours: 1 });
+    expect(summary.byProject.p1).toEqual({ hours: 4.5, billableHours: 3, amount: 200, unratedHours: 1 });
+    expect(summary.byEpic["p1:e1"]).toEqual({ hours: 3, billableHours: 3, amount: 200, unratedHours: 1 });
+    expect(summary.byEpic["p1:"]).toEqual({ hours: 1.5, billableHours: 0, amount: 0, unratedHours: 0 });
+    expect(summary.byMember.u2).toEqual({ hours: 1.33, billableHours: 1.33, amount: 33.3, unratedHours: 1 });
+  });
+});
+
+describe("costReportToCsv", () => {
+  it("writes one row per group and a total, quoting names", () => {
+    const row = { hours: 2, billableHours: 2, amount: 200, unratedHours: 0 };
+    const csv = costReportToCsv({
+      currency: "EUR",
+      startDate: "2026-03-01",
+      endDate: "2026-03-31",
+      totals: row,
+      projects: [{ id: "p1", name: "Web, App", ...row, projectCurrency: "EUR", projectAmount: 200 }],
+      epics: [],
+      members: [{ id: "u1", name: "Ana", ...row }],
+    });
+
+    expect(csv.split("\n")).toEqual([
+      "Group,Name,Hours,Billable Hours,Unrated Hours,Amount (EUR)",
+      'Project,"Web, App",2,2,0,200.00',
+      "Member,Ana,2,2,0,200.00",
+      "Total,2026-03-01 to 2026-03-31,2,2,0,200.00",
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { ProjectMemberRole } from "@/features/project-teams/types";
+
+import { CostReport, CostReportRow, RateCard, TimeLog } from "./types";
+
+/**
+ * Billing
+ *
+ * Rate cards price billable time. A card applies to everyone, one project
+ * role or one member, either across the workspace or in one project; the
+ * most specific card that matches a time log sets its rate. Only time
+ * logs marked billable are priced.
+ */
+
+export const RATE_CARD_ROLE_LABELS: Record<ProjectMemberRole, string> = {
+  [ProjectMemberRole.PROJECT_OWNER]: "Project owner",
+  [ProjectMemberRole.PROJECT_ADMIN]: "Project admin",
+  [ProjectMemberRole.MEMBER]: "Member",
+  [ProjectMemberRole.VIEWER]: "Viewer",
+};
+
+type RateCardScope = Pick<RateCard, "projectId" | "userId" | "role">;
+
+/**
+ * Member beats role beats everyone; at the same level a project's own
+ * card beats the workspace-wide one
+ */
+export function rateCardSpecificity(card: RateCardScope): number {
+  const level = card.userId ? 2 : card.role ? 1 : 0;
+  return level * 2 + (card.projectId ? 1 : 0);
+}
+
+export function describeRateCardScope(
+  card: RateCardScope,
+  names: { userName?: string | null; projectName?: string | null } = {}
+): string {
+  const who = card.userId
+    ? names.userName || "Former member"
+    : card.role
+      ? RATE_CARD_ROLE_LABELS[card.role]
+      : "Everyone";
+  const where = card.projectId ? names.projectName || "Project" : "All projects";
+  return `${who} · ${where}`;
+}
+
+/**
+ * The card that prices a member's time in a project, or null when none matches
+ */
+export function resolveRateCard<T extends RateCardScope>(
+  cards: T[],
+  { projectId, userId, role }: { projectId: string; userId: string; role?: ProjectMemberRole | null }
+): T | null {
+  let best: T | null = null;
+
+  for (const card of cards) {
+    if (card.projectId && card.projectId !== projectId) continue;
+    if (card.userId && card.userId !== userId) continue;
+    if (card.role && card.role !== role) continue;
+
+    if (!best || rateCardSpecificity(card) > rateCardSpecificity(best)) {
+      best = card;
+    }
+  }
+
+  return best;
+}
+
+export function isBillableLog(log: Pick<TimeLog, "isBillable">): boolean {
+  return log.isBillable === true;
+}
+
+// One time log, priced in the report currency
+export type CostLine = {
+  projectId: string;
+  epicId: string | null;
+  userId: string;
+  hours: number;
+  billable: boolean;
+  // null when the log is billable but no rate card covers it
+  amount: number | null;
+};
+
+export type CostTotals = Omit<CostReportRow, "id" | "name">;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function emptyTotals(): CostTotals {
+  return { hours: 0, billableHours: 0, amount: 0, unratedHours: 0 };
+}
+
+function addLine(totals: CostTotals, line: CostLine) {
+  totals.hours += line.hours;
+  if (!line.billable) return;
+
+  totals.billableHours += line.hours;
+  if (line.amount === null) {
+    totals.unratedHours += line.hours;
+  } else {
+    totals.amount += line.amount;
+  }
+}
+
+function roundTotals(totals: CostTotals): CostTotals {
+  return {
+    hours: round2(totals.hours),
+    billableHours: round2(totals.billableHours),
+    amount: round2(totals.amount),
+    unratedHours: round2(totals.unratedHours),
+  };
+}
+
+/**
+ * Totals overall and per project, epic and member. Epic keys are
+ * "<projectId>:<epicId>", with an empty epicId for time outside any epic.
+ */
+export function summarizeCostLines(lines: CostLine[]): {
+  totals: CostTotals;
+  byProject: Record<string, CostTotals>;
+  byEpic: Record<string, CostTotals>;
+  byMember: Record<string, CostTotals>;
+} {
+  const totals = emptyTotals();
+  const byProject: Record<string, CostTotals> = {};
+  const byEpic: Record<string, CostTotals> = {};
+  const byMember: Record<string, CostTotals> = {};
+
+  for (const line of lines) {
+    const epicKey = `${line.projectId}:${line.epicId ?? ""}`;
+    addLine(totals, line);
+    addLine((byProject[line.projectId] ??= emptyTotals()), line);
+    addLine((byEpic[epicKey] ??= emptyTotals()), line);
+    addLine((byMember[line.userId] ??= emptyTotals()), line);
+  }
+
+  const roundAll = (groups: Record<string, CostTotals>) =>
+    Object.fromEntries(Object.entries(groups).map(([key, value]) => [key, roundTotals(value)]));
+
+  return {
+    totals: roundTotals(totals),
+    byProject: roundAll(byProject),
+    byEpic: roundAll(byEpic),
+    byMember: roundAll(byMember),
+  };
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function costReportToCsv(report: CostReport): string {
+  const rows: (string | number)[][] = [
+    ["Group", "Name", "Hours", "Billable Hours", "Unrated Hours", `Amount (${report.currency})`],
+  ];
+
+  const push = (group: string, row: CostReportRow) =>
+    rows.push([group, row.name, row.hours, row.billableHours, row.unratedHours, row.amount.toFixed(2)]);
+
+  report.projects.forEach((row) => push("Project", row));
+  report.epics.forEach((row) => push("Epic", row));
+  report.members.forEach((row) => push("Member", row));
+  rows.push([
+    "Total",
+    `${report.startDate} to ${report.endDate}`,
+    report.totals.hours,
+    report.totals.billableHours,
+    report.totals.unratedHours,
+    report.totals.amount.toFixed(2),
+  ]);
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n");
+}
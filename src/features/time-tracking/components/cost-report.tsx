@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { AlertTriangle, Download, FileText } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+import { useGetCurrencyRates } from "@/features/currency/api/use-currency";
+import { Project } from "@/features/projects/types";
+
+import { useGetCostReport } from "../api/use-get-cost-report";
+import { exportCostReportCsv, exportCostReportPdf, formatMoney } from "../lib/export-cost-report";
+import { CostReport as CostReportData, CostReportRow } from "../types";
+
+interface CostReportProps {
+  workspaceId: string;
+  projects?: Project[];
+}
+
+const CostRowsTable = ({ rows, currency }: { rows: CostReportRow[]; currency: string }) => (
+  <div className="border rounded-lg overflow-hidden">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">Hours</TableHead>
+          <TableHead className="text-right">Billable</TableHead>
+          <TableHead className="text-right">Unrated</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={`${row.id}-${row.name}`}>
+            <TableCell className="font-medium">{row.name}</TableCell>
+            <TableCell className="text-right">{row.hours.toFixed(2)}h</TableCell>
+            <TableCell className="text-right">{row.billableHours.toFixed(2)}h</TableCell>
+            <TableCell className="text-right text-muted-foreground">
+              {row.unratedHours > 0 ? `${row.unratedHours.toFixed(2)}h` : "-"}
+            </TableCell>
+            <TableCell className="text-right">{formatMoney(row.amount, currency)}</TableCell>
+          </TableRow>
+        ))}
+        {rows.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+              No time logged in this range
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+/**
+ * Billable amounts per project, epic and member for a date range, priced
+ * with the rate cards. Limited to workspace admins, or project admins for
+ * their own project.
+ */
+export const CostReport = ({ workspaceId, projects }: CostReportProps) => {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(endOfMonth(new Date()), "yyyy-MM-dd"));
+  const [projectId, setProjectId] = useState("all");
+  const [currency, setCurrency] = useState("default");
+
+  const { data: currencyRates } = useGetCurrencyRates();
+  const { data, isLoading, error } = useGetCostReport({
+    workspaceId,
+    startDate,
+    endDate,
+    projectId: projectId === "all" ? undefined : projectId,
+    currency: currency === "default" ? undefined : currency,
+    enabled: !!startDate && !!endDate && startDate <= endDate,
+  });
+
+  const report = data as CostReportData | undefined;
+  const currencies = Object.keys(currencyRates?.rates ?? {});
+  const projectName = projects?.find((project) => project.$id === projectId)?.name;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span>Cost Report</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="h-9 w-40"
+            />
+            <Input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="h-9 w-40"
+            />
+            {projects && projects.length > 0 && (
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger className="h-9 w-44">
+                  <SelectValue placeholder="All Projects" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Projects</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.$id} value={project.$id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="h-9 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Project currency</SelectItem>
+                {currencies.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => report && exportCostReportCsv(report)}
+              disabled={!report}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => report && exportCostReportPdf(report, projectName ? `Cost Report: ${projectName}` : "Cost Report")}
+              disabled={!report}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-muted-foreground">{error.message}</div>
+        ) : !report ? (
+          <div className="text-center py-8 text-muted-foreground">Pick a valid date range.</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-sm font-medium text-muted-foreground">Billable Amount</div>
+                  <div className="text-2xl font-bold">{formatMoney(report.totals.amount, report.currency)}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-sm font-medium text-muted-foreground">Billable Hours</div>
+                  <div className="text-2xl font-bold">{report.totals.billableHours.toFixed(2)}h</div>
+                  <div className="text-xs text-muted-foreground">of {report.totals.hours.toFixed(2)}h logged</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-sm font-medium text-muted-foreground">Unrated Hours</div>
+                  <div className="text-2xl font-bold flex items-center gap-2">
+                    {report.totals.unratedHours > 0 && <AlertTriangle className="h-5 w-5 text-amber-500" />}
+                    {report.totals.unratedHours.toFixed(2)}h
+                  </div>
+                  <div className="text-xs text-muted-foreground">Billable time without a matching rate</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Tabs defaultValue="projects">
+              <TabsList className="bg-muted border border-border">
+                <TabsTrigger value="projects">Projects</TabsTrigger>
+                <TabsTrigger value="epics">Epics</TabsTrigger>
+                <TabsTrigger value="members">Members</TabsTrigger>
+              </TabsList>
+              <TabsContent value="projects" className="space-y-2">
+                <CostRowsTable rows={report.projects} currency={report.currency} />
+                <div className="flex flex-wrap gap-1">
+                  {report.projects
+                    .filter((project) => project.projectCurrency !== report.currency)
+                    .map((project) => (
+                      <Badge key={project.id} variant="outline" className="text-xs">
+                        {project.name}: {formatMoney(project.projectAmount, project.projectCurrency)}
+                      </Badge>
+                    ))}
+                </div>
+              </TabsContent>
+              <TabsContent value="epics">
+                <CostRowsTable rows={report.epics} currency={report.currency} />
+              </TabsContent>
+              <TabsContent value="members">
+                <CostRowsTable rows={report.members} currency={report.currency} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
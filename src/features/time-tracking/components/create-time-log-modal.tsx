@@ -21,6 +21,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { CalendarIcon } from "lucide-react";
@@ -55,6 +56,7 @@ export const CreateTimeLogModal = ({
       description: "",
       startTime: "",
       endTime: "",
+      isBillable: true,
     },
   });
 
@@ -202,6 +204,22 @@ export const CreateTimeLogModal = ({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="isBillable"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value ?? true}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">Billable</FormLabel>
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end space-x-2">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
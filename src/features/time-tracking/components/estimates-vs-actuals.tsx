@@ -74,6 +74,7 @@ export const EstimatesVsActuals = ({ workspaceId, projects }: EstimatesVsActuals
 
   const totalEstimated = estimates?.reduce((sum, item) => sum + item.estimatedHours, 0) || 0;
   const totalActual = estimates?.reduce((sum, item) => sum + item.actualHours, 0) || 0;
+  const totalBillable = estimates?.reduce((sum, item) => sum + item.billableHours, 0) || 0;
   const totalVariance = totalActual - totalEstimated;
   const totalVariancePercent = totalEstimated > 0 ? (totalVariance / totalEstimated) * 100 : 0;
 
@@ -120,6 +121,7 @@ export const EstimatesVsActuals = ({ workspaceId, projects }: EstimatesVsActuals
                 <CardContent className="p-4">
                   <div className="text-sm font-medium text-muted-foreground">Total Actual</div>
                   <div className="text-2xl font-bold">{totalActual.toFixed(1)}h</div>
+                  <div className="text-xs text-muted-foreground">{totalBillable.toFixed(1)}h billable</div>
                 </CardContent>
               </Card>
               <Card>
@@ -151,6 +153,7 @@ export const EstimatesVsActuals = ({ workspaceId, projects }: EstimatesVsActuals
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Estimated</TableHead>
                     <TableHead className="text-right">Actual</TableHead>
+                    <TableHead className="text-right">Billable</TableHead>
                     <TableHead className="text-right">Variance</TableHead>
                     <TableHead className="text-right">% Variance</TableHead>
                     <TableHead>Accuracy</TableHead>
@@ -174,6 +177,9 @@ export const EstimatesVsActuals = ({ workspaceId, projects }: EstimatesVsActuals
                       <TableCell className="text-right">
                         {estimate.actualHours.toFixed(1)}h
                       </TableCell>
+                      <TableCell className="text-right">
+                        {estimate.billableHours.toFixed(1)}h
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-1">
                           {getVarianceIcon(estimate.variancePercent)}
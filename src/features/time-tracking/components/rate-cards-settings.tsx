@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { BadgeDollarSign, Check, Plus, TrashIcon } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useConfirm } from "@/hooks/use-confirm";
+
+import { useGetCurrencyRates } from "@/features/currency/api/use-currency";
+import { useGetMembers } from "@/features/members/api/use-get-members";
+import { ProjectMemberRole } from "@/features/project-teams/types";
+
+import { useCreateRateCard } from "../api/use-create-rate-card";
+import { useDeleteRateCard } from "../api/use-delete-rate-card";
+import { useGetRateCards } from "../api/use-get-rate-cards";
+import { useUpdateRateCard } from "../api/use-update-rate-card";
+import { RATE_CARD_ROLE_LABELS, describeRateCardScope, rateCardSpecificity } from "../billing";
+import { PopulatedRateCard } from "../types";
+
+type ScopeKind = "everyone" | "role" | "member";
+
+interface RateCardsSettingsProps {
+  workspaceId: string;
+  // Cards for this project; without it, the workspace-wide cards
+  projectId?: string;
+  defaultCurrency?: string;
+}
+
+const RateCardRow = ({ card, editable }: { card: PopulatedRateCard; editable: boolean }) => {
+  const [rate, setRate] = useState(String(card.hourlyRate));
+  const { mutate: updateRateCard, isPending: isUpdating } = useUpdateRateCard();
+  const { mutate: deleteRateCard } = useDeleteRateCard();
+
+  const [DeleteDialog, confirmDelete] = useConfirm(
+    "Remove Rate",
+    "Time this rate priced falls back to the next matching rate.",
+    "destructive"
+  );
+
+  const changed = rate !== String(card.hourlyRate) && rate !== "" && Number(rate) >= 0;
+
+  const handleDelete = async () => {
+    const ok = await confirmDelete();
+    if (ok) {
+      deleteRateCard({ param: { rateCardId: card.$id } });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-3">
+      <DeleteDialog />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          {describeRateCardScope(card, card)}
+        </p>
+        {!editable && (
+          <p className="text-xs text-muted-foreground">Workspace rate</p>
+        )}
+      </div>
+      {editable ? (
+        <>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              className="h-8 w-28 text-right"
+            />
+            <span className="text-xs text-muted-foreground w-16">{card.currency}/h</span>
+          </div>
+          {changed && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              title="Save"
+              disabled={isUpdating}
+              onClick={() => updateRateCard({ param: { rateCardId: card.$id }, json: { hourlyRate: Number(rate) } })}
+            >
+              <Check className="size-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove" onClick={handleDelete}>
+            <TrashIcon className="size-4" />
+          </Button>
+        </>
+      ) : (
+        <Badge variant="outline">
+          {card.hourlyRate} {card.currency}/h
+        </Badge>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Rate cards for billable time. The most specific rate wins: a member's
+ * rate over a role's, a role's over everyone's, and a project's own rate
+ * over the workspace-wide one at the same level.
+ */
+export const RateCardsSettings = ({
+  workspaceId,
+  projectId,
+  defaultCurrency = "USD",
+}: RateCardsSettingsProps) => {
+  const [scope, setScope] = useState<ScopeKind>("everyone");
+  const [userId, setUserId] = useState("");
+  const [role, setRole] = useState<ProjectMemberRole>(ProjectMemberRole.MEMBER);
+  const [rate, setRate] = useState("");
+  const [currency, setCurrency] = useState(defaultCurrency);
+
+  const { data, isLoading } = useGetRateCards({ workspaceId, projectId });
+  const { data: members } = useGetMembers({ workspaceId, enabled: scope === "member" });
+  const { data: currencyRates } = useGetCurrencyRates();
+  const { mutate: createRateCard, isPending: isCreating } = useCreateRateCard();
+
+  const cards = ((data?.documents ?? []) as PopulatedRateCard[])
+    .slice()
+    .sort((a, b) => rateCardSpecificity(b) - rateCardSpecificity(a));
+  const currencies = Object.keys(currencyRates?.rates ?? { [defaultCurrency]: 1 });
+
+  const canAdd = rate !== "" && Number(rate) >= 0 && (scope !== "member" || !!userId);
+
+  const handleAdd = () => {
+    createRateCard(
+      {
+        json: {
+          workspaceId,
+          projectId: projectId ?? null,
+          userId: scope === "member" ? userId : null,
+          role: scope === "role" ? role : null,
+          hourlyRate: Number(rate),
+          currency,
+        },
+      },
+      { onSuccess: () => setRate("") }
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <div className="flex flex-wrap items-end gap-2 rounded-md border p-3">
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Applies to</span>
+          <Select value={scope} onValueChange={(value) => setScope(value as ScopeKind)}>
+            <SelectTrigger className="h-9 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="everyone">Everyone</SelectItem>
+              <SelectItem value="role">Role</SelectItem>
+              <SelectItem value="member">Member</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {scope === "role" && (
+          <Select value={role} onValueChange={(value) => setRole(value as ProjectMemberRole)}>
+            <SelectTrigger className="h-9 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(ProjectMemberRole).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {RATE_CARD_ROLE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {scope === "member" && (
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger className="h-9 w-48">
+              <SelectValue placeholder="Select member" />
+            </SelectTrigger>
+            <SelectContent>
+              {(members?.documents ?? []).map((member) => (
+                <SelectItem key={member.$id} value={member.userId}>
+                  {member.name || member.email || member.userId}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Hourly rate</span>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="0.00"
+            className="h-9 w-28"
+          />
+        </div>
+        <Select value={currency} onValueChange={setCurrency}>
+          <SelectTrigger className="h-9 w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {currencies.map((code) => (
+              <SelectItem key={code} value={code}>
+                {code}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={handleAdd} disabled={!canAdd || isCreating}>
+          <Plus className="size-4 mr-1" />
+          Add Rate
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col gap-y-2">
+          <Skeleton className="h-14 w-full" />
+          <Skeleton className="h-14 w-full" />
+        </div>
+      ) : cards.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-md border border-dashed py-10 text-center">
+          <BadgeDollarSign className="size-8 text-muted-foreground mb-2" />
+          <p className="text-sm font-medium">No rates yet</p>
+          <p className="text-xs text-muted-foreground">
+            Billable time without a matching rate shows as unrated in cost reports.
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-y-2">
+          {cards.map((card) => (
+            <RateCardRow
+              key={card.$id}
+              card={card}
+              editable={!projectId || card.projectId === projectId}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,7 +7,10 @@ import { Badge } from "@/components/ui/badge";
 
 import { useGetTimeLogs } from "../api/use-get-time-logs";
 import { useDeleteTimeLog } from "../api/use-delete-time-log";
+import { useUpdateTimeLog } from "../api/use-update-time-log";
+import { isBillableLog } from "../billing";
 import { CreateTimeLogModal } from "./create-time-log-modal";
+import { TaskTimerButton } from "./task-timer-button";
 import { format, parseISO } from "date-fns";
 
 interface TaskTimeLogsProps {
@@ -25,6 +28,7 @@ export const TaskTimeLogs = ({ taskId, taskName, workspaceId }: TaskTimeLogsProp
   });
 
   const { mutate: deleteTimeLog } = useDeleteTimeLog();
+  const { mutate: updateTimeLog, isPending: isUpdating } = useUpdateTimeLog();
 
   const handleDeleteTimeLog = (timeLogId: string) => {
     if (confirm("Are you sure you want to delete this time log?")) {
@@ -54,14 +58,17 @@ export const TaskTimeLogs = ({ taskId, taskName, workspaceId }: TaskTimeLogsProp
               Total: {totalHours.toFixed(2)} hours
             </Badge>
           </div>
-          <Button
-            size="sm"
-            onClick={() => setIsCreateModalOpen(true)}
-            className="bg-blue-600 hover:bg-blue-700"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Log Time
-          </Button>
+          <div className="flex items-center gap-2">
+            <TaskTimerButton taskId={taskId} />
+            <Button
+              size="sm"
+              onClick={() => setIsCreateModalOpen(true)}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Log Time
+            </Button>
+          </div>
         </div>
 
         {/* Time Logs List */}
@@ -94,6 +101,16 @@ export const TaskTimeLogs = ({ taskId, taskName, workspaceId }: TaskTimeLogsProp
                       <Badge variant="outline" className="text-xs">
                         {log.loggedHours}h
                       </Badge>
+                      <button
+                        type="button"
+                        disabled={isUpdating}
+                        title={isBillableLog(log) ? "Mark as non-billable" : "Mark as billable"}
+                        onClick={() => updateTimeLog({ param: { timeLogId: log.$id }, json: { isBillable: !isBillableLog(log) } })}
+                      >
+                        <Badge variant={isBillableLog(log) ? "secondary" : "outline"} className="text-xs">
+                          {isBillableLog(log) ? "Billable" : "Non-billable"}
+                        </Badge>
+                      </button>
                       {log.startTime && log.endTime && (
                         <span className="text-xs text-gray-500">
                           {log.startTime} - {log.endTime}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Play, Square } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+import { useGetCurrentTimer } from "../api/use-get-current-timer";
+import { useStartTimer } from "../api/use-start-timer";
+import { useStopTimer } from "../api/use-stop-timer";
+import { formatElapsed } from "../timer";
+import { PopulatedTimer } from "../types";
+
+interface TaskTimerButtonProps {
+  taskId: string;
+}
+
+export const TaskTimerButton = ({ taskId }: TaskTimerButtonProps) => {
+  const { data } = useGetCurrentTimer();
+  const timer = (data ?? null) as PopulatedTimer | null;
+
+  const { mutate: startTimer, isPending: isStarting } = useStartTimer();
+  const { mutate: stopTimer, isPending: isStopping } = useStopTimer();
+
+  const isRunningHere = timer?.taskId === taskId;
+
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!isRunningHere) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  if (isRunningHere && timer) {
+    const elapsed = (now - new Date(timer.startedAt).getTime()) / 1000;
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={isStopping}
+        onClick={() => stopTimer({ json: {} })}
+      >
+        <Square className="h-3.5 w-3.5 mr-2 fill-current text-red-500" />
+        Stop <span className="ml-1 font-mono tabular-nums">{formatElapsed(elapsed)}</span>
+      </Button>
+    );
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      disabled={isStarting}
+      title={timer ? "Stops the timer running on another work item" : undefined}
+      onClick={() => startTimer({ json: { taskId } })}
+    >
+      <Play className="h-3.5 w-3.5 mr-2" />
+      Start Timer
+    </Button>
+  );
+};
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { format, formatDistanceStrict } from "date-fns";
+import { Square } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+import { useGetCurrentTimer } from "../api/use-get-current-timer";
+import { useSendTimerHeartbeat } from "../api/use-send-timer-heartbeat";
+import { useStopTimer } from "../api/use-stop-timer";
+import { TIMER_HEARTBEAT_SECONDS, formatElapsed, getTimerIdleSince } from "../timer";
+import { PopulatedTimer } from "../types";
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "scroll"] as const;
+
+// Ticks every second while a timer is shown
+const useNow = (enabled: boolean) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  return now;
+};
+
+/**
+ * Running timer in the navbar: elapsed time, a link to the work item and a
+ * stop button. Sends heartbeats while the page is in use and asks what to
+ * do with idle time once the timer has gone stale.
+ */
+export const TimerIndicator = () => {
+  const { data } = useGetCurrentTimer();
+  const timer = (data ?? null) as PopulatedTimer | null;
+
+  const { mutate: stopTimer, isPending: isStopping } = useStopTimer();
+  const { mutate: sendHeartbeat } = useSendTimerHeartbeat();
+
+  const now = useNow(Boolean(timer));
+  const idleSince = timer ? getTimerIdleSince(timer, now) : null;
+
+  // Last user input on this page; heartbeats only go out after some
+  const lastInputRef = useRef(Date.now());
+
+  useEffect(() => {
+    const markActive = () => {
+      lastInputRef.current = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+  }, []);
+
+  const timerId = timer?.$id;
+  const isIdle = Boolean(idleSince);
+
+  useEffect(() => {
+    // A stale timer waits for the user's answer instead of a heartbeat
+    if (!timerId || isIdle) return;
+
+    const interval = setInterval(() => {
+      const recentInput = Date.now() - lastInputRef.current < TIMER_HEARTBEAT_SECONDS * 1000;
+      if (document.visibilityState === "visible" && recentInput) {
+        sendHeartbeat();
+      }
+    }, TIMER_HEARTBEAT_SECONDS * 1000);
+
+    return () => clearInterval(interval);
+  }, [timerId, isIdle, sendHeartbeat]);
+
+  if (!timer) return null;
+
+  const elapsed = (now.getTime() - new Date(timer.startedAt).getTime()) / 1000;
+  const label = timer.task?.key ?? timer.task?.title ?? "Work item";
+
+  return (
+    <>
+      <div className="flex items-center gap-1 rounded-md border border-border pl-2 pr-1 h-8">
+        <span className="size-2 rounded-full bg-red-500 animate-pulse shrink-0" />
+        <Link
+          href={`/workspaces/${timer.workspaceId}/tasks/${timer.taskId}`}
+          className="flex items-center gap-1.5 text-xs hover:underline"
+          title={timer.task?.title}
+        >
+          <span className="font-mono tabular-nums">{formatElapsed(elapsed)}</span>
+          <span className="hidden md:inline max-w-[120px] truncate text-muted-foreground">{label}</span>
+        </Link>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          title="Stop timer"
+          disabled={isStopping}
+          onClick={() => stopTimer({ json: {} })}
+        >
+          <Square className="size-3 fill-current" />
+        </Button>
+      </div>
+
+      <AlertDialog open={isIdle && !isStopping}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you still working on {label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {idleSince &&
+                `There has been no activity since ${format(idleSince, "p")} (${formatDistanceStrict(idleSince, now)} ago). `}
+              Keep that time on the timer, or stop the timer at your last activity.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button
+              variant="outline"
+              disabled={isStopping}
+              onClick={() => stopTimer({ json: { stopAt: idleSince?.toISOString() } })}
+            >
+              Stop at {idleSince ? format(idleSince, "p") : "last activity"}
+            </Button>
+            <Button onClick={() => sendHeartbeat()}>
+              Keep idle time
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
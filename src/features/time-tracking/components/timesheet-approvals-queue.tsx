@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { Check, ChevronDown, ChevronRight, ClipboardCheck, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+import { useApproveTimesheet } from "../api/use-approve-timesheet";
+import { useGetTimesheetApprovals } from "../api/use-get-timesheet-approvals";
+import { useRejectTimesheet } from "../api/use-reject-timesheet";
+import { PopulatedTimesheet, TimesheetStatus } from "../types";
+
+type QueueStatus = Exclude<TimesheetStatus, TimesheetStatus.DRAFT>;
+
+interface TimesheetApprovalsQueueProps {
+  workspaceId: string;
+}
+
+/**
+ * Submitted weeks across all projects the viewer approves, plus their
+ * past decisions. Rejecting requires a reason for the submitter.
+ */
+export const TimesheetApprovalsQueue = ({ workspaceId }: TimesheetApprovalsQueueProps) => {
+  const [status, setStatus] = useState<QueueStatus>(TimesheetStatus.SUBMITTED);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [rejecting, setRejecting] = useState<Record<string, string | undefined>>({});
+
+  const { data, isLoading } = useGetTimesheetApprovals({ workspaceId, status });
+  const { mutate: approve, isPending: isApproving } = useApproveTimesheet();
+  const { mutate: reject, isPending: isRejecting } = useRejectTimesheet();
+
+  const timesheets = (data?.documents ?? []) as PopulatedTimesheet[];
+
+  const handleReject = (timesheetId: string) => {
+    const reason = rejecting[timesheetId]?.trim();
+    if (!reason) return;
+
+    reject(
+      { param: { timesheetId }, json: { reason } },
+      { onSuccess: () => setRejecting((prev) => ({ ...prev, [timesheetId]: undefined })) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Timesheet Approvals</span>
+          <Tabs value={status} onValueChange={(value) => setStatus(value as QueueStatus)}>
+            <TabsList className="bg-muted border border-border">
+              <TabsTrigger value={TimesheetStatus.SUBMITTED}>Pending</TabsTrigger>
+              <TabsTrigger value={TimesheetStatus.APPROVED}>Approved</TabsTrigger>
+              <TabsTrigger value={TimesheetStatus.REJECTED}>Rejected</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : timesheets.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center text-muted-foreground">
+            <ClipboardCheck className="size-8 mb-2" />
+            <p className="text-sm">
+              {status === TimesheetStatus.SUBMITTED
+                ? "No timesheets are waiting for your approval."
+                : "No timesheets here yet."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {timesheets.map((timesheet) => {
+              const isOpen = expanded[timesheet.$id] ?? false;
+              const reason = rejecting[timesheet.$id];
+
+              return (
+                <div key={timesheet.$id} className="border rounded-lg overflow-hidden">
+                  <div className="flex items-start justify-between gap-4 p-4">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{timesheet.userName}</span>
+                        <Badge variant="secondary">{timesheet.totalHours.toFixed(2)} hours</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {format(parseISO(timesheet.weekStart), "MMM d")} - {format(parseISO(timesheet.weekEnd), "MMM d, yyyy")}
+                        {timesheet.submittedAt &&
+                          ` · submitted ${formatDistanceToNow(new Date(timesheet.submittedAt), { addSuffix: true })}`}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {timesheet.projects.map((project) => (
+                          <Badge key={project.$id} variant="outline" className="text-xs">
+                            {project.name} · {project.hours.toFixed(2)}h
+                          </Badge>
+                        ))}
+                      </div>
+                      {timesheet.decidedByName && timesheet.decidedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          {timesheet.status === TimesheetStatus.APPROVED ? "Approved" : "Rejected"} by{" "}
+                          {timesheet.decidedByName} {formatDistanceToNow(new Date(timesheet.decidedAt), { addSuffix: true })}
+                        </p>
+                      )}
+                      {timesheet.rejectionReason && (
+                        <p className="text-xs bg-muted rounded px-2 py-1">{timesheet.rejectionReason}</p>
+                      )}
+                    </div>
+
+                    {timesheet.canDecide && reason === undefined && (
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          size="sm"
+                          onClick={() => approve({ param: { timesheetId: timesheet.$id } })}
+                          disabled={isApproving}
+                        >
+                          <Check className="size-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRejecting((prev) => ({ ...prev, [timesheet.$id]: "" }))}
+                        >
+                          <X className="size-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {reason !== undefined && (
+                    <div className="px-4 pb-4 space-y-2">
+                      <Textarea
+                        value={reason}
+                        onChange={(e) => setRejecting((prev) => ({ ...prev, [timesheet.$id]: e.target.value }))}
+                        placeholder="What needs to change before this week can be approved?"
+                        rows={2}
+                        maxLength={1000}
+                        autoFocus
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => handleReject(timesheet.$id)}
+                          disabled={isRejecting || !reason.trim()}
+                        >
+                          Reject Timesheet
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setRejecting((prev) => ({ ...prev, [timesheet.$id]: undefined }))}
+                          disabled={isRejecting}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div
+                    onClick={() => setExpanded((prev) => ({ ...prev, [timesheet.$id]: !isOpen }))}
+                    className="flex gap-1 cursor-pointer items-center border-t px-4 py-2 text-xs text-muted-foreground"
+                  >
+                    {isOpen ? <ChevronDown className="size-3" /> : <ChevronRight className="size-3" />}
+                    {timesheet.entries.length} time log{timesheet.entries.length === 1 ? "" : "s"}
+                  </div>
+
+                  {isOpen && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Project</TableHead>
+                          <TableHead>Task</TableHead>
+                          <TableHead>Hours</TableHead>
+                          <TableHead>Description</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {timesheet.entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell className="font-medium">
+                              {format(parseISO(entry.logDate), "EEE, MMM d")}
+                            </TableCell>
+                            <TableCell>{entry.projectName}</TableCell>
+                            <TableCell>{entry.taskName}</TableCell>
+                            <TableCell>{entry.loggedHours}</TableCell>
+                            <TableCell className="max-w-xs truncate">{entry.description}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { format, parseISO, startOfWeek, endOfWeek, addWeeks, subWeeks } from "date-fns";
-import { CalendarIcon, Download, ChevronLeft, ChevronRight } from "lucide-react";
+import { CalendarIcon, Download, ChevronLeft, ChevronRight, Lock, Send, Undo2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,8 +15,13 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 
+import { useCurrent } from "@/features/auth/api/use-current";
+
 import { useGetTimesheet } from "../api/use-get-timesheet";
-import { UserTimesheet } from "../types";
+import { useSubmitTimesheet } from "../api/use-submit-timesheet";
+import { useWithdrawTimesheet } from "../api/use-withdraw-timesheet";
+import { TIMESHEET_STATUS_LABELS, isTimesheetLocked } from "../timesheet-approval";
+import { TimesheetStatus, UserTimesheet } from "../types";
 
 interface TimesheetViewProps {
   workspaceId: string;
@@ -33,6 +38,9 @@ export const TimesheetView = ({ workspaceId }: TimesheetViewProps) => {
     startDate: format(weekStart, "yyyy-MM-dd"),
     endDate: format(weekEnd, "yyyy-MM-dd"),
   });
+  const { data: currentUser } = useCurrent();
+  const { mutate: submitTimesheet, isPending: isSubmitting } = useSubmitTimesheet();
+  const { mutate: withdrawTimesheet, isPending: isWithdrawing } = useWithdrawTimesheet();
 
   const handlePreviousWeek = () => {
     setCurrentWeek(prev => subWeeks(prev, 1));
@@ -159,43 +167,87 @@ export const TimesheetView = ({ workspaceId }: TimesheetViewProps) => {
                   </Badge>
                 </div>
 
-                {userTimesheet.weeks.map((week, weekIndex) => (
-                  <div key={weekIndex} className="border rounded-lg overflow-hidden">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Date</TableHead>
-                          <TableHead>Project</TableHead>
-                          <TableHead>Task</TableHead>
-                          <TableHead>Hours</TableHead>
-                          <TableHead>Description</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {week.entries.map((entry) => (
-                          <TableRow key={entry.id}>
-                            <TableCell className="font-medium">
-                              {format(parseISO(entry.logDate), "MMM d")}
-                            </TableCell>
-                            <TableCell>{entry.projectName}</TableCell>
-                            <TableCell>{entry.taskName}</TableCell>
-                            <TableCell>{entry.loggedHours}</TableCell>
-                            <TableCell className="max-w-xs truncate">
-                              {entry.description}
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                        {week.entries.length === 0 && (
+                {userTimesheet.weeks.map((week, weekIndex) => {
+                  const isOwnWeek = userTimesheet.userId === currentUser?.$id;
+                  const canSubmit = isOwnWeek &&
+                    (week.status === TimesheetStatus.DRAFT || week.status === TimesheetStatus.REJECTED);
+
+                  return (
+                    <div key={weekIndex} className="border rounded-lg overflow-hidden">
+                      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b bg-muted/40">
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            variant={week.status === TimesheetStatus.REJECTED ? "destructive" : "outline"}
+                            className="text-xs"
+                          >
+                            {isTimesheetLocked(week.status) && <Lock className="h-3 w-3 mr-1" />}
+                            {TIMESHEET_STATUS_LABELS[week.status]}
+                          </Badge>
+                          {week.status === TimesheetStatus.REJECTED && week.rejectionReason && (
+                            <span className="text-xs text-muted-foreground">
+                              {week.rejectionReason}
+                            </span>
+                          )}
+                        </div>
+                        {canSubmit && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isSubmitting}
+                            onClick={() => submitTimesheet({ json: { workspaceId, weekStart: week.weekStart } })}
+                          >
+                            <Send className="h-4 w-4 mr-2" />
+                            {week.status === TimesheetStatus.REJECTED ? "Resubmit" : "Submit for Approval"}
+                          </Button>
+                        )}
+                        {isOwnWeek && week.status === TimesheetStatus.SUBMITTED && week.timesheetId && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={isWithdrawing}
+                            onClick={() => withdrawTimesheet({ param: { timesheetId: week.timesheetId as string } })}
+                          >
+                            <Undo2 className="h-4 w-4 mr-2" />
+                            Withdraw
+                          </Button>
+                        )}
+                      </div>
+                      <Table>
+                        <TableHeader>
                           <TableRow>
-                            <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
-                              No time logs for this week
-                            </TableCell>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Project</TableHead>
+                            <TableHead>Task</TableHead>
+                            <TableHead>Hours</TableHead>
+                            <TableHead>Description</TableHead>
                           </TableRow>
-                        )}
-                      </TableBody>
-                    </Table>
-                  </div>
-                ))}
+                        </TableHeader>
+                        <TableBody>
+                          {week.entries.map((entry) => (
+                            <TableRow key={entry.id}>
+                              <TableCell className="font-medium">
+                                {format(parseISO(entry.logDate), "MMM d")}
+                              </TableCell>
+                              <TableCell>{entry.projectName}</TableCell>
+                              <TableCell>{entry.taskName}</TableCell>
+                              <TableCell>{entry.loggedHours}</TableCell>
+                              <TableCell className="max-w-xs truncate">
+                                {entry.description}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          {week.entries.length === 0 && (
+                            <TableRow>
+                              <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                                No time logs for this week
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  );
+                })}
               </div>
             ))}
           </div>
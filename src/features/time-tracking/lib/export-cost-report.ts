@@ -0,0 +1,111 @@
+import { jsPDF } from "jspdf";
+
+import { costReportToCsv } from "../billing";
+import { CostReport, CostReportRow } from "../types";
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+const fileName = (report: CostReport, extension: string) =>
+  `cost-report-${report.startDate}-to-${report.endDate}.${extension}`;
+
+function download(blob: Blob, name: string) {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", name);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function exportCostReportCsv(report: CostReport): void {
+  download(
+    new Blob([costReportToCsv(report)], { type: "text/csv;charset=utf-8;" }),
+    fileName(report, "csv")
+  );
+}
+
+/**
+ * One table per grouping (projects, epics, members) on A4 pages
+ */
+export function exportCostReportPdf(report: CostReport, title = "Cost Report"): void {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const lineHeight = 6;
+  // Name column, then right-aligned numbers
+  const columns = [
+    { label: "Hours", x: pageWidth - margin - 105 },
+    { label: "Billable", x: pageWidth - margin - 80 },
+    { label: "Unrated", x: pageWidth - margin - 55 },
+    { label: `Amount (${report.currency})`, x: pageWidth - margin },
+  ];
+  const nameWidth = columns[0].x - margin - 20;
+  let y = margin;
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  const row = (name: string, values: string[], bold = false) => {
+    ensureSpace(lineHeight);
+    pdf.setFont("helvetica", bold ? "bold" : "normal");
+    const [firstLine] = pdf.splitTextToSize(name, nameWidth) as string[];
+    pdf.text(firstLine ?? "", margin, y);
+    values.forEach((value, index) => pdf.text(value, columns[index].x, y, { align: "right" }));
+    y += lineHeight;
+  };
+
+  const numbers = (entry: Omit<CostReportRow, "id" | "name">) => [
+    entry.hours.toFixed(2),
+    entry.billableHours.toFixed(2),
+    entry.unratedHours.toFixed(2),
+    entry.amount.toFixed(2),
+  ];
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(16);
+  pdf.text(title, margin, y);
+  y += 8;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(10);
+  pdf.text(`${report.startDate} to ${report.endDate}, amounts in ${report.currency}`, margin, y);
+  y += 10;
+
+  const section = (heading: string, rows: CostReportRow[]) => {
+    if (rows.length === 0) return;
+    ensureSpace(lineHeight * 3);
+    pdf.setFontSize(12);
+    pdf.setFont("helvetica", "bold");
+    pdf.text(heading, margin, y);
+    y += lineHeight + 1;
+    pdf.setFontSize(9);
+    row("Name", columns.map((column) => column.label), true);
+    pdf.line(margin, y - lineHeight + 2, pageWidth - margin, y - lineHeight + 2);
+    rows.forEach((entry) => row(entry.name, numbers(entry)));
+    y += 4;
+  };
+
+  section("Projects", report.projects);
+  section("Epics", report.epics);
+  section("Members", report.members);
+
+  pdf.setFontSize(10);
+  row("Total", numbers(report.totals), true);
+
+  pdf.save(fileName(report, "pdf"));
+}
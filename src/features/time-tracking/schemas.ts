@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { ProjectMemberRole } from "@/features/project-teams/types";
+
 export const createTimeLogSchema = z.object({
   taskId: z.string().trim().min(1, "Task is required"),
   logDate: z.coerce.date(),
@@ -7,6 +9,7 @@ export const createTimeLogSchema = z.object({
   description: z.string().trim().min(1, "Description is required"),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
+  isBillable: z.boolean().optional(),
 });
 
 export const updateTimeLogSchema = z.object({
@@ -15,6 +18,7 @@ export const updateTimeLogSchema = z.object({
   description: z.string().trim().min(1, "Description is required").optional(),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
+  isBillable: z.boolean().optional(),
 });
 
 export const timesheetQuerySchema = z.object({
@@ -31,3 +35,61 @@ export const estimateVsActualQuerySchema = z.object({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
 });
+
+export const startTimerSchema = z.object({
+  taskId: z.string().trim().min(1, "Task is required"),
+  description: z.string().trim().max(2048).optional(),
+});
+
+export const stopTimerSchema = z.object({
+  // Stop at an earlier moment, e.g. the last activity to drop idle time
+  stopAt: z.string().datetime({ offset: true }).optional(),
+  description: z.string().trim().max(2048).optional(),
+});
+
+export const submitTimesheetSchema = z.object({
+  workspaceId: z.string().trim().min(1, "Workspace is required"),
+  // Any day of the week; the week is counted from its Sunday
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-MM-dd"),
+});
+
+export const rejectTimesheetSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(1000),
+});
+
+export const timesheetApprovalsQuerySchema = z.object({
+  workspaceId: z.string().trim().min(1, "Workspace is required"),
+  status: z.enum(["SUBMITTED", "APPROVED", "REJECTED"]).optional(),
+});
+
+const rateCardFields = {
+  hourlyRate: z.number().min(0, "Rate cannot be negative").max(1_000_000),
+  currency: z.string().length(3).toUpperCase(),
+};
+
+export const createRateCardSchema = z.object({
+  workspaceId: z.string().trim().min(1, "Workspace is required"),
+  projectId: z.string().trim().min(1).nullable().optional(),
+  // At most one of userId and role; neither prices everyone's time
+  userId: z.string().trim().min(1).nullable().optional(),
+  role: z.nativeEnum(ProjectMemberRole).nullable().optional(),
+  ...rateCardFields,
+}).refine((data) => !(data.userId && data.role), {
+  message: "A rate applies to a member or a role, not both",
+  path: ["role"],
+});
+
+export const updateRateCardSchema = z.object(rateCardFields).partial();
+
+export const rateCardsQuerySchema = z.object({
+  workspaceId: z.string().trim().min(1, "Workspace is required"),
+  projectId: z.string().optional(),
+});
+
+export const costReportQuerySchema = z.object({
+  workspaceId: z.string().trim().min(1, "Workspace is required"),
+  projectId: z.string().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-MM-dd"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use yyyy-MM-dd"),
+  currency: z.string().length(3).toUpperCase().optional(),
+});
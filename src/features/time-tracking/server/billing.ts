@@ -0,0 +1,253 @@
+import "server-only";
+
+import { Databases, Models, Query, Users } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  PROJECT_MEMBERS_ID,
+  PROJECTS_ID,
+  RATE_CARDS_ID,
+  TASKS_ID,
+  TIME_LOGS_ID,
+} from "@/config";
+import { batchGetUsers } from "@/lib/batch-users";
+import { convertCurrency } from "@/lib/currency";
+import { MemberRole, WorkspaceMemberRole } from "@/features/members/types";
+import { Project } from "@/features/projects/types";
+import { ProjectMemberRole, ProjectMemberStatus } from "@/features/project-teams/types";
+import { listDocumentsByIds } from "@/features/tasks/server/change-log";
+import { Task } from "@/features/tasks/types";
+
+import { CostLine, isBillableLog, resolveRateCard, summarizeCostLines } from "../billing";
+import { CostReport, PopulatedRateCard, RateCard, TimeLog } from "../types";
+
+/**
+ * Billing
+ *
+ * Rates and cost reports are limited to admins: workspace admins for
+ * workspace-wide cards and reports, project admins for their project.
+ * Amounts are converted with the shared exchange rates: card currency to
+ * project currency for per-project totals, and to the report currency for
+ * everything else.
+ */
+
+const PAGE_SIZE = 500;
+const MAX_REPORT_LOGS = 20000;
+
+export const DEFAULT_BILLING_CURRENCY = "USD";
+
+const WORKSPACE_ADMIN_ROLES: string[] = [MemberRole.OWNER, MemberRole.ADMIN, WorkspaceMemberRole.WS_ADMIN];
+
+export async function canManageBilling(
+  databases: Databases,
+  { member, userId, projectId }: { member: Models.Document; userId: string; projectId?: string | null }
+): Promise<boolean> {
+  if (WORKSPACE_ADMIN_ROLES.includes(member.role as string)) return true;
+  if (!projectId) return false;
+
+  const { resolveUserProjectAccess } = await import("@/lib/permissions/resolveUserProjectAccess");
+  const access = await resolveUserProjectAccess(databases, userId, projectId);
+  return access.hasAccess && access.isAdmin;
+}
+
+/**
+ * Workspace-wide cards, plus the project's own when one is given
+ */
+export async function listRateCards(
+  databases: Databases,
+  { workspaceId, projectId }: { workspaceId: string; projectId?: string | null }
+): Promise<RateCard[]> {
+  const cards = await databases.listDocuments<RateCard>(DATABASE_ID, RATE_CARDS_ID, [
+    Query.equal("workspaceId", workspaceId),
+    Query.limit(1000),
+  ]);
+
+  return projectId === undefined
+    ? cards.documents
+    : cards.documents.filter((card) => !card.projectId || card.projectId === projectId);
+}
+
+export async function populateRateCards(
+  databases: Databases,
+  users: Users,
+  cards: RateCard[]
+): Promise<PopulatedRateCard[]> {
+  const projectIds = [...new Set(cards.map((card) => card.projectId).filter((id): id is string => !!id))];
+  const userIds = cards.map((card) => card.userId).filter((id): id is string => !!id);
+
+  const [projects, userMap] = await Promise.all([
+    listDocumentsByIds<Project>(databases, PROJECTS_ID, projectIds),
+    batchGetUsers(users, userIds),
+  ]);
+  const projectMap = new Map(projects.map((project) => [project.$id, project]));
+
+  return cards.map((card) => {
+    const user = card.userId ? userMap.get(card.userId) : undefined;
+    return {
+      ...card,
+      userName: user ? user.name || user.email : null,
+      projectName: card.projectId ? projectMap.get(card.projectId)?.name ?? null : null,
+    };
+  });
+}
+
+async function listReportTimeLogs(
+  databases: Databases,
+  { workspaceId, projectId, startDate, endDate }: { workspaceId: string; projectId?: string; startDate: string; endDate: string }
+): Promise<TimeLog[]> {
+  const logs: TimeLog[] = [];
+  let cursor: string | undefined;
+
+  while (logs.length < MAX_REPORT_LOGS) {
+    const page = await databases.listDocuments<TimeLog>(DATABASE_ID, TIME_LOGS_ID, [
+      Query.equal("workspaceId", workspaceId),
+      ...(projectId ? [Query.equal("projectId", projectId)] : []),
+      Query.greaterThanEqual("logDate", startDate),
+      Query.lessThanEqual("logDate", endDate),
+      Query.limit(PAGE_SIZE),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+
+    logs.push(...page.documents);
+    if (page.documents.length < PAGE_SIZE) break;
+    cursor = page.documents[page.documents.length - 1].$id;
+  }
+
+  return logs;
+}
+
+/**
+ * Billable amount per project, epic and member over a date range
+ */
+export async function getCostReport(
+  databases: Databases,
+  users: Users,
+  {
+    workspaceId,
+    projectId,
+    startDate,
+    endDate,
+    currency,
+  }: { workspaceId: string; projectId?: string; startDate: string; endDate: string; currency?: string }
+): Promise<CostReport> {
+  const logs = await listReportTimeLogs(databases, { workspaceId, projectId, startDate, endDate });
+
+  const projectIds = [...new Set(logs.map((log) => log.projectId))];
+  const taskIds = [...new Set(logs.map((log) => log.taskId))];
+
+  const [projects, tasks, cards, projectMembers] = await Promise.all([
+    listDocumentsByIds<Project>(databases, PROJECTS_ID, projectIds),
+    listDocumentsByIds<Task>(databases, TASKS_ID, taskIds),
+    listRateCards(databases, { workspaceId }),
+    projectIds.length > 0
+      ? databases.listDocuments(DATABASE_ID, PROJECT_MEMBERS_ID, [
+        Query.equal("projectId", projectIds),
+        Query.equal("status", ProjectMemberStatus.ACTIVE),
+        Query.limit(5000),
+      ])
+      : { documents: [] as Models.Document[] },
+  ]);
+
+  const projectMap = new Map(projects.map((project) => [project.$id, project]));
+  const taskMap = new Map(tasks.map((task) => [task.$id, task]));
+  const roleMap = new Map(
+    projectMembers.documents.map((member) => [`${member.projectId}:${member.userId}`, member.role as ProjectMemberRole])
+  );
+
+  const projectCurrency = (id: string) => projectMap.get(id)?.currency || DEFAULT_BILLING_CURRENCY;
+  const reportCurrency = currency
+    || (projectId ? projectCurrency(projectId) : DEFAULT_BILLING_CURRENCY);
+
+  const lines: CostLine[] = [];
+  const projectAmounts: Record<string, number> = {};
+
+  for (const log of logs) {
+    const task = taskMap.get(log.taskId);
+    const line: CostLine = {
+      projectId: log.projectId,
+      epicId: task?.epicId ?? null,
+      userId: log.userId,
+      hours: log.loggedHours,
+      billable: isBillableLog(log),
+      amount: 0,
+    };
+
+    if (line.billable) {
+      const card = resolveRateCard(cards, {
+        projectId: log.projectId,
+        userId: log.userId,
+        role: roleMap.get(`${log.projectId}:${log.userId}`),
+      });
+
+      if (card) {
+        const cost = card.hourlyRate * log.loggedHours;
+        const inProjectCurrency = await convertCurrency(cost, card.currency, projectCurrency(log.projectId));
+        projectAmounts[log.projectId] = (projectAmounts[log.projectId] ?? 0) + inProjectCurrency;
+        line.amount = await convertCurrency(cost, card.currency, reportCurrency);
+      } else {
+        line.amount = null;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  const summary = summarizeCostLines(lines);
+
+  const epicIds = [
+    ...new Set(
+      Object.keys(summary.byEpic)
+        .map((key) => key.split(":")[1])
+        .filter((id) => !!id && !taskMap.has(id))
+    ),
+  ];
+  const userIds = Object.keys(summary.byMember);
+  const [epics, userMap] = await Promise.all([
+    listDocumentsByIds<Task>(databases, TASKS_ID, epicIds),
+    batchGetUsers(users, userIds),
+  ]);
+  epics.forEach((epic) => taskMap.set(epic.$id, epic));
+
+  const byAmount = <T extends { amount: number; hours: number }>(a: T, b: T) =>
+    b.amount - a.amount || b.hours - a.hours;
+
+  return {
+    currency: reportCurrency,
+    startDate,
+    endDate,
+    totals: summary.totals,
+    projects: Object.entries(summary.byProject)
+      .map(([id, totals]) => ({
+        id,
+        name: projectMap.get(id)?.name || "Unknown Project",
+        ...totals,
+        projectCurrency: projectCurrency(id),
+        projectAmount: Math.round((projectAmounts[id] ?? 0) * 100) / 100,
+      }))
+      .sort(byAmount),
+    epics: Object.entries(summary.byEpic)
+      .map(([key, totals]) => {
+        const [epicProjectId, epicId] = key.split(":");
+        const epic = epicId ? taskMap.get(epicId) : undefined;
+        return {
+          id: epicId || null,
+          projectId: epicProjectId,
+          name: epicId
+            ? epic ? [epic.key, epic.title || epic.name].filter(Boolean).join(" ") : "Deleted epic"
+            : `No epic (${projectMap.get(epicProjectId)?.name || "Unknown Project"})`,
+          ...totals,
+        };
+      })
+      .sort(byAmount),
+    members: Object.entries(summary.byMember)
+      .map(([id, totals]) => {
+        const user = userMap.get(id);
+        return {
+          id,
+          name: user ? user.name || user.email : "Former member",
+          ...totals,
+        };
+      })
+      .sort(byAmount),
+  };
+}
@@ -0,0 +1,182 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { ID } from "node-appwrite";
+
+import { DATABASE_ID, PROJECTS_ID, RATE_CARDS_ID } from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { SUPPORTED_CURRENCIES } from "@/lib/currency";
+import { sessionMiddleware } from "@/lib/session-middleware";
+
+import { getMember } from "@/features/members/utils";
+import { Project } from "@/features/projects/types";
+
+import { createRateCardSchema, rateCardsQuerySchema, updateRateCardSchema } from "../schemas";
+import { RateCard } from "../types";
+import { canManageBilling, listRateCards, populateRateCards } from "./billing";
+
+const isSupportedCurrency = (currency: string) =>
+  (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+
+const app = new Hono()
+  // Workspace-wide cards, plus the project's own when projectId is given
+  .get(
+    "/",
+    sessionMiddleware,
+    zValidator("query", rateCardsQuerySchema),
+    async (c) => {
+      const { users } = await createAdminClient();
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageBilling(databases, { member, userId: user.$id, projectId }))) {
+        return c.json({ error: "Forbidden: Only admins can view rates" }, 403);
+      }
+
+      const cards = await listRateCards(databases, { workspaceId, projectId });
+      const populated = await populateRateCards(databases, users, cards);
+
+      return c.json({ data: { documents: populated, total: populated.length } });
+    }
+  )
+  .post(
+    "/",
+    sessionMiddleware,
+    zValidator("json", createRateCardSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, userId, role, hourlyRate, currency } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageBilling(databases, { member, userId: user.$id, projectId }))) {
+        return c.json({ error: "Forbidden: Only admins can manage rates" }, 403);
+      }
+
+      if (!isSupportedCurrency(currency)) {
+        return c.json({ error: `Unsupported currency: ${currency}` }, 400);
+      }
+
+      if (projectId) {
+        const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+        if (project.workspaceId !== workspaceId) {
+          return c.json({ error: "Project not in this workspace" }, 400);
+        }
+      }
+
+      if (userId) {
+        const rated = await getMember({ databases, workspaceId, userId });
+        if (!rated) {
+          return c.json({ error: "User is not a member of this workspace" }, 400);
+        }
+      }
+
+      // One card per scope; change the existing card's rate instead
+      const existing = await listRateCards(databases, { workspaceId });
+      const duplicate = existing.find(
+        (card) =>
+          (card.projectId ?? null) === (projectId ?? null) &&
+          (card.userId ?? null) === (userId ?? null) &&
+          (card.role ?? null) === (role ?? null)
+      );
+      if (duplicate) {
+        return c.json({ error: "A rate for this scope already exists" }, 409);
+      }
+
+      const card = await databases.createDocument<RateCard>(DATABASE_ID, RATE_CARDS_ID, ID.unique(), {
+        workspaceId,
+        projectId: projectId ?? null,
+        userId: userId ?? null,
+        role: role ?? null,
+        hourlyRate,
+        currency,
+        createdBy: user.$id,
+      });
+
+      return c.json({ data: card });
+    }
+  )
+  .patch(
+    "/:rateCardId",
+    sessionMiddleware,
+    zValidator("json", updateRateCardSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { rateCardId } = c.req.param();
+      const { hourlyRate, currency } = c.req.valid("json");
+
+      const card = await databases.getDocument<RateCard>(DATABASE_ID, RATE_CARDS_ID, rateCardId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: card.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageBilling(databases, { member, userId: user.$id, projectId: card.projectId }))) {
+        return c.json({ error: "Forbidden: Only admins can manage rates" }, 403);
+      }
+
+      if (currency !== undefined && !isSupportedCurrency(currency)) {
+        return c.json({ error: `Unsupported currency: ${currency}` }, 400);
+      }
+
+      const updated = await databases.updateDocument<RateCard>(DATABASE_ID, RATE_CARDS_ID, rateCardId, {
+        ...(hourlyRate !== undefined && { hourlyRate }),
+        ...(currency !== undefined && { currency }),
+      });
+
+      return c.json({ data: updated });
+    }
+  )
+  .delete("/:rateCardId", sessionMiddleware, async (c) => {
+    const databases = c.get("databases");
+    const user = c.get("user");
+    const { rateCardId } = c.req.param();
+
+    const card = await databases.getDocument<RateCard>(DATABASE_ID, RATE_CARDS_ID, rateCardId);
+
+    const member = await getMember({
+      databases,
+      workspaceId: card.workspaceId,
+      userId: user.$id,
+    });
+
+    if (!member) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    if (!(await canManageBilling(databases, { member, userId: user.$id, projectId: card.projectId }))) {
+      return c.json({ error: "Forbidden: Only admins can manage rates" }, 403);
+    }
+
+    await databases.deleteDocument(DATABASE_ID, RATE_CARDS_ID, rateCardId);
+
+    return c.json({ data: { $id: rateCardId } });
+  });
+
+export default app;
@@ -4,7 +4,7 @@ import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { startOfWeek, endOfWeek, format, parseISO } from "date-fns";
 
-import { DATABASE_ID, MEMBERS_ID, PROJECTS_ID, TASKS_ID, TIME_LOGS_ID, CUSTOM_COLUMNS_ID } from "@/config";
+import { DATABASE_ID, MEMBERS_ID, PROJECTS_ID, TASKS_ID, TIME_LOGS_ID, CUSTOM_COLUMNS_ID, TIMESHEETS_ID } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
 import { createAdminClient } from "@/lib/appwrite";
 import { batchGetUsers } from "@/lib/batch-users";
@@ -13,14 +13,20 @@ import { getMember } from "@/features/members/utils";
 import { Project } from "@/features/projects/types";
 import { Task, TaskStatus } from "@/features/tasks/types";
 import { CustomColumn } from "@/features/custom-columns/types";
+import { emitProjectWebhookEvent } from "@/features/webhooks/server/events";
+import { WebhookEventType } from "@/features/webhooks/server/types";
 
 import {
   createTimeLogSchema,
   updateTimeLogSchema,
   timesheetQuerySchema,
-  estimateVsActualQuerySchema
+  estimateVsActualQuerySchema,
+  costReportQuerySchema,
 } from "../schemas";
-import { TimeLog, TimeEntry, UserTimesheet, EstimateVsActual } from "../types";
+import { TimeLog, TimeEntry, UserTimesheet, EstimateVsActual, Timesheet, TimesheetStatus } from "../types";
+import { isBillableLog } from "../billing";
+import { canManageBilling, getCostReport } from "./billing";
+import { getTimeLogLockError } from "./timesheets";
 
 const app = new Hono()
   .delete("/:timeLogId", sessionMiddleware, async (c) => {
@@ -49,6 +55,15 @@ const app = new Hono()
       return c.json({ error: "Unauthorized" }, 401);
     }
 
+    const lockError = await getTimeLogLockError(databases, {
+      workspaceId: timeLog.workspaceId,
+      userId: user.$id,
+      logDate: timeLog.logDate,
+    });
+    if (lockError) {
+      return c.json({ error: lockError }, 409);
+    }
+
     await databases.deleteDocument(DATABASE_ID, TIME_LOGS_ID, timeLogId);
 
     return c.json({ data: { $id: timeLog.$id } });
@@ -171,7 +186,7 @@ const app = new Hono()
     async (c) => {
       const user = c.get("user");
       const databases = c.get("databases");
-      const { taskId, logDate, loggedHours, description, startTime, endTime } =
+      const { taskId, logDate, loggedHours, description, startTime, endTime, isBillable } =
         c.req.valid("json");
 
       // Get task to validate workspace access
@@ -191,6 +206,15 @@ const app = new Hono()
         return c.json({ error: "Unauthorized" }, 401);
       }
 
+      const lockError = await getTimeLogLockError(databases, {
+        workspaceId: task.workspaceId,
+        userId: user.$id,
+        logDate,
+      });
+      if (lockError) {
+        return c.json({ error: lockError }, 409);
+      }
+
       const timeLog = await databases.createDocument(
         DATABASE_ID,
         TIME_LOGS_ID,
@@ -205,9 +229,21 @@ const app = new Hono()
           description,
           startTime,
           endTime,
+          isBillable: isBillable ?? true,
         }
       );
 
+      emitProjectWebhookEvent(task.projectId, WebhookEventType.TIME_LOGGED, user, {
+        workitemId: task.$id,
+        workitemKey: task.key,
+        title: task.title,
+        summary: `${user.name} logged ${loggedHours}h on ${task.key ?? task.title}`,
+        timeLogId: timeLog.$id,
+        loggedHours,
+        logDate: timeLog.logDate,
+        description,
+      });
+
       return c.json({ data: timeLog });
     }
   )
@@ -218,7 +254,7 @@ const app = new Hono()
     async (c) => {
       const user = c.get("user");
       const databases = c.get("databases");
-      const { logDate, loggedHours, description, startTime, endTime } =
+      const { logDate, loggedHours, description, startTime, endTime, isBillable } =
         c.req.valid("json");
 
       const { timeLogId } = c.req.param();
@@ -244,6 +280,21 @@ const app = new Hono()
         return c.json({ error: "Unauthorized" }, 401);
       }
 
+      // Both the week the log is in and the week it moves to must be open
+      const lockDates = logDate !== undefined
+        ? [existingTimeLog.logDate, logDate]
+        : [existingTimeLog.logDate];
+      for (const date of lockDates) {
+        const lockError = await getTimeLogLockError(databases, {
+          workspaceId: existingTimeLog.workspaceId,
+          userId: user.$id,
+          logDate: date,
+        });
+        if (lockError) {
+          return c.json({ error: lockError }, 409);
+        }
+      }
+
       const updateData: Partial<TimeLog> = {};
 
       if (logDate !== undefined) updateData.logDate = format(logDate, "yyyy-MM-dd");
@@ -251,6 +302,7 @@ const app = new Hono()
       if (description !== undefined) updateData.description = description;
       if (startTime !== undefined) updateData.startTime = startTime;
       if (endTime !== undefined) updateData.endTime = endTime;
+      if (isBillable !== undefined) updateData.isBillable = isBillable;
       (updateData as Record<string, unknown>).lastModifiedBy = user.$id;
 
       const timeLog = await databases.updateDocument(
@@ -343,6 +395,20 @@ const app = new Hono()
         })
         .filter((u): u is NonNullable<typeof u> => u !== null);
 
+      // Approval state of each user's weeks in the range
+      const submittedWeeks = userIds.length > 0
+        ? await databases.listDocuments<Timesheet>(DATABASE_ID, TIMESHEETS_ID, [
+          Query.equal("workspaceId", workspaceId),
+          Query.equal("userId", userIds),
+          Query.greaterThanEqual("weekStart", format(startOfWeek(start), "yyyy-MM-dd")),
+          Query.lessThanEqual("weekStart", format(end, "yyyy-MM-dd")),
+          Query.limit(1000),
+        ])
+        : { documents: [] as Timesheet[] };
+      const timesheetMap = new Map(
+        submittedWeeks.documents.map((timesheet) => [`${timesheet.userId}:${timesheet.weekStart}`, timesheet])
+      );
+
       // Group by user and week
       const userTimesheets: UserTimesheet[] = [];
 
@@ -379,12 +445,16 @@ const app = new Hono()
         const weekData = Object.entries(weeks).map(([weekStartStr, entries]) => {
           const weekStart = parseISO(weekStartStr);
           const weekEnd = endOfWeek(weekStart);
+          const timesheet = timesheetMap.get(`${userDetail.userId}:${weekStartStr}`);
 
           return {
             weekStart: format(weekStart, "yyyy-MM-dd"),
             weekEnd: format(weekEnd, "yyyy-MM-dd"),
             totalHours: entries.reduce((sum, entry) => sum + entry.loggedHours, 0),
             entries,
+            timesheetId: timesheet?.$id ?? null,
+            status: timesheet?.status ?? TimesheetStatus.DRAFT,
+            rejectionReason: timesheet?.rejectionReason ?? null,
           };
         });
 
@@ -493,6 +563,9 @@ const app = new Hono()
       const estimatesVsActuals: EstimateVsActual[] = tasks.documents.map(task => {
         const taskTimeLogs = timeLogs.documents.filter(log => log.taskId === task.$id);
         const actualHours = taskTimeLogs.reduce((sum, log) => sum + log.loggedHours, 0);
+        const billableHours = taskTimeLogs
+          .filter(isBillableLog)
+          .reduce((sum, log) => sum + log.loggedHours, 0);
         const estimatedHours = task.estimatedHours || 0;
         const variance = actualHours - estimatedHours;
         const variancePercent = estimatedHours > 0 ? (variance / estimatedHours) * 100 : 0;
@@ -505,6 +578,7 @@ const app = new Hono()
           projectName: project?.name || "Unknown Project",
           estimatedHours,
           actualHours,
+          billableHours,
           variance,
           variancePercent,
           status: getStatusName(task.status),
@@ -513,6 +587,52 @@ const app = new Hono()
 
       return c.json({ data: estimatesVsActuals });
     }
+  )
+  .get(
+    "/cost-report",
+    sessionMiddleware,
+    zValidator("query", costReportQuerySchema),
+    async (c) => {
+      const { users } = await createAdminClient();
+      const databases = c.get("databases");
+      const user = c.get("user");
+
+      const { workspaceId, projectId, startDate, endDate, currency } =
+        c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (!(await canManageBilling(databases, { member, userId: user.$id, projectId }))) {
+        return c.json({ error: "Forbidden: Only admins can view cost reports" }, 403);
+      }
+
+      if (startDate > endDate) {
+        return c.json({ error: "Start date must be before end date" }, 400);
+      }
+
+      const { SUPPORTED_CURRENCIES } = await import("@/lib/currency");
+      if (currency && !(SUPPORTED_CURRENCIES as readonly string[]).includes(currency)) {
+        return c.json({ error: `Unsupported currency: ${currency}` }, 400);
+      }
+
+      const report = await getCostReport(databases, users, {
+        workspaceId,
+        projectId,
+        startDate,
+        endDate,
+        currency,
+      });
+
+      return c.json({ data: report });
+    }
   );
 
 export default app;
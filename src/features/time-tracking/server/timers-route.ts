@@ -0,0 +1,111 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+
+import { DATABASE_ID, TASKS_ID } from "@/config";
+import { sessionMiddleware } from "@/lib/session-middleware";
+
+import { getMember } from "@/features/members/utils";
+import { Task } from "@/features/tasks/types";
+
+import { startTimerSchema, stopTimerSchema } from "../schemas";
+import { getActiveTimer, populateTimer, startTimer, stopTimer, touchTimer } from "./timers";
+import { getTimeLogLockError } from "./timesheets";
+
+const app = new Hono()
+  // The signed-in user's running timer, in any workspace
+  .get("/current", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const databases = c.get("databases");
+
+    const timer = await getActiveTimer(databases, user.$id);
+
+    return c.json({ data: timer ? await populateTimer(databases, timer) : null });
+  })
+  .post(
+    "/",
+    sessionMiddleware,
+    zValidator("json", startTimerSchema),
+    async (c) => {
+      const user = c.get("user");
+      const databases = c.get("databases");
+      const { taskId, description } = c.req.valid("json");
+
+      const task = await databases
+        .getDocument<Task>(DATABASE_ID, TASKS_ID, taskId)
+        .catch(() => null);
+
+      if (!task) {
+        return c.json({ error: "Work item not found" }, 404);
+      }
+
+      const member = await getMember({
+        databases,
+        workspaceId: task.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      // The timer logs into this week when stopped
+      const lockError = await getTimeLogLockError(databases, {
+        workspaceId: task.workspaceId,
+        userId: user.$id,
+        logDate: new Date(),
+      });
+      if (lockError) {
+        return c.json({ error: lockError }, 409);
+      }
+
+      try {
+        const { timer, stopped } = await startTimer(databases, { actor: user, task, description });
+        return c.json({ data: { timer: await populateTimer(databases, timer), stopped } });
+      } catch (error: unknown) {
+        // Unique index on userId: another tab started a timer in between
+        const isConflictError =
+          error && typeof error === "object" && "code" in error && error.code === 409;
+
+        if (isConflictError) {
+          return c.json({ error: "A timer is already running. Refresh and try again." }, 409);
+        }
+        throw error;
+      }
+    }
+  )
+  .post(
+    "/stop",
+    sessionMiddleware,
+    zValidator("json", stopTimerSchema),
+    async (c) => {
+      const user = c.get("user");
+      const databases = c.get("databases");
+      const { stopAt, description } = c.req.valid("json");
+
+      const timer = await getActiveTimer(databases, user.$id);
+
+      if (!timer) {
+        return c.json({ error: "No timer is running" }, 404);
+      }
+
+      const timeLog = await stopTimer(databases, timer, { actor: user, stopAt, description });
+
+      return c.json({ data: { timeLog } });
+    }
+  )
+  .post("/heartbeat", sessionMiddleware, async (c) => {
+    const user = c.get("user");
+    const databases = c.get("databases");
+
+    const timer = await getActiveTimer(databases, user.$id);
+
+    if (!timer) {
+      return c.json({ error: "No timer is running" }, 404);
+    }
+
+    const updated = await touchTimer(databases, timer);
+
+    return c.json({ data: { $id: updated.$id, lastActiveAt: updated.lastActiveAt } });
+  });
+
+export default app;
@@ -0,0 +1,125 @@
+import "server-only";
+
+import { format } from "date-fns";
+import { Databases, ID, Models, Query } from "node-appwrite";
+
+import { DATABASE_ID, TASKS_ID, TIME_LOGS_ID, TIMERS_ID } from "@/config";
+import { Task } from "@/features/tasks/types";
+import { emitProjectWebhookEvent } from "@/features/webhooks/server/events";
+import { WebhookEventType } from "@/features/webhooks/server/types";
+
+import { MIN_TIMER_HOURS, resolveTimerStop, timerDurationHours } from "../timer";
+import { PopulatedTimer, TimeLog, Timer } from "../types";
+
+/**
+ * Timers
+ *
+ * Shared by the timers route and the MCP endpoint. A user has at most one
+ * timer: the collection has a unique index on userId, and starting a new
+ * timer stops the running one first.
+ */
+
+type TimerActor = Pick<Models.User<Models.Preferences>, "$id" | "name" | "email">;
+
+export async function getActiveTimer(databases: Databases, userId: string): Promise<Timer | null> {
+  const timers = await databases.listDocuments<Timer>(DATABASE_ID, TIMERS_ID, [
+    Query.equal("userId", userId),
+    Query.limit(1),
+  ]);
+
+  return timers.documents[0] ?? null;
+}
+
+export async function populateTimer(databases: Databases, timer: Timer): Promise<PopulatedTimer> {
+  const task = await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, timer.taskId).catch(() => null);
+
+  return {
+    ...timer,
+    task: task ? { $id: task.$id, key: task.key, title: task.title } : null,
+  };
+}
+
+/**
+ * Stops the timer and logs its time. Returns null when nothing was logged:
+ * under the time log minimum, or already stopped from another tab.
+ */
+export async function stopTimer(
+  databases: Databases,
+  timer: Timer,
+  options: { actor: TimerActor; stopAt?: string | null; description?: string | null }
+): Promise<TimeLog | null> {
+  const stoppedAt = resolveTimerStop(timer, options.stopAt);
+  const loggedHours = timerDurationHours(timer.startedAt, stoppedAt);
+
+  // Delete first so two tabs stopping together log the time once
+  try {
+    await databases.deleteDocument(DATABASE_ID, TIMERS_ID, timer.$id);
+  } catch {
+    return null;
+  }
+
+  if (loggedHours < MIN_TIMER_HOURS) return null;
+
+  const description = options.description?.trim() || timer.description?.trim() || "Timer";
+
+  const timeLog = await databases.createDocument<TimeLog>(DATABASE_ID, TIME_LOGS_ID, ID.unique(), {
+    taskId: timer.taskId,
+    userId: timer.userId,
+    workspaceId: timer.workspaceId,
+    projectId: timer.projectId,
+    logDate: format(new Date(timer.startedAt), "yyyy-MM-dd"),
+    loggedHours,
+    description,
+    startTime: timer.startedAt,
+    endTime: stoppedAt.toISOString(),
+    isBillable: true,
+  });
+
+  const task = await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, timer.taskId).catch(() => null);
+
+  emitProjectWebhookEvent(timer.projectId, WebhookEventType.TIME_LOGGED, options.actor, {
+    workitemId: timer.taskId,
+    workitemKey: task?.key,
+    title: task?.title,
+    summary: `${options.actor.name} logged ${loggedHours}h on ${task?.key ?? task?.title ?? "a work item"}`,
+    timeLogId: timeLog.$id,
+    loggedHours,
+    logDate: timeLog.logDate,
+    description,
+  });
+
+  return timeLog;
+}
+
+/**
+ * Starts a timer on the task, stopping (and logging) the running one
+ */
+export async function startTimer(
+  databases: Databases,
+  options: { actor: TimerActor; task: Task; description?: string | null }
+): Promise<{ timer: Timer; stopped: TimeLog | null }> {
+  const running = await getActiveTimer(databases, options.actor.$id);
+  const stopped = running ? await stopTimer(databases, running, { actor: options.actor }) : null;
+
+  const now = new Date().toISOString();
+  const timer = await databases.createDocument<Timer>(DATABASE_ID, TIMERS_ID, ID.unique(), {
+    userId: options.actor.$id,
+    taskId: options.task.$id,
+    projectId: options.task.projectId,
+    workspaceId: options.task.workspaceId,
+    description: options.description?.trim() || null,
+    startedAt: now,
+    lastActiveAt: now,
+  });
+
+  return { timer, stopped };
+}
+
+/**
+ * Heartbeat from a browser in use: the time so far counts as active
+ */
+export async function touchTimer(databases: Databases, timer: Timer): Promise<Timer> {
+  return databases.updateDocument<Timer>(DATABASE_ID, TIMERS_ID, timer.$id, {
+    lastActiveAt: new Date().toISOString(),
+  });
+}
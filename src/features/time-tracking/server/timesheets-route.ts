@@ -0,0 +1,347 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { ID, Query } from "node-appwrite";
+
+import { DATABASE_ID, PROJECTS_ID, TASKS_ID, TIMESHEETS_ID } from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { batchGetUsers } from "@/lib/batch-users";
+import { sessionMiddleware } from "@/lib/session-middleware";
+
+import { getMember } from "@/features/members/utils";
+import { Project } from "@/features/projects/types";
+import { Task } from "@/features/tasks/types";
+
+import {
+  rejectTimesheetSchema,
+  submitTimesheetSchema,
+  timesheetApprovalsQuerySchema,
+} from "../schemas";
+import { getTimesheetWeek, nextTimesheetStatus, summarizeTimesheetLogs } from "../timesheet-approval";
+import { PopulatedTimesheet, TimeEntry, Timesheet, TimesheetStatus } from "../types";
+import { getActiveTimer } from "./timers";
+import {
+  canApproveTimesheet,
+  getDepartmentLeadIds,
+  getTimesheet,
+  getTimesheetApproverIds,
+  listWeekTimeLogs,
+  notifyTimesheetUsers,
+} from "./timesheets";
+
+const formatHours = (hours: number) => `${Math.round(hours * 100) / 100}h`;
+
+const app = new Hono()
+  // Submitted weeks the user may approve, or past decisions in their scope
+  .get(
+    "/approvals",
+    sessionMiddleware,
+    zValidator("query", timesheetApprovalsQuerySchema),
+    async (c) => {
+      const { users } = await createAdminClient();
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, status = TimesheetStatus.SUBMITTED } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const timesheets = await databases.listDocuments<Timesheet>(DATABASE_ID, TIMESHEETS_ID, [
+        Query.equal("workspaceId", workspaceId),
+        Query.equal("status", status),
+        Query.orderDesc(status === TimesheetStatus.SUBMITTED ? "submittedAt" : "decidedAt"),
+        Query.limit(100),
+      ]);
+
+      const leadsByUser = new Map<string, string[]>();
+      const visible: Timesheet[] = [];
+      for (const timesheet of timesheets.documents) {
+        if (!leadsByUser.has(timesheet.userId)) {
+          leadsByUser.set(timesheet.userId, await getDepartmentLeadIds(databases, workspaceId, timesheet.userId));
+        }
+        if (await canApproveTimesheet(databases, timesheet, user.$id, leadsByUser.get(timesheet.userId))) {
+          visible.push(timesheet);
+        }
+      }
+
+      const weekLogs = await Promise.all(
+        visible.map((timesheet) => listWeekTimeLogs(databases, timesheet))
+      );
+      const allLogs = weekLogs.flat();
+
+      const taskIds = [...new Set(allLogs.map((log) => log.taskId))];
+      const projectIds = [...new Set(allLogs.map((log) => log.projectId))];
+      const [tasks, projects, userMap] = await Promise.all([
+        taskIds.length > 0
+          ? databases.listDocuments<Task>(DATABASE_ID, TASKS_ID, [Query.equal("$id", taskIds), Query.limit(taskIds.length)])
+          : { documents: [] as Task[] },
+        projectIds.length > 0
+          ? databases.listDocuments<Project>(DATABASE_ID, PROJECTS_ID, [Query.equal("$id", projectIds), Query.limit(projectIds.length)])
+          : { documents: [] as Project[] },
+        batchGetUsers(users, [
+          ...visible.map((timesheet) => timesheet.userId),
+          ...visible.map((timesheet) => timesheet.decidedBy).filter((id): id is string => !!id),
+        ]),
+      ]);
+
+      const taskMap = new Map(tasks.documents.map((task) => [task.$id, task]));
+      const projectMap = new Map(projects.documents.map((project) => [project.$id, project]));
+
+      const populated: PopulatedTimesheet[] = visible.map((timesheet, index) => {
+        const logs = weekLogs[index];
+        const submitter = userMap.get(timesheet.userId);
+        const decider = timesheet.decidedBy ? userMap.get(timesheet.decidedBy) : undefined;
+        const { hoursByProject } = summarizeTimesheetLogs(logs);
+
+        const entries: TimeEntry[] = logs
+          .map((log) => ({
+            id: log.$id,
+            taskId: log.taskId,
+            taskName: taskMap.get(log.taskId)?.title || taskMap.get(log.taskId)?.name || "Unknown Task",
+            projectId: log.projectId,
+            projectName: projectMap.get(log.projectId)?.name || "Unknown Project",
+            logDate: log.logDate,
+            loggedHours: log.loggedHours,
+            description: log.description,
+            userName: submitter?.name || submitter?.email || "Unknown user",
+            userEmail: submitter?.email || "",
+          }))
+          .sort((a, b) => a.logDate.localeCompare(b.logDate));
+
+        return {
+          ...timesheet,
+          userName: submitter?.name || submitter?.email || "Unknown user",
+          userEmail: submitter?.email || "",
+          decidedByName: decider ? decider.name || decider.email : null,
+          projects: Object.entries(hoursByProject).map(([projectId, hours]) => ({
+            $id: projectId,
+            name: projectMap.get(projectId)?.name || "Unknown Project",
+            hours,
+          })),
+          entries,
+          canDecide: timesheet.status === TimesheetStatus.SUBMITTED,
+        };
+      });
+
+      return c.json({ data: { documents: populated, total: populated.length } });
+    }
+  )
+
+  // Submit the user's week for approval; locks its time logs
+  .post(
+    "/submit",
+    sessionMiddleware,
+    zValidator("json", submitTimesheetSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, weekStart: day } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { weekStart, weekEnd } = getTimesheetWeek(day);
+      const existing = await getTimesheet(databases, { workspaceId, userId: user.$id, weekStart });
+
+      if (!nextTimesheetStatus(existing?.status, "submit")) {
+        return c.json({ error: `This week's timesheet is already ${existing?.status.toLowerCase()}` }, 400);
+      }
+
+      // Time still running in the week would change it after submission
+      const timer = await getActiveTimer(databases, user.$id);
+      if (timer && timer.workspaceId === workspaceId && getTimesheetWeek(new Date(timer.startedAt)).weekStart === weekStart) {
+        return c.json({ error: "Stop your running timer before submitting this week" }, 400);
+      }
+
+      const logs = await listWeekTimeLogs(databases, { workspaceId, userId: user.$id, weekStart, weekEnd });
+      if (logs.length === 0) {
+        return c.json({ error: "No time is logged in this week" }, 400);
+      }
+
+      const { totalHours, hoursByProject } = summarizeTimesheetLogs(logs);
+      const submission = {
+        status: TimesheetStatus.SUBMITTED,
+        totalHours,
+        projectIds: Object.keys(hoursByProject),
+        submittedAt: new Date().toISOString(),
+        decidedBy: null,
+        decidedAt: null,
+        rejectionReason: null,
+      };
+
+      let timesheet: Timesheet;
+      try {
+        timesheet = existing
+          ? await databases.updateDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, existing.$id, submission)
+          : await databases.createDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, ID.unique(), {
+            workspaceId,
+            userId: user.$id,
+            weekStart,
+            weekEnd,
+            ...submission,
+          });
+      } catch (error: unknown) {
+        // Unique index: submitted from another tab in between
+        const isConflictError =
+          error && typeof error === "object" && "code" in error && error.code === 409;
+
+        if (isConflictError) {
+          return c.json({ error: "This week's timesheet was just submitted" }, 409);
+        }
+        throw error;
+      }
+
+      getTimesheetApproverIds(databases, timesheet)
+        .then((approverIds) =>
+          notifyTimesheetUsers({
+            userIds: approverIds,
+            type: "timesheet_submitted",
+            title: "Timesheet Submitted",
+            message: `${user.name || user.email} submitted ${formatHours(totalHours)} for the week of ${weekStart}`,
+            timesheet,
+            triggeredBy: user.$id,
+          })
+        )
+        .catch(() => { });
+
+      return c.json({ data: timesheet });
+    }
+  )
+
+  // Take a submission back to edit it (submitter only)
+  .post("/:timesheetId/withdraw", sessionMiddleware, async (c) => {
+    const databases = c.get("databases");
+    const user = c.get("user");
+    const { timesheetId } = c.req.param();
+
+    const timesheet = await databases.getDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, timesheetId);
+
+    if (timesheet.userId !== user.$id) {
+      return c.json({ error: "Only the submitter can withdraw this timesheet" }, 403);
+    }
+
+    const status = nextTimesheetStatus(timesheet.status, "withdraw");
+    if (!status) {
+      return c.json({ error: "Only submitted timesheets can be withdrawn" }, 400);
+    }
+
+    const updated = await databases.updateDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, timesheetId, {
+      status,
+      submittedAt: null,
+    });
+
+    return c.json({ data: updated });
+  })
+
+  // Approve a submitted week; its time logs stay locked
+  .post("/:timesheetId/approve", sessionMiddleware, async (c) => {
+    const databases = c.get("databases");
+    const user = c.get("user");
+    const { timesheetId } = c.req.param();
+
+    const timesheet = await databases.getDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, timesheetId);
+
+    const member = await getMember({
+      databases,
+      workspaceId: timesheet.workspaceId,
+      userId: user.$id,
+    });
+
+    if (!member) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const status = nextTimesheetStatus(timesheet.status, "approve");
+    if (!status) {
+      return c.json({ error: "This timesheet has already been decided" }, 400);
+    }
+
+    if (!(await canApproveTimesheet(databases, timesheet, user.$id))) {
+      return c.json({ error: "Forbidden: You are not an approver for this timesheet" }, 403);
+    }
+
+    const updated = await databases.updateDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, timesheetId, {
+      status,
+      decidedBy: user.$id,
+      decidedAt: new Date().toISOString(),
+      rejectionReason: null,
+    });
+
+    notifyTimesheetUsers({
+      userIds: [timesheet.userId],
+      type: "timesheet_approved",
+      title: "Timesheet Approved",
+      message: `${user.name || user.email} approved your timesheet for the week of ${timesheet.weekStart}`,
+      timesheet: updated,
+      triggeredBy: user.$id,
+    }).catch(() => { });
+
+    return c.json({ data: updated });
+  })
+
+  // Send a submitted week back with a reason; its time logs unlock
+  .post(
+    "/:timesheetId/reject",
+    sessionMiddleware,
+    zValidator("json", rejectTimesheetSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { timesheetId } = c.req.param();
+      const { reason } = c.req.valid("json");
+
+      const timesheet = await databases.getDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, timesheetId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: timesheet.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const status = nextTimesheetStatus(timesheet.status, "reject");
+      if (!status) {
+        return c.json({ error: "This timesheet has already been decided" }, 400);
+      }
+
+      if (!(await canApproveTimesheet(databases, timesheet, user.$id))) {
+        return c.json({ error: "Forbidden: You are not an approver for this timesheet" }, 403);
+      }
+
+      const updated = await databases.updateDocument<Timesheet>(DATABASE_ID, TIMESHEETS_ID, timesheetId, {
+        status,
+        decidedBy: user.$id,
+        decidedAt: new Date().toISOString(),
+        rejectionReason: reason,
+      });
+
+      notifyTimesheetUsers({
+        userIds: [timesheet.userId],
+        type: "timesheet_rejected",
+        title: "Timesheet Rejected",
+        message: `${user.name || user.email} rejected your timesheet for the week of ${timesheet.weekStart}: ${reason.slice(0, 200)}`,
+        timesheet: updated,
+        triggeredBy: user.$id,
+      }).catch(() => { });
+
+      return c.json({ data: updated });
+    }
+  );
+
+export default app;
@@ -0,0 +1,220 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  DEPARTMENTS_ID,
+  MEMBERS_ID,
+  ORGANIZATION_MEMBERS_ID,
+  ORG_MEMBER_DEPARTMENTS_ID,
+  PROJECT_MEMBERS_ID,
+  TIME_LOGS_ID,
+  TIMESHEETS_ID,
+  WORKSPACES_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { createNotification, NotificationType } from "@/lib/notifications";
+import { MemberRole, WorkspaceMemberRole } from "@/features/members/types";
+import { ProjectMemberRole, ProjectMemberStatus } from "@/features/project-teams/types";
+
+import { getTimesheetWeek, isTimesheetLocked } from "../timesheet-approval";
+import { TimeLog, Timesheet, TimesheetStatus } from "../types";
+
+/**
+ * Timesheets
+ *
+ * Who may approve a week: admins of any project the week has time in
+ * (workspace admins and org owners count, see resolveUserProjectAccess),
+ * and leads of the submitter's departments. Nobody approves their own.
+ */
+
+export async function getTimesheet(
+  databases: Databases,
+  { workspaceId, userId, weekStart }: { workspaceId: string; userId: string; weekStart: string }
+): Promise<Timesheet | null> {
+  const timesheets = await databases.listDocuments<Timesheet>(DATABASE_ID, TIMESHEETS_ID, [
+    Query.equal("workspaceId", workspaceId),
+    Query.equal("userId", userId),
+    Query.equal("weekStart", weekStart),
+    Query.limit(1),
+  ]);
+
+  return timesheets.documents[0] ?? null;
+}
+
+/**
+ * Why time logs on this day cannot change, or null when they can
+ */
+export async function getTimeLogLockError(
+  databases: Databases,
+  { workspaceId, userId, logDate }: { workspaceId: string; userId: string; logDate: string | Date }
+): Promise<string | null> {
+  const { weekStart } = getTimesheetWeek(logDate);
+  const timesheet = await getTimesheet(databases, { workspaceId, userId, weekStart });
+
+  if (!timesheet || !isTimesheetLocked(timesheet.status)) return null;
+
+  return timesheet.status === TimesheetStatus.APPROVED
+    ? `The timesheet for the week of ${weekStart} is approved and locked`
+    : `The timesheet for the week of ${weekStart} is submitted. Withdraw it to change its time logs`;
+}
+
+export async function listWeekTimeLogs(
+  databases: Databases,
+  { workspaceId, userId, weekStart, weekEnd }: { workspaceId: string; userId: string; weekStart: string; weekEnd: string }
+): Promise<TimeLog[]> {
+  const timeLogs = await databases.listDocuments<TimeLog>(DATABASE_ID, TIME_LOGS_ID, [
+    Query.equal("workspaceId", workspaceId),
+    Query.equal("userId", userId),
+    Query.greaterThanEqual("logDate", weekStart),
+    Query.lessThanEqual("logDate", weekEnd),
+    Query.limit(1000),
+  ]);
+
+  return timeLogs.documents;
+}
+
+/**
+ * Users leading a department the user belongs to, in the workspace's organization
+ */
+export async function getDepartmentLeadIds(
+  databases: Databases,
+  workspaceId: string,
+  userId: string
+): Promise<string[]> {
+  try {
+    const workspace = await databases.getDocument(DATABASE_ID, WORKSPACES_ID, workspaceId);
+    const organizationId = workspace.organizationId as string | null | undefined;
+    if (!organizationId) return [];
+
+    const orgMembers = await databases.listDocuments(DATABASE_ID, ORGANIZATION_MEMBERS_ID, [
+      Query.equal("organizationId", organizationId),
+      Query.equal("userId", userId),
+      Query.limit(1),
+    ]);
+    const orgMember = orgMembers.documents[0];
+    if (!orgMember) return [];
+
+    const assignments = await databases.listDocuments(DATABASE_ID, ORG_MEMBER_DEPARTMENTS_ID, [
+      Query.equal("orgMemberId", orgMember.$id),
+    ]);
+    const departmentIds = assignments.documents.map((a) => a.departmentId as string);
+    if (departmentIds.length === 0) return [];
+
+    const departments = await databases.listDocuments(DATABASE_ID, DEPARTMENTS_ID, [
+      Query.equal("$id", departmentIds),
+      Query.limit(departmentIds.length),
+    ]);
+
+    return Array.from(
+      new Set(
+        departments.documents
+          .map((department) => department.leadUserId as string | null | undefined)
+          .filter((id): id is string => !!id)
+      )
+    );
+  } catch {
+    // Workspaces outside an organization have no departments
+    return [];
+  }
+}
+
+export async function canApproveTimesheet(
+  databases: Databases,
+  timesheet: Timesheet,
+  userId: string,
+  leadIds?: string[]
+): Promise<boolean> {
+  if (timesheet.userId === userId) return false;
+
+  const leads = leadIds ?? await getDepartmentLeadIds(databases, timesheet.workspaceId, timesheet.userId);
+  if (leads.includes(userId)) return true;
+
+  const { resolveUserProjectAccess } = await import("@/lib/permissions/resolveUserProjectAccess");
+  for (const projectId of timesheet.projectIds ?? []) {
+    const access = await resolveUserProjectAccess(databases, userId, projectId);
+    if (access.hasAccess && access.isAdmin) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Who to notify about a submission. Workspace admins are only asked when
+ * the week's projects have no admins and the submitter no department lead.
+ */
+export async function getTimesheetApproverIds(
+  databases: Databases,
+  timesheet: Timesheet
+): Promise<string[]> {
+  const approverIds = new Set(await getDepartmentLeadIds(databases, timesheet.workspaceId, timesheet.userId));
+
+  if (timesheet.projectIds?.length) {
+    const projectAdmins = await databases.listDocuments(DATABASE_ID, PROJECT_MEMBERS_ID, [
+      Query.equal("projectId", timesheet.projectIds),
+      Query.equal("role", [ProjectMemberRole.PROJECT_OWNER, ProjectMemberRole.PROJECT_ADMIN]),
+      Query.equal("status", ProjectMemberStatus.ACTIVE),
+      Query.limit(500),
+    ]);
+    projectAdmins.documents.forEach((member) => approverIds.add(member.userId as string));
+  }
+
+  approverIds.delete(timesheet.userId);
+
+  if (approverIds.size === 0) {
+    const workspaceAdmins = await databases.listDocuments(DATABASE_ID, MEMBERS_ID, [
+      Query.equal("workspaceId", timesheet.workspaceId),
+      Query.equal("role", [MemberRole.OWNER, MemberRole.ADMIN, WorkspaceMemberRole.WS_ADMIN]),
+      Query.limit(100),
+    ]);
+    workspaceAdmins.documents.forEach((member) => approverIds.add(member.userId as string));
+    approverIds.delete(timesheet.userId);
+  }
+
+  return Array.from(approverIds);
+}
+
+/**
+ * In-app notifications about a timesheet; failures are logged, never thrown
+ */
+export async function notifyTimesheetUsers({
+  userIds,
+  type,
+  title,
+  message,
+  timesheet,
+  triggeredBy,
+}: {
+  userIds: string[];
+  type: Extract<NotificationType, "timesheet_submitted" | "timesheet_approved" | "timesheet_rejected">;
+  title: string;
+  message: string;
+  timesheet: Timesheet;
+  triggeredBy: string;
+}): Promise<void> {
+  const { databases } = await createAdminClient();
+
+  await Promise.all(
+    userIds.map((userId) =>
+      createNotification({
+        databases,
+        userId,
+        type,
+        title,
+        message,
+        taskId: "",
+        workspaceId: timesheet.workspaceId,
+        triggeredBy,
+        metadata: {
+          timesheetId: timesheet.$id,
+          weekStart: timesheet.weekStart,
+          totalHours: timesheet.totalHours,
+          ...(timesheet.rejectionReason ? { rejectionReason: timesheet.rejectionReason } : {}),
+        },
+      }).catch((error) => {
+        console.error("[Timesheets] Failed to notify:", error instanceof Error ? error.message : error);
+      })
+    )
+  );
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_TIMER_HOURS,
+  formatElapsed,
+  getTimerIdleSince,
+  resolveTimerStop,
+  timerDurationHours,
+} from "./timer";
+
+describe("timerDurationHours", () => {
+  it("rounds to hundredths of an hour", () => {
+    expect(timerDurationHours("2026-03-04T09:00:00.000Z", "2026-03-04T10:20:00.000Z")).toBe(1.33);
+  });
+
+  it("never goes below zero or above the time log limit", () => {
+    expect(timerDurationHours("2026-03-04T10:00:00.000Z", "2026-03-04T09:00:00.000Z")).toBe(0);
+    expect(timerDurationHours("2026-03-01T09:00:00.000Z", "2026-03-04T09:00:00.000Z")).toBe(MAX_TIMER_HOURS);
+  });
+});
+
+describe("getTimerIdleSince", () => {
+  const now = new Date("2026-03-04T12:00:00.000Z");
+
+  it("is null while heartbeats are recent", () => {
+    const timer = { startedAt: "2026-03-04T09:00:00.000Z", lastActiveAt: "2026-03-04T11:50:00.000Z" };
+    expect(getTimerIdleSince(timer, now)).toBeNull();
+  });
+
+  it("returns the last heartbeat once the timer is stale", () => {
+    const timer = { startedAt: "2026-03-04T09:00:00.000Z", lastActiveAt: "2026-03-04T10:30:00.000Z" };
+    expect(getTimerIdleSince(timer, now)?.toISOString()).toBe("2026-03-04T10:30:00.000Z");
+  });
+});
+
+describe("resolveTimerStop", () => {
+  const timer = { startedAt: "2026-03-04T09:00:00.000Z", lastActiveAt: "2026-03-04T10:00:00.000Z" };
+  const now = new Date("2026-03-04T12:00:00.000Z");
+
+  it("stops now unless another moment is asked for", () => {
+    expect(resolveTimerStop(timer, undefined, now)).toEqual(now);
+    expect(resolveTimerStop(timer, "not a date", now)).toEqual(now);
+    expect(resolveTimerStop(timer, "2026-03-04T10:00:00.000Z", now).toISOString()).toBe("2026-03-04T10:00:00.000Z");
+  });
+
+  it("keeps the stop between start and now", () => {
+    expect(resolveTimerStop(timer, "2026-03-04T08:00:00.000Z", now).toISOString()).toBe(timer.startedAt);
+    expect(resolveTimerStop(timer, "2026-03-04T13:00:00.000Z", now)).toEqual(now);
+  });
+});
+
+describe("formatElapsed", () => {
+  it("shows minutes and seconds, and hours when there are any", () => {
+    expect(formatElapsed(125)).toBe("2:05");
+    expect(formatElapsed(3725)).toBe("1:02:05");
+    expect(formatElapsed(-5)).toBe("0:00");
+  });
+});
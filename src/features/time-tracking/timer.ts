@@ -0,0 +1,63 @@
+import { Timer } from "./types";
+
+/**
+ * Running Timers
+ *
+ * A timer belongs to one user and runs on one work item. While a browser
+ * with the app is in use it sends heartbeats (lastActiveAt); a timer whose
+ * last heartbeat is older than the idle threshold is stale, and the user
+ * is asked whether to keep or drop the time since.
+ */
+
+export const TIMER_HEARTBEAT_SECONDS = 60;
+export const TIMER_IDLE_MINUTES = 15;
+
+// Time logs hold at most 24 hours and at least 0.01 (36 seconds)
+export const MAX_TIMER_HOURS = 24;
+export const MIN_TIMER_HOURS = 0.01;
+
+type TimerTimes = Pick<Timer, "startedAt" | "lastActiveAt">;
+
+/**
+ * Hours between start and stop, rounded to the time log precision
+ */
+export function timerDurationHours(startedAt: string | Date, stoppedAt: string | Date): number {
+  const ms = new Date(stoppedAt).getTime() - new Date(startedAt).getTime();
+  const hours = Math.round((Math.max(ms, 0) / 3_600_000) * 100) / 100;
+  return Math.min(hours, MAX_TIMER_HOURS);
+}
+
+/**
+ * When the timer went idle, or null while it is still in use
+ */
+export function getTimerIdleSince(timer: TimerTimes, now: Date = new Date()): Date | null {
+  const lastActive = new Date(timer.lastActiveAt);
+  return now.getTime() - lastActive.getTime() > TIMER_IDLE_MINUTES * 60_000 ? lastActive : null;
+}
+
+/**
+ * The moment to stop at: the requested one kept between start and now
+ */
+export function resolveTimerStop(
+  timer: TimerTimes,
+  stopAt?: string | Date | null,
+  now: Date = new Date()
+): Date {
+  if (!stopAt) return now;
+
+  const requested = new Date(stopAt).getTime();
+  if (Number.isNaN(requested)) return now;
+
+  const start = new Date(timer.startedAt).getTime();
+  return new Date(Math.min(Math.max(requested, start), now.getTime()));
+}
+
+// 3725 -> "1:02:05", 125 -> "2:05"
+export function formatElapsed(totalSeconds: number): string {
+  const seconds = Math.max(Math.floor(totalSeconds), 0);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
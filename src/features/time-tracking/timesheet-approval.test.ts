@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getTimesheetWeek,
+  isTimesheetLocked,
+  nextTimesheetStatus,
+  summarizeTimesheetLogs,
+} from "./timesheet-approval";
+import { TimesheetStatus } from "./types";
+
+describe("nextTimesheetStatus", () => {
+  it("submits drafts and rejected weeks", () => {
+    expect(nextTimesheetStatus(null, "submit")).toBe(TimesheetStatus.SUBMITTED);
+    expect(nextTimesheetStatus(TimesheetStatus.REJECTED, "submit")).toBe(TimesheetStatus.SUBMITTED);
+    expect(nextTimesheetStatus(TimesheetStatus.SUBMITTED, "submit")).toBeNull();
+  });
+
+  it("decides and withdraws only submitted weeks", () => {
+    expect(nextTimesheetStatus(TimesheetStatus.SUBMITTED, "approve")).toBe(TimesheetStatus.APPROVED);
+    expect(nextTimesheetStatus(TimesheetStatus.SUBMITTED, "reject")).toBe(TimesheetStatus.REJECTED);
+    expect(nextTimesheetStatus(TimesheetStatus.SUBMITTED, "withdraw")).toBe(TimesheetStatus.DRAFT);
+    expect(nextTimesheetStatus(TimesheetStatus.APPROVED, "withdraw")).toBeNull();
+    expect(nextTimesheetStatus(TimesheetStatus.APPROVED, "reject")).toBeNull();
+    expect(nextTimesheetStatus(TimesheetStatus.DRAFT, "approve")).toBeNull();
+  });
+});
+
+describe("isTimesheetLocked", () => {
+  it("locks submitted and approved weeks", () => {
+    expect(isTimesheetLocked(TimesheetStatus.SUBMITTED)).toBe(true);
+    expect(isTimesheetLocked(TimesheetStatus.APPROVED)).toBe(true);
+    expect(isTimesheetLocked(TimesheetStatus.REJECTED)).toBe(false);
+    expect(isTimesheetLocked(undefined)).toBe(false);
+  });
+});
+
+describe("getTimesheetWeek", () => {
+  it("runs Sunday to Saturday and reads stored log dates by calendar day", () => {
+    expect(getTimesheetWeek("2026-03-04T00:00:00.000+00:00")).toEqual({
+      weekStart: "2026-03-01",
+      weekEnd: "2026-03-07",
+    });
+    expect(getTimesheetWeek("2026-03-01")).toEqual({ weekStart: "2026-03-01", weekEnd: "2026-03-07" });
+    expect(getTimesheetWeek("2026-03-07").weekStart).toBe("2026-03-01");
+  });
+});
+
+describe("summarizeTimesheetLogs", () => {
+  it("totals hours overall and per project", () => {
+    expect(
+      summarizeTimesheetLogs([
+        { projectId: "p1", loggedHours: 1.1 },
+        { projectId: "p2", loggedHours: 2.2 },
+        { projectId: "p1", loggedHours: 3 },
+      ])
+    ).toEqual({ totalHours: 6.3, hoursByProject: { p1: 4.1, p2: 2.2 } });
+  });
+});
@@ -0,0 +1,73 @@
+import { endOfWeek, format, startOfWeek } from "date-fns";
+
+import { TimesheetStatus } from "./types";
+
+/**
+ * Timesheet Approval
+ *
+ * A week of time logs goes draft -> submitted -> approved, or back from
+ * submitted to rejected (with a reason) or draft (withdrawn). Submitted and
+ * approved weeks are locked: their time logs cannot be added, edited or
+ * deleted. Weeks start on Sunday, like the timesheet view.
+ */
+
+export type TimesheetAction = "submit" | "withdraw" | "approve" | "reject";
+
+const TRANSITIONS: Record<TimesheetAction, { from: TimesheetStatus[]; to: TimesheetStatus }> = {
+  submit: { from: [TimesheetStatus.DRAFT, TimesheetStatus.REJECTED], to: TimesheetStatus.SUBMITTED },
+  withdraw: { from: [TimesheetStatus.SUBMITTED], to: TimesheetStatus.DRAFT },
+  approve: { from: [TimesheetStatus.SUBMITTED], to: TimesheetStatus.APPROVED },
+  reject: { from: [TimesheetStatus.SUBMITTED], to: TimesheetStatus.REJECTED },
+};
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  [TimesheetStatus.DRAFT]: "Draft",
+  [TimesheetStatus.SUBMITTED]: "Submitted",
+  [TimesheetStatus.APPROVED]: "Approved",
+  [TimesheetStatus.REJECTED]: "Rejected",
+};
+
+/**
+ * Status after the action, or null when the action does not apply
+ */
+export function nextTimesheetStatus(
+  current: TimesheetStatus | null | undefined,
+  action: TimesheetAction
+): TimesheetStatus | null {
+  const transition = TRANSITIONS[action];
+  return transition.from.includes(current ?? TimesheetStatus.DRAFT) ? transition.to : null;
+}
+
+export function isTimesheetLocked(status: TimesheetStatus | null | undefined): boolean {
+  return status === TimesheetStatus.SUBMITTED || status === TimesheetStatus.APPROVED;
+}
+
+/**
+ * The week a day belongs to. Takes a date or a stored logDate; only the
+ * calendar day of a stored value counts, not its time zone.
+ */
+export function getTimesheetWeek(date: string | Date): { weekStart: string; weekEnd: string } {
+  const day = typeof date === "string" ? new Date(`${date.slice(0, 10)}T00:00:00`) : date;
+
+  return {
+    weekStart: format(startOfWeek(day), "yyyy-MM-dd"),
+    weekEnd: format(endOfWeek(day), "yyyy-MM-dd"),
+  };
+}
+
+/**
+ * Hours in total and per project, as frozen on submission
+ */
+export function summarizeTimesheetLogs(
+  logs: { projectId: string; loggedHours: number }[]
+): { totalHours: number; hoursByProject: Record<string, number> } {
+  const hoursByProject: Record<string, number> = {};
+  let total = 0;
+
+  for (const log of logs) {
+    hoursByProject[log.projectId] = (hoursByProject[log.projectId] ?? 0) + log.loggedHours;
+    total += log.loggedHours;
+  }
+
+  return { totalHours: Math.round(total * 100) / 100, hoursByProject };
+}
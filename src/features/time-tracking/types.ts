@@ -1,6 +1,7 @@
 import { Models } from "node-appwrite";
 import { Task } from "@/features/tasks/types";
 import { Project } from "@/features/projects/types";
+import { ProjectMemberRole } from "@/features/project-teams/types";
 
 export type TimeLog = Models.Document & {
   taskId: string;
@@ -12,6 +13,7 @@ export type TimeLog = Models.Document & {
   description: string;
   startTime?: string;
   endTime?: string;
+  isBillable?: boolean;
   user?: {
     userId: string;
     name: string;
@@ -39,6 +41,10 @@ export type TimesheetWeek = {
   weekEnd: string;
   totalHours: number;
   entries: TimeEntry[];
+  // Approval state; DRAFT with a null timesheetId until first submitted
+  timesheetId: string | null;
+  status: TimesheetStatus;
+  rejectionReason: string | null;
 };
 
 export type UserTimesheet = {
@@ -55,7 +61,96 @@ export type EstimateVsActual = {
   projectName: string;
   estimatedHours: number;
   actualHours: number;
+  billableHours: number;
   variance: number;
   variancePercent: number;
   status: string;
 };
+
+// A running timer; stopping it writes a TimeLog and removes the timer
+export type Timer = Models.Document & {
+  userId: string;
+  taskId: string;
+  projectId: string;
+  workspaceId: string;
+  description?: string | null;
+  startedAt: string;
+  lastActiveAt: string;
+};
+
+export type PopulatedTimer = Timer & {
+  task: {
+    $id: string;
+    key?: string;
+    title: string;
+  } | null;
+};
+
+// Draft is the absence of a submission; REJECTED weeks are editable again
+export enum TimesheetStatus {
+  DRAFT = "DRAFT",
+  SUBMITTED = "SUBMITTED",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+}
+
+// One user's time logs in one workspace for one week
+export type Timesheet = Models.Document & {
+  workspaceId: string;
+  userId: string;
+  weekStart: string; // yyyy-MM-dd
+  weekEnd: string;
+  status: TimesheetStatus;
+  totalHours: number;
+  projectIds: string[];
+  submittedAt?: string | null;
+  decidedBy?: string | null;
+  decidedAt?: string | null;
+  rejectionReason?: string | null;
+};
+
+export type PopulatedTimesheet = Timesheet & {
+  userName: string;
+  userEmail: string;
+  decidedByName: string | null;
+  projects: { $id: string; name: string; hours: number }[];
+  entries: TimeEntry[];
+  canDecide: boolean;
+};
+
+// Hourly rate for billable time. Scope: projectId null applies to every
+// project; userId or role narrows it to one member or project role.
+export type RateCard = Models.Document & {
+  workspaceId: string;
+  projectId?: string | null;
+  userId?: string | null;
+  role?: ProjectMemberRole | null;
+  hourlyRate: number;
+  currency: string;
+  createdBy: string;
+};
+
+export type PopulatedRateCard = RateCard & {
+  userName: string | null;
+  projectName: string | null;
+};
+
+export type CostReportRow = {
+  id: string | null;
+  name: string;
+  hours: number;
+  billableHours: number;
+  amount: number;
+  // Billable hours no rate card covers; they count as zero
+  unratedHours: number;
+};
+
+export type CostReport = {
+  currency: string;
+  startDate: string;
+  endDate: string;
+  totals: Omit<CostReportRow, "id" | "name">;
+  projects: (CostReportRow & { projectCurrency: string; projectAmount: number })[];
+  epics: (CostReportRow & { projectId: string })[];
+  members: CostReportRow[];
+};
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["transition-approvals"][":requestId"]["cancel"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["transition-approvals"][":requestId"]["cancel"]["$post"]>;
+
+export const useCancelTransitionApproval = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api["transition-approvals"][":requestId"]["cancel"].$post({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to cancel request.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Approval request cancelled.");
+      queryClient.invalidateQueries({ queryKey: ["transition-approvals"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to cancel request.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,41 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["transition-approvals"][":requestId"]["approve"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["transition-approvals"][":requestId"]["approve"]["$post"]> & {
+  decision: "approve" | "reject";
+};
+
+export const useDecideTransitionApproval = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param, json, decision }) => {
+      const endpoint = client.api["transition-approvals"][":requestId"][decision];
+      const response = await endpoint.$post({ param, json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to update approval request.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: (_, variables) => {
+      toast.success(variables.decision === "approve" ? "Transition approved." : "Transition rejected.");
+      queryClient.invalidateQueries({ queryKey: ["transition-approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["work-items"] });
+      queryClient.invalidateQueries({ queryKey: ["task"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update approval request.");
+    },
+  });
+
+  return mutation;
+};
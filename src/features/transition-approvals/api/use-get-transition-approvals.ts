@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+import { TransitionApprovalStatus } from "../types";
+
+interface UseGetTransitionApprovalsProps {
+  workspaceId: string;
+  projectId?: string;
+  workItemId?: string;
+  status?: TransitionApprovalStatus;
+  enabled?: boolean;
+}
+
+export const useGetTransitionApprovals = ({
+  workspaceId,
+  projectId,
+  workItemId,
+  status,
+  enabled = true,
+}: UseGetTransitionApprovalsProps) => {
+  const query = useQuery({
+    queryKey: ["transition-approvals", workspaceId, projectId, workItemId, status],
+    enabled: enabled && !!workspaceId,
+    queryFn: async () => {
+      const response = await client.api["transition-approvals"].$get({
+        query: {
+          workspaceId,
+          projectId,
+          workItemId,
+          status,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch approval requests.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheck } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+import { useCreateTransitionApproval } from "../api/use-create-transition-approval";
+
+interface RequestApprovalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workItemId: string;
+  toStatus: string;
+  toStatusLabel: string;
+}
+
+export const RequestApprovalDialog = ({
+  open,
+  onOpenChange,
+  workItemId,
+  toStatus,
+  toStatusLabel,
+}: RequestApprovalDialogProps) => {
+  const [comment, setComment] = useState("");
+  const { mutate: createApproval, isPending } = useCreateTransitionApproval();
+
+  const handleClose = (nextOpen: boolean) => {
+    if (!nextOpen) setComment("");
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = () => {
+    createApproval(
+      { json: { workItemId, toStatus, comment: comment.trim() || undefined } },
+      { onSuccess: () => handleClose(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="size-5" />
+            Approval Required
+          </DialogTitle>
+          <DialogDescription>
+            Moving this item to <span className="font-medium text-foreground">{toStatusLabel}</span> requires
+            approval. The approvers will be notified and the status will change once approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="approval-comment" className="text-xs">Comment (optional)</Label>
+          <Textarea
+            id="approval-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Why should this move forward?"
+            rows={3}
+            maxLength={2000}
+          />
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => handleClose(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isPending}>
+            {isPending ? "Requesting..." : "Request Approval"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowRight, Check, ChevronDown, ChevronRight, ShieldCheck, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useCurrent } from "@/features/auth/api/use-current";
+
+import { useGetTransitionApprovals } from "../api/use-get-transition-approvals";
+import { useDecideTransitionApproval } from "../api/use-decide-transition-approval";
+import { useCancelTransitionApproval } from "../api/use-cancel-transition-approval";
+import { TransitionApprovalStatus } from "../types";
+
+interface TransitionApprovalsSectionProps {
+  workspaceId: string;
+  workItemId: string;
+}
+
+/**
+ * Pending approval requests for a work item, with approve/reject controls
+ * for approvers. Renders nothing when there are no pending requests.
+ */
+export const TransitionApprovalsSection = ({
+  workspaceId,
+  workItemId,
+}: TransitionApprovalsSectionProps) => {
+  const [open, setOpen] = useState(true);
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const { data: user } = useCurrent();
+  const { data } = useGetTransitionApprovals({
+    workspaceId,
+    workItemId,
+    status: TransitionApprovalStatus.PENDING,
+  });
+  const { mutate: decide, isPending: isDeciding } = useDecideTransitionApproval();
+  const { mutate: cancel, isPending: isCancelling } = useCancelTransitionApproval();
+
+  const requests = data?.documents ?? [];
+  if (requests.length === 0) return null;
+
+  const handleDecide = (requestId: string, decision: "approve" | "reject") => {
+    decide(
+      { param: { requestId }, json: { comment: comments[requestId]?.trim() || undefined }, decision },
+      { onSuccess: () => setComments((prev) => ({ ...prev, [requestId]: "" })) }
+    );
+  };
+
+  return (
+    <div className="px-2 mb-2 mt-2 border-t pt-4">
+      <div onClick={() => setOpen(!open)} className="flex gap-1 cursor-pointer items-center flex-row">
+        {open ? (
+          <ChevronDown className="size-3 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="size-3 text-muted-foreground" />
+        )}
+        <span className="text-xs text-muted-foreground ">Pending Approval</span>
+      </div>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {requests.map((request) => (
+            <div key={request.$id} className="rounded-md border border-border p-2 space-y-2">
+              <div className="flex items-center gap-1.5 text-xs">
+                <ShieldCheck className="size-3.5 text-amber-500" />
+                <span>{request.fromStatusName}</span>
+                <ArrowRight className="size-3 text-muted-foreground" />
+                <span className="font-medium">{request.toStatusName}</span>
+              </div>
+              <p className="text-[11px] text-muted-foreground">
+                Requested by {request.requestedByName} {formatDistanceToNow(new Date(request.$createdAt), { addSuffix: true })}
+              </p>
+              {request.requestComment && (
+                <p className="text-xs bg-muted rounded px-2 py-1">{request.requestComment}</p>
+              )}
+
+              {request.canDecide && (
+                <>
+                  <Textarea
+                    value={comments[request.$id] ?? ""}
+                    onChange={(e) => setComments((prev) => ({ ...prev, [request.$id]: e.target.value }))}
+                    placeholder="Add a comment..."
+                    rows={2}
+                    maxLength={2000}
+                    className="text-xs min-h-0"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="xs"
+                      onClick={() => handleDecide(request.$id, "approve")}
+                      disabled={isDeciding}
+                    >
+                      <Check className="size-3 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="xs"
+                      variant="outline"
+                      onClick={() => handleDecide(request.$id, "reject")}
+                      disabled={isDeciding}
+                    >
+                      <X className="size-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {!request.canDecide && request.requestedBy === user?.$id && (
+                <Button
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => cancel({ param: { requestId: request.$id } })}
+                  disabled={isCancelling}
+                >
+                  Cancel request
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+import { TransitionApprovalStatus } from "./types";
+
+export const createTransitionApprovalSchema = z.object({
+  workItemId: z.string().min(1),
+  toStatus: z.string().min(1, "Target status is required"),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const decideTransitionApprovalSchema = z.object({
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const approveTransitionApprovalSchema = decideTransitionApprovalSchema.extend({
+  // Confirms a move past a WIP limit where the project allows overrides
+  overrideWipLimit: z.boolean().optional(),
+});
+
+export const getTransitionApprovalsSchema = z.object({
+  workspaceId: z.string(),
+  projectId: z.string().optional(),
+  workItemId: z.string().optional(),
+  status: z.nativeEnum(TransitionApprovalStatus).optional(),
+});
@@ -0,0 +1,475 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { ID, Query } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  PROJECTS_ID,
+  TASKS_ID,
+  TRANSITION_APPROVALS_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { sessionMiddleware } from "@/lib/session-middleware";
+import { dispatchWorkitemEvent } from "@/lib/notifications";
+import {
+  createApprovalDecidedEvent,
+  createApprovalRequestedEvent,
+} from "@/lib/notifications/events";
+import { getMember } from "@/features/members/utils";
+import { WipLimitExceededError } from "@/features/projects/server/wip-limits";
+import { Project } from "@/features/projects/types";
+import { Task } from "@/features/tasks/types";
+import {
+  applyStatusTransition,
+  findTransitionByStatusKeys,
+  getStatusNamesByKey,
+} from "@/features/workflows/server/transition-utils";
+import { runAutoTransitions } from "@/features/workflows/server/auto-transitions";
+
+import {
+  createTransitionApprovalSchema,
+  approveTransitionApprovalSchema,
+  decideTransitionApprovalSchema,
+  getTransitionApprovalsSchema,
+} from "../schemas";
+import {
+  PopulatedTransitionApprovalRequest,
+  TransitionApprovalRequest,
+  TransitionApprovalStatus,
+} from "../types";
+import {
+  canDecideApproval,
+  getApproverUserIds,
+  getUserProjectTeamIds,
+} from "./utils";
+
+const app = new Hono()
+  // List approval requests (for a work item, a project, or the whole workspace)
+  .get(
+    "/",
+    sessionMiddleware,
+    zValidator("query", getTransitionApprovalsSchema),
+    async (c) => {
+      const { users } = await createAdminClient();
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, workItemId, status } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const queries = [
+        Query.equal("workspaceId", workspaceId),
+        Query.orderDesc("$createdAt"),
+        Query.limit(100),
+      ];
+      if (projectId) queries.push(Query.equal("projectId", projectId));
+      if (workItemId) queries.push(Query.equal("workItemId", workItemId));
+      if (status) queries.push(Query.equal("status", status));
+
+      const requests = await databases.listDocuments<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        queries
+      );
+
+      // Only return requests from projects the user can see
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const accessByProject = new Map<string, boolean>();
+      const teamIdsByProject = new Map<string, string[]>();
+      const visible: TransitionApprovalRequest[] = [];
+
+      for (const request of requests.documents) {
+        if (!accessByProject.has(request.projectId)) {
+          const access = await resolveUserProjectAccess(databases, user.$id, request.projectId);
+          accessByProject.set(
+            request.projectId,
+            access.hasAccess && hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)
+          );
+        }
+        if (accessByProject.get(request.projectId)) {
+          visible.push(request);
+        }
+      }
+
+      const statusNames = await getStatusNamesByKey(databases, visible.map((r) => r.workflowId));
+
+      const userNames = new Map<string, string>();
+      const getUserName = async (userId: string) => {
+        if (!userNames.has(userId)) {
+          try {
+            const found = await users.get(userId);
+            userNames.set(userId, found.name || found.email);
+          } catch {
+            userNames.set(userId, "Unknown user");
+          }
+        }
+        return userNames.get(userId)!;
+      };
+
+      const populated: PopulatedTransitionApprovalRequest[] = [];
+      for (const request of visible) {
+        let canDecide = false;
+        if (request.status === TransitionApprovalStatus.PENDING) {
+          if (!teamIdsByProject.has(request.projectId)) {
+            teamIdsByProject.set(
+              request.projectId,
+              await getUserProjectTeamIds(databases, user.$id, request.projectId)
+            );
+          }
+          canDecide = await canDecideApproval(databases, request, user.$id, teamIdsByProject.get(request.projectId));
+        }
+
+        populated.push({
+          ...request,
+          fromStatusName: statusNames.get(`${request.workflowId}:${request.fromStatus}`) ?? request.fromStatus,
+          toStatusName: statusNames.get(`${request.workflowId}:${request.toStatus}`) ?? request.toStatus,
+          requestedByName: await getUserName(request.requestedBy),
+          decidedByName: request.decidedBy ? await getUserName(request.decidedBy) : null,
+          canDecide,
+        });
+      }
+
+      return c.json({ data: { documents: populated, total: populated.length } });
+    }
+  )
+
+  // Submit a request to perform a transition that requires approval
+  .post(
+    "/",
+    sessionMiddleware,
+    zValidator("json", createTransitionApprovalSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workItemId, toStatus, comment } = c.req.valid("json");
+
+      const workItem = await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, workItemId);
+
+      const member = await getMember({
+        databases,
+        workspaceId: workItem.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, workItem.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.EDIT_TASKS)) {
+        return c.json({ error: "Forbidden: No permission to edit tasks in this project" }, 403);
+      }
+
+      if (workItem.status === toStatus) {
+        return c.json({ error: "Work item is already in this status" }, 400);
+      }
+
+      const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, workItem.projectId);
+      if (!project.workflowId) {
+        return c.json({ error: "This project does not use a workflow" }, 400);
+      }
+
+      const found = await findTransitionByStatusKeys(databases, project.workflowId, workItem.status, toStatus);
+      if (!found) {
+        return c.json({ error: "This transition is not allowed in the workflow" }, 400);
+      }
+
+      const { transition, fromStatusDoc, toStatusDoc } = found;
+      if (!transition.requiresApproval) {
+        return c.json({ error: "This transition does not require approval" }, 400);
+      }
+
+      // Role/team restrictions still apply to the requester
+      if (transition.allowedMemberRoles?.length && !transition.allowedMemberRoles.includes(member.role as string)) {
+        return c.json({ error: `Your role (${member.role}) cannot perform this transition` }, 403);
+      }
+      if (transition.allowedTeamIds?.length) {
+        const teamIds = await getUserProjectTeamIds(databases, user.$id, workItem.projectId);
+        if (!transition.allowedTeamIds.some((teamId) => teamIds.includes(teamId))) {
+          return c.json({ error: "Your team does not have permission to perform this transition" }, 403);
+        }
+      }
+
+      const pending = await databases.listDocuments<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        [
+          Query.equal("workItemId", workItemId),
+          Query.equal("status", TransitionApprovalStatus.PENDING),
+        ]
+      );
+
+      if (pending.documents.some((r) => r.toStatus === toStatus)) {
+        return c.json({ error: "An approval request for this transition is already pending" }, 409);
+      }
+
+      const approverTeamIds = transition.approverTeamIds ?? [];
+
+      const request = await databases.createDocument<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        ID.unique(),
+        {
+          workspaceId: workItem.workspaceId,
+          projectId: workItem.projectId,
+          workItemId,
+          workflowId: project.workflowId,
+          transitionId: transition.$id,
+          fromStatus: workItem.status,
+          toStatus,
+          requestedBy: user.$id,
+          requestComment: comment || null,
+          status: TransitionApprovalStatus.PENDING,
+          approverTeamIds,
+        }
+      );
+
+      // Notify approver team members
+      const approverUserIds = await getApproverUserIds(databases, workItem.projectId, approverTeamIds)
+        .catch(() => [] as string[]);
+
+      const event = createApprovalRequestedEvent(
+        workItem,
+        user.$id,
+        user.name || user.email || "Someone",
+        request.$id,
+        approverUserIds,
+        fromStatusDoc.name,
+        toStatusDoc.name,
+        comment
+      );
+      dispatchWorkitemEvent(event).catch(() => { });
+
+      return c.json({ data: request });
+    }
+  )
+
+  // Approve a pending request and apply the status change
+  .post(
+    "/:requestId/approve",
+    sessionMiddleware,
+    zValidator("json", approveTransitionApprovalSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { requestId } = c.req.param();
+      const { comment, overrideWipLimit } = c.req.valid("json");
+
+      const request = await databases.getDocument<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        requestId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: request.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (request.status !== TransitionApprovalStatus.PENDING) {
+        return c.json({ error: "This request has already been decided" }, 400);
+      }
+
+      if (!(await canDecideApproval(databases, request, user.$id))) {
+        return c.json({ error: "Forbidden: You are not an approver for this transition" }, 403);
+      }
+
+      const workItem = await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, request.workItemId);
+
+      // The item moved since the request was made; the request no longer applies
+      if (workItem.status !== request.fromStatus) {
+        await databases.updateDocument(DATABASE_ID, TRANSITION_APPROVALS_ID, requestId, {
+          status: TransitionApprovalStatus.CANCELLED,
+          decidedAt: new Date().toISOString(),
+        });
+        return c.json({ error: "The work item's status has changed since this request was made" }, 409);
+      }
+
+      const statusNames = await getStatusNamesByKey(databases, [request.workflowId]);
+      const fromStatusName = statusNames.get(`${request.workflowId}:${request.fromStatus}`) ?? request.fromStatus;
+      const toStatusName = statusNames.get(`${request.workflowId}:${request.toStatus}`) ?? request.toStatus;
+      const userName = user.name || user.email || "Someone";
+
+      // Move first: a full column leaves the request pending
+      let updatedWorkItem: Task;
+      try {
+        updatedWorkItem = await applyStatusTransition({
+          databases,
+          workItem,
+          toStatus: request.toStatus,
+          fromStatusName,
+          toStatusName,
+          triggeredBy: user.$id,
+          triggeredByName: userName,
+          overrideWipLimit,
+        });
+      } catch (error) {
+        if (error instanceof WipLimitExceededError) {
+          return c.json({
+            error: error.message,
+            code: "WIP_LIMIT_EXCEEDED",
+            breaches: error.check.breaches,
+            canOverride: error.check.canOverride,
+          }, 409);
+        }
+        throw error;
+      }
+
+      const updatedRequest = await databases.updateDocument<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        requestId,
+        {
+          status: TransitionApprovalStatus.APPROVED,
+          decidedBy: user.$id,
+          decisionComment: comment || null,
+          decidedAt: new Date().toISOString(),
+        }
+      );
+
+      const event = createApprovalDecidedEvent(
+        updatedWorkItem,
+        user.$id,
+        userName,
+        true,
+        request.$id,
+        request.requestedBy,
+        fromStatusName,
+        toStatusName,
+        comment
+      );
+      dispatchWorkitemEvent(event).catch(() => { });
+
+      // Follow-up automation: APPROVAL_RECEIVED transitions, and the parent's
+      // ALL_SUBTASKS_DONE check if this item is now closed
+      runAutoTransitions(updatedWorkItem.$id, "APPROVAL_RECEIVED").catch(() => { });
+      if (updatedWorkItem.parentId) {
+        runAutoTransitions(updatedWorkItem.parentId, "ALL_SUBTASKS_DONE").catch(() => { });
+      }
+
+      return c.json({ data: updatedRequest });
+    }
+  )
+
+  // Reject a pending request
+  .post(
+    "/:requestId/reject",
+    sessionMiddleware,
+    zValidator("json", decideTransitionApprovalSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { requestId } = c.req.param();
+      const { comment } = c.req.valid("json");
+
+      const request = await databases.getDocument<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        requestId
+      );
+
+      const member = await getMember({
+        databases,
+        workspaceId: request.workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      if (request.status !== TransitionApprovalStatus.PENDING) {
+        return c.json({ error: "This request has already been decided" }, 400);
+      }
+
+      if (!(await canDecideApproval(databases, request, user.$id))) {
+        return c.json({ error: "Forbidden: You are not an approver for this transition" }, 403);
+      }
+
+      const updatedRequest = await databases.updateDocument<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        requestId,
+        {
+          status: TransitionApprovalStatus.REJECTED,
+          decidedBy: user.$id,
+          decisionComment: comment || null,
+          decidedAt: new Date().toISOString(),
+        }
+      );
+
+      try {
+        const workItem = await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, request.workItemId);
+        const statusNames = await getStatusNamesByKey(databases, [request.workflowId]);
+        const event = createApprovalDecidedEvent(
+          workItem,
+          user.$id,
+          user.name || user.email || "Someone",
+          false,
+          request.$id,
+          request.requestedBy,
+          statusNames.get(`${request.workflowId}:${request.fromStatus}`) ?? request.fromStatus,
+          statusNames.get(`${request.workflowId}:${request.toStatus}`) ?? request.toStatus,
+          comment
+        );
+        dispatchWorkitemEvent(event).catch(() => { });
+      } catch {
+        // Work item may have been deleted - nothing to notify about
+      }
+
+      return c.json({ data: updatedRequest });
+    }
+  )
+
+  // Withdraw a pending request (requester only)
+  .post(
+    "/:requestId/cancel",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { requestId } = c.req.param();
+
+      const request = await databases.getDocument<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        requestId
+      );
+
+      if (request.requestedBy !== user.$id) {
+        return c.json({ error: "Only the requester can cancel this request" }, 403);
+      }
+
+      if (request.status !== TransitionApprovalStatus.PENDING) {
+        return c.json({ error: "This request has already been decided" }, 400);
+      }
+
+      const updatedRequest = await databases.updateDocument<TransitionApprovalRequest>(
+        DATABASE_ID,
+        TRANSITION_APPROVALS_ID,
+        requestId,
+        {
+          status: TransitionApprovalStatus.CANCELLED,
+          decidedAt: new Date().toISOString(),
+        }
+      );
+
+      return c.json({ data: updatedRequest });
+    }
+  );
+
+export default app;
@@ -0,0 +1,68 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import { DATABASE_ID, PROJECT_TEAM_MEMBERS_ID } from "@/config";
+
+import { TransitionApprovalRequest } from "../types";
+
+/**
+ * Project-scoped team IDs the user belongs to.
+ */
+export async function getUserProjectTeamIds(
+  databases: Databases,
+  userId: string,
+  projectId: string
+): Promise<string[]> {
+  const memberships = await databases.listDocuments(
+    DATABASE_ID,
+    PROJECT_TEAM_MEMBERS_ID,
+    [Query.equal("userId", userId), Query.equal("projectId", projectId)]
+  );
+
+  return memberships.documents.map((m) => m.teamId as string);
+}
+
+/**
+ * User IDs of everyone in the given project teams.
+ */
+export async function getApproverUserIds(
+  databases: Databases,
+  projectId: string,
+  teamIds: string[]
+): Promise<string[]> {
+  if (teamIds.length === 0) return [];
+
+  const memberships = await databases.listDocuments(
+    DATABASE_ID,
+    PROJECT_TEAM_MEMBERS_ID,
+    [Query.equal("projectId", projectId), Query.equal("teamId", teamIds), Query.limit(500)]
+  );
+
+  return Array.from(new Set(memberships.documents.map((m) => m.userId as string)));
+}
+
+/**
+ * Whether the user may approve/reject a request.
+ *
+ * Members of the transition's approver teams can decide. If the transition
+ * has no approver teams configured, project admins (MANAGE_SETTINGS) decide
+ * so the request doesn't get stuck.
+ */
+export async function canDecideApproval(
+  databases: Databases,
+  request: TransitionApprovalRequest,
+  userId: string,
+  userTeamIds?: string[]
+): Promise<boolean> {
+  const approverTeamIds = request.approverTeamIds ?? [];
+
+  if (approverTeamIds.length > 0) {
+    const teamIds = userTeamIds ?? await getUserProjectTeamIds(databases, userId, request.projectId);
+    return approverTeamIds.some((teamId) => teamIds.includes(teamId));
+  }
+
+  const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+  const access = await resolveUserProjectAccess(databases, userId, request.projectId);
+  return access.hasAccess && hasProjectPermission(access, ProjectPermissionKey.MANAGE_SETTINGS);
+}
@@ -0,0 +1,35 @@
+import { Models } from "node-appwrite";
+
+export enum TransitionApprovalStatus {
+  PENDING = "PENDING",
+  APPROVED = "APPROVED",
+  REJECTED = "REJECTED",
+  CANCELLED = "CANCELLED", // Withdrawn by requester or superseded by another status change
+}
+
+// A request to perform a workflow transition marked `requiresApproval`.
+// Statuses are stored as workflow status keys (the same value work items store).
+export type TransitionApprovalRequest = Models.Document & {
+  workspaceId: string;
+  projectId: string;
+  workItemId: string;
+  workflowId: string;
+  transitionId: string;
+  fromStatus: string;
+  toStatus: string;
+  requestedBy: string;              // User ID
+  requestComment?: string | null;
+  status: TransitionApprovalStatus;
+  approverTeamIds?: string[] | null; // Snapshot of the transition's approver teams
+  decidedBy?: string | null;         // User ID
+  decisionComment?: string | null;
+  decidedAt?: string | null;
+};
+
+export type PopulatedTransitionApprovalRequest = TransitionApprovalRequest & {
+  fromStatusName: string;
+  toStatusName: string;
+  requestedByName: string;
+  decidedByName?: string | null;
+  canDecide: boolean;
+};
@@ -0,0 +1,47 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+import { WebhookDeliveryStatus } from "../server/types";
+
+type ResponseType = InferResponseType<typeof client.api["project-webhooks"][":webhookId"]["deliveries"][":deliveryId"]["redeliver"]["$post"], 200>;
+type RequestType = InferRequestType<typeof client.api["project-webhooks"][":webhookId"]["deliveries"][":deliveryId"]["redeliver"]["$post"]>;
+
+export const useRedeliverWebhook = () => {
+    const queryClient = useQueryClient();
+
+    const mutation = useMutation<
+        ResponseType,
+        Error,
+        RequestType
+    >({
+        mutationFn: async ({ param, json }) => {
+            const response = await client.api["project-webhooks"][":webhookId"]["deliveries"][":deliveryId"]["redeliver"]["$post"]({
+                param,
+                json,
+            });
+
+            if (!response.ok) {
+                throw new Error("Failed to redeliver webhook event");
+            }
+
+            return await response.json();
+        },
+        onSuccess: ({ data }, { param }) => {
+            if (data.status === WebhookDeliveryStatus.SUCCESS) {
+                toast.success("Event redelivered");
+            } else {
+                toast.warning("Event redelivered, but the endpoint did not accept it");
+            }
+            queryClient.invalidateQueries({ queryKey: ["webhook-deliveries", param.webhookId] });
+            queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+        },
+        onError: () => {
+            toast.error("Failed to redeliver webhook event");
+        },
+    });
+
+    return mutation;
+};
@@ -0,0 +1,36 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<typeof client.api["project-webhooks"][":webhookId"]["rotate-secret"]["$post"], 200>;
+type RequestType = InferRequestType<typeof client.api["project-webhooks"][":webhookId"]["rotate-secret"]["$post"]>;
+
+export const useRotateWebhookSecret = () => {
+    const queryClient = useQueryClient();
+
+    const mutation = useMutation<ResponseType, Error, RequestType>({
+        mutationFn: async ({ param, json }) => {
+            const response = await client.api["project-webhooks"][":webhookId"]["rotate-secret"].$post({
+                param,
+                json,
+            });
+
+            if (!response.ok) {
+                throw new Error("Failed to rotate webhook secret");
+            }
+
+            return await response.json();
+        },
+        onSuccess: (_data, { json }) => {
+            toast.success("Webhook secret rotated");
+            queryClient.invalidateQueries({ queryKey: ["webhooks", { projectId: json.projectId }] });
+        },
+        onError: () => {
+            toast.error("Failed to rotate webhook secret");
+        },
+    });
+
+    return mutation;
+};
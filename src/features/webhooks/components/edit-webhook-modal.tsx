@@ -10,7 +10,11 @@ import { useEditWebhookModal } from "../hooks/use-edit-webhook-modal";
 import { updateWebhookSchema } from "../server/validations";
 import { useUpdateWebhook } from "../api/use-update-webhook";
 import { useGetWebhooks } from "../api/use-get-webhooks";
-import { WebhookEventType } from "../server/types";
+import {
+    DEFAULT_WEBHOOK_MAX_RETRIES,
+    DEFAULT_WEBHOOK_RETRY_BACKOFF_SECONDS,
+    WebhookEventType,
+} from "../server/types";
 
 import {
     Form,
@@ -57,6 +61,8 @@ export const EditWebhookModal = ({ projectId }: EditWebhookModalProps) => {
                 events: webhook.events,
                 secret: webhook.secret || "",
                 enabled: webhook.enabled,
+                maxRetries: webhook.maxRetries ?? DEFAULT_WEBHOOK_MAX_RETRIES,
+                retryBackoffSeconds: webhook.retryBackoffSeconds ?? DEFAULT_WEBHOOK_RETRY_BACKOFF_SECONDS,
             });
         }
     }, [webhook, form]);
@@ -95,6 +101,18 @@ export const EditWebhookModal = ({ projectId }: EditWebhookModalProps) => {
         { value: WebhookEventType.MEMBER_ADDED, label: "Member Added" },
         { value: WebhookEventType.MEMBER_REMOVED, label: "Member Removed" },
         { value: WebhookEventType.PROJECT_UPDATED, label: "Project Updated" },
+        { value: WebhookEventType.AUTOMATION_TRIGGERED, label: "Automation Rule Triggered" },
+        { value: WebhookEventType.SPRINT_STARTED, label: "Sprint Started" },
+        { value: WebhookEventType.SPRINT_COMPLETED, label: "Sprint Completed" },
+        { value: WebhookEventType.LINK_ADDED, label: "Link Added" },
+        { value: WebhookEventType.LINK_REMOVED, label: "Link Removed" },
+        { value: WebhookEventType.TIME_LOGGED, label: "Time Logged" },
+        { value: WebhookEventType.SUBTASK_CREATED, label: "Subtask Created" },
+        { value: WebhookEventType.SUBTASK_UPDATED, label: "Subtask Updated" },
+        { value: WebhookEventType.SUBTASK_DELETED, label: "Subtask Deleted" },
+        { value: WebhookEventType.CUSTOM_FIELD_CHANGED, label: "Custom Field Changed" },
+        { value: WebhookEventType.WORKFLOW_STATUS_CHANGED, label: "Workflow Status Changed" },
+        { value: WebhookEventType.WORKFLOW_TRANSITION_CHANGED, label: "Workflow Transition Changed" },
     ];
 
     const allEventValues = eventOptions.map(opt => opt.value);
@@ -180,6 +198,52 @@ export const EditWebhookModal = ({ projectId }: EditWebhookModalProps) => {
                             )}
                         />
 
+                        <div className="grid grid-cols-2 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="maxRetries"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Max Retries</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                max={10}
+                                                {...field}
+                                                value={field.value ?? ""}
+                                                onChange={(e) => field.onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="retryBackoffSeconds"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Retry Backoff (seconds)</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                min={5}
+                                                max={3600}
+                                                {...field}
+                                                value={field.value ?? ""}
+                                                onChange={(e) => field.onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormDescription className="col-span-2">
+                                Failed deliveries (5xx, timeouts) are retried with exponential backoff, then moved to the dead letter log.
+                            </FormDescription>
+                        </div>
+
                         <div className="space-y-4">
                             <div className="flex items-center justify-between">
                                 <FormLabel>Events</FormLabel>
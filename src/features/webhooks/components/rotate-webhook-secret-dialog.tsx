@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { CopyIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+
+import { useRotateWebhookSecret } from "../api/use-rotate-webhook-secret";
+
+const GRACE_PERIOD_OPTIONS = [
+    { value: 0, label: "None (old secret stops immediately)" },
+    { value: 1, label: "1 hour" },
+    { value: 24, label: "24 hours" },
+    { value: 72, label: "3 days" },
+    { value: 168, label: "7 days" },
+];
+
+interface RotateWebhookSecretDialogProps {
+    projectId: string;
+    webhookId: string | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const RotateWebhookSecretDialog = ({
+    projectId,
+    webhookId,
+    onOpenChange,
+}: RotateWebhookSecretDialogProps) => {
+    const { mutate, isPending, data, reset } = useRotateWebhookSecret();
+    const [gracePeriodHours, setGracePeriodHours] = useState(24);
+
+    const rotated = data?.data;
+
+    const handleOpenChange = (open: boolean) => {
+        if (!open) {
+            reset();
+            setGracePeriodHours(24);
+        }
+        onOpenChange(open);
+    };
+
+    const handleRotate = () => {
+        if (!webhookId) return;
+        mutate({ param: { webhookId }, json: { projectId, gracePeriodHours } });
+    };
+
+    const handleCopy = () => {
+        if (!rotated) return;
+        navigator.clipboard.writeText(rotated.secret);
+        toast.success("Secret copied to clipboard");
+    };
+
+    return (
+        <Dialog open={!!webhookId} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Rotate Signing Secret</DialogTitle>
+                    <DialogDescription>
+                        {rotated
+                            ? "Copy the new secret now. It will not be shown again."
+                            : "Generate a new secret. During the grace period deliveries are signed with both secrets."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {rotated ? (
+                    <div className="space-y-3">
+                        <div className="flex items-center gap-x-2">
+                            <Input readOnly value={rotated.secret} className="font-mono text-xs" />
+                            <Button variant="outline" size="icon" onClick={handleCopy}>
+                                <CopyIcon className="size-4" />
+                            </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            {rotated.previousSecretExpiresAt
+                                ? `The previous secret stays valid until ${format(new Date(rotated.previousSecretExpiresAt), "MMM d, HH:mm")}.`
+                                : "The previous secret is no longer used."}
+                        </p>
+                    </div>
+                ) : (
+                    <div className="space-y-2">
+                        <Label>Grace period</Label>
+                        <Select
+                            value={String(gracePeriodHours)}
+                            onValueChange={(value) => setGracePeriodHours(Number(value))}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {GRACE_PERIOD_OPTIONS.map((option) => (
+                                    <SelectItem key={option.value} value={String(option.value)}>
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {rotated ? (
+                        <Button onClick={() => handleOpenChange(false)}>Done</Button>
+                    ) : (
+                        <>
+                            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isPending}>
+                                Cancel
+                            </Button>
+                            <Button onClick={handleRotate} disabled={isPending}>
+                                Rotate Secret
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
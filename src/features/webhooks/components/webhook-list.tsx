@@ -1,6 +1,7 @@
 "use client";
 
-import { MoreVerticalIcon, TrashIcon, SettingsIcon, ActivityIcon, SendIcon } from "lucide-react";
+import { useState } from "react";
+import { MoreVerticalIcon, TrashIcon, SettingsIcon, ActivityIcon, SendIcon, KeyRoundIcon } from "lucide-react";
 import { format } from "date-fns";
 
 import { Webhook } from "../server/types";
@@ -20,6 +21,7 @@ import { useConfirm } from "@/hooks/use-confirm";
 import { useWebhookLogsModal } from "../hooks/use-webhook-logs-modal";
 import { useEditWebhookModal } from "../hooks/use-edit-webhook-modal";
 import { WebhookLogsModal } from "./webhook-logs-modal";
+import { RotateWebhookSecretDialog } from "./rotate-webhook-secret-dialog";
 
 
 
@@ -38,6 +40,7 @@ export const WebhookList = ({
     const { open: openEdit } = useEditWebhookModal();
     const { mutate: deleteWebhook, isPending: isDeleting } = useDeleteWebhook();
     const { mutate: testWebhook, isPending: isTesting } = useTestWebhook();
+    const [rotatingWebhookId, setRotatingWebhookId] = useState<string | null>(null);
 
     const [DeleteDialog, confirmDelete] = useConfirm(
         "Delete Webhook",
@@ -73,6 +76,11 @@ export const WebhookList = ({
         <div className="flex flex-col gap-y-3">
             <DeleteDialog />
             <WebhookLogsModal projectId={projectId} />
+            <RotateWebhookSecretDialog
+                projectId={projectId}
+                webhookId={rotatingWebhookId}
+                onOpenChange={(open) => !open && setRotatingWebhookId(null)}
+            />
             <div className="rounded-md border overflow-hidden">
                 <table className="w-full text-sm">
                     <thead className="bg-muted/50 border-b">
@@ -129,6 +137,10 @@ export const WebhookList = ({
                                                 <SendIcon className="size-4 mr-2" />
                                                 Ping / Test Webhook
                                             </DropdownMenuItem>
+                                            <DropdownMenuItem onClick={() => setRotatingWebhookId(webhook.$id)}>
+                                                <KeyRoundIcon className="size-4 mr-2" />
+                                                Rotate Secret
+                                            </DropdownMenuItem>
 
                                             <DropdownMenuItem
                                                 className="text-destructive"
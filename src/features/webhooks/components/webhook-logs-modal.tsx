@@ -1,16 +1,24 @@
 "use client";
 
 import { format } from "date-fns";
-import { CheckCircle2Icon, XCircleIcon, InfoIcon } from "lucide-react";
+import { CheckCircle2Icon, XCircleIcon, InfoIcon, ClockIcon, RotateCcwIcon } from "lucide-react";
 
 import { ResponsiveModal } from "@/components/responsive-modal";
 import { useWebhookLogsModal } from "../hooks/use-webhook-logs-modal";
 import { useGetWebhookDeliveries } from "../api/use-get-webhook-deliveries";
+import { useRedeliverWebhook } from "../api/use-redeliver-webhook";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DottedSeparator } from "@/components/dotted-separator";
 import { WebhookDeliveryStatus } from "../server/types";
 
+const STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+    [WebhookDeliveryStatus.PENDING]: "Retrying",
+    [WebhookDeliveryStatus.SUCCESS]: "Delivered",
+    [WebhookDeliveryStatus.FAILED]: "Rejected",
+    [WebhookDeliveryStatus.DEAD_LETTER]: "Dead letter",
+};
+
 interface WebhookLogsModalProps {
     projectId: string;
 }
@@ -18,6 +26,7 @@ interface WebhookLogsModalProps {
 export const WebhookLogsModal = ({ projectId }: WebhookLogsModalProps) => {
     const { webhookId, isOpen, close } = useWebhookLogsModal();
     const { data: deliveries, isLoading } = useGetWebhookDeliveries(webhookId || "", projectId);
+    const { mutate: redeliver, isPending: isRedelivering, variables: redeliverVariables } = useRedeliverWebhook();
 
     return (
         <ResponsiveModal open={isOpen} onOpenChange={close}>
@@ -40,7 +49,7 @@ export const WebhookLogsModal = ({ projectId }: WebhookLogsModalProps) => {
                     ) : deliveries?.length === 0 ? (
                         <div className="flex flex-col items-center justify-center py-10 text-muted-foreground">
                             <InfoIcon className="size-8 mb-2 opacity-20" />
-                            <p className="text-sm">No delivery attempts yet.</p>
+                            <p className="text-sm">No deliveries yet.</p>
                         </div>
                     ) : (
                         <div className="space-y-4">
@@ -59,18 +68,43 @@ export const WebhookLogsModal = ({ projectId }: WebhookLogsModalProps) => {
                                             <div className="flex items-center gap-x-2 mt-1">
                                                 {delivery.status === WebhookDeliveryStatus.SUCCESS ? (
                                                     <CheckCircle2Icon className="size-3.5 text-emerald-500" />
+                                                ) : delivery.status === WebhookDeliveryStatus.PENDING ? (
+                                                    <ClockIcon className="size-3.5 text-amber-500" />
                                                 ) : (
                                                     <XCircleIcon className="size-3.5 text-rose-500" />
                                                 )}
-                                                <span className={`text-xs font-semibold ${delivery.status === WebhookDeliveryStatus.SUCCESS ? "text-emerald-700" : "text-rose-700"
+                                                <span className={`text-xs font-semibold ${delivery.status === WebhookDeliveryStatus.SUCCESS
+                                                    ? "text-emerald-700"
+                                                    : delivery.status === WebhookDeliveryStatus.PENDING ? "text-amber-700" : "text-rose-700"
                                                     }`}>
-                                                    {delivery.responseCode || "Failed"}
+                                                    {STATUS_LABELS[delivery.status] ?? delivery.status}
+                                                    {delivery.responseCode ? ` · ${delivery.responseCode}` : ""}
                                                 </span>
                                                 <span className="text-[10px] text-muted-foreground">
-                                                    Attempt {delivery.attempts}
+                                                    {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
                                                 </span>
+                                                {delivery.redeliveryOf && (
+                                                    <Badge variant="secondary" className="text-[10px]">Redelivery</Badge>
+                                                )}
                                             </div>
+                                            {delivery.status === WebhookDeliveryStatus.PENDING && delivery.nextAttemptAt && (
+                                                <span className="text-[10px] text-muted-foreground">
+                                                    Next attempt {format(new Date(delivery.nextAttemptAt), "MMM d, HH:mm:ss")}
+                                                </span>
+                                            )}
                                         </div>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={isRedelivering}
+                                            onClick={() => redeliver({
+                                                param: { webhookId: delivery.webhookId, deliveryId: delivery.$id },
+                                                json: { projectId },
+                                            })}
+                                        >
+                                            <RotateCcwIcon className={`size-3.5 mr-1.5 ${isRedelivering && redeliverVariables?.param.deliveryId === delivery.$id ? "animate-spin" : ""}`} />
+                                            Redeliver
+                                        </Button>
                                     </div>
 
                                     {delivery.responseBody && (
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSignatureHeaders,
+  getSigningSecrets,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "./signature";
+
+const body = JSON.stringify({ event: "TASK_CREATED", data: { workitemId: "1" } });
+const now = 1_760_000_000_000;
+const timestamp = Math.floor(now / 1000);
+
+describe("webhook signatures", () => {
+  it("verifies a signature over timestamp and body", () => {
+    const headers = buildSignatureHeaders(["whsec_a"], body, timestamp);
+
+    expect(headers[WEBHOOK_TIMESTAMP_HEADER]).toBe(String(timestamp));
+    expect(
+      verifyWebhookSignature({
+        body,
+        signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+        timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+        secrets: ["whsec_a"],
+        now,
+      })
+    ).toEqual({ valid: true });
+  });
+
+  it("rejects a tampered body or wrong secret", () => {
+    const headers = buildSignatureHeaders(["whsec_a"], body, timestamp);
+    const verify = (payload: string, secret: string) =>
+      verifyWebhookSignature({
+        body: payload,
+        signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+        timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+        secrets: [secret],
+        now,
+      });
+
+    expect(verify(body.replace("1", "2"), "whsec_a")).toEqual({ valid: false, reason: "signature_mismatch" });
+    expect(verify(body, "whsec_b")).toEqual({ valid: false, reason: "signature_mismatch" });
+  });
+
+  it("rejects replays outside the tolerance window", () => {
+    const headers = buildSignatureHeaders(["whsec_a"], body, timestamp - 600);
+
+    expect(
+      verifyWebhookSignature({
+        body,
+        signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+        timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+        secrets: ["whsec_a"],
+        now,
+      })
+    ).toEqual({ valid: false, reason: "timestamp_out_of_tolerance" });
+  });
+
+  it("signs with both secrets during a rotation grace window", () => {
+    const webhook = {
+      secret: "whsec_new",
+      previousSecret: "whsec_old",
+      previousSecretExpiresAt: new Date(now + 60_000).toISOString(),
+    };
+    const headers = buildSignatureHeaders(getSigningSecrets(webhook, new Date(now)), body, timestamp);
+
+    for (const secret of ["whsec_new", "whsec_old"]) {
+      expect(
+        verifyWebhookSignature({
+          body,
+          signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+          timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+          secrets: [secret],
+          now,
+        }).valid
+      ).toBe(true);
+    }
+
+    expect(getSigningSecrets(webhook, new Date(now + 120_000))).toEqual(["whsec_new"]);
+  });
+});
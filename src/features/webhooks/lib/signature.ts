@@ -0,0 +1,135 @@
+import crypto from "crypto";
+
+/**
+ * Webhook signature scheme (v1)
+ *
+ * Every delivery carries:
+ *   X-Fairlx-Timestamp: unix time in seconds when the attempt was sent
+ *   X-Fairlx-Signature: v1=<hex>[,v1=<hex>]
+ *
+ * Each signature is HMAC-SHA256(secret, `${timestamp}.${rawBody}`) in hex.
+ * During a secret rotation grace window the header holds one signature per
+ * valid secret, so receivers holding either the old or the new secret verify.
+ *
+ * Receivers must compare in constant time, reject timestamps outside their
+ * tolerance (default 5 minutes) and may de-duplicate on X-Fairlx-Delivery,
+ * which stays the same across retries.
+ *
+ * See md/WEBHOOKS.md for the receiver guide.
+ */
+
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Fairlx-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Fairlx-Signature";
+export const WEBHOOK_SIGNATURE_VERSION = "v1";
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const SECRET_PREFIX = "whsec_";
+
+export function generateWebhookSecret(): string {
+    return `${SECRET_PREFIX}${crypto.randomBytes(32).toString("hex")}`;
+}
+
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+    return crypto
+        .createHmac("sha256", secret)
+        .update(`${timestamp}.${body}`)
+        .digest("hex");
+}
+
+/**
+ * Signature headers for a request body, signed with every given secret.
+ */
+export function buildSignatureHeaders(
+    secrets: string[],
+    body: string,
+    timestamp = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+    if (secrets.length === 0) return {};
+
+    const signatures = secrets.map(
+        (secret) => `${WEBHOOK_SIGNATURE_VERSION}=${computeWebhookSignature(secret, timestamp, body)}`
+    );
+
+    return {
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signatures.join(","),
+    };
+}
+
+/**
+ * Secrets a webhook is currently signed with: the current one, plus the previous
+ * one while its rotation grace window is open.
+ */
+export function getSigningSecrets(
+    webhook: {
+        secret?: string | null;
+        previousSecret?: string | null;
+        previousSecretExpiresAt?: string | null;
+    },
+    now = new Date()
+): string[] {
+    const secrets: string[] = [];
+    if (webhook.secret) secrets.push(webhook.secret);
+    if (
+        webhook.previousSecret &&
+        webhook.previousSecretExpiresAt &&
+        new Date(webhook.previousSecretExpiresAt) > now
+    ) {
+        secrets.push(webhook.previousSecret);
+    }
+    return secrets;
+}
+
+export type WebhookSignatureVerification =
+    | { valid: true }
+    | { valid: false; reason: "missing_headers" | "invalid_timestamp" | "timestamp_out_of_tolerance" | "signature_mismatch" };
+
+/**
+ * Reference verifier for receivers (and for our own tests).
+ * Passes if any v1 signature in the header matches any of the given secrets.
+ */
+export function verifyWebhookSignature(options: {
+    body: string;
+    signatureHeader: string | null | undefined;
+    timestampHeader: string | null | undefined;
+    secrets: string[];
+    toleranceSeconds?: number;
+    now?: number;
+}): WebhookSignatureVerification {
+    const {
+        body,
+        signatureHeader,
+        timestampHeader,
+        secrets,
+        toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+        now = Date.now(),
+    } = options;
+
+    if (!signatureHeader || !timestampHeader) {
+        return { valid: false, reason: "missing_headers" };
+    }
+
+    const timestamp = Number(timestampHeader);
+    if (!Number.isInteger(timestamp)) {
+        return { valid: false, reason: "invalid_timestamp" };
+    }
+
+    if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+        return { valid: false, reason: "timestamp_out_of_tolerance" };
+    }
+
+    const provided = signatureHeader
+        .split(",")
+        .map((part) => part.trim().split("="))
+        .filter(([version, value]) => version === WEBHOOK_SIGNATURE_VERSION && !!value)
+        .map(([, value]) => Buffer.from(value, "hex"));
+
+    for (const secret of secrets) {
+        const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body), "hex");
+        if (provided.some((candidate) => candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected))) {
+            return { valid: true };
+        }
+    }
+
+    return { valid: false, reason: "signature_mismatch" };
+}
@@ -0,0 +1,278 @@
+import { createAdminClient } from "@/lib/appwrite";
+import { buildSignatureHeaders, getSigningSecrets } from "../lib/signature";
+import { WebhookRepository } from "./repository";
+import {
+    DEFAULT_WEBHOOK_MAX_RETRIES,
+    DEFAULT_WEBHOOK_RETRY_BACKOFF_SECONDS,
+    Webhook,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookPayload,
+} from "./types";
+
+// Durable webhook delivery queue.
+//
+// Every delivery is a document in the deliveries collection; PENDING deliveries
+// are retried by whichever instance picks them up first (in-process poller or
+// the /cron/webhooks/process-queue endpoint). Each attempt is claimed by
+// creating an attempt record under a deterministic ID, so two instances never
+// send the same attempt twice.
+
+const REQUEST_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 30 * 1000;
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+// A claimed attempt that never completed belongs to an instance that died mid-flight
+const ABANDONED_ATTEMPT_MS = 5 * 60 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+
+interface SendResult {
+    ok: boolean;
+    retryable: boolean;
+    responseCode: number | null;
+    responseBody: string | null;
+    error: string | null;
+    durationMs: number;
+}
+
+export interface ProcessQueueResult {
+    processed: number;
+    succeeded: number;
+    deadLettered: number;
+    errors: number;
+}
+
+/**
+ * Delay before the next attempt: the webhook's base backoff doubled for every failed attempt.
+ */
+export function getRetryDelaySeconds(webhook: Pick<Webhook, "retryBackoffSeconds">, attempt: number): number {
+    const base = webhook.retryBackoffSeconds ?? DEFAULT_WEBHOOK_RETRY_BACKOFF_SECONDS;
+    return Math.min(base * Math.pow(2, attempt - 1), MAX_BACKOFF_SECONDS);
+}
+
+function isRetryableStatus(statusCode: number): boolean {
+    return statusCode >= 500 || statusCode === 408 || statusCode === 429;
+}
+
+export class WebhookDeliveryQueue {
+    private repository: WebhookRepository | null = null;
+    private poller: ReturnType<typeof setInterval> | null = null;
+
+    private async getRepository(): Promise<WebhookRepository> {
+        if (!this.repository) {
+            const { databases } = await createAdminClient();
+            this.repository = new WebhookRepository(databases);
+        }
+        return this.repository;
+    }
+
+    /**
+     * Start polling for due retries in this process. Safe to run on every instance.
+     */
+    startPolling(): void {
+        if (this.poller) return;
+        this.poller = setInterval(() => {
+            this.processDueDeliveries().catch((error) => {
+                console.error("[WebhookDeliveryQueue] Polling failed:", error);
+            });
+        }, POLL_INTERVAL_MS);
+        this.poller.unref?.();
+    }
+
+    /**
+     * Queue a delivery and make the first attempt right away.
+     */
+    async enqueue(
+        webhook: Webhook,
+        payload: WebhookPayload,
+        options: { redeliveryOf?: string } = {}
+    ): Promise<WebhookDelivery> {
+        const repo = await this.getRepository();
+        const delivery = await repo.createDelivery({
+            webhookId: webhook.$id,
+            projectId: webhook.projectId,
+            eventType: payload.event,
+            payload: JSON.stringify(payload),
+            redeliveryOf: options.redeliveryOf,
+        });
+
+        return (await this.process(delivery, webhook)) ?? delivery;
+    }
+
+    /**
+     * Resend a past delivery as a new delivery with the same payload.
+     */
+    async redeliver(webhook: Webhook, original: WebhookDelivery): Promise<WebhookDelivery> {
+        const repo = await this.getRepository();
+        const delivery = await repo.createDelivery({
+            webhookId: webhook.$id,
+            projectId: webhook.projectId,
+            eventType: original.eventType,
+            payload: original.payload,
+            redeliveryOf: original.$id,
+        });
+
+        return (await this.process(delivery, webhook)) ?? delivery;
+    }
+
+    /**
+     * Attempt every pending delivery that is due. Called by the poller and the cron endpoint.
+     */
+    async processDueDeliveries(limit = 50): Promise<ProcessQueueResult> {
+        const repo = await this.getRepository();
+        const due = await repo.getDueDeliveries(new Date(), limit);
+        const result: ProcessQueueResult = { processed: 0, succeeded: 0, deadLettered: 0, errors: 0 };
+
+        // Sequential on purpose: keeps outbound concurrency bounded per instance
+        for (const delivery of due) {
+            try {
+                const updated = await this.process(delivery);
+                if (!updated) continue;
+
+                result.processed++;
+                if (updated.status === WebhookDeliveryStatus.SUCCESS) result.succeeded++;
+                if (updated.status === WebhookDeliveryStatus.DEAD_LETTER) result.deadLettered++;
+            } catch (error) {
+                result.errors++;
+                console.error(`[WebhookDeliveryQueue] Delivery ${delivery.$id} failed to process:`, error);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Make the next attempt for a delivery.
+     * Returns null when the attempt is owned by another instance.
+     * An explicitly passed webhook is delivered to even when disabled (manual test/redeliver).
+     */
+    private async process(delivery: WebhookDelivery, webhook?: Webhook): Promise<WebhookDelivery | null> {
+        const repo = await this.getRepository();
+        const attempt = (delivery.attempts ?? 0) + 1;
+
+        const claim = await repo.claimAttempt(delivery, attempt);
+        if (!claim) {
+            await this.releaseIfAbandoned(repo, delivery, attempt);
+            return null;
+        }
+
+        const now = new Date();
+        const target = webhook ?? (await repo.getWebhook(delivery.webhookId));
+
+        if (!target || (!webhook && !target.enabled)) {
+            const reason = target ? "Webhook is disabled" : "Webhook no longer exists";
+            const updated = await repo.updateDelivery(delivery.$id, {
+                status: WebhookDeliveryStatus.DEAD_LETTER,
+                responseBody: reason,
+                nextAttemptAt: null,
+            });
+            await repo.completeAttempt(claim.$id, { error: reason, durationMs: 0 });
+            return updated;
+        }
+
+        const result = await this.send(target, delivery);
+        const maxRetries = target.maxRetries ?? DEFAULT_WEBHOOK_MAX_RETRIES;
+
+        let status: WebhookDeliveryStatus;
+        let nextAttemptAt: string | null = null;
+
+        if (result.ok) {
+            status = WebhookDeliveryStatus.SUCCESS;
+        } else if (!result.retryable) {
+            status = WebhookDeliveryStatus.FAILED;
+        } else if (attempt > maxRetries) {
+            status = WebhookDeliveryStatus.DEAD_LETTER;
+        } else {
+            status = WebhookDeliveryStatus.PENDING;
+            nextAttemptAt = new Date(now.getTime() + getRetryDelaySeconds(target, attempt) * 1000).toISOString();
+        }
+
+        const updated = await repo.updateDelivery(delivery.$id, {
+            status,
+            attempts: attempt,
+            responseCode: result.responseCode,
+            responseBody: (result.responseBody ?? result.error)?.substring(0, RESPONSE_BODY_LIMIT) ?? null,
+            lastAttemptAt: now.toISOString(),
+            nextAttemptAt,
+        });
+
+        await repo.completeAttempt(claim.$id, {
+            responseCode: result.responseCode,
+            error: result.error?.substring(0, RESPONSE_BODY_LIMIT) ?? null,
+            durationMs: result.durationMs,
+        });
+
+        await repo.updateWebhook(target.$id, { lastTriggeredAt: now.toISOString() });
+
+        if (status === WebhookDeliveryStatus.DEAD_LETTER) {
+            console.warn(`[WebhookDeliveryQueue] Delivery ${delivery.$id} to webhook ${target.$id} dead-lettered after ${attempt} attempts.`);
+        }
+
+        return updated;
+    }
+
+    /**
+     * If the instance that claimed this attempt died before finishing it, count the
+     * attempt as spent so the next run can claim the following one.
+     */
+    private async releaseIfAbandoned(repo: WebhookRepository, delivery: WebhookDelivery, attempt: number): Promise<void> {
+        const claim = await repo.getAttempt(delivery.$id, attempt);
+        if (claim.completedAt) return;
+        if (Date.now() - new Date(claim.$createdAt).getTime() < ABANDONED_ATTEMPT_MS) return;
+
+        await repo.updateDelivery(delivery.$id, { attempts: attempt });
+    }
+
+    private async send(webhook: Webhook, delivery: WebhookDelivery): Promise<SendResult> {
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            "X-Fairlx-Event": delivery.eventType,
+            // Stable across retries so receivers can de-duplicate
+            "X-Fairlx-Delivery": delivery.$id,
+        };
+
+        // Signed per attempt so the timestamp reflects when it was sent
+        Object.assign(headers, buildSignatureHeaders(getSigningSecrets(webhook), delivery.payload));
+
+        const startedAt = Date.now();
+        try {
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+            const response = await fetch(webhook.url, {
+                method: "POST",
+                headers,
+                body: delivery.payload,
+                signal: controller.signal,
+            });
+
+            clearTimeout(timeoutId);
+
+            const responseBody = await response.text();
+
+            return {
+                ok: response.ok,
+                retryable: !response.ok && isRetryableStatus(response.status),
+                responseCode: response.status,
+                responseBody,
+                error: response.ok ? null : `HTTP ${response.status} ${response.statusText}`,
+                durationMs: Date.now() - startedAt,
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error";
+            console.error(`[WebhookDeliveryQueue] Delivery to ${webhook.url} error:`, errorMessage);
+
+            // Network errors and timeouts are always worth retrying
+            return {
+                ok: false,
+                retryable: true,
+                responseCode: null,
+                responseBody: null,
+                error: errorMessage,
+                durationMs: Date.now() - startedAt,
+            };
+        }
+    }
+}
+
+export const webhookDeliveryQueue = new WebhookDeliveryQueue();
+webhookDeliveryQueue.startPolling();
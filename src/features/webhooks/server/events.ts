@@ -0,0 +1,112 @@
+import { Models, Query } from "node-appwrite";
+import { createAdminClient } from "@/lib/appwrite";
+import { DATABASE_ID, PROJECTS_ID } from "@/config";
+import { Project } from "@/features/projects/types";
+import { webhookDispatcher } from "./webhookDispatcher";
+import { WebhookEventType, WebhookWorkItemData } from "./types";
+
+// Webhook events raised directly by feature routes (sprints, links, time logs,
+// subtasks, custom fields, workflows). Work item notification events reach
+// webhooks through the notification pipeline's webhook channel instead.
+//
+// All emitters are fire-and-forget: the request never waits on delivery, and
+// failed deliveries are retried by the delivery queue.
+
+type WebhookActor = Pick<Models.User<Models.Preferences>, "$id" | "name" | "email">;
+
+function toPayload(actor: WebhookActor, data: WebhookWorkItemData) {
+    return {
+        actor: {
+            userId: actor.$id,
+            userName: actor.name,
+            userEmail: actor.email,
+        },
+        data,
+    };
+}
+
+function dispatchToProjects(
+    resolveProjectIds: () => Promise<string[]>,
+    event: WebhookEventType,
+    actor: WebhookActor,
+    data: WebhookWorkItemData
+): void {
+    resolveProjectIds()
+        .then((projectIds) =>
+            Promise.allSettled(
+                projectIds.map((projectId) =>
+                    webhookDispatcher.dispatch(projectId, event, toPayload(actor, data))
+                )
+            )
+        )
+        .catch((error) => {
+            console.error(`[WebhookEvents] Failed to emit ${event}:`, error);
+        });
+}
+
+/**
+ * Emit an event to one project's webhooks.
+ */
+export function emitProjectWebhookEvent(
+    projectId: string | null | undefined,
+    event: WebhookEventType,
+    actor: WebhookActor,
+    data: WebhookWorkItemData
+): void {
+    if (!projectId) return;
+    dispatchToProjects(async () => [projectId], event, actor, data);
+}
+
+/**
+ * Emit an event to every project using a workflow.
+ */
+export function emitWorkflowWebhookEvent(
+    workflowId: string,
+    event: WebhookEventType,
+    actor: WebhookActor,
+    data: WebhookWorkItemData
+): void {
+    dispatchToProjects(
+        () => listProjectIds([Query.equal("workflowId", workflowId)]),
+        event,
+        actor,
+        data
+    );
+}
+
+/**
+ * Emit an event for a definition that can live at project, space or workspace
+ * level, to every project it applies to.
+ */
+export function emitScopedWebhookEvent(
+    scope: { workspaceId: string; spaceId?: string | null; projectId?: string | null },
+    event: WebhookEventType,
+    actor: WebhookActor,
+    data: WebhookWorkItemData
+): void {
+    if (scope.projectId) {
+        emitProjectWebhookEvent(scope.projectId, event, actor, data);
+        return;
+    }
+
+    dispatchToProjects(
+        () => listProjectIds(
+            scope.spaceId
+                ? [Query.equal("spaceId", scope.spaceId)]
+                : [Query.equal("workspaceId", scope.workspaceId)]
+        ),
+        event,
+        actor,
+        data
+    );
+}
+
+async function listProjectIds(queries: string[]): Promise<string[]> {
+    const { databases } = await createAdminClient();
+    const projects = await databases.listDocuments<Project>(
+        DATABASE_ID,
+        PROJECTS_ID,
+        [...queries, Query.select(["$id"]), Query.limit(500)]
+    );
+    return projects.documents.map((project) => project.$id);
+}
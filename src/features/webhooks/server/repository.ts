@@ -1,6 +1,17 @@
 import { Databases, ID, Query, Models } from "node-appwrite";
-import { DATABASE_ID, PROJECT_WEBHOOKS_ID, PROJECT_WEBHOOK_DELIVERIES_ID } from "@/config";
-import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from "./types";
+import {
+    DATABASE_ID,
+    PROJECT_WEBHOOKS_ID,
+    PROJECT_WEBHOOK_DELIVERIES_ID,
+    PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID,
+} from "@/config";
+import {
+    Webhook,
+    WebhookDelivery,
+    WebhookDeliveryAttempt,
+    WebhookDeliveryStatus,
+    WebhookEventType,
+} from "./types";
 
 export class WebhookRepository {
     constructor(private databases: Databases) { }
@@ -17,6 +28,8 @@ export class WebhookRepository {
         secret?: string | null;
         events: WebhookEventType[];
         enabled?: boolean;
+        maxRetries?: number;
+        retryBackoffSeconds?: number;
     }): Promise<Webhook> {
         return await this.databases.createDocument<Webhook>(
             DATABASE_ID,
@@ -29,6 +42,15 @@ export class WebhookRepository {
         );
     }
 
+    async getWebhook(webhookId: string): Promise<Webhook | null> {
+        try {
+            return await this.databases.getDocument<Webhook>(DATABASE_ID, PROJECT_WEBHOOKS_ID, webhookId);
+        } catch (error: unknown) {
+            if ((error as { code?: number }).code === 404) return null;
+            throw error;
+        }
+    }
+
     async getWebhooksByProject(projectId: string): Promise<Webhook[]> {
         const result = await this.databases.listDocuments<Webhook>(
             DATABASE_ID,
@@ -63,31 +85,111 @@ export class WebhookRepository {
         await this.databases.deleteDocument(DATABASE_ID, PROJECT_WEBHOOKS_ID, webhookId);
     }
 
-    async logDelivery(data: {
+    /**
+     * Queue a delivery. It is picked up immediately by the caller or later by the queue processor.
+     */
+    async createDelivery(data: {
         webhookId: string;
+        projectId: string;
         eventType: WebhookEventType;
         payload: string;
-        status: WebhookDeliveryStatus;
-        responseCode?: number | null;
-        responseBody?: string | null;
-        attempts?: number;
+        redeliveryOf?: string | null;
     }): Promise<WebhookDelivery> {
-        const delivery = await this.databases.createDocument<WebhookDelivery>(
+        return await this.databases.createDocument<WebhookDelivery>(
             DATABASE_ID,
             PROJECT_WEBHOOK_DELIVERIES_ID,
             ID.unique(),
             {
                 ...data,
-                attempts: data.attempts ?? 1,
+                redeliveryOf: data.redeliveryOf ?? null,
+                status: WebhookDeliveryStatus.PENDING,
+                attempts: 0,
+                nextAttemptAt: new Date().toISOString(),
             }
         );
+    }
+
+    async getDelivery(deliveryId: string): Promise<WebhookDelivery> {
+        return await this.databases.getDocument<WebhookDelivery>(
+            DATABASE_ID,
+            PROJECT_WEBHOOK_DELIVERIES_ID,
+            deliveryId
+        );
+    }
+
+    async updateDelivery(
+        deliveryId: string,
+        data: Partial<Omit<WebhookDelivery, keyof Models.Document>>
+    ): Promise<WebhookDelivery> {
+        return await this.databases.updateDocument<WebhookDelivery>(
+            DATABASE_ID,
+            PROJECT_WEBHOOK_DELIVERIES_ID,
+            deliveryId,
+            data
+        );
+    }
+
+    /**
+     * Pending deliveries whose next attempt is due, oldest first.
+     */
+    async getDueDeliveries(now: Date, limit = 50): Promise<WebhookDelivery[]> {
+        const result = await this.databases.listDocuments<WebhookDelivery>(
+            DATABASE_ID,
+            PROJECT_WEBHOOK_DELIVERIES_ID,
+            [
+                Query.equal("status", WebhookDeliveryStatus.PENDING),
+                Query.lessThanEqual("nextAttemptAt", now.toISOString()),
+                Query.orderAsc("nextAttemptAt"),
+                Query.limit(limit),
+            ]
+        );
+        return result.documents;
+    }
 
-        // Update last triggered at on the webhook
-        await this.updateWebhook(data.webhookId, {
-            lastTriggeredAt: new Date().toISOString(),
-        });
+    /**
+     * Claim an attempt by creating its record under a deterministic ID.
+     * Returns null when another instance already claimed the same attempt.
+     */
+    async claimAttempt(delivery: WebhookDelivery, attempt: number): Promise<WebhookDeliveryAttempt | null> {
+        try {
+            return await this.databases.createDocument<WebhookDeliveryAttempt>(
+                DATABASE_ID,
+                PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID,
+                `${delivery.$id}_${attempt}`,
+                {
+                    deliveryId: delivery.$id,
+                    webhookId: delivery.webhookId,
+                    attempt,
+                }
+            );
+        } catch (error: unknown) {
+            // 409 Conflict: the attempt is already owned by someone else
+            if ((error as { code?: number }).code === 409) return null;
+            throw error;
+        }
+    }
 
-        return delivery;
+    async getAttempt(deliveryId: string, attempt: number): Promise<WebhookDeliveryAttempt> {
+        return await this.databases.getDocument<WebhookDeliveryAttempt>(
+            DATABASE_ID,
+            PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID,
+            `${deliveryId}_${attempt}`
+        );
+    }
+
+    async completeAttempt(
+        attemptId: string,
+        data: { responseCode?: number | null; error?: string | null; durationMs: number }
+    ): Promise<void> {
+        await this.databases.updateDocument(
+            DATABASE_ID,
+            PROJECT_WEBHOOK_DELIVERY_ATTEMPTS_ID,
+            attemptId,
+            {
+                ...data,
+                completedAt: new Date().toISOString(),
+            }
+        );
     }
 
     async getRecentDeliveries(webhookId: string, limit = 10): Promise<WebhookDelivery[]> {
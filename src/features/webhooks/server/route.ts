@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { sessionMiddleware } from "@/lib/session-middleware";
+import { generateWebhookSecret } from "../lib/signature";
 import { WebhookRepository } from "./repository";
 import { Webhook } from "./types";
 import { createWebhookSchema, updateWebhookSchema } from "./validations";
@@ -161,6 +162,86 @@ const app = new Hono()
 
             return c.json({ data: { success } });
         }
+    )
+
+    // Rotate the signing secret. The previous secret keeps signing deliveries
+    // until the grace window ends, so receivers can switch without dropping events.
+    .post(
+        "/:webhookId/rotate-secret",
+        sessionMiddleware,
+        zValidator("json", z.object({
+            projectId: z.string(),
+            gracePeriodHours: z.number().int().min(0).max(168).default(24),
+        })),
+        async (c) => {
+            const user = c.get("user");
+            const databases = c.get("databases");
+            const { webhookId } = c.req.param();
+            const { projectId, gracePeriodHours } = c.req.valid("json");
+
+            const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+            const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+
+            if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.EDIT_SETTINGS)) {
+                return c.json({ error: "Forbidden" }, 403);
+            }
+
+            const repo = new WebhookRepository(databases);
+            const webhook = await repo.getWebhook(webhookId);
+            if (!webhook || webhook.projectId !== projectId) {
+                return c.json({ error: "Webhook not found" }, 404);
+            }
+
+            const secret = generateWebhookSecret();
+            const hasGraceWindow = !!webhook.secret && gracePeriodHours > 0;
+            const previousSecretExpiresAt = hasGraceWindow
+                ? new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000).toISOString()
+                : null;
+
+            await repo.updateWebhook(webhookId, {
+                secret,
+                previousSecret: hasGraceWindow ? webhook.secret : null,
+                previousSecretExpiresAt,
+            });
+
+            return c.json({ data: { secret, previousSecretExpiresAt } });
+        }
+    )
+
+    // Redeliver a past delivery with its original payload
+    .post(
+        "/:webhookId/deliveries/:deliveryId/redeliver",
+        sessionMiddleware,
+        zValidator("json", z.object({ projectId: z.string() })),
+        async (c) => {
+            const user = c.get("user");
+            const databases = c.get("databases");
+            const { webhookId, deliveryId } = c.req.param();
+            const { projectId } = c.req.valid("json");
+
+            const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+            const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+
+            if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.EDIT_SETTINGS)) {
+                return c.json({ error: "Forbidden" }, 403);
+            }
+
+            const repo = new WebhookRepository(databases);
+            const webhook = await repo.getWebhook(webhookId);
+            if (!webhook || webhook.projectId !== projectId) {
+                return c.json({ error: "Webhook not found" }, 404);
+            }
+
+            const original = await repo.getDelivery(deliveryId);
+            if (original.webhookId !== webhookId) {
+                return c.json({ error: "Delivery not found" }, 404);
+            }
+
+            const { webhookDeliveryQueue } = await import("./deliveryQueue");
+            const delivery = await webhookDeliveryQueue.redeliver(webhook, original);
+
+            return c.json({ data: delivery });
+        }
     );
 
 export default app;
@@ -18,6 +18,18 @@ export enum WebhookEventType {
     MEMBER_ADDED = "MEMBER_ADDED",
     MEMBER_REMOVED = "MEMBER_REMOVED",
     PROJECT_UPDATED = "PROJECT_UPDATED",
+    AUTOMATION_TRIGGERED = "AUTOMATION_TRIGGERED",
+    SPRINT_STARTED = "SPRINT_STARTED",
+    SPRINT_COMPLETED = "SPRINT_COMPLETED",
+    LINK_ADDED = "LINK_ADDED",
+    LINK_REMOVED = "LINK_REMOVED",
+    TIME_LOGGED = "TIME_LOGGED",
+    SUBTASK_CREATED = "SUBTASK_CREATED",
+    SUBTASK_UPDATED = "SUBTASK_UPDATED",
+    SUBTASK_DELETED = "SUBTASK_DELETED",
+    CUSTOM_FIELD_CHANGED = "CUSTOM_FIELD_CHANGED",
+    WORKFLOW_STATUS_CHANGED = "WORKFLOW_STATUS_CHANGED",
+    WORKFLOW_TRANSITION_CHANGED = "WORKFLOW_TRANSITION_CHANGED",
 }
 
 export interface Webhook extends Models.Document {
@@ -26,28 +38,66 @@ export interface Webhook extends Models.Document {
     name: string;
     url: string;
     secret?: string | null;
+    /** Replaced secret, still signed with until previousSecretExpiresAt */
+    previousSecret?: string | null;
+    previousSecretExpiresAt?: string | null;
     enabled: boolean;
     events: WebhookEventType[];
     lastTriggeredAt?: string | null;
+    /** Retries after the first attempt before a delivery is dead-lettered */
+    maxRetries?: number | null;
+    /** Base delay between retries, doubled after every failed attempt */
+    retryBackoffSeconds?: number | null;
 }
 
+export const DEFAULT_WEBHOOK_MAX_RETRIES = 3;
+export const DEFAULT_WEBHOOK_RETRY_BACKOFF_SECONDS = 30;
+
 export enum WebhookDeliveryStatus {
+    /** Queued, or waiting for its next retry */
+    PENDING = "PENDING",
     SUCCESS = "SUCCESS",
+    /** Rejected by the receiver (4xx), not retried */
     FAILED = "FAILED",
+    /** Retries exhausted, or the webhook was disabled/removed */
+    DEAD_LETTER = "DEAD_LETTER",
 }
 
 export interface WebhookDelivery extends Models.Document {
     webhookId: string;
+    projectId: string;
     eventType: WebhookEventType;
     payload: string;
     status: WebhookDeliveryStatus;
     responseCode?: number | null;
     responseBody?: string | null;
     attempts: number;
+    nextAttemptAt?: string | null;
+    lastAttemptAt?: string | null;
+    /** Original delivery when this one was created by a manual redeliver */
+    redeliveryOf?: string | null;
 }
 
+/**
+ * One document per delivery attempt. The document ID is derived from the
+ * delivery and attempt number, so only one instance can claim an attempt.
+ */
+export interface WebhookDeliveryAttempt extends Models.Document {
+    deliveryId: string;
+    webhookId: string;
+    attempt: number;
+    responseCode?: number | null;
+    error?: string | null;
+    durationMs?: number | null;
+    completedAt?: string | null;
+}
+
+/** Kind of change for definition events (custom fields, workflow statuses and transitions) */
+export type WebhookDefinitionChange = "created" | "updated" | "deleted";
+
 export interface WebhookWorkItemData {
-    workitemId: string;
+    /** Absent for events that are not about a single work item (sprints, workflows, custom fields) */
+    workitemId?: string;
     workitemKey?: string;
     title?: string;
     summary?: string;
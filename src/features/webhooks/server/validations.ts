@@ -27,6 +27,8 @@ export const createWebhookSchema = z.object({
     events: z.array(z.nativeEnum(WebhookEventType)).min(1, "At least one event must be selected"),
     secret: z.string().max(255).optional().nullable(),
     enabled: z.boolean().default(true),
+    maxRetries: z.number().int().min(0).max(10).optional(),
+    retryBackoffSeconds: z.number().int().min(5).max(3600).optional(),
 });
 
 export const updateWebhookSchema = createWebhookSchema.partial();
@@ -1,21 +1,12 @@
-import crypto from "crypto";
 import { createAdminClient } from "@/lib/appwrite";
 import { WebhookRepository } from "./repository";
-import { RetryQueue } from "./retryQueue";
+import { webhookDeliveryQueue } from "./deliveryQueue";
 import { Webhook, WebhookDeliveryStatus, WebhookEventType, WebhookPayload } from "./types";
 import { DATABASE_ID, PROJECTS_ID } from "@/config";
 import { Project } from "@/features/projects/types";
 
 export class WebhookDispatcher {
     private repository: WebhookRepository | null = null;
-    private retryQueue: RetryQueue;
-
-    constructor() {
-        this.retryQueue = new RetryQueue(
-            (task) => this.retryDelivery(task),
-            (task) => this.markPermanentlyFailed(task)
-        );
-    }
 
     private async getRepository(): Promise<WebhookRepository> {
         if (!this.repository) {
@@ -26,12 +17,14 @@ export class WebhookDispatcher {
     }
 
     /**
-     * Dispatch an event to all matching webhooks
+     * Dispatch an event to all matching webhooks.
+     * Pass `webhookId` to deliver to that webhook only, regardless of its event subscriptions.
      */
     async dispatch(
         projectId: string,
         event: WebhookEventType,
-        payload: Omit<WebhookPayload, "event" | "projectId" | "timestamp" | "project" | "embeds">
+        payload: Omit<WebhookPayload, "event" | "projectId" | "timestamp" | "project" | "embeds">,
+        options: { webhookId?: string } = {}
     ): Promise<void> {
         // console.log(`[WebhookDispatcher] Dispatching event: ${event} for project: ${projectId}`);
         try {
@@ -44,7 +37,9 @@ export class WebhookDispatcher {
             const { databases } = await createAdminClient();
             const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
 
-            const matchingWebhooks = webhooks.filter((w) => w.events.includes(event));
+            const matchingWebhooks = options.webhookId
+                ? webhooks.filter((w) => w.$id === options.webhookId)
+                : webhooks.filter((w) => w.events.includes(event));
             if (matchingWebhooks.length === 0) return;
 
             const projectInfo = {
@@ -94,7 +89,7 @@ export class WebhookDispatcher {
             };
 
             const dispatchPromises = matchingWebhooks.map((webhook) =>
-                this.deliver(webhook, fullPayload)
+                webhookDeliveryQueue.enqueue(webhook, fullPayload)
             );
 
             await Promise.allSettled(dispatchPromises);
@@ -121,6 +116,18 @@ export class WebhookDispatcher {
             case WebhookEventType.MEMBER_ADDED: return 0xec4899; // Pink
             case WebhookEventType.MEMBER_REMOVED: return 0x9f1239; // Rose Dark
             case WebhookEventType.PROJECT_UPDATED: return 0x06b6d4; // Cyan
+            case WebhookEventType.AUTOMATION_TRIGGERED: return 0xeab308; // Yellow
+            case WebhookEventType.SPRINT_STARTED: return 0x84cc16; // Lime
+            case WebhookEventType.SPRINT_COMPLETED: return 0x16a34a; // Green Dark
+            case WebhookEventType.LINK_ADDED: return 0x0891b2; // Cyan Dark
+            case WebhookEventType.LINK_REMOVED: return 0x94a3b8; // Slate Light
+            case WebhookEventType.TIME_LOGGED: return 0x7c3aed; // Violet Dark
+            case WebhookEventType.SUBTASK_CREATED: return 0x4ade80; // Green Light
+            case WebhookEventType.SUBTASK_UPDATED: return 0x60a5fa; // Blue Light
+            case WebhookEventType.SUBTASK_DELETED: return 0xfb7185; // Rose Light
+            case WebhookEventType.CUSTOM_FIELD_CHANGED: return 0xd946ef; // Fuchsia
+            case WebhookEventType.WORKFLOW_STATUS_CHANGED: return 0xfbbf24; // Amber Light
+            case WebhookEventType.WORKFLOW_TRANSITION_CHANGED: return 0xc2410c; // Orange Dark
             default: return 0x64748b; // Slate
         }
     }
@@ -176,121 +183,8 @@ export class WebhookDispatcher {
             }]
         };
 
-        return await this.deliver(webhook, dummyPayload);
-    }
-
-    /**
-     * Deliver payload to a specific webhook
-     */
-    private async deliver(webhook: Webhook, payload: WebhookPayload, attempt = 1): Promise<boolean> {
-        // console.log(`[WebhookDispatcher] Delivering to ${webhook.url} (Attempt ${attempt})`);
-        const payloadString = JSON.stringify(payload);
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-            "X-Fairlx-Event": payload.event,
-            "X-Fairlx-Delivery": crypto.randomUUID(),
-        };
-
-        if (webhook.secret) {
-            const signature = crypto
-                .createHmac("sha256", webhook.secret)
-                .update(payloadString)
-                .digest("hex");
-            headers["X-Fairlx-Signature"] = signature;
-        }
-
-        try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
-
-            const response = await fetch(webhook.url, {
-                method: "POST",
-                headers,
-                body: payloadString,
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
-
-            const responseBody = await response.text();
-            const status = response.ok ? WebhookDeliveryStatus.SUCCESS : WebhookDeliveryStatus.FAILED;
-
-            // console.log(`[WebhookDispatcher] Result for ${webhook.url}: ${response.status} ${response.statusText}`);
-
-            const repo = await this.getRepository();
-            await repo.logDelivery({
-                webhookId: webhook.$id,
-                eventType: payload.event,
-                payload: payloadString,
-                status,
-                responseCode: response.status,
-                responseBody: responseBody.substring(0, 1000), // Cap body size
-                attempts: attempt,
-            });
-
-            if (!response.ok && this.shouldRetry(response.status)) {
-                if (attempt === 1) {
-                    await this.retryQueue.add({
-                        webhookId: webhook.$id,
-                        eventType: payload.event,
-                        payload: payloadString,
-                    });
-                }
-                return false;
-            }
-
-            return response.ok;
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : "Unknown error";
-            console.error(`[WebhookDispatcher] Delivery to ${webhook.url} error:`, errorMessage);
-
-            const repo = await this.getRepository();
-            await repo.logDelivery({
-                webhookId: webhook.$id,
-                eventType: payload.event,
-                payload: payloadString,
-                status: WebhookDeliveryStatus.FAILED,
-                responseBody: errorMessage,
-                attempts: attempt,
-            });
-
-            if (attempt === 1) {
-                await this.retryQueue.add({
-                    webhookId: webhook.$id,
-                    eventType: payload.event,
-                    payload: payloadString,
-                });
-            }
-
-            return false;
-        }
-    }
-
-    private shouldRetry(statusCode: number): boolean {
-        // Retry on 5xx or specific network-like errors
-        return statusCode >= 500;
-    }
-
-    private async retryDelivery(task: { webhookId: string; eventType: string; payload: string; attempts: number }): Promise<boolean> {
-        const repo = await this.getRepository();
-        try {
-            const webhook = await (await repo.getDatabases()).getDocument<Webhook>(
-                process.env.NEXT_PUBLIC_APPWRITE_DATABASE_ID!,
-                process.env.NEXT_PUBLIC_APPWRITE_PROJECT_WEBHOOKS_ID!,
-                task.webhookId
-            );
-
-            if (!webhook.enabled) return true; // Stop retrying if disabled
-
-            return await this.deliver(webhook, JSON.parse(task.payload), task.attempts);
-        } catch {
-            return false;
-        }
-    }
-
-    private async markPermanentlyFailed(task: { webhookId: string; eventType: string; payload: string; attempts: number }): Promise<void> {
-        // Already logged in deliver method's final attempt
-        console.warn(`[WebhookDispatcher] Webhook ${task.webhookId} permanently failed after ${task.attempts} attempts.`);
+        const delivery = await webhookDeliveryQueue.enqueue(webhook, dummyPayload);
+        return delivery.status === WebhookDeliveryStatus.SUCCESS;
     }
 }
 
@@ -0,0 +1,34 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["work-item-imports"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["work-item-imports"]["$post"]>;
+
+export const useCreateWorkItemImport = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json }) => {
+      const response = await client.api["work-item-imports"].$post({ json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to read the file.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["work-item-imports"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to read the file.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["work-item-imports"][":importId"]["$delete"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["work-item-imports"][":importId"]["$delete"]>;
+
+export const useDeleteWorkItemImport = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api["work-item-imports"][":importId"].$delete({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to delete the import.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast.success("Import removed from history.");
+      queryClient.invalidateQueries({ queryKey: ["work-item-imports"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete the import.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+import { ImportStatus } from "../types";
+
+interface UseGetWorkItemImportProps {
+  importId: string | null;
+}
+
+export const useGetWorkItemImport = ({ importId }: UseGetWorkItemImportProps) => {
+  const query = useQuery({
+    queryKey: ["work-item-import", importId],
+    enabled: !!importId,
+    queryFn: async () => {
+      const response = await client.api["work-item-imports"][":importId"].$get({
+        param: { importId: importId! },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch the import.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+    // Poll for progress while the import is queued or running
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === ImportStatus.QUEUED || status === ImportStatus.RUNNING ? 2000 : false;
+    },
+  });
+
+  return query;
+};
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { client } from "@/lib/rpc";
+
+import { ImportStatus } from "../types";
+
+interface UseGetWorkItemImportsProps {
+  workspaceId: string;
+  projectId: string;
+  enabled?: boolean;
+}
+
+export const useGetWorkItemImports = ({
+  workspaceId,
+  projectId,
+  enabled = true,
+}: UseGetWorkItemImportsProps) => {
+  const query = useQuery({
+    queryKey: ["work-item-imports", workspaceId, projectId],
+    enabled: enabled && !!workspaceId && !!projectId,
+    queryFn: async () => {
+      const response = await client.api["work-item-imports"].$get({
+        query: { workspaceId, projectId },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch imports.");
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+    // Keep the history's progress current while an import runs
+    refetchInterval: (query) => {
+      const running = query.state.data?.documents.some(
+        (job) => job.status === ImportStatus.QUEUED || job.status === ImportStatus.RUNNING
+      );
+      return running ? 4000 : false;
+    },
+  });
+
+  return query;
+};
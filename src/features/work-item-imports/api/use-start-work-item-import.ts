@@ -0,0 +1,36 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["work-item-imports"][":importId"]["start"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["work-item-imports"][":importId"]["start"]["$post"]>;
+
+export const useStartWorkItemImport = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param }) => {
+      const response = await client.api["work-item-imports"][":importId"]["start"].$post({ param });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to start the import.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success("Import started.");
+      queryClient.invalidateQueries({ queryKey: ["work-item-imports"] });
+      queryClient.invalidateQueries({ queryKey: ["work-item-import", data.$id] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to start the import.");
+    },
+  });
+
+  return mutation;
+};
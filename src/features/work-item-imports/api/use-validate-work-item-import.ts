@@ -0,0 +1,35 @@
+import { toast } from "sonner";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<(typeof client.api)["work-item-imports"][":importId"]["validate"]["$post"], 200>;
+type RequestType = InferRequestType<(typeof client.api)["work-item-imports"][":importId"]["validate"]["$post"]>;
+
+export const useValidateWorkItemImport = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ param, json }) => {
+      const response = await client.api["work-item-imports"][":importId"]["validate"].$post({ param, json });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error((errorData as { error: string }).error || "Failed to validate the import.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      queryClient.invalidateQueries({ queryKey: ["work-item-imports"] });
+      queryClient.invalidateQueries({ queryKey: ["work-item-import", data.$id] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to validate the import.");
+    },
+  });
+
+  return mutation;
+};
@@ -0,0 +1,433 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AlertTriangle, CheckCircle2, FileUp, Loader, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LINK_TYPE_METADATA, WorkItemLinkType } from "@/features/work-item-links/types";
+
+import { useCreateWorkItemImport } from "../api/use-create-work-item-import";
+import { useGetWorkItemImport } from "../api/use-get-work-item-import";
+import { useStartWorkItemImport } from "../api/use-start-work-item-import";
+import { useValidateWorkItemImport } from "../api/use-validate-work-item-import";
+import { MAX_IMPORT_FILE_SIZE } from "../schemas";
+import {
+  CUSTOM_FIELD_TARGET_PREFIX,
+  ImportFormat,
+  ImportIssueSeverity,
+  ImportMapping,
+  ImportRow,
+  ImportStatus,
+  ImportTarget,
+  LINK_TARGET_PREFIX,
+  PopulatedWorkItemImport,
+} from "../types";
+
+type Step = "upload" | "map" | "review" | "progress";
+
+// Radix selects cannot hold an empty value
+const AUTO_FORMAT = "AUTO";
+const UNMAPPED = "__none";
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  [ImportFormat.CSV]: "CSV",
+  [ImportFormat.JIRA_CSV]: "Jira CSV export",
+  [ImportFormat.JSON]: "JSON",
+  [ImportFormat.TRELLO_JSON]: "Trello board export",
+};
+
+const TARGET_LABELS: Record<ImportTarget, string> = {
+  [ImportTarget.TITLE]: "Title",
+  [ImportTarget.DESCRIPTION]: "Description",
+  [ImportTarget.TYPE]: "Type",
+  [ImportTarget.STATUS]: "Status",
+  [ImportTarget.PRIORITY]: "Priority",
+  [ImportTarget.STORY_POINTS]: "Story points",
+  [ImportTarget.ESTIMATED_HOURS]: "Estimated hours",
+  [ImportTarget.START_DATE]: "Start date",
+  [ImportTarget.DUE_DATE]: "Due date",
+  [ImportTarget.LABELS]: "Labels",
+  [ImportTarget.ASSIGNEES]: "Assignees (email or name)",
+  [ImportTarget.SPRINT]: "Sprint",
+  [ImportTarget.CHECKLIST]: "Checklist",
+  [ImportTarget.EXTERNAL_ID]: "Key / ID",
+  [ImportTarget.PARENT]: "Parent (key or ID)",
+  [ImportTarget.EPIC]: "Epic (key or ID)",
+  [ImportTarget.FLAGGED]: "Flagged",
+};
+
+interface ImportWorkItemsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  projectId: string;
+}
+
+export const ImportWorkItemsDialog = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  projectId,
+}: ImportWorkItemsDialogProps) => {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>("upload");
+  const [format, setFormat] = useState<string>(AUTO_FORMAT);
+  const [job, setJob] = useState<PopulatedWorkItemImport | null>(null);
+  const [preview, setPreview] = useState<ImportRow[]>([]);
+  const [customFields, setCustomFields] = useState<{ $id: string; name: string }[]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+
+  const { mutate: createImport, isPending: isUploading } = useCreateWorkItemImport();
+  const { mutate: validateImport, isPending: isValidating } = useValidateWorkItemImport();
+  const { mutate: startImport, isPending: isStarting } = useStartWorkItemImport();
+  const { data: progress } = useGetWorkItemImport({ importId: step === "progress" ? job?.$id ?? null : null });
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setFormat(AUTO_FORMAT);
+    setJob(null);
+    setPreview([]);
+    setCustomFields([]);
+    setMapping({});
+  }, [open]);
+
+  // Refresh boards and lists once the run is over
+  const finished = progress?.status === ImportStatus.COMPLETED || progress?.status === ImportStatus.FAILED;
+  useEffect(() => {
+    if (!finished) return;
+    queryClient.invalidateQueries({ queryKey: ["work-item-imports"] });
+    queryClient.invalidateQueries({ queryKey: ["work-items"] });
+    queryClient.invalidateQueries({ queryKey: ["tasks"] });
+  }, [finished, queryClient]);
+
+  const handleFile = async (file: File) => {
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      toast.error("Files are limited to 5 MB.");
+      return;
+    }
+
+    const content = await file.text();
+    createImport(
+      {
+        json: {
+          workspaceId,
+          projectId,
+          fileName: file.name,
+          format: format === AUTO_FORMAT ? undefined : (format as ImportFormat),
+          content,
+        },
+      },
+      {
+        onSuccess: ({ data }) => {
+          const { preview: rows, customFields: fields, ...created } = data;
+          setJob(created as PopulatedWorkItemImport);
+          setPreview(rows);
+          setCustomFields(fields);
+          setMapping(created.mapping);
+          setStep("map");
+        },
+      }
+    );
+  };
+
+  const handleValidate = () => {
+    if (!job) return;
+    validateImport(
+      { param: { importId: job.$id }, json: { mapping } },
+      {
+        onSuccess: ({ data }) => {
+          setJob(data as PopulatedWorkItemImport);
+          setStep("review");
+        },
+      }
+    );
+  };
+
+  const handleStart = () => {
+    if (!job) return;
+    startImport(
+      { param: { importId: job.$id } },
+      { onSuccess: () => setStep("progress") }
+    );
+  };
+
+  const setTarget = (column: string, target: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (target === UNMAPPED) {
+        delete next[column];
+      } else {
+        next[column] = target;
+      }
+      return next;
+    });
+  };
+
+  const sampleValues = (column: string) =>
+    preview
+      .map((row) => (row[column] ?? []).filter(Boolean).join(", "))
+      .filter(Boolean)
+      .slice(0, 3);
+
+  const report = job?.report;
+  const hasTitle = Object.values(mapping).includes(ImportTarget.TITLE);
+  const current = progress ?? job;
+  const total = report?.validRows || current?.rowCount || 0;
+  const percent = total > 0 ? Math.round(((current?.processed ?? 0) / total) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Work Items</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or JSON file, including Jira CSV and Trello board exports."}
+            {step === "map" && `Choose the work item field for each column of ${job?.fileName}.`}
+            {step === "review" && "Dry run of the import with this mapping. Nothing has been created yet."}
+            {step === "progress" && "The import runs in the background. You can close this dialog."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="flex flex-col gap-y-4">
+            <div className="flex flex-col gap-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={setFormat}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_FORMAT}>Detect from the file</SelectItem>
+                  {Object.values(ImportFormat).map((value) => (
+                    <SelectItem key={value} value={value}>{FORMAT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) handleFile(file);
+              }}
+            />
+            <button
+              type="button"
+              disabled={isUploading}
+              onClick={() => fileInputRef.current?.click()}
+              className="flex flex-col items-center justify-center gap-2 rounded-md border border-dashed py-10 text-center hover:bg-muted/50 transition-colors disabled:opacity-50"
+            >
+              {isUploading ? (
+                <Loader className="size-8 text-muted-foreground animate-spin" />
+              ) : (
+                <FileUp className="size-8 text-muted-foreground" />
+              )}
+              <span className="text-sm font-medium">{isUploading ? "Reading file..." : "Choose a file"}</span>
+              <span className="text-xs text-muted-foreground">Up to 5 MB and 5,000 rows</span>
+            </button>
+          </div>
+        )}
+
+        {step === "map" && job && (
+          <div className="flex flex-col gap-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline" className="text-[10px]">{FORMAT_LABELS[job.format]}</Badge>
+              {job.rowCount} row{job.rowCount === 1 ? "" : "s"} · {(job.columns ?? []).length} columns
+            </div>
+            <div className="rounded-md border divide-y">
+              {(job.columns ?? []).map((column) => {
+                const samples = sampleValues(column);
+                return (
+                  <div key={column} className="flex items-center gap-3 p-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{column}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {samples.length > 0 ? samples.join(" · ") : "No values in the first rows"}
+                      </p>
+                    </div>
+                    <Select value={mapping[column] ?? UNMAPPED} onValueChange={(value) => setTarget(column, value)}>
+                      <SelectTrigger className="w-[240px] shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Don&apos;t import</SelectItem>
+                        <SelectGroup>
+                          <SelectLabel>Fields</SelectLabel>
+                          {Object.values(ImportTarget).map((target) => (
+                            <SelectItem key={target} value={target}>{TARGET_LABELS[target]}</SelectItem>
+                          ))}
+                        </SelectGroup>
+                        {customFields.length > 0 && (
+                          <SelectGroup>
+                            <SelectLabel>Custom fields</SelectLabel>
+                            {customFields.map((field) => (
+                              <SelectItem key={field.$id} value={`${CUSTOM_FIELD_TARGET_PREFIX}${field.$id}`}>
+                                {field.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        )}
+                        <SelectGroup>
+                          <SelectLabel>Links (keys or IDs)</SelectLabel>
+                          {Object.values(WorkItemLinkType).map((linkType) => (
+                            <SelectItem key={linkType} value={`${LINK_TARGET_PREFIX}${linkType}`}>
+                              Link: {LINK_TYPE_METADATA[linkType].label}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+            {!hasTitle && (
+              <p className="text-xs text-destructive">Map a column to Title to continue.</p>
+            )}
+          </div>
+        )}
+
+        {step === "review" && report && (
+          <div className="flex flex-col gap-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <Stat label="Will be created" value={report.validRows} />
+              <Stat label="Skipped rows" value={report.skippedRows} />
+              <Stat label="Epics / subtasks" value={`${report.counts.epics} / ${report.counts.subtasks}`} />
+              <Stat label="Links" value={report.counts.links} />
+            </div>
+            {report.unresolvedUsers.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">Not workspace members, left unassigned: </span>
+                {report.unresolvedUsers.join(", ")}
+              </p>
+            )}
+            {report.unknownStatuses.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">Unknown statuses, set to the default: </span>
+                {report.unknownStatuses.join(", ")}
+              </p>
+            )}
+            {report.issues.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CheckCircle2 className="size-4 text-green-600" />
+                Every row can be imported as mapped.
+              </div>
+            ) : (
+              <div className="rounded-md border divide-y max-h-[300px] overflow-y-auto">
+                {report.issues.map((issue, index) => (
+                  <div key={index} className="flex items-start gap-2 p-2 text-xs">
+                    {issue.severity === ImportIssueSeverity.ERROR ? (
+                      <XCircle className="size-3.5 text-destructive shrink-0 mt-0.5" />
+                    ) : (
+                      <AlertTriangle className="size-3.5 text-amber-500 shrink-0 mt-0.5" />
+                    )}
+                    <span className="text-muted-foreground shrink-0">Row {issue.row}</span>
+                    {issue.column && <span className="font-medium shrink-0">{issue.column}</span>}
+                    <span>{issue.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {report.truncated && (
+              <p className="text-xs text-muted-foreground">Only the first {report.issues.length} issues are shown.</p>
+            )}
+          </div>
+        )}
+
+        {step === "progress" && current && (
+          <div className="flex flex-col gap-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                {current.status === ImportStatus.COMPLETED
+                  ? "Import complete"
+                  : current.status === ImportStatus.FAILED
+                    ? "Import failed"
+                    : current.status === ImportStatus.QUEUED
+                      ? "Waiting to start..."
+                      : "Importing..."}
+              </span>
+              <span className="text-muted-foreground">{current.processed ?? 0} / {total}</span>
+            </div>
+            <Progress value={percent} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {current.created ?? 0} created · {current.failed ?? 0} failed
+            </p>
+            {current.status === ImportStatus.FAILED && current.lastError && (
+              <p className="text-xs text-destructive">{current.lastError}</p>
+            )}
+            {(progress?.failures.length ?? 0) > 0 && (
+              <div className="rounded-md border divide-y max-h-[200px] overflow-y-auto">
+                {progress!.failures.map((failure, index) => (
+                  <div key={index} className="flex items-start gap-2 p-2 text-xs">
+                    <XCircle className="size-3.5 text-destructive shrink-0 mt-0.5" />
+                    <span className="text-muted-foreground shrink-0">Row {failure.row}</span>
+                    <span>{failure.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <Button onClick={handleValidate} disabled={!hasTitle || isValidating}>
+              {isValidating ? "Validating..." : "Validate"}
+            </Button>
+          )}
+          {step === "review" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} disabled={isStarting}>
+                Back to Mapping
+              </Button>
+              <Button onClick={handleStart} disabled={job?.status !== ImportStatus.VALIDATED || isStarting}>
+                {isStarting ? "Starting..." : `Import ${report?.validRows ?? 0} Work Items`}
+              </Button>
+            </>
+          )}
+          {step === "progress" && (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              {finished ? "Done" : "Close"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Stat = ({ label, value }: { label: string; value: number | string }) => (
+  <div className="rounded-md border p-2">
+    <p className="text-lg font-semibold">{value}</p>
+    <p className="text-xs text-muted-foreground">{label}</p>
+  </div>
+);
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { FileUp, TrashIcon, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useConfirm } from "@/hooks/use-confirm";
+
+import { useDeleteWorkItemImport } from "../api/use-delete-work-item-import";
+import { useGetWorkItemImports } from "../api/use-get-work-item-imports";
+import { ImportStatus, PopulatedWorkItemImport } from "../types";
+import { ImportWorkItemsDialog } from "./import-work-items-dialog";
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  [ImportStatus.DRAFT]: "Draft",
+  [ImportStatus.VALIDATED]: "Validated",
+  [ImportStatus.QUEUED]: "Queued",
+  [ImportStatus.RUNNING]: "Running",
+  [ImportStatus.COMPLETED]: "Completed",
+  [ImportStatus.FAILED]: "Failed",
+};
+
+interface WorkItemImportsSettingsProps {
+  workspaceId: string;
+  projectId: string;
+  canImport: boolean;
+}
+
+export const WorkItemImportsSettings = ({
+  workspaceId,
+  projectId,
+  canImport,
+}: WorkItemImportsSettingsProps) => {
+  const { data, isLoading } = useGetWorkItemImports({ workspaceId, projectId });
+  const { mutate: deleteImport } = useDeleteWorkItemImport();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const [DeleteDialog, confirmDelete] = useConfirm(
+    "Remove Import",
+    "The import is removed from the history. Work items it created are kept.",
+    "destructive"
+  );
+
+  const imports = (data?.documents ?? []) as PopulatedWorkItemImport[];
+
+  const handleDelete = async (importId: string) => {
+    const ok = await confirmDelete();
+    if (ok) {
+      deleteImport({ param: { importId } });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-y-4">
+      <DeleteDialog />
+      <ImportWorkItemsDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        workspaceId={workspaceId}
+        projectId={projectId}
+      />
+
+      {canImport && (
+        <div className="flex justify-end">
+          <Button onClick={() => setDialogOpen(true)} size="sm">
+            <Upload className="size-4 mr-2" />
+            Import Work Items
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex flex-col gap-y-2">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : imports.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-md border border-dashed py-10 text-center">
+          <FileUp className="size-8 text-muted-foreground mb-2" />
+          <p className="text-sm font-medium">No imports yet</p>
+          <p className="text-xs text-muted-foreground">
+            Bring work items over from a spreadsheet, Jira or Trello.
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-y-2">
+          {imports.map((job) => {
+            const running = job.status === ImportStatus.QUEUED || job.status === ImportStatus.RUNNING;
+            return (
+              <div key={job.$id} className="rounded-md border p-3">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">{job.fileName}</p>
+                      <Badge
+                        variant={job.status === ImportStatus.FAILED ? "destructive" : "outline"}
+                        className="text-[10px]"
+                      >
+                        {STATUS_LABELS[job.status]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {job.rowCount} row{job.rowCount === 1 ? "" : "s"}
+                      {(job.processed ?? 0) > 0 && ` · ${job.created ?? 0} created · ${job.failed ?? 0} failed`}
+                      {` · ${formatDistanceToNow(new Date(job.$createdAt), { addSuffix: true })}`}
+                    </p>
+                    {running && (
+                      <Progress
+                        value={job.rowCount > 0 ? Math.round(((job.processed ?? 0) / job.rowCount) * 100) : 0}
+                        className="h-1.5 mt-2"
+                      />
+                    )}
+                    {job.status === ImportStatus.FAILED && job.lastError && (
+                      <p className="text-xs text-destructive mt-1">{job.lastError}</p>
+                    )}
+                  </div>
+                  {canImport && !running && (
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Remove" onClick={() => handleDelete(job.$id)}>
+                      <TrashIcon className="size-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+
+import { CustomFieldType } from "@/features/custom-fields/types";
+import { WorkItemLinkType } from "@/features/work-item-links/types";
+
+import {
+  ImportContext,
+  buildImportPlan,
+  collectExternalReferences,
+  parseHours,
+  parseImportDate,
+  suggestImportMapping,
+  textToDescriptionHtml,
+} from "./mapping";
+import { ImportFormat, ImportIssueSeverity, ImportRow, ImportTarget } from "./types";
+
+const context: ImportContext = {
+  statuses: [
+    { key: "TODO", name: "To Do" },
+    { key: "IN_PROGRESS", name: "In Progress" },
+    { key: "DONE", name: "Done" },
+  ],
+  defaultStatus: "TODO",
+  members: [
+    { memberId: "mem-ana", userId: "user-ana", email: "ana@example.com", name: "Ana Diaz" },
+    { memberId: "mem-bo", userId: "user-bo", email: "bo@example.com", name: "Bo Chen" },
+  ],
+  sprints: [{ $id: "sprint-2", name: "Sprint 2" }],
+  customFields: [
+    {
+      $id: "cf-risk",
+      name: "Risk",
+      key: "risk",
+      type: CustomFieldType.SELECT,
+      options: [{ id: "opt-high", value: "High", position: 0 }],
+    },
+  ],
+  existingItems: new Map([["APP-7", { workItemId: "wi-7", type: "EPIC" }]]),
+};
+
+const jiraColumns = [
+  "Summary",
+  "Issue key",
+  "Issue id",
+  "Issue Type",
+  "Status",
+  "Priority",
+  "Assignee",
+  "Labels",
+  "Sprint",
+  "Parent",
+  "Custom field (Story point estimate)",
+  "Custom field (Risk)",
+  "Outward issue link (Blocks)",
+  "Inward issue link (Blocks)",
+  "Original Estimate",
+];
+
+describe("suggestImportMapping", () => {
+  it("maps Jira columns, links and custom fields", () => {
+    expect(suggestImportMapping(ImportFormat.JIRA_CSV, jiraColumns, context.customFields)).toEqual({
+      "Summary": ImportTarget.TITLE,
+      "Issue key": ImportTarget.EXTERNAL_ID,
+      "Issue id": ImportTarget.EXTERNAL_ID,
+      "Issue Type": ImportTarget.TYPE,
+      "Status": ImportTarget.STATUS,
+      "Priority": ImportTarget.PRIORITY,
+      "Assignee": ImportTarget.ASSIGNEES,
+      "Labels": ImportTarget.LABELS,
+      "Sprint": ImportTarget.SPRINT,
+      "Parent": ImportTarget.PARENT,
+      "Custom field (Story point estimate)": ImportTarget.STORY_POINTS,
+      "Custom field (Risk)": "customField:cf-risk",
+      "Outward issue link (Blocks)": "link:BLOCKS",
+      "Inward issue link (Blocks)": "link:IS_BLOCKED_BY",
+    });
+  });
+
+  it("uses Trello lists as statuses but not a generic List column", () => {
+    expect(suggestImportMapping(ImportFormat.TRELLO_JSON, ["Name", "List"])).toEqual({ Name: "title", List: "status" });
+    expect(suggestImportMapping(ImportFormat.CSV, ["Title", "List"])).toEqual({ Title: "title" });
+  });
+
+  it("keeps the first column for single-value targets", () => {
+    expect(suggestImportMapping(ImportFormat.CSV, ["Title", "Name"])).toEqual({ Title: "title" });
+  });
+});
+
+describe("value parsing", () => {
+  it("reads hours and durations", () => {
+    expect(parseHours("2.5")).toBe(2.5);
+    expect(parseHours("1d 4h 30m")).toBe(12.5);
+    expect(parseHours("1w")).toBe(40);
+    expect(parseHours("soon")).toBeNull();
+  });
+
+  it("reads ISO and Jira dates", () => {
+    expect(parseImportDate("2026-03-04")).toBe("2026-03-04T00:00:00.000Z");
+    expect(parseImportDate("12/Mar/26 3:45 PM")).toBe("2026-03-12T15:45:00.000Z");
+    expect(parseImportDate("not a date")).toBeNull();
+  });
+
+  it("turns plain text into paragraphs and keeps HTML", () => {
+    expect(textToDescriptionHtml("First <line>\nsecond\n\nNext")).toBe("<p>First &lt;line&gt;<br>second</p><p>Next</p>");
+    expect(textToDescriptionHtml("<p>Already</p>")).toBe("<p>Already</p>");
+  });
+});
+
+describe("buildImportPlan", () => {
+  const mapping = suggestImportMapping(ImportFormat.JIRA_CSV, jiraColumns, context.customFields);
+  const now = new Date("2026-03-04T10:00:00.000Z");
+
+  it("resolves fields, users, sprints and custom fields", () => {
+    const { items, report } = buildImportPlan(
+      [{
+        "Summary": ["Login page"],
+        "Issue Type": ["Bug"],
+        "Status": ["in progress"],
+        "Priority": ["Highest"],
+        "Assignee": ["Bo Chen"],
+        "Labels": ["auth", "ui"],
+        "Sprint": ["Sprint 1", "Sprint 2"],
+        "Custom field (Story point estimate)": ["5"],
+        "Custom field (Risk)": ["high"],
+      }],
+      mapping,
+      context,
+      now
+    );
+
+    expect(report.issues).toEqual([]);
+    expect(items[0]).toMatchObject({
+      row: 1,
+      title: "Login page",
+      type: "BUG",
+      status: "IN_PROGRESS",
+      priority: "URGENT",
+      assigneeIds: ["mem-bo"],
+      labels: ["auth", "ui"],
+      sprintId: "sprint-2",
+      storyPoints: 5,
+      customFields: [{ fieldId: "cf-risk", value: "opt-high" }],
+    });
+  });
+
+  it("skips rows without a title and warns about values it drops", () => {
+    const { items, report } = buildImportPlan(
+      [
+        { "Issue key": ["APP-1"] },
+        { "Summary": ["Kept"], "Status": ["Blocked"], "Assignee": ["nobody@example.com"], "Priority": ["P9"] },
+      ],
+      mapping,
+      context,
+      now
+    );
+
+    expect(items.map((item) => item.row)).toEqual([2]);
+    expect(items[0]).toMatchObject({ status: "TODO", priority: "MEDIUM", assigneeIds: [] });
+    expect(report).toMatchObject({
+      totalRows: 2,
+      validRows: 1,
+      skippedRows: 1,
+      unresolvedUsers: ["nobody@example.com"],
+      unknownStatuses: ["Blocked"],
+      truncated: false,
+      validatedAt: now.toISOString(),
+    });
+    expect(report.issues.map((issue) => [issue.row, issue.severity])).toEqual([
+      [1, ImportIssueSeverity.ERROR],
+      [2, ImportIssueSeverity.WARNING],
+      [2, ImportIssueSeverity.WARNING],
+      [2, ImportIssueSeverity.WARNING],
+    ]);
+  });
+
+  it("links rows to epics, parents and existing items and orders referenced rows first", () => {
+    const { items, report } = buildImportPlan(
+      [
+        { "Summary": ["Subtask"], "Issue key": ["APP-3"], "Issue Type": ["Sub-task"], "Parent": ["1002"] },
+        { "Summary": ["Story"], "Issue key": ["APP-2"], "Issue id": ["1002"], "Parent": ["1001"], "Outward issue link (Blocks)": ["APP-3"] },
+        { "Summary": ["Epic"], "Issue key": ["APP-1"], "Issue id": ["1001"], "Issue Type": ["Epic"] },
+        { "Summary": ["Old epic story"], "Parent": ["app-7"] },
+      ],
+      mapping,
+      context,
+      now
+    );
+
+    expect(items.map((item) => item.title)).toEqual(["Epic", "Story", "Subtask", "Old epic story"]);
+    expect(items[1]).toMatchObject({ epic: { row: 3 }, parent: null, links: [{ linkType: WorkItemLinkType.BLOCKS, target: { row: 1 } }] });
+    expect(items[2]).toMatchObject({ type: "SUBTASK", parent: { row: 2 }, epic: null });
+    expect(items[3]).toMatchObject({ epic: { workItemId: "wi-7" } });
+    expect(report.counts).toEqual({ epics: 1, subtasks: 1, links: 1 });
+  });
+
+  it("drops unresolved references and parent cycles", () => {
+    const { items, report } = buildImportPlan(
+      [
+        { "Summary": ["A"], "Issue key": ["X-1"], "Parent": ["X-2"] },
+        { "Summary": ["B"], "Issue key": ["X-2"], "Parent": ["X-1"], "Outward issue link (Blocks)": ["X-404"] },
+      ],
+      mapping,
+      context,
+      now
+    );
+
+    expect(items).toHaveLength(2);
+    expect(items.filter((item) => item.parent === null)).toHaveLength(1);
+    expect(report.issues.map((issue) => issue.message)).toEqual(
+      expect.arrayContaining([
+        '"X-404" matches no row or work item',
+        expect.stringContaining("forms a cycle"),
+      ])
+    );
+  });
+});
+
+describe("collectExternalReferences", () => {
+  it("returns references that are not rows of the file", () => {
+    const mapping = { "Issue key": ImportTarget.EXTERNAL_ID, "Parent": ImportTarget.PARENT, "Blocks": "link:BLOCKS" };
+    const rows: ImportRow[] = [
+      { "Issue key": ["APP-1"], "Parent": ["APP-9"] },
+      { "Issue key": ["APP-2"], "Parent": ["app-1"], "Blocks": ["APP-9, APP-10"] },
+    ];
+    expect(collectExternalReferences(rows, mapping)).toEqual(["APP-9", "APP-10"]);
+  });
+});
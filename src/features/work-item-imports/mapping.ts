@@ -0,0 +1,743 @@
+import { CustomField, CustomFieldType } from "@/features/custom-fields/types";
+import { CustomFieldValue, WorkItemPriority, WorkItemType } from "@/features/sprints/types";
+import { ChecklistEntry, escapeHtml, renderChecklistHtml } from "@/features/templates/checklist";
+import { WorkItemLinkType } from "@/features/work-item-links/types";
+
+import {
+  CUSTOM_FIELD_TARGET_PREFIX,
+  ImportFormat,
+  ImportIssue,
+  ImportIssueSeverity,
+  ImportMapping,
+  ImportReport,
+  ImportRow,
+  ImportTarget,
+  LINK_TARGET_PREFIX,
+} from "./types";
+
+/**
+ * Import mapping and dry run
+ *
+ * buildImportPlan turns parsed rows into the work items an import would
+ * create, resolving statuses, users, sprints and references between rows (or
+ * to work items already in the project). The validation report and the
+ * background run both use it, so the dry run is exactly what gets created.
+ */
+
+const MAX_REPORTED_ISSUES = 500;
+const MAX_TITLE_LENGTH = 512;
+const HOURS_PER_DAY = 8;
+const DAYS_PER_WEEK = 5;
+
+// Targets that combine every column mapped to them; the others read the first one
+const MULTI_COLUMN_TARGETS = new Set<string>([
+  ImportTarget.LABELS,
+  ImportTarget.ASSIGNEES,
+  ImportTarget.CHECKLIST,
+  ImportTarget.EXTERNAL_ID,
+]);
+
+export type ImportMember = {
+  memberId: string;
+  userId: string;
+  email?: string | null;
+  name?: string | null;
+};
+
+export type ImportStatusOption = { key: string; name: string };
+
+export type ImportExistingItem = { workItemId: string; type: string };
+
+export type ImportContext = {
+  statuses: ImportStatusOption[];
+  defaultStatus: string;
+  // Extra type and priority keys the project defines
+  customTypes?: string[];
+  customPriorities?: string[];
+  members: ImportMember[];
+  sprints: Array<{ $id: string; name: string }>;
+  customFields: Array<Pick<CustomField, "$id" | "name" | "key" | "type" | "options">>;
+  // Work items already in the project, by key (upper case)
+  existingItems: Map<string, ImportExistingItem>;
+};
+
+// A row of the file (1-based) or a work item that already exists
+export type ImportReference = { row: number } | { workItemId: string };
+
+export type PlannedWorkItem = {
+  row: number;
+  title: string;
+  description: string | null;
+  type: string;
+  status: string;
+  priority: string;
+  storyPoints?: number;
+  estimatedHours?: number;
+  startDate?: string;
+  dueDate?: string;
+  labels: string[];
+  assigneeIds: string[];
+  sprintId: string | null;
+  flagged: boolean;
+  customFields: CustomFieldValue[];
+  parent: ImportReference | null;
+  epic: ImportReference | null;
+  links: Array<{ linkType: WorkItemLinkType; target: ImportReference }>;
+};
+
+export type ImportPlan = {
+  // Ordered so every row comes after the rows it references as parent or epic
+  items: PlannedWorkItem[];
+  report: ImportReport;
+};
+
+/** Lower case with everything but letters and digits removed */
+export function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+const HEADER_SUGGESTIONS: Record<string, string> = {
+  summary: ImportTarget.TITLE,
+  title: ImportTarget.TITLE,
+  name: ImportTarget.TITLE,
+  taskname: ImportTarget.TITLE,
+  description: ImportTarget.DESCRIPTION,
+  desc: ImportTarget.DESCRIPTION,
+  details: ImportTarget.DESCRIPTION,
+  issuetype: ImportTarget.TYPE,
+  type: ImportTarget.TYPE,
+  worktype: ImportTarget.TYPE,
+  status: ImportTarget.STATUS,
+  state: ImportTarget.STATUS,
+  list: ImportTarget.STATUS,
+  priority: ImportTarget.PRIORITY,
+  storypoints: ImportTarget.STORY_POINTS,
+  points: ImportTarget.STORY_POINTS,
+  customfieldstorypoints: ImportTarget.STORY_POINTS,
+  customfieldstorypointestimate: ImportTarget.STORY_POINTS,
+  estimatedhours: ImportTarget.ESTIMATED_HOURS,
+  estimate: ImportTarget.ESTIMATED_HOURS,
+  hours: ImportTarget.ESTIMATED_HOURS,
+  startdate: ImportTarget.START_DATE,
+  start: ImportTarget.START_DATE,
+  customfieldstartdate: ImportTarget.START_DATE,
+  duedate: ImportTarget.DUE_DATE,
+  due: ImportTarget.DUE_DATE,
+  deadline: ImportTarget.DUE_DATE,
+  labels: ImportTarget.LABELS,
+  label: ImportTarget.LABELS,
+  tags: ImportTarget.LABELS,
+  assignee: ImportTarget.ASSIGNEES,
+  assignees: ImportTarget.ASSIGNEES,
+  assigneeemail: ImportTarget.ASSIGNEES,
+  members: ImportTarget.ASSIGNEES,
+  owner: ImportTarget.ASSIGNEES,
+  sprint: ImportTarget.SPRINT,
+  checklist: ImportTarget.CHECKLIST,
+  issuekey: ImportTarget.EXTERNAL_ID,
+  issueid: ImportTarget.EXTERNAL_ID,
+  key: ImportTarget.EXTERNAL_ID,
+  id: ImportTarget.EXTERNAL_ID,
+  cardid: ImportTarget.EXTERNAL_ID,
+  externalid: ImportTarget.EXTERNAL_ID,
+  parent: ImportTarget.PARENT,
+  parentid: ImportTarget.PARENT,
+  parentkey: ImportTarget.PARENT,
+  epic: ImportTarget.EPIC,
+  epiclink: ImportTarget.EPIC,
+  epickey: ImportTarget.EPIC,
+  customfieldepiclink: ImportTarget.EPIC,
+  flagged: ImportTarget.FLAGGED,
+  customfieldflagged: ImportTarget.FLAGGED,
+  blocks: `${LINK_TARGET_PREFIX}${WorkItemLinkType.BLOCKS}`,
+  blockedby: `${LINK_TARGET_PREFIX}${WorkItemLinkType.IS_BLOCKED_BY}`,
+  relatesto: `${LINK_TARGET_PREFIX}${WorkItemLinkType.RELATES_TO}`,
+};
+
+// Jira "Outward issue link (Blocks)" style columns, by link name
+const JIRA_LINK_TYPES: Record<string, { outward: WorkItemLinkType; inward: WorkItemLinkType }> = {
+  blocks: { outward: WorkItemLinkType.BLOCKS, inward: WorkItemLinkType.IS_BLOCKED_BY },
+  relates: { outward: WorkItemLinkType.RELATES_TO, inward: WorkItemLinkType.RELATES_TO },
+  duplicate: { outward: WorkItemLinkType.DUPLICATES, inward: WorkItemLinkType.IS_DUPLICATED_BY },
+  cloners: { outward: WorkItemLinkType.CLONED_FROM, inward: WorkItemLinkType.CLONED_TO },
+  problemincident: { outward: WorkItemLinkType.CAUSES, inward: WorkItemLinkType.IS_CAUSED_BY },
+};
+
+/**
+ * Best-guess mapping from column names (Jira, Trello and common CSV headers)
+ */
+export function suggestImportMapping(
+  format: ImportFormat,
+  columns: string[],
+  customFields: Array<Pick<CustomField, "$id" | "name" | "key">> = []
+): ImportMapping {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+
+  for (const column of columns) {
+    const header = normalizeHeader(column);
+    let target: string | undefined;
+
+    const jiraLink = column.match(/^(Outward|Inward) issue link \((.+)\)$/i);
+    const jiraCustomField = column.match(/^Custom field \((.+)\)$/i);
+
+    if (jiraLink) {
+      const linkTypes = JIRA_LINK_TYPES[normalizeHeader(jiraLink[2])];
+      if (linkTypes) {
+        target = `${LINK_TARGET_PREFIX}${jiraLink[1].toLowerCase() === "outward" ? linkTypes.outward : linkTypes.inward}`;
+      }
+    } else {
+      const fieldName = normalizeHeader(jiraCustomField ? jiraCustomField[1] : column);
+      const field = customFields.find((f) => normalizeHeader(f.name) === fieldName || normalizeHeader(f.key) === fieldName);
+      target = field ? `${CUSTOM_FIELD_TARGET_PREFIX}${field.$id}` : HEADER_SUGGESTIONS[header];
+    }
+
+    // Trello exports the card's list; everywhere else "List" is too vague
+    if (target === ImportTarget.STATUS && header === "list" && format !== ImportFormat.TRELLO_JSON) {
+      target = undefined;
+    }
+
+    if (!target) continue;
+    const repeatable = MULTI_COLUMN_TARGETS.has(target) || target.startsWith(LINK_TARGET_PREFIX);
+    if (!repeatable && used.has(target)) continue;
+
+    mapping[column] = target;
+    used.add(target);
+  }
+
+  return mapping;
+}
+
+// ---------------------------------------------------------------------------
+// Value parsing
+// ---------------------------------------------------------------------------
+
+function splitList(values: string[], pattern: RegExp = /[,;]/): string[] {
+  return Array.from(new Set(values.flatMap((value) => value.split(pattern)).map((v) => v.trim()).filter(Boolean)));
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+}
+
+const TYPE_ALIASES: Record<string, string> = {
+  STORY: WorkItemType.STORY,
+  USER_STORY: WorkItemType.STORY,
+  FEATURE: WorkItemType.STORY,
+  NEW_FEATURE: WorkItemType.STORY,
+  IMPROVEMENT: WorkItemType.STORY,
+  BUG: WorkItemType.BUG,
+  DEFECT: WorkItemType.BUG,
+  TASK: WorkItemType.TASK,
+  EPIC: WorkItemType.EPIC,
+  SUBTASK: WorkItemType.SUBTASK,
+  SUB_TASK: WorkItemType.SUBTASK,
+  ISSUE: WorkItemType.ISSUE,
+};
+
+const PRIORITY_ALIASES: Record<string, string> = {
+  HIGHEST: WorkItemPriority.URGENT,
+  BLOCKER: WorkItemPriority.URGENT,
+  CRITICAL: WorkItemPriority.URGENT,
+  URGENT: WorkItemPriority.URGENT,
+  HIGH: WorkItemPriority.HIGH,
+  MAJOR: WorkItemPriority.HIGH,
+  MEDIUM: WorkItemPriority.MEDIUM,
+  NORMAL: WorkItemPriority.MEDIUM,
+  LOW: WorkItemPriority.LOW,
+  LOWEST: WorkItemPriority.LOW,
+  MINOR: WorkItemPriority.LOW,
+  TRIVIAL: WorkItemPriority.LOW,
+};
+
+const TRUE_VALUES = new Set(["TRUE", "YES", "Y", "1", "X", "IMPEDIMENT", "FLAGGED"]);
+const FALSE_VALUES = new Set(["FALSE", "NO", "N", "0", ""]);
+
+export function parseBoolean(value: string): boolean | null {
+  const key = normalizeKey(value);
+  if (TRUE_VALUES.has(key)) return true;
+  if (FALSE_VALUES.has(key)) return false;
+  return null;
+}
+
+export function parseNumber(value: string): number | null {
+  const cleaned = value.trim().replace(/[^\d.,-]/g, "").replace(/,(?=\d{3}\b)/g, "").replace(",", ".");
+  if (!cleaned) return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Hours from a plain number or a duration such as "1d 4h 30m" (8h days, 5d weeks)
+ */
+export function parseHours(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+  const units: Record<string, number> = { w: HOURS_PER_DAY * DAYS_PER_WEEK, d: HOURS_PER_DAY, h: 1, m: 1 / 60 };
+  const parts = Array.from(trimmed.matchAll(/(\d+(?:\.\d+)?)\s*([wdhm])/g));
+  if (parts.length === 0 || trimmed.replace(/(\d+(?:\.\d+)?)\s*([wdhm])|\s/g, "") !== "") return null;
+
+  const hours = parts.reduce((sum, [, amount, unit]) => sum + Number(amount) * units[unit], 0);
+  return Math.round(hours * 100) / 100;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * ISO date string from ISO dates, Jira dates ("12/Mar/24 3:45 PM") or
+ * anything else Date understands
+ */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const dateOnly = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const date = new Date(Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])));
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const jira = trimmed.match(/^(\d{1,2})\/([a-z]{3})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})\s*(am|pm)?)?$/i);
+  if (jira) {
+    const month = MONTHS.indexOf(jira[2].toLowerCase());
+    if (month === -1) return null;
+    const year = jira[3].length === 2 ? 2000 + Number(jira[3]) : Number(jira[3]);
+    let hours = jira[4] ? Number(jira[4]) : 0;
+    if (jira[6]?.toLowerCase() === "pm" && hours < 12) hours += 12;
+    if (jira[6]?.toLowerCase() === "am" && hours === 12) hours = 0;
+    return new Date(Date.UTC(year, month, Number(jira[1]), hours, jira[5] ? Number(jira[5]) : 0)).toISOString();
+  }
+
+  const date = new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const HTML_TAG_PATTERN = /<\/?(p|div|br|h[1-6]|ul|ol|li|strong|em|b|i|u|a|span|pre|code|blockquote|table)\b[^>]*>/i;
+
+/**
+ * Editor HTML for a description: HTML is kept, plain text becomes paragraphs
+ */
+export function textToDescriptionHtml(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+  if (HTML_TAG_PATTERN.test(trimmed)) return trimmed;
+
+  return trimmed
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\r?\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+function parseChecklist(values: string[]): ChecklistEntry[] {
+  return values
+    .flatMap((value) => value.split(/\r?\n/))
+    .map((line) => line.trim().replace(/^[-*]\s+/, ""))
+    .filter(Boolean)
+    .map((line) => {
+      const match = line.match(/^\[([ xX])\]\s*(.*)$/);
+      return match ? { text: match[2], checked: match[1].toLowerCase() === "x" } : line;
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Plan
+// ---------------------------------------------------------------------------
+
+type RowDraft = PlannedWorkItem & {
+  parentRef: string | null;
+  epicRef: string | null;
+  linkRefs: Array<{ linkType: WorkItemLinkType; ref: string }>;
+};
+
+/**
+ * References in the mapped parent, epic and link columns that don't match a
+ * row of the file; these are looked up as keys of existing work items.
+ */
+export function collectExternalReferences(rows: ImportRow[], mapping: ImportMapping): string[] {
+  const externalIds = new Set<string>();
+  const references = new Set<string>();
+
+  for (const row of rows) {
+    for (const [column, target] of Object.entries(mapping)) {
+      const values = row[column] ?? [];
+      if (target === ImportTarget.EXTERNAL_ID) {
+        values.forEach((value) => externalIds.add(value.trim().toUpperCase()));
+      } else if (target === ImportTarget.PARENT || target === ImportTarget.EPIC || target.startsWith(LINK_TARGET_PREFIX)) {
+        splitList(values, /[,;\s]+/).forEach((value) => references.add(value.toUpperCase()));
+      }
+    }
+  }
+
+  return Array.from(references).filter((ref) => !externalIds.has(ref));
+}
+
+/**
+ * Dry run: the work items the import would create and what would be skipped
+ * or dropped along the way
+ */
+export function buildImportPlan(
+  rows: ImportRow[],
+  mapping: ImportMapping,
+  context: ImportContext,
+  now: Date = new Date()
+): ImportPlan {
+  const issues: ImportIssue[] = [];
+  const unresolvedUsers = new Set<string>();
+  const unknownStatuses = new Set<string>();
+  const skippedRows = new Set<number>();
+
+  const addIssue = (row: number, column: string | null, severity: ImportIssueSeverity, message: string) => {
+    issues.push({ row, column, severity, message });
+    if (severity === ImportIssueSeverity.ERROR) skippedRows.add(row);
+  };
+
+  const columnsFor = (target: string) =>
+    Object.entries(mapping).filter(([, mapped]) => mapped === target).map(([column]) => column);
+
+  const first = (row: ImportRow, target: string): { column: string; value: string } | null => {
+    const column = columnsFor(target)[0];
+    const value = column ? row[column]?.find((v) => v.trim()) : undefined;
+    return column && value ? { column, value: value.trim() } : null;
+  };
+
+  const all = (row: ImportRow, target: string): string[] => columnsFor(target).flatMap((column) => row[column] ?? []);
+
+  // Lookups
+  const statusByName = new Map<string, string>();
+  for (const status of context.statuses) {
+    statusByName.set(normalizeKey(status.key), status.key);
+    statusByName.set(normalizeKey(status.name), status.key);
+  }
+
+  const typeKeys = new Map<string, string>(Object.entries(TYPE_ALIASES));
+  (context.customTypes ?? []).forEach((key) => typeKeys.set(normalizeKey(key), key));
+  const priorityKeys = new Map<string, string>(Object.entries(PRIORITY_ALIASES));
+  (context.customPriorities ?? []).forEach((key) => priorityKeys.set(normalizeKey(key), key));
+
+  const memberByEmail = new Map<string, ImportMember>();
+  const memberByName = new Map<string, ImportMember>();
+  for (const member of context.members) {
+    if (member.email) memberByEmail.set(member.email.toLowerCase(), member);
+    if (member.name) memberByName.set(member.name.toLowerCase(), member);
+  }
+  const findMember = (value: string) => memberByEmail.get(value.toLowerCase()) ?? memberByName.get(value.toLowerCase());
+
+  const sprintByName = new Map(context.sprints.map((sprint) => [sprint.name.trim().toLowerCase(), sprint.$id]));
+  const fieldsById = new Map(context.customFields.map((field) => [field.$id, field]));
+
+  const drafts: RowDraft[] = [];
+  const rowByExternalId = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+
+    const title = first(row, ImportTarget.TITLE);
+    if (!title) {
+      addIssue(rowNumber, columnsFor(ImportTarget.TITLE)[0] ?? null, ImportIssueSeverity.ERROR, "Missing title");
+      return;
+    }
+
+    let titleValue = title.value.replace(/\s+/g, " ");
+    if (titleValue.length > MAX_TITLE_LENGTH) {
+      titleValue = titleValue.slice(0, MAX_TITLE_LENGTH);
+      addIssue(rowNumber, title.column, ImportIssueSeverity.WARNING, `Title shortened to ${MAX_TITLE_LENGTH} characters`);
+    }
+
+    for (const externalId of splitList(all(row, ImportTarget.EXTERNAL_ID))) {
+      const key = externalId.toUpperCase();
+      if (rowByExternalId.has(key)) {
+        addIssue(rowNumber, null, ImportIssueSeverity.WARNING, `"${externalId}" is also the ID of row ${rowByExternalId.get(key)}`);
+      } else {
+        rowByExternalId.set(key, rowNumber);
+      }
+    }
+
+    // Type
+    let type: string = WorkItemType.TASK;
+    const typeCell = first(row, ImportTarget.TYPE);
+    if (typeCell) {
+      const resolved = typeKeys.get(normalizeKey(typeCell.value));
+      if (resolved) type = resolved;
+      else addIssue(rowNumber, typeCell.column, ImportIssueSeverity.WARNING, `Unknown type "${typeCell.value}", imported as Task`);
+    }
+
+    // Status
+    let status = context.defaultStatus;
+    const statusCell = first(row, ImportTarget.STATUS);
+    if (statusCell) {
+      const resolved = statusByName.get(normalizeKey(statusCell.value));
+      if (resolved) {
+        status = resolved;
+      } else {
+        unknownStatuses.add(statusCell.value);
+        addIssue(rowNumber, statusCell.column, ImportIssueSeverity.WARNING, `Unknown status "${statusCell.value}"`);
+      }
+    }
+
+    // Priority
+    let priority: string = WorkItemPriority.MEDIUM;
+    const priorityCell = first(row, ImportTarget.PRIORITY);
+    if (priorityCell) {
+      const resolved = priorityKeys.get(normalizeKey(priorityCell.value));
+      if (resolved) priority = resolved;
+      else addIssue(rowNumber, priorityCell.column, ImportIssueSeverity.WARNING, `Unknown priority "${priorityCell.value}", imported as Medium`);
+    }
+
+    const draft: RowDraft = {
+      row: rowNumber,
+      title: titleValue,
+      description: null,
+      type,
+      status,
+      priority,
+      labels: [],
+      assigneeIds: [],
+      sprintId: null,
+      flagged: false,
+      customFields: [],
+      parent: null,
+      epic: null,
+      links: [],
+      parentRef: first(row, ImportTarget.PARENT)?.value ?? null,
+      epicRef: first(row, ImportTarget.EPIC)?.value ?? null,
+      linkRefs: [],
+    };
+
+    // Numbers and dates
+    const points = first(row, ImportTarget.STORY_POINTS);
+    if (points) {
+      const value = parseNumber(points.value);
+      if (value !== null && value >= 0 && value <= 100) draft.storyPoints = value;
+      else addIssue(rowNumber, points.column, ImportIssueSeverity.WARNING, `Story points "${points.value}" must be a number from 0 to 100`);
+    }
+
+    const hours = first(row, ImportTarget.ESTIMATED_HOURS);
+    if (hours) {
+      const value = parseHours(hours.value);
+      if (value !== null) draft.estimatedHours = value;
+      else addIssue(rowNumber, hours.column, ImportIssueSeverity.WARNING, `Estimate "${hours.value}" is not a number of hours`);
+    }
+
+    for (const [target, key] of [[ImportTarget.START_DATE, "startDate"], [ImportTarget.DUE_DATE, "dueDate"]] as const) {
+      const cell = first(row, target);
+      if (!cell) continue;
+      const value = parseImportDate(cell.value);
+      if (value) draft[key] = value;
+      else addIssue(rowNumber, cell.column, ImportIssueSeverity.WARNING, `"${cell.value}" is not a date`);
+    }
+
+    const flagged = first(row, ImportTarget.FLAGGED);
+    if (flagged) draft.flagged = parseBoolean(flagged.value) ?? true;
+
+    // Lists
+    draft.labels = splitList(all(row, ImportTarget.LABELS)).map((label) => label.slice(0, 128));
+
+    for (const value of splitList(all(row, ImportTarget.ASSIGNEES))) {
+      const member = findMember(value);
+      if (member) {
+        if (!draft.assigneeIds.includes(member.memberId)) draft.assigneeIds.push(member.memberId);
+      } else {
+        unresolvedUsers.add(value);
+        addIssue(rowNumber, columnsFor(ImportTarget.ASSIGNEES)[0], ImportIssueSeverity.WARNING, `No workspace member matches "${value}"`);
+      }
+    }
+
+    // Jira lists every sprint an issue was in; the last one is the current
+    const sprintColumn = columnsFor(ImportTarget.SPRINT)[0];
+    const sprintName = sprintColumn ? row[sprintColumn]?.filter((v) => v.trim()).at(-1)?.trim() : undefined;
+    if (sprintName) {
+      const sprintId = sprintByName.get(sprintName.toLowerCase());
+      if (sprintId) draft.sprintId = sprintId;
+      else addIssue(rowNumber, sprintColumn, ImportIssueSeverity.WARNING, `No sprint named "${sprintName}", added to the backlog`);
+    }
+
+    // Description with the checklist appended
+    const description = first(row, ImportTarget.DESCRIPTION);
+    const checklist = renderChecklistHtml(parseChecklist(all(row, ImportTarget.CHECKLIST)));
+    const html = `${description ? textToDescriptionHtml(description.value) : ""}${checklist}`;
+    draft.description = html || null;
+
+    // Custom fields
+    for (const [column, target] of Object.entries(mapping)) {
+      if (!target.startsWith(CUSTOM_FIELD_TARGET_PREFIX)) continue;
+      const values = (row[column] ?? []).map((v) => v.trim()).filter(Boolean);
+      if (values.length === 0) continue;
+
+      const field = fieldsById.get(target.slice(CUSTOM_FIELD_TARGET_PREFIX.length));
+      if (!field) {
+        addIssue(rowNumber, column, ImportIssueSeverity.WARNING, "The mapped custom field no longer exists");
+        continue;
+      }
+
+      const value = parseCustomFieldValue(field, values, findMember);
+      if (value === null) {
+        addIssue(rowNumber, column, ImportIssueSeverity.WARNING, `"${values.join(", ")}" is not a valid ${field.name}`);
+      } else if (!draft.customFields.some((cf) => cf.fieldId === field.$id)) {
+        draft.customFields.push({ fieldId: field.$id, value });
+      }
+    }
+
+    // Links
+    for (const [column, target] of Object.entries(mapping)) {
+      if (!target.startsWith(LINK_TARGET_PREFIX)) continue;
+      const linkType = target.slice(LINK_TARGET_PREFIX.length) as WorkItemLinkType;
+      if (!Object.values(WorkItemLinkType).includes(linkType)) continue;
+      for (const ref of splitList(row[column] ?? [], /[,;\s]+/)) {
+        draft.linkRefs.push({ linkType, ref });
+      }
+    }
+
+    drafts.push(draft);
+  });
+
+  // Resolve references now that every row's external IDs are known
+  const draftByRow = new Map(drafts.map((draft) => [draft.row, draft]));
+
+  const resolve = (draft: RowDraft, ref: string, column: string | undefined): ImportReference | null => {
+    const key = ref.trim().toUpperCase();
+    const row = rowByExternalId.get(key);
+    if (row !== undefined) {
+      if (row === draft.row) {
+        addIssue(draft.row, column ?? null, ImportIssueSeverity.WARNING, `Row references itself ("${ref}")`);
+        return null;
+      }
+      if (!draftByRow.has(row)) {
+        addIssue(draft.row, column ?? null, ImportIssueSeverity.WARNING, `"${ref}" is row ${row}, which is skipped`);
+        return null;
+      }
+      return { row };
+    }
+    const existing = context.existingItems.get(key);
+    if (existing) return { workItemId: existing.workItemId };
+
+    addIssue(draft.row, column ?? null, ImportIssueSeverity.WARNING, `"${ref}" matches no row or work item`);
+    return null;
+  };
+
+  const existingTypes = new Map(Array.from(context.existingItems.values()).map((item) => [item.workItemId, item.type]));
+  const typeOf = (ref: ImportReference): string | undefined =>
+    "row" in ref ? draftByRow.get(ref.row)?.type : existingTypes.get(ref.workItemId);
+
+  let linkCount = 0;
+  for (const draft of drafts) {
+    if (draft.epicRef) {
+      const ref = resolve(draft, draft.epicRef, columnsFor(ImportTarget.EPIC)[0]);
+      if (ref && typeOf(ref) === WorkItemType.EPIC) draft.epic = ref;
+      else if (ref) addIssue(draft.row, columnsFor(ImportTarget.EPIC)[0], ImportIssueSeverity.WARNING, `"${draft.epicRef}" is not an epic`);
+    }
+
+    if (draft.parentRef) {
+      const ref = resolve(draft, draft.parentRef, columnsFor(ImportTarget.PARENT)[0]);
+      // Jira's Parent column points stories at their epic
+      if (ref && typeOf(ref) === WorkItemType.EPIC && draft.type !== WorkItemType.EPIC) draft.epic ??= ref;
+      else if (ref) draft.parent = ref;
+    }
+
+    for (const { linkType, ref } of draft.linkRefs) {
+      const target = resolve(draft, ref, undefined);
+      if (target) {
+        draft.links.push({ linkType, target });
+        linkCount++;
+      }
+    }
+  }
+
+  const items = orderByReferences(drafts, (draft, message) =>
+    addIssue(draft.row, null, ImportIssueSeverity.WARNING, message)
+  ).map(({ parentRef: _parentRef, epicRef: _epicRef, linkRefs: _linkRefs, ...item }) => item);
+
+  issues.sort((a, b) => a.row - b.row);
+
+  return {
+    items,
+    report: {
+      totalRows: rows.length,
+      validRows: items.length,
+      skippedRows: skippedRows.size,
+      counts: {
+        epics: items.filter((item) => item.type === WorkItemType.EPIC).length,
+        subtasks: items.filter((item) => item.parent !== null).length,
+        links: linkCount,
+      },
+      unresolvedUsers: Array.from(unresolvedUsers),
+      unknownStatuses: Array.from(unknownStatuses),
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+      truncated: issues.length > MAX_REPORTED_ISSUES,
+      validatedAt: now.toISOString(),
+    },
+  };
+}
+
+function parseCustomFieldValue(
+  field: Pick<CustomField, "type" | "options">,
+  values: string[],
+  findMember: (value: string) => ImportMember | undefined
+): unknown {
+  const findOption = (value: string) =>
+    (field.options ?? []).find((option) => option.value.toLowerCase() === value.toLowerCase() || option.id === value)?.id;
+
+  switch (field.type) {
+    case CustomFieldType.NUMBER:
+    case CustomFieldType.CURRENCY:
+    case CustomFieldType.PERCENTAGE:
+      return parseNumber(values[0]);
+    case CustomFieldType.DATE:
+    case CustomFieldType.DATETIME:
+      return parseImportDate(values[0]);
+    case CustomFieldType.CHECKBOX:
+      return parseBoolean(values[0]);
+    case CustomFieldType.SELECT:
+      return findOption(values[0]) ?? null;
+    case CustomFieldType.MULTI_SELECT: {
+      const ids = splitList(values).map(findOption);
+      return ids.every(Boolean) ? ids : null;
+    }
+    case CustomFieldType.USER:
+      return findMember(values[0])?.userId ?? null;
+    case CustomFieldType.USERS: {
+      const ids = splitList(values).map((value) => findMember(value)?.userId);
+      return ids.every(Boolean) ? ids : null;
+    }
+    case CustomFieldType.LABELS:
+      return splitList(values);
+    default:
+      return values.join("\n");
+  }
+}
+
+/**
+ * Order rows so parents and epics come before the rows pointing at them.
+ * Parent references that form a cycle are dropped.
+ */
+function orderByReferences(
+  drafts: RowDraft[],
+  onCycle: (draft: RowDraft, message: string) => void
+): RowDraft[] {
+  const byRow = new Map(drafts.map((draft) => [draft.row, draft]));
+  const ordered: RowDraft[] = [];
+  const state = new Map<number, "visiting" | "done">();
+
+  const visit = (draft: RowDraft) => {
+    if (state.get(draft.row) === "done") return;
+    state.set(draft.row, "visiting");
+
+    for (const key of ["epic", "parent"] as const) {
+      const ref = draft[key];
+      if (!ref || !("row" in ref)) continue;
+      const target = byRow.get(ref.row)!;
+      if (state.get(target.row) === "visiting") {
+        draft[key] = null;
+        onCycle(draft, `The ${key} reference to row ${target.row} forms a cycle and is dropped`);
+      } else {
+        visit(target);
+      }
+    }
+
+    state.set(draft.row, "done");
+    ordered.push(draft);
+  };
+
+  drafts.forEach(visit);
+  return ordered;
+}
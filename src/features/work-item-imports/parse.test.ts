@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { ImportParseError, detectImportFormat, parseCsv, parseImportFile } from "./parse";
+import { ImportFormat } from "./types";
+
+describe("parseCsv", () => {
+  it("handles quoted delimiters, doubled quotes and embedded newlines", () => {
+    const text = 'Summary,Description\r\n"Fix, then ship","Line one\nsaid ""hi"""\r\nSecond,\n';
+    expect(parseCsv(text)).toEqual([
+      ["Summary", "Description"],
+      ["Fix, then ship", 'Line one\nsaid "hi"'],
+      ["Second", ""],
+    ]);
+  });
+
+  it("detects semicolon and tab delimiters from the header", () => {
+    expect(parseCsv("a;b\n1;2")).toEqual([["a", "b"], ["1", "2"]]);
+    expect(parseCsv("a\tb\n1\t2")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseCsv('a,b\n"open,2')).toThrow(ImportParseError);
+  });
+});
+
+describe("parseImportFile", () => {
+  it("merges repeated CSV columns into value lists", () => {
+    const text = "\uFEFFIssue key,Summary,Labels,Labels,Sprint\nAPP-1,Login,auth,ui,Sprint 1\n";
+    expect(parseImportFile(ImportFormat.JIRA_CSV, text)).toEqual({
+      columns: ["Issue key", "Summary", "Labels", "Sprint"],
+      rows: [{ "Issue key": ["APP-1"], "Summary": ["Login"], "Labels": ["auth", "ui"], "Sprint": ["Sprint 1"] }],
+    });
+  });
+
+  it("reads wrapped JSON arrays and flattens objects to their identifying field", () => {
+    const data = {
+      issues: [
+        { title: "Export", assignee: { email: "ana@example.com" }, tags: ["api", "v2"], points: 3, done: null },
+      ],
+    };
+    expect(parseImportFile(ImportFormat.JSON, JSON.stringify(data))).toEqual({
+      columns: ["title", "assignee", "tags", "points", "done"],
+      rows: [{ title: ["Export"], assignee: ["ana@example.com"], tags: ["api", "v2"], points: ["3"] }],
+    });
+  });
+
+  it("resolves Trello lists, labels, members and checklists", () => {
+    const board = {
+      cards: [{ id: "c1", name: "Card", idList: "l1", idLabels: ["b1"], idMembers: ["m1"], idChecklists: ["k1"], closed: false }],
+      lists: [{ id: "l1", name: "Doing" }],
+      labels: [{ id: "b1", name: "", color: "red" }],
+      members: [{ id: "m1", fullName: "Ana Diaz", username: "ana" }],
+      checklists: [{ id: "k1", idCard: "c1", checkItems: [{ name: "Second", state: "incomplete", pos: 2 }, { name: "First", state: "complete", pos: 1 }] }],
+    };
+    const { rows } = parseImportFile(ImportFormat.TRELLO_JSON, JSON.stringify(board));
+    expect(rows[0]).toEqual({
+      "Card ID": ["c1"],
+      "Name": ["Card"],
+      "List": ["Doing"],
+      "Labels": ["red"],
+      "Members": ["Ana Diaz"],
+      "Checklist": ["[x] First", "[ ] Second"],
+      "Closed": ["false"],
+    });
+  });
+
+  it("rejects empty files and invalid JSON", () => {
+    expect(() => parseImportFile(ImportFormat.CSV, "Summary\n")).toThrow("no rows");
+    expect(() => parseImportFile(ImportFormat.JSON, "{oops")).toThrow("not valid JSON");
+  });
+});
+
+describe("detectImportFormat", () => {
+  it("recognises Jira and Trello exports", () => {
+    expect(detectImportFormat("jira.csv", "Summary,Issue key,Issue id\n")).toBe(ImportFormat.JIRA_CSV);
+    expect(detectImportFormat("items.csv", "Title,Status\n")).toBe(ImportFormat.CSV);
+    expect(detectImportFormat("board.json", '{"name":"b","cards":[],"lists":[]}')).toBe(ImportFormat.TRELLO_JSON);
+    expect(detectImportFormat("items.json", '[{"title":"x"}]')).toBe(ImportFormat.JSON);
+  });
+});
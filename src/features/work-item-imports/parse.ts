@@ -0,0 +1,304 @@
+import { ImportFormat, ImportRow } from "./types";
+
+/**
+ * Import file parsing
+ *
+ * Every format is turned into the same shape: a list of columns and rows of
+ * column -> values. Values are lists so repeated columns (Jira exports one
+ * "Labels" or "Sprint" column per value) and JSON arrays survive; splitting
+ * comma-separated cells happens when the mapping is applied.
+ */
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_COLUMNS = 300;
+
+export class ImportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportParseError";
+  }
+}
+
+export type ParsedImport = {
+  columns: string[];
+  rows: ImportRow[];
+};
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+// The delimiter used most often (outside quotes) in the header line
+function detectDelimiter(text: string): string {
+  const counts = new Map(CSV_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, newlines and doubled
+ * quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ImportParseError("The file ends inside a quoted value");
+  }
+  if (field !== "" || record.length > 0) endRecord();
+
+  return records;
+}
+
+function checkLimits(parsed: ParsedImport): ParsedImport {
+  if (parsed.rows.length === 0) {
+    throw new ImportParseError("The file has no rows to import");
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportParseError(`Imports are limited to ${MAX_IMPORT_ROWS} rows; split the file`);
+  }
+  if (parsed.columns.length > MAX_IMPORT_COLUMNS) {
+    throw new ImportParseError(`Imports are limited to ${MAX_IMPORT_COLUMNS} columns`);
+  }
+  return parsed;
+}
+
+function parseCsvImport(text: string): ParsedImport {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new ImportParseError("The file is empty");
+  }
+
+  const headerNames = header.map((name) => name.trim());
+  const columns = Array.from(new Set(headerNames.filter(Boolean)));
+
+  const rows = records.map((record) => {
+    const row: ImportRow = {};
+    record.forEach((cell, index) => {
+      const column = headerNames[index];
+      const value = cell.trim();
+      if (!column || !value) return;
+      (row[column] ??= []).push(value);
+    });
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+// A readable string for a JSON value; objects use their most identifying field
+function jsonValueToString(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of ["email", "emailAddress", "key", "name", "displayName", "title", "value", "id"]) {
+      if (typeof record[key] === "string" || typeof record[key] === "number") return String(record[key]);
+    }
+    return JSON.stringify(value);
+  }
+  return null;
+}
+
+function findRecordArray(data: unknown): Record<string, unknown>[] | null {
+  const isRecordArray = (value: unknown): value is Record<string, unknown>[] =>
+    Array.isArray(value) && value.every((item) => item && typeof item === "object" && !Array.isArray(item));
+
+  if (isRecordArray(data)) return data;
+  if (data && typeof data === "object") {
+    // Wrapped exports such as { "issues": [...] } or { "items": [...] }
+    for (const value of Object.values(data)) {
+      if (isRecordArray(value) && value.length > 0) return value;
+    }
+  }
+  return null;
+}
+
+function parseJsonImport(data: unknown): ParsedImport {
+  const records = findRecordArray(data);
+  if (!records) {
+    throw new ImportParseError("Expected a JSON array of objects");
+  }
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+
+  const rows = records.map((record) => {
+    const row: ImportRow = {};
+    for (const [key, value] of Object.entries(record)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+      const values = (Array.isArray(value) ? value : [value])
+        .map(jsonValueToString)
+        .filter((v): v is string => v !== null);
+      if (values.length > 0) row[key] = values;
+    }
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+type TrelloBoard = {
+  cards?: Array<{
+    id: string;
+    name?: string;
+    desc?: string;
+    idList?: string;
+    idLabels?: string[];
+    idMembers?: string[];
+    idChecklists?: string[];
+    start?: string | null;
+    due?: string | null;
+    closed?: boolean;
+    shortUrl?: string;
+  }>;
+  lists?: Array<{ id: string; name: string }>;
+  labels?: Array<{ id: string; name?: string; color?: string | null }>;
+  members?: Array<{ id: string; fullName?: string; username?: string }>;
+  checklists?: Array<{
+    id: string;
+    idCard: string;
+    checkItems?: Array<{ name: string; state?: string; pos?: number }>;
+  }>;
+};
+
+export const TRELLO_COLUMNS = [
+  "Card ID",
+  "Name",
+  "Description",
+  "List",
+  "Labels",
+  "Members",
+  "Start",
+  "Due",
+  "Checklist",
+  "Closed",
+  "URL",
+];
+
+/**
+ * Trello board export: one row per card with list, label and member IDs
+ * resolved to names. Checklist items are written as "[x] item" / "[ ] item".
+ */
+function parseTrelloImport(board: TrelloBoard): ParsedImport {
+  if (!Array.isArray(board.cards)) {
+    throw new ImportParseError("Not a Trello board export: no cards found");
+  }
+
+  const lists = new Map((board.lists ?? []).map((list) => [list.id, list.name]));
+  const labels = new Map((board.labels ?? []).map((label) => [label.id, label.name || label.color || ""]));
+  const members = new Map((board.members ?? []).map((member) => [member.id, member.fullName || member.username || ""]));
+  const checklists = new Map((board.checklists ?? []).map((checklist) => [checklist.id, checklist]));
+
+  const rows = board.cards.map((card) => {
+    const checkItems = (card.idChecklists ?? [])
+      .flatMap((id) => [...(checklists.get(id)?.checkItems ?? [])].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0)))
+      .map((item) => `${item.state === "complete" ? "[x]" : "[ ]"} ${item.name}`);
+
+    const row: ImportRow = {
+      "Card ID": [card.id],
+      "Name": [card.name ?? ""],
+      "Description": [card.desc ?? ""],
+      "List": [lists.get(card.idList ?? "") ?? ""],
+      "Labels": (card.idLabels ?? []).map((id) => labels.get(id) ?? ""),
+      "Members": (card.idMembers ?? []).map((id) => members.get(id) ?? ""),
+      "Start": [card.start ?? ""],
+      "Due": [card.due ?? ""],
+      "Checklist": checkItems,
+      "Closed": [card.closed ? "true" : "false"],
+      "URL": [card.shortUrl ?? ""],
+    };
+
+    for (const [column, values] of Object.entries(row)) {
+      const kept = values.map((value) => value.trim()).filter(Boolean);
+      if (kept.length > 0) row[column] = kept;
+      else delete row[column];
+    }
+    return row;
+  });
+
+  return { columns: TRELLO_COLUMNS, rows };
+}
+
+/**
+ * Guess the format from the file name and contents
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat {
+  const trimmed = content.trimStart();
+  const isJson = fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("{") || trimmed.startsWith("[");
+
+  if (isJson) {
+    return /"cards"\s*:/.test(content) && /"lists"\s*:/.test(content)
+      ? ImportFormat.TRELLO_JSON
+      : ImportFormat.JSON;
+  }
+
+  const headerLine = trimmed.split(/\r?\n/, 1)[0];
+  return /(^|[,;\t])"?Issue key"?([,;\t]|$)/.test(headerLine) && headerLine.includes("Summary")
+    ? ImportFormat.JIRA_CSV
+    : ImportFormat.CSV;
+}
+
+/**
+ * Parse an uploaded file into columns and rows
+ */
+export function parseImportFile(format: ImportFormat, content: string): ParsedImport {
+  const text = content.replace(/^\uFEFF/, "");
+
+  if (format === ImportFormat.CSV || format === ImportFormat.JIRA_CSV) {
+    return checkLimits(parseCsvImport(text));
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportParseError("The file is not valid JSON");
+  }
+
+  return checkLimits(
+    format === ImportFormat.TRELLO_JSON ? parseTrelloImport(data as TrelloBoard) : parseJsonImport(data)
+  );
+}
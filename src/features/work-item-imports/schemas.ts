@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+import { ImportFormat } from "./types";
+
+// Files are read in the browser and sent as text
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+export const createWorkItemImportSchema = z.object({
+  workspaceId: z.string().trim().min(1),
+  projectId: z.string().trim().min(1),
+  fileName: z.string().trim().min(1).max(256),
+  // Detected from the file name and contents when omitted
+  format: z.nativeEnum(ImportFormat).optional(),
+  content: z.string().min(1, "The file is empty").max(MAX_IMPORT_FILE_SIZE, "Files are limited to 5 MB"),
+});
+
+export const getWorkItemImportsSchema = z.object({
+  workspaceId: z.string(),
+  projectId: z.string(),
+});
+
+export const validateWorkItemImportSchema = z.object({
+  // Column name -> target; empty targets are dropped
+  mapping: z.record(z.string(), z.string().max(300)),
+});
@@ -0,0 +1,520 @@
+import "server-only";
+
+import { Databases, ID, Query, Users } from "node-appwrite";
+
+import {
+  CUSTOM_FIELDS_ID,
+  DATABASE_ID,
+  MEMBERS_ID,
+  PROJECTS_ID,
+  SPRINTS_ID,
+  WORK_ITEM_IMPORTS_ID,
+  WORK_ITEM_LINKS_ID,
+  WORK_ITEMS_ID,
+  WORKFLOW_STATUSES_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { batchGetUsers } from "@/lib/batch-users";
+import { invalidateCachePattern, CKPattern } from "@/lib/redis";
+import { pushBoardEvent } from "@/lib/socket/board-push";
+import { logComputeUsage, getComputeUnits } from "@/lib/usage-metering";
+import { CustomField } from "@/features/custom-fields/types";
+import { Member } from "@/features/members/types";
+import { Project } from "@/features/projects/types";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
+import { generateWorkItemKey, reserveWorkItemKeys } from "@/features/sprints/server/work-item-keys";
+import { Sprint, WorkItem, WorkItemStatus } from "@/features/sprints/types";
+import { createdChange } from "@/features/tasks/change-log";
+import { recordWorkItemChange } from "@/features/tasks/server/change-log";
+import { WorkItemChangeSource } from "@/features/tasks/types";
+import { WorkItemLink, WorkItemLinkType, getInverseLinkType } from "@/features/work-item-links/types";
+import { WorkflowStatus } from "@/features/workflows/types";
+
+import {
+  ImportContext,
+  ImportPlan,
+  ImportReference,
+  PlannedWorkItem,
+  buildImportPlan,
+  collectExternalReferences,
+} from "../mapping";
+import {
+  ImportIssue,
+  ImportIssueSeverity,
+  ImportMapping,
+  ImportRow,
+  ImportStatus,
+  WorkItemImport,
+  parseImportResults,
+  parseImportRows,
+} from "../types";
+
+/**
+ * Work Item Import Runner
+ *
+ * POST /work-item-imports/:importId/start queues an import and starts it in
+ * the background; POST /cron/work-item-imports/run picks up imports that were
+ * never started or whose run stopped sending heartbeats. Progress, and the
+ * work item created for every row, is saved every few rows so a resumed run
+ * carries on where the previous one stopped.
+ *
+ * Imported items don't send notifications or webhooks (an import of a few
+ * thousand issues would flood both); the search index, boards and caches are
+ * updated as for any other new work item.
+ */
+
+const PROGRESS_BATCH_SIZE = 10;
+// A run whose heartbeat is older than this belongs to a process that died
+const STALE_RUN_MS = 3 * 60 * 1000;
+// Queued imports are left to the request that queued them for this long
+const QUEUED_GRACE_MS = 60 * 1000;
+const MAX_STORED_FAILURES = 500;
+const CREATE_ATTEMPTS = 3;
+const QUERY_CHUNK_SIZE = 100;
+
+const DEFAULT_STATUS_NAMES: Record<WorkItemStatus, string> = {
+  [WorkItemStatus.TODO]: "To Do",
+  [WorkItemStatus.ASSIGNED]: "Assigned",
+  [WorkItemStatus.IN_PROGRESS]: "In Progress",
+  [WorkItemStatus.IN_REVIEW]: "In Review",
+  [WorkItemStatus.DONE]: "Done",
+};
+
+function parseDefinitions<T>(raw: T[] | string | null | undefined): T[] {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+}
+
+function isConflictError(error: unknown): boolean {
+  return !!error && typeof error === "object" && (
+    ("code" in error && error.code === 409) ||
+    ("type" in error && (error as { type?: string }).type === "document_already_exists")
+  );
+}
+
+/**
+ * Custom fields available on the project's work items
+ */
+export async function listProjectCustomFields(databases: Databases, project: Project): Promise<CustomField[]> {
+  const fields = await databases.listDocuments<CustomField>(DATABASE_ID, CUSTOM_FIELDS_ID, [
+    Query.equal("workspaceId", project.workspaceId),
+    Query.equal("archived", false),
+    Query.or([Query.isNull("projectId"), Query.equal("projectId", project.$id)]),
+    Query.orderAsc("position"),
+    Query.limit(200),
+  ]);
+
+  return fields.documents
+    .filter((field) => !field.spaceId || field.spaceId === project.spaceId)
+    .map((field) => ({ ...field, options: parseDefinitions(field.options) }));
+}
+
+/**
+ * Everything buildImportPlan resolves values against
+ */
+export async function loadImportContext(
+  databases: Databases,
+  users: Users,
+  project: Project,
+  rows: ImportRow[],
+  mapping: ImportMapping
+): Promise<ImportContext> {
+  const [workflowStatuses, members, sprints, customFields] = await Promise.all([
+    project.workflowId
+      ? databases.listDocuments<WorkflowStatus>(DATABASE_ID, WORKFLOW_STATUSES_ID, [
+          Query.equal("workflowId", project.workflowId),
+          Query.orderAsc("position"),
+          Query.limit(100),
+        ])
+      : null,
+    databases.listDocuments<Member>(DATABASE_ID, MEMBERS_ID, [
+      Query.equal("workspaceId", project.workspaceId),
+      Query.limit(1000),
+    ]),
+    databases.listDocuments<Sprint>(DATABASE_ID, SPRINTS_ID, [
+      Query.equal("projectId", project.$id),
+      Query.limit(200),
+    ]),
+    listProjectCustomFields(databases, project),
+  ]);
+
+  const statuses = workflowStatuses?.documents.length
+    ? workflowStatuses.documents.map((status) => ({ key: status.key, name: status.name }))
+    : Object.entries(DEFAULT_STATUS_NAMES).map(([key, name]) => ({ key, name }));
+  const initialStatus = workflowStatuses?.documents.find((status) => status.isInitial)?.key;
+
+  const activeMembers = members.documents.filter((member) => !member.deletedAt);
+  const userMap = await batchGetUsers(users, activeMembers.map((member) => member.userId));
+
+  // Keys of existing work items the file refers to
+  const existingItems: ImportContext["existingItems"] = new Map();
+  for (const keys of chunk(collectExternalReferences(rows, mapping), QUERY_CHUNK_SIZE)) {
+    const items = await databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+      Query.equal("projectId", project.$id),
+      Query.equal("key", keys),
+      Query.limit(QUERY_CHUNK_SIZE),
+    ]);
+    items.documents.forEach((item) => existingItems.set(item.key.toUpperCase(), { workItemId: item.$id, type: item.type }));
+  }
+
+  return {
+    statuses,
+    defaultStatus: initialStatus ?? statuses[0]?.key ?? WorkItemStatus.TODO,
+    customTypes: parseDefinitions(project.customWorkItemTypes).map((type) => type.key),
+    customPriorities: parseDefinitions(project.customPriorities).map((priority) => priority.key),
+    members: activeMembers.map((member) => {
+      const user = userMap.get(member.userId);
+      return {
+        memberId: member.$id,
+        userId: member.userId,
+        email: user?.email ?? member.email ?? null,
+        name: user?.name || member.name || null,
+      };
+    }),
+    sprints: sprints.documents.map((sprint) => ({ $id: sprint.$id, name: sprint.name })),
+    customFields,
+    existingItems,
+  };
+}
+
+/**
+ * Dry run of an import with the given mapping
+ */
+export async function planImport(
+  databases: Databases,
+  users: Users,
+  job: WorkItemImport,
+  mapping: ImportMapping
+): Promise<ImportPlan> {
+  const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, job.projectId);
+  const rows = parseImportRows(job);
+  const context = await loadImportContext(databases, users, project, rows, mapping);
+  return buildImportPlan(rows, mapping, context);
+}
+
+function isRunnable(job: WorkItemImport, now: Date): boolean {
+  if (job.status === ImportStatus.QUEUED) return true;
+  if (job.status !== ImportStatus.RUNNING) return false;
+  return !job.heartbeatAt || now.getTime() - new Date(job.heartbeatAt).getTime() > STALE_RUN_MS;
+}
+
+async function createImportedWorkItem(
+  databases: Databases,
+  job: WorkItemImport,
+  item: PlannedWorkItem,
+  key: string,
+  position: number,
+  resolve: (ref: ImportReference | null) => string | null
+): Promise<WorkItem> {
+  const data = {
+    key,
+    title: item.title,
+    description: item.description,
+    type: item.type,
+    status: item.status,
+    priority: item.priority,
+    storyPoints: item.storyPoints,
+    estimatedHours: item.estimatedHours,
+    startDate: item.startDate,
+    dueDate: item.dueDate,
+    workspaceId: job.workspaceId,
+    projectId: job.projectId,
+    sprintId: item.sprintId,
+    epicId: resolve(item.epic),
+    parentId: resolve(item.parent),
+    assigneeIds: item.assigneeIds,
+    labels: item.labels,
+    flagged: item.flagged,
+    customFields: item.customFields.length > 0 ? JSON.stringify(item.customFields) : null,
+    position,
+    watcherIds: [job.createdBy],
+  };
+
+  // Keys were reserved up front; someone creating work items meanwhile can take one
+  let workItem: WorkItem;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      workItem = await databases.createDocument<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, ID.unique(), data);
+      break;
+    } catch (error) {
+      if (!isConflictError(error) || attempt >= CREATE_ATTEMPTS) throw error;
+      data.key = await generateWorkItemKey(databases, job.projectId);
+    }
+  }
+
+  await recordWorkItemChange(databases, {
+    item: workItem,
+    changes: [createdChange(workItem)],
+    changedBy: job.createdBy,
+    source: WorkItemChangeSource.IMPORT,
+  });
+
+  return workItem;
+}
+
+/**
+ * Record work items an interrupted run created after its last saved
+ * progress, so resuming doesn't create them twice
+ */
+async function adoptUnrecordedItems(
+  databases: Databases,
+  job: WorkItemImport,
+  pending: PlannedWorkItem[],
+  results: Record<string, string>
+): Promise<void> {
+  if (!job.heartbeatAt) return;
+
+  const recorded = new Set(Object.values(results));
+  const created = await databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+    Query.equal("projectId", job.projectId),
+    Query.greaterThanEqual("$createdAt", job.heartbeatAt),
+    Query.orderAsc("$createdAt"),
+    Query.limit(PROGRESS_BATCH_SIZE * 5),
+  ]);
+
+  for (const workItem of created.documents) {
+    if (recorded.has(workItem.$id)) continue;
+    const match = pending.find((item) => !results[item.row] && item.title === workItem.title);
+    if (match) results[match.row] = workItem.$id;
+  }
+}
+
+/**
+ * Links between imported items. `heartbeat` runs every few items so a long
+ * links phase isn't mistaken for a stalled run and resumed alongside.
+ */
+async function createImportedLinks(
+  databases: Databases,
+  job: WorkItemImport,
+  items: PlannedWorkItem[],
+  resolve: (ref: ImportReference | null) => string | null,
+  failures: ImportIssue[],
+  heartbeat: () => Promise<unknown>
+): Promise<number> {
+  const seen = new Set<string>();
+  let created = 0;
+
+  for (const [index, item] of items.entries()) {
+    if (index > 0 && index % PROGRESS_BATCH_SIZE === 0) {
+      await heartbeat();
+    }
+
+    const sourceItemId = resolve({ row: item.row });
+    if (!sourceItemId) continue;
+
+    for (const { linkType, target } of item.links) {
+      const targetItemId = resolve(target);
+      const inverseType = getInverseLinkType(linkType);
+      // Exports list a link on both items ("blocks" on one, "is blocked by" on the other)
+      if (!targetItemId || seen.has(`${sourceItemId}|${targetItemId}|${linkType}`)) continue;
+      seen.add(`${sourceItemId}|${targetItemId}|${linkType}`);
+      seen.add(`${targetItemId}|${sourceItemId}|${inverseType}`);
+
+      try {
+        const existing = await databases.listDocuments<WorkItemLink>(DATABASE_ID, WORK_ITEM_LINKS_ID, [
+          Query.equal("sourceItemId", sourceItemId),
+          Query.equal("targetItemId", targetItemId),
+          Query.equal("linkType", linkType),
+          Query.limit(1),
+        ]);
+        if (existing.total > 0) continue;
+
+        const links = [{ sourceItemId, targetItemId, linkType }];
+        if (linkType !== WorkItemLinkType.RELATES_TO) {
+          links.push({ sourceItemId: targetItemId, targetItemId: sourceItemId, linkType: inverseType });
+        }
+        for (const link of links) {
+          await databases.createDocument(DATABASE_ID, WORK_ITEM_LINKS_ID, ID.unique(), {
+            ...link,
+            workspaceId: job.workspaceId,
+            description: null,
+            createdBy: job.createdBy,
+          });
+        }
+        created++;
+      } catch (error) {
+        failures.push({
+          row: item.row,
+          severity: ImportIssueSeverity.WARNING,
+          message: `Could not create a ${linkType} link: ${error instanceof Error ? error.message : "unknown error"}`,
+        });
+      }
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Run (or resume) an import. Returns false when the import isn't waiting to
+ * run or another run is still active.
+ */
+export async function runImportJob(importId: string, now: Date = new Date()): Promise<boolean> {
+  const { databases, users } = await createAdminClient();
+  const job = await databases.getDocument<WorkItemImport>(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId);
+
+  if (!isRunnable(job, now)) return false;
+
+  await databases.updateDocument(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId, {
+    status: ImportStatus.RUNNING,
+    heartbeatAt: now.toISOString(),
+    startedAt: job.startedAt ?? now.toISOString(),
+    lastError: null,
+  });
+
+  try {
+    const mapping = JSON.parse(job.mapping ?? "{}") as ImportMapping;
+    const plan = await planImport(databases, users, job, mapping);
+
+    const results = parseImportResults(job);
+    const failures = (job.failures ? JSON.parse(job.failures) : []) as ImportIssue[];
+    const failedRows = new Set(
+      failures.filter((failure) => failure.severity === ImportIssueSeverity.ERROR).map((failure) => failure.row)
+    );
+
+    const isPending = (item: PlannedWorkItem) => !results[item.row] && !failedRows.has(item.row);
+    if (job.status === ImportStatus.RUNNING) {
+      await adoptUnrecordedItems(databases, job, plan.items.filter(isPending), results);
+    }
+    const pending = plan.items.filter(isPending);
+
+    const resolve = (ref: ImportReference | null): string | null => {
+      if (!ref) return null;
+      return "workItemId" in ref ? ref.workItemId : results[ref.row] ?? null;
+    };
+
+    const saveProgress = (extra: Record<string, unknown> = {}) =>
+      databases.updateDocument(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId, {
+        processed: Object.keys(results).length + failedRows.size,
+        created: Object.keys(results).length,
+        failed: failedRows.size,
+        results: JSON.stringify(results),
+        failures: JSON.stringify(failures.slice(0, MAX_STORED_FAILURES)),
+        heartbeatAt: new Date().toISOString(),
+        ...extra,
+      });
+
+    const [keys, lastItem] = await Promise.all([
+      reserveWorkItemKeys(databases, job.projectId, pending.length),
+      databases.listDocuments<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, [
+        Query.equal("projectId", job.projectId),
+        Query.orderDesc("position"),
+        Query.limit(1),
+      ]),
+    ]);
+    let position = lastItem.documents[0]?.position ?? 0;
+    const createdIds: string[] = [];
+
+    for (const [index, item] of pending.entries()) {
+      try {
+        position += 1000;
+        const workItem = await createImportedWorkItem(databases, job, item, keys[index], position, resolve);
+        results[item.row] = workItem.$id;
+        createdIds.push(workItem.$id);
+
+        logComputeUsage({
+          databases,
+          workspaceId: job.workspaceId,
+          projectId: job.projectId,
+          units: getComputeUnits("task_create"),
+          jobType: "task_create",
+          metadata: { workItemId: workItem.$id, type: workItem.type, importId },
+        });
+        await syncWorkItemSearchIndex(workItem.$id).catch(() => { });
+      } catch (error) {
+        failedRows.add(item.row);
+        failures.push({
+          row: item.row,
+          severity: ImportIssueSeverity.ERROR,
+          message: error instanceof Error ? error.message : "Failed to create the work item",
+        });
+      }
+
+      if ((index + 1) % PROGRESS_BATCH_SIZE === 0) {
+        await saveProgress();
+      }
+    }
+
+    // Work items are all in: save them before the links, which can take a while
+    await saveProgress();
+    await createImportedLinks(databases, job, plan.items, resolve, failures, () =>
+      databases.updateDocument(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId, {
+        heartbeatAt: new Date().toISOString(),
+      })
+    );
+
+    await saveProgress({
+      status: ImportStatus.COMPLETED,
+      completedAt: new Date().toISOString(),
+    });
+
+    if (createdIds.length > 0) {
+      pushBoardEvent({
+        type: "workitem:created",
+        projectId: job.projectId,
+        workspaceId: job.workspaceId,
+        actorId: job.createdBy,
+        items: createdIds.map(($id) => ({ $id })),
+      });
+      await invalidateCachePattern(CKPattern.workItemLists(job.workspaceId));
+    }
+  } catch (error) {
+    console.error(`[WorkItemImports] Import ${importId} failed:`, error instanceof Error ? error.message : error);
+    await databases.updateDocument(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId, {
+      status: ImportStatus.FAILED,
+      lastError: (error instanceof Error ? error.message : "Import failed").slice(0, 2000),
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  return true;
+}
+
+export interface ImportRunResult {
+  importsProcessed: number;
+  errors: number;
+}
+
+/**
+ * Run queued imports and resume stalled ones (import cron)
+ */
+export async function runPendingImports(now: Date = new Date()): Promise<ImportRunResult> {
+  const { databases } = await createAdminClient();
+  const result: ImportRunResult = { importsProcessed: 0, errors: 0 };
+
+  const [queued, stalled] = await Promise.all([
+    databases.listDocuments<WorkItemImport>(DATABASE_ID, WORK_ITEM_IMPORTS_ID, [
+      Query.equal("status", ImportStatus.QUEUED),
+      Query.lessThan("$updatedAt", new Date(now.getTime() - QUEUED_GRACE_MS).toISOString()),
+      Query.select(["$id"]),
+      Query.limit(20),
+    ]),
+    databases.listDocuments<WorkItemImport>(DATABASE_ID, WORK_ITEM_IMPORTS_ID, [
+      Query.equal("status", ImportStatus.RUNNING),
+      Query.lessThan("heartbeatAt", new Date(now.getTime() - STALE_RUN_MS).toISOString()),
+      Query.select(["$id"]),
+      Query.limit(20),
+    ]),
+  ]);
+
+  for (const { $id } of [...stalled.documents, ...queued.documents]) {
+    try {
+      if (await runImportJob($id, now)) result.importsProcessed++;
+    } catch (error) {
+      result.errors++;
+      console.error(`[WorkItemImports] Failed to run import ${$id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,270 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { ID, Query } from "node-appwrite";
+
+import { DATABASE_ID, PROJECTS_ID, WORK_ITEM_IMPORTS_ID } from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { sessionMiddleware } from "@/lib/session-middleware";
+import { getMember } from "@/features/members/utils";
+import { Project } from "@/features/projects/types";
+
+import { suggestImportMapping } from "../mapping";
+import { ImportParseError, detectImportFormat, parseImportFile } from "../parse";
+import { createWorkItemImportSchema, getWorkItemImportsSchema, validateWorkItemImportSchema } from "../schemas";
+import { ImportStatus, WorkItemImport, populateWorkItemImport } from "../types";
+import { listProjectCustomFields, planImport, runImportJob } from "./importer";
+import { canImportWorkItems } from "./utils";
+
+const PREVIEW_ROWS = 5;
+
+const app = new Hono()
+  // A project's imports, newest first
+  .get(
+    "/",
+    sessionMiddleware,
+    zValidator("query", getWorkItemImportsSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId } = c.req.valid("query");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)) {
+        return c.json({ error: "Forbidden: No access to this project" }, 403);
+      }
+
+      const imports = await databases.listDocuments<WorkItemImport>(
+        DATABASE_ID,
+        WORK_ITEM_IMPORTS_ID,
+        [
+          Query.equal("projectId", projectId),
+          Query.select([
+            "$id", "$createdAt", "$updatedAt", "workspaceId", "projectId", "fileName", "format", "rowCount",
+            "status", "processed", "created", "failed", "lastError", "createdBy", "startedAt", "completedAt",
+          ]),
+          Query.orderDesc("$createdAt"),
+          Query.limit(20),
+        ]
+      );
+
+      return c.json({
+        data: {
+          documents: imports.documents.map(populateWorkItemImport),
+          total: imports.total,
+        },
+      });
+    }
+  )
+
+  .get(
+    "/:importId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { importId } = c.req.param();
+
+      const job = await databases.getDocument<WorkItemImport>(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId);
+
+      const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+      const access = await resolveUserProjectAccess(databases, user.$id, job.projectId);
+      if (!access.hasAccess || !hasProjectPermission(access, ProjectPermissionKey.VIEW_TASKS)) {
+        return c.json({ error: "Forbidden: No access to this project" }, 403);
+      }
+
+      return c.json({ data: populateWorkItemImport(job) });
+    }
+  )
+
+  // Upload: parse the file and suggest a column mapping
+  .post(
+    "/",
+    sessionMiddleware,
+    zValidator("json", createWorkItemImportSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { workspaceId, projectId, fileName, format: requestedFormat, content } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, projectId);
+      if (project.workspaceId !== workspaceId) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+
+      if (!(await canImportWorkItems(databases, user.$id, projectId))) {
+        return c.json({ error: "Forbidden: You cannot create work items in this project" }, 403);
+      }
+
+      const format = requestedFormat ?? detectImportFormat(fileName, content);
+
+      let parsed;
+      try {
+        parsed = parseImportFile(format, content);
+      } catch (error) {
+        if (error instanceof ImportParseError) {
+          return c.json({ error: error.message }, 400);
+        }
+        throw error;
+      }
+
+      const customFields = await listProjectCustomFields(databases, project);
+      const mapping = suggestImportMapping(format, parsed.columns, customFields);
+
+      const job = await databases.createDocument<WorkItemImport>(
+        DATABASE_ID,
+        WORK_ITEM_IMPORTS_ID,
+        ID.unique(),
+        {
+          workspaceId,
+          projectId,
+          fileName,
+          format,
+          columns: parsed.columns,
+          rows: JSON.stringify(parsed.rows),
+          rowCount: parsed.rows.length,
+          mapping: JSON.stringify(mapping),
+          status: ImportStatus.DRAFT,
+          processed: 0,
+          created: 0,
+          failed: 0,
+          createdBy: user.$id,
+        }
+      );
+
+      return c.json({
+        data: {
+          ...populateWorkItemImport(job),
+          preview: parsed.rows.slice(0, PREVIEW_ROWS),
+          // Mapping targets besides the standard fields
+          customFields: customFields.map(({ $id, name }) => ({ $id, name })),
+        },
+      });
+    }
+  )
+
+  // Dry run: save the mapping and the validation report
+  .post(
+    "/:importId/validate",
+    sessionMiddleware,
+    zValidator("json", validateWorkItemImportSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { importId } = c.req.param();
+      const { mapping: requestedMapping } = c.req.valid("json");
+
+      const job = await databases.getDocument<WorkItemImport>(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId);
+
+      if (!(await canImportWorkItems(databases, user.$id, job.projectId))) {
+        return c.json({ error: "Forbidden: You cannot create work items in this project" }, 403);
+      }
+
+      if (job.status !== ImportStatus.DRAFT && job.status !== ImportStatus.VALIDATED) {
+        return c.json({ error: "This import has already started" }, 400);
+      }
+
+      const columns = new Set(job.columns ?? []);
+      const mapping = Object.fromEntries(
+        Object.entries(requestedMapping).filter(([column, target]) => target && columns.has(column))
+      );
+
+      const { users } = await createAdminClient();
+      const { report } = await planImport(databases, users, job, mapping);
+
+      const updated = await databases.updateDocument<WorkItemImport>(
+        DATABASE_ID,
+        WORK_ITEM_IMPORTS_ID,
+        importId,
+        {
+          mapping: JSON.stringify(mapping),
+          report: JSON.stringify(report),
+          status: report.validRows > 0 ? ImportStatus.VALIDATED : ImportStatus.DRAFT,
+        }
+      );
+
+      return c.json({ data: populateWorkItemImport(updated) });
+    }
+  )
+
+  // Queue a validated import and start it in the background
+  .post(
+    "/:importId/start",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { importId } = c.req.param();
+
+      const job = await databases.getDocument<WorkItemImport>(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId);
+
+      if (!(await canImportWorkItems(databases, user.$id, job.projectId))) {
+        return c.json({ error: "Forbidden: You cannot create work items in this project" }, 403);
+      }
+
+      if (job.status !== ImportStatus.VALIDATED) {
+        return c.json({ error: "Validate the import before starting it" }, 400);
+      }
+
+      const updated = await databases.updateDocument<WorkItemImport>(
+        DATABASE_ID,
+        WORK_ITEM_IMPORTS_ID,
+        importId,
+        { status: ImportStatus.QUEUED }
+      );
+
+      // The import cron picks it up if this process stops before it finishes
+      runImportJob(importId).catch((error) => {
+        console.error(`[WorkItemImports] Background run of ${importId} failed:`, error instanceof Error ? error.message : error);
+      });
+
+      return c.json({ data: populateWorkItemImport(updated) });
+    }
+  )
+
+  .delete(
+    "/:importId",
+    sessionMiddleware,
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+      const { importId } = c.req.param();
+
+      const job = await databases.getDocument<WorkItemImport>(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId);
+
+      if (!(await canImportWorkItems(databases, user.$id, job.projectId))) {
+        return c.json({ error: "Forbidden: You cannot create work items in this project" }, 403);
+      }
+
+      if (job.status === ImportStatus.QUEUED || job.status === ImportStatus.RUNNING) {
+        return c.json({ error: "An import cannot be deleted while it runs" }, 400);
+      }
+
+      // Only the import record goes; work items it created stay
+      await databases.deleteDocument(DATABASE_ID, WORK_ITEM_IMPORTS_ID, importId);
+
+      return c.json({ data: { $id: importId } });
+    }
+  );
+
+export default app;
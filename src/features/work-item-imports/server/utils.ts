@@ -0,0 +1,17 @@
+import "server-only";
+
+import { Databases } from "node-appwrite";
+
+/**
+ * Whether the user may upload, validate and run imports. An import creates
+ * work items, so it needs the same permission as creating one.
+ */
+export async function canImportWorkItems(
+  databases: Databases,
+  userId: string,
+  projectId: string
+): Promise<boolean> {
+  const { resolveUserProjectAccess, hasProjectPermission, ProjectPermissionKey } = await import("@/lib/permissions/resolveUserProjectAccess");
+  const access = await resolveUserProjectAccess(databases, userId, projectId);
+  return access.hasAccess && hasProjectPermission(access, ProjectPermissionKey.CREATE_TASKS);
+}
@@ -0,0 +1,140 @@
+import { Models } from "node-appwrite";
+
+export enum ImportFormat {
+  CSV = "CSV",
+  JIRA_CSV = "JIRA_CSV",       // Jira "Export Excel CSV (all fields)"
+  JSON = "JSON",               // Array of objects
+  TRELLO_JSON = "TRELLO_JSON", // Trello board export
+}
+
+export enum ImportStatus {
+  DRAFT = "DRAFT",         // Parsed, mapping not validated yet
+  VALIDATED = "VALIDATED", // Dry run passed with the saved mapping
+  QUEUED = "QUEUED",
+  RUNNING = "RUNNING",
+  COMPLETED = "COMPLETED",
+  FAILED = "FAILED",
+}
+
+// Work item fields a column can be mapped to. Links and custom fields use
+// the "link:<LINK_TYPE>" and "customField:<fieldId>" targets instead.
+export enum ImportTarget {
+  TITLE = "title",
+  DESCRIPTION = "description",
+  TYPE = "type",
+  STATUS = "status",
+  PRIORITY = "priority",
+  STORY_POINTS = "storyPoints",
+  ESTIMATED_HOURS = "estimatedHours",
+  START_DATE = "startDate",
+  DUE_DATE = "dueDate",
+  LABELS = "labels",
+  ASSIGNEES = "assignees",   // Emails (or names) of workspace members
+  SPRINT = "sprint",         // Name of an existing sprint in the project
+  CHECKLIST = "checklist",   // Appended to the description as a checklist
+  EXTERNAL_ID = "externalId", // Key/ID other rows use to reference this one
+  PARENT = "parent",         // External ID or existing work item key
+  EPIC = "epic",             // External ID or existing work item key
+  FLAGGED = "flagged",
+}
+
+export const LINK_TARGET_PREFIX = "link:";
+export const CUSTOM_FIELD_TARGET_PREFIX = "customField:";
+
+// Column name -> target; unmapped columns are ignored
+export type ImportMapping = Record<string, string>;
+
+// A parsed file row. Values are lists because some exports (Jira) repeat a
+// column for multi-valued fields such as labels and sprints.
+export type ImportRow = Record<string, string[]>;
+
+export enum ImportIssueSeverity {
+  ERROR = "ERROR",     // The row is skipped
+  WARNING = "WARNING", // The row is imported with the value dropped or defaulted
+}
+
+export type ImportIssue = {
+  row: number; // 1-based, matching the data rows of the file
+  column?: string | null;
+  severity: ImportIssueSeverity;
+  message: string;
+};
+
+// Dry-run result for the current mapping
+export type ImportReport = {
+  totalRows: number;
+  validRows: number;
+  skippedRows: number;
+  counts: {
+    epics: number;
+    subtasks: number;
+    links: number;
+  };
+  unresolvedUsers: string[];
+  unknownStatuses: string[];
+  issues: ImportIssue[];
+  // More issues than stored in `issues`
+  truncated: boolean;
+  validatedAt: string;
+};
+
+// Columns shared by the stored document and what the API returns
+type WorkItemImportFields = {
+  workspaceId: string;
+  projectId: string;
+  fileName: string;
+  format: ImportFormat;
+  columns?: string[] | null;
+  rowCount: number;
+  status: ImportStatus;
+  processed?: number | null;
+  created?: number | null;
+  failed?: number | null;
+  lastError?: string | null;
+  createdBy: string;
+  startedAt?: string | null;
+  heartbeatAt?: string | null;
+  completedAt?: string | null;
+};
+
+export type WorkItemImport = Models.Document & WorkItemImportFields & {
+  rows: string; // JSON ImportRow[]
+  mapping?: string | null; // JSON ImportMapping
+  report?: string | null;  // JSON ImportReport
+  results?: string | null;  // JSON Record<row, workItemId>
+  failures?: string | null; // JSON ImportIssue[]
+};
+
+// What the API returns: parsed JSON, without the (large) rows and results
+export type PopulatedWorkItemImport = Models.Document & WorkItemImportFields & {
+  mapping: ImportMapping;
+  report: ImportReport | null;
+  failures: ImportIssue[];
+};
+
+function parseJson<T>(raw: string | null | undefined, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function parseImportRows(job: Pick<WorkItemImport, "rows">): ImportRow[] {
+  return parseJson<ImportRow[]>(job.rows, []);
+}
+
+export function parseImportResults(job: Pick<WorkItemImport, "results">): Record<string, string> {
+  return parseJson<Record<string, string>>(job.results, {});
+}
+
+export function populateWorkItemImport(job: WorkItemImport): PopulatedWorkItemImport {
+  const { rows: _rows, results: _results, ...rest } = job;
+  return {
+    ...rest,
+    mapping: parseJson<ImportMapping>(job.mapping, {}),
+    report: parseJson<ImportReport | null>(job.report, null),
+    failures: parseJson<ImportIssue[]>(job.failures, []),
+  };
+}
@@ -1,6 +1,6 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
-import { ID, Query, Databases } from "node-appwrite";
+import { ID, Query, Databases, Models } from "node-appwrite";
 import { z } from "zod";
 
 import { getMember } from "@/features/members/utils";
@@ -12,6 +12,8 @@ import {
   WORK_ITEMS_ID,
 } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
+import { emitProjectWebhookEvent } from "@/features/webhooks/server/events";
+import { WebhookEventType } from "@/features/webhooks/server/types";
 
 import {
   createWorkItemLinkSchema,
@@ -127,6 +129,8 @@ const app = new Hono()
         );
       }
 
+      emitLinkWebhookEvent(databases, WebhookEventType.LINK_ADDED, link, user, [sourceItem, targetItem]);
+
       return c.json({ data: link });
     }
   )
@@ -360,6 +364,8 @@ const app = new Hono()
         );
       }
 
+      emitLinkWebhookEvent(databases, WebhookEventType.LINK_REMOVED, link, user);
+
       return c.json({ data: { $id: linkId } });
     }
   )
@@ -413,6 +419,7 @@ const app = new Hono()
             }
           );
           createdLinks.push(link);
+          emitLinkWebhookEvent(databases, WebhookEventType.LINK_ADDED, link, user);
 
           // Create inverse if requested
           if (createInverses && linkData.linkType !== WorkItemLinkType.RELATES_TO) {
@@ -600,6 +607,44 @@ const app = new Hono()
     }
   );
 
+// Notify webhooks of both linked items' projects (once if they share a project)
+function emitLinkWebhookEvent(
+  databases: Databases,
+  event: WebhookEventType,
+  link: WorkItemLink,
+  user: Models.User<Models.Preferences>,
+  items?: [WorkItem, WorkItem]
+): void {
+  const loadItems = items
+    ? Promise.resolve(items)
+    : Promise.all([
+      databases.getDocument<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, link.sourceItemId),
+      databases.getDocument<WorkItem>(DATABASE_ID, WORK_ITEMS_ID, link.targetItemId),
+    ]);
+
+  loadItems
+    .then(([sourceItem, targetItem]) => {
+      const verb = event === WebhookEventType.LINK_ADDED ? "linked to" : "unlinked from";
+      const data = {
+        workitemId: sourceItem.$id,
+        workitemKey: sourceItem.key,
+        title: sourceItem.title,
+        summary: `${sourceItem.key} ${verb} ${targetItem.key} (${LINK_TYPE_METADATA[link.linkType]?.label ?? link.linkType})`,
+        linkId: link.$id,
+        linkType: link.linkType,
+        targetItemId: targetItem.$id,
+        targetItemKey: targetItem.key,
+      };
+
+      for (const projectId of new Set([sourceItem.projectId, targetItem.projectId])) {
+        emitProjectWebhookEvent(projectId, event, user, data);
+      }
+    })
+    .catch(() => {
+      // Linked item no longer exists - nothing to notify
+    });
+}
+
 // Helper function to check for circular dependencies
 async function checkForCycle(
   databases: Databases,
@@ -0,0 +1,205 @@
+import "server-only";
+
+import { Databases, ID, Query } from "node-appwrite";
+
+import {
+  COMMENTS_ID,
+  DATABASE_ID,
+  PROJECTS_ID,
+  SUBTASKS_ID,
+  TASKS_ID,
+  WORKFLOW_STATUSES_ID,
+  WORKFLOW_TRANSITIONS_ID,
+} from "@/config";
+import { createAdminClient } from "@/lib/appwrite";
+import { Project } from "@/features/projects/types";
+import { Subtask, SubtaskStatus } from "@/features/subtasks/types";
+import { Task } from "@/features/tasks/types";
+
+import {
+  StatusType,
+  TransitionCondition,
+  WorkflowStatus,
+  WorkflowTransition,
+  parseTransitionCondition,
+} from "../types";
+import { applyStatusTransition } from "./transition-utils";
+
+/**
+ * Workflow Auto-Transitions
+ *
+ * Executes transitions configured with `autoTransition` and a condition:
+ * - ALL_SUBTASKS_DONE: every subtask and child work item is closed
+ * - APPROVAL_RECEIVED: an approval request for the item was approved
+ *
+ * Callers fire these without awaiting. Moves are made as the "system" user,
+ * recorded with a system comment in the item's history and emitted as regular
+ * status change events (notifications + webhooks). Closing an item re-checks
+ * its parent, and the item's new status is re-checked for chained transitions,
+ * up to MAX_CHAIN_DEPTH moves per trigger.
+ */
+
+export type AutoTransitionTrigger = Exclude<TransitionCondition["type"], "CUSTOM">;
+
+const SYSTEM_USER_ID = "system";
+const SYSTEM_USER_NAME = "Workflow Automation";
+const MAX_CHAIN_DEPTH = 5;
+
+const CONDITION_LABELS: Record<AutoTransitionTrigger, string> = {
+  ALL_SUBTASKS_DONE: "all subtasks are done",
+  APPROVAL_RECEIVED: "approval was received",
+};
+
+function isClosedStatus(status: string, statuses: WorkflowStatus[]): boolean {
+  const statusDoc = statuses.find((s) => s.key === status);
+  if (statusDoc) return statusDoc.statusType === StatusType.CLOSED;
+  // Legacy statuses outside the workflow
+  return status === "DONE" || status === "CLOSED";
+}
+
+function isSubtaskDone(subtask: Subtask): boolean {
+  return subtask.isCompleted || subtask.completed === true || subtask.status === SubtaskStatus.DONE;
+}
+
+/**
+ * True when the item has at least one subtask or child work item and all of
+ * them are done.
+ */
+async function areAllChildrenDone(
+  databases: Databases,
+  workItemId: string,
+  statuses: WorkflowStatus[]
+): Promise<boolean> {
+  const [subtasks, children] = await Promise.all([
+    databases.listDocuments<Subtask>(
+      DATABASE_ID,
+      SUBTASKS_ID,
+      [Query.equal("parentTaskId", workItemId), Query.limit(500)]
+    ),
+    databases.listDocuments<Task>(
+      DATABASE_ID,
+      TASKS_ID,
+      [Query.equal("parentId", workItemId), Query.limit(500)]
+    ),
+  ]);
+
+  if (subtasks.total === 0 && children.total === 0) return false;
+
+  return subtasks.documents.every(isSubtaskDone) &&
+    children.documents.every((child) => isClosedStatus(child.status, statuses));
+}
+
+async function runAutoTransitionsAtDepth(
+  databases: Databases,
+  workItemId: string,
+  trigger: AutoTransitionTrigger,
+  depth: number,
+  visited: Set<string>
+): Promise<void> {
+  if (depth >= MAX_CHAIN_DEPTH) {
+    console.warn("[AutoTransitions] Chain depth limit reached for work item:", workItemId);
+    return;
+  }
+
+  const workItem = await databases.getDocument<Task>(DATABASE_ID, TASKS_ID, workItemId);
+
+  // Guard against cycles (e.g. A -> B -> A both auto)
+  const visitKey = `${workItemId}:${workItem.status}`;
+  if (visited.has(visitKey)) return;
+  visited.add(visitKey);
+
+  const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, workItem.projectId);
+  if (!project.workflowId) return;
+
+  const statuses = await databases.listDocuments<WorkflowStatus>(
+    DATABASE_ID,
+    WORKFLOW_STATUSES_ID,
+    [Query.equal("workflowId", project.workflowId), Query.limit(100)]
+  );
+
+  const fromStatusDoc = statuses.documents.find((s) => s.key === workItem.status);
+  if (!fromStatusDoc) return;
+
+  const transitions = await databases.listDocuments<WorkflowTransition>(
+    DATABASE_ID,
+    WORKFLOW_TRANSITIONS_ID,
+    [
+      Query.equal("workflowId", project.workflowId),
+      Query.equal("fromStatusId", fromStatusDoc.$id),
+    ]
+  );
+
+  const transition = transitions.documents.find(
+    (t) => t.autoTransition && parseTransitionCondition(t.conditions)?.type === trigger
+  );
+  if (!transition) return;
+
+  const toStatusDoc = statuses.documents.find((s) => s.$id === transition.toStatusId);
+  if (!toStatusDoc) return;
+
+  if (trigger === "ALL_SUBTASKS_DONE" &&
+    !(await areAllChildrenDone(databases, workItemId, statuses.documents))) {
+    return;
+  }
+
+  const updated = await applyStatusTransition({
+    databases,
+    workItem,
+    toStatus: toStatusDoc.key,
+    fromStatusName: fromStatusDoc.name,
+    toStatusName: toStatusDoc.name,
+    triggeredBy: SYSTEM_USER_ID,
+    triggeredByName: SYSTEM_USER_NAME,
+    eventMetadata: {
+      automated: true,
+      transitionId: transition.$id,
+      condition: trigger,
+    },
+  });
+
+  // Record the move in the item's history
+  try {
+    await databases.createDocument(
+      DATABASE_ID,
+      COMMENTS_ID,
+      ID.unique(),
+      {
+        content: `Automatically moved from **${fromStatusDoc.name}** to **${toStatusDoc.name}** because ${CONDITION_LABELS[trigger]}.`,
+        taskId: workItem.$id,
+        workspaceId: workItem.workspaceId,
+        projectId: workItem.projectId,
+        authorId: SYSTEM_USER_ID,
+        isEdited: false,
+      }
+    );
+  } catch (error) {
+    console.error("[AutoTransitions] Failed to record history comment:", error);
+  }
+
+  // Closing this item may complete its parent
+  if (updated.parentId && toStatusDoc.statusType === StatusType.CLOSED) {
+    await runAutoTransitionsAtDepth(databases, updated.parentId, "ALL_SUBTASKS_DONE", depth + 1, visited);
+  }
+
+  // The condition may still hold from the new status (chained automation)
+  await runAutoTransitionsAtDepth(databases, workItem.$id, trigger, depth + 1, visited);
+}
+
+/**
+ * Evaluate and execute auto-transitions for a work item.
+ *
+ * - ALL_SUBTASKS_DONE: call with the parent's ID when a subtask or child
+ *   work item changes
+ * - APPROVAL_RECEIVED: call with the item's ID after an approval is applied
+ */
+export async function runAutoTransitions(
+  workItemId: string,
+  trigger: AutoTransitionTrigger
+): Promise<void> {
+  try {
+    const { databases } = await createAdminClient();
+    await runAutoTransitionsAtDepth(databases, workItemId, trigger, 0, new Set());
+  } catch (error) {
+    console.error("[AutoTransitions] Failed for work item:", workItemId, error);
+  }
+}
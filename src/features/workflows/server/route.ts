@@ -1,6 +1,6 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
-import { ID, Query, Permission, Role, type Databases } from "node-appwrite";
+import { ID, Query, Permission, Role, type Databases, type Models } from "node-appwrite";
 import { z } from "zod";
 
 import { getMember } from "@/features/members/utils";
@@ -21,6 +21,8 @@ import {
 } from "@/config";
 import { sessionMiddleware } from "@/lib/session-middleware";
 import { invalidateCache, invalidateCachePattern, CK, CKPattern } from "@/lib/redis";
+import { emitWorkflowWebhookEvent } from "@/features/webhooks/server/events";
+import { WebhookDefinitionChange, WebhookEventType } from "@/features/webhooks/server/types";
 
 import {
   createWorkflowSchema,
@@ -98,6 +100,49 @@ async function checkWorkflowPermission(
   return { hasPermission: false, member };
 }
 
+/**
+ * Notify webhooks of every project using the workflow about a status edit.
+ */
+function emitStatusWebhookEvent(
+  workflow: Workflow,
+  status: WorkflowStatus,
+  change: WebhookDefinitionChange,
+  user: Models.User<Models.Preferences>
+): void {
+  emitWorkflowWebhookEvent(workflow.$id, WebhookEventType.WORKFLOW_STATUS_CHANGED, user, {
+    title: status.name,
+    summary: `Status "${status.name}" ${change} in workflow "${workflow.name}"`,
+    change,
+    workflowId: workflow.$id,
+    statusId: status.$id,
+    statusKey: status.key,
+    statusType: status.statusType,
+  });
+}
+
+/**
+ * Notify webhooks of every project using the workflow about a transition edit.
+ */
+function emitTransitionWebhookEvent(
+  workflow: Workflow,
+  transition: WorkflowTransition,
+  change: WebhookDefinitionChange,
+  user: Models.User<Models.Preferences>
+): void {
+  const label = transition.name || "Transition";
+  emitWorkflowWebhookEvent(workflow.$id, WebhookEventType.WORKFLOW_TRANSITION_CHANGED, user, {
+    title: label,
+    summary: `${label} ${change} in workflow "${workflow.name}"`,
+    change,
+    workflowId: workflow.$id,
+    transitionId: transition.$id,
+    fromStatusId: transition.fromStatusId,
+    toStatusId: transition.toStatusId,
+    requiresApproval: transition.requiresApproval ?? false,
+    autoTransition: transition.autoTransition ?? false,
+  });
+}
+
 const app = new Hono()
   // Create a new workflow
   .post(
@@ -224,6 +269,8 @@ const app = new Hono()
                 allowedMemberRoles: transition.allowedMemberRoles,
                 requiresApproval: transition.requiresApproval,
                 approverTeamIds: transition.approverTeamIds,
+                autoTransition: transition.autoTransition ?? false,
+                conditions: transition.conditions ?? null,
               },
               permissions
             );
@@ -873,6 +920,8 @@ const app = new Hono()
 
         await invalidateCache(CK.workflow(workflowId), CK.workflowStatuses(workflowId));
 
+        emitStatusWebhookEvent(workflow, status, "created", user);
+
         return c.json({ data: status });
       } catch (error) {
         console.error("CRITICAL: Failed to create workflow status:", error);
@@ -957,6 +1006,8 @@ const app = new Hono()
 
         await invalidateCache(CK.workflow(workflowId), CK.workflowStatuses(workflowId));
 
+        emitStatusWebhookEvent(workflow, updatedStatus, "updated", user);
+
         return c.json({ data: updatedStatus });
       } catch (error) {
         // If status was already deleted (e.g., by sync), return gracefully
@@ -1059,6 +1110,8 @@ const app = new Hono()
 
     await invalidateCache(CK.workflow(workflowId), CK.workflowStatuses(workflowId), CK.workflowTransitions(workflowId));
 
+    emitStatusWebhookEvent(workflow, statusDoc, "deleted", user);
+
     return c.json({
       data: {
         $id: statusId,
@@ -1147,11 +1200,15 @@ const app = new Hono()
           allowedMemberRoles: transitionData.allowedMemberRoles || null,
           requiresApproval: transitionData.requiresApproval || false,
           approverTeamIds: transitionData.approverTeamIds || null,
+          autoTransition: transitionData.autoTransition || false,
+          conditions: transitionData.conditions ? JSON.stringify(transitionData.conditions) : null,
         }
       );
 
       await invalidateCache(CK.workflow(workflowId), CK.workflowTransitions(workflowId));
 
+      emitTransitionWebhookEvent(workflow, transition, "created", user);
+
       return c.json({ data: transition });
     }
   )
@@ -1220,15 +1277,22 @@ const app = new Hono()
         return c.json({ error: "Only workspace owners, admins, or space masters can update transitions" }, 403);
       }
 
+      const { conditions, ...rest } = updates;
       const updatedTransition = await databases.updateDocument<WorkflowTransition>(
         DATABASE_ID,
         WORKFLOW_TRANSITIONS_ID,
         transitionId,
-        updates
+        {
+          ...rest,
+          // Conditions are stored as a JSON string
+          ...(conditions !== undefined ? { conditions: conditions ? JSON.stringify(conditions) : null } : {}),
+        }
       );
 
       await invalidateCache(CK.workflow(workflowId), CK.workflowTransitions(workflowId));
 
+      emitTransitionWebhookEvent(workflow, updatedTransition, "updated", user);
+
       return c.json({ data: updatedTransition });
     }
   )
@@ -1260,10 +1324,18 @@ const app = new Hono()
       return c.json({ error: "Only workspace owners, admins, or space masters can delete transitions" }, 403);
     }
 
+    const transition = await databases.getDocument<WorkflowTransition>(
+      DATABASE_ID,
+      WORKFLOW_TRANSITIONS_ID,
+      transitionId
+    );
+
     await databases.deleteDocument(DATABASE_ID, WORKFLOW_TRANSITIONS_ID, transitionId);
 
     await invalidateCache(CK.workflow(workflowId), CK.workflowTransitions(workflowId));
 
+    emitTransitionWebhookEvent(workflow, transition, "deleted", user);
+
     return c.json({ data: { $id: transitionId } });
   })
 
@@ -0,0 +1,195 @@
+import "server-only";
+
+import { Databases, Query } from "node-appwrite";
+
+import {
+  DATABASE_ID,
+  PROJECTS_ID,
+  TASKS_ID,
+  WORKFLOW_STATUSES_ID,
+  WORKFLOW_TRANSITIONS_ID,
+} from "@/config";
+import { enforceWipLimits, WipLimitExceededError } from "@/features/projects/server/wip-limits";
+import { Project } from "@/features/projects/types";
+import { diffWorkItemFields } from "@/features/tasks/change-log";
+import { recordWorkItemChange } from "@/features/tasks/server/change-log";
+import { Task, WorkItemChangeSource } from "@/features/tasks/types";
+import { syncWorkItemSearchIndex } from "@/features/search/server/search-index";
+import { recordStatusChange } from "@/features/tasks/server/status-history";
+import { dispatchWorkitemEvent } from "@/lib/notifications";
+import {
+  createCompletedEvent,
+  createStatusChangedEvent,
+} from "@/lib/notifications/events";
+import { WorkitemEventMetadata } from "@/lib/notifications/types";
+import { invalidateCachePattern, CKPattern } from "@/lib/redis";
+
+import { WorkflowStatus, WorkflowTransition } from "../types";
+
+/**
+ * Find the workflow transition between two status keys, along with the
+ * status documents on either side. Returns null when either status is not
+ * part of the workflow or no transition is defined.
+ */
+export async function findTransitionByStatusKeys(
+  databases: Databases,
+  workflowId: string,
+  fromStatus: string,
+  toStatus: string
+): Promise<{ transition: WorkflowTransition; fromStatusDoc: WorkflowStatus; toStatusDoc: WorkflowStatus } | null> {
+  const statuses = await databases.listDocuments<WorkflowStatus>(
+    DATABASE_ID,
+    WORKFLOW_STATUSES_ID,
+    [Query.equal("workflowId", workflowId), Query.limit(100)]
+  );
+
+  const fromStatusDoc = statuses.documents.find((s) => s.key === fromStatus);
+  const toStatusDoc = statuses.documents.find((s) => s.key === toStatus);
+  if (!fromStatusDoc || !toStatusDoc) return null;
+
+  const transitions = await databases.listDocuments<WorkflowTransition>(
+    DATABASE_ID,
+    WORKFLOW_TRANSITIONS_ID,
+    [
+      Query.equal("workflowId", workflowId),
+      Query.equal("fromStatusId", fromStatusDoc.$id),
+      Query.equal("toStatusId", toStatusDoc.$id),
+    ]
+  );
+
+  if (transitions.total === 0) return null;
+
+  return { transition: transitions.documents[0], fromStatusDoc, toStatusDoc };
+}
+
+/**
+ * Map workflow status keys to display names for the given workflows.
+ */
+export async function getStatusNamesByKey(
+  databases: Databases,
+  workflowIds: string[]
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  const uniqueIds = Array.from(new Set(workflowIds));
+  if (uniqueIds.length === 0) return names;
+
+  const statuses = await databases.listDocuments<WorkflowStatus>(
+    DATABASE_ID,
+    WORKFLOW_STATUSES_ID,
+    [Query.equal("workflowId", uniqueIds), Query.limit(500)]
+  );
+
+  for (const status of statuses.documents) {
+    names.set(`${status.workflowId}:${status.key}`, status.name);
+  }
+
+  return names;
+}
+
+/**
+ * Key of the workflow's initial status, or the given fallback when there is
+ * no workflow or it has no initial status.
+ */
+export async function getInitialStatusKey(
+  databases: Databases,
+  workflowId: string | null | undefined,
+  fallback: string
+): Promise<string> {
+  if (!workflowId) return fallback;
+
+  const statuses = await databases.listDocuments<WorkflowStatus>(
+    DATABASE_ID,
+    WORKFLOW_STATUSES_ID,
+    [Query.equal("workflowId", workflowId), Query.equal("isInitial", true), Query.limit(1)]
+  );
+
+  return statuses.documents[0]?.key ?? fallback;
+}
+
+/**
+ * Move a work item to a new status outside of the regular PATCH flow
+ * (approved or automatic transitions). Emits the same events as a manual
+ * status change and refreshes caches and the search index.
+ *
+ * The project's WIP limits apply as they do on the board; a breaching move
+ * throws WipLimitExceededError unless `overrideWipLimit` is allowed to win.
+ */
+export async function applyStatusTransition({
+  databases,
+  workItem,
+  toStatus,
+  fromStatusName,
+  toStatusName,
+  triggeredBy,
+  triggeredByName,
+  eventMetadata,
+  overrideWipLimit = false,
+  changeSource = WorkItemChangeSource.WORKFLOW,
+}: {
+  databases: Databases;
+  workItem: Task;
+  toStatus: string;
+  fromStatusName: string;
+  toStatusName: string;
+  triggeredBy: string;
+  triggeredByName: string;
+  /** Extra metadata merged into the emitted event (e.g. automation details) */
+  eventMetadata?: WorkitemEventMetadata;
+  overrideWipLimit?: boolean;
+  changeSource?: WorkItemChangeSource;
+}): Promise<Task> {
+  if (workItem.status !== toStatus) {
+    const project = await databases.getDocument<Project>(DATABASE_ID, PROJECTS_ID, workItem.projectId);
+    const wip = await enforceWipLimits(databases, {
+      project,
+      moves: [{ item: workItem, toStatus }],
+      userId: triggeredBy,
+      override: overrideWipLimit,
+    });
+    if (!wip.allowed) {
+      throw new WipLimitExceededError(wip);
+    }
+  }
+
+  const updated = await databases.updateDocument<Task>(
+    DATABASE_ID,
+    TASKS_ID,
+    workItem.$id,
+    {
+      status: toStatus,
+      lastModifiedBy: triggeredBy,
+    }
+  );
+
+  recordStatusChange(databases, {
+    item: updated,
+    fromStatus: workItem.status,
+    toStatus,
+    changedBy: triggeredBy,
+  }).catch(() => { });
+
+  await recordWorkItemChange(databases, {
+    item: updated,
+    changes: diffWorkItemFields(workItem, updated),
+    changedBy: triggeredBy,
+    changedByName: triggeredByName,
+    source: changeSource,
+  });
+
+  const event = toStatus === "DONE" || toStatus === "CLOSED"
+    ? createCompletedEvent(updated, triggeredBy, triggeredByName)
+    : createStatusChangedEvent(updated, triggeredBy, triggeredByName, fromStatusName, toStatusName);
+  if (eventMetadata) {
+    event.metadata = { ...event.metadata, ...eventMetadata };
+  }
+  dispatchWorkitemEvent(event).catch(() => { });
+
+  syncWorkItemSearchIndex(updated.$id).catch(() => { });
+
+  await Promise.all([
+    invalidateCachePattern(CKPattern.taskLists(updated.workspaceId)),
+    invalidateCachePattern(CKPattern.workItemLists(updated.workspaceId)),
+  ]);
+
+  return updated;
+}
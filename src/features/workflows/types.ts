@@ -134,7 +134,7 @@ export type WorkflowTransition = Models.Document & {
   
   // Automation
   autoTransition?: boolean;             // Auto-transition when conditions are met
-  conditions?: TransitionCondition | null; // Conditions for auto-transition
+  conditions?: TransitionCondition | string | null; // Conditions for auto-transition (stored as JSON)
 };
 
 // ===================================
@@ -168,6 +168,21 @@ export type TransitionCondition = {
   customLogic?: string; // For future extensibility
 };
 
+/**
+ * Parse a transition's stored conditions (JSON string or object).
+ */
+export const parseTransitionCondition = (
+  conditions: WorkflowTransition["conditions"]
+): TransitionCondition | null => {
+  if (!conditions) return null;
+  if (typeof conditions !== "string") return conditions;
+  try {
+    return JSON.parse(conditions) as TransitionCondition;
+  } catch {
+    return null;
+  }
+};
+
 // ===================================
 // Populated Types for UI
 // ===================================
@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { InferRequestType, InferResponseType } from "hono";
+import { toast } from "sonner";
+
+import { client } from "@/lib/rpc";
+
+type ResponseType = InferResponseType<
+  (typeof client.api.workspaces)[":workspaceId"]["holidays"]["$put"],
+  200
+>;
+type RequestType = InferRequestType<
+  (typeof client.api.workspaces)[":workspaceId"]["holidays"]["$put"]
+>;
+
+export const useUpdateWorkspaceHolidays = () => {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<ResponseType, Error, RequestType>({
+    mutationFn: async ({ json, param }) => {
+      const response = await client.api.workspaces[":workspaceId"]["holidays"].$put({
+        json,
+        param,
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update holidays.");
+      }
+
+      return await response.json();
+    },
+    onSuccess: ({ data }) => {
+      toast.success("Holidays updated.");
+      queryClient.invalidateQueries({ queryKey: ["workspace", data.$id] });
+      queryClient.invalidateQueries({ queryKey: ["sprint-capacity"] });
+    },
+    onError: () => {
+      toast.error("Failed to update holidays.");
+    },
+  });
+
+  return mutation;
+};
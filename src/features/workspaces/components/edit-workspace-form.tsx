@@ -20,12 +20,14 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { TemplatesSettings } from "@/features/templates/components/templates-settings";
 
 import { updateWorkspaceSchema } from "../schemas";
 import { Workspace } from "../types";
 import { useUpdateWorkspace } from "../api/use-update-workspace";
 import { useConfirm } from "@/hooks/use-confirm";
 import { useDeleteWorkspace } from "../api/use-delete-workspace";
+import { WorkspaceHolidaysSettings } from "./workspace-holidays-settings";
 
 
 interface EditWorkspaceFormProps {
@@ -260,6 +262,13 @@ export const EditWorkspaceForm = ({
         </CardContent>
       </Card>
 
+      <WorkspaceHolidaysSettings
+        workspaceId={initialValues.$id}
+        holidays={initialValues.holidays}
+      />
+
+      <TemplatesSettings workspaceId={initialValues.$id} />
+
       {/* Danger Zone Card */}
       <Card className="border border-destructive/30">
         <CardHeader>
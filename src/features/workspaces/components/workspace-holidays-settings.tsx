@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarOff, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { MultiDatePicker } from "@/components/multi-date-picker";
+
+import { useUpdateWorkspaceHolidays } from "../api/use-update-workspace-holidays";
+
+interface WorkspaceHolidaysSettingsProps {
+  workspaceId: string;
+  holidays?: string[];
+}
+
+export const WorkspaceHolidaysSettings = ({
+  workspaceId,
+  holidays: initialHolidays = [],
+}: WorkspaceHolidaysSettingsProps) => {
+  const [holidays, setHolidays] = useState<string[]>(() => [...initialHolidays].sort());
+  const { mutate, isPending } = useUpdateWorkspaceHolidays();
+
+  const isDirty = holidays.join() !== [...initialHolidays].sort().join();
+
+  return (
+    <Card className="border border-border shadow-none">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CalendarOff className="size-4 text-muted-foreground" />
+          <CardTitle className="text-base">Holidays</CardTitle>
+        </div>
+        <CardDescription>
+          Non-working days for everyone. Sprint capacity leaves them out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <MultiDatePicker
+          value={holidays}
+          onChange={setHolidays}
+          placeholder="Pick holidays"
+          className="w-full sm:w-64"
+        />
+        {holidays.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {holidays.map((day) => (
+              <Badge key={day} variant="secondary" className="gap-1 pr-1 font-normal">
+                {format(parseISO(day), "EEE, MMM d, yyyy")}
+                <button
+                  type="button"
+                  onClick={() => setHolidays(holidays.filter((holiday) => holiday !== day))}
+                  className="rounded-sm hover:bg-muted-foreground/20"
+                >
+                  <X className="size-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button
+            size="xs"
+            type="button"
+            disabled={!isDirty || isPending}
+            onClick={() => mutate({ param: { workspaceId }, json: { holidays } })}
+          >
+            Save Holidays
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -10,6 +10,11 @@ export const createWorkspaceSchema = z.object({
     .optional(),
 });
 
+// Non-working days for sprint capacity planning, "YYYY-MM-DD"
+export const updateWorkspaceHolidaysSchema = z.object({
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")).max(200),
+});
+
 export const updateWorkspaceSchema = z.object({
   name: z.string().trim().min(1, "Must be 1 or more characters.").optional(),
   image: z
@@ -26,7 +26,7 @@ import { MemberRole, WorkspaceMemberRole } from "@/features/members/types";
 import { getMember } from "@/features/members/utils";
 import { TaskStatus } from "@/features/tasks/types";
 
-import { createWorkspaceSchema, updateWorkspaceSchema } from "../schemas";
+import { createWorkspaceSchema, updateWorkspaceHolidaysSchema, updateWorkspaceSchema } from "../schemas";
 import { Workspace } from "../types";
 
 const app = new Hono()
@@ -327,6 +327,41 @@ const app = new Hono()
       return c.json({ data: workspace });
     }
   )
+  .put(
+    "/:workspaceId/holidays",
+    sessionMiddleware,
+    zValidator("json", updateWorkspaceHolidaysSchema),
+    async (c) => {
+      const databases = c.get("databases");
+      const user = c.get("user");
+
+      const { workspaceId } = c.req.param();
+      const { holidays } = c.req.valid("json");
+
+      const member = await getMember({
+        databases,
+        workspaceId,
+        userId: user.$id,
+      });
+
+      if (!member || (
+        member.role !== MemberRole.ADMIN &&
+        member.role !== MemberRole.OWNER &&
+        member.role !== WorkspaceMemberRole.WS_ADMIN
+      )) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      const workspace = await databases.updateDocument<Workspace>(
+        DATABASE_ID,
+        WORKSPACES_ID,
+        workspaceId,
+        { holidays: [...new Set(holidays)].sort(), lastModifiedBy: user.$id }
+      );
+
+      return c.json({ data: workspace });
+    }
+  )
   .delete("/:workspaceId", sessionMiddleware, async (c) => {
     const databases = c.get("databases");
     const user = c.get("user");
@@ -405,6 +440,39 @@ const app = new Hono()
         await databases.deleteDocument(DATABASE_ID, TIME_LOGS_ID, timeLog.$id);
       }
 
+      // Delete timesheet submissions
+      const { TIMESHEETS_ID } = await import("@/config");
+      const timesheets = await databases.listDocuments(
+        DATABASE_ID,
+        TIMESHEETS_ID,
+        [Query.equal("workspaceId", workspaceId), Query.limit(1000)]
+      );
+      for (const timesheet of timesheets.documents) {
+        await databases.deleteDocument(DATABASE_ID, TIMESHEETS_ID, timesheet.$id);
+      }
+
+      // Delete rate cards
+      const { RATE_CARDS_ID } = await import("@/config");
+      const rateCards = await databases.listDocuments(
+        DATABASE_ID,
+        RATE_CARDS_ID,
+        [Query.equal("workspaceId", workspaceId), Query.limit(1000)]
+      );
+      for (const rateCard of rateCards.documents) {
+        await databases.deleteDocument(DATABASE_ID, RATE_CARDS_ID, rateCard.$id);
+      }
+
+      // Delete calendar feeds; their URLs stop resolving
+      const { CALENDAR_FEEDS_ID } = await import("@/config");
+      const calendarFeeds = await databases.listDocuments(
+        DATABASE_ID,
+        CALENDAR_FEEDS_ID,
+        [Query.equal("workspaceId", workspaceId), Query.limit(1000)]
+      );
+      for (const calendarFeed of calendarFeeds.documents) {
+        await databases.deleteDocument(DATABASE_ID, CALENDAR_FEEDS_ID, calendarFeed.$id);
+      }
+
       // Delete all tasks
       for (const task of tasks.documents) {
         await databases.deleteDocument(DATABASE_ID, TASKS_ID, task.$id);
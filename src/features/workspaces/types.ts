@@ -40,6 +40,8 @@ export type Workspace = Models.Document & {
    */
   billingScope?: BillingScope;
   uiMode?: WorkspaceUIMode;
+  /** Non-working days ("YYYY-MM-DD") excluded from sprint capacity */
+  holidays?: string[];
   enabledFeatures?: {
     spaces?: boolean;
     programs?: boolean;
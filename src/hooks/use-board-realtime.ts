@@ -0,0 +1,196 @@
+/**
+ * Board Collaboration Hook
+ *
+ * Joins the project board room on the Socket.IO server and keeps the
+ * React Query cache in step with other people's changes.
+ *
+ * FEATURES:
+ * - Applies remote work item updates/moves/deletes/reorders to cached
+ *   "tasks" and "work-items" lists (no refetch needed)
+ * - Refetches on creates and assignee changes (populated fields)
+ * - Presence: who is on the board, and which item they view or edit
+ *
+ * Events from the current user are ignored - their own mutations have
+ * already updated the cache optimistically.
+ *
+ * USAGE:
+ * ```tsx
+ * const { getItemPresence } = useBoardRealtime({
+ *   workspaceId,
+ *   projectId,
+ *   focus: { workItemId: editTaskId, mode: "editing" },
+ * });
+ * ```
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Query, useQueryClient } from "@tanstack/react-query";
+
+import { useCurrent } from "@/features/auth/api/use-current";
+import { getClientSocket } from "@/lib/socket/client";
+import { applyBoardEvent, changesAssignees } from "@/lib/socket/board";
+import {
+    BoardPresenceEntry,
+    BoardPresenceMode,
+    SocketBoardEventPayload,
+    SocketPresenceStatePayload,
+} from "@/lib/socket/types";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface UseBoardRealtimeOptions {
+    /** Current workspace ID */
+    workspaceId: string;
+    /** Project board to join (no-op when empty) */
+    projectId?: string | null;
+    /** What the current user is looking at on the board */
+    focus?: { workItemId: string | null; mode: BoardPresenceMode };
+    /** Whether to enable the board connection (default: true) */
+    enabled?: boolean;
+}
+
+interface UseBoardRealtimeReturn {
+    /** Whether the socket is currently connected */
+    isConnected: boolean;
+    /** Everyone on the board, including the current user */
+    presence: BoardPresenceEntry[];
+    /** Other users viewing or editing a given item */
+    getItemPresence: (workItemId: string) => BoardPresenceEntry[];
+}
+
+type CachedList = { documents: { $id: string; assigneeIds?: string[] | null }[] } & Record<string, unknown>;
+
+/** Cached list queries that can hold board items */
+const BOARD_QUERY_KEYS = ["tasks", "work-items"] as const;
+
+// =============================================================================
+// HOOK IMPLEMENTATION
+// =============================================================================
+
+export function useBoardRealtime({
+    workspaceId,
+    projectId,
+    focus,
+    enabled = true,
+}: UseBoardRealtimeOptions): UseBoardRealtimeReturn {
+    const [isConnected, setIsConnected] = useState(false);
+    const [presence, setPresence] = useState<BoardPresenceEntry[]>([]);
+
+    const queryClient = useQueryClient();
+    const { data: user } = useCurrent();
+    const userId = user?.$id;
+
+    const focusWorkItemId = focus?.workItemId ?? null;
+    const focusMode = focus?.mode ?? "viewing";
+    const focusRef = useRef({ workItemId: focusWorkItemId, mode: focusMode });
+    focusRef.current = { workItemId: focusWorkItemId, mode: focusMode };
+
+    // Apply a remote change to every cached list in this workspace
+    const handleBoardEvent = useCallback((event: SocketBoardEventPayload) => {
+        if (event.projectId !== projectId || event.workspaceId !== workspaceId || event.actorId === userId) {
+            return;
+        }
+
+        const predicate = (query: Query) => query.queryKey[1] === workspaceId;
+
+        for (const key of BOARD_QUERY_KEYS) {
+            let needsRefetch = event.type === "workitem:created";
+
+            queryClient.setQueriesData<CachedList>({ queryKey: [key], predicate }, (old) => {
+                if (!old?.documents) return old;
+                if (changesAssignees(old.documents, event)) needsRefetch = true;
+                const documents = applyBoardEvent(old.documents, event);
+                return documents === old.documents ? old : { ...old, documents };
+            });
+
+            if (needsRefetch) {
+                queryClient.invalidateQueries({ queryKey: [key], predicate });
+            }
+        }
+    }, [projectId, workspaceId, userId, queryClient]);
+
+    useEffect(() => {
+        if (!enabled || !projectId || !userId) {
+            return;
+        }
+
+        const socket = getClientSocket();
+
+        const join = () => {
+            // Server processes these in order: auth first, then the room
+            socket.emit("auth:connect", { userId });
+            // Name and avatar come from the session on the server
+            socket.emit("board:join", { projectId });
+
+            if (focusRef.current.workItemId) {
+                socket.emit("presence:update", { projectId, ...focusRef.current });
+            }
+        };
+
+        const handleConnect = () => {
+            setIsConnected(true);
+            join();
+        };
+
+        const handleDisconnect = () => {
+            setIsConnected(false);
+            setPresence([]);
+        };
+
+        const handlePresenceState = (payload: SocketPresenceStatePayload) => {
+            if (payload.projectId === projectId) {
+                setPresence(payload.users);
+            }
+        };
+
+        socket.on("connect", handleConnect);
+        socket.on("disconnect", handleDisconnect);
+        socket.on("board:event", handleBoardEvent);
+        socket.on("presence:state", handlePresenceState);
+
+        if (!socket.connected) {
+            socket.connect();
+        } else {
+            setIsConnected(true);
+            join();
+        }
+
+        return () => {
+            socket.emit("board:leave", { projectId });
+            socket.off("connect", handleConnect);
+            socket.off("disconnect", handleDisconnect);
+            socket.off("board:event", handleBoardEvent);
+            socket.off("presence:state", handlePresenceState);
+            setPresence([]);
+        };
+    }, [enabled, projectId, userId, handleBoardEvent]);
+
+    // Report focus changes (opening/closing an item)
+    useEffect(() => {
+        if (!enabled || !projectId || !isConnected) {
+            return;
+        }
+
+        getClientSocket().emit("presence:update", {
+            projectId,
+            workItemId: focusWorkItemId,
+            mode: focusMode,
+        });
+    }, [enabled, projectId, isConnected, focusWorkItemId, focusMode]);
+
+    const getItemPresence = useCallback(
+        (workItemId: string) =>
+            presence.filter((entry) => entry.workItemId === workItemId && entry.userId !== userId),
+        [presence, userId]
+    );
+
+    return {
+        isConnected,
+        presence,
+        getItemPresence,
+    };
+}
@@ -27,8 +27,8 @@
 
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useQueryClient } from "@tanstack/react-query";
-import { io, Socket } from "socket.io-client";
 import { SocketNotificationPayload, SocketEventMap } from "@/lib/socket/types";
+import { getClientSocket as getSocket } from "@/lib/socket/client";
 
 // =============================================================================
 // TYPES
@@ -62,29 +62,6 @@ interface UseSocketNotificationsReturn {
     reconnect: () => void;
 }
 
-// =============================================================================
-// SINGLETON SOCKET INSTANCE
-// =============================================================================
-
-let socketInstance: Socket | null = null;
-
-function getSocket(): Socket {
-    if (!socketInstance) {
-        const socketUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
-
-        socketInstance = io(socketUrl, {
-            path: "/api/socket",
-            transports: ["websocket", "polling"],
-            autoConnect: false,
-            reconnection: true,
-            reconnectionAttempts: 5,
-            reconnectionDelay: 1000,
-            reconnectionDelayMax: 5000,
-        });
-    }
-    return socketInstance;
-}
-
 // =============================================================================
 // HOOK IMPLEMENTATION
 // =============================================================================
@@ -11,6 +11,7 @@ export { workitemDueSoonTemplate } from "./workitem-due-soon";
 export { workitemOverdueTemplate } from "./workitem-overdue";
 export { workitemMentionTemplate } from "./workitem-mention";
 export { commentReplyTemplate } from "./comment-reply";
+export { notificationDigestTemplate } from "./notification-digest";
 
 // Auth & Organization email templates
 export { welcomeEmailTemplate } from "./welcome-email";
@@ -0,0 +1,89 @@
+import { baseEmailTemplate, createButton } from "./base";
+import { colors, typography, createNotificationBadge } from "./theme";
+
+export interface NotificationDigestItem {
+  title: string;
+  summary: string;
+  workitemKey?: string;
+  triggeredByName?: string;
+  url: string;
+}
+
+interface NotificationDigestTemplateProps {
+  recipientName: string;
+  /** "daily" | "weekly" digest, or "catch-up" after quiet hours */
+  period: "daily" | "weekly" | "catch-up";
+  items: NotificationDigestItem[];
+  /** Total queued items (may exceed items.length when truncated) */
+  totalCount: number;
+  inboxUrl: string;
+}
+
+const HEADINGS: Record<NotificationDigestTemplateProps["period"], { badge: string; title: string }> = {
+  daily: { badge: "Daily Digest", title: "Your daily summary" },
+  weekly: { badge: "Weekly Digest", title: "Your weekly summary" },
+  "catch-up": { badge: "While You Were Away", title: "Notifications from your quiet hours" },
+};
+
+export function notificationDigestTemplate({
+  recipientName,
+  period,
+  items,
+  totalCount,
+  inboxUrl,
+}: NotificationDigestTemplateProps): string {
+  const heading = HEADINGS[period];
+  const hiddenCount = Math.max(totalCount - items.length, 0);
+
+  const rows = items
+    .map(
+      (item) => `
+      <tr>
+        <td style="padding: 14px 0; border-bottom: 1px solid ${colors.borderColor};">
+          <a href="${item.url}" style="color: ${colors.darkText}; font-size: ${typography.sizes.body}; font-weight: ${typography.weights.semibold}; text-decoration: none; font-family: ${typography.fontStack};">
+            ${item.workitemKey ? `<span style="color: ${colors.mutedText}; font-weight: ${typography.weights.medium};">${item.workitemKey}</span> ` : ""}${item.title}
+          </a>
+          <div style="margin-top: 4px; color: ${colors.bodyText}; font-size: ${typography.sizes.small}; line-height: ${typography.lineHeight.normal}; font-family: ${typography.fontStack};">
+            ${item.summary}
+          </div>
+          ${item.triggeredByName ? `
+            <div style="margin-top: 4px; color: ${colors.lightText}; font-size: ${typography.sizes.caption}; font-family: ${typography.fontStack};">
+              by ${item.triggeredByName}
+            </div>
+          ` : ""}
+        </td>
+      </tr>
+    `
+    )
+    .join("");
+
+  const content = `
+    ${createNotificationBadge("📬", heading.badge, colors.infoLight, colors.infoDark)}
+
+    <h2 style="margin: 0 0 12px 0; color: ${colors.darkText}; font-size: ${typography.sizes.h2}; font-weight: ${typography.weights.bold}; line-height: ${typography.lineHeight.tight}; font-family: ${typography.fontStack};">
+      ${heading.title}
+    </h2>
+
+    <p style="margin: 0 0 20px 0; color: ${colors.bodyText}; font-size: ${typography.sizes.body}; line-height: ${typography.lineHeight.relaxed}; font-family: ${typography.fontStack};">
+      Hi <strong style="color: ${colors.darkText};">${recipientName}</strong>, here ${totalCount === 1 ? "is 1 update" : `are ${totalCount} updates`} on your work items.
+    </p>
+
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 24px;">
+      ${rows}
+    </table>
+
+    ${hiddenCount > 0 ? `
+      <p style="margin: 0 0 24px 0; color: ${colors.mutedText}; font-size: ${typography.sizes.small}; font-family: ${typography.fontStack};">
+        …and ${hiddenCount} more in your inbox.
+      </p>
+    ` : ""}
+
+    ${createButton("Open Fairlx", inboxUrl)}
+
+    <p style="margin: 20px 0 0 0; color: ${colors.mutedText}; font-size: ${typography.sizes.small}; line-height: ${typography.lineHeight.normal}; font-family: ${typography.fontStack};">
+      You can change how often you get these in your profile's notification settings.
+    </p>
+  `;
+
+  return baseEmailTemplate(content, heading.badge);
+}
@@ -85,7 +85,10 @@ export type NotificationType =
   | "task_due_date_changed"
   | "task_attachment_added"
   | "task_attachment_deleted"
-  | "task_comment";
+  | "task_comment"
+  | "timesheet_submitted"
+  | "timesheet_approved"
+  | "timesheet_rejected";
 
 interface CreateNotificationParams {
   databases: Databases;
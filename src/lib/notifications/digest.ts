@@ -0,0 +1,242 @@
+/**
+ * Notification Digest Queue
+ *
+ * Holds back emails the dispatcher must not send right away:
+ * - Users on daily/weekly digest delivery
+ * - Any email that arrives during a user's quiet hours
+ *
+ * Items are stored in NOTIFICATION_DIGEST_ITEMS_ID and drained by
+ * processNotificationDigests(), called from the cron endpoint
+ * POST /cron/notifications/send-digests.
+ */
+
+import { Databases, ID, Query, Models } from "node-appwrite";
+import { createAdminClient } from "@/lib/appwrite";
+import { DATABASE_ID, NOTIFICATION_DIGEST_ITEMS_ID } from "@/config";
+import { notificationDigestTemplate } from "@/lib/email-templates";
+import { NotificationPayload, UserNotificationPreferences } from "./types";
+import { parseNotificationPreferences, isDigestDue, getLocalTime } from "./preferences";
+
+/** Why an email was held back */
+export type DigestReason = "digest" | "quiet_hours";
+
+interface DigestItemDocument extends Models.Document {
+    userId: string;
+    workspaceId: string;
+    type: string;
+    reason: DigestReason;
+    title: string;
+    summary?: string;
+    workitemId?: string;
+    workitemKey?: string;
+    triggeredByName?: string;
+    deepLinkUrl?: string;
+}
+
+/** Max items listed in one email (the rest are summarised as "N more") */
+const MAX_ITEMS_PER_EMAIL = 25;
+const PAGE_SIZE = 100;
+
+// =============================================================================
+// ENQUEUE
+// =============================================================================
+
+/**
+ * Queue an email notification for a later digest
+ */
+export async function enqueueDigestItem(
+    userId: string,
+    payload: NotificationPayload,
+    reason: DigestReason
+): Promise<void> {
+    const { databases } = await createAdminClient();
+
+    await databases.createDocument(
+        DATABASE_ID,
+        NOTIFICATION_DIGEST_ITEMS_ID,
+        ID.unique(),
+        {
+            userId,
+            workspaceId: payload.workspaceId,
+            type: payload.type,
+            reason,
+            title: payload.title.slice(0, 512),
+            summary: payload.summary?.slice(0, 2048) || null,
+            workitemId: payload.workitemId || null,
+            workitemKey: payload.workitemKey || null,
+            triggeredByName: payload.triggeredByName || null,
+            deepLinkUrl: payload.deepLinkUrl || null,
+        }
+    );
+}
+
+// =============================================================================
+// PROCESS
+// =============================================================================
+
+export interface DigestRunResult {
+    usersChecked: number;
+    digestsSent: number;
+    itemsSent: number;
+    itemsDiscarded: number;
+    errors: number;
+}
+
+/**
+ * Send every digest that is due
+ *
+ * Safe to run often (e.g. every 15 minutes): users whose digest isn't
+ * due are left untouched, and each user's items are deleted only after
+ * their email went out. The queue is walked one user at a time, so a
+ * backlog of not-yet-due items never delays anyone else's email.
+ */
+export async function processNotificationDigests(now: Date = new Date()): Promise<DigestRunResult> {
+    const { databases, users, messaging } = await createAdminClient();
+    const result: DigestRunResult = {
+        usersChecked: 0,
+        digestsSent: 0,
+        itemsSent: 0,
+        itemsDiscarded: 0,
+        errors: 0,
+    };
+
+    for (
+        let userId = await getNextQueuedUserId(databases);
+        userId;
+        userId = await getNextQueuedUserId(databases, userId)
+    ) {
+        result.usersChecked++;
+
+        try {
+            const user = await users.get(userId);
+            const prefs = user.prefs as { notificationPrefs?: string; notificationDigestSentOn?: string } | undefined;
+            const preferences = parseNotificationPreferences(prefs?.notificationPrefs);
+
+            // Email switched off since these were queued - drop them
+            if (!preferences.emailNotifications || !user.email) {
+                const items = await listQueuedItems(databases, userId);
+                await deleteItems(items);
+                result.itemsDiscarded += items.length;
+                continue;
+            }
+
+            if (!isDigestDue(preferences, now, prefs?.notificationDigestSentOn)) {
+                continue;
+            }
+
+            const items = await listQueuedItems(databases, userId);
+            if (items.length === 0) continue;
+
+            const appUrl = process.env.NEXT_PUBLIC_APP_URL || "";
+            const period = getDigestPeriod(preferences);
+            const subject = period === "catch-up"
+                ? `Fairlx: ${items.length} notification${items.length === 1 ? "" : "s"} from your quiet hours`
+                : `Fairlx ${period} digest: ${items.length} update${items.length === 1 ? "" : "s"}`;
+
+            const body = notificationDigestTemplate({
+                recipientName: user.name || user.email,
+                period,
+                totalCount: items.length,
+                inboxUrl: appUrl || "/",
+                items: items.slice(-MAX_ITEMS_PER_EMAIL).reverse().map((item) => ({
+                    title: item.title,
+                    summary: item.summary || "",
+                    workitemKey: item.workitemKey,
+                    triggeredByName: item.triggeredByName,
+                    url: item.deepLinkUrl || appUrl,
+                })),
+            });
+
+            await messaging.createEmail(
+                ID.unique(),
+                subject,
+                body,
+                [], // Topics
+                [userId], // Users to send to
+                [], // Targets
+                [], // CC
+                [], // BCC
+                [], // Attachments
+                false, // Draft (false = send immediately)
+                true // HTML content
+            );
+
+            await deleteItems(items);
+
+            // Scheduled digests go out once per local day
+            if (preferences.emailDelivery !== "instant") {
+                await users.updatePrefs(userId, {
+                    ...user.prefs,
+                    notificationDigestSentOn: getLocalTime(now, preferences.timezone).dateKey,
+                });
+            }
+
+            result.digestsSent++;
+            result.itemsSent += items.length;
+        } catch (error) {
+            result.errors++;
+            console.error(`[NotificationDigest] Failed for user ${userId}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * First user with queued items after `afterUserId`, jumping over the rest
+ * of that user's items
+ */
+async function getNextQueuedUserId(databases: Databases, afterUserId?: string): Promise<string | null> {
+    const page = await databases.listDocuments<DigestItemDocument>(
+        DATABASE_ID,
+        NOTIFICATION_DIGEST_ITEMS_ID,
+        [
+            ...(afterUserId ? [Query.greaterThan("userId", afterUserId)] : []),
+            Query.orderAsc("userId"),
+            Query.select(["$id", "userId"]),
+            Query.limit(1),
+        ]
+    );
+    return page.documents[0]?.userId ?? null;
+}
+
+/**
+ * All of a user's queued items, oldest first
+ */
+async function listQueuedItems(databases: Databases, userId: string): Promise<DigestItemDocument[]> {
+    const items: DigestItemDocument[] = [];
+    let cursor: string | undefined;
+
+    while (true) {
+        const page = await databases.listDocuments<DigestItemDocument>(
+            DATABASE_ID,
+            NOTIFICATION_DIGEST_ITEMS_ID,
+            [
+                Query.equal("userId", userId),
+                Query.orderAsc("$createdAt"),
+                Query.limit(PAGE_SIZE),
+                ...(cursor ? [Query.cursorAfter(cursor)] : []),
+            ]
+        );
+
+        items.push(...page.documents);
+        if (page.documents.length < PAGE_SIZE) break;
+        cursor = page.documents[page.documents.length - 1].$id;
+    }
+
+    return items;
+}
+
+function getDigestPeriod(preferences: UserNotificationPreferences): "daily" | "weekly" | "catch-up" {
+    return preferences.emailDelivery === "instant" ? "catch-up" : preferences.emailDelivery;
+}
+
+async function deleteItems(items: DigestItemDocument[]): Promise<void> {
+    const { databases } = await createAdminClient();
+
+    await Promise.allSettled(
+        items.map((item) =>
+            databases.deleteDocument(DATABASE_ID, NOTIFICATION_DIGEST_ITEMS_ID, item.$id)
+        )
+    );
+}
@@ -2,9 +2,10 @@
  * Notification Dispatcher
  * 
  * Central notification routing service that:
- * 1. Resolves recipients for workitem events
- * 2. Checks user preferences
+ * 1. Resolves recipients for workitem events (assignees, mentions, watchers...)
+ * 2. Checks user preferences (event x channel matrix, quiet hours)
  * 3. Routes notifications to appropriate channels (socket, email)
+ * 4. Holds back emails for digests / quiet hours (see ./digest)
  * 
  * Failures in one channel do not affect others (isolated execution).
  */
@@ -26,8 +27,11 @@ import {
     getNotificationSummary,
     getDefaultChannelsForEvent,
     EVENTS_NOTIFYING_ALL_ASSIGNEES,
-    EVENTS_NOTIFYING_REPORTER
+    EVENTS_NOTIFYING_REPORTER,
+    EVENTS_NOTIFYING_WATCHERS
 } from "./events";
+import { parseNotificationPreferences, isChannelEnabled, isWithinQuietHours } from "./preferences";
+import { enqueueDigestItem } from "./digest";
 
 // =============================================================================
 // DISPATCHER CLASS
@@ -48,6 +52,14 @@ class NotificationDispatcher {
      */
     async dispatch(event: WorkitemEvent): Promise<void> {
         try {
+            // 0. Automation rules listening to this event (non-blocking).
+            // Loaded lazily: the engine dispatches events itself.
+            import("@/features/automation-rules/server/engine")
+                .then(({ runAutomationRulesForEvent }) => runAutomationRulesForEvent(event))
+                .catch(err => {
+                    console.error("[NotificationDispatcher] Automation rules failed:", err);
+                });
+
             // 1. Handle Project-Level Channels (Broadcast)
             // These channels are triggered once per event, regardless of user recipients.
             const defaultChannels = getDefaultChannelsForEvent(event);
@@ -128,8 +140,23 @@ class NotificationDispatcher {
         // Store in-app notification first (always)
         await this.storeInAppNotification(userId, event, payload);
 
+        // Quiet hours: no push, and email waits for the digest job.
+        // Digest delivery: email always waits.
+        const quiet = isWithinQuietHours(preferences);
+        const holdEmail = quiet || preferences.emailDelivery !== "instant";
+
+        if (holdEmail && channels.includes("email")) {
+            enqueueDigestItem(userId, payload, quiet ? "quiet_hours" : "digest").catch(() => {
+                // Queue write failed - the in-app notification still exists
+            });
+        }
+
+        const liveChannels = channels.filter((channelName) =>
+            !(channelName === "socket" && quiet) && !(channelName === "email" && holdEmail)
+        );
+
         // Dispatch to each channel (parallel, isolated failures)
-        const channelPromises = channels.map(async (channelName) => {
+        const channelPromises = liveChannels.map(async (channelName) => {
             const handler = this.channelHandlers.get(channelName);
             if (handler) {
                 try {
@@ -203,6 +230,23 @@ class NotificationDispatcher {
             recipients.add(event.metadata.userId as string);
         }
 
+        // 7. Add approvers for approval requests, requester for decisions
+        if (event.type === WorkitemEventType.WORKITEM_APPROVAL_REQUESTED && event.metadata?.approverUserIds) {
+            (event.metadata.approverUserIds as string[]).forEach((id) => recipients.add(id));
+        }
+        if (
+            (event.type === WorkitemEventType.WORKITEM_APPROVAL_APPROVED ||
+                event.type === WorkitemEventType.WORKITEM_APPROVAL_REJECTED) &&
+            event.metadata?.requestedBy
+        ) {
+            recipients.add(event.metadata.requestedBy as string);
+        }
+
+        // 8. Add watchers (stored as user IDs)
+        if (EVENTS_NOTIFYING_WATCHERS.includes(event.type)) {
+            (event.workitem.watcherIds || []).forEach((id) => recipients.add(id));
+        }
+
         return Array.from(recipients);
     }
 
@@ -216,16 +260,7 @@ class NotificationDispatcher {
 
             const prefs = user.prefs as { notificationPrefs?: string } | undefined;
 
-            if (prefs?.notificationPrefs) {
-                try {
-                    return {
-                        ...DEFAULT_NOTIFICATION_PREFERENCES,
-                        ...JSON.parse(prefs.notificationPrefs),
-                    };
-                } catch {
-                    // Invalid JSON, use defaults
-                }
-            }
+            return parseNotificationPreferences(prefs?.notificationPrefs);
         } catch {
             // Use default preferences on error
         }
@@ -244,11 +279,11 @@ class NotificationDispatcher {
         const channels: NotificationChannel[] = [];
 
         // User-level channels (only socket and email for now)
-        if (preferences.pushNotifications && defaultChannels.includes("socket")) {
+        if (defaultChannels.includes("socket") && isChannelEnabled(preferences, event.type, "socket")) {
             channels.push("socket");
         }
 
-        if (preferences.emailNotifications && defaultChannels.includes("email")) {
+        if (defaultChannels.includes("email") && isChannelEnabled(preferences, event.type, "email")) {
             channels.push("email");
         }
 
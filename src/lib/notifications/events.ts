@@ -380,6 +380,67 @@ export function createRewardRedeemedEvent(
     });
 }
 
+/**
+ * A transition requiring approval was requested.
+ * Approvers are resolved by the caller (approver team members).
+ */
+export function createApprovalRequestedEvent(
+    workitem: Task,
+    triggeredBy: string,
+    triggeredByName: string,
+    approvalRequestId: string,
+    approverUserIds: string[],
+    fromStatus: string,
+    toStatus: string,
+    comment?: string | null
+): WorkitemEvent {
+    return createWorkitemEvent({
+        type: WorkitemEventType.WORKITEM_APPROVAL_REQUESTED,
+        workitem,
+        triggeredBy,
+        triggeredByName,
+        metadata: {
+            approvalRequestId,
+            approverUserIds,
+            requestedBy: triggeredBy,
+            oldStatus: fromStatus,
+            newStatus: toStatus,
+            ...(comment ? { commentContent: comment.slice(0, 200) } : {}),
+        },
+    });
+}
+
+/**
+ * An approver approved or rejected a pending transition request.
+ */
+export function createApprovalDecidedEvent(
+    workitem: Task,
+    triggeredBy: string,
+    triggeredByName: string,
+    approved: boolean,
+    approvalRequestId: string,
+    requestedBy: string,
+    fromStatus: string,
+    toStatus: string,
+    decisionComment?: string | null
+): WorkitemEvent {
+    return createWorkitemEvent({
+        type: approved
+            ? WorkitemEventType.WORKITEM_APPROVAL_APPROVED
+            : WorkitemEventType.WORKITEM_APPROVAL_REJECTED,
+        workitem,
+        triggeredBy,
+        triggeredByName,
+        metadata: {
+            approvalRequestId,
+            requestedBy,
+            oldStatus: fromStatus,
+            newStatus: toStatus,
+            ...(decisionComment ? { decisionComment: decisionComment.slice(0, 200) } : {}),
+        },
+    });
+}
+
 // =============================================================================
 // NOTIFICATION TITLE/MESSAGE GENERATORS
 // =============================================================================
@@ -418,6 +479,12 @@ export function getNotificationTitle(event: WorkitemEvent): string {
             return "Attachment Removed";
         case WorkitemEventType.WORKITEM_UPDATED:
             return "Task Updated";
+        case WorkitemEventType.WORKITEM_APPROVAL_REQUESTED:
+            return "Approval Requested";
+        case WorkitemEventType.WORKITEM_APPROVAL_APPROVED:
+            return "Transition Approved";
+        case WorkitemEventType.WORKITEM_APPROVAL_REJECTED:
+            return "Transition Rejected";
         case WorkitemEventType.GITHUB_REWARD_REDEEMED:
             return "GitHub Star Reward Credited";
         default:
@@ -458,6 +525,12 @@ export function getNotificationSummary(event: WorkitemEvent): string {
             return `${byName} added an attachment to "${taskName}"`;
         case WorkitemEventType.WORKITEM_ATTACHMENT_DELETED:
             return `${byName} removed an attachment from "${taskName}"`;
+        case WorkitemEventType.WORKITEM_APPROVAL_REQUESTED:
+            return `${byName} requested approval to move "${taskName}" to ${event.metadata?.newStatus || "unknown"}`;
+        case WorkitemEventType.WORKITEM_APPROVAL_APPROVED:
+            return `${byName} approved moving "${taskName}" to ${event.metadata?.newStatus || "unknown"}`;
+        case WorkitemEventType.WORKITEM_APPROVAL_REJECTED:
+            return `${byName} rejected moving "${taskName}" to ${event.metadata?.newStatus || "unknown"}${event.metadata?.decisionComment ? `: ${event.metadata.decisionComment}` : ""}`;
         case WorkitemEventType.GITHUB_REWARD_REDEEMED:
             return `$${Number(event.metadata?.creditAmount || 0).toFixed(2)} has been credited to your wallet from GitHub Star Reward.`;
         default:
@@ -493,6 +566,23 @@ export const EVENTS_NOTIFYING_REPORTER: WorkitemEventType[] = [
     WorkitemEventType.WORKITEM_OVERDUE,
 ];
 
+/**
+ * Event types that should notify users watching the work item
+ */
+export const EVENTS_NOTIFYING_WATCHERS: WorkitemEventType[] = [
+    WorkitemEventType.WORKITEM_ASSIGNED,
+    WorkitemEventType.WORKITEM_UNASSIGNED,
+    WorkitemEventType.WORKITEM_STATUS_CHANGED,
+    WorkitemEventType.WORKITEM_COMPLETED,
+    WorkitemEventType.WORKITEM_DELETED,
+    WorkitemEventType.WORKITEM_PRIORITY_CHANGED,
+    WorkitemEventType.WORKITEM_DUE_DATE_CHANGED,
+    WorkitemEventType.WORKITEM_OVERDUE,
+    WorkitemEventType.WORKITEM_COMMENT_ADDED,
+    WorkitemEventType.WORKITEM_ATTACHMENT_ADDED,
+    WorkitemEventType.WORKITEM_UPDATED,
+];
+
 // =============================================================================
 // CHANNEL DETERMINATION
 // =============================================================================
@@ -29,10 +29,26 @@ export type {
     WorkitemEventMetadata,
     NotificationPayload,
     UserNotificationPreferences,
+    UserNotificationChannel,
+    EmailDeliveryMode,
+    QuietHours,
     ChannelHandler,
     RecipientInfo,
 } from "./types";
 
+// Preferences
+export {
+    parseNotificationPreferences,
+    isChannelEnabled,
+    isWithinQuietHours,
+    isDigestDue,
+    isValidTimezone,
+} from "./preferences";
+
+// Digest queue
+export { enqueueDigestItem, processNotificationDigests } from "./digest";
+export type { DigestReason, DigestRunResult } from "./digest";
+
 // Event creators
 export {
     createWorkitemEvent,
@@ -53,6 +69,8 @@ export {
     createReplyEvent,
     createAttachmentAddedEvent,
     createAttachmentDeletedEvent,
+    createApprovalRequestedEvent,
+    createApprovalDecidedEvent,
     getNotificationTitle,
     getNotificationSummary,
     getDefaultChannelsForEvent,
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  getLocalTime,
+  isChannelEnabled,
+  isDigestDue,
+  isWithinQuietHours,
+  parseNotificationPreferences,
+} from "./preferences";
+import { UserNotificationPreferences, WorkitemEventType } from "./types";
+
+const prefs = (overrides: Partial<UserNotificationPreferences> = {}): UserNotificationPreferences => ({
+  ...parseNotificationPreferences(undefined),
+  ...overrides,
+});
+
+const quiet = (start: string, end: string, timezone = "UTC") =>
+  prefs({ timezone, quietHours: { enabled: true, start, end } });
+
+describe("parseNotificationPreferences", () => {
+  it("fills fields missing from older saved preferences", () => {
+    const parsed = parseNotificationPreferences(JSON.stringify({ emailNotifications: false }));
+
+    expect(parsed.emailNotifications).toBe(false);
+    expect(parsed.pushNotifications).toBe(true);
+    expect(parsed.emailDelivery).toBe("instant");
+    expect(parsed.quietHours.enabled).toBe(false);
+    expect(parsed.eventChannels).toEqual({});
+  });
+
+  it("falls back to defaults on invalid JSON", () => {
+    expect(parseNotificationPreferences("{not json")).toEqual(parseNotificationPreferences(undefined));
+  });
+});
+
+describe("isChannelEnabled", () => {
+  it("defaults every event on when the channel is on", () => {
+    expect(isChannelEnabled(prefs(), WorkitemEventType.WORKITEM_MENTION, "email")).toBe(true);
+  });
+
+  it("lets an event opt out of a single channel", () => {
+    const p = prefs({
+      eventChannels: { [WorkitemEventType.WORKITEM_UPDATED]: { email: false } },
+    });
+
+    expect(isChannelEnabled(p, WorkitemEventType.WORKITEM_UPDATED, "email")).toBe(false);
+    expect(isChannelEnabled(p, WorkitemEventType.WORKITEM_UPDATED, "socket")).toBe(true);
+  });
+
+  it("treats the global toggle as a master switch", () => {
+    const p = prefs({
+      emailNotifications: false,
+      eventChannels: { [WorkitemEventType.WORKITEM_MENTION]: { email: true } },
+    });
+
+    expect(isChannelEnabled(p, WorkitemEventType.WORKITEM_MENTION, "email")).toBe(false);
+  });
+});
+
+describe("getLocalTime", () => {
+  it("converts to the user's wall clock", () => {
+    // 2026-03-02 is a Monday
+    const local = getLocalTime(new Date("2026-03-02T23:30:00Z"), "Asia/Tokyo");
+
+    expect(local.hour).toBe(8);
+    expect(local.minutes).toBe(8 * 60 + 30);
+    expect(local.weekday).toBe(2);
+    expect(local.dateKey).toBe("2026-03-03");
+  });
+
+  it("falls back to UTC for unknown zones", () => {
+    expect(getLocalTime(new Date("2026-03-02T05:00:00Z"), "Mars/Base").hour).toBe(5);
+  });
+});
+
+describe("isWithinQuietHours", () => {
+  it("handles windows spanning midnight", () => {
+    const p = quiet("22:00", "08:00");
+
+    expect(isWithinQuietHours(p, new Date("2026-03-02T23:00:00Z"))).toBe(true);
+    expect(isWithinQuietHours(p, new Date("2026-03-02T07:59:00Z"))).toBe(true);
+    expect(isWithinQuietHours(p, new Date("2026-03-02T08:00:00Z"))).toBe(false);
+    expect(isWithinQuietHours(p, new Date("2026-03-02T12:00:00Z"))).toBe(false);
+  });
+
+  it("uses the user's timezone", () => {
+    const p = quiet("22:00", "08:00", "America/New_York");
+
+    // 03:00 UTC is 22:00 in New York (EST)
+    expect(isWithinQuietHours(p, new Date("2026-03-02T03:00:00Z"))).toBe(true);
+    expect(isWithinQuietHours(p, new Date("2026-03-02T23:00:00Z"))).toBe(false);
+  });
+
+  it("is off when disabled", () => {
+    const p = prefs({ quietHours: { enabled: false, start: "00:00", end: "23:59" } });
+
+    expect(isWithinQuietHours(p, new Date("2026-03-02T12:00:00Z"))).toBe(false);
+  });
+});
+
+describe("isDigestDue", () => {
+  it("sends instant catch-up mail once quiet hours end", () => {
+    const p = quiet("22:00", "08:00");
+
+    expect(isDigestDue(p, new Date("2026-03-02T07:00:00Z"))).toBe(false);
+    expect(isDigestDue(p, new Date("2026-03-02T08:15:00Z"))).toBe(true);
+  });
+
+  it("sends daily digests once per local day from the digest hour", () => {
+    const p = prefs({ emailDelivery: "daily", digestHour: 9 });
+
+    expect(isDigestDue(p, new Date("2026-03-02T08:45:00Z"))).toBe(false);
+    expect(isDigestDue(p, new Date("2026-03-02T09:00:00Z"))).toBe(true);
+    expect(isDigestDue(p, new Date("2026-03-02T15:00:00Z"), "2026-03-02")).toBe(false);
+    expect(isDigestDue(p, new Date("2026-03-03T09:00:00Z"), "2026-03-02")).toBe(true);
+  });
+
+  it("sends weekly digests only on the chosen day", () => {
+    const p = prefs({ emailDelivery: "weekly", digestHour: 9, digestDay: 1 });
+
+    expect(isDigestDue(p, new Date("2026-03-02T10:00:00Z"))).toBe(true);
+    expect(isDigestDue(p, new Date("2026-03-03T10:00:00Z"))).toBe(false);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Notification Preferences
+ *
+ * Pure helpers for reading user notification preferences:
+ * - Event type x channel matrix
+ * - Quiet hours in the user's timezone
+ * - Digest scheduling
+ *
+ * No server imports - shared by the dispatcher, the digest job and the
+ * preferences UI.
+ */
+
+import {
+    WorkitemEventType,
+    UserNotificationChannel,
+    UserNotificationPreferences,
+    DEFAULT_NOTIFICATION_PREFERENCES,
+} from "./types";
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Parse the `notificationPrefs` JSON stored in Appwrite user prefs
+ *
+ * Unknown or invalid input falls back to defaults field by field, so
+ * preferences saved before a field existed keep working.
+ */
+export function parseNotificationPreferences(raw: unknown): UserNotificationPreferences {
+    let stored: Partial<UserNotificationPreferences> = {};
+
+    if (typeof raw === "string" && raw) {
+        try {
+            stored = JSON.parse(raw);
+        } catch {
+            // Invalid JSON, use defaults
+        }
+    } else if (raw && typeof raw === "object") {
+        stored = raw as Partial<UserNotificationPreferences>;
+    }
+
+    return {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        ...stored,
+        eventChannels: { ...stored.eventChannels },
+        quietHours: {
+            ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours,
+            ...stored.quietHours,
+        },
+    };
+}
+
+// =============================================================================
+// CHANNEL MATRIX
+// =============================================================================
+
+/**
+ * Whether a user wants an event type on a channel
+ *
+ * The global toggle is a master switch; per-event entries can only
+ * turn a channel off.
+ */
+export function isChannelEnabled(
+    preferences: UserNotificationPreferences,
+    eventType: WorkitemEventType,
+    channel: UserNotificationChannel
+): boolean {
+    const master = channel === "email" ? preferences.emailNotifications : preferences.pushNotifications;
+    if (!master) {
+        return false;
+    }
+
+    return preferences.eventChannels[eventType]?.[channel] ?? true;
+}
+
+// =============================================================================
+// TIME HELPERS
+// =============================================================================
+
+interface LocalTime {
+    /** Minutes since local midnight */
+    minutes: number;
+    /** Local hour (0-23) */
+    hour: number;
+    /** Local day of week, 0 = Sunday */
+    weekday: number;
+    /** Local calendar date, "YYYY-MM-DD" */
+    dateKey: string;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Check that a string is an IANA timezone this runtime knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Wall-clock time in a timezone (falls back to UTC for unknown zones)
+ */
+export function getLocalTime(date: Date, timezone: string): LocalTime {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: isValidTimezone(timezone) ? timezone : "UTC",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        weekday: "short",
+        hourCycle: "h23",
+    });
+
+    const parts = Object.fromEntries(
+        formatter.formatToParts(date).map((part) => [part.type, part.value])
+    );
+
+    const hour = Number(parts.hour) % 24;
+    const minute = Number(parts.minute);
+
+    return {
+        minutes: hour * 60 + minute,
+        hour,
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    };
+}
+
+function parseClock(value: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+
+    return hours * 60 + minutes;
+}
+
+// =============================================================================
+// QUIET HOURS
+// =============================================================================
+
+/**
+ * Whether `now` falls inside the user's quiet hours
+ *
+ * Windows that end before they start span midnight (22:00 - 08:00).
+ * Start is inclusive, end is exclusive.
+ */
+export function isWithinQuietHours(
+    preferences: UserNotificationPreferences,
+    now: Date = new Date()
+): boolean {
+    const { enabled, start, end } = preferences.quietHours;
+    if (!enabled) {
+        return false;
+    }
+
+    const startMinutes = parseClock(start);
+    const endMinutes = parseClock(end);
+    if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) {
+        return false;
+    }
+
+    const { minutes } = getLocalTime(now, preferences.timezone);
+
+    return startMinutes < endMinutes
+        ? minutes >= startMinutes && minutes < endMinutes
+        : minutes >= startMinutes || minutes < endMinutes;
+}
+
+// =============================================================================
+// DIGESTS
+// =============================================================================
+
+/**
+ * Whether queued emails for a user should be sent now
+ *
+ * - instant: whenever quiet hours are over (catch-up for deferred emails)
+ * - daily: once per local day, from `digestHour` on
+ * - weekly: once on `digestDay`, from `digestHour` on
+ *
+ * Never during quiet hours. `lastSentOn` is the local date key of the
+ * previous digest, so a missed cron run still sends later that day.
+ */
+export function isDigestDue(
+    preferences: UserNotificationPreferences,
+    now: Date,
+    lastSentOn?: string | null
+): boolean {
+    if (isWithinQuietHours(preferences, now)) {
+        return false;
+    }
+
+    if (preferences.emailDelivery === "instant") {
+        return true;
+    }
+
+    const local = getLocalTime(now, preferences.timezone);
+
+    if (local.hour < preferences.digestHour || lastSentOn === local.dateKey) {
+        return false;
+    }
+
+    if (preferences.emailDelivery === "weekly" && local.weekday !== preferences.digestDay) {
+        return false;
+    }
+
+    return true;
+}
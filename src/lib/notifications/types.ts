@@ -35,6 +35,11 @@ export enum WorkitemEventType {
     WORKITEM_ATTACHMENT_ADDED = "WORKITEM_ATTACHMENT_ADDED",
     WORKITEM_ATTACHMENT_DELETED = "WORKITEM_ATTACHMENT_DELETED",
 
+    // Workflow approval events
+    WORKITEM_APPROVAL_REQUESTED = "WORKITEM_APPROVAL_REQUESTED",
+    WORKITEM_APPROVAL_APPROVED = "WORKITEM_APPROVAL_APPROVED",
+    WORKITEM_APPROVAL_REJECTED = "WORKITEM_APPROVAL_REJECTED",
+
     // Workspace events
     WORKSPACE_MEMBER_ADDED = "WORKSPACE_MEMBER_ADDED",
     WORKSPACE_MEMBER_REMOVED = "WORKSPACE_MEMBER_REMOVED",
@@ -110,6 +115,12 @@ export interface WorkitemEventMetadata {
     attachmentId?: string;
     attachmentName?: string;
 
+    // Transition approval
+    approvalRequestId?: string;
+    approverUserIds?: string[];
+    requestedBy?: string;
+    decisionComment?: string;
+
     // Generic changes description
     changesDescription?: string;
 
@@ -157,6 +168,21 @@ export interface NotificationPayload {
 // USER PREFERENCES
 // =============================================================================
 
+/** Channels a user can control (webhooks are project-level) */
+export type UserNotificationChannel = "socket" | "email";
+
+/** How email notifications are delivered */
+export type EmailDeliveryMode = "instant" | "daily" | "weekly";
+
+export interface QuietHours {
+    /** Enable/disable quiet hours (default: false) */
+    enabled: boolean;
+    /** Local start time, "HH:mm" */
+    start: string;
+    /** Local end time, "HH:mm" (may be earlier than start to span midnight) */
+    end: string;
+}
+
 export interface UserNotificationPreferences {
     /** Enable/disable email notifications (default: true) */
     emailNotifications: boolean;
@@ -168,6 +194,21 @@ export interface UserNotificationPreferences {
     mutedProjects: string[];
     /** Suppress notifications for own actions (default: true) */
     selfActionSuppression: boolean;
+    /**
+     * Per event type channel overrides. Missing entries are enabled;
+     * the global toggles above still act as master switches.
+     */
+    eventChannels: Partial<Record<WorkitemEventType, Partial<Record<UserNotificationChannel, boolean>>>>;
+    /** IANA timezone for quiet hours and digests (e.g. "Europe/Berlin") */
+    timezone: string;
+    /** No push and no instant email inside this window */
+    quietHours: QuietHours;
+    /** Send emails immediately or batch them into a digest (default: instant) */
+    emailDelivery: EmailDeliveryMode;
+    /** Local hour (0-23) digests go out (default: 9) */
+    digestHour: number;
+    /** Day of week for weekly digests, 0 = Sunday (default: 1) */
+    digestDay: number;
 }
 
 export const DEFAULT_NOTIFICATION_PREFERENCES: UserNotificationPreferences = {
@@ -176,6 +217,16 @@ export const DEFAULT_NOTIFICATION_PREFERENCES: UserNotificationPreferences = {
     mutedWorkitems: [],
     mutedProjects: [],
     selfActionSuppression: true,
+    eventChannels: {},
+    timezone: "UTC",
+    quietHours: {
+        enabled: false,
+        start: "22:00",
+        end: "08:00",
+    },
+    emailDelivery: "instant",
+    digestHour: 9,
+    digestDay: 1,
 };
 
 // =============================================================================
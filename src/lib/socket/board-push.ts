@@ -0,0 +1,105 @@
+/**
+ * Board Event Push
+ * 
+ * Broadcasts work item changes to everyone on a project board.
+ * 
+ * API routes run inside Next.js, which does not share module state with
+ * the custom server holding the Socket.IO instance, so - like the socket
+ * notification channel - this goes through an internal HTTP endpoint:
+ * POST /internal/board-push -> emitToProject()
+ * 
+ * GUARANTEES:
+ * - Fire-and-forget (returns immediately, never throws)
+ * - No-op when the custom server isn't running
+ */
+
+import { BoardEventType, BoardItemChange, SocketBoardEventPayload } from "./types";
+
+// SECURITY: Internal secret must match the one in server.ts - no fallback allowed
+const SOCKET_PUSH_SECRET = process.env.SOCKET_PUSH_SECRET;
+const BOARD_PUSH_URL = `http://localhost:${process.env.PORT || 3000}/internal/board-push`;
+
+/** Fields the kanban and sprint boards render from a work item */
+const BOARD_FIELDS = [
+    "title",
+    "status",
+    "position",
+    "priority",
+    "type",
+    "labels",
+    "flagged",
+    "dueDate",
+    "startDate",
+    "assigneeIds",
+    "sprintId",
+    "epicId",
+    "parentId",
+    "storyPoints",
+    "estimatedHours",
+] as const;
+
+interface PushBoardEventParams {
+    type: BoardEventType;
+    projectId: string;
+    workspaceId: string;
+    actorId: string;
+    items: BoardItemChange[];
+}
+
+/**
+ * Push a board event to a project room
+ * 
+ * Call AFTER the DB write succeeded. Do NOT await.
+ */
+export function pushBoardEvent({ type, projectId, workspaceId, actorId, items }: PushBoardEventParams): void {
+    if (!SOCKET_PUSH_SECRET || !projectId || items.length === 0) {
+        return;
+    }
+
+    const payload: SocketBoardEventPayload = {
+        type,
+        projectId,
+        workspaceId,
+        actorId,
+        items,
+        emittedAt: new Date().toISOString(),
+    };
+
+    fetch(BOARD_PUSH_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payload, secret: SOCKET_PUSH_SECRET }),
+    })
+        .then((response) => {
+            if (!response.ok) {
+                console.debug(`[BoardPush] Push failed with status: ${response.status}`);
+            }
+        })
+        .catch((error) => {
+            // Happens when running without the custom server, which is fine
+            console.debug("[BoardPush] Push failed (server not available):", error instanceof Error ? error.message : "unknown");
+        });
+}
+
+/**
+ * Pick the board-relevant fields that changed on a work item
+ * 
+ * Keeps the socket payload small and avoids leaking fields the board
+ * never renders.
+ */
+export function pickBoardChanges(
+    item: Record<string, unknown>,
+    fields: readonly string[] = BOARD_FIELDS
+): Record<string, unknown> {
+    const changes: Record<string, unknown> = {};
+    for (const field of fields) {
+        if (item[field] !== undefined) {
+            changes[field] = item[field];
+        }
+    }
+    // Task list endpoints alias title as name for older components
+    if (changes.title !== undefined) {
+        changes.name = changes.title;
+    }
+    return changes;
+}
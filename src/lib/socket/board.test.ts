@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { applyBoardEvent, changesAssignees, mergePresenceEntries } from "./board";
+import { BoardPresenceEntry, SocketBoardEventPayload } from "./types";
+
+const event = (overrides: Partial<SocketBoardEventPayload>): SocketBoardEventPayload => ({
+  type: "workitem:updated",
+  projectId: "p1",
+  workspaceId: "w1",
+  actorId: "u2",
+  items: [],
+  emittedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const docs = [
+  { $id: "a", status: "TODO", position: 1000, assigneeIds: ["u1"] },
+  { $id: "b", status: "TODO", position: 2000, assigneeIds: [] as string[] },
+];
+
+describe("applyBoardEvent", () => {
+  it("merges changes into matching items", () => {
+    const next = applyBoardEvent(
+      docs,
+      event({ type: "workitem:moved", items: [{ $id: "a", changes: { status: "DONE", position: 3000 } }] })
+    );
+
+    expect(next[0]).toMatchObject({ $id: "a", status: "DONE", position: 3000 });
+    expect(next[1]).toBe(docs[1]);
+  });
+
+  it("removes deleted items", () => {
+    const next = applyBoardEvent(docs, event({ type: "workitem:deleted", items: [{ $id: "b" }] }));
+
+    expect(next.map((doc) => doc.$id)).toEqual(["a"]);
+  });
+
+  it("returns the same array when no cached item is affected", () => {
+    expect(applyBoardEvent(docs, event({ items: [{ $id: "z", changes: { status: "DONE" } }] }))).toBe(docs);
+    expect(applyBoardEvent(docs, event({ type: "workitem:created", items: [{ $id: "c" }] }))).toBe(docs);
+  });
+});
+
+describe("changesAssignees", () => {
+  it("detects a different assignee set", () => {
+    expect(changesAssignees(docs, event({ items: [{ $id: "a", changes: { assigneeIds: ["u1", "u3"] } }] }))).toBe(true);
+  });
+
+  it("ignores unchanged assignees and unknown items", () => {
+    expect(changesAssignees(docs, event({ items: [{ $id: "a", changes: { assigneeIds: ["u1"] } }] }))).toBe(false);
+    expect(changesAssignees(docs, event({ items: [{ $id: "z", changes: { assigneeIds: ["u1"] } }] }))).toBe(false);
+  });
+});
+
+describe("mergePresenceEntries", () => {
+  const entry = (overrides: Partial<BoardPresenceEntry>): BoardPresenceEntry => ({
+    userId: "u1",
+    name: "Ada",
+    workItemId: null,
+    mode: "viewing",
+    ...overrides,
+  });
+
+  it("keeps one entry per user, preferring editing over viewing", () => {
+    const merged = mergePresenceEntries([
+      entry({ workItemId: "a" }),
+      entry({ workItemId: "b", mode: "editing" }),
+      entry({}),
+    ]);
+
+    expect(merged).toEqual([entry({ workItemId: "b", mode: "editing" })]);
+  });
+
+  it("sorts users by name", () => {
+    const merged = mergePresenceEntries([
+      entry({ userId: "u2", name: "Zoe" }),
+      entry({ userId: "u1", name: "Ada" }),
+    ]);
+
+    expect(merged.map((e) => e.name)).toEqual(["Ada", "Zoe"]);
+  });
+});
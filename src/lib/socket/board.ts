@@ -0,0 +1,92 @@
+/**
+ * Board Collaboration Helpers
+ * 
+ * Pure helpers shared by the socket server and the board client hook.
+ * No socket.io imports here - safe to bundle on the client.
+ */
+
+import {
+    BoardPresenceEntry,
+    SocketBoardEventPayload,
+} from "./types";
+
+/**
+ * Room name for a project board
+ */
+export function getProjectRoom(projectId: string): string {
+    return `project:${projectId}`;
+}
+
+/**
+ * Collapse per-socket presence into one entry per user
+ * 
+ * A user with several tabs open shows up once. Editing wins over
+ * viewing, and focusing a specific item wins over just the board.
+ */
+export function mergePresenceEntries(entries: BoardPresenceEntry[]): BoardPresenceEntry[] {
+    const rank = (entry: BoardPresenceEntry) =>
+        (entry.mode === "editing" ? 2 : 0) + (entry.workItemId ? 1 : 0);
+
+    const byUser = new Map<string, BoardPresenceEntry>();
+    for (const entry of entries) {
+        const existing = byUser.get(entry.userId);
+        if (!existing || rank(entry) > rank(existing)) {
+            byUser.set(entry.userId, entry);
+        }
+    }
+
+    return Array.from(byUser.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Apply a board event to a cached list of work items
+ * 
+ * Returns the same array when nothing changed so React Query can skip
+ * re-rendering. Creates are NOT applied here: the new item lacks the
+ * populated fields (assignees, project) - callers refetch instead.
+ */
+export function applyBoardEvent<T extends { $id: string }>(
+    documents: T[],
+    event: SocketBoardEventPayload
+): T[] {
+    if (event.type === "workitem:created") {
+        return documents;
+    }
+
+    const ids = new Set(event.items.map((item) => item.$id));
+    if (!documents.some((doc) => ids.has(doc.$id))) {
+        return documents;
+    }
+
+    if (event.type === "workitem:deleted") {
+        return documents.filter((doc) => !ids.has(doc.$id));
+    }
+
+    const changesById = new Map(event.items.map((item) => [item.$id, item.changes]));
+    return documents.map((doc) => {
+        const changes = changesById.get(doc.$id);
+        return changes ? { ...doc, ...changes } : doc;
+    });
+}
+
+/**
+ * Whether an event changes assignees of any cached item
+ * 
+ * Lists carry populated assignee objects that a socket payload can't
+ * rebuild, so these changes need a refetch rather than a merge.
+ */
+export function changesAssignees<T extends { $id: string; assigneeIds?: string[] | null }>(
+    documents: T[],
+    event: SocketBoardEventPayload
+): boolean {
+    const byId = new Map(documents.map((doc) => [doc.$id, doc]));
+
+    return event.items.some((item) => {
+        const next = item.changes?.assigneeIds as string[] | undefined;
+        const doc = byId.get(item.$id);
+        if (!next || !doc) return false;
+
+        const current = doc.assigneeIds || [];
+        return current.length !== next.length || current.some((id) => !next.includes(id));
+    });
+}
@@ -0,0 +1,30 @@
+/**
+ * Socket.IO Client Singleton
+ * 
+ * One browser connection shared by every socket hook
+ * (notifications, board collaboration). Not exported from the module
+ * index - that pulls in the server.
+ */
+
+import { io, Socket } from "socket.io-client";
+
+let socketInstance: Socket | null = null;
+
+export function getClientSocket(): Socket {
+    if (!socketInstance) {
+        const socketUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+        socketInstance = io(socketUrl, {
+            path: "/api/socket",
+            transports: ["websocket", "polling"],
+            // The session cookie authorizes board joins
+            withCredentials: true,
+            autoConnect: false,
+            reconnection: true,
+            reconnectionAttempts: 5,
+            reconnectionDelay: 1000,
+            reconnectionDelayMax: 5000,
+        });
+    }
+    return socketInstance;
+}
@@ -7,9 +7,12 @@
  * - initSocketServer() - Initialize with HTTP server
  * - emitToUser() - Push to specific user
  * - pushNotificationToSocket() - Convenient wrapper for notifications
+ * - emitToProject() - Broadcast a board event to a project room
+ * - pushBoardEvent() - HTTP bridge for board events from API routes
  * 
  * Client-side:
- * - Use socket.io-client directly (see client hook)
+ * - Use socket.io-client directly (see client hooks)
+ * - getClientSocket() in ./client shares one connection between hooks
  */
 
 // Server exports
@@ -19,6 +22,7 @@ export {
     isSocketServerAvailable,
     emitToUser,
     emitToUsers,
+    emitToProject,
     getConnectedUserCount,
     isUserConnected,
 } from "./server";
@@ -28,9 +32,28 @@ export {
     pushNotificationToSocket,
 } from "./push";
 
+// Board exports
+export {
+    pushBoardEvent,
+    pickBoardChanges,
+} from "./board-push";
+
+export {
+    getProjectRoom,
+    mergePresenceEntries,
+    applyBoardEvent,
+    changesAssignees,
+} from "./board";
+
 // Type exports
 export type {
     SocketNotificationPayload,
     SocketAuthPayload,
     SocketEventMap,
+    BoardEventType,
+    BoardItemChange,
+    SocketBoardEventPayload,
+    BoardPresenceMode,
+    BoardPresenceEntry,
+    SocketPresenceStatePayload,
 } from "./types";
@@ -4,13 +4,17 @@
  * This module provides a WebSocket server for real-time push notifications.
  * It runs alongside the Next.js server and handles:
  * - User authentication via session token
+ * - Board joins authorized against the session cookie and project access
  * - User-scoped rooms (user:{userId})
+ * - Project board rooms (project:{projectId}) with presence
  * - Safe emit helpers with fire-and-forget semantics
  * 
  * ARCHITECTURE:
  * - This is a SINGLETON server instance
  * - Notifications are pushed AFTER DB write (fire-and-forget)
  * - Socket failures are logged but NEVER block notifications
+ * - Presence lives on socket.data so fetchSockets() sees every
+ *   instance through the Redis adapter
  * 
  * INTEGRATION:
  * - Called from createNotification() after DB write
@@ -21,7 +25,28 @@ import { Server as SocketIOServer, Socket } from "socket.io";
 import { Server as HTTPServer } from "http";
 import { createAdapter } from "@socket.io/redis-adapter";
 import { getRedisClient, getRedisSubscriber } from "@/lib/redis/client";
-import { SocketNotificationPayload, SocketAuthPayload } from "./types";
+import {
+    SocketNotificationPayload,
+    SocketAuthPayload,
+    SocketBoardEventPayload,
+    SocketBoardJoinPayload,
+    SocketPresenceUpdatePayload,
+    BoardPresenceEntry,
+    BoardPresenceMode,
+} from "./types";
+import { getProjectRoom, mergePresenceEntries } from "./board";
+import { ProjectPermissionKey } from "@/lib/permissions/types";
+
+/**
+ * Per-socket board state (serialized across instances by the adapter)
+ */
+interface BoardSocketData {
+    userId?: string;
+    name?: string;
+    imageUrl?: string | null;
+    /** projectId -> current focus on that board */
+    boards?: Record<string, { workItemId: string | null; mode: BoardPresenceMode }>;
+}
 
 // =============================================================================
 // SINGLETON INSTANCE
@@ -30,6 +55,9 @@ import { SocketNotificationPayload, SocketAuthPayload } from "./types";
 let io: SocketIOServer | null = null;
 const connectedUsers = new Map<string, Set<string>>(); // userId -> Set of socket IDs
 
+// The socket server shares its process with Next.js, so the API is on loopback
+const INTERNAL_APP_URL = `http://127.0.0.1:${process.env.PORT || "3000"}`;
+
 // =============================================================================
 // INITIALIZATION
 // =============================================================================
@@ -105,6 +133,19 @@ function handleConnection(socket: Socket): void {
         handleAuth(socket, payload);
     });
 
+    // Handle board rooms and presence
+    socket.on("board:join", (payload: SocketBoardJoinPayload) => {
+        void handleBoardJoin(socket, payload);
+    });
+
+    socket.on("board:leave", (payload: { projectId: string }) => {
+        handleBoardLeave(socket, payload?.projectId);
+    });
+
+    socket.on("presence:update", (payload: SocketPresenceUpdatePayload) => {
+        handlePresenceUpdate(socket, payload);
+    });
+
     // Handle disconnection
     socket.on("disconnect", () => {
         handleDisconnect(socket);
@@ -143,6 +184,7 @@ function handleAuth(socket: Socket, payload: SocketAuthPayload): void {
 
         // Store userId on socket for disconnect handling
         (socket as Socket & { userId?: string }).userId = userId;
+        (socket.data as BoardSocketData).userId = userId;
 
         // Emit success
         socket.emit("auth:success", {
@@ -154,12 +196,173 @@ function handleAuth(socket: Socket, payload: SocketAuthPayload): void {
     }
 }
 
+/**
+ * Call the app API as the socket's user, with the session cookie sent on
+ * the handshake. Returns null when the session or the request is refused.
+ */
+async function fetchAsSocketUser<T>(socket: Socket, path: string): Promise<T | null> {
+    const cookie = socket.handshake.headers.cookie;
+    if (!cookie) return null;
+
+    const response = await fetch(`${INTERNAL_APP_URL}${path}`, { headers: { cookie } });
+    if (!response.ok) return null;
+
+    const { data } = (await response.json()) as { data: T };
+    return data ?? null;
+}
+
+/**
+ * Resolve who is joining from their session, and check they can see the
+ * project's work items (the room carries titles and statuses)
+ */
+async function authorizeBoardJoin(
+    socket: Socket,
+    userId: string,
+    projectId: string
+): Promise<{ name: string; imageUrl: string | null } | null> {
+    const user = await fetchAsSocketUser<{ $id: string; name?: string; email?: string; prefs?: { profileImageUrl?: string } }>(
+        socket,
+        "/api/auth/current"
+    );
+    if (!user || user.$id !== userId) return null;
+
+    const access = await fetchAsSocketUser<{ hasAccess: boolean; permissions: string[] }>(
+        socket,
+        `/api/project-members/permissions?projectId=${encodeURIComponent(projectId)}`
+    );
+    if (!access?.hasAccess || !access.permissions.includes(ProjectPermissionKey.VIEW_TASKS)) {
+        return null;
+    }
+
+    return {
+        name: user.name || user.email || "Someone",
+        imageUrl: user.prefs?.profileImageUrl ?? null,
+    };
+}
+
+/**
+ * Join a project board room
+ * 
+ * Requires a prior auth:connect on this socket, a valid session cookie and
+ * permission to view the project's work items.
+ */
+async function handleBoardJoin(socket: Socket, payload: SocketBoardJoinPayload): Promise<void> {
+    try {
+        const data = socket.data as BoardSocketData;
+
+        if (!data.userId) {
+            socket.emit("auth:error", { message: "Authenticate before joining a board" });
+            return;
+        }
+
+        if (!payload?.projectId) {
+            return;
+        }
+
+        const profile = await authorizeBoardJoin(socket, data.userId, payload.projectId);
+        if (!profile) {
+            socket.emit("auth:error", { message: "Not allowed to join this board" });
+            return;
+        }
+
+        data.name = profile.name;
+        data.imageUrl = profile.imageUrl;
+        data.boards = {
+            ...data.boards,
+            [payload.projectId]: { workItemId: null, mode: "viewing" },
+        };
+
+        socket.join(getProjectRoom(payload.projectId));
+        void broadcastPresence(payload.projectId);
+    } catch {
+        // Presence is best-effort
+    }
+}
+
+/**
+ * Leave a project board room
+ */
+function handleBoardLeave(socket: Socket, projectId: string | undefined): void {
+    if (!projectId) return;
+
+    const data = socket.data as BoardSocketData;
+    if (data.boards) {
+        delete data.boards[projectId];
+    }
+
+    socket.leave(getProjectRoom(projectId));
+    void broadcastPresence(projectId);
+}
+
+/**
+ * Record which item a user is viewing or editing on a board
+ */
+function handlePresenceUpdate(socket: Socket, payload: SocketPresenceUpdatePayload): void {
+    const data = socket.data as BoardSocketData;
+
+    if (!payload?.projectId || !data.boards?.[payload.projectId]) {
+        return; // Not on this board
+    }
+
+    data.boards[payload.projectId] = {
+        workItemId: payload.workItemId ?? null,
+        mode: payload.mode === "editing" ? "editing" : "viewing",
+    };
+
+    void broadcastPresence(payload.projectId);
+}
+
+/**
+ * Send the full presence list for a board to everyone in its room
+ * 
+ * fetchSockets() goes through the adapter, so with Redis attached this
+ * includes sockets connected to other instances.
+ */
+async function broadcastPresence(projectId: string): Promise<void> {
+    try {
+        if (!io) return;
+
+        const room = getProjectRoom(projectId);
+        const sockets = await io.in(room).fetchSockets();
+
+        const entries: BoardPresenceEntry[] = [];
+        for (const remote of sockets) {
+            const data = remote.data as BoardSocketData;
+            const focus = data.boards?.[projectId];
+            if (!data.userId || !focus) continue;
+
+            entries.push({
+                userId: data.userId,
+                name: data.name || "Someone",
+                imageUrl: data.imageUrl ?? null,
+                workItemId: focus.workItemId,
+                mode: focus.mode,
+            });
+        }
+
+        io.to(room).emit("presence:state", {
+            projectId,
+            users: mergePresenceEntries(entries),
+        });
+    } catch {
+        // Presence is best-effort
+    }
+}
+
 /**
  * Handle socket disconnection
  */
 function handleDisconnect(socket: Socket): void {
     const userId = (socket as Socket & { userId?: string }).userId;
 
+    // Rooms are already left here - tell the boards this socket was on
+    const boards = (socket.data as BoardSocketData).boards;
+    if (boards) {
+        const projectIds = Object.keys(boards);
+        (socket.data as BoardSocketData).boards = {};
+        projectIds.forEach((projectId) => void broadcastPresence(projectId));
+    }
+
     if (userId) {
         const userSockets = connectedUsers.get(userId);
         if (userSockets) {
@@ -210,6 +413,26 @@ export function emitToUsers(userIds: string[], payload: SocketNotificationPayloa
     userIds.forEach((userId) => emitToUser(userId, payload));
 }
 
+/**
+ * Emit a board event to everyone viewing a project board
+ * 
+ * Same fire-and-forget contract as emitToUser().
+ * 
+ * @param payload - Board event payload (payload.projectId selects the room)
+ */
+export function emitToProject(payload: SocketBoardEventPayload): void {
+    try {
+        if (!io) {
+            console.debug("[SocketServer] Server not initialized, skipping board emit");
+            return;
+        }
+
+        io.to(getProjectRoom(payload.projectId)).emit("board:event", payload);
+    } catch {
+        // CRITICAL: Never throw - fire and forget
+    }
+}
+
 /**
  * Get count of connected users
  */
@@ -1,7 +1,8 @@
 /**
  * Socket Push Notification Types
  * 
- * Lightweight payload types for WebSocket push notifications.
+ * Lightweight payload types for WebSocket push notifications
+ * and real-time board collaboration.
  */
 
 export interface SocketNotificationPayload {
@@ -30,6 +31,77 @@ export interface SocketAuthPayload {
     sessionToken?: string;
 }
 
+// =============================================================================
+// BOARD COLLABORATION
+// =============================================================================
+
+/** Kind of change broadcast to a project board room */
+export type BoardEventType =
+    | "workitem:created"
+    | "workitem:updated"
+    | "workitem:moved"
+    | "workitem:deleted"
+    | "workitem:reordered";
+
+/** A single work item touched by a board event */
+export interface BoardItemChange {
+    /** Work item ID */
+    $id: string;
+    /** Changed fields (omitted for create/delete) */
+    changes?: Record<string, unknown>;
+}
+
+export interface SocketBoardEventPayload {
+    /** What happened */
+    type: BoardEventType;
+    /** Project the items belong to (room key) */
+    projectId: string;
+    /** Workspace ID */
+    workspaceId: string;
+    /** User who made the change */
+    actorId: string;
+    /** Affected work items */
+    items: BoardItemChange[];
+    /** Timestamp when the change was broadcast */
+    emittedAt: string;
+}
+
+/** What a user is doing on a board */
+export type BoardPresenceMode = "viewing" | "editing";
+
+export interface SocketBoardJoinPayload {
+    /** Project board to join */
+    projectId: string;
+    /** Display name; the server uses the session user's own name */
+    name?: string;
+    /** Avatar URL; the server uses the session user's own avatar */
+    imageUrl?: string | null;
+}
+
+export interface SocketPresenceUpdatePayload {
+    /** Project board the update applies to */
+    projectId: string;
+    /** Work item being viewed or edited (null = just the board) */
+    workItemId: string | null;
+    /** Viewing or editing */
+    mode: BoardPresenceMode;
+}
+
+export interface BoardPresenceEntry {
+    userId: string;
+    name: string;
+    imageUrl?: string | null;
+    workItemId: string | null;
+    mode: BoardPresenceMode;
+}
+
+export interface SocketPresenceStatePayload {
+    /** Project board the state belongs to */
+    projectId: string;
+    /** One entry per user currently on the board */
+    users: BoardPresenceEntry[];
+}
+
 export interface SocketEventMap {
     /** New notification event */
     "notification:new": SocketNotificationPayload;
@@ -39,4 +111,14 @@ export interface SocketEventMap {
     "auth:success": { userId: string; connectedAt: string };
     /** Authentication failure */
     "auth:error": { message: string };
+    /** Join a project board room */
+    "board:join": SocketBoardJoinPayload;
+    /** Leave a project board room */
+    "board:leave": { projectId: string };
+    /** Work item change on a joined board */
+    "board:event": SocketBoardEventPayload;
+    /** Client reports what it is viewing/editing */
+    "presence:update": SocketPresenceUpdatePayload;
+    /** Full presence list for a board */
+    "presence:state": SocketPresenceStatePayload;
 }
@@ -3,7 +3,8 @@ import type { SprintStatus, WorkItemType, WorkItemStatus, WorkItemPriority } fro
 import type { TaskStatus, TaskPriority } from "@/features/tasks/types";
 import type { 
     ProjectStatus, 
-    BoardType 
+    BoardType,
+    WipEnforcement
 } from "@/features/projects/types";
 import type { 
     ProgramStatus, 
@@ -478,6 +479,7 @@ export const DUMMY_PROJECT_DETAIL = {
     customWorkItemTypes: [],
     customPriorities: [],
     customLabels: [],
+    wipEnforcement: "OVERRIDE" as WipEnforcement,
     $collectionId: "projects",
     $databaseId: "main",
     $permissions: [],